@@ -0,0 +1,114 @@
+/**
+ * LinkPreviewCard Component
+ * Card for the first link in a post or message, built from the page's
+ * OpenGraph metadata. Opens the link in the browser when tapped.
+ */
+
+import React, { memo, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, Image, Linking } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useAppColors } from '@/hooks/useAppColors';
+import { LinkPreview } from '@/types';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  /** Smaller layout without the image, for chat bubbles */
+  compact?: boolean;
+}
+
+function LinkPreviewCard({ preview, compact = false }: LinkPreviewCardProps) {
+  const appColors = useAppColors();
+  const [imageError, setImageError] = useState(false);
+  const showImage = !compact && !!preview.image_url && !imageError;
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.container,
+        { backgroundColor: appColors.surfaceSecondary, borderColor: appColors.border },
+        compact && styles.containerCompact,
+      ]}
+      onPress={() => Linking.openURL(preview.url)}
+      activeOpacity={0.8}
+    >
+      {showImage ? (
+        <Image
+          source={{ uri: preview.image_url! }}
+          style={styles.image}
+          resizeMode="cover"
+          onError={() => setImageError(true)}
+        />
+      ) : null}
+
+      <View style={styles.body}>
+        {preview.site_name ? (
+          <View style={styles.siteRow}>
+            <Ionicons name="link-outline" size={12} color={appColors.textSecondary} />
+            <ThemedText
+              style={[styles.siteName, { color: appColors.textSecondary }]}
+              numberOfLines={1}
+            >
+              {preview.site_name}
+            </ThemedText>
+          </View>
+        ) : null}
+
+        <ThemedText style={[styles.title, { color: appColors.textPrimary }]} numberOfLines={2}>
+          {preview.title}
+        </ThemedText>
+
+        {preview.description && !compact ? (
+          <ThemedText
+            style={[styles.description, { color: appColors.textSecondary }]}
+            numberOfLines={2}
+          >
+            {preview.description}
+          </ThemedText>
+        ) : null}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+export default memo(LinkPreviewCard);
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  containerCompact: {
+    marginTop: Spacing.sm,
+    marginBottom: 0,
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 1.91,
+  },
+  body: {
+    padding: Spacing.md,
+    gap: 2,
+  },
+  siteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  siteName: {
+    ...Typography.small,
+    flexShrink: 1,
+  },
+  title: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  description: {
+    ...Typography.small,
+    lineHeight: 18,
+  },
+});
@@ -3,165 +3,151 @@
  * Pin important posts to profile
  */
 
-import React, { useState, useCallback, memo, useEffect } from 'react';
+import React, { useCallback, memo } from 'react';
 import {
   View,
   StyleSheet,
   TouchableOpacity,
   Alert,
-  FlatList,
   ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { ThemedText } from '@/components/ThemedText';
-import { Colors, Spacing, BorderRadius, Typography, Shadows } from '@/constants/theme';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { haptics } from '@/lib/haptics';
-import { postsApi } from '@/lib/api';
-
-// Types
-export interface PinnedPost {
-  postId: number;
-  pinnedAt: string;
-  order: number;
-}
+import { postsApi, usersApi, Post } from '@/lib/api';
 
+// Matches LIMITS.PINNED_POSTS_MAX on the server
 const MAX_PINNED_POSTS = 3;
-const PINNED_POSTS_KEY = 'pinned_posts';
+
+const pinnedPostsKey = (userId: string) => ['pinnedPosts', userId];
+
+function showLimitAlert() {
+  haptics.warning();
+  Alert.alert(
+    'Maximum Pinned Posts',
+    `You can only pin up to ${MAX_PINNED_POSTS} posts. Unpin another post first.`
+  );
+}
 
 // =============================================================================
-// PINNED POSTS SERVICE
+// HOOK
 // =============================================================================
 
-class PinnedPostsService {
-  private pinnedPosts: Map<number, PinnedPost[]> = new Map(); // userId -> posts
-  private loaded: Set<number> = new Set();
-
-  async loadPinnedPosts(userId: number): Promise<PinnedPost[]> {
-    if (this.loaded.has(userId)) {
-      return this.pinnedPosts.get(userId) || [];
-    }
-
-    try {
-      const key = `${PINNED_POSTS_KEY}_${userId}`;
-      const stored = await AsyncStorage.getItem(key);
-      if (stored) {
-        const posts = JSON.parse(stored) as PinnedPost[];
-        this.pinnedPosts.set(userId, posts);
-        this.loaded.add(userId);
-        return posts;
+/**
+ * A user's pinned posts, in the order they chose, with pin/unpin/reorder
+ * mutations for the signed-in user's own pins
+ */
+export function usePinnedPosts(userId: string) {
+  const queryClient = useQueryClient();
+
+  const { data: pinnedPosts = [], isLoading, refetch } = useQuery({
+    queryKey: pinnedPostsKey(userId),
+    queryFn: async () => {
+      const response = await usersApi.getPinnedPosts(userId);
+      return response.data ?? [];
+    },
+  });
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: pinnedPostsKey(userId) });
+    queryClient.invalidateQueries({ queryKey: ['userPosts', userId] });
+  }, [queryClient, userId]);
+
+  const pinMutation = useMutation({
+    mutationFn: (postId: number) => postsApi.pin(postId),
+    onSuccess: invalidate,
+  });
+
+  const unpinMutation = useMutation({
+    mutationFn: (postId: number) => postsApi.unpin(postId),
+    onSuccess: invalidate,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (postIds: number[]) => usersApi.reorderPinnedPosts(postIds),
+    onSuccess: response => {
+      if (response.data) {
+        queryClient.setQueryData(pinnedPostsKey(userId), response.data);
       }
-    } catch (error) {
-      console.error('[PinnedPosts] Error loading:', error);
-    }
-    return [];
-  }
+    },
+  });
 
-  private async persist(userId: number): Promise<void> {
-    try {
-      const key = `${PINNED_POSTS_KEY}_${userId}`;
-      const posts = this.pinnedPosts.get(userId) || [];
-      await AsyncStorage.setItem(key, JSON.stringify(posts));
-    } catch (error) {
-      console.error('[PinnedPosts] Error saving:', error);
-    }
-  }
+  const pinnedPostIds = pinnedPosts.map(post => post.id);
 
-  async pinPost(userId: number, postId: number): Promise<boolean> {
-    const posts = await this.loadPinnedPosts(userId);
-    
-    // Check if already pinned
-    if (posts.some(p => p.postId === postId)) {
-      return true;
-    }
-
-    // Check max limit
-    if (posts.length >= MAX_PINNED_POSTS) {
-      return false;
-    }
-
-    const newPost: PinnedPost = {
-      postId,
-      pinnedAt: new Date().toISOString(),
-      order: posts.length,
-    };
-
-    posts.push(newPost);
-    this.pinnedPosts.set(userId, posts);
-    await this.persist(userId);
-
-    // TODO: Sync with backend
-    // await postsApi.pinPost(postId);
-
-    return true;
-  }
+  const pinPost = useCallback(async (postId: number) => {
+    const response = await pinMutation.mutateAsync(postId);
+    return !response.error;
+  }, [pinMutation]);
 
-  async unpinPost(userId: number, postId: number): Promise<void> {
-    const posts = await this.loadPinnedPosts(userId);
-    const filtered = posts.filter(p => p.postId !== postId);
-    
-    // Reorder remaining posts
-    filtered.forEach((post, index) => {
-      post.order = index;
-    });
+  const unpinPost = useCallback(async (postId: number) => {
+    await unpinMutation.mutateAsync(postId);
+  }, [unpinMutation]);
 
-    this.pinnedPosts.set(userId, filtered);
-    await this.persist(userId);
+  const reorderPinnedPosts = useCallback(async (postIds: number[]) => {
+    await reorderMutation.mutateAsync(postIds);
+  }, [reorderMutation]);
 
-    // TODO: Sync with backend
-    // await postsApi.unpinPost(postId);
-  }
+  const isPostPinned = useCallback((postId: number) => {
+    return pinnedPostIds.includes(postId);
+  }, [pinnedPostIds]);
 
-  async reorderPinnedPosts(userId: number, postIds: number[]): Promise<void> {
-    const posts = await this.loadPinnedPosts(userId);
-    
-    // Create new order based on postIds array
-    const reordered = postIds
-      .map((id, index) => {
-        const post = posts.find(p => p.postId === id);
-        if (post) {
-          return { ...post, order: index };
-        }
-        return null;
-      })
-      .filter(Boolean) as PinnedPost[];
-
-    this.pinnedPosts.set(userId, reordered);
-    await this.persist(userId);
-  }
+  const canPinMore = useCallback(() => {
+    return pinnedPostIds.length < MAX_PINNED_POSTS;
+  }, [pinnedPostIds]);
 
-  async isPostPinned(userId: number, postId: number): Promise<boolean> {
-    const posts = await this.loadPinnedPosts(userId);
-    return posts.some(p => p.postId === postId);
-  }
+  return {
+    pinnedPosts,
+    pinnedPostIds,
+    isLoading,
+    isUpdating: pinMutation.isPending || unpinMutation.isPending || reorderMutation.isPending,
+    pinPost,
+    unpinPost,
+    reorderPinnedPosts,
+    isPostPinned,
+    canPinMore,
+    maxPinnedPosts: MAX_PINNED_POSTS,
+    refresh: refetch,
+  };
+}
 
-  async getPinnedPostIds(userId: number): Promise<number[]> {
-    const posts = await this.loadPinnedPosts(userId);
-    return posts.sort((a, b) => a.order - b.order).map(p => p.postId);
+/**
+ * Toggle a post's pin, checking the limit first so the user gets a clear
+ * message instead of a failed request. Returns the new pin state.
+ */
+async function togglePin(pinned: ReturnType<typeof usePinnedPosts>, postId: number) {
+  haptics.buttonPress();
+
+  if (pinned.isPostPinned(postId)) {
+    await pinned.unpinPost(postId);
+    haptics.success();
+    return false;
   }
 
-  async canPinMore(userId: number): Promise<boolean> {
-    const posts = await this.loadPinnedPosts(userId);
-    return posts.length < MAX_PINNED_POSTS;
+  if (!pinned.canPinMore()) {
+    showLimitAlert();
+    return false;
   }
 
-  getMaxPinnedPosts(): number {
-    return MAX_PINNED_POSTS;
+  const success = await pinned.pinPost(postId);
+  if (success) {
+    haptics.success();
+  } else {
+    showLimitAlert();
   }
+  return success;
 }
 
-export const pinnedPostsService = new PinnedPostsService();
-
 // =============================================================================
 // PIN POST BUTTON
 // =============================================================================
 
 interface PinPostButtonProps {
   postId: number;
-  userId: number;
+  userId: string;
   isOwner: boolean;
   size?: 'small' | 'medium';
   onPinChange?: (isPinned: boolean) => void;
@@ -175,66 +161,26 @@ export const PinPostButton = memo(function PinPostButton({
   onPinChange,
 }: PinPostButtonProps) {
   const { colors } = useThemeContext();
-  const queryClient = useQueryClient();
-  const [isPinned, setIsPinned] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    checkPinStatus();
-  }, [postId, userId]);
-
-  const checkPinStatus = async () => {
-    setIsLoading(true);
-    const pinned = await pinnedPostsService.isPostPinned(userId, postId);
-    setIsPinned(pinned);
-    setIsLoading(false);
-  };
+  const pinned = usePinnedPosts(userId);
+  const isPinned = pinned.isPostPinned(postId);
 
   const handleTogglePin = useCallback(async () => {
     if (!isOwner) return;
-
-    haptics.buttonPress();
-
-    if (isPinned) {
-      // Unpin
-      await pinnedPostsService.unpinPost(userId, postId);
-      setIsPinned(false);
-      onPinChange?.(false);
-      haptics.success();
-    } else {
-      // Check if can pin more
-      const canPin = await pinnedPostsService.canPinMore(userId);
-      if (!canPin) {
-        haptics.warning();
-        Alert.alert(
-          'Maximum Pinned Posts',
-          `You can only pin up to ${MAX_PINNED_POSTS} posts. Unpin another post first.`
-        );
-        return;
-      }
-
-      // Pin
-      await pinnedPostsService.pinPost(userId, postId);
-      setIsPinned(true);
-      onPinChange?.(true);
-      haptics.success();
-    }
-
-    queryClient.invalidateQueries({ queryKey: ['profile', userId] });
-    queryClient.invalidateQueries({ queryKey: ['pinnedPosts', userId] });
-  }, [isPinned, isOwner, postId, userId, onPinChange, queryClient]);
+    onPinChange?.(await togglePin(pinned, postId));
+  }, [isOwner, pinned, postId, onPinChange]);
 
   if (!isOwner) return null;
 
   const iconSize = size === 'small' ? 18 : 22;
+  const isBusy = pinned.isLoading || pinned.isUpdating;
 
   return (
     <TouchableOpacity
       style={styles.pinButton}
       onPress={handleTogglePin}
-      disabled={isLoading}
+      disabled={isBusy}
     >
-      {isLoading ? (
+      {isBusy ? (
         <ActivityIndicator size="small" color={colors.textSecondary} />
       ) : (
         <Ionicons
@@ -252,32 +198,25 @@ export const PinPostButton = memo(function PinPostButton({
 // =============================================================================
 
 interface PinnedPostsSectionProps {
-  userId: number;
+  userId: string;
   isOwner: boolean;
-  onPostPress: (postId: number) => void;
-  renderPost: (postId: number) => React.ReactNode;
+  renderPost: (post: Post) => React.ReactNode;
 }
 
 export const PinnedPostsSection = memo(function PinnedPostsSection({
   userId,
   isOwner,
-  onPostPress,
   renderPost,
 }: PinnedPostsSectionProps) {
   const { colors } = useThemeContext();
-  const [pinnedPostIds, setPinnedPostIds] = useState<number[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    loadPinnedPosts();
-  }, [userId]);
-
-  const loadPinnedPosts = async () => {
-    setIsLoading(true);
-    const ids = await pinnedPostsService.getPinnedPostIds(userId);
-    setPinnedPostIds(ids);
-    setIsLoading(false);
-  };
+  const { pinnedPosts, isLoading, isUpdating, reorderPinnedPosts } = usePinnedPosts(userId);
+
+  const handleMoveUp = useCallback((index: number) => {
+    const ids = pinnedPosts.map(post => post.id);
+    [ids[index - 1], ids[index]] = [ids[index], ids[index - 1]];
+    haptics.selection();
+    reorderPinnedPosts(ids);
+  }, [pinnedPosts, reorderPinnedPosts]);
 
   if (isLoading) {
     return (
@@ -287,7 +226,7 @@ export const PinnedPostsSection = memo(function PinnedPostsSection({
     );
   }
 
-  if (pinnedPostIds.length === 0) {
+  if (pinnedPosts.length === 0) {
     if (!isOwner) return null;
     
     return (
@@ -312,9 +251,19 @@ export const PinnedPostsSection = memo(function PinnedPostsSection({
 
       {/* Posts */}
       <View style={styles.pinnedPostsContainer}>
-        {pinnedPostIds.map((postId) => (
-          <View key={postId} style={styles.pinnedPostWrapper}>
-            {renderPost(postId)}
+        {pinnedPosts.map((post, index) => (
+          <View key={post.id} style={styles.pinnedPostWrapper}>
+            {renderPost(post)}
+            {isOwner && index > 0 && (
+              <TouchableOpacity
+                style={[styles.moveUpButton, { backgroundColor: colors.surface }]}
+                onPress={() => handleMoveUp(index)}
+                disabled={isUpdating}
+                accessibilityLabel="Move pinned post up"
+              >
+                <Ionicons name="arrow-up" size={16} color={colors.textSecondary} />
+              </TouchableOpacity>
+            )}
           </View>
         ))}
       </View>
@@ -355,7 +304,7 @@ export const PinIndicator = memo(function PinIndicator({
 
 interface PinPostMenuItemProps {
   postId: number;
-  userId: number;
+  userId: string;
   onAction: () => void;
 }
 
@@ -365,37 +314,11 @@ export const PinPostMenuItem = memo(function PinPostMenuItem({
   onAction,
 }: PinPostMenuItemProps) {
   const { colors } = useThemeContext();
-  const [isPinned, setIsPinned] = useState(false);
-
-  useEffect(() => {
-    checkPinStatus();
-  }, [postId, userId]);
-
-  const checkPinStatus = async () => {
-    const pinned = await pinnedPostsService.isPostPinned(userId, postId);
-    setIsPinned(pinned);
-  };
+  const pinned = usePinnedPosts(userId);
+  const isPinned = pinned.isPostPinned(postId);
 
   const handlePress = async () => {
-    haptics.buttonPress();
-
-    if (isPinned) {
-      await pinnedPostsService.unpinPost(userId, postId);
-      haptics.success();
-    } else {
-      const canPin = await pinnedPostsService.canPinMore(userId);
-      if (!canPin) {
-        haptics.warning();
-        Alert.alert(
-          'Maximum Pinned Posts',
-          `You can only pin up to ${MAX_PINNED_POSTS} posts. Unpin another post first.`
-        );
-        return;
-      }
-      await pinnedPostsService.pinPost(userId, postId);
-      haptics.success();
-    }
-
+    await togglePin(pinned, postId);
     onAction();
   };
 
@@ -403,6 +326,7 @@ export const PinPostMenuItem = memo(function PinPostMenuItem({
     <TouchableOpacity
       style={[styles.menuItem, { borderBottomColor: colors.border }]}
       onPress={handlePress}
+      disabled={pinned.isUpdating}
     >
       <Ionicons
         name={isPinned ? 'pin-sharp' : 'pin-outline'}
@@ -416,58 +340,6 @@ export const PinPostMenuItem = memo(function PinPostMenuItem({
   );
 });
 
-// =============================================================================
-// HOOK
-// =============================================================================
-
-export function usePinnedPosts(userId: number) {
-  const [pinnedPostIds, setPinnedPostIds] = useState<number[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    loadPinnedPosts();
-  }, [userId]);
-
-  const loadPinnedPosts = async () => {
-    setIsLoading(true);
-    const ids = await pinnedPostsService.getPinnedPostIds(userId);
-    setPinnedPostIds(ids);
-    setIsLoading(false);
-  };
-
-  const pinPost = useCallback(async (postId: number) => {
-    const success = await pinnedPostsService.pinPost(userId, postId);
-    if (success) {
-      setPinnedPostIds(prev => [...prev, postId]);
-    }
-    return success;
-  }, [userId]);
-
-  const unpinPost = useCallback(async (postId: number) => {
-    await pinnedPostsService.unpinPost(userId, postId);
-    setPinnedPostIds(prev => prev.filter(id => id !== postId));
-  }, [userId]);
-
-  const isPostPinned = useCallback((postId: number) => {
-    return pinnedPostIds.includes(postId);
-  }, [pinnedPostIds]);
-
-  const canPinMore = useCallback(() => {
-    return pinnedPostIds.length < MAX_PINNED_POSTS;
-  }, [pinnedPostIds]);
-
-  return {
-    pinnedPostIds,
-    isLoading,
-    pinPost,
-    unpinPost,
-    isPostPinned,
-    canPinMore,
-    maxPinnedPosts: MAX_PINNED_POSTS,
-    refresh: loadPinnedPosts,
-  };
-}
-
 const styles = StyleSheet.create({
   // Pin button
   pinButton: {
@@ -515,6 +387,13 @@ const styles = StyleSheet.create({
   pinnedPostWrapper: {
     position: 'relative',
   },
+  moveUpButton: {
+    position: 'absolute',
+    top: Spacing.sm,
+    right: Spacing.sm,
+    padding: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
 
   // Pin indicator
   pinIndicator: {
@@ -21,6 +21,8 @@ import { useAppColors } from '@/hooks/useAppColors';
 import { Post, VoteDirection } from '@/types';
 import { formatRelativeTime, formatNumber } from '@/lib/utils';
 import RichTextContent from './RichTextContent';
+import LinkPreviewCard from './LinkPreviewCard';
+import QuotedPost from './QuotedPost';
 
 const { width } = Dimensions.get('window');
 const IMAGE_SIZE = width - Spacing.lg * 2;
@@ -31,6 +33,10 @@ interface PostCardProps {
   onUserPress: () => void;
   onVote: (direction: VoteDirection) => void;
   onBookmark: () => void;
+  /** Open the repost/quote menu; the repost button is hidden without it */
+  onRepost?: () => void;
+  /** Long press, e.g. for room moderators' actions */
+  onLongPress?: () => void;
   onHashtagPress?: (tag: string) => void;
   onMentionPress?: (userId: number) => void;
   showFullContent?: boolean;
@@ -42,6 +48,8 @@ function PostCard({
   onUserPress,
   onVote,
   onBookmark,
+  onRepost,
+  onLongPress,
   onHashtagPress,
   onMentionPress,
   showFullContent = false,
@@ -51,6 +59,7 @@ function PostCard({
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
 
   const score = post.upvotes - post.downvotes;
+  const isPlainRepost = !!post.is_repost && !post.content;
   const hasMultipleImages = post.images && post.images.length > 1;
 
   const handleUpvote = () => {
@@ -74,6 +83,7 @@ function PostCard({
             </ThemedText>
             <ThemedText style={[styles.timestamp, { color: appColors.textSecondary }]}>
               {formatRelativeTime(post.created_at)}
+              {post.is_edited ? ' · edited' : ''}
             </ThemedText>
           </View>
         </View>
@@ -107,6 +117,7 @@ function PostCard({
             )}
             <ThemedText style={[styles.timestamp, { color: appColors.textSecondary }]}>
               · {formatRelativeTime(post.created_at)}
+              {post.is_edited ? ' · edited' : ''}
             </ThemedText>
           </View>
         </View>
@@ -114,11 +125,11 @@ function PostCard({
     );
   };
 
-  const renderRoom = () => (
-    <View style={[styles.roomBadge, { backgroundColor: post.room.color + '20' }]}>
-      <ThemedText style={styles.roomIcon}>{post.room.icon}</ThemedText>
-      <ThemedText style={[styles.roomName, { color: post.room.color }]}>
-        {post.room.name}
+  const renderRoom = (room: NonNullable<Post['room']>) => (
+    <View style={[styles.roomBadge, { backgroundColor: room.color + '20' }]}>
+      <ThemedText style={styles.roomIcon}>{room.icon}</ThemedText>
+      <ThemedText style={[styles.roomName, { color: room.color }]}>
+        {room.name}
       </ThemedText>
     </View>
   );
@@ -211,6 +222,27 @@ function PostCard({
         </ThemedText>
       </TouchableOpacity>
 
+      {/* Repost */}
+      {onRepost && (
+        <TouchableOpacity style={styles.actionButton} onPress={onRepost}>
+          <Ionicons
+            name="repeat"
+            size={20}
+            color={post.is_reposted ? Colors.secondary : appColors.textSecondary}
+          />
+          {post.reposts_count ? (
+            <ThemedText
+              style={[
+                styles.actionText,
+                { color: post.is_reposted ? Colors.secondary : appColors.textSecondary },
+              ]}
+            >
+              {formatNumber(post.reposts_count)}
+            </ThemedText>
+          ) : null}
+        </TouchableOpacity>
+      )}
+
       {/* Share */}
       <TouchableOpacity style={styles.actionButton}>
         <Ionicons name="share-outline" size={20} color={appColors.textSecondary} />
@@ -227,11 +259,32 @@ function PostCard({
     </View>
   );
 
+  // A repost without commentary is just a pointer to the original
+  if (isPlainRepost) {
+    return (
+      <Pressable
+        style={[styles.container, { backgroundColor: appColors.surface, borderBottomColor: appColors.border }]}
+        onLongPress={onLongPress}
+        disabled={!onLongPress}
+      >
+        <TouchableOpacity style={styles.repostBanner} onPress={onUserPress}>
+          <Ionicons name="repeat" size={14} color={appColors.textSecondary} />
+          <ThemedText style={[styles.repostBannerText, { color: appColors.textSecondary }]}>
+            {post.author.full_name} reposted
+            {post.room ? ` to ${post.room.name}` : ''}
+            {` · ${formatRelativeTime(post.created_at)}`}
+          </ThemedText>
+        </TouchableOpacity>
+        <QuotedPost post={post.repost_of ?? null} />
+      </Pressable>
+    );
+  }
+
   return (
-    <Pressable style={[styles.container, { backgroundColor: appColors.surface, borderBottomColor: appColors.border }]} onPress={onPress}>
+    <Pressable style={[styles.container, { backgroundColor: appColors.surface, borderBottomColor: appColors.border }]} onPress={onPress} onLongPress={onLongPress}>
       <View style={styles.header}>
         {renderAuthor()}
-        {renderRoom()}
+        {post.room ? renderRoom(post.room) : null}
       </View>
 
       <RichTextContent
@@ -244,6 +297,12 @@ function PostCard({
         style={styles.content}
       />
 
+      {post.link_preview && !post.images?.length ? (
+        <LinkPreviewCard preview={post.link_preview} />
+      ) : null}
+
+      {post.is_repost ? <QuotedPost post={post.repost_of ?? null} /> : null}
+
       {renderImages()}
       {renderActions()}
     </Pressable>
@@ -330,6 +389,16 @@ const styles = StyleSheet.create({
   content: {
     marginBottom: Spacing.md,
   },
+  repostBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  repostBannerText: {
+    ...Typography.small,
+    fontWeight: '500',
+  },
   imageContainer: {
     marginBottom: Spacing.md,
     borderRadius: BorderRadius.sm,
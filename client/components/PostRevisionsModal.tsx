@@ -0,0 +1,153 @@
+/**
+ * Post Revisions Modal
+ * Edit history of a post. Its author and moderators also see what changed
+ * in each edit.
+ */
+
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Modal, ScrollView, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useAppColors } from '@/hooks/useAppColors';
+import { postsApi, PostRevision } from '@/lib/api';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface PostRevisionsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  postId: number;
+}
+
+export default function PostRevisionsModal({ visible, onClose, postId }: PostRevisionsModalProps) {
+  const appColors = useAppColors();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['post-revisions', postId],
+    queryFn: async () => {
+      const response = await postsApi.getRevisions(postId);
+      return response.data;
+    },
+    enabled: visible,
+  });
+
+  const renderDiff = (diff: NonNullable<PostRevision['diff']>) => (
+    <ThemedText style={[styles.diffText, { color: appColors.textPrimary }]}>
+      {diff.map((segment, index) => (
+        <ThemedText
+          key={index}
+          style={
+            segment.op === 'insert'
+              ? styles.inserted
+              : segment.op === 'delete'
+                ? [styles.deleted, { color: appColors.error }]
+                : undefined
+          }
+        >
+          {segment.text}
+        </ThemedText>
+      ))}
+    </ThemedText>
+  );
+
+  // Newest edit first
+  const revisions = [...(data?.revisions ?? [])].reverse();
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: appColors.surface }]}>
+          <View style={[styles.header, { borderBottomColor: appColors.border }]}>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Ionicons name="close" size={24} color={appColors.textPrimary} />
+            </TouchableOpacity>
+            <ThemedText style={[styles.title, { color: appColors.textPrimary }]}>Edit History</ThemedText>
+            <View style={styles.closeButton} />
+          </View>
+
+          {isLoading ? (
+            <ActivityIndicator style={styles.loading} color={Colors.primary} />
+          ) : (
+            <ScrollView contentContainerStyle={styles.content}>
+              {revisions.map(revision => (
+                <View key={revision.id} style={[styles.revision, { borderColor: appColors.border }]}>
+                  <ThemedText style={[styles.revisionTime, { color: appColors.textSecondary }]}>
+                    Edited {formatRelativeTime(revision.edited_at)}
+                  </ThemedText>
+                  {revision.diff && renderDiff(revision.diff)}
+                </View>
+              ))}
+
+              {data?.original !== undefined && (
+                <View style={[styles.revision, { borderColor: appColors.border }]}>
+                  <ThemedText style={[styles.revisionTime, { color: appColors.textSecondary }]}>
+                    Original
+                  </ThemedText>
+                  <ThemedText style={[styles.diffText, { color: appColors.textPrimary }]}>
+                    {data.original}
+                  </ThemedText>
+                </View>
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingBottom: Spacing.xl,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  title: {
+    ...Typography.heading,
+  },
+  loading: {
+    padding: Spacing.xl,
+  },
+  content: {
+    padding: Spacing.lg,
+  },
+  revision: {
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  revisionTime: {
+    ...Typography.small,
+    marginBottom: Spacing.xs,
+  },
+  diffText: {
+    ...Typography.body,
+  },
+  inserted: {
+    backgroundColor: Colors.secondary + '30',
+  },
+  deleted: {
+    textDecorationLine: 'line-through',
+  },
+});
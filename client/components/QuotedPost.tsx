@@ -0,0 +1,133 @@
+/**
+ * QuotedPost Component
+ * Compact card for the original of a repost, embedded in PostCard and the
+ * quote composer. Shows a placeholder once the original has been deleted.
+ */
+
+import React, { memo } from 'react';
+import { View, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useAppColors } from '@/hooks/useAppColors';
+import { formatRelativeTime } from '@/lib/utils';
+import { Post } from '@/types';
+
+interface QuotedPostProps {
+  /** The original, or null if it has been deleted */
+  post: Post | null;
+  /** Open the original when tapped; off in the composer */
+  pressable?: boolean;
+}
+
+function QuotedPost({ post, pressable = true }: QuotedPostProps) {
+  const navigation = useNavigation<any>();
+  const appColors = useAppColors();
+
+  if (!post) {
+    return (
+      <View
+        style={[
+          styles.container,
+          styles.unavailable,
+          { backgroundColor: appColors.surfaceSecondary, borderColor: appColors.border },
+        ]}
+      >
+        <Ionicons name="eye-off-outline" size={16} color={appColors.textSecondary} />
+        <ThemedText style={[styles.unavailableText, { color: appColors.textSecondary }]}>
+          This post is no longer available
+        </ThemedText>
+      </View>
+    );
+  }
+
+  const name = post.is_anonymous ? post.anonymous_name || 'Anonymous' : post.author.full_name;
+  const image = post.images?.[0];
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, { borderColor: appColors.border }]}
+      onPress={() => navigation.navigate('PostDetail', { postId: post.id })}
+      disabled={!pressable}
+      activeOpacity={0.8}
+    >
+      <View style={styles.header}>
+        {!post.is_anonymous && post.author.avatar_url ? (
+          <Image source={{ uri: post.author.avatar_url }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatar, { backgroundColor: appColors.surfaceSecondary }]}>
+            <Ionicons name="person" size={12} color={appColors.textSecondary} />
+          </View>
+        )}
+        <ThemedText style={[styles.name, { color: appColors.textPrimary }]} numberOfLines={1}>
+          {name}
+        </ThemedText>
+        {!post.is_anonymous && post.author.is_verified && (
+          <Ionicons name="checkmark-circle" size={12} color={Colors.primary} />
+        )}
+        <ThemedText style={[styles.timestamp, { color: appColors.textSecondary }]}>
+          · {formatRelativeTime(post.created_at)}
+        </ThemedText>
+      </View>
+
+      {post.content ? (
+        <ThemedText style={[styles.content, { color: appColors.textPrimary }]} numberOfLines={4}>
+          {post.content}
+        </ThemedText>
+      ) : null}
+
+      {image ? <Image source={{ uri: image }} style={styles.image} resizeMode="cover" /> : null}
+    </TouchableOpacity>
+  );
+}
+
+export default memo(QuotedPost);
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    gap: Spacing.xs,
+  },
+  unavailable: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  unavailableText: {
+    ...Typography.caption,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  avatar: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  name: {
+    ...Typography.caption,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  timestamp: {
+    ...Typography.small,
+  },
+  content: {
+    ...Typography.body,
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 1.91,
+    borderRadius: BorderRadius.xs,
+    marginTop: Spacing.xs,
+  },
+});
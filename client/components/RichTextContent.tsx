@@ -43,7 +43,7 @@ function RichTextContent({
   const segments = useMemo(() => {
     const result: TextSegment[] = [];
     
-    const pattern = /(@\w+|#\w+|https?:\/\/[^\s]+)/g;
+    const pattern = /(@[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|@\w+|#\w+|https?:\/\/[^\s]+)/gi;
     
     let lastIndex = 0;
     let match;
@@ -59,13 +59,14 @@ function RichTextContent({
       const matchedText = match[0];
 
       if (matchedText.startsWith('@')) {
-        const username = matchedText.slice(1);
-        const mentionData = mentions.find(m => m.username === username);
-        result.push({
-          type: 'mention',
-          content: matchedText,
-          data: { userId: mentionData?.user_id },
-        });
+        // Only handles the server resolved to a user are linked
+        const username = matchedText.slice(1).toLowerCase();
+        const mentionData = mentions.find(m => m.username.toLowerCase() === username);
+        result.push(
+          mentionData
+            ? { type: 'mention', content: matchedText, data: { userId: mentionData.user_id } }
+            : { type: 'text', content: matchedText }
+        );
       } else if (matchedText.startsWith('#')) {
         const tag = matchedText.slice(1);
         result.push({
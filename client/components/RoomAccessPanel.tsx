@@ -0,0 +1,474 @@
+/**
+ * RoomAccessPanel Component
+ * Room moderators choose who can see and join the room, review requests to
+ * join and manage invite links
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Share,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { Avatar } from '@/components/Avatar';
+import { ThemedText } from '@/components/ThemedText';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { roomsApi, RoomInvite, RoomJoinRequest, RoomVisibility } from '@/lib/api';
+import { generateDeepLink } from '@/lib/deep-linking';
+import { haptics } from '@/lib/haptics';
+import { formatDate } from '@/lib/utils';
+
+const VISIBILITY_OPTIONS: { value: RoomVisibility; label: string; description: string }[] = [
+  { value: 'public', label: 'Public', description: 'Anyone can see posts and join' },
+  { value: 'private', label: 'Private', description: 'Members see posts; others ask to join' },
+  {
+    value: 'invite_only',
+    label: 'Invite only',
+    description: 'Members see posts; join by invite link',
+  },
+];
+
+const EXPIRY_OPTIONS: { label: string; hours?: number }[] = [
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 168 },
+  { label: 'Never' },
+];
+
+const USES_OPTIONS: { label: string; uses?: number }[] = [
+  { label: '1 use', uses: 1 },
+  { label: '10 uses', uses: 10 },
+  { label: 'Unlimited' },
+];
+
+interface RoomAccessPanelProps {
+  roomSlug: string;
+}
+
+const inviteLink = (roomSlug: string, invite: RoomInvite) =>
+  `${generateDeepLink('room', roomSlug)}?invite=${invite.code}`;
+
+export default function RoomAccessPanel({ roomSlug }: RoomAccessPanelProps) {
+  const { colors } = useThemeContext();
+  const queryClient = useQueryClient();
+  const [expiryHours, setExpiryHours] = useState<number | undefined>(168);
+  const [maxUses, setMaxUses] = useState<number | undefined>(undefined);
+
+  const { data: room } = useQuery({
+    queryKey: ['room', roomSlug],
+    queryFn: async () => {
+      const response = await roomsApi.getRoom(roomSlug);
+      return response.data;
+    },
+  });
+
+  const {
+    data: requests = [],
+    isLoading: requestsLoading,
+    isRefetching: requestsRefetching,
+    refetch: refetchRequests,
+  } = useQuery({
+    queryKey: ['roomJoinRequests', roomSlug],
+    queryFn: async () => {
+      const response = await roomsApi.getJoinRequests(roomSlug);
+      return response.data?.requests || [];
+    },
+  });
+
+  const { data: invites = [], refetch: refetchInvites } = useQuery({
+    queryKey: ['roomInvites', roomSlug],
+    queryFn: async () => {
+      const response = await roomsApi.getInvites(roomSlug);
+      return response.data?.invites || [];
+    },
+  });
+
+  const onError = (error: Error) => {
+    Alert.alert('Error', error.message);
+  };
+
+  const invalidateRoom = () => {
+    queryClient.invalidateQueries({ queryKey: ['room', roomSlug] });
+    queryClient.invalidateQueries({ queryKey: ['roomModerationLog', roomSlug] });
+  };
+
+  const visibilityMutation = useMutation({
+    mutationFn: async (visibility: RoomVisibility) => {
+      const response = await roomsApi.updateVisibility(roomSlug, visibility);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update room');
+      }
+    },
+    onSuccess: () => {
+      haptics.success();
+      invalidateRoom();
+      queryClient.invalidateQueries({ queryKey: ['roomJoinRequests', roomSlug] });
+      queryClient.invalidateQueries({ queryKey: ['rooms'] });
+    },
+    onError,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ userId, approve }: { userId: number; approve: boolean }) => {
+      const response = approve
+        ? await roomsApi.approveJoinRequest(roomSlug, userId)
+        : await roomsApi.declineJoinRequest(roomSlug, userId);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to review request');
+      }
+    },
+    onSuccess: () => {
+      haptics.success();
+      invalidateRoom();
+      queryClient.invalidateQueries({ queryKey: ['roomJoinRequests', roomSlug] });
+    },
+    onError,
+  });
+
+  const createInviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await roomsApi.createInvite(roomSlug, {
+        expires_in_hours: expiryHours,
+        max_uses: maxUses,
+      });
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to create invite');
+      }
+      return response.data;
+    },
+    onSuccess: invite => {
+      haptics.success();
+      invalidateRoom();
+      queryClient.invalidateQueries({ queryKey: ['roomInvites', roomSlug] });
+      handleShare(invite);
+    },
+    onError,
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (inviteId: string) => {
+      const response = await roomsApi.revokeInvite(roomSlug, inviteId);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to revoke invite');
+      }
+    },
+    onSuccess: () => {
+      haptics.success();
+      invalidateRoom();
+      queryClient.invalidateQueries({ queryKey: ['roomInvites', roomSlug] });
+    },
+    onError,
+  });
+
+  const handleShare = async (invite: RoomInvite) => {
+    try {
+      await Share.share({
+        message: `Join ${room?.name ?? 'our room'} on MedInvest: ${inviteLink(roomSlug, invite)}`,
+      });
+    } catch (error) {
+      console.error('Share invite error:', error);
+    }
+  };
+
+  const handleRevoke = (invite: RoomInvite) => {
+    Alert.alert('Revoke Invite', 'People who have this link will no longer be able to join.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revoke',
+        style: 'destructive',
+        onPress: () => revokeInviteMutation.mutate(invite.id),
+      },
+    ]);
+  };
+
+  const renderChips = <T,>(
+    options: { label: string; value: T }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chips}>
+      {options.map(option => {
+        const isSelected = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[
+              styles.chip,
+              { borderColor: isSelected ? colors.primary : colors.border },
+              isSelected && { backgroundColor: colors.primary + '15' },
+            ]}
+            onPress={() => onSelect(option.value)}
+          >
+            <ThemedText
+              style={[
+                styles.chipText,
+                { color: isSelected ? colors.primary : colors.textSecondary },
+              ]}
+            >
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderRequest = (request: RoomJoinRequest) => (
+    <View key={request.user.id} style={[styles.row, { borderBottomColor: colors.border }]}>
+      <Avatar source={request.user.avatar_url} name={request.user.full_name} size="sm" />
+      <View style={styles.rowContent}>
+        <ThemedText style={[styles.rowTitle, { color: colors.textPrimary }]}>
+          {request.user.full_name}
+        </ThemedText>
+        {request.message ? (
+          <ThemedText style={[styles.detail, { color: colors.textSecondary }]}>
+            {request.message}
+          </ThemedText>
+        ) : null}
+        <ThemedText style={[styles.timestamp, { color: colors.textTertiary }]}>
+          {formatDate(request.created_at, true)}
+        </ThemedText>
+      </View>
+      <TouchableOpacity
+        style={[styles.iconButton, { borderColor: colors.border }]}
+        onPress={() => reviewMutation.mutate({ userId: request.user.id, approve: false })}
+        disabled={reviewMutation.isPending}
+      >
+        <Ionicons name="close" size={18} color={colors.error} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.iconButton, { borderColor: colors.border }]}
+        onPress={() => reviewMutation.mutate({ userId: request.user.id, approve: true })}
+        disabled={reviewMutation.isPending}
+      >
+        <Ionicons name="checkmark" size={18} color={colors.success} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderInvite = (invite: RoomInvite) => (
+    <View key={invite.id} style={[styles.row, { borderBottomColor: colors.border }]}>
+      <View style={styles.rowContent}>
+        <ThemedText style={[styles.rowTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+          {inviteLink(roomSlug, invite)}
+        </ThemedText>
+        <ThemedText style={[styles.timestamp, { color: colors.textTertiary }]}>
+          {invite.max_uses
+            ? `${invite.uses_count}/${invite.max_uses} uses`
+            : `${invite.uses_count} uses`}
+          {invite.expires_at
+            ? ` · expires ${formatDate(invite.expires_at, true)}`
+            : ' · never expires'}
+        </ThemedText>
+      </View>
+      <TouchableOpacity
+        style={[styles.iconButton, { borderColor: colors.border }]}
+        onPress={() => handleShare(invite)}
+      >
+        <Ionicons name="share-outline" size={18} color={colors.textPrimary} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.iconButton, { borderColor: colors.border }]}
+        onPress={() => handleRevoke(invite)}
+        disabled={revokeInviteMutation.isPending}
+      >
+        <Ionicons name="trash-outline" size={18} color={colors.error} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ScrollView
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={requestsRefetching}
+          onRefresh={() => {
+            refetchRequests();
+            refetchInvites();
+          }}
+          tintColor={colors.primary}
+        />
+      }
+    >
+      {/* Visibility */}
+      <ThemedText style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+        WHO CAN JOIN
+      </ThemedText>
+      <View style={[styles.section, { backgroundColor: colors.surface }]}>
+        {VISIBILITY_OPTIONS.map(option => {
+          const isSelected = room?.visibility === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.row, { borderBottomColor: colors.border }]}
+              onPress={() => !isSelected && visibilityMutation.mutate(option.value)}
+              disabled={visibilityMutation.isPending}
+            >
+              <View style={styles.rowContent}>
+                <ThemedText style={[styles.rowTitle, { color: colors.textPrimary }]}>
+                  {option.label}
+                </ThemedText>
+                <ThemedText style={[styles.detail, { color: colors.textSecondary }]}>
+                  {option.description}
+                </ThemedText>
+              </View>
+              <Ionicons
+                name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                size={22}
+                color={isSelected ? colors.primary : colors.textTertiary}
+              />
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* Join Requests */}
+      <ThemedText style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+        REQUESTS TO JOIN{requests.length > 0 ? ` (${requests.length})` : ''}
+      </ThemedText>
+      <View style={[styles.section, { backgroundColor: colors.surface }]}>
+        {requestsLoading ? (
+          <ActivityIndicator style={styles.sectionLoading} color={colors.primary} />
+        ) : requests.length > 0 ? (
+          requests.map(renderRequest)
+        ) : (
+          <ThemedText style={[styles.emptyText, { color: colors.textSecondary }]}>
+            No requests waiting
+          </ThemedText>
+        )}
+      </View>
+
+      {/* Invites */}
+      <ThemedText style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+        INVITE LINKS
+      </ThemedText>
+      <View style={[styles.section, styles.createInvite, { backgroundColor: colors.surface }]}>
+        <ThemedText style={[styles.detail, { color: colors.textSecondary }]}>
+          Expires after
+        </ThemedText>
+        {renderChips(
+          EXPIRY_OPTIONS.map(option => ({ label: option.label, value: option.hours })),
+          expiryHours,
+          setExpiryHours
+        )}
+        <ThemedText style={[styles.detail, { color: colors.textSecondary }]}>
+          Can be used
+        </ThemedText>
+        {renderChips(
+          USES_OPTIONS.map(option => ({ label: option.label, value: option.uses })),
+          maxUses,
+          setMaxUses
+        )}
+        <TouchableOpacity
+          style={[styles.createButton, { backgroundColor: colors.primary }]}
+          onPress={() => createInviteMutation.mutate()}
+          disabled={createInviteMutation.isPending}
+        >
+          {createInviteMutation.isPending ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <ThemedText style={styles.createButtonText}>Create Invite Link</ThemedText>
+          )}
+        </TouchableOpacity>
+      </View>
+      {invites.length > 0 && (
+        <View style={[styles.section, { backgroundColor: colors.surface }]}>
+          {invites.map(renderInvite)}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingBottom: Spacing['2xl'],
+  },
+  sectionTitle: {
+    ...Typography.small,
+    fontWeight: '600',
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.xl,
+    paddingBottom: Spacing.sm,
+  },
+  section: {
+    marginBottom: Spacing.sm,
+  },
+  sectionLoading: {
+    paddingVertical: Spacing.lg,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: Spacing.md,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    ...Typography.body,
+    fontWeight: '500',
+  },
+  detail: {
+    ...Typography.caption,
+    marginTop: Spacing.xs,
+  },
+  timestamp: {
+    ...Typography.small,
+    marginTop: Spacing.xs,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    ...Typography.caption,
+    padding: Spacing.lg,
+  },
+  createInvite: {
+    padding: Spacing.lg,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  createButton: {
+    alignItems: 'center',
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  createButtonText: {
+    ...Typography.body,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
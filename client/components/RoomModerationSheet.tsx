@@ -0,0 +1,288 @@
+/**
+ * RoomModerationSheet Component
+ * Moderator actions on a post in a room: pin or unpin it as an announcement,
+ * remove it, or ban its author. Removals and bans ask for a reason, which
+ * is sent to the author.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  Modal,
+  Pressable,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useAppColors } from '@/hooks/useAppColors';
+import { haptics } from '@/lib/haptics';
+import { roomsApi } from '@/lib/api';
+import { Post } from '@/types';
+
+type Step = 'menu' | 'remove' | 'ban';
+
+const BAN_DURATIONS: { label: string; days?: number }[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Permanent' },
+];
+
+const REASON_MAX = 500;
+
+interface RoomModerationSheetProps {
+  roomSlug: string;
+  /** The post being moderated; the sheet is hidden while null */
+  post: Post | null;
+  isPinned: boolean;
+  onClose: () => void;
+}
+
+export default function RoomModerationSheet({
+  roomSlug,
+  post,
+  isPinned,
+  onClose,
+}: RoomModerationSheetProps) {
+  const appColors = useAppColors();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>('menu');
+  const [reason, setReason] = useState('');
+  const [banDays, setBanDays] = useState<number | undefined>(7);
+
+  useEffect(() => {
+    setStep('menu');
+    setReason('');
+    setBanDays(7);
+  }, [post?.id]);
+
+  const moderationMutation = useMutation({
+    mutationFn: async (action: 'pin' | 'unpin' | 'remove' | 'ban') => {
+      if (!post) return;
+      const response =
+        action === 'pin'
+          ? await roomsApi.pinPost(roomSlug, post.id)
+          : action === 'unpin'
+            ? await roomsApi.unpinPost(roomSlug, post.id)
+            : action === 'remove'
+              ? await roomsApi.removePost(roomSlug, post.id, reason.trim())
+              : await roomsApi.ban(roomSlug, {
+                  user_id: String(post.author.id),
+                  reason: reason.trim(),
+                  duration_days: banDays,
+                });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Moderation action failed');
+      }
+    },
+    onSuccess: () => {
+      haptics.success();
+      queryClient.invalidateQueries({ queryKey: ['roomFeed', roomSlug] });
+      queryClient.invalidateQueries({ queryKey: ['room', roomSlug] });
+      queryClient.invalidateQueries({ queryKey: ['feed'] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  const renderMenu = () => {
+    const options: { label: string; icon: keyof typeof Ionicons.glyphMap; destructive?: boolean; onPress: () => void }[] = [
+      {
+        label: isPinned ? 'Unpin Announcement' : 'Pin as Announcement',
+        icon: 'pin-outline',
+        onPress: () => moderationMutation.mutate(isPinned ? 'unpin' : 'pin'),
+      },
+      {
+        label: 'Remove Post',
+        icon: 'trash-outline',
+        destructive: true,
+        onPress: () => setStep('remove'),
+      },
+    ];
+    // Anonymous authors stay hidden from room moderators, so they cannot be banned from here
+    if (post && !post.is_anonymous) {
+      options.push({
+        label: `Ban ${post.author.full_name}`,
+        icon: 'ban-outline',
+        destructive: true,
+        onPress: () => setStep('ban'),
+      });
+    }
+
+    return (
+      <View style={[styles.sheet, { backgroundColor: appColors.surface }]}>
+        <ThemedText style={[styles.sheetTitle, { color: appColors.textSecondary }]}>Moderate Post</ThemedText>
+        {options.map(option => {
+          const color = option.destructive ? appColors.error : appColors.textPrimary;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={styles.sheetOption}
+              onPress={option.onPress}
+              disabled={moderationMutation.isPending}
+            >
+              <Ionicons name={option.icon} size={20} color={color} />
+              <ThemedText style={[styles.sheetOptionText, { color }]}>{option.label}</ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderReasonForm = () => (
+    <View style={[styles.sheet, styles.form, { backgroundColor: appColors.surface }]}>
+      <ThemedText style={[styles.formTitle, { color: appColors.textPrimary }]}>
+        {step === 'remove' ? 'Remove Post' : `Ban ${post?.author.full_name}`}
+      </ThemedText>
+
+      {step === 'ban' && (
+        <View style={styles.durations}>
+          {BAN_DURATIONS.map(duration => {
+            const selected = banDays === duration.days;
+            return (
+              <TouchableOpacity
+                key={duration.label}
+                style={[
+                  styles.durationChip,
+                  { borderColor: selected ? Colors.primary : appColors.border },
+                  selected && { backgroundColor: Colors.primary + '15' },
+                ]}
+                onPress={() => setBanDays(duration.days)}
+              >
+                <ThemedText
+                  style={[styles.durationText, { color: selected ? Colors.primary : appColors.textSecondary }]}
+                >
+                  {duration.label}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <TextInput
+        style={[styles.reasonInput, { backgroundColor: appColors.input, color: appColors.textPrimary }]}
+        value={reason}
+        onChangeText={setReason}
+        placeholder="Reason (shown to the author)"
+        placeholderTextColor={appColors.textSecondary}
+        maxLength={REASON_MAX}
+        multiline
+        autoFocus
+      />
+
+      <View style={styles.formActions}>
+        <TouchableOpacity style={styles.formButton} onPress={() => setStep('menu')}>
+          <ThemedText style={{ color: appColors.textSecondary }}>Back</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.formButton}
+          onPress={() => moderationMutation.mutate(step === 'remove' ? 'remove' : 'ban')}
+          disabled={!reason.trim() || moderationMutation.isPending}
+        >
+          {moderationMutation.isPending ? (
+            <ActivityIndicator size="small" color={appColors.error} />
+          ) : (
+            <ThemedText
+              style={[styles.formConfirm, { color: reason.trim() ? appColors.error : appColors.textSecondary }]}
+            >
+              {step === 'remove' ? 'Remove' : 'Ban'}
+            </ThemedText>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal visible={post !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.overlay, { backgroundColor: appColors.overlay }]} onPress={onClose}>
+        <Pressable onPress={e => e.stopPropagation()}>
+          {step === 'menu' ? renderMenu() : renderReasonForm()}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing['2xl'],
+  },
+  sheetTitle: {
+    ...Typography.caption,
+    textAlign: 'center',
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  sheetOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  sheetOptionText: {
+    ...Typography.body,
+  },
+  form: {
+    paddingHorizontal: Spacing.lg,
+  },
+  formTitle: {
+    ...Typography.heading,
+    marginBottom: Spacing.md,
+  },
+  durations: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  durationChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  durationText: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  reasonInput: {
+    ...Typography.body,
+    minHeight: 96,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    textAlignVertical: 'top',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: Spacing.md,
+    gap: Spacing.lg,
+  },
+  formButton: {
+    paddingVertical: Spacing.xs,
+  },
+  formConfirm: {
+    fontWeight: '600',
+  },
+});
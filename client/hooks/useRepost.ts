@@ -0,0 +1,51 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { postsApi } from '@/lib/api';
+import { haptics } from '@/lib/haptics';
+import { Post } from '@/types';
+
+/**
+ * Repost menu for a post: repost (or undo it) straight away, or open the
+ * composer to quote it with commentary
+ */
+export function useRepost() {
+  const navigation = useNavigation<any>();
+  const queryClient = useQueryClient();
+
+  const repostMutation = useMutation({
+    mutationFn: async ({ post, undo }: { post: Post; undo: boolean }) => {
+      const response = undo ? await postsApi.undoRepost(post.id) : await postsApi.repost(post.id);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to repost');
+      }
+    },
+    onSuccess: (_, { post }) => {
+      haptics.success();
+      queryClient.invalidateQueries({ queryKey: ['feed'] });
+      queryClient.invalidateQueries({ queryKey: ['post', post.id] });
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  const openRepostMenu = useCallback((post: Post) => {
+    haptics.selection();
+    Alert.alert('Repost', undefined, [
+      {
+        text: post.is_reposted ? 'Undo Repost' : 'Repost',
+        onPress: () => repostMutation.mutate({ post, undo: !!post.is_reposted }),
+      },
+      {
+        text: 'Quote',
+        onPress: () => navigation.navigate('CreatePost', { quotePost: post }),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [navigation, repostMutation]);
+
+  return { openRepostMenu };
+}
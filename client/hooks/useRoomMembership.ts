@@ -0,0 +1,95 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { JoinRoomResponse, roomsApi } from '@/lib/api';
+import { haptics } from '@/lib/haptics';
+
+interface MembershipRoom {
+  slug: string;
+  is_member: boolean;
+  /** Fetched from the room when missing, as room lists leave them out */
+  rules?: string[];
+  join_request_status?: 'pending' | 'declined' | null;
+}
+
+/**
+ * Join or leave a room. Joining a room with rules asks the user to accept
+ * them first, as the server requires. Private rooms take a request to join
+ * instead, unless an invite code is given; toggling a pending request
+ * withdraws it.
+ */
+export function useRoomMembership() {
+  const queryClient = useQueryClient();
+
+  const membershipMutation = useMutation({
+    mutationFn: async ({ slug, join, inviteCode }: { slug: string; join: boolean; inviteCode?: string }) => {
+      const response = join
+        ? await roomsApi.joinRoom(slug, { acceptRules: true, inviteCode })
+        : await roomsApi.leaveRoom(slug);
+      if (!response.success) {
+        throw new Error(response.error?.message || (join ? 'Failed to join room' : 'Failed to leave room'));
+      }
+      return join ? (response.data as JoinRoomResponse | undefined) : undefined;
+    },
+    onSuccess: (result, { slug }) => {
+      haptics.success();
+      queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+      queryClient.invalidateQueries({ queryKey: ['rooms'] });
+      queryClient.invalidateQueries({ queryKey: ['room', slug] });
+      queryClient.invalidateQueries({ queryKey: ['roomFeed', slug] });
+      if (result?.join_request_status === 'pending') {
+        Alert.alert('Request Sent', "The room's moderators will review your request to join.");
+      }
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  const toggleMembership = useCallback(async (room: MembershipRoom, inviteCode?: string) => {
+    if (room.is_member) {
+      membershipMutation.mutate({ slug: room.slug, join: false });
+      return;
+    }
+    if (room.join_request_status === 'pending' && !inviteCode) {
+      Alert.alert('Withdraw Request', 'Withdraw your request to join this room?', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Withdraw',
+          style: 'destructive',
+          onPress: () => membershipMutation.mutate({ slug: room.slug, join: false }),
+        },
+      ]);
+      return;
+    }
+
+    let rules = room.rules;
+    if (!rules) {
+      const response = await roomsApi.getRoom(room.slug);
+      rules = response.data?.rules ?? [];
+    }
+    if (rules.length === 0) {
+      membershipMutation.mutate({ slug: room.slug, join: true, inviteCode });
+      return;
+    }
+
+    Alert.alert(
+      'Room Rules',
+      `${rules.map((rule, index) => `${index + 1}. ${rule}`).join('\n')}\n\nYou must accept the rules to join.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Accept & Join',
+          onPress: () => membershipMutation.mutate({ slug: room.slug, join: true, inviteCode }),
+        },
+      ]
+    );
+  }, [membershipMutation]);
+
+  return {
+    toggleMembership,
+    isPending: membershipMutation.isPending,
+    pendingSlug: membershipMutation.isPending ? membershipMutation.variables?.slug : undefined,
+  };
+}
@@ -6,6 +6,7 @@
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 import { Notification as NotificationFromTypes } from '@/types';
+import type { ReactionCount, ReactionType } from '@/components/Reactions';
 
 // Configuration
 const getApiBaseUrl = () => {
@@ -375,14 +376,28 @@ export interface Post {
   images: string[];
   video_url?: string;
   is_anonymous: boolean;
-  mentions: string[];
+  mentions: { user_id: number; username: string }[];
   hashtags: string[];
+  link_preview: LinkPreview | null;
   upvotes: number;
   downvotes: number;
   comments_count: number;
   user_vote?: 'up' | 'down' | null;
+  reactions: ReactionCount[];
+  reactions_count: number;
+  user_reaction: ReactionType | null;
+  poll: PostPoll | null;
   is_bookmarked: boolean;
+  is_pinned: boolean;
+  /** True for reposts and quotes; repost_of_id is null once the original is deleted */
+  is_repost: boolean;
+  repost_of_id: number | null;
+  repost_of: Post | null;
+  reposts_count: number;
+  is_reposted: boolean;
   feed_score: number;
+  is_edited: boolean;
+  edited_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -397,21 +412,129 @@ export interface Room {
   posts_count: number;
   members_count: number;
   is_member: boolean;
+  visibility: RoomVisibility;
+  specialty: string | null;
+  /** Archived rooms can be read but take no new posts or members */
+  status: 'pending' | 'active' | 'archived';
+  created_at: string;
+  /** Room proposals only */
+  created_by?: User | null;
+  /** Room detail only */
+  rules?: string[];
+  moderators?: User[];
+  is_moderator?: boolean;
+  ban?: { reason: string; expires_at: string | null } | null;
+  join_request_status?: 'pending' | 'declined' | null;
+}
+
+export type RoomVisibility = 'public' | 'private' | 'invite_only';
+
+export interface RoomProposalInput {
+  name: string;
+  slug?: string;
+  description: string;
+  specialty: string;
+  icon: string;
+  color: string;
+  rules?: string[];
+}
+
+export interface JoinRoomResponse {
+  success: boolean;
+  is_member: boolean;
+  members_count: number;
+  /** Set when the room took a request to join instead */
+  join_request_status?: 'pending';
+}
+
+export interface RoomJoinRequest {
+  user: User;
+  message: string | null;
+  created_at: string;
+}
+
+export interface RoomInvite {
+  id: string;
+  code: string;
+  max_uses: number | null;
+  uses_count: number;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface RoomBan {
+  user: User;
+  reason: string;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// Matches ROOM_ANALYTICS_PERIODS in @medinvest/shared
+export type RoomAnalyticsPeriod = '7d' | '30d' | '90d';
+
+export interface RoomAnalyticsDay {
+  date: string;
+  active_members: number;
+  posts: number;
+  comments: number;
+  joins: number;
+  leaves: number;
+  reports: number;
+}
+
+export interface RoomAnalytics {
+  period: RoomAnalyticsPeriod;
+  days: RoomAnalyticsDay[];
+  totals: Omit<RoomAnalyticsDay, 'date'> & { members_count: number };
+  top_contributors: { user: User; posts: number; comments: number }[];
+  top_hashtags: { tag: string; posts: number; engagement: number }[];
+}
+
+export interface RoomModerationLogEntry {
+  id: string;
+  action:
+    | 'remove_post'
+    | 'remove_comment'
+    | 'ban'
+    | 'unban'
+    | 'pin'
+    | 'unpin'
+    | 'add_moderator'
+    | 'remove_moderator'
+    | 'approve_join'
+    | 'decline_join'
+    | 'create_invite'
+    | 'revoke_invite'
+    | 'change_visibility';
+  moderator: User | null;
+  target_user: User | null;
+  post_id: string | null;
+  comment_id: string | null;
+  reason: string | null;
+  excerpt: string | null;
+  expires_at: string | null;
+  created_at: string;
 }
 
 export interface FeedResponse {
   posts: Post[];
+  /** Room feeds only: pinned announcements, on the first page */
+  pinned_posts?: Post[];
   has_more: boolean;
   next_cursor?: string;
-  feed_style: 'algorithmic' | 'chronological' | 'discovery';
+  feed_style: 'algorithmic' | 'chronological' | 'following' | 'discovery';
 }
 
 export interface TrendingTopic {
   hashtag: string;
   count: number;
   trend: 'up' | 'down' | 'stable';
+  previous_count?: number;
+  change_percent?: number;
 }
 
+export type TrendingWindow = '1h' | '24h' | '7d';
+
 export const feedApi = {
   getFeed: (cursor?: string, style?: string) => {
     let endpoint = '/feed';
@@ -422,7 +545,15 @@ export const feedApi = {
     return api.get<FeedResponse>(endpoint);
   },
 
-  getTrending: () => api.get<{ topics: TrendingTopic[] }>('/feed/trending'),
+  getTrending: (window?: TrendingWindow, roomId?: number) => {
+    const params = new URLSearchParams();
+    if (window) params.append('window', window);
+    if (roomId) params.append('room_id', String(roomId));
+    const query = params.toString();
+    return api.get<{ topics: TrendingTopic[]; window: TrendingWindow }>(
+      `/feed/trending${query ? `?${query}` : ''}`
+    );
+  },
 
   getRoomFeed: (roomSlug: string, cursor?: string) => {
     let endpoint = `/rooms/${roomSlug}/posts`;
@@ -442,6 +573,71 @@ export interface CreatePostRequest {
   images?: string[];
   video?: string; // Local video URI for upload
   video_url?: string; // Remote video URL
+  poll?: {
+    question: string;
+    options: string[];
+    duration?: PollDuration;
+    allow_multiple?: boolean;
+    is_anonymous?: boolean;
+  };
+}
+
+export type PollDuration = '1day' | '3days' | '7days' | 'none';
+
+export type ScheduledPostStatus = 'scheduled' | 'published' | 'cancelled' | 'failed';
+
+export interface ScheduledPost {
+  id: string;
+  content: string;
+  room_id: number | null;
+  images: string[];
+  video_url: string | null;
+  poll: CreatePostRequest['poll'] | null;
+  is_anonymous: boolean;
+  scheduled_at: string;
+  status: ScheduledPostStatus;
+  post_id: string | null;
+  failure_reason: string | null;
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SchedulePostRequest = Omit<CreatePostRequest, 'video'> & { scheduled_at: string };
+
+export interface UploadedMedia {
+  id: string;
+  type: 'image' | 'video';
+  url: string;
+  thumbnail_url: string | null;
+  blurhash: string | null;
+  width: number | null;
+  height: number | null;
+  mime_type: string;
+  size_bytes: number;
+}
+
+export interface UploadMediaResponse {
+  urls: string[];
+  media: UploadedMedia[];
+  url: string;
+  thumbnail_url: string | null;
+}
+
+export interface PostPoll {
+  id: string;
+  question: string;
+  options: { id: string; text: string; votes?: number; percentage?: number }[];
+  total_votes: number;
+  duration: PollDuration;
+  ends_at?: string;
+  is_closed: boolean;
+  has_voted: boolean;
+  user_vote?: string;
+  user_votes: string[];
+  results_visible: boolean;
+  allow_multiple: boolean;
+  is_anonymous: boolean;
 }
 
 export interface Comment {
@@ -449,12 +645,65 @@ export interface Comment {
   content: string;
   author: User;
   post_id: number;
-  parent_id?: number;
-  upvotes: number;
-  downvotes: number;
-  user_vote?: 'up' | 'down' | null;
+  parent_id?: number | null;
+  depth: number;
+  likes_count: number;
+  is_liked: boolean;
+  reactions: ReactionCount[];
+  reactions_count: number;
+  user_reaction: ReactionType | null;
+  replies: Comment[];
   replies_count: number;
+  has_more_replies: boolean;
+  replies_cursor: string | null;
+  can_reply: boolean;
+  mentions?: { user_id: number; username: string }[];
+  is_anonymous: boolean;
+  is_deleted: boolean;
+  is_edited: boolean;
+  edited_at: string | null;
   created_at: string;
+  updated_at: string;
+}
+
+export interface CommentsResponse {
+  comments: Comment[];
+  has_more: boolean;
+  next_cursor?: string;
+}
+
+export interface ReactionsResponse {
+  reactions: { type: ReactionType; user: User; created_at: string }[];
+  counts: ReactionCount[];
+  total: number;
+  has_more: boolean;
+  next_cursor?: string;
+}
+
+export interface ReactionSummary {
+  reactions: ReactionCount[];
+  reactions_count: number;
+  user_reaction: ReactionType | null;
+}
+
+export interface CommentRevision {
+  id: string;
+  content: string;
+  replaced_at: string;
+}
+
+export interface PostRevision {
+  id: string;
+  edited_at: string;
+  diff?: { op: 'equal' | 'insert' | 'delete'; text: string }[];
+  previous_content?: string;
+  content?: string;
+}
+
+export interface PostRevisionsResponse {
+  current: { content: string; edited_at: string | null };
+  original?: string;
+  revisions: PostRevision[];
 }
 
 export const postsApi = {
@@ -462,31 +711,121 @@ export const postsApi = {
 
   createPost: (data: CreatePostRequest) => api.post<Post>('/posts', data),
 
+  getScheduled: (status?: ScheduledPostStatus) =>
+    api.get<{ scheduled_posts: ScheduledPost[] }>(`/posts/scheduled${status ? `?status=${status}` : ''}`),
+
+  schedule: (data: SchedulePostRequest) => api.post<ScheduledPost>('/posts/scheduled', data),
+
+  updateScheduled: (id: string, data: Partial<SchedulePostRequest>) =>
+    api.put<ScheduledPost>(`/posts/scheduled/${id}`, data),
+
+  cancelScheduled: (id: string) => api.delete(`/posts/scheduled/${id}`),
+
   updatePost: (id: number, content: string) =>
     api.put<Post>(`/posts/${id}`, { content }),
 
   deletePost: (id: number) => api.delete(`/posts/${id}`),
 
+  getRevisions: (id: number) => api.get<PostRevisionsResponse>(`/posts/${id}/revisions`),
+
   vote: (id: number, direction: 'up' | 'down') =>
     api.post<{ upvotes: number; downvotes: number }>(`/posts/${id}/vote`, { direction }),
 
   removeVote: (id: number) => api.delete(`/posts/${id}/vote`),
 
-  bookmark: (id: number) => api.post(`/posts/${id}/bookmark`),
+  react: (id: number, type: ReactionType) =>
+    api.post<ReactionSummary>(`/posts/${id}/react`, { type }),
+
+  removeReaction: (id: number) => api.delete<ReactionSummary>(`/posts/${id}/react`),
+
+  getPoll: (postId: number, pollId: string) =>
+    api.get<PostPoll>(`/posts/${postId}/polls/${pollId}`),
+
+  votePoll: (postId: number, pollId: string, optionIds: string[]) =>
+    api.post<PostPoll>(`/posts/${postId}/polls/${pollId}/vote`, { option_ids: optionIds }),
+
+  getReactions: (id: number, type?: ReactionType, cursor?: string) => {
+    const params = new URLSearchParams();
+    if (type) params.append('type', type);
+    if (cursor) params.append('cursor', cursor);
+    const query = params.toString();
+    return api.get<ReactionsResponse>(`/posts/${id}/reactions${query ? `?${query}` : ''}`);
+  },
+
+  bookmark: (id: number, collectionId?: string) =>
+    api.post<{ success: boolean; is_bookmarked: boolean; saved_item_id: string }>(
+      `/posts/${id}/bookmark`,
+      collectionId ? { collection_id: collectionId } : undefined
+    ),
 
   removeBookmark: (id: number) => api.delete(`/posts/${id}/bookmark`),
 
-  getComments: (postId: number) =>
-    api.get<{ comments: Comment[] }>(`/posts/${postId}/comments`),
+  /** Repost into the feed, or into a room; with content it becomes a quote */
+  repost: (id: number, data: { content?: string; room_id?: number } = {}) =>
+    api.post<Post>(`/posts/${id}/repost`, data),
 
-  addComment: (postId: number, content: string, parentId?: number) =>
-    api.post<Comment>(`/posts/${postId}/comments`, { content, parent_id: parentId }),
+  undoRepost: (id: number) => api.delete<{ success: boolean }>(`/posts/${id}/repost`),
+
+  pin: (id: number) => api.post<{ success: boolean; is_pinned: boolean }>(`/posts/${id}/pin`),
+
+  unpin: (id: number) => api.delete<{ success: boolean; is_pinned: boolean }>(`/posts/${id}/pin`),
+
+  getComments: (postId: number, cursor?: string) =>
+    api.get<CommentsResponse>(
+      `/posts/${postId}/comments${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`
+    ),
+
+  addComment: (postId: number, content: string, parentId?: number, isAnonymous?: boolean) =>
+    api.post<Comment>(`/posts/${postId}/comments`, {
+      content,
+      parent_id: parentId,
+      is_anonymous: isAnonymous,
+    }),
 
   deleteComment: (postId: number, commentId: number) =>
     api.delete(`/posts/${postId}/comments/${commentId}`),
 
   uploadMedia: (formData: FormData) =>
-    api.upload<{ urls: string[] }>('/posts/upload', formData),
+    api.upload<UploadMediaResponse>('/posts/upload', formData),
+};
+
+// =============================================================================
+// COMMENTS API
+// =============================================================================
+
+export const commentsApi = {
+  getReplies: (commentId: number, cursor?: string | null) =>
+    api.get<CommentsResponse>(
+      `/comments/${commentId}/replies${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`
+    ),
+
+  reply: (postId: number, parentId: number, content: string) =>
+    api.post<Comment>(`/posts/${postId}/comments`, { content, parent_id: parentId }),
+
+  update: (commentId: number, content: string) =>
+    api.put<Comment>(`/comments/${commentId}`, { content }),
+
+  delete: (commentId: number) => api.delete(`/comments/${commentId}`),
+
+  getRevisions: (commentId: number) =>
+    api.get<{ current: { content: string; edited_at: string | null }; revisions: CommentRevision[] }>(
+      `/comments/${commentId}/revisions`
+    ),
+
+  like: (commentId: number) =>
+    api.post<ReactionSummary & { likes_count: number; is_liked: boolean }>(`/comments/${commentId}/like`),
+
+  unlike: (commentId: number) =>
+    api.delete<ReactionSummary & { likes_count: number; is_liked: boolean }>(`/comments/${commentId}/like`),
+
+  react: (commentId: number, type: ReactionType) =>
+    api.post<ReactionSummary>(`/comments/${commentId}/react`, { type }),
+
+  removeReaction: (commentId: number) =>
+    api.delete<ReactionSummary>(`/comments/${commentId}/react`),
+
+  getReactions: (commentId: number, type?: ReactionType) =>
+    api.get<ReactionsResponse>(`/comments/${commentId}/reactions${type ? `?type=${type}` : ''}`),
 };
 
 // =============================================================================
@@ -496,11 +835,84 @@ export const postsApi = {
 export const roomsApi = {
   getRooms: () => api.get<{ rooms: Room[] }>('/rooms'),
 
+  getJoinedRooms: () => api.get<{ rooms: Room[] }>('/rooms/joined'),
+
   getRoom: (slug: string) => api.get<Room>(`/rooms/${slug}`),
 
-  joinRoom: (slug: string) => api.post(`/rooms/${slug}/join`),
+  proposeRoom: (data: RoomProposalInput) => api.post<Room>('/rooms', data),
+
+  /** Every proposal for admins (can_review), otherwise the user's own */
+  getProposals: () => api.get<{ rooms: Room[]; can_review: boolean }>('/rooms/proposals'),
+
+  joinRoom: (
+    slug: string,
+    options: { acceptRules?: boolean; inviteCode?: string; message?: string } = {}
+  ) =>
+    api.post<JoinRoomResponse>(`/rooms/${slug}/join`, {
+      accept_rules: options.acceptRules ?? false,
+      invite_code: options.inviteCode,
+      message: options.message,
+    }),
 
   leaveRoom: (slug: string) => api.delete(`/rooms/${slug}/join`),
+
+  // Admins only
+
+  approveRoom: (slug: string) => api.post<Room>(`/rooms/${slug}/approve`),
+
+  declineRoom: (slug: string, reason: string) =>
+    api.post<{ success: boolean }>(`/rooms/${slug}/decline`, { reason }),
+
+  // Room moderators only
+
+  removePost: (slug: string, postId: number, reason: string) =>
+    api.post<{ success: boolean }>(`/rooms/${slug}/posts/${postId}/remove`, { reason }),
+
+  removeComment: (slug: string, commentId: number, reason: string) =>
+    api.post<{ success: boolean }>(`/rooms/${slug}/comments/${commentId}/remove`, { reason }),
+
+  pinPost: (slug: string, postId: number) =>
+    api.post<{ success: boolean; is_pinned: boolean }>(`/rooms/${slug}/posts/${postId}/pin`),
+
+  unpinPost: (slug: string, postId: number) =>
+    api.delete<{ success: boolean; is_pinned: boolean }>(`/rooms/${slug}/posts/${postId}/pin`),
+
+  getBans: (slug: string) => api.get<{ bans: RoomBan[] }>(`/rooms/${slug}/bans`),
+
+  ban: (slug: string, data: { user_id: string; reason: string; duration_days?: number }) =>
+    api.post<Omit<RoomBan, 'user'> & { user_id: string }>(`/rooms/${slug}/bans`, data),
+
+  unban: (slug: string, userId: number) => api.delete(`/rooms/${slug}/bans/${userId}`),
+
+  getAnalytics: (slug: string, period: RoomAnalyticsPeriod) =>
+    api.get<RoomAnalytics>(`/rooms/${slug}/analytics?period=${period}`),
+
+  getModerationLog: (slug: string, cursor?: string) =>
+    api.get<{ entries: RoomModerationLogEntry[]; has_more: boolean; next_cursor?: string }>(
+      `/rooms/${slug}/moderation-log${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`
+    ),
+
+  updateVisibility: (slug: string, visibility: RoomVisibility) =>
+    api.patch<{ success: boolean; visibility: RoomVisibility }>(`/rooms/${slug}`, { visibility }),
+
+  getJoinRequests: (slug: string) =>
+    api.get<{ requests: RoomJoinRequest[] }>(`/rooms/${slug}/join-requests`),
+
+  approveJoinRequest: (slug: string, userId: number) =>
+    api.post<{ success: boolean; members_count: number }>(
+      `/rooms/${slug}/join-requests/${userId}/approve`
+    ),
+
+  declineJoinRequest: (slug: string, userId: number) =>
+    api.post<{ success: boolean }>(`/rooms/${slug}/join-requests/${userId}/decline`),
+
+  getInvites: (slug: string) => api.get<{ invites: RoomInvite[] }>(`/rooms/${slug}/invites`),
+
+  createInvite: (slug: string, data: { expires_in_hours?: number; max_uses?: number } = {}) =>
+    api.post<RoomInvite>(`/rooms/${slug}/invites`, data),
+
+  revokeInvite: (slug: string, inviteId: string) =>
+    api.delete(`/rooms/${slug}/invites/${inviteId}`),
 };
 
 // =============================================================================
@@ -534,8 +946,6 @@ export const usersApi = {
 
   explore: () => api.get<{ users: User[] }>('/users/explore'),
 
-  getBookmarks: () => api.get<{ posts: Post[] }>('/users/me/bookmarks'),
-  
   // Block/Unblock
   block: (id: number) => api.post(`/users/${id}/block`),
   
@@ -545,7 +955,7 @@ export const usersApi = {
   
   unblockUser: (id: number) => api.delete(`/users/${id}/block`),
   
-  getBlockedUsers: () => api.get<{ blocked_users: Array<{ id: number; user: User; blocked_at: string }> }>('/users/me/blocked'),
+  getBlockedUsers: () => api.get<{ blocked_users: { id: number; user: User; blocked_at: string }[] }>('/users/blocked'),
   
   // User Posts
   getUserPosts: (id: number) => api.get<{ posts: Post[] }>(`/users/${id}/posts`),
@@ -553,6 +963,11 @@ export const usersApi = {
   getUserComments: (id: number) => api.get<{ posts: Post[] }>(`/users/${id}/comments`),
   
   getUserLikes: (id: number) => api.get<{ posts: Post[] }>(`/users/${id}/likes`),
+
+  getPinnedPosts: (id: string) => api.get<Post[]>(`/users/${id}/pinned-posts`),
+
+  reorderPinnedPosts: (postIds: number[]) =>
+    api.put<Post[]>('/users/me/pinned-posts', { post_ids: postIds }),
   
   // Suggested Users (People You May Know)
   getSuggestedUsers: (limit: number = 6) => 
@@ -674,6 +1089,7 @@ export interface Message {
   id: string;
   conversation_id: string;
   content: string;
+  link_preview?: LinkPreview | null;
   sender: ApiUser;
   is_read: boolean;
   read_at?: string;
@@ -841,11 +1257,8 @@ export const contentApi = {
     api.post(`/amas/${amaId}/questions`, { question }),
 
   // Deals
-  getDeals: (category?: string) => {
-    let endpoint = '/deals';
-    if (category) endpoint += `?category=${category}`;
-    return api.get<{ deals: Deal[] }>(endpoint);
-  },
+  getDeals: (sector?: DealSector) =>
+    api.get<DealsPage>(sector ? `/deals?sector=${encodeURIComponent(sector)}` : '/deals'),
   getDeal: (id: number) => api.get<Deal>(`/deals/${id}`),
 
   // Courses
@@ -894,6 +1307,35 @@ export const moderationApi = {
   }),
 };
 
+// =============================================================================
+// SETTINGS API
+// =============================================================================
+
+export interface ContentPreferencesPayload {
+  hide_nsfw?: boolean;
+  blur_sensitive_images?: boolean;
+  hide_spoilers?: boolean;
+  show_trending_posts?: boolean;
+  show_suggested_users?: boolean;
+  show_promoted_content?: boolean;
+  autoplay_videos?: 'always' | 'wifi' | 'never';
+  reduce_animations?: boolean;
+  compact_mode?: boolean;
+  content_languages?: string[];
+  translate_posts?: boolean;
+  muted_keywords?: string[];
+  show_post_metrics?: boolean;
+  show_user_badges?: boolean;
+  confirm_before_posting?: boolean;
+}
+
+export const settingsApi = {
+  getContentPreferences: () => api.get<ContentPreferencesPayload>('/settings/content'),
+
+  updateContentPreferences: (preferences: ContentPreferencesPayload) =>
+    api.put<ContentPreferencesPayload>('/settings/content', preferences),
+};
+
 // =============================================================================
 // SEARCH API
 // =============================================================================
@@ -916,6 +1358,166 @@ export const searchApi = {
     api.get<{ suggestions: string[] }>(`/search/autocomplete?q=${encodeURIComponent(query)}&type=${type}`),
 };
 
+// =============================================================================
+// HASHTAGS API
+// =============================================================================
+
+export interface HashtagDetails {
+  tag: string;
+  posts_count: number;
+  followers_count: number;
+  is_following: boolean;
+  related: { tag: string; posts_count: number }[];
+  created_at: string;
+}
+
+export interface HashtagFeedResponse {
+  hashtag: HashtagDetails;
+  posts: Post[];
+  has_more: boolean;
+  next_cursor?: string;
+}
+
+export const hashtagsApi = {
+  getHashtag: (tag: string, cursor?: string) =>
+    api.get<HashtagFeedResponse>(
+      `/hashtags/${encodeURIComponent(tag)}${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`
+    ),
+
+  getFollowed: () => api.get<{ hashtags: string[] }>('/hashtags/followed'),
+
+  follow: (tag: string) =>
+    api.post<{ tag: string; is_following: boolean }>(`/hashtags/${encodeURIComponent(tag)}/follow`),
+
+  unfollow: (tag: string) =>
+    api.delete<{ tag: string; is_following: boolean }>(`/hashtags/${encodeURIComponent(tag)}/follow`),
+};
+
+// =============================================================================
+// LINK PREVIEWS API
+// =============================================================================
+
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+export const linkPreviewsApi = {
+  get: (url: string) =>
+    api.get<{ link_preview: LinkPreview | null }>(`/link-previews?url=${encodeURIComponent(url)}`),
+};
+
+// =============================================================================
+// SAVED ITEMS API
+// =============================================================================
+
+export type SavedItemType = 'post' | 'article' | 'deal' | 'investment';
+
+export interface SavedCollection {
+  id: string;
+  name: string;
+  items_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedCollectionsResponse {
+  collections: SavedCollection[];
+  total_count: number;
+  unsorted_count: number;
+}
+
+/** Article as returned by /articles */
+export interface SavedArticle {
+  id: string;
+  title: string;
+  summary: string;
+  source: string;
+  sourceUrl: string | null;
+  imageUrl: string | null;
+  category: string;
+  readTime: number;
+  publishedAt: string;
+}
+
+/** Investment as returned by /investments */
+export interface SavedInvestment {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  fundingGoal: number;
+  fundingCurrent: number;
+  imageUrl: string | null;
+  daysRemaining: number;
+}
+
+interface SavedItemBase {
+  id: string;
+  item_id: string;
+  collection_id: string | null;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SavedItem = SavedItemBase &
+  (
+    | { item_type: 'post'; item: Post }
+    | { item_type: 'article'; item: SavedArticle }
+    | { item_type: 'deal'; item: Deal }
+    | { item_type: 'investment'; item: SavedInvestment }
+  );
+
+export interface SavedItemsResponse {
+  items: SavedItem[];
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+export const savedApi = {
+  /** collectionId may be 'unsorted' for items outside any collection */
+  list: (filters: { collectionId?: string; type?: SavedItemType; cursor?: string } = {}) => {
+    const params = new URLSearchParams();
+    if (filters.collectionId) params.append('collection_id', filters.collectionId);
+    if (filters.type) params.append('type', filters.type);
+    if (filters.cursor) params.append('cursor', filters.cursor);
+    const query = params.toString();
+    return api.get<SavedItemsResponse>(`/saved${query ? `?${query}` : ''}`);
+  },
+
+  save: (itemType: SavedItemType, itemId: string | number, collectionId?: string | null) =>
+    api.post<SavedItem>('/saved', {
+      item_type: itemType,
+      item_id: String(itemId),
+      collection_id: collectionId,
+    }),
+
+  update: (id: string, data: { collection_id?: string | null; note?: string | null }) =>
+    api.patch<SavedItem>(`/saved/${id}`, data),
+
+  remove: (id: string) => api.delete(`/saved/${id}`),
+
+  /** Listed items swap places among themselves, top first */
+  reorder: (savedItemIds: string[]) =>
+    api.put<{ success: boolean }>('/saved/order', { saved_item_ids: savedItemIds }),
+
+  getCollections: () => api.get<SavedCollectionsResponse>('/saved/collections'),
+
+  createCollection: (name: string) => api.post<SavedCollection>('/saved/collections', { name }),
+
+  renameCollection: (id: string, name: string) =>
+    api.patch<SavedCollection>(`/saved/collections/${id}`, { name }),
+
+  deleteCollection: (id: string) => api.delete(`/saved/collections/${id}`),
+
+  reorderCollections: (collectionIds: string[]) =>
+    api.put<SavedCollectionsResponse>('/saved/collections/order', { collection_ids: collectionIds }),
+};
+
 // =============================================================================
 // GAMIFICATION API
 // =============================================================================
@@ -987,61 +1589,240 @@ export const aiApi = {
 // DEALS API
 // =============================================================================
 
+// Matches DEAL_SECTORS in @medinvest/shared
+export const DEAL_SECTORS = [
+  'Biotech',
+  'Digital Health',
+  'Medical Devices',
+  'Healthcare Services',
+  'Pharmaceuticals',
+  'Health IT',
+  'Diagnostics',
+  'Telehealth',
+] as const;
+
+export type DealSector = (typeof DEAL_SECTORS)[number];
+
+export type DealStage = 'seed' | 'series_a' | 'series_b' | 'series_c' | 'growth' | 'pre_ipo';
+
+export type DealStatus = 'draft' | 'published' | 'closed';
+
+/** Whether watchlist alerts arrive as they happen or in a daily digest */
+export type DealAlertDelivery = 'instant' | 'daily';
+
+// Matches DEAL_INTEREST_STATUSES in @medinvest/shared
+export const DEAL_INTEREST_STATUSES = ['new', 'contacted', 'committed', 'declined'] as const;
+
+export type DealInterestStatus = (typeof DEAL_INTEREST_STATUSES)[number];
+
+export type DealContactPreference = 'email' | 'phone' | 'message';
+
+export interface DealInterest {
+  id: string;
+  deal_id: number;
+  amount: number | null;
+  message: string | null;
+  contact_preference: DealContactPreference;
+  status: DealInterestStatus;
+  /** Sponsors only: who is interested and how to reach them */
+  investor?: User;
+  contact?: { email: string; phone: string | null };
+  status_changed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DealPipeline {
+  interests: DealInterest[];
+  counts: Record<DealInterestStatus, number>;
+  committed_amount: number;
+  pagination: DealsPage['pagination'];
+}
+
+export interface DealDocument {
+  id: string;
+  name: string;
+  type: string;
+  size_bytes: number | null;
+  created_at: string;
+}
+
+/** The confidentiality agreement gating a deal's data room */
+export interface DealNda {
+  text: string;
+  version: number;
+  is_default: boolean;
+  accepted_at: string | null;
+}
+
+export interface DealDataRoomActivity {
+  documents: {
+    id: string;
+    name: string;
+    views_count: number;
+    viewers_count: number;
+    last_viewed_at: string | null;
+  }[];
+  views: {
+    id: string;
+    document_id: string;
+    document_name: string;
+    viewer: User;
+    viewed_at: string;
+  }[];
+  pagination: DealsPage['pagination'];
+}
+
 export interface Deal {
   id: number;
   title: string;
-  company?: string;
   company_name: string;
-  company_logo?: string;
-  image_url?: string;
-  category: string;
-  stage?: string;
   description: string;
-  highlights: string[];
-  risks?: string[];
-  status: 'active' | 'funded' | 'closed' | 'draft' | 'review' | 'rejected';
-  target_raise: number;
-  raised: number;
+  sector: DealSector;
+  stage: DealStage;
+  /** Drafts are seen only by their sponsor and admins */
+  status: DealStatus;
   minimum_investment: number;
   maximum_investment?: number;
+  target_raise: number;
+  current_raise: number;
   valuation?: number;
   equity_offered?: number;
-  investors_count: number;
-  deadline: string;
-  team?: Array<{
+  highlights: string[];
+  risks: string[];
+  team: {
     name: string;
     role: string;
     background?: string;
-  }>;
-  documents?: Array<{
-    name: string;
-    url: string;
-  }>;
-  featured?: boolean;
-  is_watched?: boolean;
+  }[];
+  logo_url?: string;
+  cover_image_url?: string;
+  documents?: DealDocument[];
+  /** Whether the viewer can open the data room; always true for its managers */
+  nda_accepted?: boolean;
+  deadline?: string;
+  is_featured: boolean;
+  is_watching: boolean;
+  investors_count: number;
+  sponsor: User | null;
+  /** Whether the viewer can edit, publish and close the deal */
+  can_manage: boolean;
+  published_at: string | null;
+  closed_at: string | null;
   created_at: string;
 }
 
+export interface DealsPage {
+  data: Deal[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    has_more: boolean;
+  };
+}
+
+export interface DealInput {
+  title: string;
+  company_name: string;
+  description: string;
+  sector: DealSector;
+  stage: DealStage;
+  target_raise: number;
+  minimum_investment: number;
+  maximum_investment?: number | null;
+  valuation?: number | null;
+  equity_offered?: number | null;
+  highlights?: string[];
+  risks?: string[];
+  team?: Deal['team'];
+  logo_url?: string | null;
+  cover_image_url?: string | null;
+  deadline: string;
+}
+
 export const dealsApi = {
-  getDeals: (category?: string, status?: string) => {
-    let endpoint = '/deals';
+  getDeals: (
+    filters: { sector?: DealSector; stage?: DealStage; sort_by?: string; page?: number } = {}
+  ) => {
     const params = new URLSearchParams();
-    if (category) params.append('category', category);
-    if (status) params.append('status', status);
+    if (filters.sector) params.append('sector', filters.sector);
+    if (filters.stage) params.append('stage', filters.stage);
+    if (filters.sort_by) params.append('sort_by', filters.sort_by);
+    if (filters.page) params.append('page', String(filters.page));
     const query = params.toString();
-    if (query) endpoint += `?${query}`;
-    return api.get<{ deals: Deal[]; total: number; categories: string[]; stages: string[] }>(endpoint);
+    return api.get<DealsPage>(query ? `/deals?${query}` : '/deals');
   },
 
+  getFeaturedDeals: () => api.get<{ deals: Deal[] }>('/deals/featured'),
+
+  getMyDeals: () => api.get<{ deals: Deal[]; is_sponsor: boolean }>('/deals/mine'),
+
   getDeal: (id: number) => api.get<Deal>(`/deals/${id}`),
 
+  createDeal: (data: DealInput) => api.post<Deal>('/deals', data),
+
+  // Sponsors report funding progress with current_raise and investors_count
+  updateDeal: (
+    id: number,
+    data: Partial<DealInput & { current_raise: number; investors_count: number }>
+  ) => api.patch<Deal>(`/deals/${id}`, data),
+
+  publishDeal: (id: number) => api.post<Deal>(`/deals/${id}/publish`),
+
+  closeDeal: (id: number) => api.post(`/deals/${id}/close`),
+
+  // Form data holds the document as "file", and optionally its "name"
+  uploadDocument: (id: number, formData: FormData) =>
+    api.upload<DealDocument>(`/deals/${id}/documents`, formData),
+
+  removeDocument: (id: number, documentId: string) =>
+    api.delete(`/deals/${id}/documents/${documentId}`),
+
+  getNda: (id: number) => api.get<DealNda>(`/deals/${id}/nda`),
+
+  acceptNda: (id: number, version: number) =>
+    api.post<{ accepted_at: string }>(`/deals/${id}/nda/accept`, { version }),
+
+  // Signed download URLs expire after a few minutes, so fetch one per open
+  getDocumentUrl: (id: number, documentId: string) =>
+    api.get<{ url: string; expires_at: string }>(`/deals/${id}/documents/${documentId}/url`),
+
+  getDocumentViews: (id: number, page = 1) =>
+    api.get<DealDataRoomActivity>(`/deals/${id}/documents/views?page=${page}`),
+
   watchDeal: (id: number) => api.post(`/deals/${id}/watch`),
 
   unwatchDeal: (id: number) => api.delete(`/deals/${id}/watch`),
 
-  expressInterest: (id: number, amount: number, message?: string) =>
-    api.post(`/deals/${id}/interest`, { amount, message }),
-};
+  getWatchlist: () =>
+    api.get<{ deals: Deal[]; alert_delivery: DealAlertDelivery }>('/deals/watchlist'),
 
+  setAlertDelivery: (delivery: DealAlertDelivery) =>
+    api.put<{ alert_delivery: DealAlertDelivery }>('/deals/watchlist/alerts', { delivery }),
+
+  expressInterest: (
+    id: number,
+    data: { amount?: number; message?: string; contact_preference?: DealContactPreference }
+  ) => api.post<DealInterest>(`/deals/${id}/interest`, data),
+
+  getMyInterest: (id: number) => api.get<DealInterest>(`/deals/${id}/interest`),
+
+  getPipeline: (id: number, status?: DealInterestStatus, page = 1) => {
+    const params = new URLSearchParams({ page: String(page) });
+    if (status) params.append('status', status);
+    return api.get<DealPipeline>(`/deals/${id}/interests?${params}`);
+  },
+
+  updateInterestStatus: (id: number, interestId: string, status: DealInterestStatus) =>
+    api.patch<DealInterest>(`/deals/${id}/interests/${interestId}`, { status }),
+
+  // The CSV export is a file download rather than JSON, so callers fetch it
+  // themselves with these
+  getPipelineExportRequest: async (id: number) => ({
+    url: `${API_BASE_URL}/deals/${id}/interests/export`,
+    headers: { Authorization: `Bearer ${await tokenManager.getAccessToken()}` },
+  }),
+};
 
 export default api;
@@ -156,7 +156,7 @@ export async function handleDeepLink(url: string): Promise<{
       }
       return { screen: 'UserProfile', params: { userId: parseInt(second, 10) } };
     case 'room':
-      return { screen: 'RoomDetail', params: { roomSlug: second } };
+      return { screen: 'RoomDetail', params: { roomSlug: second, invite: parsed.queryParams?.invite } };
     case 'deal':
       return { screen: 'DealDetail', params: { dealId: parseInt(second, 10) } };
     case 'ama':
@@ -0,0 +1,70 @@
+/**
+ * Room Options
+ * The specialties, icons and colors a proposed room can use, and the icon
+ * each room is drawn with
+ */
+
+import { Feather } from '@expo/vector-icons';
+
+// Matches ROOM_SPECIALTIES in @medinvest/shared
+export const ROOM_SPECIALTIES = [
+  'Cardiology',
+  'Dermatology',
+  'Emergency Medicine',
+  'Endocrinology',
+  'Family Medicine',
+  'Gastroenterology',
+  'General Surgery',
+  'Hematology',
+  'Infectious Disease',
+  'Internal Medicine',
+  'Nephrology',
+  'Neurology',
+  'Obstetrics & Gynecology',
+  'Oncology',
+  'Ophthalmology',
+  'Orthopedics',
+  'Pediatrics',
+  'Psychiatry',
+  'Pulmonology',
+  'Radiology',
+  'Rheumatology',
+  'Urology',
+] as const;
+
+// Matches ROOM_ICONS in @medinvest/shared, with the Feather glyph each is drawn with
+const ROOM_ICON_GLYPHS: Record<string, keyof typeof Feather.glyphMap> = {
+  heart: 'heart',
+  activity: 'activity',
+  cpu: 'cpu',
+  smartphone: 'smartphone',
+  'flask-conical': 'droplet',
+  stethoscope: 'thermometer',
+  pill: 'disc',
+  brain: 'zap',
+  eye: 'eye',
+  microscope: 'search',
+  shield: 'shield',
+  users: 'users',
+};
+
+export const ROOM_ICONS = Object.keys(ROOM_ICON_GLYPHS);
+
+// Matches ROOM_COLORS in @medinvest/shared
+export const ROOM_COLORS = [
+  '#EF4444',
+  '#F59E0B',
+  '#10B981',
+  '#06B6D4',
+  '#3B82F6',
+  '#6366F1',
+  '#8B5CF6',
+  '#EC4899',
+] as const;
+
+/**
+ * The Feather glyph for a room's icon
+ */
+export function getRoomIconName(icon: string): keyof typeof Feather.glyphMap {
+  return ROOM_ICON_GLYPHS[icon] || 'folder';
+}
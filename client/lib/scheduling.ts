@@ -0,0 +1,55 @@
+/**
+ * Post Scheduling
+ * Preset publish times offered when scheduling a post
+ */
+
+export interface SchedulePreset {
+  label: string;
+  date: Date;
+}
+
+const MARKET_PREP_HOUR = 9;
+const EVENING_HOUR = 18;
+
+function atHour(date: Date, hour: number): Date {
+  const result = new Date(date);
+  result.setHours(hour, 0, 0, 0);
+  return result;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Next weekday morning, just before the US market opens
+ */
+function nextMarketMorning(now: Date): Date {
+  let date = atHour(now, MARKET_PREP_HOUR);
+  if (date <= now) date = addDays(date, 1);
+  while (date.getDay() === 0 || date.getDay() === 6) {
+    date = addDays(date, 1);
+  }
+  return date;
+}
+
+/**
+ * Publish times to offer, soonest first. Times already past today are skipped.
+ */
+export function getSchedulePresets(now = new Date()): SchedulePreset[] {
+  const presets: SchedulePreset[] = [
+    { label: 'In 1 hour', date: new Date(now.getTime() + 60 * 60 * 1000) },
+  ];
+
+  const evening = atHour(now, EVENING_HOUR);
+  if (evening.getTime() - now.getTime() > 60 * 60 * 1000) {
+    presets.push({ label: 'This evening, 6:00 PM', date: evening });
+  }
+
+  presets.push({ label: 'Before market open, 9:00 AM', date: nextMarketMorning(now) });
+  presets.push({ label: 'In 1 week', date: addDays(now, 7) });
+
+  return presets.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
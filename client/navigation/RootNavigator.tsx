@@ -48,6 +48,10 @@ import SearchScreen from "@/screens/SearchScreen";
 import EditProfileScreen from "@/screens/EditProfileScreen";
 import UserProfileScreen from "@/screens/UserProfileScreen";
 import RoomDetailScreen from "@/screens/RoomDetailScreen";
+import RoomModerationScreen from "@/screens/RoomModerationScreen";
+import RoomAnalyticsScreen from "@/screens/RoomAnalyticsScreen";
+import RoomProposalsScreen from "@/screens/RoomProposalsScreen";
+import ProposeRoomScreen from "@/screens/ProposeRoomScreen";
 import HashtagScreen from "@/screens/HashtagScreen";
 import FollowersScreen from "@/screens/FollowersScreen";
 import BookmarksScreen from "@/screens/BookmarksScreen";
@@ -59,6 +63,8 @@ import AMADetailScreen from "@/screens/AMADetailScreen";
 import CourseDetailScreen from "@/screens/CourseDetailScreen";
 import EventDetailScreen from "@/screens/EventDetailScreen";
 import DealDetailScreen from "@/screens/DealDetailScreen";
+import DealPipelineScreen from "@/screens/DealPipelineScreen";
+import DealDataRoomScreen from "@/screens/DealDataRoomScreen";
 import AIChatScreen from "@/screens/AIChatScreen";
 import LessonPlayerScreen from "@/screens/LessonPlayerScreen";
 import ChangePasswordScreen from "@/screens/ChangePasswordScreen";
@@ -70,6 +76,7 @@ import TermsOfServiceScreen from "@/screens/TermsOfServiceScreen";
 import AppearanceSettingsScreen from "@/screens/AppearanceSettingsScreen";
 import EditPostScreen from "@/screens/EditPostScreen";
 import DraftsScreen from "@/screens/DraftsScreen";
+import ScheduledPostsScreen from "@/screens/ScheduledPostsScreen";
 import NotificationSettingsScreen from "@/screens/NotificationSettingsScreen";
 import ContentPreferencesScreen from "@/screens/ContentPreferencesScreen";
 import ReportScreen from "@/screens/ReportScreen";
@@ -285,6 +292,10 @@ export default function RootNavigator() {
             <Stack.Screen name="UserProfile" component={UserProfileScreen} />
             <Stack.Screen name="EditProfile" component={EditProfileScreen} />
             <Stack.Screen name="RoomDetail" component={RoomDetailScreen} />
+            <Stack.Screen name="RoomModeration" component={RoomModerationScreen} />
+            <Stack.Screen name="RoomAnalytics" component={RoomAnalyticsScreen} />
+            <Stack.Screen name="RoomProposals" component={RoomProposalsScreen} />
+            <Stack.Screen name="ProposeRoom" component={ProposeRoomScreen} />
             <Stack.Screen
               name="Conversation"
               component={ConversationScreen}
@@ -351,6 +362,8 @@ export default function RootNavigator() {
             <Stack.Screen name="CourseDetail" component={CourseDetailScreen} />
             <Stack.Screen name="EventDetail" component={EventDetailScreen} />
             <Stack.Screen name="DealDetail" component={DealDetailScreen} />
+            <Stack.Screen name="DealPipeline" component={DealPipelineScreen} />
+            <Stack.Screen name="DealDataRoom" component={DealDataRoomScreen} />
             <Stack.Screen
               name="LessonPlayer"
               component={LessonPlayerScreen}
@@ -391,6 +404,7 @@ export default function RootNavigator() {
             {/* Post Management */}
             <Stack.Screen name="EditPost" component={EditPostScreen} />
             <Stack.Screen name="Drafts" component={DraftsScreen} />
+            <Stack.Screen name="ScheduledPosts" component={ScheduledPostsScreen} />
             <Stack.Screen
               name="Report"
               component={ReportScreen}
@@ -1,75 +1,524 @@
 /**
  * Bookmarks Screen
- * View saved/bookmarked posts
+ * Saved posts, articles, deals and investments, organized into collections
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   View,
   StyleSheet,
   FlatList,
+  ScrollView,
   TouchableOpacity,
   RefreshControl,
   ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  TextInput,
+  Image,
+  Linking,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 
 import { ThemedText } from '@/components/ThemedText';
-import { Colors, Spacing, Typography } from '@/constants/theme';
+import { Colors, Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
-import { usersApi, postsApi } from '@/lib/api';
+import { ApiResponse, savedApi, SavedCollection, SavedItem, SavedItemType } from '@/lib/api';
+import { haptics } from '@/lib/haptics';
+import { formatNumber } from '@/lib/utils';
 import { Post } from '@/types';
 import PostCard from '@/components/PostCard';
 
+// Matches LIMITS in @medinvest/shared
+const COLLECTION_NAME_MAX = 60;
+const NOTE_MAX = 500;
+
+const ALL = 'all';
+const UNSORTED = 'unsorted';
+
+const TYPE_META: Record<SavedItemType, { label: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  post: { label: 'Post', icon: 'chatbubble-outline' },
+  article: { label: 'Article', icon: 'newspaper-outline' },
+  deal: { label: 'Deal', icon: 'briefcase-outline' },
+  investment: { label: 'Investment', icon: 'trending-up-outline' },
+};
+
+interface SheetOption {
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  destructive?: boolean;
+  onPress: () => void;
+}
+
+// =============================================================================
+// SHEETS
+// =============================================================================
+
+function OptionsSheet({
+  title,
+  options,
+  onClose,
+}: {
+  title: string | null;
+  options: SheetOption[];
+  onClose: () => void;
+}) {
+  const appColors = useAppColors();
+
+  return (
+    <Modal visible={title !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.overlay, { backgroundColor: appColors.overlay }]} onPress={onClose}>
+        <Pressable
+          style={[styles.sheet, { backgroundColor: appColors.surface }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <ThemedText style={[styles.sheetTitle, { color: appColors.textSecondary }]} numberOfLines={1}>
+            {title}
+          </ThemedText>
+          <ScrollView bounces={false}>
+            {options.map((option) => {
+              const color = option.destructive ? appColors.error : appColors.textPrimary;
+              return (
+                <TouchableOpacity
+                  key={option.label}
+                  style={styles.sheetOption}
+                  onPress={() => {
+                    onClose();
+                    option.onPress();
+                  }}
+                >
+                  <Ionicons name={option.icon} size={20} color={color} />
+                  <ThemedText style={[styles.sheetOptionText, { color }]}>{option.label}</ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+function PromptModal({
+  title,
+  initialValue,
+  placeholder,
+  maxLength,
+  multiline,
+  onSubmit,
+  onClose,
+}: {
+  title: string | null;
+  initialValue: string;
+  placeholder: string;
+  maxLength: number;
+  multiline?: boolean;
+  onSubmit: (value: string) => void;
+  onClose: () => void;
+}) {
+  const appColors = useAppColors();
+  const [value, setValue] = useState(initialValue);
+
+  useEffect(() => {
+    setValue(initialValue);
+  }, [initialValue, title]);
+
+  return (
+    <Modal visible={title !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.overlay, styles.overlayCentered, { backgroundColor: appColors.overlay }]} onPress={onClose}>
+        <Pressable
+          style={[styles.prompt, { backgroundColor: appColors.surface }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <ThemedText style={[styles.promptTitle, { color: appColors.textPrimary }]}>{title}</ThemedText>
+          <TextInput
+            style={[
+              styles.promptInput,
+              multiline && styles.promptInputMultiline,
+              { backgroundColor: appColors.input, color: appColors.textPrimary },
+            ]}
+            value={value}
+            onChangeText={setValue}
+            placeholder={placeholder}
+            placeholderTextColor={appColors.textSecondary}
+            maxLength={maxLength}
+            multiline={multiline}
+            autoFocus
+          />
+          <View style={styles.promptActions}>
+            <TouchableOpacity style={styles.promptButton} onPress={onClose}>
+              <ThemedText style={{ color: appColors.textSecondary }}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.promptButton}
+              onPress={() => {
+                onClose();
+                onSubmit(value.trim());
+              }}
+            >
+              <ThemedText style={[styles.promptSave, { color: Colors.primary }]}>Save</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+// =============================================================================
+// SCREEN
+// =============================================================================
+
 export default function BookmarksScreen() {
   const navigation = useNavigation<any>();
   const queryClient = useQueryClient();
   const appColors = useAppColors();
 
+  const [filter, setFilter] = useState<string>(ALL);
+  const [sheet, setSheet] = useState<{ title: string; options: SheetOption[] } | null>(null);
+  const [prompt, setPrompt] = useState<{
+    title: string;
+    initialValue: string;
+    placeholder: string;
+    maxLength: number;
+    multiline?: boolean;
+    onSubmit: (value: string) => void;
+  } | null>(null);
+
+  const { data: collectionsData } = useQuery({
+    queryKey: ['savedCollections'],
+    queryFn: async () => {
+      const response = await savedApi.getCollections();
+      return response.data;
+    },
+  });
+  const collections = useMemo(() => collectionsData?.collections ?? [], [collectionsData]);
+
   const {
-    data: posts,
+    data: savedData,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
     isLoading,
     isRefetching,
     refetch,
-  } = useQuery({
-    queryKey: ['bookmarks'],
-    queryFn: async () => {
-      const response = await usersApi.getBookmarks();
-      return response.data?.posts || [];
+  } = useInfiniteQuery({
+    queryKey: ['savedItems', filter],
+    queryFn: async ({ pageParam }) => {
+      const response = await savedApi.list({
+        collectionId: filter === ALL ? undefined : filter,
+        cursor: pageParam,
+      });
+      return response.data;
     },
+    getNextPageParam: (lastPage) => (lastPage?.has_more ? lastPage.next_cursor ?? undefined : undefined),
+    initialPageParam: undefined as string | undefined,
   });
+  const items = useMemo(
+    () => savedData?.pages.flatMap(page => page?.items || []) || [],
+    [savedData]
+  );
+
+  // Fall back to everything if the selected collection is deleted
+  useEffect(() => {
+    if (filter !== ALL && filter !== UNSORTED && collectionsData && !collections.some(c => c.id === filter)) {
+      setFilter(ALL);
+    }
+  }, [filter, collections, collectionsData]);
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['savedItems'] });
+    queryClient.invalidateQueries({ queryKey: ['savedCollections'] });
+  }, [queryClient]);
 
-  const removeBookmarkMutation = useMutation({
-    mutationFn: (postId: number) => postsApi.removeBookmark(postId),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['bookmarks'] });
+  const runMutation = useMutation({
+    mutationFn: async (request: () => Promise<ApiResponse<unknown>>) => {
+      const response = await request();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Something went wrong');
+      }
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
     },
   });
+  const run = runMutation.mutate;
 
-  const handlePostPress = useCallback((postId: number) => {
-    navigation.navigate('PostDetail', { postId });
-  }, [navigation]);
+  // ---------------------------------------------------------------------------
+  // Collections
+  // ---------------------------------------------------------------------------
+
+  const handleNewCollection = useCallback(() => {
+    setPrompt({
+      title: 'New Collection',
+      initialValue: '',
+      placeholder: 'e.g. Oncology deals',
+      maxLength: COLLECTION_NAME_MAX,
+      onSubmit: (name) => {
+        if (name) run(() => savedApi.createCollection(name));
+      },
+    });
+  }, [run]);
+
+  const moveCollection = useCallback((collection: SavedCollection, offset: number) => {
+    const ids = collections.map(c => c.id);
+    const from = ids.indexOf(collection.id);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    run(() => savedApi.reorderCollections(ids));
+  }, [collections, run]);
 
-  const handleUserPress = useCallback((userId: number) => {
-    navigation.navigate('UserProfile', { userId });
+  const handleCollectionOptions = useCallback((collection: SavedCollection) => {
+    haptics.selection();
+    const index = collections.indexOf(collection);
+    const options: SheetOption[] = [
+      {
+        label: 'Rename',
+        icon: 'create-outline',
+        onPress: () => setPrompt({
+          title: 'Rename Collection',
+          initialValue: collection.name,
+          placeholder: 'Collection name',
+          maxLength: COLLECTION_NAME_MAX,
+          onSubmit: (name) => {
+            if (name) run(() => savedApi.renameCollection(collection.id, name));
+          },
+        }),
+      },
+    ];
+    if (index > 0) {
+      options.push({ label: 'Move Left', icon: 'arrow-back', onPress: () => moveCollection(collection, -1) });
+    }
+    if (index < collections.length - 1) {
+      options.push({ label: 'Move Right', icon: 'arrow-forward', onPress: () => moveCollection(collection, 1) });
+    }
+    options.push({
+      label: 'Delete Collection',
+      icon: 'trash-outline',
+      destructive: true,
+      onPress: () => Alert.alert(
+        'Delete Collection',
+        `"${collection.name}" will be deleted. Its items stay saved.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete',
+            style: 'destructive',
+            onPress: () => {
+              haptics.delete();
+              run(() => savedApi.deleteCollection(collection.id));
+            },
+          },
+        ]
+      ),
+    });
+    setSheet({ title: collection.name, options });
+  }, [collections, moveCollection, run]);
+
+  // ---------------------------------------------------------------------------
+  // Items
+  // ---------------------------------------------------------------------------
+
+  const handleOpenItem = useCallback((saved: SavedItem) => {
+    switch (saved.item_type) {
+      case 'post':
+        navigation.navigate('PostDetail', { postId: saved.item.id });
+        break;
+      case 'deal':
+        navigation.navigate('DealDetail', { dealId: saved.item.id });
+        break;
+      case 'investment':
+        navigation.navigate('Main', {
+          screen: 'DiscoverTab',
+          params: { screen: 'InvestmentDetail', params: { id: saved.item.id } },
+        });
+        break;
+      case 'article':
+        if (saved.item.sourceUrl) Linking.openURL(saved.item.sourceUrl);
+        break;
+    }
   }, [navigation]);
 
-  const handleRemoveBookmark = useCallback((postId: number) => {
-    removeBookmarkMutation.mutate(postId);
-  }, [removeBookmarkMutation]);
-
-  const renderPost = ({ item }: { item: Post }) => (
-    <PostCard
-      post={item}
-      onPress={() => handlePostPress(item.id)}
-      onUserPress={() => handleUserPress(item.author.id)}
-      onVote={() => {}}
-      onBookmark={() => handleRemoveBookmark(item.id)}
-    />
-  );
+  const handleRemove = useCallback((saved: SavedItem) => {
+    haptics.delete();
+    run(() => savedApi.remove(saved.id));
+  }, [run]);
+
+  const handleMoveToCollection = useCallback((saved: SavedItem) => {
+    const options: SheetOption[] = collections
+      .filter(c => c.id !== saved.collection_id)
+      .map(c => ({
+        label: c.name,
+        icon: 'folder-outline' as const,
+        onPress: () => run(() => savedApi.update(saved.id, { collection_id: c.id })),
+      }));
+    if (saved.collection_id) {
+      options.push({
+        label: 'Remove from Collection',
+        icon: 'folder-open-outline',
+        onPress: () => run(() => savedApi.update(saved.id, { collection_id: null })),
+      });
+    }
+    options.push({ label: 'New Collection', icon: 'add', onPress: handleNewCollection });
+    setSheet({ title: 'Move to Collection', options });
+  }, [collections, handleNewCollection, run]);
+
+  const handleItemOptions = useCallback((saved: SavedItem, index: number) => {
+    haptics.selection();
+    const options: SheetOption[] = [
+      { label: 'Move to Collection', icon: 'folder-outline', onPress: () => handleMoveToCollection(saved) },
+      {
+        label: saved.note ? 'Edit Note' : 'Add Note',
+        icon: 'document-text-outline',
+        onPress: () => setPrompt({
+          title: saved.note ? 'Edit Note' : 'Add Note',
+          initialValue: saved.note ?? '',
+          placeholder: 'Why did you save this?',
+          maxLength: NOTE_MAX,
+          multiline: true,
+          onSubmit: (note) => run(() => savedApi.update(saved.id, { note: note || null })),
+        }),
+      },
+    ];
+    // Moving swaps places with the neighbour in the list being viewed
+    const above = items[index - 1];
+    const below = items[index + 1];
+    if (above) {
+      options.push({ label: 'Move Up', icon: 'arrow-up', onPress: () => run(() => savedApi.reorder([saved.id, above.id])) });
+    }
+    if (below) {
+      options.push({ label: 'Move Down', icon: 'arrow-down', onPress: () => run(() => savedApi.reorder([below.id, saved.id])) });
+    }
+    options.push({ label: 'Remove', icon: 'bookmark-outline', destructive: true, onPress: () => handleRemove(saved) });
+    setSheet({ title: TYPE_META[saved.item_type].label, options });
+  }, [items, handleMoveToCollection, handleRemove, run]);
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // ---------------------------------------------------------------------------
+  // Rendering
+  // ---------------------------------------------------------------------------
+
+  const renderChip = (key: string, label: string, count: number | undefined, collection?: SavedCollection) => {
+    const selected = filter === key;
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[
+          styles.chip,
+          { backgroundColor: selected ? Colors.primary : appColors.surfaceSecondary },
+        ]}
+        onPress={() => setFilter(key)}
+        onLongPress={collection ? () => handleCollectionOptions(collection) : undefined}
+      >
+        <ThemedText style={[styles.chipText, { color: selected ? 'white' : appColors.textPrimary }]}>
+          {label}
+          {count !== undefined ? ` · ${formatNumber(count)}` : ''}
+        </ThemedText>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSummary = (saved: SavedItem) => {
+    let title = '';
+    let subtitle = '';
+    let imageUrl: string | null | undefined = null;
+
+    switch (saved.item_type) {
+      case 'article':
+        title = saved.item.title;
+        subtitle = [saved.item.source, `${saved.item.readTime} min read`].filter(Boolean).join(' · ');
+        imageUrl = saved.item.imageUrl;
+        break;
+      case 'deal':
+        title = saved.item.title;
+        subtitle = `${saved.item.company_name} · ${saved.item.sector}`;
+        imageUrl = saved.item.logo_url;
+        break;
+      case 'investment':
+        title = saved.item.name;
+        subtitle = `${saved.item.category} · ${saved.item.daysRemaining} days left`;
+        imageUrl = saved.item.imageUrl;
+        break;
+      default:
+        return null;
+    }
+
+    return (
+      <TouchableOpacity
+        style={[styles.summary, { backgroundColor: appColors.surface }]}
+        onPress={() => handleOpenItem(saved)}
+        activeOpacity={0.7}
+      >
+        {imageUrl ? (
+          <Image source={{ uri: imageUrl }} style={styles.summaryImage} />
+        ) : (
+          <View style={[styles.summaryImage, styles.summaryIcon, { backgroundColor: appColors.surfaceSecondary }]}>
+            <Ionicons name={TYPE_META[saved.item_type].icon} size={24} color={appColors.textSecondary} />
+          </View>
+        )}
+        <View style={styles.summaryBody}>
+          <ThemedText style={[styles.summaryTitle, { color: appColors.textPrimary }]} numberOfLines={2}>
+            {title}
+          </ThemedText>
+          <ThemedText style={[styles.summarySubtitle, { color: appColors.textSecondary }]} numberOfLines={1}>
+            {subtitle}
+          </ThemedText>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderItem = ({ item: saved, index }: { item: SavedItem; index: number }) => {
+    const collection = collections.find(c => c.id === saved.collection_id);
+
+    return (
+      <View style={[styles.item, { borderBottomColor: appColors.border }]}>
+        <View style={styles.itemHeader}>
+          <Ionicons name={TYPE_META[saved.item_type].icon} size={14} color={appColors.textSecondary} />
+          <ThemedText style={[styles.itemMeta, { color: appColors.textSecondary }]} numberOfLines={1}>
+            {TYPE_META[saved.item_type].label}
+            {collection && filter === ALL ? ` · ${collection.name}` : ''}
+          </ThemedText>
+          <TouchableOpacity
+            style={styles.itemMenu}
+            onPress={() => handleItemOptions(saved, index)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons name="ellipsis-horizontal" size={18} color={appColors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        {saved.note ? (
+          <ThemedText style={[styles.note, { color: appColors.textPrimary, borderLeftColor: Colors.primary }]}>
+            {saved.note}
+          </ThemedText>
+        ) : null}
+
+        {saved.item_type === 'post' ? (
+          <PostCard
+            post={saved.item as unknown as Post}
+            onPress={() => handleOpenItem(saved)}
+            onUserPress={() => navigation.navigate('UserProfile', { userId: saved.item.author.id })}
+            onVote={() => {}}
+            onBookmark={() => handleRemove(saved)}
+          />
+        ) : (
+          renderSummary(saved)
+        )}
+      </View>
+    );
+  };
 
   const renderEmpty = () => {
     if (isLoading) {
@@ -82,9 +531,13 @@ export default function BookmarksScreen() {
     return (
       <View style={styles.emptyContainer}>
         <Ionicons name="bookmark-outline" size={64} color={appColors.textSecondary} />
-        <ThemedText style={[styles.emptyTitle, { color: appColors.textPrimary }]}>No bookmarks yet</ThemedText>
+        <ThemedText style={[styles.emptyTitle, { color: appColors.textPrimary }]}>
+          {filter === ALL ? 'Nothing saved yet' : 'This collection is empty'}
+        </ThemedText>
         <ThemedText style={[styles.emptySubtitle, { color: appColors.textSecondary }]}>
-          Posts you save will appear here
+          {filter === ALL
+            ? 'Posts, articles, deals and investments you save will appear here'
+            : 'Move saved items here from the ··· menu'}
         </ThemedText>
       </View>
     );
@@ -97,26 +550,63 @@ export default function BookmarksScreen() {
         <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
           <Ionicons name="chevron-back" size={24} color={appColors.textPrimary} />
         </TouchableOpacity>
-        <ThemedText style={[styles.headerTitle, { color: appColors.textPrimary }]}>Bookmarks</ThemedText>
-        <View style={styles.backButton} />
+        <ThemedText style={[styles.headerTitle, { color: appColors.textPrimary }]}>Saved</ThemedText>
+        <TouchableOpacity style={styles.backButton} onPress={handleNewCollection}>
+          <Ionicons name="folder-open-outline" size={22} color={appColors.textPrimary} />
+        </TouchableOpacity>
       </View>
 
-      {/* Posts List */}
+      {/* Collections */}
+      <View style={[styles.chipBar, { backgroundColor: appColors.surface, borderBottomColor: appColors.border }]}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {renderChip(ALL, 'All', collectionsData?.total_count)}
+          {collections.length > 0 ? renderChip(UNSORTED, 'Unsorted', collectionsData?.unsorted_count) : null}
+          {collections.map(c => renderChip(c.id, c.name, c.items_count, c))}
+          <TouchableOpacity
+            style={[styles.chip, styles.chipAdd, { borderColor: appColors.border }]}
+            onPress={handleNewCollection}
+          >
+            <Ionicons name="add" size={16} color={appColors.textSecondary} />
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+
+      {/* Saved Items */}
       <FlatList
-        data={posts}
-        renderItem={renderPost}
-        keyExtractor={(item) => item.id.toString()}
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
         ListEmptyComponent={renderEmpty}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isFetchingNextPage ? <ActivityIndicator style={styles.footer} color={Colors.primary} /> : null
+        }
         refreshControl={
           <RefreshControl
-            refreshing={isRefetching}
+            refreshing={isRefetching && !isFetchingNextPage}
             onRefresh={refetch}
             tintColor={Colors.primary}
           />
         }
-        contentContainerStyle={posts?.length === 0 ? styles.emptyList : undefined}
+        contentContainerStyle={items.length === 0 ? styles.emptyList : undefined}
         showsVerticalScrollIndicator={false}
       />
+
+      <OptionsSheet
+        title={sheet?.title ?? null}
+        options={sheet?.options ?? []}
+        onClose={() => setSheet(null)}
+      />
+      <PromptModal
+        title={prompt?.title ?? null}
+        initialValue={prompt?.initialValue ?? ''}
+        placeholder={prompt?.placeholder ?? ''}
+        maxLength={prompt?.maxLength ?? NOTE_MAX}
+        multiline={prompt?.multiline}
+        onSubmit={(value) => prompt?.onSubmit(value)}
+        onClose={() => setPrompt(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -140,12 +630,149 @@ const styles = StyleSheet.create({
   headerTitle: {
     ...Typography.heading,
   },
+  chipBar: {
+    borderBottomWidth: 1,
+  },
+  chipRow: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    justifyContent: 'center',
+  },
+  chipAdd: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  chipText: {
+    ...Typography.caption,
+    fontWeight: '500',
+  },
+  item: {
+    borderBottomWidth: 1,
+    paddingTop: Spacing.sm,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    gap: 4,
+  },
+  itemMeta: {
+    ...Typography.small,
+    flex: 1,
+  },
+  itemMenu: {
+    padding: Spacing.xs,
+  },
+  note: {
+    ...Typography.body,
+    marginHorizontal: Spacing.lg,
+    marginTop: Spacing.xs,
+    paddingLeft: Spacing.sm,
+    borderLeftWidth: 2,
+    fontStyle: 'italic',
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  summaryImage: {
+    width: 56,
+    height: 56,
+    borderRadius: BorderRadius.sm,
+  },
+  summaryIcon: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  summaryBody: {
+    flex: 1,
+  },
+  summaryTitle: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  summarySubtitle: {
+    ...Typography.small,
+    marginTop: 2,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  overlayCentered: {
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  sheet: {
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    paddingTop: Spacing.md,
+    paddingBottom: Spacing['2xl'],
+    maxHeight: '70%',
+  },
+  sheetTitle: {
+    ...Typography.caption,
+    textAlign: 'center',
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  sheetOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  sheetOptionText: {
+    ...Typography.body,
+  },
+  prompt: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+  },
+  promptTitle: {
+    ...Typography.heading,
+    marginBottom: Spacing.md,
+  },
+  promptInput: {
+    ...Typography.body,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  promptInputMultiline: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  promptActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: Spacing.md,
+    gap: Spacing.lg,
+  },
+  promptButton: {
+    paddingVertical: Spacing.xs,
+  },
+  promptSave: {
+    fontWeight: '600',
+  },
   loadingContainer: {
     flex: 1,
     alignItems: 'center',
     justifyContent: 'center',
     paddingVertical: Spacing['5xl'],
   },
+  footer: {
+    paddingVertical: Spacing.lg,
+  },
   emptyList: {
     flex: 1,
   },
@@ -22,6 +22,7 @@ import { ThemedText } from '@/components/ThemedText';
 import { Colors, Spacing, BorderRadius, Typography, Shadows } from '@/constants/theme';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { haptics } from '@/lib/haptics';
+import { settingsApi } from '@/lib/api';
 
 // Content preferences
 interface ContentPreferences {
@@ -100,6 +101,24 @@ export default function ContentPreferencesScreen() {
   const savePreferences = async (newPrefs: ContentPreferences) => {
     try {
       await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(newPrefs));
+      // Sync to the server so feed ranking can respect these preferences
+      settingsApi.updateContentPreferences({
+        hide_nsfw: newPrefs.hideNSFW,
+        blur_sensitive_images: newPrefs.blurSensitiveImages,
+        hide_spoilers: newPrefs.hideSpoilers,
+        show_trending_posts: newPrefs.showTrendingPosts,
+        show_suggested_users: newPrefs.showSuggestedUsers,
+        show_promoted_content: newPrefs.showPromotedContent,
+        autoplay_videos: newPrefs.autoplayVideos,
+        reduce_animations: newPrefs.reduceAnimations,
+        compact_mode: newPrefs.compactMode,
+        content_languages: newPrefs.contentLanguages,
+        translate_posts: newPrefs.translatePosts,
+        muted_keywords: newPrefs.mutedKeywords,
+        show_post_metrics: newPrefs.showPostMetrics,
+        show_user_badges: newPrefs.showUserBadges,
+        confirm_before_posting: newPrefs.confirmBeforePosting,
+      }).catch((error) => console.error('Error syncing content preferences:', error));
     } catch (error) {
       console.error('Error saving content preferences:', error);
     }
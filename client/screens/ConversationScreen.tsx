@@ -21,6 +21,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 
 import { ThemedText } from '@/components/ThemedText';
+import LinkPreviewCard from '@/components/LinkPreviewCard';
 import { Colors, Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
 import { messagesApi, ApiUser, Message } from '@/lib/api';
@@ -148,6 +149,7 @@ export default function ConversationScreen() {
           <ThemedText style={[styles.messageText, { color: appColors.textPrimary }, isOwn && styles.messageTextOwn]}>
             {item.content}
           </ThemedText>
+          {item.link_preview ? <LinkPreviewCard preview={item.link_preview} compact /> : null}
         </View>
 
         {showTimestamp && (
@@ -1,6 +1,7 @@
 /**
  * CreatePost Screen
- * Create new posts with media, mentions, and hashtags
+ * Create new posts with media, mentions, and hashtags, now or at a scheduled time,
+ * or quote another post with commentary
  */
 
 import React, { useState, useRef, useCallback } from 'react';
@@ -26,13 +27,18 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { ThemedText } from '@/components/ThemedText';
 import { Colors, Spacing, BorderRadius, Typography, Shadows } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
-import { postsApi, roomsApi, searchApi } from '@/lib/api';
+import { postsApi, roomsApi, searchApi, ScheduledPost } from '@/lib/api';
+import { getSchedulePresets } from '@/lib/scheduling';
+import { formatDate } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
-import { Room } from '@/types';
+import { Post, Room } from '@/types';
+import QuotedPost from '@/components/QuotedPost';
 
 type CreatePostRouteParams = {
   CreatePost: {
     roomSlug?: string;
+    scheduledPost?: ScheduledPost;
+    quotePost?: Post;
   };
 };
 
@@ -54,10 +60,17 @@ export default function CreatePostScreen() {
   const inputRef = useRef<TextInput>(null);
   const appColors = useAppColors();
 
-  const [content, setContent] = useState('');
+  const editingScheduled = route.params?.scheduledPost;
+  // Quotes go to the feed unless a room is picked, and carry no media
+  const quotePost = route.params?.quotePost;
+
+  const [content, setContent] = useState(editingScheduled?.content ?? '');
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
   const [media, setMedia] = useState<MediaItem[]>([]);
-  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [isAnonymous, setIsAnonymous] = useState(editingScheduled?.is_anonymous ?? false);
+  const [scheduledAt, setScheduledAt] = useState<Date | null>(
+    editingScheduled ? new Date(editingScheduled.scheduled_at) : null
+  );
   const [showRoomPicker, setShowRoomPicker] = useState(false);
   const [mentionQuery, setMentionQuery] = useState<string | null>(null);
   const [hashtagQuery, setHashtagQuery] = useState<string | null>(null);
@@ -108,15 +121,54 @@ export default function CreatePostScreen() {
     }
   }, [route.params?.roomSlug, roomsData]);
 
+  // Restore the room of a scheduled post being edited
+  React.useEffect(() => {
+    if (editingScheduled?.room_id && roomsData) {
+      const room = roomsData.find(r => r.id === editingScheduled.room_id);
+      if (room) setSelectedRoom(room);
+    }
+  }, [editingScheduled?.room_id, roomsData]);
+
   // Create post mutation
   const createPostMutation = useMutation({
     mutationFn: async () => {
+      if (quotePost) {
+        if (!content.trim()) throw new Error('Please add some content');
+        const response = await postsApi.repost(quotePost.id, {
+          content: content.trim(),
+          room_id: selectedRoom?.id,
+        });
+        if (!response.success) {
+          throw new Error(response.error?.message || 'Failed to quote post');
+        }
+        return response.data;
+      }
+
       if (!selectedRoom) throw new Error('Please select a room');
       if (!content.trim()) throw new Error('Please add some content');
 
       const imageUris = media.filter(m => m.type === 'image').map(m => m.uri);
       const videoUri = media.find(m => m.type === 'video')?.uri;
 
+      if (editingScheduled || scheduledAt) {
+        if (!scheduledAt) throw new Error('Please choose when to publish');
+        const data = {
+          content: content.trim(),
+          room_id: selectedRoom.id,
+          is_anonymous: isAnonymous,
+          images: imageUris.length > 0 ? imageUris : undefined,
+          scheduled_at: scheduledAt.toISOString(),
+        };
+        const response = editingScheduled
+          ? await postsApi.updateScheduled(editingScheduled.id, data)
+          : await postsApi.schedule(data);
+
+        if (!response.success) {
+          throw new Error(response.error?.message || 'Failed to schedule post');
+        }
+        return response.data;
+      }
+
       const response = await postsApi.createPost({
         content: content.trim(),
         room_id: selectedRoom.id,
@@ -133,6 +185,10 @@ export default function CreatePostScreen() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['feed'] });
+      queryClient.invalidateQueries({ queryKey: ['scheduledPosts'] });
+      if (quotePost) {
+        queryClient.invalidateQueries({ queryKey: ['post', quotePost.id] });
+      }
       navigation.goBack();
     },
     onError: (error: Error) => {
@@ -265,7 +321,23 @@ export default function CreatePostScreen() {
     inputRef.current?.focus();
   };
 
-  const canPost = content.trim().length > 0 && selectedRoom !== null;
+  // Pick a publish time, or go back to posting now
+  const handleSchedule = () => {
+    const presets = getSchedulePresets();
+    Alert.alert('Schedule Post', 'When should this post be published?', [
+      ...presets.map(preset => ({
+        text: `${preset.label} (${formatDate(preset.date.toISOString(), true)})`,
+        onPress: () => setScheduledAt(preset.date),
+      })),
+      ...(scheduledAt && !editingScheduled
+        ? [{ text: 'Post now instead', onPress: () => setScheduledAt(null) }]
+        : []),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const canPost = content.trim().length > 0 && (selectedRoom !== null || !!quotePost);
+  const submitLabel = editingScheduled ? 'Save' : scheduledAt ? 'Schedule' : quotePost ? 'Quote' : 'Post';
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: appColors.surface }]} edges={['top']}>
@@ -286,7 +358,7 @@ export default function CreatePostScreen() {
             {createPostMutation.isPending ? (
               <ActivityIndicator size="small" color="white" />
             ) : (
-              <ThemedText style={styles.postButtonText}>Post</ThemedText>
+              <ThemedText style={styles.postButtonText}>{submitLabel}</ThemedText>
             )}
           </TouchableOpacity>
         </View>
@@ -305,7 +377,9 @@ export default function CreatePostScreen() {
                 </ThemedText>
               </>
             ) : (
-              <ThemedText style={[styles.roomPlaceholder, { color: appColors.textSecondary }]}>Select a room</ThemedText>
+              <ThemedText style={[styles.roomPlaceholder, { color: appColors.textSecondary }]}>
+                {quotePost ? 'Post to your feed' : 'Select a room'}
+              </ThemedText>
             )}
             <Ionicons name="chevron-down" size={20} color={appColors.textSecondary} />
           </TouchableOpacity>
@@ -313,6 +387,22 @@ export default function CreatePostScreen() {
           {/* Room Picker Dropdown */}
           {showRoomPicker && (
             <View style={[styles.roomPicker, { backgroundColor: appColors.surface }]}>
+              {quotePost && (
+                <TouchableOpacity
+                  style={[
+                    styles.roomOption,
+                    { borderBottomColor: appColors.border },
+                    selectedRoom === null && styles.roomOptionSelected,
+                  ]}
+                  onPress={() => {
+                    setSelectedRoom(null);
+                    setShowRoomPicker(false);
+                  }}
+                >
+                  <Ionicons name="home-outline" size={16} color={appColors.textSecondary} />
+                  <ThemedText style={[styles.roomOptionName, { color: appColors.textPrimary }]}>Your feed</ThemedText>
+                </TouchableOpacity>
+              )}
               {roomsData?.map((room) => (
                 <TouchableOpacity
                   key={room.id}
@@ -333,6 +423,19 @@ export default function CreatePostScreen() {
             </View>
           )}
 
+          {/* Scheduled Time */}
+          {scheduledAt && (
+            <TouchableOpacity
+              style={[styles.scheduleBanner, { backgroundColor: Colors.primary + '15' }]}
+              onPress={handleSchedule}
+            >
+              <Ionicons name="time-outline" size={16} color={Colors.primary} />
+              <ThemedText style={styles.scheduleBannerText}>
+                Publishes {formatDate(scheduledAt.toISOString(), true)}
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+
           {/* Author Info */}
           <View style={styles.authorRow}>
             {isAnonymous ? (
@@ -357,7 +460,7 @@ export default function CreatePostScreen() {
           <TextInput
             ref={inputRef}
             style={[styles.input, { color: appColors.textPrimary }]}
-            placeholder="What's on your mind?"
+            placeholder={quotePost ? 'Add a comment...' : "What's on your mind?"}
             placeholderTextColor={appColors.textSecondary}
             multiline
             value={content}
@@ -366,6 +469,9 @@ export default function CreatePostScreen() {
             autoFocus
           />
 
+          {/* Quoted Post */}
+          {quotePost && <QuotedPost post={quotePost} pressable={false} />}
+
           {/* Character Count */}
           <View style={styles.charCount}>
             <ThemedText style={[
@@ -447,55 +553,64 @@ export default function CreatePostScreen() {
         </ScrollView>
 
         {/* Bottom Toolbar */}
-        <View style={[styles.toolbar, { borderTopColor: appColors.border }]}>
-          <View style={styles.toolbarLeft}>
-            <TouchableOpacity style={styles.toolbarButton} onPress={handlePickImages}>
-              <Ionicons name="image-outline" size={24} color={Colors.primary} />
-              {images.length > 0 && (
-                <View style={styles.imageBadge}>
-                  <ThemedText style={styles.imageBadgeText}>{images.length}</ThemedText>
-                </View>
-              )}
-            </TouchableOpacity>
-            <TouchableOpacity 
-              style={[styles.toolbarButton, videos.length >= MAX_VIDEOS && styles.toolbarButtonDisabled]} 
-              onPress={handlePickVideo}
-              disabled={videos.length >= MAX_VIDEOS}
+        {!quotePost && (
+          <View style={[styles.toolbar, { borderTopColor: appColors.border }]}>
+            <View style={styles.toolbarLeft}>
+              <TouchableOpacity style={styles.toolbarButton} onPress={handlePickImages}>
+                <Ionicons name="image-outline" size={24} color={Colors.primary} />
+                {images.length > 0 && (
+                  <View style={styles.imageBadge}>
+                    <ThemedText style={styles.imageBadgeText}>{images.length}</ThemedText>
+                  </View>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={[styles.toolbarButton, videos.length >= MAX_VIDEOS && styles.toolbarButtonDisabled]} 
+                onPress={handlePickVideo}
+                disabled={videos.length >= MAX_VIDEOS}
+              >
+                <Ionicons 
+                  name="videocam-outline" 
+                  size={24} 
+                  color={videos.length >= MAX_VIDEOS ? appColors.textSecondary : Colors.primary} 
+                />
+                {videos.length > 0 && (
+                  <View style={[styles.imageBadge, styles.videoBadge]}>
+                    <ThemedText style={styles.imageBadgeText}>{videos.length}</ThemedText>
+                  </View>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.toolbarButton} onPress={handleCamera}>
+                <Ionicons name="camera-outline" size={24} color={Colors.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.toolbarButton} onPress={handleSchedule}>
+                <Ionicons
+                  name={scheduledAt ? 'time' : 'time-outline'}
+                  size={24}
+                  color={Colors.primary}
+                />
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.anonymousToggle, isAnonymous && styles.anonymousToggleActive]}
+              onPress={() => setIsAnonymous(!isAnonymous)}
             >
-              <Ionicons 
-                name="videocam-outline" 
-                size={24} 
-                color={videos.length >= MAX_VIDEOS ? appColors.textSecondary : Colors.primary} 
+              <Ionicons
+                name={isAnonymous ? 'eye-off' : 'eye-off-outline'}
+                size={18}
+                color={isAnonymous ? Colors.primary : appColors.textSecondary}
               />
-              {videos.length > 0 && (
-                <View style={[styles.imageBadge, styles.videoBadge]}>
-                  <ThemedText style={styles.imageBadgeText}>{videos.length}</ThemedText>
-                </View>
-              )}
-            </TouchableOpacity>
-            <TouchableOpacity style={styles.toolbarButton} onPress={handleCamera}>
-              <Ionicons name="camera-outline" size={24} color={Colors.primary} />
+              <ThemedText style={[
+                styles.anonymousText,
+                { color: appColors.textSecondary },
+                isAnonymous && styles.anonymousTextActive,
+              ]}>
+                Anonymous
+              </ThemedText>
             </TouchableOpacity>
           </View>
-
-          <TouchableOpacity
-            style={[styles.anonymousToggle, isAnonymous && styles.anonymousToggleActive]}
-            onPress={() => setIsAnonymous(!isAnonymous)}
-          >
-            <Ionicons
-              name={isAnonymous ? 'eye-off' : 'eye-off-outline'}
-              size={18}
-              color={isAnonymous ? Colors.primary : appColors.textSecondary}
-            />
-            <ThemedText style={[
-              styles.anonymousText,
-              { color: appColors.textSecondary },
-              isAnonymous && styles.anonymousTextActive,
-            ]}>
-              Anonymous
-            </ThemedText>
-          </TouchableOpacity>
-        </View>
+        )}
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
@@ -718,6 +833,19 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 10,
   },
+  scheduleBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.md,
+    gap: Spacing.xs,
+  },
+  scheduleBannerText: {
+    ...Typography.caption,
+    color: Colors.primary,
+    fontWeight: '500',
+  },
   anonymousToggle: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,241 @@
+/**
+ * Deal Data Room Screen
+ * A sponsor's view of who has opened the documents in one of their deals'
+ * data rooms, and how often
+ */
+
+import React from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+
+import { Avatar } from '@/components/Avatar';
+import { ThemedText } from '@/components/ThemedText';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { dealsApi, DealDataRoomActivity } from '@/lib/api';
+import { formatRelativeTime } from '@/lib/utils';
+import { RootStackParamList } from '@/types';
+
+type DocumentView = DealDataRoomActivity['views'][number];
+
+export default function DealDataRoomScreen() {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<RootStackParamList, 'DealDataRoom'>>();
+  const { dealId, dealTitle } = route.params;
+  const { colors } = useThemeContext();
+
+  const { data, isLoading, isRefetching, refetch } = useQuery({
+    queryKey: ['dealDataRoom', dealId],
+    queryFn: async () => {
+      const response = await dealsApi.getDocumentViews(dealId);
+      return response.data;
+    },
+  });
+
+  const renderDocuments = () => (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <ThemedText style={[styles.cardTitle, { color: colors.textPrimary }]}>Documents</ThemedText>
+      {(data?.documents || []).length === 0 ? (
+        <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+          No documents in the data room yet.
+        </ThemedText>
+      ) : (
+        data?.documents.map(document => (
+          <View key={document.id} style={[styles.documentRow, { borderBottomColor: colors.border }]}>
+            <Ionicons name="document-text-outline" size={20} color={colors.primary} />
+            <View style={styles.documentInfo}>
+              <ThemedText style={[styles.documentName, { color: colors.textPrimary }]} numberOfLines={1}>
+                {document.name}
+              </ThemedText>
+              <ThemedText style={[styles.meta, { color: colors.textTertiary }]}>
+                {document.last_viewed_at
+                  ? `Last opened ${formatRelativeTime(document.last_viewed_at)}`
+                  : 'Not opened yet'}
+              </ThemedText>
+            </View>
+            <View style={styles.documentStats}>
+              <ThemedText style={[styles.statValue, { color: colors.textPrimary }]}>
+                {document.views_count}
+              </ThemedText>
+              <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+                {document.viewers_count === 1 ? '1 viewer' : `${document.viewers_count} viewers`}
+              </ThemedText>
+            </View>
+          </View>
+        ))
+      )}
+      <ThemedText style={[styles.sectionLabel, { color: colors.textSecondary }]}>Recent views</ThemedText>
+    </View>
+  );
+
+  const renderView = ({ item }: { item: DocumentView }) => (
+    <View style={[styles.viewRow, { backgroundColor: colors.surface }]}>
+      <Avatar source={item.viewer.avatar_url} name={item.viewer.full_name} size="sm" />
+      <View style={styles.viewInfo}>
+        <ThemedText style={[styles.documentName, { color: colors.textPrimary }]} numberOfLines={1}>
+          {item.viewer.full_name}
+        </ThemedText>
+        <ThemedText style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={1}>
+          {item.viewer.email}
+        </ThemedText>
+        <ThemedText style={[styles.meta, { color: colors.textTertiary }]} numberOfLines={1}>
+          {item.document_name} · {formatRelativeTime(item.viewed_at)}
+        </ThemedText>
+      </View>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="eye-off-outline" size={48} color={colors.textTertiary} />
+      <ThemedText style={[styles.emptyTitle, { color: colors.textPrimary }]}>No views yet</ThemedText>
+      <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+        Investors who accept the confidentiality agreement and open a document will appear here.
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <ThemedText style={[styles.headerTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+          {dealTitle || 'Data Room'}
+        </ThemedText>
+        <View style={styles.headerRight} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={data?.views || []}
+          keyExtractor={(item) => item.id}
+          renderItem={renderView}
+          ListHeaderComponent={renderDocuments}
+          ListEmptyComponent={renderEmptyState}
+          contentContainerStyle={styles.list}
+          onRefresh={refetch}
+          refreshing={isRefetching}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'flex-start',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...Typography.heading,
+    fontSize: 17,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerRight: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  list: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  card: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+  },
+  cardTitle: {
+    ...Typography.heading,
+    marginBottom: Spacing.sm,
+  },
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+  },
+  documentInfo: {
+    flex: 1,
+  },
+  documentName: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  documentStats: {
+    alignItems: 'flex-end',
+  },
+  statValue: {
+    ...Typography.heading,
+    fontWeight: '700',
+  },
+  meta: {
+    ...Typography.small,
+    marginTop: 2,
+  },
+  sectionLabel: {
+    ...Typography.caption,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: Spacing.lg,
+  },
+  viewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  viewInfo: {
+    flex: 1,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  emptyTitle: {
+    ...Typography.heading,
+    marginTop: Spacing.lg,
+  },
+  emptySubtitle: {
+    ...Typography.body,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+    lineHeight: 22,
+  },
+});
@@ -1,9 +1,9 @@
 /**
  * DealDetail Screen
- * View investment deal details and invest
+ * View investment deal details and express interest
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   StyleSheet,
@@ -13,20 +13,274 @@ import {
   RefreshControl,
   ActivityIndicator,
   Linking,
+  Alert,
+  Modal,
+  Pressable,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { LinearGradient } from 'expo-linear-gradient';
 
 import { ThemedText } from '@/components/ThemedText';
 import { Colors, Spacing, BorderRadius, Typography, Shadows } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
-import { dealsApi } from '@/lib/api';
-import { Deal } from '@/types';
+import { dealsApi, Deal, DealContactPreference, DealInterest, DealInterestStatus } from '@/lib/api';
 import { formatCurrency, formatNumber, formatDate } from '@/lib/utils';
 
+const CONTACT_OPTIONS: { value: DealContactPreference; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'message', label: 'Message' },
+];
+
+const INTEREST_STATUS_TEXT: Record<DealInterestStatus, string> = {
+  new: 'Interest sent',
+  contacted: 'Sponsor in touch',
+  committed: 'Committed',
+  declined: 'Not proceeding',
+};
+
+// Matches EDITABLE_INTEREST_STATUSES on the server
+const EDITABLE_INTEREST_STATUSES: DealInterestStatus[] = ['new', 'contacted'];
+
+function InterestModal({
+  deal,
+  interest,
+  visible,
+  onClose,
+}: {
+  deal: Deal;
+  interest: DealInterest | null | undefined;
+  visible: boolean;
+  onClose: () => void;
+}) {
+  const appColors = useAppColors();
+  const queryClient = useQueryClient();
+  const [amount, setAmount] = useState('');
+  const [message, setMessage] = useState('');
+  const [contactPreference, setContactPreference] = useState<DealContactPreference>('email');
+
+  useEffect(() => {
+    if (!visible) return;
+    setAmount(String(interest?.amount ?? deal.minimum_investment));
+    setMessage(interest?.message ?? '');
+    setContactPreference(interest?.contact_preference ?? 'email');
+  }, [visible, interest, deal.minimum_investment]);
+
+  const interestMutation = useMutation({
+    mutationFn: async () => {
+      const value = parseFloat(amount.replace(/[^0-9.]/g, ''));
+      const response = await dealsApi.expressInterest(deal.id, {
+        amount: Number.isFinite(value) ? value : undefined,
+        message: message.trim() || undefined,
+        contact_preference: contactPreference,
+      });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to express interest');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['dealInterest', deal.id] });
+      onClose();
+      Alert.alert(
+        interest ? 'Interest Updated' : 'Interest Recorded',
+        'The sponsor will be in touch about next steps.'
+      );
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.overlay, { backgroundColor: appColors.overlay }]} onPress={onClose}>
+        <Pressable
+          style={[styles.interestSheet, { backgroundColor: appColors.surface }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <ThemedText style={[styles.interestTitle, { color: appColors.textPrimary }]}>
+            Express Interest
+          </ThemedText>
+
+          <ThemedText style={[styles.interestLabel, { color: appColors.textSecondary }]}>
+            Amount (min {formatCurrency(deal.minimum_investment)}
+            {deal.maximum_investment ? `, max ${formatCurrency(deal.maximum_investment)}` : ''})
+          </ThemedText>
+          <TextInput
+            style={[styles.interestInput, { backgroundColor: appColors.input, color: appColors.textPrimary }]}
+            value={amount}
+            onChangeText={setAmount}
+            keyboardType="numeric"
+            placeholder={String(deal.minimum_investment)}
+            placeholderTextColor={appColors.textSecondary}
+          />
+
+          <ThemedText style={[styles.interestLabel, { color: appColors.textSecondary }]}>
+            How should the sponsor reach you?
+          </ThemedText>
+          <View style={styles.contactOptions}>
+            {CONTACT_OPTIONS.map(option => {
+              const selected = contactPreference === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.contactChip,
+                    { borderColor: appColors.border },
+                    selected && { backgroundColor: Colors.primary, borderColor: Colors.primary },
+                  ]}
+                  onPress={() => setContactPreference(option.value)}
+                >
+                  <ThemedText
+                    style={[
+                      styles.contactChipText,
+                      { color: selected ? 'white' : appColors.textSecondary },
+                    ]}
+                  >
+                    {option.label}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <ThemedText style={[styles.interestLabel, { color: appColors.textSecondary }]}>
+            Message (optional)
+          </ThemedText>
+          <TextInput
+            style={[
+              styles.interestInput,
+              styles.interestMessage,
+              { backgroundColor: appColors.input, color: appColors.textPrimary },
+            ]}
+            value={message}
+            onChangeText={setMessage}
+            placeholder="Anything the sponsor should know"
+            placeholderTextColor={appColors.textSecondary}
+            maxLength={2000}
+            multiline
+          />
+
+          <View style={styles.interestActions}>
+            <TouchableOpacity style={styles.interestAction} onPress={onClose}>
+              <ThemedText style={{ color: appColors.textSecondary }}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.interestAction}
+              onPress={() => interestMutation.mutate()}
+              disabled={interestMutation.isPending}
+            >
+              {interestMutation.isPending ? (
+                <ActivityIndicator size="small" color={Colors.primary} />
+              ) : (
+                <ThemedText style={[styles.interestSubmit, { color: Colors.primary }]}>
+                  {interest ? 'Update' : 'Send'}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+function formatDocumentSize(bytes: number | null): string {
+  if (bytes === null) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function NdaModal({
+  dealId,
+  visible,
+  onClose,
+}: {
+  dealId: number;
+  visible: boolean;
+  onClose: () => void;
+}) {
+  const appColors = useAppColors();
+  const queryClient = useQueryClient();
+
+  const { data: nda, isLoading } = useQuery({
+    queryKey: ['dealNda', dealId],
+    queryFn: async () => {
+      const response = await dealsApi.getNda(dealId);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to load agreement');
+      }
+      return response.data;
+    },
+    enabled: visible,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await dealsApi.acceptNda(dealId, version);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to accept agreement');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deal', dealId] });
+      queryClient.invalidateQueries({ queryKey: ['dealNda', dealId] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      // The agreement may have changed while it was open
+      queryClient.invalidateQueries({ queryKey: ['dealNda', dealId] });
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.overlay, { backgroundColor: appColors.overlay }]} onPress={onClose}>
+        <Pressable
+          style={[styles.interestSheet, styles.ndaSheet, { backgroundColor: appColors.surface }]}
+          onPress={(e) => e.stopPropagation()}
+        >
+          <ThemedText style={[styles.interestTitle, { color: appColors.textPrimary }]}>
+            Confidentiality Agreement
+          </ThemedText>
+          {isLoading || !nda ? (
+            <ActivityIndicator size="small" color={Colors.primary} style={styles.ndaLoading} />
+          ) : (
+            <ScrollView style={styles.ndaText}>
+              <ThemedText style={[styles.descriptionText, { color: appColors.textSecondary }]}>
+                {nda.text}
+              </ThemedText>
+            </ScrollView>
+          )}
+          <View style={styles.interestActions}>
+            <TouchableOpacity style={styles.interestAction} onPress={onClose}>
+              <ThemedText style={{ color: appColors.textSecondary }}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.interestAction}
+              onPress={() => nda && acceptMutation.mutate(nda.version)}
+              disabled={!nda || acceptMutation.isPending}
+            >
+              {acceptMutation.isPending ? (
+                <ActivityIndicator size="small" color={Colors.primary} />
+              ) : (
+                <ThemedText style={[styles.interestSubmit, { color: Colors.primary }]}>
+                  I Agree
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
 type DealDetailRouteParams = {
   DealDetail: {
     dealId: number;
@@ -38,6 +292,10 @@ export default function DealDetailScreen() {
   const route = useRoute<RouteProp<DealDetailRouteParams, 'DealDetail'>>();
   const { dealId } = route.params;
   const appColors = useAppColors();
+  const queryClient = useQueryClient();
+  const [showInterest, setShowInterest] = useState(false);
+  const [showNda, setShowNda] = useState(false);
+  const [openingDocumentId, setOpeningDocumentId] = useState<string | null>(null);
 
   const {
     data: deal,
@@ -52,32 +310,62 @@ export default function DealDetailScreen() {
     },
   });
 
-  const handleInvest = useCallback(() => {
-    if (deal?.investment_url) {
-      Linking.openURL(deal.investment_url);
+  const { data: interest } = useQuery({
+    queryKey: ['dealInterest', dealId],
+    queryFn: async () => {
+      const response = await dealsApi.getMyInterest(dealId);
+      return response.data ?? null;
+    },
+    enabled: !!deal && !deal.can_manage,
+  });
+  const canEditInterest = !interest || EDITABLE_INTEREST_STATUSES.includes(interest.status);
+
+  const watchMutation = useMutation({
+    mutationFn: async (watch: boolean) => {
+      const response = watch ? await dealsApi.watchDeal(dealId) : await dealsApi.unwatchDeal(dealId);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update watchlist');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['deal', dealId] });
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  const handleDocumentPress = useCallback(async (documentId: string) => {
+    if (!deal?.nda_accepted) {
+      setShowNda(true);
+      return;
+    }
+    setOpeningDocumentId(documentId);
+    try {
+      const response = await dealsApi.getDocumentUrl(deal.id, documentId);
+      if (response.success && response.data) {
+        await Linking.openURL(response.data.url);
+      } else {
+        Alert.alert('Error', response.error?.message || 'Failed to open document');
+      }
+    } finally {
+      setOpeningDocumentId(null);
     }
   }, [deal]);
 
-  const handleDocumentPress = useCallback((url: string) => {
-    Linking.openURL(url);
-  }, []);
-
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: string, closingSoon: boolean) => {
     switch (status) {
-      case 'open': return Colors.secondary;
-      case 'closing_soon': return appColors.warning;
-      case 'funded': return Colors.primary;
+      case 'published': return closingSoon ? appColors.warning : Colors.secondary;
       case 'closed': return appColors.textSecondary;
       default: return Colors.primary;
     }
   };
 
-  const getStatusText = (status: string) => {
+  const getStatusText = (status: string, closingSoon: boolean) => {
     switch (status) {
-      case 'open': return 'Open for Investment';
-      case 'closing_soon': return 'Closing Soon';
-      case 'funded': return 'Fully Funded';
+      case 'published': return closingSoon ? 'Closing Soon' : 'Open for Investment';
       case 'closed': return 'Closed';
+      case 'draft': return 'Draft';
       default: return status;
     }
   };
@@ -98,10 +386,11 @@ export default function DealDetailScreen() {
     );
   }
 
-  const fundingProgress = (deal.raised_amount / deal.funding_goal) * 100;
-  const daysLeft = deal.closing_date 
-    ? Math.max(0, Math.ceil((new Date(deal.closing_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24)))
+  const fundingProgress = (deal.current_raise / deal.target_raise) * 100;
+  const daysLeft = deal.deadline
+    ? Math.max(0, Math.ceil((new Date(deal.deadline).getTime() - Date.now()) / (1000 * 60 * 60 * 24)))
     : null;
+  const closingSoon = daysLeft !== null && daysLeft < 7;
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: appColors.background }]} edges={['top']}>
@@ -111,8 +400,16 @@ export default function DealDetailScreen() {
           <Ionicons name="chevron-back" size={24} color={appColors.textPrimary} />
         </TouchableOpacity>
         <ThemedText style={[styles.headerTitle, { color: appColors.textPrimary }]}>Deal Details</ThemedText>
-        <TouchableOpacity style={styles.shareButton}>
-          <Ionicons name="share-outline" size={24} color={appColors.textPrimary} />
+        <TouchableOpacity
+          style={styles.watchButton}
+          onPress={() => watchMutation.mutate(!deal.is_watching)}
+          disabled={watchMutation.isPending}
+        >
+          <Ionicons
+            name={deal.is_watching ? 'eye' : 'eye-outline'}
+            size={24}
+            color={deal.is_watching ? Colors.primary : appColors.textPrimary}
+          />
         </TouchableOpacity>
       </View>
 
@@ -129,8 +426,8 @@ export default function DealDetailScreen() {
       >
         {/* Company Header */}
         <View style={[styles.companyHeader, { backgroundColor: appColors.surface }]}>
-          {deal.company_logo ? (
-            <Image source={{ uri: deal.company_logo }} style={styles.companyLogo} />
+          {deal.logo_url ? (
+            <Image source={{ uri: deal.logo_url }} style={styles.companyLogo} />
           ) : (
             <View style={[styles.companyLogo, styles.logoPlaceholder]}>
               <MaterialCommunityIcons name="domain" size={32} color={Colors.primary} />
@@ -139,12 +436,12 @@ export default function DealDetailScreen() {
           <View style={styles.companyInfo}>
             <ThemedText style={[styles.companyName, { color: appColors.textPrimary }]}>{deal.company_name}</ThemedText>
             <View style={styles.categoryBadge}>
-              <ThemedText style={styles.categoryText}>{deal.category}</ThemedText>
+              <ThemedText style={styles.categoryText}>{deal.sector}</ThemedText>
             </View>
           </View>
-          <View style={[styles.statusBadge, { backgroundColor: getStatusColor(deal.status) + '20' }]}>
-            <ThemedText style={[styles.statusText, { color: getStatusColor(deal.status) }]}>
-              {getStatusText(deal.status)}
+          <View style={[styles.statusBadge, { backgroundColor: getStatusColor(deal.status, closingSoon) + '20' }]}>
+            <ThemedText style={[styles.statusText, { color: getStatusColor(deal.status, closingSoon) }]}>
+              {getStatusText(deal.status, closingSoon)}
             </ThemedText>
           </View>
         </View>
@@ -155,14 +452,14 @@ export default function DealDetailScreen() {
             <View style={styles.metricItem}>
               <ThemedText style={[styles.metricLabel, { color: appColors.textSecondary }]}>Funding Goal</ThemedText>
               <ThemedText style={[styles.metricValue, { color: appColors.textPrimary }]}>
-                {formatCurrency(deal.funding_goal)}
+                {formatCurrency(deal.target_raise)}
               </ThemedText>
             </View>
             <View style={[styles.metricDivider, { backgroundColor: appColors.border }]} />
             <View style={styles.metricItem}>
               <ThemedText style={[styles.metricLabel, { color: appColors.textSecondary }]}>Raised</ThemedText>
               <ThemedText style={[styles.metricValue, { color: Colors.secondary }]}>
-                {formatCurrency(deal.raised_amount)}
+                {formatCurrency(deal.current_raise)}
               </ThemedText>
             </View>
           </View>
@@ -179,7 +476,7 @@ export default function DealDetailScreen() {
             <View style={styles.metricItem}>
               <ThemedText style={[styles.metricLabel, { color: appColors.textSecondary }]}>Min Investment</ThemedText>
               <ThemedText style={[styles.metricValue, { color: appColors.textPrimary }]}>
-                {formatCurrency(deal.min_investment)}
+                {formatCurrency(deal.minimum_investment)}
               </ThemedText>
             </View>
             <View style={[styles.metricDivider, { backgroundColor: appColors.border }]} />
@@ -228,15 +525,11 @@ export default function DealDetailScreen() {
             <ThemedText style={[styles.sectionTitle, { color: appColors.textPrimary }]}>Leadership Team</ThemedText>
             {deal.team.map((member, index) => (
               <View key={index} style={[styles.teamMember, { borderBottomColor: appColors.border }]}>
-                {member.avatar_url ? (
-                  <Image source={{ uri: member.avatar_url }} style={styles.teamAvatar} />
-                ) : (
-                  <View style={[styles.teamAvatar, styles.teamAvatarPlaceholder]}>
-                    <ThemedText style={styles.teamAvatarText}>
-                      {member.name.split(' ').map(n => n[0]).join('')}
-                    </ThemedText>
-                  </View>
-                )}
+                <View style={[styles.teamAvatar, styles.teamAvatarPlaceholder]}>
+                  <ThemedText style={styles.teamAvatarText}>
+                    {member.name.split(' ').map(n => n[0]).join('')}
+                  </ThemedText>
+                </View>
                 <View style={styles.teamInfo}>
                   <ThemedText style={[styles.teamName, { color: appColors.textPrimary }]}>{member.name}</ThemedText>
                   <ThemedText style={[styles.teamRole, { color: appColors.textSecondary }]}>{member.role}</ThemedText>
@@ -246,24 +539,61 @@ export default function DealDetailScreen() {
           </View>
         )}
 
-        {/* Documents */}
-        {deal.documents && deal.documents.length > 0 && (
+        {/* Data Room */}
+        {deal.documents && (deal.documents.length > 0 || deal.can_manage) && (
           <View style={[styles.section, { backgroundColor: appColors.surface }]}>
-            <ThemedText style={[styles.sectionTitle, { color: appColors.textPrimary }]}>Documents</ThemedText>
-            {deal.documents.map((doc, index) => (
+            <View style={styles.sectionHeader}>
+              <ThemedText style={[styles.sectionTitle, { color: appColors.textPrimary }]}>Data Room</ThemedText>
+              {deal.can_manage ? (
+                <TouchableOpacity
+                  onPress={() => navigation.navigate('DealDataRoom', { dealId: deal.id, dealTitle: deal.title })}
+                >
+                  <ThemedText style={[styles.sectionLink, { color: Colors.primary }]}>Activity</ThemedText>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+            {!deal.nda_accepted ? (
+              <TouchableOpacity
+                style={[styles.ndaBanner, { borderColor: appColors.border }]}
+                onPress={() => setShowNda(true)}
+              >
+                <Ionicons name="lock-closed-outline" size={20} color={Colors.primary} />
+                <ThemedText style={[styles.ndaBannerText, { color: appColors.textSecondary }]}>
+                  Accept the confidentiality agreement to open these documents
+                </ThemedText>
+                <Ionicons name="chevron-forward" size={18} color={appColors.textSecondary} />
+              </TouchableOpacity>
+            ) : null}
+            {deal.documents.length === 0 ? (
+              <ThemedText style={[styles.documentType, { color: appColors.textSecondary }]}>
+                No documents yet
+              </ThemedText>
+            ) : null}
+            {deal.documents.map((doc) => (
               <TouchableOpacity
-                key={index}
+                key={doc.id}
                 style={[styles.documentItem, { borderBottomColor: appColors.border }]}
-                onPress={() => handleDocumentPress(doc.url)}
+                onPress={() => handleDocumentPress(doc.id)}
+                disabled={openingDocumentId !== null}
               >
                 <View style={styles.documentIcon}>
                   <Ionicons name="document-text-outline" size={24} color={Colors.primary} />
                 </View>
                 <View style={styles.documentInfo}>
                   <ThemedText style={[styles.documentName, { color: appColors.textPrimary }]}>{doc.name}</ThemedText>
-                  <ThemedText style={[styles.documentType, { color: appColors.textSecondary }]}>{doc.type}</ThemedText>
+                  <ThemedText style={[styles.documentType, { color: appColors.textSecondary }]}>
+                    {[doc.type.toUpperCase(), formatDocumentSize(doc.size_bytes)].filter(Boolean).join(' · ')}
+                  </ThemedText>
                 </View>
-                <Ionicons name="download-outline" size={20} color={appColors.textSecondary} />
+                {openingDocumentId === doc.id ? (
+                  <ActivityIndicator size="small" color={Colors.primary} />
+                ) : (
+                  <Ionicons
+                    name={deal.nda_accepted ? 'download-outline' : 'lock-closed-outline'}
+                    size={20}
+                    color={appColors.textSecondary}
+                  />
+                )}
               </TouchableOpacity>
             ))}
           </View>
@@ -283,26 +613,63 @@ export default function DealDetailScreen() {
         </View>
       </ScrollView>
 
-      {/* Invest Button */}
-      {deal.status === 'open' || deal.status === 'closing_soon' ? (
+      {/* Pipeline Button */}
+      {deal.can_manage && deal.status !== 'draft' ? (
         <View style={[styles.footer, { backgroundColor: appColors.surface, borderTopColor: appColors.border }]}>
-          <View style={styles.footerInfo}>
-            <ThemedText style={[styles.footerLabel, { color: appColors.textSecondary }]}>Min Investment</ThemedText>
-            <ThemedText style={[styles.footerValue, { color: appColors.textPrimary }]}>{formatCurrency(deal.min_investment)}</ThemedText>
-          </View>
-          <TouchableOpacity style={styles.investButton} onPress={handleInvest}>
+          <TouchableOpacity
+            style={styles.investButton}
+            onPress={() => navigation.navigate('DealPipeline', { dealId: deal.id, dealTitle: deal.title })}
+          >
             <LinearGradient
               colors={[Colors.primary, Colors.secondary]}
               start={{ x: 0, y: 0 }}
               end={{ x: 1, y: 0 }}
               style={styles.investGradient}
             >
-              <ThemedText style={styles.investButtonText}>Invest Now</ThemedText>
-              <Ionicons name="arrow-forward" size={20} color="white" />
+              <Ionicons name="people-outline" size={20} color="white" />
+              <ThemedText style={styles.investButtonText}>View Interest Pipeline</ThemedText>
             </LinearGradient>
           </TouchableOpacity>
         </View>
       ) : null}
+
+      {/* Invest Button */}
+      {!deal.can_manage && deal.status === 'published' ? (
+        <View style={[styles.footer, { backgroundColor: appColors.surface, borderTopColor: appColors.border }]}>
+          <View style={styles.footerInfo}>
+            <ThemedText style={[styles.footerLabel, { color: appColors.textSecondary }]}>
+              {interest ? INTEREST_STATUS_TEXT[interest.status] : 'Min Investment'}
+            </ThemedText>
+            <ThemedText style={[styles.footerValue, { color: appColors.textPrimary }]}>
+              {formatCurrency(interest?.amount ?? deal.minimum_investment)}
+            </ThemedText>
+          </View>
+          {canEditInterest ? (
+            <TouchableOpacity style={styles.investButton} onPress={() => setShowInterest(true)}>
+              <LinearGradient
+                colors={[Colors.primary, Colors.secondary]}
+                start={{ x: 0, y: 0 }}
+                end={{ x: 1, y: 0 }}
+                style={styles.investGradient}
+              >
+                <ThemedText style={styles.investButtonText}>
+                  {interest ? 'Update Interest' : 'Invest Now'}
+                </ThemedText>
+                <Ionicons name="arrow-forward" size={20} color="white" />
+              </LinearGradient>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ) : null}
+
+      <NdaModal dealId={deal.id} visible={showNda} onClose={() => setShowNda(false)} />
+
+      <InterestModal
+        deal={deal}
+        interest={interest}
+        visible={showInterest}
+        onClose={() => setShowInterest(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -330,7 +697,7 @@ const styles = StyleSheet.create({
   headerTitle: {
     ...Typography.heading,
   },
-  shareButton: {
+  watchButton: {
     padding: Spacing.sm,
   },
   content: {
@@ -502,6 +869,29 @@ const styles = StyleSheet.create({
   documentType: {
     ...Typography.small,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionLink: {
+    ...Typography.caption,
+    fontWeight: '600',
+    marginBottom: Spacing.md,
+  },
+  ndaBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+  },
+  ndaBannerText: {
+    ...Typography.caption,
+    flex: 1,
+  },
   riskSection: {
     margin: Spacing.md,
     padding: Spacing.lg,
@@ -559,4 +949,67 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '700',
   },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  interestSheet: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.lg,
+  },
+  interestTitle: {
+    ...Typography.heading,
+    marginBottom: Spacing.sm,
+  },
+  interestLabel: {
+    ...Typography.caption,
+    marginTop: Spacing.md,
+    marginBottom: Spacing.xs,
+  },
+  interestInput: {
+    ...Typography.body,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  interestMessage: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  contactOptions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  contactChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  contactChipText: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  interestActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: Spacing.lg,
+    gap: Spacing.lg,
+  },
+  interestAction: {
+    paddingVertical: Spacing.xs,
+  },
+  interestSubmit: {
+    fontWeight: '600',
+  },
+  ndaSheet: {
+    maxHeight: '80%',
+  },
+  ndaText: {
+    marginTop: Spacing.sm,
+  },
+  ndaLoading: {
+    marginVertical: Spacing.xl,
+  },
 });
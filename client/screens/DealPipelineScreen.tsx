@@ -0,0 +1,433 @@
+/**
+ * Deal Pipeline Screen
+ * A sponsor's view of the investors interested in one of their deals: how
+ * far each has got, how to reach them, and a CSV export of the lot
+ */
+
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+
+import { Avatar } from '@/components/Avatar';
+import { ThemedText } from '@/components/ThemedText';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { dealsApi, DealInterest, DealInterestStatus, DEAL_INTEREST_STATUSES } from '@/lib/api';
+import { haptics } from '@/lib/haptics';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { RootStackParamList } from '@/types';
+
+const STATUS_LABELS: Record<DealInterestStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  committed: 'Committed',
+  declined: 'Declined',
+};
+
+const CONTACT_ICONS = {
+  email: 'mail-outline',
+  phone: 'call-outline',
+  message: 'chatbubble-outline',
+} as const;
+
+export default function DealPipelineScreen() {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<RootStackParamList, 'DealPipeline'>>();
+  const { dealId, dealTitle } = route.params;
+  const { colors } = useThemeContext();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<DealInterestStatus | undefined>();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const statusColors: Record<DealInterestStatus, string> = {
+    new: colors.primary,
+    contacted: colors.warning,
+    committed: colors.success,
+    declined: colors.textTertiary,
+  };
+
+  const { data, isLoading, isRefetching, refetch } = useQuery({
+    queryKey: ['dealPipeline', dealId, status],
+    queryFn: async () => {
+      const response = await dealsApi.getPipeline(dealId, status);
+      return response.data;
+    },
+  });
+
+  const interests = data?.interests || [];
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ interestId, next }: { interestId: string; next: DealInterestStatus }) => {
+      const response = await dealsApi.updateInterestStatus(dealId, interestId, next);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update interest');
+      }
+    },
+    onSuccess: () => {
+      haptics.success();
+      queryClient.invalidateQueries({ queryKey: ['dealPipeline', dealId] });
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  const handleChangeStatus = useCallback((interest: DealInterest) => {
+    Alert.alert(
+      'Move to',
+      interest.investor?.full_name,
+      [
+        ...DEAL_INTEREST_STATUSES.filter(next => next !== interest.status).map(next => ({
+          text: STATUS_LABELS[next],
+          onPress: () => statusMutation.mutate({ interestId: interest.id, next }),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  }, [statusMutation]);
+
+  const handleContact = useCallback((interest: DealInterest) => {
+    if (interest.contact_preference === 'message' && interest.investor) {
+      navigation.navigate('Conversation', { userId: interest.investor.id });
+    } else if (interest.contact_preference === 'phone' && interest.contact?.phone) {
+      Linking.openURL(`tel:${interest.contact.phone}`);
+    } else if (interest.contact) {
+      Linking.openURL(`mailto:${interest.contact.email}`);
+    }
+  }, [navigation]);
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Export Unavailable', 'Sharing is not available on this device.');
+        return;
+      }
+      const { url, headers } = await dealsApi.getPipelineExportRequest(dealId);
+      const download = await FileSystem.downloadAsync(
+        url,
+        `${FileSystem.documentDirectory}deal-${dealId}-interest.csv`,
+        { headers }
+      );
+      if (download.status !== 200) {
+        throw new Error(`Export failed with status ${download.status}`);
+      }
+      await Sharing.shareAsync(download.uri, {
+        mimeType: 'text/csv',
+        dialogTitle: 'Export interest',
+      });
+    } catch (error) {
+      console.error('[DealPipeline] Export error:', error);
+      Alert.alert('Export Failed', 'Unable to export the pipeline.');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [dealId]);
+
+  const renderSummary = () => (
+    <View>
+      <View style={styles.summaryRow}>
+        {DEAL_INTEREST_STATUSES.map(value => (
+          <View key={value} style={[styles.summaryTile, { backgroundColor: colors.surface }]}>
+            <ThemedText style={[styles.summaryValue, { color: statusColors[value] }]}>
+              {data?.counts[value] ?? 0}
+            </ThemedText>
+            <ThemedText style={[styles.summaryLabel, { color: colors.textSecondary }]}>
+              {STATUS_LABELS[value]}
+            </ThemedText>
+          </View>
+        ))}
+      </View>
+      <ThemedText style={[styles.committed, { color: colors.textSecondary }]}>
+        {formatCurrency(data?.committed_amount ?? 0)} committed
+      </ThemedText>
+      <View style={styles.filters}>
+        {[undefined, ...DEAL_INTEREST_STATUSES].map(value => {
+          const selected = status === value;
+          return (
+            <TouchableOpacity
+              key={value ?? 'all'}
+              style={[
+                styles.filterChip,
+                { borderColor: colors.border },
+                selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+              ]}
+              onPress={() => setStatus(value)}
+            >
+              <ThemedText
+                style={[
+                  styles.filterText,
+                  { color: selected ? '#FFFFFF' : colors.textSecondary },
+                ]}
+              >
+                {value ? STATUS_LABELS[value] : 'All'}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const renderInterest = ({ item }: { item: DealInterest }) => (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <View style={styles.cardHeader}>
+        <Avatar source={item.investor?.avatar_url} name={item.investor?.full_name} size="sm" />
+        <View style={styles.cardTitle}>
+          <ThemedText style={[styles.investorName, { color: colors.textPrimary }]} numberOfLines={1}>
+            {item.investor?.full_name}
+          </ThemedText>
+          <ThemedText style={[styles.meta, { color: colors.textTertiary }]}>
+            {formatDate(item.created_at)}
+          </ThemedText>
+        </View>
+        <TouchableOpacity
+          style={[styles.statusPill, { backgroundColor: statusColors[item.status] + '20' }]}
+          onPress={() => handleChangeStatus(item)}
+          disabled={statusMutation.isPending}
+        >
+          <ThemedText style={[styles.statusText, { color: statusColors[item.status] }]}>
+            {STATUS_LABELS[item.status]}
+          </ThemedText>
+          <Ionicons name="chevron-down" size={14} color={statusColors[item.status]} />
+        </TouchableOpacity>
+      </View>
+
+      <ThemedText style={[styles.amount, { color: colors.textPrimary }]}>
+        {item.amount !== null ? formatCurrency(item.amount) : 'No amount given'}
+      </ThemedText>
+      {item.message ? (
+        <ThemedText style={[styles.message, { color: colors.textSecondary }]}>
+          {item.message}
+        </ThemedText>
+      ) : null}
+
+      <TouchableOpacity style={styles.contactRow} onPress={() => handleContact(item)}>
+        <Ionicons
+          name={CONTACT_ICONS[item.contact_preference]}
+          size={16}
+          color={colors.primary}
+        />
+        <ThemedText style={[styles.contactText, { color: colors.primary }]} numberOfLines={1}>
+          {item.contact_preference === 'message'
+            ? 'Prefers a direct message'
+            : item.contact_preference === 'phone'
+              ? item.contact?.phone
+              : item.contact?.email}
+        </ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="people-outline" size={48} color={colors.textTertiary} />
+      <ThemedText style={[styles.emptyTitle, { color: colors.textPrimary }]}>
+        {status ? `No ${STATUS_LABELS[status].toLowerCase()} investors` : 'No interest yet'}
+      </ThemedText>
+      <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+        Investors who express interest in this deal will appear here.
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <ThemedText style={[styles.headerTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+          {dealTitle || 'Interest Pipeline'}
+        </ThemedText>
+        <TouchableOpacity
+          style={styles.headerRight}
+          onPress={handleExport}
+          disabled={isExporting || interests.length === 0}
+        >
+          {isExporting ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Ionicons name="download-outline" size={22} color={colors.textPrimary} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={interests}
+          keyExtractor={(item) => item.id}
+          renderItem={renderInterest}
+          ListHeaderComponent={renderSummary}
+          ListEmptyComponent={renderEmptyState}
+          contentContainerStyle={styles.list}
+          onRefresh={refetch}
+          refreshing={isRefetching}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'flex-start',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...Typography.heading,
+    fontSize: 17,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerRight: {
+    width: 40,
+    height: 40,
+    alignItems: 'flex-end',
+    justifyContent: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  list: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  summaryTile: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  summaryValue: {
+    ...Typography.heading,
+    fontWeight: '700',
+  },
+  summaryLabel: {
+    ...Typography.small,
+    marginTop: 2,
+  },
+  committed: {
+    ...Typography.caption,
+    textAlign: 'center',
+    marginTop: Spacing.md,
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  filterChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  filterText: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  card: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  cardTitle: {
+    flex: 1,
+  },
+  investorName: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  meta: {
+    ...Typography.small,
+    marginTop: 2,
+  },
+  statusPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  statusText: {
+    ...Typography.small,
+    fontWeight: '600',
+  },
+  amount: {
+    ...Typography.heading,
+    marginTop: Spacing.md,
+  },
+  message: {
+    ...Typography.body,
+    marginTop: Spacing.xs,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+  },
+  contactText: {
+    ...Typography.caption,
+    flex: 1,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  emptyTitle: {
+    ...Typography.heading,
+    marginTop: Spacing.lg,
+  },
+  emptySubtitle: {
+    ...Typography.body,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+    lineHeight: 22,
+  },
+});
@@ -22,23 +22,26 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { ThemedText } from '@/components/ThemedText';
 import { Colors, Spacing, BorderRadius, Typography, Shadows } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
-import { dealsApi, Deal } from '@/lib/api';
+import { dealsApi, Deal, DealSector } from '@/lib/api';
 import { formatCurrency, formatNumber } from '@/lib/utils';
 
 const { width } = Dimensions.get('window');
 
-const CATEGORIES = [
+const CATEGORIES: { id: DealSector | 'all'; name: string; icon: string }[] = [
   { id: 'all', name: 'All', icon: '🌐' },
-  { id: 'biotech', name: 'Biotech', icon: '🧬' },
-  { id: 'medtech', name: 'MedTech', icon: '🏥' },
-  { id: 'pharma', name: 'Pharma', icon: '💊' },
-  { id: 'digital-health', name: 'Digital Health', icon: '📱' },
-  { id: 'diagnostics', name: 'Diagnostics', icon: '🔬' },
+  { id: 'Biotech', name: 'Biotech', icon: '🧬' },
+  { id: 'Medical Devices', name: 'MedTech', icon: '🏥' },
+  { id: 'Pharmaceuticals', name: 'Pharma', icon: '💊' },
+  { id: 'Digital Health', name: 'Digital Health', icon: '📱' },
+  { id: 'Diagnostics', name: 'Diagnostics', icon: '🔬' },
+  { id: 'Health IT', name: 'Health IT', icon: '💻' },
+  { id: 'Healthcare Services', name: 'Services', icon: '🩺' },
+  { id: 'Telehealth', name: 'Telehealth', icon: '📞' },
 ];
 
 export default function DealsScreen() {
   const navigation = useNavigation<any>();
-  const [selectedCategory, setSelectedCategory] = useState('all');
+  const [selectedCategory, setSelectedCategory] = useState<DealSector | 'all'>('all');
   const appColors = useAppColors();
 
   const {
@@ -49,14 +52,14 @@ export default function DealsScreen() {
   } = useQuery({
     queryKey: ['/api/deals', selectedCategory],
     queryFn: async () => {
-      const response = await dealsApi.getDeals(
-        selectedCategory === 'all' ? undefined : selectedCategory
-      );
+      const response = await dealsApi.getDeals({
+        sector: selectedCategory === 'all' ? undefined : selectedCategory,
+      });
       return response.data;
     },
   });
 
-  const deals = dealsData?.deals || [];
+  const deals = dealsData?.data || [];
 
   const handleDealPress = useCallback((dealId: number) => {
     navigation.navigate('DealDetail', { dealId });
@@ -93,10 +96,10 @@ export default function DealsScreen() {
   );
 
   const renderDealCard = ({ item }: { item: Deal }) => {
-    const fundingProgress = (item.raised / item.target_raise) * 100;
-    const daysLeft = Math.ceil(
-      (new Date(item.deadline).getTime() - Date.now()) / (1000 * 60 * 60 * 24)
-    );
+    const fundingProgress = (item.current_raise / item.target_raise) * 100;
+    const daysLeft = item.deadline
+      ? Math.ceil((new Date(item.deadline).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+      : null;
 
     return (
       <TouchableOpacity
@@ -105,8 +108,8 @@ export default function DealsScreen() {
       >
         {/* Header */}
         <View style={styles.dealHeader}>
-          {item.company_logo ? (
-            <Image source={{ uri: item.company_logo }} style={styles.companyLogo} />
+          {item.logo_url ? (
+            <Image source={{ uri: item.logo_url }} style={styles.companyLogo} />
           ) : (
             <View style={[styles.companyLogo, styles.companyLogoPlaceholder]}>
               <ThemedText style={styles.companyLogoText}>
@@ -122,10 +125,10 @@ export default function DealsScreen() {
           </View>
           <View style={[
             styles.statusBadge,
-            item.status === 'active' ? styles.statusActive : styles.statusClosed,
+            item.status === 'published' ? styles.statusActive : styles.statusClosed,
           ]}>
             <ThemedText style={styles.statusText}>
-              {item.status === 'active' ? 'Active' : 'Closed'}
+              {item.status === 'published' ? 'Active' : 'Closed'}
             </ThemedText>
           </View>
         </View>
@@ -161,7 +164,7 @@ export default function DealsScreen() {
           </View>
           <View style={styles.progressStats}>
             <ThemedText style={[styles.progressAmount, { color: appColors.textPrimary }]}>
-              {formatCurrency(item.raised)} raised
+              {formatCurrency(item.current_raise)} raised
             </ThemedText>
             <ThemedText style={styles.progressPercent}>
               {fundingProgress.toFixed(0)}%
@@ -189,12 +192,14 @@ export default function DealsScreen() {
               {formatNumber(item.investors_count)}
             </ThemedText>
           </View>
-          <View style={styles.footerItem}>
-            <Ionicons name="time-outline" size={16} color={daysLeft <= 7 ? appColors.error : appColors.textSecondary} />
-            <ThemedText style={[styles.footerText, { color: appColors.textSecondary }, daysLeft <= 7 && { color: appColors.error, fontWeight: '600' }]}>
-              {daysLeft > 0 ? `${daysLeft}d left` : 'Ended'}
-            </ThemedText>
-          </View>
+          {daysLeft !== null && (
+            <View style={styles.footerItem}>
+              <Ionicons name="time-outline" size={16} color={daysLeft <= 7 ? appColors.error : appColors.textSecondary} />
+              <ThemedText style={[styles.footerText, { color: appColors.textSecondary }, daysLeft <= 7 && { color: appColors.error, fontWeight: '600' }]}>
+                {daysLeft > 0 ? `${daysLeft}d left` : 'Ended'}
+              </ThemedText>
+            </View>
+          )}
         </View>
       </TouchableOpacity>
     );
@@ -214,13 +219,13 @@ export default function DealsScreen() {
     <View style={[styles.headerSection, { backgroundColor: appColors.surface }]}>
       <View style={styles.statsRow}>
         <View style={styles.statCard}>
-          <ThemedText style={styles.statValue}>{deals?.length || 0}</ThemedText>
+          <ThemedText style={styles.statValue}>{dealsData?.pagination.total || 0}</ThemedText>
           <ThemedText style={[styles.statLabel, { color: appColors.textSecondary }]}>Active Deals</ThemedText>
         </View>
         <View style={styles.statCard}>
           <ThemedText style={styles.statValue}>
             {formatCurrency(
-              deals?.reduce((sum, d) => sum + (d.raised || 0), 0) || 0
+              deals?.reduce((sum, d) => sum + (d.current_raise || 0), 0) || 0
             )}
           </ThemedText>
           <ThemedText style={[styles.statLabel, { color: appColors.textSecondary }]}>Total Raised</ThemedText>
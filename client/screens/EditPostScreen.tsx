@@ -23,6 +23,7 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { ThemedText } from '@/components/ThemedText';
 import { Colors, Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { useThemeContext } from '@/contexts/ThemeContext';
+import { postsApi } from '@/lib/api';
 
 type EditPostRouteParams = {
   EditPost: {
@@ -48,8 +49,11 @@ export default function EditPostScreen() {
     const loadPost = async () => {
       setIsLoading(true);
       try {
-        setContent('This is sample post content for editing.');
-        setOriginalContent('This is sample post content for editing.');
+        const response = await postsApi.getPost(postId);
+        if (response.data) {
+          setContent(response.data.content);
+          setOriginalContent(response.data.content);
+        }
       } finally {
         setIsLoading(false);
       }
@@ -61,17 +65,32 @@ export default function EditPostScreen() {
     setHasChanges(content !== originalContent);
   }, [content, originalContent]);
 
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await postsApi.updatePost(postId, content.trim());
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update post');
+      }
+      return response.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['post', postId] });
+      queryClient.invalidateQueries({ queryKey: ['feed'] });
+      navigation.goBack();
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
   const handleSave = useCallback(() => {
     if (!hasChanges) {
       navigation.goBack();
       return;
     }
-    
-    Alert.alert('Success', 'Post updated successfully');
-    queryClient.invalidateQueries({ queryKey: ['post', postId] });
-    queryClient.invalidateQueries({ queryKey: ['feed'] });
-    navigation.goBack();
-  }, [hasChanges, navigation, queryClient, postId]);
+
+    updateMutation.mutate();
+  }, [hasChanges, navigation, updateMutation]);
 
   const handleCancel = useCallback(() => {
     if (hasChanges) {
@@ -117,7 +136,7 @@ export default function EditPostScreen() {
                 : { backgroundColor: colors.backgroundSecondary }
             ]}
             onPress={handleSave}
-            disabled={!hasChanges}
+            disabled={!hasChanges || updateMutation.isPending}
           >
             <ThemedText style={[
               styles.saveText,
@@ -158,7 +177,7 @@ export default function EditPostScreen() {
                 Note
               </ThemedText>
               <ThemedText style={[styles.noticeText, { color: colors.textSecondary }]}>
-                Editing a post won't change the time it was posted. Images and videos cannot be modified.
+                Editing a post won&apos;t change the time it was posted. Images and videos cannot be modified. Earlier versions stay in the post&apos;s edit history.
               </ThemedText>
             </View>
           </View>
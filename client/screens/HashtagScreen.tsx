@@ -1,6 +1,6 @@
 /**
  * Hashtag Screen
- * View posts by hashtag
+ * View posts by hashtag, related tags, and follow the tag
  */
 
 import React, { useCallback } from 'react';
@@ -15,12 +15,13 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import { useInfiniteQuery } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 
 import { ThemedText } from '@/components/ThemedText';
 import { Colors, Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
-import { searchApi } from '@/lib/api';
+import { useRepost } from '@/hooks/useRepost';
+import { hashtagsApi } from '@/lib/api';
 import { Post } from '@/types';
 import PostCard from '@/components/PostCard';
 
@@ -35,6 +36,8 @@ export default function HashtagScreen() {
   const route = useRoute<RouteProp<HashtagRouteParams, 'Hashtag'>>();
   const { tag } = route.params;
   const appColors = useAppColors();
+  const { openRepostMenu } = useRepost();
+  const queryClient = useQueryClient();
 
   const {
     data: feedData,
@@ -47,14 +50,33 @@ export default function HashtagScreen() {
   } = useInfiniteQuery({
     queryKey: ['hashtag', tag],
     queryFn: async ({ pageParam }) => {
-      const response = await searchApi.search(`#${tag}`, 'posts');
+      const response = await hashtagsApi.getHashtag(tag, pageParam);
       return response.data;
     },
-    getNextPageParam: () => undefined,
-    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => (lastPage?.has_more ? lastPage.next_cursor : undefined),
+    initialPageParam: undefined as string | undefined,
   });
 
-  const posts = feedData?.pages.flatMap(page => page?.posts || []) || [];
+  const hashtag = feedData?.pages[0]?.hashtag;
+  const posts = (feedData?.pages.flatMap(page => page?.posts || []) || []) as unknown as Post[];
+
+  const followMutation = useMutation({
+    mutationFn: () => (hashtag?.is_following ? hashtagsApi.unfollow(tag) : hashtagsApi.follow(tag)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hashtag', tag] });
+      queryClient.invalidateQueries({ queryKey: ['followedHashtags'] });
+    },
+  });
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const handleTagPress = useCallback((relatedTag: string) => {
+    navigation.push('Hashtag', { tag: relatedTag });
+  }, [navigation]);
 
   const handlePostPress = useCallback((postId: number) => {
     navigation.navigate('PostDetail', { postId });
@@ -71,23 +93,58 @@ export default function HashtagScreen() {
       onUserPress={() => handleUserPress(item.author.id)}
       onVote={() => {}}
       onBookmark={() => {}}
+      onRepost={() => openRepostMenu(item)}
     />
   );
 
   const renderHeader = () => (
     <View style={[styles.hashtagHeader, { backgroundColor: appColors.surface }]}>
-      <View style={styles.hashtagIcon}>
-        <ThemedText style={styles.hashtagSymbol}>#</ThemedText>
-      </View>
-      <View style={styles.hashtagInfo}>
-        <ThemedText style={[styles.hashtagName, { color: appColors.textPrimary }]}>{tag}</ThemedText>
-        <ThemedText style={[styles.hashtagCount, { color: appColors.textSecondary }]}>
-          {posts.length} posts
-        </ThemedText>
+      <View style={styles.hashtagRow}>
+        <View style={styles.hashtagIcon}>
+          <ThemedText style={styles.hashtagSymbol}>#</ThemedText>
+        </View>
+        <View style={styles.hashtagInfo}>
+          <ThemedText style={[styles.hashtagName, { color: appColors.textPrimary }]}>{tag}</ThemedText>
+          <ThemedText style={[styles.hashtagCount, { color: appColors.textSecondary }]}>
+            {hashtag?.posts_count ?? 0} posts · {hashtag?.followers_count ?? 0} followers
+          </ThemedText>
+        </View>
+        <TouchableOpacity
+          style={[styles.followButton, hashtag?.is_following && styles.followingButton]}
+          onPress={() => followMutation.mutate()}
+          disabled={followMutation.isPending}
+        >
+          {followMutation.isPending ? (
+            <ActivityIndicator size="small" color={hashtag?.is_following ? Colors.primary : 'white'} />
+          ) : (
+            <ThemedText style={[styles.followButtonText, hashtag?.is_following && { color: Colors.primary }]}>
+              {hashtag?.is_following ? 'Following' : 'Follow'}
+            </ThemedText>
+          )}
+        </TouchableOpacity>
       </View>
+
+      {hashtag && hashtag.related.length > 0 && (
+        <View style={styles.relatedRow}>
+          {hashtag.related.map(related => (
+            <TouchableOpacity
+              key={related.tag}
+              style={[styles.relatedTag, { backgroundColor: appColors.background }]}
+              onPress={() => handleTagPress(related.tag)}
+            >
+              <ThemedText style={styles.relatedTagText}>#{related.tag}</ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
     </View>
   );
 
+  const renderFooter = () =>
+    isFetchingNextPage ? (
+      <ActivityIndicator style={styles.footerLoader} color={Colors.primary} />
+    ) : null;
+
   const renderEmpty = () => {
     if (isLoading) {
       return (
@@ -123,6 +180,9 @@ export default function HashtagScreen() {
         keyExtractor={(item) => item.id.toString()}
         ListHeaderComponent={renderHeader}
         ListEmptyComponent={renderEmpty}
+        ListFooterComponent={renderFooter}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
         refreshControl={
           <RefreshControl
             refreshing={isRefetching}
@@ -156,11 +216,13 @@ const styles = StyleSheet.create({
     ...Typography.heading,
   },
   hashtagHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
     padding: Spacing.lg,
     marginBottom: Spacing.md,
   },
+  hashtagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   hashtagIcon: {
     width: 56,
     height: 56,
@@ -184,6 +246,42 @@ const styles = StyleSheet.create({
     ...Typography.caption,
     marginTop: 2,
   },
+  followButton: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.primary,
+    minWidth: 90,
+    alignItems: 'center',
+  },
+  followingButton: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  followButtonText: {
+    ...Typography.body,
+    fontWeight: '600',
+    color: 'white',
+  },
+  relatedRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  relatedTag: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  relatedTagText: {
+    ...Typography.caption,
+    color: Colors.primary,
+  },
+  footerLoader: {
+    paddingVertical: Spacing.lg,
+  },
   loadingContainer: {
     flex: 1,
     alignItems: 'center',
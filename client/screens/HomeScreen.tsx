@@ -22,6 +22,7 @@ import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { Colors, Spacing, BorderRadius, Typography, Shadows } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
+import { useRepost } from '@/hooks/useRepost';
 import { feedApi, postsApi, roomsApi, notificationsApi } from '@/lib/api';
 import { Post, Room, FeedStyle, TrendingTopic } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
@@ -40,6 +41,7 @@ export default function HomeScreen() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const appColors = useAppColors();
+  const { openRepostMenu } = useRepost();
 
   const [feedStyle, setFeedStyle] = useState<FeedStyle>('algorithmic');
   const [selectedRoom, setSelectedRoom] = useState<string | null>(null);
@@ -168,10 +170,11 @@ export default function HomeScreen() {
       onUserPress={() => handleUserPress(Number(item.author.id))}
       onVote={(direction) => direction && handleVote(item.id, direction)}
       onBookmark={() => handleBookmark(item.id, item.is_bookmarked)}
+      onRepost={() => openRepostMenu(item)}
       onHashtagPress={handleHashtagPress}
       onMentionPress={handleUserPress}
     />
-  ), [handlePostPress, handleUserPress, handleVote, handleBookmark, handleHashtagPress]);
+  ), [handlePostPress, handleUserPress, handleVote, handleBookmark, handleHashtagPress, openRepostMenu]);
 
   const renderHeader = () => (
     <View style={[styles.feedHeader, { backgroundColor: appColors.surface }]}>
@@ -30,15 +30,26 @@ const NOTIFICATION_ICONS: Record<NotificationType, { name: string; color: string
   follow: { name: 'person-add', color: '#8B5CF6' },
   mention: { name: 'at', color: '#10B981' },
   reply: { name: 'arrow-undo', color: '#F59E0B' },
+  repost: { name: 'repeat', color: '#22C55E' },
   message: { name: 'mail', color: '#06B6D4' },
   ama_live: { name: 'mic', color: '#EC4899' },
   deal_update: { name: 'trending-up', color: '#22C55E' },
+  deal_interest: { name: 'hand-right', color: '#3B82F6' },
+  deal_interest_status: { name: 'briefcase', color: '#22C55E' },
   achievement: { name: 'trophy', color: '#F97316' },
   friend_request: { name: 'people', color: '#8B5CF6' },
   friend_accepted: { name: 'checkmark-circle', color: '#22C55E' },
   investment_update: { name: 'cash', color: '#00A86B' },
   course_update: { name: 'school', color: '#3B82F6' },
   event_reminder: { name: 'calendar', color: '#F59E0B' },
+  poll_results: { name: 'stats-chart', color: '#6366F1' },
+  hashtag: { name: 'pricetag', color: '#0EA5E9' },
+  scheduled_post: { name: 'time', color: '#6366F1' },
+  room_moderation: { name: 'shield', color: '#F97316' },
+  room_join_request: { name: 'person-add', color: '#3B82F6' },
+  room_join_approved: { name: 'enter', color: '#22C55E' },
+  room_proposal: { name: 'file-tray-full', color: '#6366F1' },
+  room_status: { name: 'albums', color: '#6366F1' },
   system: { name: 'information-circle', color: '#6B7280' },
 };
 
@@ -102,10 +113,20 @@ export default function NotificationsScreen() {
       case 'comment':
       case 'mention':
       case 'reply':
+      case 'repost':
+      case 'poll_results':
+      case 'hashtag':
         if (data?.post_id) {
           navigation.navigate('PostDetail', { postId: data.post_id });
         }
         break;
+      case 'scheduled_post':
+        if (data?.post_id) {
+          navigation.navigate('PostDetail', { postId: data.post_id });
+        } else {
+          navigation.navigate('ScheduledPosts');
+        }
+        break;
       case 'follow':
         if (data?.user_id) {
           navigation.navigate('UserProfile', { userId: data.user_id });
@@ -122,10 +143,16 @@ export default function NotificationsScreen() {
         }
         break;
       case 'deal_update':
+      case 'deal_interest_status':
         if (data?.deal_id) {
           navigation.navigate('DealDetail', { dealId: data.deal_id });
         }
         break;
+      case 'deal_interest':
+        if (data?.deal_id) {
+          navigation.navigate('DealPipeline', { dealId: data.deal_id });
+        }
+        break;
       case 'achievement':
         navigation.navigate('Achievements');
         break;
@@ -152,6 +179,21 @@ export default function NotificationsScreen() {
           navigation.navigate('EventDetail', { eventId: data.event_id });
         }
         break;
+      case 'room_moderation':
+      case 'room_join_approved':
+      case 'room_status':
+        if (data?.room_slug) {
+          navigation.navigate('RoomDetail', { roomSlug: data.room_slug });
+        }
+        break;
+      case 'room_join_request':
+        if (data?.room_slug) {
+          navigation.navigate('RoomModeration', { roomSlug: data.room_slug, tab: 'access' });
+        }
+        break;
+      case 'room_proposal':
+        navigation.navigate('RoomProposals');
+        break;
       case 'system':
         break;
     }
@@ -24,11 +24,13 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { ThemedText } from '@/components/ThemedText';
 import { Colors, Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
-import { postsApi } from '@/lib/api';
+import { useRepost } from '@/hooks/useRepost';
+import { postsApi, commentsApi } from '@/lib/api';
 import { Post, Comment } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { formatRelativeTime } from '@/lib/utils';
 import PostCard from '@/components/PostCard';
+import PostRevisionsModal from '@/components/PostRevisionsModal';
 import RichTextContent from '@/components/RichTextContent';
 
 type PostDetailRouteParams = {
@@ -45,9 +47,12 @@ export default function PostDetailScreen() {
   const queryClient = useQueryClient();
   const inputRef = useRef<TextInput>(null);
   const appColors = useAppColors();
+  const { openRepostMenu } = useRepost();
 
   const [commentText, setCommentText] = useState('');
   const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [commentAnonymously, setCommentAnonymously] = useState(false);
 
   // Fetch post
   const {
@@ -84,7 +89,8 @@ export default function PostDetailScreen() {
       const response = await postsApi.addComment(
         postId,
         commentText.trim(),
-        replyingTo?.id
+        replyingTo?.id,
+        commentAnonymously
       );
       if (!response.success) {
         throw new Error(response.error?.message || 'Failed to add comment');
@@ -122,6 +128,19 @@ export default function PostDetailScreen() {
     },
   });
 
+  // Comment like mutation
+  const likeCommentMutation = useMutation({
+    mutationFn: async (comment: Comment) => {
+      if (comment.is_liked) {
+        return commentsApi.unlike(comment.id);
+      }
+      return commentsApi.like(comment.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['comments', postId] });
+    },
+  });
+
   const handleRefresh = useCallback(() => {
     refetchPost();
     refetchComments();
@@ -171,40 +190,57 @@ export default function PostDetailScreen() {
           <ThemedText style={[styles.commentTime, { color: appColors.textSecondary }]}>
             {formatRelativeTime(item.created_at)}
           </ThemedText>
+          {item.is_edited && (
+            <ThemedText style={[styles.commentTime, { color: appColors.textSecondary }]}>
+              (edited)
+            </ThemedText>
+          )}
         </View>
 
-        <RichTextContent
-          content={item.content}
-          onMentionPress={handleUserPress}
-          onHashtagPress={handleHashtagPress}
-          style={[styles.commentText, { color: appColors.textPrimary }]}
-        />
+        {item.is_deleted ? (
+          <ThemedText style={[styles.commentText, styles.deletedText, { color: appColors.textSecondary }]}>
+            This comment was deleted
+          </ThemedText>
+        ) : (
+          <RichTextContent
+            content={item.content}
+            mentions={item.mentions}
+            onMentionPress={handleUserPress}
+            onHashtagPress={handleHashtagPress}
+            style={[styles.commentText, { color: appColors.textPrimary }]}
+          />
+        )}
 
-        <View style={styles.commentActions}>
-          <TouchableOpacity style={styles.commentAction}>
-            <Ionicons
-              name={item.user_vote === 'up' ? 'arrow-up' : 'arrow-up-outline'}
-              size={16}
-              color={item.user_vote === 'up' ? Colors.secondary : appColors.textSecondary}
-            />
-            <ThemedText style={[styles.commentActionText, { color: appColors.textSecondary }]}>
-              {item.upvotes - item.downvotes}
-            </ThemedText>
-            <Ionicons
-              name={item.user_vote === 'down' ? 'arrow-down' : 'arrow-down-outline'}
-              size={16}
-              color={item.user_vote === 'down' ? appColors.error : appColors.textSecondary}
-            />
-          </TouchableOpacity>
+        {!item.is_deleted && (
+          <View style={styles.commentActions}>
+            <TouchableOpacity
+              style={styles.commentAction}
+              onPress={() => likeCommentMutation.mutate(item)}
+              disabled={likeCommentMutation.isPending}
+            >
+              <Ionicons
+                name={item.is_liked ? 'heart' : 'heart-outline'}
+                size={16}
+                color={item.is_liked ? appColors.error : appColors.textSecondary}
+              />
+              {item.likes_count > 0 && (
+                <ThemedText style={[styles.commentActionText, { color: appColors.textSecondary }]}>
+                  {item.likes_count}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
 
-          <TouchableOpacity
-            style={styles.commentAction}
-            onPress={() => handleReply(item)}
-          >
-            <Ionicons name="chatbubble-outline" size={14} color={appColors.textSecondary} />
-            <ThemedText style={[styles.commentActionText, { color: appColors.textSecondary }]}>Reply</ThemedText>
-          </TouchableOpacity>
-        </View>
+            {item.can_reply && (
+              <TouchableOpacity
+                style={styles.commentAction}
+                onPress={() => handleReply(item)}
+              >
+                <Ionicons name="chatbubble-outline" size={14} color={appColors.textSecondary} />
+                <ThemedText style={[styles.commentActionText, { color: appColors.textSecondary }]}>Reply</ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
 
         {/* Nested replies */}
         {item.replies && item.replies.length > 0 ? (
@@ -224,7 +260,9 @@ export default function PostDetailScreen() {
                 </TouchableOpacity>
                 <View style={styles.replyContent}>
                   <ThemedText style={[styles.replyAuthor, { color: appColors.textPrimary }]}>{reply.author.full_name}</ThemedText>
-                  <ThemedText style={[styles.replyText, { color: appColors.textPrimary }]}>{reply.content}</ThemedText>
+                  <ThemedText style={[styles.replyText, { color: appColors.textPrimary }, reply.is_deleted && styles.deletedText]}>
+                    {reply.is_deleted ? 'This comment was deleted' : reply.content}
+                  </ThemedText>
                 </View>
               </View>
             ))}
@@ -245,10 +283,19 @@ export default function PostDetailScreen() {
           onUserPress={() => handleUserPress(post.author.id)}
           onVote={(direction) => direction && voteMutation.mutate({ direction })}
           onBookmark={() => bookmarkMutation.mutate()}
+          onRepost={() => openRepostMenu(post)}
           onHashtagPress={handleHashtagPress}
           onMentionPress={handleUserPress}
           showFullContent
         />
+        {post.is_edited && (
+          <TouchableOpacity style={styles.editedLink} onPress={() => setShowRevisions(true)}>
+            <Ionicons name="time-outline" size={14} color={appColors.textSecondary} />
+            <ThemedText style={[styles.editedLinkText, { color: appColors.textSecondary }]}>
+              Edited · View history
+            </ThemedText>
+          </TouchableOpacity>
+        )}
         <View style={[styles.commentsHeader, { borderTopColor: appColors.border }]}>
           <ThemedText style={[styles.commentsTitle, { color: appColors.textPrimary }]}>
             Comments ({post.comments_count})
@@ -335,6 +382,17 @@ export default function PostDetailScreen() {
                 maxLength={1000}
               />
             </View>
+            <TouchableOpacity
+              style={styles.sendButton}
+              onPress={() => setCommentAnonymously(!commentAnonymously)}
+              accessibilityLabel={commentAnonymously ? 'Commenting anonymously' : 'Comment anonymously'}
+            >
+              <Ionicons
+                name={commentAnonymously ? 'eye-off' : 'eye-off-outline'}
+                size={20}
+                color={commentAnonymously ? Colors.primary : appColors.textSecondary}
+              />
+            </TouchableOpacity>
             <TouchableOpacity
               style={[styles.sendButton, !commentText.trim() && styles.sendButtonDisabled]}
               onPress={handleSubmitComment}
@@ -353,6 +411,12 @@ export default function PostDetailScreen() {
           </View>
         </View>
       </KeyboardAvoidingView>
+
+      <PostRevisionsModal
+        visible={showRevisions}
+        onClose={() => setShowRevisions(false)}
+        postId={postId}
+      />
     </SafeAreaView>
   );
 }
@@ -391,6 +455,16 @@ const styles = StyleSheet.create({
   },
   postContainer: {
   },
+  editedLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.md,
+  },
+  editedLinkText: {
+    ...Typography.small,
+  },
   commentsHeader: {
     padding: Spacing.lg,
     borderTopWidth: 1,
@@ -443,6 +517,9 @@ const styles = StyleSheet.create({
     ...Typography.body,
     lineHeight: 20,
   },
+  deletedText: {
+    fontStyle: 'italic',
+  },
   commentActions: {
     flexDirection: 'row',
     marginTop: Spacing.sm,
@@ -23,6 +23,7 @@ export default function ProfileScreen() {
 
   const menuItems = [
     { icon: 'bookmark', label: 'Bookmarks', screen: 'Bookmarks' as const },
+    { icon: 'clock', label: 'Scheduled Posts', screen: 'ScheduledPosts' as const },
     { icon: 'award', label: 'Achievements', screen: 'Achievements' as const },
     { icon: 'bar-chart-2', label: 'Leaderboard', screen: 'Leaderboard' as const },
     { icon: 'settings', label: 'Settings', screen: 'Settings' as const },
@@ -0,0 +1,341 @@
+/**
+ * Propose Room Screen
+ * Verified users propose a new specialty room. It stays hidden until an
+ * admin approves it, after which the proposer moderates it.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Feather, Ionicons } from '@expo/vector-icons';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { roomsApi } from '@/lib/api';
+import { haptics } from '@/lib/haptics';
+import { getRoomIconName, ROOM_COLORS, ROOM_ICONS, ROOM_SPECIALTIES } from '@/lib/rooms';
+
+const NAME_MAX = 60;
+const DESCRIPTION_MIN = 20;
+const DESCRIPTION_MAX = 500;
+const RULES_MAX = 10;
+
+export default function ProposeRoomScreen() {
+  const navigation = useNavigation<any>();
+  const { colors } = useThemeContext();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [specialty, setSpecialty] = useState<string | null>(null);
+  const [icon, setIcon] = useState<string>(ROOM_ICONS[0]);
+  const [color, setColor] = useState<string>(ROOM_COLORS[0]);
+  const [rules, setRules] = useState('');
+
+  const canSubmit =
+    name.trim().length >= 3 && description.trim().length >= DESCRIPTION_MIN && !!specialty;
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await roomsApi.proposeRoom({
+        name: name.trim(),
+        description: description.trim(),
+        specialty: specialty!,
+        icon,
+        color,
+        rules: rules
+          .split('\n')
+          .map(rule => rule.trim())
+          .filter(Boolean)
+          .slice(0, RULES_MAX),
+      });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to propose room');
+      }
+    },
+    onSuccess: () => {
+      haptics.success();
+      queryClient.invalidateQueries({ queryKey: ['roomProposals'] });
+      Alert.alert(
+        'Room Proposed',
+        "An admin will review your room. You'll be notified when it's approved.",
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  const renderLabel = (label: string) => (
+    <ThemedText style={[styles.label, { color: colors.textSecondary }]}>{label}</ThemedText>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <ThemedText style={[styles.headerTitle, { color: colors.textPrimary }]}>Propose a Room</ThemedText>
+        <TouchableOpacity
+          style={styles.headerRight}
+          onPress={() => proposeMutation.mutate()}
+          disabled={!canSubmit || proposeMutation.isPending}
+        >
+          {proposeMutation.isPending ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <ThemedText
+              style={[styles.submitText, { color: canSubmit ? colors.primary : colors.textTertiary }]}
+            >
+              Submit
+            </ThemedText>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {/* Preview */}
+          <View style={[styles.preview, { backgroundColor: colors.surface }]}>
+            <View style={[styles.previewIcon, { backgroundColor: color + '20' }]}>
+              <Feather name={getRoomIconName(icon)} size={24} color={color} />
+            </View>
+            <View style={styles.previewContent}>
+              <ThemedText style={[styles.previewName, { color: colors.textPrimary }]} numberOfLines={1}>
+                {name.trim() || 'Room name'}
+              </ThemedText>
+              <ThemedText style={[styles.previewSpecialty, { color: colors.textSecondary }]}>
+                {specialty ?? 'Choose a specialty'}
+              </ThemedText>
+            </View>
+          </View>
+
+          {renderLabel('NAME')}
+          <TextInput
+            style={[styles.input, { backgroundColor: colors.surface, color: colors.textPrimary }]}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g. Interventional Cardiology"
+            placeholderTextColor={colors.textTertiary}
+            maxLength={NAME_MAX}
+          />
+
+          {renderLabel('DESCRIPTION')}
+          <TextInput
+            style={[styles.input, styles.multiline, { backgroundColor: colors.surface, color: colors.textPrimary }]}
+            value={description}
+            onChangeText={setDescription}
+            placeholder="What will members discuss here?"
+            placeholderTextColor={colors.textTertiary}
+            maxLength={DESCRIPTION_MAX}
+            multiline
+          />
+          <ThemedText style={[styles.hint, { color: colors.textTertiary }]}>
+            At least {DESCRIPTION_MIN} characters
+          </ThemedText>
+
+          {renderLabel('SPECIALTY')}
+          <View style={styles.chips}>
+            {ROOM_SPECIALTIES.map(value => {
+              const selected = specialty === value;
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.chip,
+                    { borderColor: selected ? colors.primary : colors.border },
+                    selected && { backgroundColor: colors.primary + '15' },
+                  ]}
+                  onPress={() => setSpecialty(value)}
+                >
+                  <ThemedText
+                    style={[styles.chipText, { color: selected ? colors.primary : colors.textSecondary }]}
+                  >
+                    {value}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {renderLabel('ICON')}
+          <View style={styles.swatches}>
+            {ROOM_ICONS.map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[
+                  styles.swatch,
+                  { backgroundColor: colors.surface, borderColor: icon === value ? color : colors.border },
+                ]}
+                onPress={() => setIcon(value)}
+              >
+                <Feather
+                  name={getRoomIconName(value)}
+                  size={20}
+                  color={icon === value ? color : colors.textSecondary}
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {renderLabel('COLOR')}
+          <View style={styles.swatches}>
+            {ROOM_COLORS.map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.swatch, styles.colorSwatch, { backgroundColor: value }]}
+                onPress={() => setColor(value)}
+              >
+                {color === value && <Ionicons name="checkmark" size={20} color="#FFFFFF" />}
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {renderLabel('RULES (OPTIONAL)')}
+          <TextInput
+            style={[styles.input, styles.multiline, { backgroundColor: colors.surface, color: colors.textPrimary }]}
+            value={rules}
+            onChangeText={setRules}
+            placeholder="One rule per line"
+            placeholderTextColor={colors.textTertiary}
+            multiline
+          />
+          <ThemedText style={[styles.hint, { color: colors.textTertiary }]}>
+            Members accept these when they join. Up to {RULES_MAX}.
+          </ThemedText>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 60,
+    height: 40,
+    alignItems: 'flex-start',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...Typography.heading,
+    fontSize: 17,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerRight: {
+    width: 60,
+    alignItems: 'flex-end',
+  },
+  submitText: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  content: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing['2xl'],
+  },
+  preview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  previewIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  previewContent: {
+    flex: 1,
+  },
+  previewName: {
+    ...Typography.heading,
+  },
+  previewSpecialty: {
+    ...Typography.caption,
+    marginTop: Spacing.xs,
+  },
+  label: {
+    ...Typography.small,
+    fontWeight: '600',
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.sm,
+  },
+  input: {
+    ...Typography.body,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  multiline: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    ...Typography.small,
+    marginTop: Spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  swatch: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.md,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  colorSwatch: {
+    borderWidth: 0,
+  },
+});
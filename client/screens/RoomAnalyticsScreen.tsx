@@ -0,0 +1,422 @@
+/**
+ * Room Analytics Screen
+ * How active a room has been over the last 7, 30 or 90 days, for its
+ * moderators: daily activity, churn and reports, and who and what drove it
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+
+import { Avatar } from '@/components/Avatar';
+import { ThemedText } from '@/components/ThemedText';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { roomsApi, RoomAnalyticsDay, RoomAnalyticsPeriod } from '@/lib/api';
+import { RootStackParamList } from '@/types';
+
+const PERIODS: { value: RoomAnalyticsPeriod; label: string }[] = [
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+];
+
+const CHART_HEIGHT = 120;
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  key: keyof Omit<RoomAnalyticsDay, 'date'>;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export default function RoomAnalyticsScreen() {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<RootStackParamList, 'RoomAnalytics'>>();
+  const { roomSlug, roomName } = route.params;
+  const { colors } = useThemeContext();
+  const [period, setPeriod] = useState<RoomAnalyticsPeriod>('30d');
+
+  const { data, isLoading, isRefetching, refetch, error } = useQuery({
+    queryKey: ['roomAnalytics', roomSlug, period],
+    queryFn: async () => {
+      const response = await roomsApi.getAnalytics(roomSlug, period);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to load analytics');
+      }
+      return response.data;
+    },
+  });
+
+  const renderTile = (label: string, value: number) => (
+    <View key={label} style={[styles.tile, { backgroundColor: colors.surface }]}>
+      <ThemedText style={[styles.tileValue, { color: colors.textPrimary }]}>
+        {value.toLocaleString()}
+      </ThemedText>
+      <ThemedText style={[styles.tileLabel, { color: colors.textSecondary }]}>{label}</ThemedText>
+    </View>
+  );
+
+  // Stacked bars, one per day, scaled to the busiest day
+  const renderChart = (title: string, series: ChartSeries[]) => {
+    const days = data?.days || [];
+    const max = Math.max(1, ...days.map(day => series.reduce((total, s) => total + day[s.key], 0)));
+
+    return (
+      <View style={[styles.card, { backgroundColor: colors.surface }]}>
+        <ThemedText style={[styles.cardTitle, { color: colors.textPrimary }]}>{title}</ThemedText>
+        <View style={styles.legend}>
+          {series.map(s => (
+            <View key={s.key} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: s.color }]} />
+              <ThemedText style={[styles.legendText, { color: colors.textSecondary }]}>
+                {s.label}
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+        <View style={[styles.chart, { borderBottomColor: colors.border }]}>
+          {days.map(day => (
+            <View key={day.date} style={styles.barColumn}>
+              {series.map(s =>
+                day[s.key] > 0 ? (
+                  <View
+                    key={s.key}
+                    style={{ height: (day[s.key] / max) * CHART_HEIGHT, backgroundColor: s.color }}
+                  />
+                ) : null
+              )}
+            </View>
+          ))}
+        </View>
+        {days.length > 0 && (
+          <View style={styles.axis}>
+            <ThemedText style={[styles.axisText, { color: colors.textTertiary }]}>
+              {formatDay(days[0].date)}
+            </ThemedText>
+            <ThemedText style={[styles.axisText, { color: colors.textTertiary }]}>
+              {formatDay(days[days.length - 1].date)}
+            </ThemedText>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (!data) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="stats-chart-outline" size={48} color={colors.textTertiary} />
+          <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+            {error instanceof Error ? error.message : 'No analytics to show'}
+          </ThemedText>
+        </View>
+      );
+    }
+
+    const { totals } = data;
+    return (
+      <>
+        <View style={styles.tiles}>
+          {renderTile('Members', totals.members_count)}
+          {renderTile('Active', totals.active_members)}
+          {renderTile('Posts', totals.posts)}
+          {renderTile('Comments', totals.comments)}
+          {renderTile('Joined', totals.joins)}
+          {renderTile('Left', totals.leaves)}
+          {renderTile('Reports', totals.reports)}
+        </View>
+
+        {renderChart('Daily active members', [
+          { label: 'Active', color: colors.primary, key: 'active_members' },
+        ])}
+        {renderChart('Posts and comments', [
+          { label: 'Posts', color: colors.primary, key: 'posts' },
+          { label: 'Comments', color: colors.primary + '60', key: 'comments' },
+        ])}
+        {renderChart('Joins and leaves', [
+          { label: 'Joined', color: colors.success, key: 'joins' },
+          { label: 'Left', color: colors.error, key: 'leaves' },
+        ])}
+        {renderChart('Reports', [{ label: 'Reports', color: colors.error, key: 'reports' }])}
+
+        <View style={[styles.card, { backgroundColor: colors.surface }]}>
+          <ThemedText style={[styles.cardTitle, { color: colors.textPrimary }]}>
+            Top contributors
+          </ThemedText>
+          {data.top_contributors.length === 0 ? (
+            <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+              No posts or comments yet
+            </ThemedText>
+          ) : (
+            data.top_contributors.map(({ user, posts, comments }) => (
+              <TouchableOpacity
+                key={user.id}
+                style={styles.listRow}
+                onPress={() => navigation.navigate('UserProfile', { userId: user.id })}
+              >
+                <Avatar source={user.avatar_url} name={user.full_name} size="sm" />
+                <ThemedText
+                  style={[styles.listName, { color: colors.textPrimary }]}
+                  numberOfLines={1}
+                >
+                  {user.full_name}
+                </ThemedText>
+                <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+                  {posts} {posts === 1 ? 'post' : 'posts'} · {comments}{' '}
+                  {comments === 1 ? 'comment' : 'comments'}
+                </ThemedText>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: colors.surface }]}>
+          <ThemedText style={[styles.cardTitle, { color: colors.textPrimary }]}>
+            Most engaged hashtags
+          </ThemedText>
+          {data.top_hashtags.length === 0 ? (
+            <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+              No hashtags used yet
+            </ThemedText>
+          ) : (
+            data.top_hashtags.map(hashtag => (
+              <TouchableOpacity
+                key={hashtag.tag}
+                style={styles.listRow}
+                onPress={() => navigation.navigate('Hashtag', { tag: hashtag.tag })}
+              >
+                <ThemedText
+                  style={[styles.listName, { color: colors.primary }]}
+                  numberOfLines={1}
+                >
+                  #{hashtag.tag}
+                </ThemedText>
+                <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+                  {hashtag.engagement.toLocaleString()} engagements · {hashtag.posts}{' '}
+                  {hashtag.posts === 1 ? 'post' : 'posts'}
+                </ThemedText>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <ThemedText style={[styles.headerTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+          {roomName ? `${roomName} Insights` : 'Room Insights'}
+        </ThemedText>
+        <View style={styles.headerRight} />
+      </View>
+
+      <View style={[styles.periods, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        {PERIODS.map(({ value, label }) => {
+          const selected = period === value;
+          return (
+            <TouchableOpacity
+              key={value}
+              style={[
+                styles.period,
+                { borderColor: selected ? colors.primary : colors.border },
+                selected && { backgroundColor: colors.primary + '15' },
+              ]}
+              onPress={() => setPeriod(value)}
+            >
+              <ThemedText
+                style={[styles.periodText, { color: selected ? colors.primary : colors.textSecondary }]}
+              >
+                {label}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />
+          }
+        >
+          {renderContent()}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'flex-start',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...Typography.heading,
+    fontSize: 17,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerRight: {
+    width: 40,
+  },
+  periods: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+  },
+  period: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  periodText: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  tiles: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  tile: {
+    flexGrow: 1,
+    minWidth: 96,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  tileValue: {
+    ...Typography.heading,
+    fontSize: 20,
+  },
+  tileLabel: {
+    ...Typography.small,
+    marginTop: Spacing.xs,
+  },
+  card: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+  },
+  cardTitle: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  legend: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+    marginTop: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendText: {
+    ...Typography.small,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 1,
+    borderBottomWidth: 1,
+  },
+  barColumn: {
+    flex: 1,
+    flexDirection: 'column-reverse',
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: Spacing.xs,
+  },
+  axisText: {
+    ...Typography.small,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  listName: {
+    ...Typography.body,
+    flex: 1,
+  },
+  meta: {
+    ...Typography.small,
+    marginTop: Spacing.xs,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  emptySubtitle: {
+    ...Typography.body,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+  },
+});
@@ -1,6 +1,9 @@
 /**
  * RoomDetail Screen
- * View room info, members, and posts
+ * View room info, members, pinned announcements and posts. Room moderators
+ * long-press a post to moderate it. Private and invite-only rooms show their
+ * posts to members only; opened from an invite link, joining uses the invite.
+ * Archived rooms can be read but not joined or posted in.
  */
 
 import React, { useState, useCallback } from 'react';
@@ -15,29 +18,40 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import { useQuery, useMutation, useQueryClient, useInfiniteQuery } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
 import { LinearGradient } from 'expo-linear-gradient';
 
 import { ThemedText } from '@/components/ThemedText';
 import { Colors, Spacing, BorderRadius, Typography, Shadows } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
+import { useRepost } from '@/hooks/useRepost';
+import { useRoomMembership } from '@/hooks/useRoomMembership';
 import { roomsApi, feedApi } from '@/lib/api';
-import { Room, Post } from '@/types';
+import { Post } from '@/types';
 import { formatNumber } from '@/lib/utils';
 import PostCard from '@/components/PostCard';
+import RoomModerationSheet from '@/components/RoomModerationSheet';
 
 type RoomDetailRouteParams = {
   RoomDetail: {
     roomSlug: string;
+    invite?: string;
   };
 };
 
+const VISIBILITY_LABELS = {
+  private: { icon: 'lock-closed', label: 'Private room' },
+  invite_only: { icon: 'mail', label: 'Invite-only room' },
+} as const;
+
 export default function RoomDetailScreen() {
   const navigation = useNavigation<any>();
   const route = useRoute<RouteProp<RoomDetailRouteParams, 'RoomDetail'>>();
-  const { roomSlug } = route.params;
-  const queryClient = useQueryClient();
+  const { roomSlug, invite } = route.params;
   const appColors = useAppColors();
+  const { openRepostMenu } = useRepost();
+  const { toggleMembership, isPending: membershipPending } = useRoomMembership();
+  const [moderatedPost, setModeratedPost] = useState<Post | null>(null);
 
   // Fetch room details
   const {
@@ -51,6 +65,10 @@ export default function RoomDetailScreen() {
     },
   });
 
+  const isLocked =
+    !!room && room.visibility !== 'public' && !room.is_member && !room.is_moderator;
+  const isRequested = room?.join_request_status === 'pending' && !invite;
+
   // Fetch room posts
   const {
     data: feedData,
@@ -67,22 +85,15 @@ export default function RoomDetailScreen() {
     },
     getNextPageParam: (lastPage) => lastPage?.next_cursor,
     initialPageParam: undefined as string | undefined,
+    enabled: !!room && !isLocked,
   });
 
-  const posts = feedData?.pages.flatMap(page => page?.posts || []) || [];
-
-  // Join/Leave room mutation
-  const membershipMutation = useMutation({
-    mutationFn: async () => {
-      if (room?.is_member) {
-        return roomsApi.leaveRoom(roomSlug);
-      }
-      return roomsApi.joinRoom(roomSlug);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['room', roomSlug] });
-    },
-  });
+  // Pinned announcements come with the first page and are left out of the list below them
+  const pinnedPosts = feedData?.pages[0]?.pinned_posts || [];
+  const pinnedIds = new Set(pinnedPosts.map(post => post.id));
+  const posts = (feedData?.pages.flatMap(page => page?.posts || []) || []).filter(
+    post => !pinnedIds.has(post.id)
+  );
 
   const handleRefresh = useCallback(() => {
     refetch();
@@ -106,8 +117,17 @@ export default function RoomDetailScreen() {
     navigation.navigate('UserProfile', { userId });
   }, [navigation]);
 
+  const joinLabel = () => {
+    if (room?.is_member) return 'Joined';
+    if (isRequested) return 'Requested';
+    if (invite) return 'Accept Invite';
+    return room?.visibility === 'private' ? 'Request to Join' : 'Join';
+  };
+
   const renderHeader = () => {
     if (!room) return null;
+    const visibility = room.visibility !== 'public' ? VISIBILITY_LABELS[room.visibility] : null;
+    const isQuiet = room.is_member || isRequested;
 
     return (
       <View style={[styles.header, { backgroundColor: appColors.surface }]}>
@@ -124,6 +144,19 @@ export default function RoomDetailScreen() {
         {/* Room Info */}
         <View style={styles.roomInfo}>
           <ThemedText style={[styles.roomName, { color: appColors.textPrimary }]}>{room.name}</ThemedText>
+          {room.specialty ? (
+            <ThemedText style={[styles.visibilityText, { color: appColors.textSecondary }]}>
+              {room.specialty}
+            </ThemedText>
+          ) : null}
+          {visibility && (
+            <View style={styles.visibilityRow}>
+              <Ionicons name={visibility.icon} size={14} color={appColors.textSecondary} />
+              <ThemedText style={[styles.visibilityText, { color: appColors.textSecondary }]}>
+                {visibility.label}
+              </ThemedText>
+            </View>
+          )}
           <ThemedText style={[styles.roomDescription, { color: appColors.textSecondary }]}>{room.description}</ThemedText>
 
           {/* Stats */}
@@ -143,42 +176,74 @@ export default function RoomDetailScreen() {
             </View>
           </View>
 
-          {/* Actions */}
-          <View style={styles.actionsRow}>
-            <TouchableOpacity
-              style={[
-                styles.joinButton,
-                room.is_member && styles.joinedButton,
-              ]}
-              onPress={() => membershipMutation.mutate()}
-              disabled={membershipMutation.isPending}
-            >
-              {membershipMutation.isPending ? (
-                <ActivityIndicator size="small" color={room.is_member ? appColors.textSecondary : 'white'} />
-              ) : (
-                <>
-                  <Ionicons
-                    name={room.is_member ? 'checkmark' : 'add'}
-                    size={18}
-                    color={room.is_member ? appColors.textSecondary : 'white'}
-                  />
-                  <ThemedText style={[
-                    styles.joinButtonText,
-                    room.is_member && [styles.joinedButtonText, { color: appColors.textSecondary }],
-                  ]}>
-                    {room.is_member ? 'Joined' : 'Join'}
-                  </ThemedText>
-                </>
-              )}
-            </TouchableOpacity>
+          {/* Ban notice */}
+          {room.ban ? (
+            <View style={[styles.banNotice, { backgroundColor: appColors.error + '15' }]}>
+              <Ionicons name="ban-outline" size={18} color={appColors.error} />
+              <ThemedText style={[styles.banNoticeText, { color: appColors.error }]}>
+                {room.ban.expires_at
+                  ? `You are banned from this room until ${new Date(room.ban.expires_at).toLocaleDateString()}`
+                  : 'You are banned from this room'}
+                {`: ${room.ban.reason}`}
+              </ThemedText>
+            </View>
+          ) : null}
 
-            {room.is_member && (
-              <TouchableOpacity style={styles.createButton} onPress={handleCreatePost}>
-                <Ionicons name="create-outline" size={18} color={Colors.primary} />
-                <ThemedText style={styles.createButtonText}>Create Post</ThemedText>
+          {/* Archived notice */}
+          {room.status === 'archived' ? (
+            <View style={[styles.banNotice, { backgroundColor: appColors.surfaceSecondary }]}>
+              <Ionicons name="archive-outline" size={18} color={appColors.textSecondary} />
+              <ThemedText style={[styles.banNoticeText, { color: appColors.textSecondary }]}>
+                This room is archived. Its posts stay readable, but it takes no new posts or members.
+              </ThemedText>
+            </View>
+          ) : null}
+
+          {/* Actions */}
+          {room.status === 'archived' ? null : !room.ban && room.visibility === 'invite_only' && !room.is_member && !invite ? (
+            <View style={[styles.banNotice, { backgroundColor: appColors.surfaceSecondary }]}>
+              <Ionicons name="mail-outline" size={18} color={appColors.textSecondary} />
+              <ThemedText style={[styles.banNoticeText, { color: appColors.textSecondary }]}>
+                This room is invite-only. Ask a member for an invite link to join.
+              </ThemedText>
+            </View>
+          ) : !room.ban && (
+            <View style={styles.actionsRow}>
+              <TouchableOpacity
+                style={[
+                  styles.joinButton,
+                  isQuiet && styles.joinedButton,
+                ]}
+                onPress={() => toggleMembership({ ...room, slug: roomSlug }, invite)}
+                disabled={membershipPending}
+              >
+                {membershipPending ? (
+                  <ActivityIndicator size="small" color={isQuiet ? appColors.textSecondary : 'white'} />
+                ) : (
+                  <>
+                    <Ionicons
+                      name={room.is_member ? 'checkmark' : isRequested ? 'time-outline' : 'add'}
+                      size={18}
+                      color={isQuiet ? appColors.textSecondary : 'white'}
+                    />
+                    <ThemedText style={[
+                      styles.joinButtonText,
+                      isQuiet && [styles.joinedButtonText, { color: appColors.textSecondary }],
+                    ]}>
+                      {joinLabel()}
+                    </ThemedText>
+                  </>
+                )}
               </TouchableOpacity>
-            )}
-          </View>
+
+              {room.is_member && (
+                <TouchableOpacity style={styles.createButton} onPress={handleCreatePost}>
+                  <Ionicons name="create-outline" size={18} color={Colors.primary} />
+                  <ThemedText style={styles.createButtonText}>Create Post</ThemedText>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
 
           {/* Rules */}
           {room.rules && room.rules.length > 0 && (
@@ -194,10 +259,25 @@ export default function RoomDetailScreen() {
           )}
         </View>
 
+        {/* Pinned Announcements */}
+        {pinnedPosts.length > 0 && (
+          <View style={[styles.postsHeader, { borderTopColor: appColors.border }]}>
+            <View style={styles.pinnedTitleRow}>
+              <Ionicons name="pin" size={16} color={Colors.primary} />
+              <ThemedText style={[styles.postsTitle, { color: appColors.textPrimary }]}>Announcements</ThemedText>
+            </View>
+          </View>
+        )}
+        {pinnedPosts.map(post => (
+          <React.Fragment key={post.id}>{renderPost({ item: post })}</React.Fragment>
+        ))}
+
         {/* Posts Header */}
-        <View style={[styles.postsHeader, { borderTopColor: appColors.border }]}>
-          <ThemedText style={[styles.postsTitle, { color: appColors.textPrimary }]}>Posts</ThemedText>
-        </View>
+        {!isLocked && (
+          <View style={[styles.postsHeader, { borderTopColor: appColors.border }]}>
+            <ThemedText style={[styles.postsTitle, { color: appColors.textPrimary }]}>Posts</ThemedText>
+          </View>
+        )}
       </View>
     );
   };
@@ -209,6 +289,8 @@ export default function RoomDetailScreen() {
       onUserPress={() => handleUserPress(item.author.id)}
       onVote={() => {}}
       onBookmark={() => {}}
+      onRepost={() => openRepostMenu(item)}
+      onLongPress={room?.is_moderator ? () => setModeratedPost(item) : undefined}
     />
   );
 
@@ -221,7 +303,17 @@ export default function RoomDetailScreen() {
     );
   };
 
-  const renderEmpty = () => (
+  const renderEmpty = () => isLocked ? (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="lock-closed-outline" size={48} color={appColors.textSecondary} />
+      <ThemedText style={[styles.emptyTitle, { color: appColors.textPrimary }]}>Members only</ThemedText>
+      <ThemedText style={[styles.emptySubtitle, { color: appColors.textSecondary }]}>
+        {isRequested
+          ? "You'll see this room's posts once a moderator approves your request."
+          : "Join this room to see what its members are posting."}
+      </ThemedText>
+    </View>
+  ) : (
     <View style={styles.emptyContainer}>
       <Ionicons name="document-text-outline" size={48} color={appColors.textSecondary} />
       <ThemedText style={[styles.emptyTitle, { color: appColors.textPrimary }]}>No posts yet</ThemedText>
@@ -254,9 +346,27 @@ export default function RoomDetailScreen() {
         <ThemedText style={[styles.navTitle, { color: appColors.textPrimary }]} numberOfLines={1}>
           {room?.name}
         </ThemedText>
-        <TouchableOpacity style={styles.moreButton}>
-          <Ionicons name="ellipsis-horizontal" size={24} color={appColors.textPrimary} />
-        </TouchableOpacity>
+        <View style={styles.navActions}>
+          {room?.is_moderator && (
+            <TouchableOpacity
+              style={styles.moreButton}
+              onPress={() => navigation.navigate('RoomAnalytics', { roomSlug, roomName: room.name })}
+            >
+              <Ionicons name="stats-chart-outline" size={22} color={appColors.textPrimary} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.moreButton}
+            onPress={() => navigation.navigate('RoomModeration', { roomSlug, roomName: room?.name })}
+            disabled={!room?.is_moderator}
+          >
+            <Ionicons
+              name={room?.is_moderator ? 'shield-checkmark-outline' : 'ellipsis-horizontal'}
+              size={24}
+              color={appColors.textPrimary}
+            />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Posts List */}
@@ -278,6 +388,13 @@ export default function RoomDetailScreen() {
         onEndReachedThreshold={0.5}
         showsVerticalScrollIndicator={false}
       />
+
+      <RoomModerationSheet
+        roomSlug={roomSlug}
+        post={moderatedPost}
+        isPinned={!!moderatedPost && pinnedIds.has(moderatedPost.id)}
+        onClose={() => setModeratedPost(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -307,6 +424,10 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'center',
   },
+  navActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   moreButton: {
     padding: Spacing.sm,
   },
@@ -355,6 +476,32 @@ const styles = StyleSheet.create({
     ...Typography.small,
     marginTop: 2,
   },
+  banNotice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: Spacing.lg,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  banNoticeText: {
+    ...Typography.caption,
+    flex: 1,
+  },
+  visibilityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginBottom: Spacing.xs,
+  },
+  visibilityText: {
+    ...Typography.caption,
+  },
+  pinnedTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
   actionsRow: {
     flexDirection: 'row',
     marginTop: Spacing.lg,
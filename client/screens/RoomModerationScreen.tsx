@@ -0,0 +1,412 @@
+/**
+ * Room Moderation Screen
+ * A room's moderation log, the bans in force and who can join, for its
+ * moderators
+ */
+
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import RoomAccessPanel from '@/components/RoomAccessPanel';
+import { ThemedText } from '@/components/ThemedText';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { roomsApi, RoomBan, RoomModerationLogEntry } from '@/lib/api';
+import { haptics } from '@/lib/haptics';
+import { formatDate } from '@/lib/utils';
+import { RootStackParamList } from '@/types';
+
+type Tab = 'log' | 'bans' | 'access';
+
+const TABS: Tab[] = ['log', 'bans', 'access'];
+
+const ACTION_LABELS: Record<RoomModerationLogEntry['action'], string> = {
+  remove_post: 'removed a post',
+  remove_comment: 'removed a comment',
+  ban: 'banned',
+  unban: 'lifted the ban on',
+  pin: 'pinned an announcement',
+  unpin: 'unpinned an announcement',
+  add_moderator: 'made a moderator:',
+  remove_moderator: 'removed as moderator:',
+  approve_join: 'approved the request to join from',
+  decline_join: 'declined the request to join from',
+  create_invite: 'created an invite link',
+  revoke_invite: 'revoked an invite link',
+  change_visibility: 'changed who can join the room',
+};
+
+const ACTION_ICONS: Record<RoomModerationLogEntry['action'], keyof typeof Ionicons.glyphMap> = {
+  remove_post: 'trash-outline',
+  remove_comment: 'chatbox-outline',
+  ban: 'ban-outline',
+  unban: 'refresh-outline',
+  pin: 'pin-outline',
+  unpin: 'pin-outline',
+  add_moderator: 'shield-checkmark-outline',
+  remove_moderator: 'shield-outline',
+  approve_join: 'person-add-outline',
+  decline_join: 'person-remove-outline',
+  create_invite: 'link-outline',
+  revoke_invite: 'unlink-outline',
+  change_visibility: 'lock-closed-outline',
+};
+
+export default function RoomModerationScreen() {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<RootStackParamList, 'RoomModeration'>>();
+  const { roomSlug, roomName } = route.params;
+  const { colors } = useThemeContext();
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<Tab>(route.params.tab ?? 'log');
+
+  const {
+    data: logData,
+    isLoading: logLoading,
+    isRefetching: logRefetching,
+    refetch: refetchLog,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['roomModerationLog', roomSlug],
+    queryFn: async ({ pageParam }) => {
+      const response = await roomsApi.getModerationLog(roomSlug, pageParam);
+      return response.data;
+    },
+    getNextPageParam: (lastPage) => lastPage?.next_cursor,
+    initialPageParam: undefined as string | undefined,
+  });
+
+  const entries = logData?.pages.flatMap(page => page?.entries || []) || [];
+
+  const {
+    data: bans = [],
+    isLoading: bansLoading,
+    isRefetching: bansRefetching,
+    refetch: refetchBans,
+  } = useQuery({
+    queryKey: ['roomBans', roomSlug],
+    queryFn: async () => {
+      const response = await roomsApi.getBans(roomSlug);
+      return response.data?.bans || [];
+    },
+  });
+
+  const unbanMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await roomsApi.unban(roomSlug, userId);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to lift ban');
+      }
+    },
+    onSuccess: () => {
+      haptics.success();
+      queryClient.invalidateQueries({ queryKey: ['roomBans', roomSlug] });
+      queryClient.invalidateQueries({ queryKey: ['roomModerationLog', roomSlug] });
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  const handleUnban = useCallback((ban: RoomBan) => {
+    Alert.alert(
+      'Lift Ban',
+      `${ban.user.full_name} will be able to join and post in this room again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Lift Ban', onPress: () => unbanMutation.mutate(ban.user.id) },
+      ]
+    );
+  }, [unbanMutation]);
+
+  const renderEntry = useCallback(({ item }: { item: RoomModerationLogEntry }) => (
+    <View style={[styles.row, { backgroundColor: colors.surface }]}>
+      <View style={[styles.iconCircle, { backgroundColor: colors.primary + '15' }]}>
+        <Ionicons name={ACTION_ICONS[item.action]} size={18} color={colors.primary} />
+      </View>
+      <View style={styles.rowContent}>
+        <ThemedText style={[styles.rowTitle, { color: colors.textPrimary }]}>
+          {item.moderator?.full_name ?? 'A moderator'} {ACTION_LABELS[item.action]}
+          {item.target_user ? ` ${item.target_user.full_name}` : ''}
+        </ThemedText>
+        {item.excerpt ? (
+          <ThemedText style={[styles.excerpt, { color: colors.textSecondary }]} numberOfLines={2}>
+            “{item.excerpt}”
+          </ThemedText>
+        ) : null}
+        {item.reason ? (
+          <ThemedText style={[styles.detail, { color: colors.textSecondary }]}>
+            Reason: {item.reason}
+          </ThemedText>
+        ) : null}
+        <ThemedText style={[styles.timestamp, { color: colors.textTertiary }]}>
+          {formatDate(item.created_at, true)}
+          {item.action === 'ban'
+            ? item.expires_at
+              ? ` · until ${formatDate(item.expires_at)}`
+              : ' · permanent'
+            : ''}
+        </ThemedText>
+      </View>
+    </View>
+  ), [colors]);
+
+  const renderBan = useCallback(({ item }: { item: RoomBan }) => (
+    <View style={[styles.row, { backgroundColor: colors.surface }]}>
+      <View style={[styles.iconCircle, { backgroundColor: colors.error + '15' }]}>
+        <Ionicons name="ban-outline" size={18} color={colors.error} />
+      </View>
+      <View style={styles.rowContent}>
+        <ThemedText style={[styles.rowTitle, { color: colors.textPrimary }]}>
+          {item.user.full_name}
+        </ThemedText>
+        <ThemedText style={[styles.detail, { color: colors.textSecondary }]}>
+          Reason: {item.reason}
+        </ThemedText>
+        <ThemedText style={[styles.timestamp, { color: colors.textTertiary }]}>
+          {item.expires_at ? `Until ${formatDate(item.expires_at)}` : 'Permanent'}
+        </ThemedText>
+      </View>
+      <TouchableOpacity
+        style={[styles.unbanButton, { borderColor: colors.border }]}
+        onPress={() => handleUnban(item)}
+        disabled={unbanMutation.isPending}
+      >
+        <ThemedText style={[styles.unbanText, { color: colors.textPrimary }]}>Lift</ThemedText>
+      </TouchableOpacity>
+    </View>
+  ), [colors, handleUnban, unbanMutation.isPending]);
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons
+        name={tab === 'log' ? 'shield-checkmark-outline' : 'people-outline'}
+        size={48}
+        color={colors.textTertiary}
+      />
+      <ThemedText style={[styles.emptyTitle, { color: colors.textPrimary }]}>
+        {tab === 'log' ? 'Nothing logged yet' : 'No bans in force'}
+      </ThemedText>
+      <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+        {tab === 'log'
+          ? 'Removals, bans, pins, join approvals and moderator changes in this room will appear here.'
+          : 'Long-press a post in the room to ban its author.'}
+      </ThemedText>
+    </View>
+  );
+
+  const isLoading = tab === 'log' ? logLoading : bansLoading;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <ThemedText style={[styles.headerTitle, { color: colors.textPrimary }]} numberOfLines={1}>
+          {roomName ? `${roomName} Moderation` : 'Moderation'}
+        </ThemedText>
+        <View style={styles.headerRight} />
+      </View>
+
+      <View style={[styles.tabs, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        {TABS.map(value => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.tab, tab === value && { borderBottomColor: colors.primary }]}
+            onPress={() => setTab(value)}
+          >
+            <ThemedText
+              style={[
+                styles.tabText,
+                { color: tab === value ? colors.primary : colors.textSecondary },
+              ]}
+            >
+              {value === 'log'
+                ? 'Log'
+                : value === 'bans'
+                  ? `Bans${bans.length > 0 ? ` (${bans.length})` : ''}`
+                  : 'Access'}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {tab === 'access' ? (
+        <RoomAccessPanel roomSlug={roomSlug} />
+      ) : isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : tab === 'log' ? (
+        <FlatList
+          data={entries}
+          keyExtractor={(item) => item.id}
+          renderItem={renderEntry}
+          ItemSeparatorComponent={() => (
+            <View style={[styles.separator, { backgroundColor: colors.border }]} />
+          )}
+          ListEmptyComponent={renderEmptyState}
+          ListFooterComponent={
+            isFetchingNextPage ? (
+              <ActivityIndicator style={styles.footer} color={colors.primary} />
+            ) : null
+          }
+          contentContainerStyle={entries.length === 0 ? styles.emptyList : undefined}
+          onEndReached={() => {
+            if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+          }}
+          onEndReachedThreshold={0.5}
+          onRefresh={refetchLog}
+          refreshing={logRefetching}
+        />
+      ) : (
+        <FlatList
+          data={bans}
+          keyExtractor={(item) => String(item.user.id)}
+          renderItem={renderBan}
+          ItemSeparatorComponent={() => (
+            <View style={[styles.separator, { backgroundColor: colors.border }]} />
+          )}
+          ListEmptyComponent={renderEmptyState}
+          contentContainerStyle={bans.length === 0 ? styles.emptyList : undefined}
+          onRefresh={refetchBans}
+          refreshing={bansRefetching}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'flex-start',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...Typography.heading,
+    fontSize: 17,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerRight: {
+    width: 40,
+  },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabText: {
+    ...Typography.body,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyList: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  iconCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    ...Typography.body,
+    fontWeight: '500',
+  },
+  excerpt: {
+    ...Typography.caption,
+    fontStyle: 'italic',
+    marginTop: Spacing.xs,
+  },
+  detail: {
+    ...Typography.caption,
+    marginTop: Spacing.xs,
+  },
+  timestamp: {
+    ...Typography.small,
+    marginTop: Spacing.xs,
+  },
+  unbanButton: {
+    alignSelf: 'center',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  unbanText: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  footer: {
+    paddingVertical: Spacing.lg,
+  },
+  separator: {
+    height: 1,
+    marginLeft: Spacing.lg,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  emptyTitle: {
+    ...Typography.heading,
+    marginTop: Spacing.lg,
+  },
+  emptySubtitle: {
+    ...Typography.body,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+    lineHeight: 22,
+  },
+});
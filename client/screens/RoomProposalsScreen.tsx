@@ -0,0 +1,336 @@
+/**
+ * Room Proposals Screen
+ * Rooms waiting for approval. Admins approve or decline every proposal;
+ * everyone else sees the state of their own.
+ */
+
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Feather, Ionicons } from '@expo/vector-icons';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { roomsApi, Room } from '@/lib/api';
+import { haptics } from '@/lib/haptics';
+import { getRoomIconName } from '@/lib/rooms';
+import { formatDate } from '@/lib/utils';
+
+const REASON_MAX = 500;
+
+export default function RoomProposalsScreen() {
+  const navigation = useNavigation<any>();
+  const { colors } = useThemeContext();
+  const queryClient = useQueryClient();
+  const [decliningSlug, setDecliningSlug] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const { data, isLoading, isRefetching, refetch } = useQuery({
+    queryKey: ['roomProposals'],
+    queryFn: async () => {
+      const response = await roomsApi.getProposals();
+      return response.data;
+    },
+  });
+
+  const proposals = data?.rooms || [];
+  const canReview = data?.can_review ?? false;
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ slug, approve }: { slug: string; approve: boolean }) => {
+      const response = approve
+        ? await roomsApi.approveRoom(slug)
+        : await roomsApi.declineRoom(slug, reason.trim());
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to review room');
+      }
+    },
+    onSuccess: (_, { approve }) => {
+      haptics.success();
+      setDecliningSlug(null);
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['roomProposals'] });
+      if (approve) {
+        queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+        queryClient.invalidateQueries({ queryKey: ['rooms'] });
+      }
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  const handleApprove = useCallback((room: Room) => {
+    Alert.alert('Approve Room', `${room.name} will open to everyone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Approve', onPress: () => reviewMutation.mutate({ slug: room.slug, approve: true }) },
+    ]);
+  }, [reviewMutation]);
+
+  const renderReview = (item: Room) => decliningSlug === item.slug ? (
+    <View style={styles.declineForm}>
+      <TextInput
+        style={[styles.reasonInput, { backgroundColor: colors.background, color: colors.textPrimary }]}
+        value={reason}
+        onChangeText={setReason}
+        placeholder="Reason (shown to the proposer)"
+        placeholderTextColor={colors.textTertiary}
+        maxLength={REASON_MAX}
+        multiline
+        autoFocus
+      />
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.textButton} onPress={() => setDecliningSlug(null)}>
+          <ThemedText style={{ color: colors.textSecondary }}>Cancel</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.textButton}
+          onPress={() => reviewMutation.mutate({ slug: item.slug, approve: false })}
+          disabled={!reason.trim() || reviewMutation.isPending}
+        >
+          <ThemedText
+            style={[styles.confirmText, { color: reason.trim() ? colors.error : colors.textTertiary }]}
+          >
+            Decline
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+    </View>
+  ) : (
+    <View style={styles.actions}>
+      <TouchableOpacity
+        style={[styles.actionButton, { borderColor: colors.border }]}
+        onPress={() => {
+          setReason('');
+          setDecliningSlug(item.slug);
+        }}
+        disabled={reviewMutation.isPending}
+      >
+        <ThemedText style={[styles.actionText, { color: colors.error }]}>Decline</ThemedText>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.actionButton, { backgroundColor: colors.primary, borderColor: colors.primary }]}
+        onPress={() => handleApprove(item)}
+        disabled={reviewMutation.isPending}
+      >
+        <ThemedText style={[styles.actionText, { color: '#FFFFFF' }]}>Approve</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderProposal = ({ item }: { item: Room }) => (
+    <View style={[styles.card, { backgroundColor: colors.surface }]}>
+      <View style={styles.cardHeader}>
+        <View style={[styles.roomIcon, { backgroundColor: item.color + '20' }]}>
+          <Feather name={getRoomIconName(item.icon)} size={22} color={item.color} />
+        </View>
+        <View style={styles.cardTitle}>
+          <ThemedText style={[styles.roomName, { color: colors.textPrimary }]}>{item.name}</ThemedText>
+          <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+            {item.specialty ? `${item.specialty} · ` : ''}/{item.slug}
+          </ThemedText>
+        </View>
+      </View>
+      <ThemedText style={[styles.description, { color: colors.textPrimary }]}>
+        {item.description}
+      </ThemedText>
+      <ThemedText style={[styles.meta, { color: colors.textTertiary }]}>
+        {canReview && item.created_by ? `Proposed by ${item.created_by.full_name} · ` : 'Proposed '}
+        {formatDate(item.created_at)}
+      </ThemedText>
+      {canReview ? (
+        renderReview(item)
+      ) : (
+        <View style={styles.pendingRow}>
+          <Ionicons name="time-outline" size={16} color={colors.textSecondary} />
+          <ThemedText style={[styles.meta, { color: colors.textSecondary }]}>
+            Waiting for an admin to review
+          </ThemedText>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="file-tray-outline" size={48} color={colors.textTertiary} />
+      <ThemedText style={[styles.emptyTitle, { color: colors.textPrimary }]}>
+        No rooms waiting
+      </ThemedText>
+      <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+        {canReview
+          ? 'Rooms proposed by verified members will appear here for review.'
+          : "Rooms you propose will appear here until they're reviewed."}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <ThemedText style={[styles.headerTitle, { color: colors.textPrimary }]}>
+          Room Proposals
+        </ThemedText>
+        <View style={styles.headerRight} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={proposals}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={renderProposal}
+          ListEmptyComponent={renderEmptyState}
+          contentContainerStyle={proposals.length === 0 ? styles.emptyList : styles.list}
+          keyboardShouldPersistTaps="handled"
+          onRefresh={refetch}
+          refreshing={isRefetching}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'flex-start',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...Typography.heading,
+    fontSize: 17,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  headerRight: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  list: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  emptyList: {
+    flex: 1,
+  },
+  card: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  roomIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cardTitle: {
+    flex: 1,
+  },
+  roomName: {
+    ...Typography.heading,
+  },
+  meta: {
+    ...Typography.small,
+    marginTop: Spacing.xs,
+  },
+  description: {
+    ...Typography.body,
+    marginTop: Spacing.md,
+  },
+  pendingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.md,
+    marginTop: Spacing.md,
+  },
+  actionButton: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+  },
+  actionText: {
+    ...Typography.caption,
+    fontWeight: '600',
+  },
+  declineForm: {
+    marginTop: Spacing.md,
+  },
+  reasonInput: {
+    ...Typography.body,
+    minHeight: 72,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    textAlignVertical: 'top',
+  },
+  textButton: {
+    paddingVertical: Spacing.xs,
+  },
+  confirmText: {
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  emptyTitle: {
+    ...Typography.heading,
+    marginTop: Spacing.lg,
+  },
+  emptySubtitle: {
+    ...Typography.body,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+    lineHeight: 22,
+  },
+});
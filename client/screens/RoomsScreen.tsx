@@ -1,21 +1,25 @@
 import React, { useState, useCallback } from "react";
-import { View, StyleSheet, FlatList, Pressable, TextInput, RefreshControl, ActivityIndicator } from "react-native";
+import { View, StyleSheet, FlatList, Pressable, TextInput, RefreshControl, ActivityIndicator, Alert } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useNavigation } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import Animated, { FadeInDown } from "react-native-reanimated";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 
 import { ThemedText } from "@/components/ThemedText";
+import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "@/hooks/useTheme";
+import { useRoomMembership } from "@/hooks/useRoomMembership";
 import { Colors, Spacing, BorderRadius, Shadows } from "@/constants/theme";
-import { roomsApi, Room } from "@/lib/api";
+import { Room } from "@/lib/api";
+import { getRoomIconName } from "@/lib/rooms";
 
 export default function RoomsScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<any>();
   const { theme } = useTheme();
-  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toggleMembership, isPending, pendingSlug } = useRoomMembership();
   const [searchQuery, setSearchQuery] = useState("");
 
   const { data: roomsData, isLoading, isRefetching, refetch } = useQuery({
@@ -24,27 +28,23 @@ export default function RoomsScreen() {
 
   const rooms = roomsData?.rooms || [];
 
-  const joinMutation = useMutation({
-    mutationFn: async ({ slug, isJoined }: { slug: string; isJoined: boolean }) => {
-      if (isJoined) {
-        return roomsApi.leaveRoom(slug);
-      } else {
-        return roomsApi.joinRoom(slug);
-      }
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
-    },
-  });
-
   const filteredRooms = rooms.filter((room: Room) =>
     room.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    room.description.toLowerCase().includes(searchQuery.toLowerCase())
+    room.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    !!room.specialty?.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const handleJoinRoom = useCallback((slug: string, isJoined: boolean) => {
-    joinMutation.mutate({ slug, isJoined });
-  }, [joinMutation]);
+  const handleJoinRoom = useCallback((room: Room) => {
+    toggleMembership(room);
+  }, [toggleMembership]);
+
+  const handleProposeRoom = useCallback(() => {
+    if (!user?.is_verified) {
+      Alert.alert("Verification Required", "Verify your account to propose a new room.");
+      return;
+    }
+    navigation.navigate('ProposeRoom');
+  }, [navigation, user?.is_verified]);
 
   const handleRoomPress = useCallback((slug: string) => {
     navigation.navigate('RoomDetail', { roomSlug: slug });
@@ -52,7 +52,7 @@ export default function RoomsScreen() {
 
   const renderRoom = ({ item, index }: { item: Room; index: number }) => {
     const isJoined = item.is_member;
-    const iconName = getFeatherIconName(item.icon);
+    const iconName = getRoomIconName(item.icon);
 
     return (
       <Animated.View entering={FadeInDown.delay(index * 50).springify()}>
@@ -65,7 +65,12 @@ export default function RoomsScreen() {
           </View>
 
           <View style={styles.roomContent}>
-            <ThemedText type="heading">{item.name}</ThemedText>
+            <View style={styles.nameRow}>
+              <ThemedText type="heading">{item.name}</ThemedText>
+              {item.visibility && item.visibility !== "public" ? (
+                <Feather name="lock" size={14} color={theme.textSecondary} />
+              ) : null}
+            </View>
             <ThemedText type="body" style={{ color: theme.textSecondary }} numberOfLines={1}>
               {item.description}
             </ThemedText>
@@ -88,7 +93,7 @@ export default function RoomsScreen() {
           <Pressable
             onPress={(e) => {
               e.stopPropagation();
-              handleJoinRoom(item.slug, isJoined);
+              handleJoinRoom(item);
             }}
             style={[
               styles.joinButton,
@@ -96,9 +101,9 @@ export default function RoomsScreen() {
                 backgroundColor: isJoined ? theme.backgroundSecondary : Colors.primary,
               },
             ]}
-            disabled={joinMutation.isPending}
+            disabled={isPending}
           >
-            {joinMutation.isPending && joinMutation.variables?.slug === item.slug ? (
+            {pendingSlug === item.slug ? (
               <ActivityIndicator size="small" color={isJoined ? theme.textSecondary : "#FFFFFF"} />
             ) : (
               <ThemedText
@@ -108,7 +113,7 @@ export default function RoomsScreen() {
                   fontWeight: "600",
                 }}
               >
-                {isJoined ? "Joined" : "Join"}
+                {isJoined ? "Joined" : item.visibility === "private" ? "Request" : "Join"}
               </ThemedText>
             )}
           </Pressable>
@@ -128,7 +133,17 @@ export default function RoomsScreen() {
   return (
     <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
       <View style={[styles.header, { paddingTop: insets.top + Spacing.lg }]}>
-        <ThemedText type="title">Healthcare Rooms</ThemedText>
+        <View style={styles.titleRow}>
+          <ThemedText type="title">Healthcare Rooms</ThemedText>
+          <View style={styles.headerActions}>
+            <Pressable onPress={() => navigation.navigate('RoomProposals')} hitSlop={8}>
+              <Feather name="inbox" size={22} color={theme.text} />
+            </Pressable>
+            <Pressable onPress={handleProposeRoom} hitSlop={8}>
+              <Feather name="plus-circle" size={22} color={Colors.primary} />
+            </Pressable>
+          </View>
+        </View>
         <ThemedText type="body" style={{ color: theme.textSecondary, marginTop: Spacing.xs }}>
           Join specialty communities to discuss investments
         </ThemedText>
@@ -181,20 +196,6 @@ export default function RoomsScreen() {
   );
 }
 
-function getFeatherIconName(icon: string): keyof typeof Feather.glyphMap {
-  const iconMap: Record<string, keyof typeof Feather.glyphMap> = {
-    heart: 'heart',
-    activity: 'activity',
-    cpu: 'cpu',
-    smartphone: 'smartphone',
-    'flask-conical': 'droplet',
-    stethoscope: 'thermometer',
-    pill: 'disc',
-    brain: 'zap',
-  };
-  return iconMap[icon] || 'folder';
-}
-
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -207,6 +208,16 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.xl,
     paddingBottom: Spacing.lg,
   },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  headerActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.lg,
+  },
   searchSection: {
     paddingHorizontal: Spacing.xl,
     marginBottom: Spacing.lg,
@@ -244,6 +255,11 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  nameRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
   roomContent: {
     flex: 1,
   },
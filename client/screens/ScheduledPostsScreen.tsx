@@ -0,0 +1,325 @@
+/**
+ * Scheduled Posts Screen
+ * View, edit and cancel posts waiting to be published
+ */
+
+import React, { useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { Swipeable } from 'react-native-gesture-handler';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import { ThemedText } from '@/components/ThemedText';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { postsApi, ScheduledPost, ScheduledPostStatus } from '@/lib/api';
+import { haptics } from '@/lib/haptics';
+import { formatDate } from '@/lib/utils';
+
+const STATUS_LABELS: Record<ScheduledPostStatus, string> = {
+  scheduled: 'Scheduled',
+  published: 'Published',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
+const isEditable = (post: ScheduledPost) => post.status === 'scheduled' || post.status === 'failed';
+
+export default function ScheduledPostsScreen() {
+  const navigation = useNavigation<any>();
+  const { colors } = useThemeContext();
+  const queryClient = useQueryClient();
+
+  const { data: scheduledPosts = [], isLoading, isRefetching, refetch } = useQuery({
+    queryKey: ['scheduledPosts'],
+    queryFn: async () => {
+      const response = await postsApi.getScheduled();
+      return response.data?.scheduled_posts || [];
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await postsApi.cancelScheduled(id);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to cancel post');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scheduledPosts'] });
+    },
+    onError: (error: Error) => {
+      Alert.alert('Error', error.message);
+    },
+  });
+
+  const handleOpenPost = useCallback((post: ScheduledPost) => {
+    haptics.selection();
+    if (post.status === 'published' && post.post_id) {
+      navigation.navigate('PostDetail', { postId: post.post_id });
+    } else if (isEditable(post)) {
+      navigation.navigate('CreatePost', { scheduledPost: post });
+    }
+  }, [navigation]);
+
+  const handleCancelPost = useCallback((id: string) => {
+    Alert.alert(
+      'Cancel Scheduled Post',
+      'This post will not be published.',
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Post',
+          style: 'destructive',
+          onPress: () => {
+            haptics.delete();
+            cancelMutation.mutate(id);
+          },
+        },
+      ]
+    );
+  }, [cancelMutation]);
+
+  const renderRightActions = useCallback((id: string) => {
+    return (
+      <TouchableOpacity
+        style={[styles.cancelAction, { backgroundColor: colors.error }]}
+        onPress={() => handleCancelPost(id)}
+      >
+        <Ionicons name="close-circle-outline" size={24} color="white" />
+      </TouchableOpacity>
+    );
+  }, [handleCancelPost, colors.error]);
+
+  const renderItem = useCallback(({ item }: { item: ScheduledPost }) => {
+    const statusColor = item.status === 'failed'
+      ? colors.error
+      : item.status === 'scheduled'
+        ? colors.primary
+        : colors.textSecondary;
+
+    return (
+      <Swipeable
+        renderRightActions={isEditable(item) ? () => renderRightActions(item.id) : undefined}
+        overshootRight={false}
+      >
+        <TouchableOpacity
+          style={[styles.postItem, { backgroundColor: colors.surface }]}
+          onPress={() => handleOpenPost(item)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.postContent}>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor + '15' }]}>
+              <ThemedText style={[styles.statusText, { color: statusColor }]}>
+                {STATUS_LABELS[item.status]}
+              </ThemedText>
+            </View>
+
+            <ThemedText
+              style={[styles.previewText, { color: colors.textPrimary }]}
+              numberOfLines={2}
+            >
+              {item.content}
+            </ThemedText>
+
+            <View style={styles.metaRow}>
+              <Ionicons name="time-outline" size={14} color={colors.textSecondary} />
+              <ThemedText style={[styles.timestamp, { color: colors.textSecondary }]}>
+                {formatDate(item.published_at ?? item.scheduled_at, true)}
+              </ThemedText>
+
+              {item.is_anonymous ? (
+                <View style={styles.anonymousBadge}>
+                  <Ionicons name="eye-off-outline" size={14} color={colors.textSecondary} />
+                  <ThemedText style={[styles.anonymousText, { color: colors.textSecondary }]}>
+                    Anonymous
+                  </ThemedText>
+                </View>
+              ) : null}
+            </View>
+
+            {item.failure_reason ? (
+              <ThemedText style={[styles.failureText, { color: colors.error }]} numberOfLines={2}>
+                {item.failure_reason}
+              </ThemedText>
+            ) : null}
+          </View>
+
+          {item.status !== 'cancelled' ? (
+            <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />
+          ) : null}
+        </TouchableOpacity>
+      </Swipeable>
+    );
+  }, [colors, handleOpenPost, renderRightActions]);
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="time-outline" size={48} color={colors.textTertiary} />
+      <ThemedText style={[styles.emptyTitle, { color: colors.textPrimary }]}>
+        No scheduled posts
+      </ThemedText>
+      <ThemedText style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+        Tap the clock when writing a post to publish it later, like before market open or an AMA.
+      </ThemedText>
+    </View>
+  );
+
+  const header = (
+    <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+      <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+        <Ionicons name="chevron-back" size={24} color={colors.textPrimary} />
+      </TouchableOpacity>
+      <ThemedText style={[styles.headerTitle, { color: colors.textPrimary }]}>
+        Scheduled Posts
+      </ThemedText>
+      <View style={styles.headerRight} />
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+        {header}
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      {header}
+
+      <FlatList
+        data={scheduledPosts}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        ItemSeparatorComponent={() => (
+          <View style={[styles.separator, { backgroundColor: colors.border }]} />
+        )}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={scheduledPosts.length === 0 ? styles.emptyList : undefined}
+        onRefresh={refetch}
+        refreshing={isRefetching}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'flex-start',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    ...Typography.heading,
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  headerRight: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyList: {
+    flex: 1,
+  },
+  postItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  postContent: {
+    flex: 1,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.xs,
+  },
+  statusText: {
+    ...Typography.caption,
+    fontWeight: '500',
+  },
+  previewText: {
+    ...Typography.body,
+    lineHeight: 22,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: Spacing.sm,
+    gap: 4,
+  },
+  timestamp: {
+    ...Typography.small,
+    marginRight: Spacing.md,
+  },
+  anonymousBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  anonymousText: {
+    ...Typography.small,
+  },
+  failureText: {
+    ...Typography.small,
+    marginTop: Spacing.xs,
+  },
+  separator: {
+    height: 1,
+    marginLeft: Spacing.lg,
+  },
+  cancelAction: {
+    width: 80,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  emptyTitle: {
+    ...Typography.heading,
+    marginTop: Spacing.lg,
+  },
+  emptySubtitle: {
+    ...Typography.body,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+    lineHeight: 22,
+  },
+});
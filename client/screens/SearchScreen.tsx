@@ -22,6 +22,7 @@ import { useQuery } from '@tanstack/react-query';
 import { ThemedText } from '@/components/ThemedText';
 import { Colors, Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
+import { useRepost } from '@/hooks/useRepost';
 import { searchApi, feedApi } from '@/lib/api';
 import { SearchType, Post, User, Room, TrendingTopic } from '@/types';
 import { formatNumber, debounce } from '@/lib/utils';
@@ -33,6 +34,7 @@ export default function SearchScreen() {
   const navigation = useNavigation<any>();
   const inputRef = useRef<TextInput>(null);
   const appColors = useAppColors();
+  const { openRepostMenu } = useRepost();
   
   const [query, setQuery] = useState('');
   const [activeTab, setActiveTab] = useState<TabType>('top');
@@ -272,6 +274,7 @@ export default function SearchScreen() {
                 onUserPress={() => handleUserPress(item.author.id)}
                 onVote={() => {}}
                 onBookmark={() => {}}
+                onRepost={() => openRepostMenu(item)}
                 onHashtagPress={handleHashtagPress}
               />
             )}
@@ -22,11 +22,13 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { ThemedText } from '@/components/ThemedText';
 import { Colors, Spacing, BorderRadius, Typography, Shadows } from '@/constants/theme';
 import { useAppColors } from '@/hooks/useAppColors';
+import { useRepost } from '@/hooks/useRepost';
 import { usersApi, feedApi } from '@/lib/api';
 import { User, Post } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { formatNumber } from '@/lib/utils';
 import PostCard from '@/components/PostCard';
+import { PinnedPostsSection } from '@/components/PinnedPosts';
 
 type UserProfileRouteParams = {
   UserProfile: {
@@ -43,6 +45,7 @@ export default function UserProfileScreen() {
   const { user: currentUser } = useAuth();
   const queryClient = useQueryClient();
   const appColors = useAppColors();
+  const { openRepostMenu } = useRepost();
 
   const [activeTab, setActiveTab] = useState<TabType>('posts');
 
@@ -257,6 +260,15 @@ export default function UserProfileScreen() {
             </TouchableOpacity>
           ))}
         </View>
+
+        {/* Pinned Posts */}
+        {activeTab === 'posts' && (
+          <PinnedPostsSection
+            userId={String(userId)}
+            isOwner={isOwnProfile}
+            renderPost={(post) => renderPost({ item: post as Post })}
+          />
+        )}
       </View>
     );
   };
@@ -268,6 +280,7 @@ export default function UserProfileScreen() {
       onUserPress={() => {}}
       onVote={() => {}}
       onBookmark={() => {}}
+      onRepost={() => openRepostMenu(item)}
     />
   );
 
@@ -72,4 +72,5 @@ export { default as ReportScreen } from './ReportScreen';
 export { default as SavedSearchesScreen } from './SavedSearchesScreen';
 export { default as AppearanceSettingsScreen } from './AppearanceSettingsScreen';
 export { default as DraftsScreen } from './DraftsScreen';
+export { default as ScheduledPostsScreen } from './ScheduledPostsScreen';
 export { default as EditPostScreen } from './EditPostScreen';
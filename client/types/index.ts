@@ -2,6 +2,9 @@
  * MedInvest Type Definitions
  */
 
+import type { ReactionCount, ReactionType } from '@/components/Reactions';
+import type { ScheduledPost } from '@/lib/api';
+
 // =============================================================================
 // USER TYPES
 // =============================================================================
@@ -55,23 +58,46 @@ export interface Post {
   video_url?: string;
   is_anonymous: boolean;
   anonymous_name?: string;
-  mentions: string[];
+  mentions: Mention[];
   hashtags: string[];
+  link_preview?: LinkPreview | null;
   upvotes: number;
   downvotes: number;
   comments_count: number;
   user_vote?: VoteDirection;
+  reactions?: ReactionCount[];
+  reactions_count?: number;
+  user_reaction?: ReactionType | null;
   is_bookmarked: boolean;
+  is_pinned?: boolean;
+  /** True for reposts and quotes; repost_of_id is null once the original is deleted */
+  is_repost?: boolean;
+  repost_of_id?: number | null;
+  repost_of?: Post | null;
+  reposts_count?: number;
+  is_reposted?: boolean;
   feed_score: number;
+  is_edited?: boolean;
+  edited_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/** A user mentioned in a post or comment, with the handle as it was written */
 export interface Mention {
   user_id: number;
   username: string;
-  start_index: number;
-  end_index: number;
+  start_index?: number;
+  end_index?: number;
+}
+
+/** OpenGraph card for the first link in a post or message */
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
 }
 
 export type VoteDirection = 'up' | 'down' | null;
@@ -82,12 +108,24 @@ export interface Comment {
   author: User;
   post_id: number;
   parent_id?: number | null;
-  upvotes: number;
-  downvotes: number;
-  user_vote?: VoteDirection;
+  depth: number;
+  likes_count: number;
+  is_liked: boolean;
+  reactions?: ReactionCount[];
+  reactions_count?: number;
+  user_reaction?: ReactionType | null;
   replies?: Comment[];
   replies_count: number;
+  has_more_replies: boolean;
+  replies_cursor: string | null;
+  can_reply: boolean;
+  mentions?: Mention[];
+  is_anonymous?: boolean;
+  is_deleted: boolean;
+  is_edited: boolean;
+  edited_at: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 export interface CreatePostData {
@@ -114,6 +152,12 @@ export interface Room {
   is_member: boolean;
   rules?: string[];
   moderators?: User[];
+  is_moderator?: boolean;
+  ban?: { reason: string; expires_at: string | null } | null;
+  visibility?: 'public' | 'private' | 'invite_only';
+  join_request_status?: 'pending' | 'declined' | null;
+  specialty?: string | null;
+  status?: 'pending' | 'active' | 'archived';
 }
 
 export const ROOM_CATEGORIES = [
@@ -176,12 +220,23 @@ export type NotificationType =
   | 'message'
   | 'ama_live'
   | 'deal_update'
+  | 'deal_interest'
+  | 'deal_interest_status'
   | 'achievement'
   | 'friend_request'
   | 'friend_accepted'
   | 'investment_update'
   | 'course_update'
   | 'event_reminder'
+  | 'poll_results'
+  | 'hashtag'
+  | 'scheduled_post'
+  | 'repost'
+  | 'room_moderation'
+  | 'room_join_request'
+  | 'room_join_approved'
+  | 'room_proposal'
+  | 'room_status'
   | 'system';
 
 export interface NotificationData {
@@ -194,6 +249,8 @@ export interface NotificationData {
   course_id?: number;
   event_id?: number;
   investment_id?: number;
+  room_slug?: string;
+  reason?: string;
 }
 
 // =============================================================================
@@ -213,6 +270,7 @@ export interface Message {
   id: number;
   conversation_id: number;
   content: string;
+  link_preview?: LinkPreview | null;
   sender: User;
   is_read: boolean;
   read_at?: string;
@@ -255,35 +313,38 @@ export interface AMAQuestion {
 export interface Deal {
   id: number;
   title: string;
-  company?: string;
   company_name: string;
-  company_logo?: string;
-  image_url?: string;
   description: string;
-  pitch_deck_url?: string;
-  target_raise: number;
-  raised: number;
+  sector: string;
+  stage: DealStage;
+  status: DealStatus;
   minimum_investment: number;
   maximum_investment?: number;
+  target_raise: number;
+  current_raise: number;
   valuation?: number;
   equity_offered?: number;
-  status: DealStatus;
-  deadline: string;
-  category: string;
-  stage?: string;
   highlights: string[];
-  risks?: string[];
-  team?: Array<{ name: string; role: string; background?: string }>;
-  documents?: Array<{ name: string; url: string }>;
+  risks: string[];
+  team: { name: string; role: string; background?: string }[];
+  logo_url?: string;
+  cover_image_url?: string;
+  documents?: { id: string; name: string; type: string; size_bytes: number | null; created_at: string }[];
+  nda_accepted?: boolean;
+  deadline?: string;
+  is_featured: boolean;
+  is_watching: boolean;
   investors_count: number;
-  featured?: boolean;
-  is_watched?: boolean;
-  is_invested?: boolean;
-  my_investment?: number;
-  created_at?: string;
+  sponsor: User | null;
+  can_manage: boolean;
+  published_at: string | null;
+  closed_at: string | null;
+  created_at: string;
 }
 
-export type DealStatus = 'draft' | 'review' | 'active' | 'funded' | 'closed' | 'rejected';
+export type DealStage = 'seed' | 'series_a' | 'series_b' | 'series_c' | 'growth' | 'pre_ipo';
+
+export type DealStatus = 'draft' | 'published' | 'closed';
 
 // Courses
 export interface Course {
@@ -427,16 +488,23 @@ export type RootStackParamList = {
   Main: undefined;
   Onboarding: undefined;
   PostDetail: { postId: number };
-  CreatePost: { roomSlug?: string };
+  CreatePost: { roomSlug?: string; scheduledPost?: ScheduledPost; quotePost?: Post };
   EditPost: { postId: number };
   UserProfile: { userId: number };
   EditProfile: undefined;
-  RoomDetail: { roomSlug: string };
+  // invite: the code from a room invite link
+  RoomDetail: { roomSlug: string; invite?: string };
+  RoomModeration: { roomSlug: string; roomName?: string; tab?: 'log' | 'bans' | 'access' };
+  RoomAnalytics: { roomSlug: string; roomName?: string };
+  RoomProposals: undefined;
+  ProposeRoom: undefined;
   Conversation: { userId: number };
   NewConversation: undefined;
   VoiceCall: { recipientId: string; recipientName: string; recipientAvatar?: string; callType: 'audio' | 'video' };
   AMADetail: { amaId: number };
   DealDetail: { dealId: number };
+  DealPipeline: { dealId: number; dealTitle?: string };
+  DealDataRoom: { dealId: number; dealTitle?: string };
   CourseDetail: { courseId: number };
   LessonDetail: { courseId: number; lessonId: number };
   LessonPlayer: { courseId: number; lessonId: number };
@@ -451,6 +519,7 @@ export type RootStackParamList = {
   Leaderboard: undefined;
   Achievements: undefined;
   Drafts: undefined;
+  ScheduledPosts: undefined;
   AIChat: undefined;
   ChangePassword: undefined;
   BlockedUsers: undefined;
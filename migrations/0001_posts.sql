@@ -0,0 +1,84 @@
+CREATE TYPE "public"."vote_direction" AS ENUM('up', 'down');--> statement-breakpoint
+ALTER TYPE "public"."auth_provider" ADD VALUE 'demo';--> statement-breakpoint
+ALTER TYPE "public"."auth_provider" ADD VALUE 'github';--> statement-breakpoint
+ALTER TYPE "public"."auth_provider" ADD VALUE 'facebook';--> statement-breakpoint
+CREATE TABLE "direct_messages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"conversation_id" uuid NOT NULL,
+	"sender_id" uuid NOT NULL,
+	"content" text NOT NULL,
+	"is_read" boolean DEFAULT false NOT NULL,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "dm_conversations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user1_id" uuid NOT NULL,
+	"user2_id" uuid NOT NULL,
+	"last_message_at" timestamp,
+	"last_message" text,
+	"user1_unread" integer DEFAULT 0 NOT NULL,
+	"user2_unread" integer DEFAULT 0 NOT NULL,
+	"user1_muted" boolean DEFAULT false NOT NULL,
+	"user2_muted" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "password_reset_tokens" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"token" varchar(64) NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "password_reset_tokens_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+CREATE TABLE "post_votes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"post_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"direction" "vote_direction" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "posts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"author_id" uuid NOT NULL,
+	"room_id" integer,
+	"content" text NOT NULL,
+	"images" text,
+	"video_url" text,
+	"hashtags" text,
+	"mentions" text,
+	"is_anonymous" boolean DEFAULT false NOT NULL,
+	"upvotes" integer DEFAULT 0 NOT NULL,
+	"downvotes" integer DEFAULT 0 NOT NULL,
+	"comments_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "direct_messages" ADD CONSTRAINT "direct_messages_conversation_id_dm_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."dm_conversations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "direct_messages" ADD CONSTRAINT "direct_messages_sender_id_users_id_fk" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dm_conversations" ADD CONSTRAINT "dm_conversations_user1_id_users_id_fk" FOREIGN KEY ("user1_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "dm_conversations" ADD CONSTRAINT "dm_conversations_user2_id_users_id_fk" FOREIGN KEY ("user2_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_votes" ADD CONSTRAINT "post_votes_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_votes" ADD CONSTRAINT "post_votes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "posts" ADD CONSTRAINT "posts_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "dm_conversation_idx" ON "direct_messages" USING btree ("conversation_id");--> statement-breakpoint
+CREATE INDEX "dm_sender_idx" ON "direct_messages" USING btree ("sender_id");--> statement-breakpoint
+CREATE INDEX "dm_created_at_idx" ON "direct_messages" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "dm_conv_user1_idx" ON "dm_conversations" USING btree ("user1_id");--> statement-breakpoint
+CREATE INDEX "dm_conv_user2_idx" ON "dm_conversations" USING btree ("user2_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "dm_conv_users_idx" ON "dm_conversations" USING btree ("user1_id","user2_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "password_reset_token_idx" ON "password_reset_tokens" USING btree ("token");--> statement-breakpoint
+CREATE INDEX "password_reset_user_id_idx" ON "password_reset_tokens" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "post_votes_post_id_idx" ON "post_votes" USING btree ("post_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "post_votes_user_post_idx" ON "post_votes" USING btree ("user_id","post_id");--> statement-breakpoint
+CREATE INDEX "posts_author_id_idx" ON "posts" USING btree ("author_id");--> statement-breakpoint
+CREATE INDEX "posts_room_id_idx" ON "posts" USING btree ("room_id");--> statement-breakpoint
+CREATE INDEX "posts_created_at_idx" ON "posts" USING btree ("created_at","id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "hashtag_usages" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tag" varchar(100) NOT NULL,
+	"post_id" uuid NOT NULL,
+	"comment_id" uuid,
+	"room_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "hashtag_usages" ADD CONSTRAINT "hashtag_usages_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "hashtag_usages_created_at_idx" ON "hashtag_usages" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "hashtag_usages_room_created_at_idx" ON "hashtag_usages" USING btree ("room_id","created_at");--> statement-breakpoint
+CREATE INDEX "hashtag_usages_post_id_idx" ON "hashtag_usages" USING btree ("post_id");
\ No newline at end of file
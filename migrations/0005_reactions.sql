@@ -0,0 +1,29 @@
+CREATE TYPE "public"."reaction_type" AS ENUM('like', 'love', 'laugh', 'wow', 'sad', 'fire', 'thinking', 'clap');--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'like';--> statement-breakpoint
+CREATE TABLE "comment_reactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"comment_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" "reaction_type" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "post_reactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"post_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" "reaction_type" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "comment_reactions" ADD CONSTRAINT "comment_reactions_comment_id_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."comments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comment_reactions" ADD CONSTRAINT "comment_reactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_reactions" ADD CONSTRAINT "post_reactions_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_reactions" ADD CONSTRAINT "post_reactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "comment_reactions_comment_id_idx" ON "comment_reactions" USING btree ("comment_id","type");--> statement-breakpoint
+CREATE UNIQUE INDEX "comment_reactions_user_comment_idx" ON "comment_reactions" USING btree ("user_id","comment_id");--> statement-breakpoint
+CREATE INDEX "post_reactions_post_id_idx" ON "post_reactions" USING btree ("post_id","type");--> statement-breakpoint
+CREATE UNIQUE INDEX "post_reactions_user_post_idx" ON "post_reactions" USING btree ("user_id","post_id");--> statement-breakpoint
+INSERT INTO "comment_reactions" ("comment_id", "user_id", "type", "created_at") SELECT "comment_id", "user_id", 'like', "created_at" FROM "comment_likes";--> statement-breakpoint
+DROP TABLE "comment_likes" CASCADE;--> statement-breakpoint
+ALTER TABLE "comments" DROP COLUMN "likes_count";
\ No newline at end of file
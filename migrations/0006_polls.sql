@@ -0,0 +1,48 @@
+CREATE TYPE "public"."poll_duration" AS ENUM('1day', '3days', '7days', 'none');--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'poll_results';--> statement-breakpoint
+CREATE TABLE "poll_options" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"poll_id" uuid NOT NULL,
+	"text" varchar(50) NOT NULL,
+	"position" integer NOT NULL,
+	"votes_count" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "poll_vote_options" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"vote_id" uuid NOT NULL,
+	"option_id" uuid NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "poll_votes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"poll_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "polls" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"post_id" uuid NOT NULL,
+	"question" varchar(150) NOT NULL,
+	"duration" "poll_duration" DEFAULT 'none' NOT NULL,
+	"allow_multiple" boolean DEFAULT false NOT NULL,
+	"is_anonymous" boolean DEFAULT false NOT NULL,
+	"votes_count" integer DEFAULT 0 NOT NULL,
+	"ends_at" timestamp,
+	"results_notified_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "polls_post_id_unique" UNIQUE("post_id")
+);
+--> statement-breakpoint
+ALTER TABLE "poll_options" ADD CONSTRAINT "poll_options_poll_id_polls_id_fk" FOREIGN KEY ("poll_id") REFERENCES "public"."polls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "poll_vote_options" ADD CONSTRAINT "poll_vote_options_vote_id_poll_votes_id_fk" FOREIGN KEY ("vote_id") REFERENCES "public"."poll_votes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "poll_vote_options" ADD CONSTRAINT "poll_vote_options_option_id_poll_options_id_fk" FOREIGN KEY ("option_id") REFERENCES "public"."poll_options"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_poll_id_polls_id_fk" FOREIGN KEY ("poll_id") REFERENCES "public"."polls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "polls" ADD CONSTRAINT "polls_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "poll_options_poll_id_idx" ON "poll_options" USING btree ("poll_id","position");--> statement-breakpoint
+CREATE UNIQUE INDEX "poll_vote_options_vote_option_idx" ON "poll_vote_options" USING btree ("vote_id","option_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "poll_votes_user_poll_idx" ON "poll_votes" USING btree ("user_id","poll_id");--> statement-breakpoint
+CREATE INDEX "poll_votes_poll_id_idx" ON "poll_votes" USING btree ("poll_id");--> statement-breakpoint
+CREATE INDEX "polls_ends_at_idx" ON "polls" USING btree ("ends_at");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."media_kind" AS ENUM('image', 'video');--> statement-breakpoint
+CREATE TABLE "media_uploads" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" uuid NOT NULL,
+	"kind" "media_kind" NOT NULL,
+	"mime_type" varchar(100) NOT NULL,
+	"storage_key" text NOT NULL,
+	"url" text NOT NULL,
+	"thumbnail_key" text,
+	"thumbnail_url" text,
+	"blurhash" varchar(100),
+	"width" integer,
+	"height" integer,
+	"size_bytes" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "media_uploads" ADD CONSTRAINT "media_uploads_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "media_uploads_owner_id_idx" ON "media_uploads" USING btree ("owner_id");--> statement-breakpoint
+CREATE INDEX "media_uploads_url_idx" ON "media_uploads" USING btree ("url");
\ No newline at end of file
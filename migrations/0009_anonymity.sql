@@ -0,0 +1,29 @@
+CREATE TABLE "anonymity_reveals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"moderator_id" uuid,
+	"author_id" uuid,
+	"post_id" uuid,
+	"comment_id" uuid,
+	"reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "anonymous_identities" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"post_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"pseudonym" varchar(60) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "is_anonymous" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "anonymity_reveals" ADD CONSTRAINT "anonymity_reveals_moderator_id_users_id_fk" FOREIGN KEY ("moderator_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "anonymity_reveals" ADD CONSTRAINT "anonymity_reveals_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "anonymity_reveals" ADD CONSTRAINT "anonymity_reveals_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "anonymity_reveals" ADD CONSTRAINT "anonymity_reveals_comment_id_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."comments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "anonymous_identities" ADD CONSTRAINT "anonymous_identities_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "anonymous_identities" ADD CONSTRAINT "anonymous_identities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "anonymity_reveals_created_at_idx" ON "anonymity_reveals" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "anonymity_reveals_author_id_idx" ON "anonymity_reveals" USING btree ("author_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "anonymous_identities_post_user_idx" ON "anonymous_identities" USING btree ("post_id","user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "anonymous_identities_post_pseudonym_idx" ON "anonymous_identities" USING btree ("post_id","pseudonym");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "pinned_posts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"post_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pinned_posts" ADD CONSTRAINT "pinned_posts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pinned_posts" ADD CONSTRAINT "pinned_posts_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "pinned_posts_user_post_idx" ON "pinned_posts" USING btree ("user_id","post_id");--> statement-breakpoint
+CREATE INDEX "pinned_posts_user_position_idx" ON "pinned_posts" USING btree ("user_id","position");
\ No newline at end of file
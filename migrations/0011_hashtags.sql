@@ -0,0 +1,21 @@
+ALTER TYPE "public"."notification_type" ADD VALUE 'hashtag';--> statement-breakpoint
+CREATE TABLE "hashtag_follows" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"hashtag_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "hashtags" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tag" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "hashtags_tag_unique" UNIQUE("tag")
+);
+--> statement-breakpoint
+INSERT INTO "hashtags" ("tag", "created_at") SELECT "tag", min("created_at") FROM "hashtag_usages" GROUP BY "tag";--> statement-breakpoint
+ALTER TABLE "hashtag_follows" ADD CONSTRAINT "hashtag_follows_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hashtag_follows" ADD CONSTRAINT "hashtag_follows_hashtag_id_hashtags_id_fk" FOREIGN KEY ("hashtag_id") REFERENCES "public"."hashtags"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "hashtag_follows_user_hashtag_idx" ON "hashtag_follows" USING btree ("user_id","hashtag_id");--> statement-breakpoint
+CREATE INDEX "hashtag_follows_hashtag_id_idx" ON "hashtag_follows" USING btree ("hashtag_id");--> statement-breakpoint
+CREATE INDEX "hashtag_usages_tag_created_at_idx" ON "hashtag_usages" USING btree ("tag","created_at");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TYPE "public"."scheduled_post_status" AS ENUM('scheduled', 'published', 'cancelled', 'failed');--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'scheduled_post';--> statement-breakpoint
+CREATE TABLE "scheduled_posts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"author_id" uuid NOT NULL,
+	"room_id" integer,
+	"content" text NOT NULL,
+	"images" text,
+	"video_url" text,
+	"poll" text,
+	"is_anonymous" boolean DEFAULT false NOT NULL,
+	"scheduled_at" timestamp NOT NULL,
+	"status" "scheduled_post_status" DEFAULT 'scheduled' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"failure_reason" text,
+	"post_id" uuid,
+	"published_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD CONSTRAINT "scheduled_posts_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD CONSTRAINT "scheduled_posts_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scheduled_posts_due_idx" ON "scheduled_posts" USING btree ("status","scheduled_at");--> statement-breakpoint
+CREATE INDEX "scheduled_posts_author_idx" ON "scheduled_posts" USING btree ("author_id","scheduled_at");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "link_previews" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"url" text NOT NULL,
+	"final_url" text,
+	"title" varchar(300),
+	"description" text,
+	"image_url" text,
+	"site_name" varchar(200),
+	"failed" boolean DEFAULT false NOT NULL,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "link_previews_url_idx" ON "link_previews" USING btree ("url");
\ No newline at end of file
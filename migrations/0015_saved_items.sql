@@ -0,0 +1,34 @@
+CREATE TYPE "public"."saved_item_type" AS ENUM('post', 'article', 'deal', 'investment');--> statement-breakpoint
+CREATE TABLE "saved_collections" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(60) NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "saved_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"item_type" "saved_item_type" NOT NULL,
+	"item_id" varchar(64) NOT NULL,
+	"collection_id" uuid,
+	"note" text,
+	"position" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO "saved_items" ("user_id", "item_type", "item_id", "position", "created_at", "updated_at")
+SELECT "user_id", 'article', "article_id"::text, row_number() OVER (PARTITION BY "user_id" ORDER BY "created_at", "id"), "created_at", "created_at"
+FROM "article_bookmarks";--> statement-breakpoint
+DROP TABLE "article_bookmarks" CASCADE;--> statement-breakpoint
+ALTER TABLE "saved_collections" ADD CONSTRAINT "saved_collections_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_items" ADD CONSTRAINT "saved_items_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_items" ADD CONSTRAINT "saved_items_collection_id_saved_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."saved_collections"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "saved_collections_user_position_idx" ON "saved_collections" USING btree ("user_id","position");--> statement-breakpoint
+CREATE UNIQUE INDEX "saved_collections_user_name_idx" ON "saved_collections" USING btree ("user_id","name");--> statement-breakpoint
+CREATE UNIQUE INDEX "saved_items_user_item_idx" ON "saved_items" USING btree ("user_id","item_type","item_id");--> statement-breakpoint
+CREATE INDEX "saved_items_user_position_idx" ON "saved_items" USING btree ("user_id","position");--> statement-breakpoint
+CREATE INDEX "saved_items_collection_position_idx" ON "saved_items" USING btree ("collection_id","position");
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TYPE "public"."notification_type" ADD VALUE 'repost';--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "repost_of_id" uuid;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "is_repost" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "reposts_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "posts" ADD CONSTRAINT "posts_repost_of_id_posts_id_fk" FOREIGN KEY ("repost_of_id") REFERENCES "public"."posts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "posts_repost_of_id_idx" ON "posts" USING btree ("repost_of_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "posts_plain_repost_idx" ON "posts" USING btree ("author_id","repost_of_id") WHERE "posts"."content" = '';
\ No newline at end of file
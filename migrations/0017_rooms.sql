@@ -0,0 +1,40 @@
+CREATE TYPE "public"."room_role" AS ENUM('member', 'moderator');--> statement-breakpoint
+CREATE TABLE "room_memberships" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" "room_role" DEFAULT 'member' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "rooms" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"slug" varchar(60) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text NOT NULL,
+	"icon" varchar(50) NOT NULL,
+	"color" varchar(7) NOT NULL,
+	"rules" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "rooms_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+INSERT INTO "rooms" ("id", "slug", "name", "description", "icon", "color", "rules") VALUES
+(1, 'cardiology', 'Cardiology', 'Heart health and cardiovascular innovations. Discuss the latest in cardiac care, devices, and treatment methodologies.', 'heart', '#EF4444', '["Be respectful", "No promotional content", "Cite sources"]'),
+(2, 'oncology', 'Oncology', 'Cancer research and treatment advances. Share insights on immunotherapy, targeted treatments, and clinical trials.', 'activity', '#8B5CF6', '["Evidence-based discussion only", "Patient privacy first", "No misinformation"]'),
+(3, 'neurology', 'Neurology', 'Brain and nervous system innovations. Explore neurodegenerative diseases, brain-computer interfaces, and neurological research.', 'cpu', '#3B82F6', '["Scientific rigor required", "Respectful debate", "No personal attacks"]'),
+(4, 'digital-health', 'Digital Health', 'Health tech and digital therapeutics. Discuss telemedicine, wearables, health apps, and the future of connected healthcare.', 'smartphone', '#10B981', '["Share insights openly", "Disclose conflicts of interest", "Focus on patient outcomes"]'),
+(5, 'biotech', 'Biotech', 'Biotechnology breakthroughs. Gene therapy, CRISPR, cell therapies, and the cutting edge of biological science.', 'flask-conical', '#F59E0B', '["Technical accuracy matters", "Respect IP boundaries", "Encourage collaboration"]'),
+(6, 'medical-devices', 'Medical Devices', 'Innovative medical equipment. Discuss regulatory pathways, device development, and breakthrough technologies.', 'stethoscope', '#06B6D4', '["Focus on innovation", "Respect regulatory processes", "Share case studies"]'),
+(7, 'pharma', 'Pharmaceuticals', 'Drug development and pharmaceutical innovations. Clinical trials, drug approvals, and market dynamics.', 'pill', '#EC4899', '["Disclosure required", "Evidence-based claims", "Patient safety first"]'),
+(8, 'healthcare-ai', 'Healthcare AI', 'Artificial intelligence in medicine. Machine learning diagnostics, predictive analytics, and AI-assisted care.', 'brain', '#6366F1', '["Explain algorithms clearly", "Address bias concerns", "Focus on clinical utility"]');--> statement-breakpoint
+SELECT setval(pg_get_serial_sequence('rooms', 'id'), (SELECT max("id") FROM "rooms"));--> statement-breakpoint
+UPDATE "posts" SET "room_id" = NULL WHERE "room_id" IS NOT NULL AND "room_id" NOT IN (SELECT "id" FROM "rooms");--> statement-breakpoint
+UPDATE "scheduled_posts" SET "room_id" = NULL WHERE "room_id" IS NOT NULL AND "room_id" NOT IN (SELECT "id" FROM "rooms");--> statement-breakpoint
+ALTER TABLE "room_memberships" ADD CONSTRAINT "room_memberships_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_memberships" ADD CONSTRAINT "room_memberships_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "room_memberships_room_user_idx" ON "room_memberships" USING btree ("room_id","user_id");--> statement-breakpoint
+CREATE INDEX "room_memberships_user_idx" ON "room_memberships" USING btree ("user_id","created_at");--> statement-breakpoint
+ALTER TABLE "posts" ADD CONSTRAINT "posts_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_posts" ADD CONSTRAINT "scheduled_posts_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
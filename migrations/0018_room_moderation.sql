@@ -0,0 +1,47 @@
+CREATE TYPE "public"."room_moderation_action" AS ENUM('remove_post', 'remove_comment', 'ban', 'unban', 'pin', 'unpin', 'add_moderator', 'remove_moderator');--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'room_moderation';--> statement-breakpoint
+CREATE TABLE "room_bans" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"moderator_id" uuid,
+	"reason" text NOT NULL,
+	"expires_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "room_moderation_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" integer NOT NULL,
+	"moderator_id" uuid,
+	"action" "room_moderation_action" NOT NULL,
+	"target_user_id" uuid,
+	"post_id" uuid,
+	"comment_id" uuid,
+	"reason" text,
+	"excerpt" text,
+	"expires_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "room_pinned_posts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" integer NOT NULL,
+	"post_id" uuid NOT NULL,
+	"pinned_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "room_memberships" ADD COLUMN "rules_accepted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "room_bans" ADD CONSTRAINT "room_bans_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_bans" ADD CONSTRAINT "room_bans_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_bans" ADD CONSTRAINT "room_bans_moderator_id_users_id_fk" FOREIGN KEY ("moderator_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_moderation_log" ADD CONSTRAINT "room_moderation_log_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_moderation_log" ADD CONSTRAINT "room_moderation_log_moderator_id_users_id_fk" FOREIGN KEY ("moderator_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_moderation_log" ADD CONSTRAINT "room_moderation_log_target_user_id_users_id_fk" FOREIGN KEY ("target_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_pinned_posts" ADD CONSTRAINT "room_pinned_posts_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_pinned_posts" ADD CONSTRAINT "room_pinned_posts_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_pinned_posts" ADD CONSTRAINT "room_pinned_posts_pinned_by_users_id_fk" FOREIGN KEY ("pinned_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "room_bans_room_user_idx" ON "room_bans" USING btree ("room_id","user_id");--> statement-breakpoint
+CREATE INDEX "room_moderation_log_room_created_at_idx" ON "room_moderation_log" USING btree ("room_id","created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "room_pinned_posts_room_post_idx" ON "room_pinned_posts" USING btree ("room_id","post_id");
\ No newline at end of file
@@ -0,0 +1,42 @@
+CREATE TYPE "public"."room_join_request_status" AS ENUM('pending', 'approved', 'declined');--> statement-breakpoint
+CREATE TYPE "public"."room_visibility" AS ENUM('public', 'private', 'invite_only');--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'room_join_request';--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'room_join_approved';--> statement-breakpoint
+ALTER TYPE "public"."room_moderation_action" ADD VALUE 'approve_join';--> statement-breakpoint
+ALTER TYPE "public"."room_moderation_action" ADD VALUE 'decline_join';--> statement-breakpoint
+ALTER TYPE "public"."room_moderation_action" ADD VALUE 'create_invite';--> statement-breakpoint
+ALTER TYPE "public"."room_moderation_action" ADD VALUE 'revoke_invite';--> statement-breakpoint
+ALTER TYPE "public"."room_moderation_action" ADD VALUE 'change_visibility';--> statement-breakpoint
+CREATE TABLE "room_invites" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" integer NOT NULL,
+	"code" varchar(32) NOT NULL,
+	"created_by" uuid,
+	"max_uses" integer,
+	"uses_count" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "room_invites_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "room_join_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"status" "room_join_request_status" DEFAULT 'pending' NOT NULL,
+	"message" text,
+	"reviewed_by" uuid,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "visibility" "room_visibility" DEFAULT 'public' NOT NULL;--> statement-breakpoint
+ALTER TABLE "room_invites" ADD CONSTRAINT "room_invites_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_invites" ADD CONSTRAINT "room_invites_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_join_requests" ADD CONSTRAINT "room_join_requests_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_join_requests" ADD CONSTRAINT "room_join_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_join_requests" ADD CONSTRAINT "room_join_requests_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "room_invites_room_idx" ON "room_invites" USING btree ("room_id","created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "room_join_requests_room_user_idx" ON "room_join_requests" USING btree ("room_id","user_id");--> statement-breakpoint
+CREATE INDEX "room_join_requests_room_status_idx" ON "room_join_requests" USING btree ("room_id","status","created_at");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TYPE "public"."room_status" AS ENUM('pending', 'active', 'archived');--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'room_proposal';--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'room_status';--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "specialty" varchar(50);--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "status" "room_status" DEFAULT 'active' NOT NULL;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "created_by" uuid;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "reviewed_by" uuid;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "activated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "archived_at" timestamp;--> statement-breakpoint
+ALTER TABLE "rooms" ADD CONSTRAINT "rooms_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rooms" ADD CONSTRAINT "rooms_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "rooms_name_lower_idx" ON "rooms" USING btree (lower("name"));--> statement-breakpoint
+CREATE INDEX "rooms_status_idx" ON "rooms" USING btree ("status","created_at");--> statement-breakpoint
+UPDATE "rooms" SET "specialty" = 'Cardiology' WHERE "slug" = 'cardiology';--> statement-breakpoint
+UPDATE "rooms" SET "specialty" = 'Oncology' WHERE "slug" = 'oncology';--> statement-breakpoint
+UPDATE "rooms" SET "specialty" = 'Neurology' WHERE "slug" = 'neurology';
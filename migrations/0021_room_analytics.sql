@@ -0,0 +1,30 @@
+CREATE TYPE "public"."report_reason" AS ENUM('spam', 'harassment', 'hate_speech', 'misinformation', 'inappropriate', 'violence', 'self_harm', 'other');--> statement-breakpoint
+CREATE TYPE "public"."report_target_type" AS ENUM('user', 'post', 'comment', 'message');--> statement-breakpoint
+CREATE TYPE "public"."room_membership_event_type" AS ENUM('join', 'leave');--> statement-breakpoint
+CREATE TABLE "reports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reporter_id" uuid NOT NULL,
+	"target_type" "report_target_type" NOT NULL,
+	"target_id" uuid NOT NULL,
+	"room_id" integer,
+	"reason" "report_reason" NOT NULL,
+	"details" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "room_membership_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" "room_membership_event_type" NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "reports" ADD CONSTRAINT "reports_reporter_id_users_id_fk" FOREIGN KEY ("reporter_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reports" ADD CONSTRAINT "reports_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_membership_events" ADD CONSTRAINT "room_membership_events_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_membership_events" ADD CONSTRAINT "room_membership_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "reports_reporter_target_idx" ON "reports" USING btree ("reporter_id","target_type","target_id");--> statement-breakpoint
+CREATE INDEX "reports_room_created_at_idx" ON "reports" USING btree ("room_id","created_at");--> statement-breakpoint
+CREATE INDEX "room_membership_events_room_created_at_idx" ON "room_membership_events" USING btree ("room_id","created_at");--> statement-breakpoint
+INSERT INTO "room_membership_events" ("room_id", "user_id", "type", "created_at") SELECT "room_id", "user_id", 'join', "created_at" FROM "room_memberships";
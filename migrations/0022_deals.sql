@@ -0,0 +1,73 @@
+CREATE TYPE "public"."deal_stage" AS ENUM('seed', 'series_a', 'series_b', 'series_c', 'growth', 'pre_ipo');--> statement-breakpoint
+CREATE TYPE "public"."deal_status" AS ENUM('draft', 'published', 'closed');--> statement-breakpoint
+CREATE TABLE "deal_documents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" integer NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"type" varchar(50) NOT NULL,
+	"url" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "deal_watchers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "deals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sponsor_id" uuid,
+	"title" varchar(150) NOT NULL,
+	"company_name" varchar(150) NOT NULL,
+	"description" text NOT NULL,
+	"sector" varchar(50) NOT NULL,
+	"stage" "deal_stage" NOT NULL,
+	"status" "deal_status" DEFAULT 'draft' NOT NULL,
+	"target_raise" numeric(15, 2) NOT NULL,
+	"current_raise" numeric(15, 2) DEFAULT '0' NOT NULL,
+	"minimum_investment" numeric(15, 2) NOT NULL,
+	"maximum_investment" numeric(15, 2),
+	"valuation" numeric(15, 2),
+	"equity_offered" numeric(5, 2),
+	"investors_count" integer DEFAULT 0 NOT NULL,
+	"highlights" text,
+	"risks" text,
+	"team" text,
+	"logo_url" text,
+	"cover_image_url" text,
+	"is_featured" boolean DEFAULT false NOT NULL,
+	"deadline" timestamp NOT NULL,
+	"published_at" timestamp,
+	"closed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "is_sponsor" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "deal_documents" ADD CONSTRAINT "deal_documents_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_watchers" ADD CONSTRAINT "deal_watchers_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_watchers" ADD CONSTRAINT "deal_watchers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deals" ADD CONSTRAINT "deals_sponsor_id_users_id_fk" FOREIGN KEY ("sponsor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "deal_documents_deal_id_idx" ON "deal_documents" USING btree ("deal_id","created_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "deal_watchers_deal_user_idx" ON "deal_watchers" USING btree ("deal_id","user_id");--> statement-breakpoint
+CREATE INDEX "deal_watchers_user_id_idx" ON "deal_watchers" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "deals_status_published_at_idx" ON "deals" USING btree ("status","published_at");--> statement-breakpoint
+CREATE INDEX "deals_status_deadline_idx" ON "deals" USING btree ("status","deadline");--> statement-breakpoint
+CREATE INDEX "deals_sponsor_id_idx" ON "deals" USING btree ("sponsor_id","created_at");--> statement-breakpoint
+INSERT INTO "deals" ("id", "title", "company_name", "description", "sector", "stage", "status", "target_raise", "current_raise", "minimum_investment", "maximum_investment", "valuation", "equity_offered", "investors_count", "highlights", "risks", "team", "is_featured", "deadline", "published_at", "created_at") VALUES
+(1, 'CardioTech Innovations Series B', 'CardioTech Innovations', 'Revolutionary AI-powered cardiac monitoring platform that enables real-time detection of arrhythmias and heart conditions. FDA-cleared device with proven clinical outcomes.', 'Medical Devices', 'series_b', 'published', 15000000, 8500000, 5000, 500000, 75000000, 20, 234, '["FDA 510(k) cleared", "50+ hospital partnerships", "$2.1M ARR with 40% MoM growth", "Experienced founding team from Medtronic"]', '["Regulatory uncertainty in new markets", "Competition from established players", "Hardware manufacturing challenges"]', '[{"name": "Dr. Sarah Chen", "role": "CEO", "background": "Former Medtronic VP"}, {"name": "Michael Roberts", "role": "CTO", "background": "MIT PhD, 15 patents"}]', true, now() + interval '30 days', now() - interval '14 days', now() - interval '14 days'),
+(2, 'GenomeRx Seed Round', 'GenomeRx', 'Pioneering personalized medicine through advanced genomic analysis. Our platform enables physicians to prescribe the right medication at the right dose based on genetic profiles.', 'Biotech', 'seed', 'published', 5000000, 3200000, 2500, 250000, 20000000, 25, 156, '["Patented genomic analysis technology", "Partnership with 3 major health systems", "CLIA-certified laboratory", "Published research in Nature Medicine"]', '["Long sales cycle with health systems", "Insurance reimbursement challenges", "Technology obsolescence risk"]', '[{"name": "Dr. Emily Thompson", "role": "CEO", "background": "Harvard Medical School faculty"}, {"name": "James Wilson", "role": "CSO", "background": "Stanford PhD, genomics pioneer"}]', true, now() + interval '45 days', now() - interval '7 days', now() - interval '7 days'),
+(3, 'MindWell Digital Therapeutics Pre-Series A', 'MindWell Health', 'FDA-authorized digital therapeutic for anxiety and depression. Prescription-based app with proven clinical efficacy and reimbursement pathways.', 'Digital Health', 'seed', 'published', 8000000, 2100000, 3000, 300000, 35000000, 23, 89, '["FDA De Novo authorized", "CPT codes secured for reimbursement", "15,000+ prescriptions written", "Clinical outcomes exceed SSRIs"]', '["Patient engagement challenges", "Physician adoption barriers", "Competition from wellness apps"]', '[{"name": "Dr. Lisa Park", "role": "CEO", "background": "Psychiatrist, Stanford Health"}, {"name": "Alex Kim", "role": "CTO", "background": "Ex-Google Health engineer"}]', false, now() + interval '60 days', now() - interval '21 days', now() - interval '21 days'),
+(4, 'NeuraScan AI Series A', 'NeuraScan AI', 'AI-powered medical imaging analysis for early detection of neurological conditions. Our algorithms detect Alzheimer''s and Parkinson''s years before symptoms appear.', 'Diagnostics', 'series_a', 'published', 12000000, 9800000, 10000, 1000000, 60000000, 20, 178, '["95% accuracy in early detection", "Integration with major PACS systems", "Published in JAMA Neurology", "Contracts with 25 imaging centers"]', '["Regulatory approval timeline", "Competition from radiology giants", "Data privacy concerns"]', '[{"name": "Dr. Mark Johnson", "role": "CEO", "background": "Neurologist, Mayo Clinic"}, {"name": "Rachel Green", "role": "CTO", "background": "DeepMind alumna"}]', true, now() + interval '15 days', now() - interval '5 days', now() - interval '5 days');--> statement-breakpoint
+SELECT setval(pg_get_serial_sequence('deals', 'id'), (SELECT max("id") FROM "deals"));--> statement-breakpoint
+INSERT INTO "deal_documents" ("deal_id", "name", "type", "url") VALUES
+(1, 'Pitch Deck', 'pdf', '/docs/pitch.pdf'),
+(1, 'Financial Model', 'xlsx', '/docs/financials.xlsx'),
+(2, 'Pitch Deck', 'pdf', '/docs/pitch.pdf'),
+(2, 'Technical Overview', 'pdf', '/docs/tech.pdf'),
+(3, 'Pitch Deck', 'pdf', '/docs/pitch.pdf'),
+(3, 'Clinical Study Results', 'pdf', '/docs/clinical.pdf'),
+(4, 'Pitch Deck', 'pdf', '/docs/pitch.pdf'),
+(4, 'AI Performance Metrics', 'pdf', '/docs/ai-metrics.pdf');
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."deal_alert_delivery" AS ENUM('instant', 'daily');--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'deal_update';--> statement-breakpoint
+CREATE TABLE "queued_deal_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"deal_id" integer NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "funding_alert_percent" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "deadline_alerted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "deal_alert_delivery" "deal_alert_delivery" DEFAULT 'instant' NOT NULL;--> statement-breakpoint
+ALTER TABLE "queued_deal_alerts" ADD CONSTRAINT "queued_deal_alerts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "queued_deal_alerts" ADD CONSTRAINT "queued_deal_alerts_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "queued_deal_alerts_user_created_at_idx" ON "queued_deal_alerts" USING btree ("user_id","created_at");--> statement-breakpoint
+UPDATE "deals" SET "funding_alert_percent" = least(100, floor("current_raise" * 4 / "target_raise") * 25)::int WHERE "target_raise" > 0;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TYPE "public"."deal_contact_preference" AS ENUM('email', 'phone', 'message');--> statement-breakpoint
+CREATE TYPE "public"."deal_interest_status" AS ENUM('new', 'contacted', 'committed', 'declined');--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'deal_interest';--> statement-breakpoint
+ALTER TYPE "public"."notification_type" ADD VALUE 'deal_interest_status';--> statement-breakpoint
+CREATE TABLE "deal_interests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"amount" numeric(15, 2),
+	"message" text,
+	"contact_preference" "deal_contact_preference" DEFAULT 'email' NOT NULL,
+	"status" "deal_interest_status" DEFAULT 'new' NOT NULL,
+	"status_changed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "deal_interests" ADD CONSTRAINT "deal_interests_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_interests" ADD CONSTRAINT "deal_interests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "deal_interests_deal_user_idx" ON "deal_interests" USING btree ("deal_id","user_id");--> statement-breakpoint
+CREATE INDEX "deal_interests_deal_status_idx" ON "deal_interests" USING btree ("deal_id","status","created_at");--> statement-breakpoint
+CREATE INDEX "deal_interests_user_id_idx" ON "deal_interests" USING btree ("user_id");
\ No newline at end of file
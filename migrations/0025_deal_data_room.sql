@@ -0,0 +1,31 @@
+CREATE TABLE "deal_document_views" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"document_id" uuid NOT NULL,
+	"deal_id" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"viewed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "deal_nda_acceptances" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"nda_version" integer NOT NULL,
+	"ip_address" varchar(45),
+	"accepted_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "deal_documents" ALTER COLUMN "url" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "deal_documents" ADD COLUMN "storage_key" text;--> statement-breakpoint
+ALTER TABLE "deal_documents" ADD COLUMN "mime_type" varchar(100);--> statement-breakpoint
+ALTER TABLE "deal_documents" ADD COLUMN "size_bytes" integer;--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "nda_text" text;--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "nda_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "deal_document_views" ADD CONSTRAINT "deal_document_views_document_id_deal_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."deal_documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_document_views" ADD CONSTRAINT "deal_document_views_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_document_views" ADD CONSTRAINT "deal_document_views_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_nda_acceptances" ADD CONSTRAINT "deal_nda_acceptances_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_nda_acceptances" ADD CONSTRAINT "deal_nda_acceptances_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "deal_document_views_deal_viewed_at_idx" ON "deal_document_views" USING btree ("deal_id","viewed_at");--> statement-breakpoint
+CREATE INDEX "deal_document_views_document_id_idx" ON "deal_document_views" USING btree ("document_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "deal_nda_acceptances_deal_user_version_idx" ON "deal_nda_acceptances" USING btree ("deal_id","user_id","nda_version");
\ No newline at end of file
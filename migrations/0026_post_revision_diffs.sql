@@ -0,0 +1 @@
+ALTER TABLE "post_revisions" ADD COLUMN "diff" text;
\ No newline at end of file
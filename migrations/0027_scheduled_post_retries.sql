@@ -0,0 +1 @@
+ALTER TABLE "scheduled_posts" ADD COLUMN "next_attempt_at" timestamp;
\ No newline at end of file
@@ -9,14 +9,44 @@ import type {
   User,
   UserProfile,
   Post,
+  ScheduledPost,
+  ScheduledPostStatus,
   Comment,
+  JoinRoomResult,
   Room,
+  RoomAnalytics,
+  RoomAnalyticsPeriod,
+  RoomBan,
+  RoomFeed,
+  RoomInvite,
+  RoomJoinRequest,
+  RoomModerationLogEntry,
+  RoomSpecialty,
+  RoomVisibility,
   Conversation,
   Message,
+  LinkPreview,
+  SavedItem,
+  SavedItemPage,
+  SavedItemType,
+  SavedCollection,
+  SavedCollectionsResponse,
   Notification,
   Deal,
+  DealAlertDelivery,
+  DealDataRoomActivity,
+  DealDocument,
+  DealDocumentLink,
+  DealInterest,
+  DealInterestStatus,
+  DealNda,
+  DealPipeline,
+  DealSector,
+  DealStage,
+  DealWatchlist,
   SearchResults,
   SearchFilters,
+  HashtagFeed,
   PaginatedResponse,
   LoginRequest,
   LoginResponse,
@@ -29,12 +59,30 @@ import type {
 import type {
   CreatePostInput,
   UpdatePostInput,
+  SchedulePostInput,
+  UpdateScheduledPostInput,
+  ReorderPinnedPostsInput,
+  RepostInput,
+  SaveItemInput,
+  UpdateSavedItemInput,
   CreateCommentInput,
   SendMessageInput,
   MuteUserInput,
+  CreateRoomInput,
+  DeclineRoomInput,
+  JoinRoomInput,
+  UpdateRoomInput,
+  RoomInviteInput,
+  RoomRemovalInput,
+  RoomBanInput,
   CreateReportInput,
   UpdateProfileInput,
   ChangePasswordInput,
+  CreateDealInput,
+  UpdateDealInput,
+  DealDocumentViewsFilterInput,
+  DealFilterInput,
+  DealInterestFilterInput,
   ExpressInterestInput,
 } from '../validators';
 
@@ -102,8 +150,10 @@ export class ApiClient {
     options: RequestOptions = {}
   ): Promise<T> {
     const url = `${this.config.baseUrl}${path}`;
+    // Uploads set their own multipart content type
+    const isFormData = typeof FormData !== 'undefined' && body instanceof FormData;
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...(!isFormData && { 'Content-Type': 'application/json' }),
       ...options.headers,
     };
 
@@ -124,7 +174,7 @@ export class ApiClient {
       const response = await fetch(url, {
         method,
         headers,
-        body: body ? JSON.stringify(body) : undefined,
+        body: isFormData ? (body as FormData) : body ? JSON.stringify(body) : undefined,
         signal: controller.signal,
       });
 
@@ -322,6 +372,24 @@ export class ApiClient {
     return this.delete(`/posts/${id}`);
   }
 
+  async getScheduledPosts(
+    status?: ScheduledPostStatus
+  ): Promise<{ scheduled_posts: ScheduledPost[] }> {
+    return this.get(status ? `/posts/scheduled?status=${status}` : '/posts/scheduled');
+  }
+
+  async schedulePost(data: SchedulePostInput): Promise<ScheduledPost> {
+    return this.post('/posts/scheduled', data);
+  }
+
+  async updateScheduledPost(id: string, data: UpdateScheduledPostInput): Promise<ScheduledPost> {
+    return this.put(`/posts/scheduled/${id}`, data);
+  }
+
+  async cancelScheduledPost(id: string): Promise<void> {
+    return this.delete(`/posts/scheduled/${id}`);
+  }
+
   async likePost(id: number): Promise<void> {
     return this.post(`/posts/${id}/like`);
   }
@@ -346,8 +414,16 @@ export class ApiClient {
     return this.delete(`/posts/${id}/bookmark`);
   }
 
-  async getBookmarks(page = 1, limit = 20): Promise<PaginatedResponse<Post>> {
-    return this.get(`/posts/bookmarks?page=${page}&limit=${limit}`);
+  async repostPost(id: number, data: RepostInput = {}): Promise<Post> {
+    return this.post(`/posts/${id}/repost`, data);
+  }
+
+  async undoRepost(id: number): Promise<void> {
+    return this.delete(`/posts/${id}/repost`);
+  }
+
+  async getBookmarks(cursor?: string): Promise<SavedItemPage> {
+    return this.getSavedItems({ type: 'post', cursor });
   }
 
   async pinPost(id: number): Promise<void> {
@@ -362,6 +438,10 @@ export class ApiClient {
     return this.get(`/users/${userId}/pinned-posts`);
   }
 
+  async reorderPinnedPosts(data: ReorderPinnedPostsInput): Promise<Post[]> {
+    return this.put('/users/me/pinned-posts', data);
+  }
+
   async reportPost(id: number, data: Omit<CreateReportInput, 'type' | 'target_id'>): Promise<void> {
     return this.post(`/posts/${id}/report`, data);
   }
@@ -406,30 +486,139 @@ export class ApiClient {
   // ROOMS
   // ===========================================================================
 
-  async getRooms(): Promise<Room[]> {
-    return this.get('/rooms');
+  async getRooms(specialty?: RoomSpecialty): Promise<{ rooms: Room[] }> {
+    const query = specialty ? `?specialty=${encodeURIComponent(specialty)}` : '';
+    return this.get(`/rooms${query}`);
+  }
+
+  async proposeRoom(data: CreateRoomInput): Promise<Room> {
+    return this.post('/rooms', data);
+  }
+
+  async getRoomProposals(): Promise<{ rooms: Room[]; can_review: boolean }> {
+    return this.get('/rooms/proposals');
+  }
+
+  async approveRoom(id: number): Promise<Room> {
+    return this.post(`/rooms/${id}/approve`);
+  }
+
+  async declineRoom(id: number, data: DeclineRoomInput): Promise<void> {
+    return this.post(`/rooms/${id}/decline`, data);
+  }
+
+  async archiveRoom(id: number): Promise<void> {
+    return this.post(`/rooms/${id}/archive`);
+  }
+
+  async restoreRoom(id: number): Promise<void> {
+    return this.post(`/rooms/${id}/restore`);
   }
 
   async getRoom(id: number): Promise<Room> {
     return this.get(`/rooms/${id}`);
   }
 
-  async getRoomPosts(id: number, page = 1, limit = 20): Promise<PaginatedResponse<Post>> {
-    return this.get(`/rooms/${id}/posts?page=${page}&limit=${limit}`);
+  async getRoomPosts(id: number, cursor?: string): Promise<RoomFeed> {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+    return this.get(`/rooms/${id}/posts${query}`);
   }
 
-  async joinRoom(id: number): Promise<void> {
-    return this.post(`/rooms/${id}/join`);
+  async joinRoom(id: number, data: JoinRoomInput = {}): Promise<JoinRoomResult> {
+    return this.post(`/rooms/${id}/join`, data);
   }
 
   async leaveRoom(id: number): Promise<void> {
     return this.delete(`/rooms/${id}/join`);
   }
 
-  async getJoinedRooms(): Promise<Room[]> {
+  async getJoinedRooms(): Promise<{ rooms: Room[] }> {
     return this.get('/rooms/joined');
   }
 
+  async removeRoomPost(id: number, postId: string, data: RoomRemovalInput): Promise<void> {
+    return this.post(`/rooms/${id}/posts/${postId}/remove`, data);
+  }
+
+  async removeRoomComment(id: number, commentId: string, data: RoomRemovalInput): Promise<void> {
+    return this.post(`/rooms/${id}/comments/${commentId}/remove`, data);
+  }
+
+  async pinRoomPost(id: number, postId: string): Promise<void> {
+    return this.post(`/rooms/${id}/posts/${postId}/pin`);
+  }
+
+  async unpinRoomPost(id: number, postId: string): Promise<void> {
+    return this.delete(`/rooms/${id}/posts/${postId}/pin`);
+  }
+
+  async getRoomBans(id: number): Promise<{ bans: RoomBan[] }> {
+    return this.get(`/rooms/${id}/bans`);
+  }
+
+  async banFromRoom(id: number, data: RoomBanInput): Promise<void> {
+    return this.post(`/rooms/${id}/bans`, data);
+  }
+
+  async unbanFromRoom(id: number, userId: string): Promise<void> {
+    return this.delete(`/rooms/${id}/bans/${userId}`);
+  }
+
+  async addRoomModerator(id: number, userId: string): Promise<void> {
+    return this.put(`/rooms/${id}/moderators/${userId}`);
+  }
+
+  async removeRoomModerator(id: number, userId: string): Promise<void> {
+    return this.delete(`/rooms/${id}/moderators/${userId}`);
+  }
+
+  async getRoomModerationLog(
+    id: number,
+    cursor?: string
+  ): Promise<{ entries: RoomModerationLogEntry[]; has_more: boolean; next_cursor?: string }> {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+    return this.get(`/rooms/${id}/moderation-log${query}`);
+  }
+
+  async getRoomAnalytics(id: number, period?: RoomAnalyticsPeriod): Promise<RoomAnalytics> {
+    const query = period ? `?period=${period}` : '';
+    return this.get(`/rooms/${id}/analytics${query}`);
+  }
+
+  async updateRoom(
+    id: number,
+    data: UpdateRoomInput
+  ): Promise<{ success: true; visibility: RoomVisibility }> {
+    return this.patch(`/rooms/${id}`, data);
+  }
+
+  async getRoomJoinRequests(id: number): Promise<{ requests: RoomJoinRequest[] }> {
+    return this.get(`/rooms/${id}/join-requests`);
+  }
+
+  async approveRoomJoinRequest(
+    id: number,
+    userId: string
+  ): Promise<{ success: true; members_count: number }> {
+    return this.post(`/rooms/${id}/join-requests/${userId}/approve`);
+  }
+
+  async declineRoomJoinRequest(id: number, userId: string): Promise<void> {
+    return this.post(`/rooms/${id}/join-requests/${userId}/decline`);
+  }
+
+  async getRoomInvites(id: number): Promise<{ invites: RoomInvite[] }> {
+    return this.get(`/rooms/${id}/invites`);
+  }
+
+  async createRoomInvite(id: number, data: RoomInviteInput = {}): Promise<RoomInvite> {
+    return this.post(`/rooms/${id}/invites`, data);
+  }
+
+  async revokeRoomInvite(id: number, inviteId: string): Promise<void> {
+    return this.delete(`/rooms/${id}/invites/${inviteId}`);
+  }
+
   // ===========================================================================
   // MESSAGES
   // ===========================================================================
@@ -516,26 +705,167 @@ export class ApiClient {
     return this.get(`/search/autocomplete?q=${encodeURIComponent(query)}`);
   }
 
+  // ===========================================================================
+  // HASHTAGS
+  // ===========================================================================
+
+  async getHashtag(tag: string, cursor?: string): Promise<HashtagFeed> {
+    const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+    return this.get(`/hashtags/${encodeURIComponent(tag)}${query}`);
+  }
+
+  async getFollowedHashtags(): Promise<{ hashtags: string[] }> {
+    return this.get('/hashtags/followed');
+  }
+
+  async followHashtag(tag: string): Promise<void> {
+    return this.post(`/hashtags/${encodeURIComponent(tag)}/follow`);
+  }
+
+  async unfollowHashtag(tag: string): Promise<void> {
+    return this.delete(`/hashtags/${encodeURIComponent(tag)}/follow`);
+  }
+
+  // ===========================================================================
+  // SAVED ITEMS
+  // ===========================================================================
+
+  async getSavedItems(filters?: {
+    collection_id?: string;
+    type?: SavedItemType;
+    cursor?: string;
+  }): Promise<SavedItemPage> {
+    const params = new URLSearchParams();
+    if (filters?.collection_id) params.append('collection_id', filters.collection_id);
+    if (filters?.type) params.append('type', filters.type);
+    if (filters?.cursor) params.append('cursor', filters.cursor);
+    return this.get(`/saved?${params}`);
+  }
+
+  async saveItem(data: SaveItemInput): Promise<SavedItem> {
+    return this.post('/saved', data);
+  }
+
+  async updateSavedItem(id: string, data: UpdateSavedItemInput): Promise<SavedItem> {
+    return this.patch(`/saved/${id}`, data);
+  }
+
+  async removeSavedItem(id: string): Promise<void> {
+    return this.delete(`/saved/${id}`);
+  }
+
+  async reorderSavedItems(savedItemIds: string[]): Promise<void> {
+    return this.put('/saved/order', { saved_item_ids: savedItemIds });
+  }
+
+  async getSavedCollections(): Promise<SavedCollectionsResponse> {
+    return this.get('/saved/collections');
+  }
+
+  async createSavedCollection(name: string): Promise<SavedCollection> {
+    return this.post('/saved/collections', { name });
+  }
+
+  async renameSavedCollection(id: string, name: string): Promise<SavedCollection> {
+    return this.patch(`/saved/collections/${id}`, { name });
+  }
+
+  async deleteSavedCollection(id: string): Promise<void> {
+    return this.delete(`/saved/collections/${id}`);
+  }
+
+  async reorderSavedCollections(collectionIds: string[]): Promise<SavedCollectionsResponse> {
+    return this.put('/saved/collections/order', { collection_ids: collectionIds });
+  }
+
+  // ===========================================================================
+  // LINK PREVIEWS
+  // ===========================================================================
+
+  async getLinkPreview(url: string): Promise<{ link_preview: LinkPreview | null }> {
+    return this.get(`/link-previews?url=${encodeURIComponent(url)}`);
+  }
+
   // ===========================================================================
   // DEALS
   // ===========================================================================
 
   async getDeals(page = 1, limit = 20, filters?: {
-    stage?: string;
-    sector?: string;
+    stage?: DealStage;
+    sector?: DealSector;
     min_investment?: number;
+    max_investment?: number;
+    sort_by?: DealFilterInput['sort_by'];
   }): Promise<PaginatedResponse<Deal>> {
     const params = new URLSearchParams({ page: String(page), limit: String(limit) });
     if (filters?.stage) params.append('stage', filters.stage);
     if (filters?.sector) params.append('sector', filters.sector);
     if (filters?.min_investment) params.append('min_investment', String(filters.min_investment));
+    if (filters?.max_investment) params.append('max_investment', String(filters.max_investment));
+    if (filters?.sort_by) params.append('sort_by', filters.sort_by);
     return this.get(`/deals?${params}`);
   }
 
+  async getFeaturedDeals(): Promise<{ deals: Deal[] }> {
+    return this.get('/deals/featured');
+  }
+
+  async getMyDeals(): Promise<{ deals: Deal[]; is_sponsor: boolean }> {
+    return this.get('/deals/mine');
+  }
+
   async getDeal(id: number): Promise<Deal> {
     return this.get(`/deals/${id}`);
   }
 
+  async createDeal(data: CreateDealInput): Promise<Deal> {
+    return this.post('/deals', data);
+  }
+
+  async updateDeal(id: number, data: UpdateDealInput): Promise<Deal> {
+    return this.patch(`/deals/${id}`, data);
+  }
+
+  async publishDeal(id: number): Promise<Deal> {
+    return this.post(`/deals/${id}/publish`);
+  }
+
+  async closeDeal(id: number): Promise<void> {
+    return this.post(`/deals/${id}/close`);
+  }
+
+  // Form data holds the document as "file", and optionally its "name"
+  async addDealDocument(id: number, formData: FormData): Promise<DealDocument> {
+    return this.post(`/deals/${id}/documents`, formData);
+  }
+
+  async removeDealDocument(id: number, documentId: string): Promise<void> {
+    return this.delete(`/deals/${id}/documents/${documentId}`);
+  }
+
+  async getDealNda(id: number): Promise<DealNda> {
+    return this.get(`/deals/${id}/nda`);
+  }
+
+  async acceptDealNda(id: number, version: number): Promise<{ accepted_at: string }> {
+    return this.post(`/deals/${id}/nda/accept`, { version });
+  }
+
+  async getDealDocumentLink(id: number, documentId: string): Promise<DealDocumentLink> {
+    return this.get(`/deals/${id}/documents/${documentId}/url`);
+  }
+
+  async getDealDocumentViews(
+    id: number,
+    filters?: DealDocumentViewsFilterInput
+  ): Promise<DealDataRoomActivity> {
+    const params = new URLSearchParams();
+    if (filters?.document_id) params.append('document_id', filters.document_id);
+    if (filters?.page) params.append('page', String(filters.page));
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    return this.get(`/deals/${id}/documents/views?${params}`);
+  }
+
   async watchDeal(id: number): Promise<void> {
     return this.post(`/deals/${id}/watch`);
   }
@@ -544,10 +874,41 @@ export class ApiClient {
     return this.delete(`/deals/${id}/watch`);
   }
 
-  async expressInterest(id: number, data: ExpressInterestInput): Promise<void> {
+  async getDealWatchlist(): Promise<DealWatchlist> {
+    return this.get('/deals/watchlist');
+  }
+
+  async setDealAlertDelivery(
+    delivery: DealAlertDelivery
+  ): Promise<{ alert_delivery: DealAlertDelivery }> {
+    return this.put('/deals/watchlist/alerts', { delivery });
+  }
+
+  async expressInterest(id: number, data: ExpressInterestInput): Promise<DealInterest> {
     return this.post(`/deals/${id}/interest`, data);
   }
 
+  async getMyDealInterest(id: number): Promise<DealInterest> {
+    return this.get(`/deals/${id}/interest`);
+  }
+
+  async getDealPipeline(id: number, filters: DealInterestFilterInput = {}): Promise<DealPipeline> {
+    const params = new URLSearchParams();
+    if (filters.status) params.append('status', filters.status);
+    if (filters.page) params.append('page', String(filters.page));
+    if (filters.limit) params.append('limit', String(filters.limit));
+    const query = params.toString();
+    return this.get(`/deals/${id}/interests${query ? `?${query}` : ''}`);
+  }
+
+  async updateDealInterest(
+    id: number,
+    interestId: string,
+    status: DealInterestStatus
+  ): Promise<DealInterest> {
+    return this.patch(`/deals/${id}/interests/${interestId}`, { status });
+  }
+
   // ===========================================================================
   // SETTINGS
   // ===========================================================================
@@ -25,10 +25,14 @@ export const LIMITS = {
   // Posts
   POST_CONTENT_MAX: 5000,
   POST_IMAGES_MAX: 10,
+  POST_IMAGE_MAX_MB: 10,
   POST_VIDEO_MAX_MB: 100,
+  POST_VIDEO_MAX_SECONDS: 60,
+  MENTIONS_MAX: 20,
   
   // Comments
   COMMENT_CONTENT_MAX: 2000,
+  COMMENT_DEPTH_MAX: 3,
   
   // Messages
   MESSAGE_CONTENT_MAX: 5000,
@@ -53,8 +57,26 @@ export const LIMITS = {
   // Pins
   PINNED_POSTS_MAX: 3,
   
+  // Scheduled posts
+  SCHEDULED_POSTS_MAX: 25,
+  SCHEDULE_AHEAD_MAX_DAYS: 90,
+  
+  // Rooms
+  ROOM_PINNED_POSTS_MAX: 3,
+  ROOM_PROPOSALS_PENDING_MAX: 3,
+  
+  // Saved items
+  SAVED_COLLECTIONS_MAX: 50,
+  SAVED_COLLECTION_NAME_MAX: 60,
+  SAVED_NOTE_MAX: 500,
+  
   // Keywords
   MUTED_KEYWORDS_MAX: 100,
+  
+  // Deals
+  DEAL_DEADLINE_MAX_DAYS: 365,
+  DEAL_DOCUMENTS_MAX: 20,
+  DEAL_DOCUMENT_MAX_MB: 25,
 } as const;
 
 // =============================================================================
@@ -66,12 +66,39 @@ export interface Post {
   is_liked: boolean;
   is_bookmarked: boolean;
   is_pinned: boolean;
+  mentions: Mention[];
+  link_preview: LinkPreview | null;
   reactions: ReactionCount[];
   user_reaction?: ReactionType;
+  /** True for reposts and quotes; repost_of_id is null once the original is deleted */
+  is_repost: boolean;
+  repost_of_id: string | null;
+  /** The original, for reposts whose original still exists. Not expanded inside another repost. */
+  repost_of: Post | null;
+  reposts_count: number;
+  /** Whether the viewer has reposted this post without commentary */
+  is_reposted: boolean;
+  is_edited: boolean;
+  edited_at?: string;
   created_at: string;
   updated_at: string;
 }
 
+/** A user mentioned in a post or comment, with the handle as it was written */
+export interface Mention {
+  user_id: number;
+  username: string;
+}
+
+/** OpenGraph card for the first link in a post or message */
+export interface LinkPreview {
+  url: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
 export interface PostCreate {
   content: string;
   room_id?: number;
@@ -85,6 +112,43 @@ export interface PostUpdate {
   content?: string;
 }
 
+export interface TextDiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export type ScheduledPostStatus = 'scheduled' | 'published' | 'cancelled' | 'failed';
+
+export interface ScheduledPost {
+  id: string;
+  content: string;
+  room_id: number | null;
+  images: string[];
+  video_url: string | null;
+  poll: PollCreate | null;
+  is_anonymous: boolean;
+  scheduled_at: string;
+  status: ScheduledPostStatus;
+  /** The published post, once it has gone out */
+  post_id: string | null;
+  failure_reason: string | null;
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PostRevision {
+  id: string;
+  edited_at: string;
+  /**
+   * What changed, and the full text before and after the edit. Only returned
+   * to the author and moderators.
+   */
+  diff?: TextDiffSegment[];
+  previous_content?: string;
+  content?: string;
+}
+
 // =============================================================================
 // COMMENT TYPES
 // =============================================================================
@@ -99,6 +163,8 @@ export interface Comment {
   likes_count: number;
   replies_count: number;
   is_liked: boolean;
+  is_anonymous: boolean;
+  mentions: Mention[];
   created_at: string;
   updated_at: string;
 }
@@ -106,6 +172,7 @@ export interface Comment {
 export interface CommentCreate {
   content: string;
   parent_id?: number;
+  is_anonymous?: boolean;
 }
 
 // =============================================================================
@@ -178,6 +245,46 @@ export type PollDuration = '1day' | '3days' | '7days' | 'none';
 // ROOM TYPES
 // =============================================================================
 
+export const ROOM_VISIBILITIES = ['public', 'private', 'invite_only'] as const;
+
+export type RoomVisibility = (typeof ROOM_VISIBILITIES)[number];
+
+export type RoomJoinRequestStatus = 'pending' | 'approved' | 'declined';
+
+export const ROOM_STATUSES = ['pending', 'active', 'archived'] as const;
+
+export type RoomStatus = (typeof ROOM_STATUSES)[number];
+
+/** Icons a proposed room can use */
+export const ROOM_ICONS = [
+  'heart',
+  'activity',
+  'cpu',
+  'smartphone',
+  'flask-conical',
+  'stethoscope',
+  'pill',
+  'brain',
+  'eye',
+  'microscope',
+  'shield',
+  'users',
+] as const;
+
+export type RoomIcon = (typeof ROOM_ICONS)[number];
+
+/** Colors a proposed room can use */
+export const ROOM_COLORS = [
+  '#EF4444',
+  '#F59E0B',
+  '#10B981',
+  '#06B6D4',
+  '#3B82F6',
+  '#6366F1',
+  '#8B5CF6',
+  '#EC4899',
+] as const;
+
 export interface Room {
   id: number;
   name: string;
@@ -187,10 +294,128 @@ export interface Room {
   color?: string;
   members_count: number;
   posts_count: number;
-  is_joined: boolean;
+  is_member: boolean;
+  /** Posts in private and invite-only rooms are shown to members only */
+  visibility: RoomVisibility;
+  /** One of ROOM_SPECIALTIES, or null for rooms outside the taxonomy */
+  specialty: RoomSpecialty | null;
+  /** Archived rooms can be read but take no new posts or members */
+  status: RoomStatus;
+  /** Only on room proposals: who proposed the room */
+  created_by?: User | null;
+  /** Only on GET /rooms/:slug: the viewer's request to join, if they have made one */
+  join_request_status?: RoomJoinRequestStatus | null;
+  /** Only on GET /rooms/:slug */
+  rules?: string[];
+  /** Only on GET /rooms/:slug */
+  moderators?: User[];
+  /** Only on GET /rooms/:slug: whether the viewer can moderate the room */
+  is_moderator?: boolean;
+  /** Only on GET /rooms/:slug: the viewer's ban, if one is in force */
+  ban?: { reason: string; expires_at: string | null } | null;
   created_at: string;
 }
 
+export type RoomModerationAction =
+  | 'remove_post'
+  | 'remove_comment'
+  | 'ban'
+  | 'unban'
+  | 'pin'
+  | 'unpin'
+  | 'add_moderator'
+  | 'remove_moderator'
+  | 'approve_join'
+  | 'decline_join'
+  | 'create_invite'
+  | 'revoke_invite'
+  | 'change_visibility';
+
+export interface JoinRoomResult {
+  success: true;
+  is_member: boolean;
+  members_count: number;
+  /** Set when joining a private room left a request waiting for approval */
+  join_request_status?: RoomJoinRequestStatus;
+}
+
+export interface RoomJoinRequest {
+  user: User;
+  message: string | null;
+  created_at: string;
+}
+
+export interface RoomInvite {
+  id: string;
+  code: string;
+  /** null for no limit */
+  max_uses: number | null;
+  uses_count: number;
+  /** null for an invite that lasts until revoked */
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface RoomBan {
+  user: User;
+  reason: string;
+  /** null for a permanent ban */
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface RoomModerationLogEntry {
+  id: string;
+  action: RoomModerationAction;
+  moderator: User | null;
+  /** Left out for anonymous authors */
+  target_user: User | null;
+  post_id: string | null;
+  comment_id: string | null;
+  reason: string | null;
+  /** Start of a removed post or comment */
+  excerpt: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export const ROOM_ANALYTICS_PERIODS = ['7d', '30d', '90d'] as const;
+
+export type RoomAnalyticsPeriod = (typeof ROOM_ANALYTICS_PERIODS)[number];
+
+/** One UTC day of a room's activity */
+export interface RoomAnalyticsDay {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Members who posted, commented, reacted or voted that day */
+  active_members: number;
+  posts: number;
+  comments: number;
+  joins: number;
+  leaves: number;
+  reports: number;
+}
+
+export interface RoomAnalytics {
+  period: RoomAnalyticsPeriod;
+  /** Every day in the period, oldest first, including days with no activity */
+  days: RoomAnalyticsDay[];
+  totals: {
+    /** Distinct members active at any point in the period */
+    active_members: number;
+    posts: number;
+    comments: number;
+    joins: number;
+    leaves: number;
+    reports: number;
+    members_count: number;
+  };
+  /** Anonymous posts and comments are left out */
+  top_contributors: { user: User; posts: number; comments: number }[];
+  /** Ranked by the reactions and comments on the room's posts that use them */
+  top_hashtags: { tag: string; posts: number; engagement: number }[];
+}
+
 export const ROOM_SPECIALTIES = [
   'Cardiology',
   'Dermatology',
@@ -237,6 +462,7 @@ export interface Message {
   conversation_id: number;
   sender: UserPreview;
   content: string;
+  link_preview?: LinkPreview | null;
   attachments?: Attachment[];
   status: MessageStatus;
   read_at?: string;
@@ -283,6 +509,17 @@ export type NotificationType =
   | 'follow'
   | 'message'
   | 'deal_update'
+  | 'deal_interest'
+  | 'deal_interest_status'
+  | 'poll_results'
+  | 'hashtag'
+  | 'scheduled_post'
+  | 'repost'
+  | 'room_moderation'
+  | 'room_join_request'
+  | 'room_join_approved'
+  | 'room_proposal'
+  | 'room_status'
   | 'system'
   | 'achievement';
 
@@ -303,22 +540,92 @@ export interface Deal {
   title: string;
   company_name: string;
   description: string;
-  sector: string;
+  sector: DealSector;
   stage: DealStage;
+  /** Drafts are seen only by their sponsor and admins */
+  status: DealStatus;
   minimum_investment: number;
+  maximum_investment?: number;
   target_raise: number;
   current_raise: number;
   valuation?: number;
+  /** Percent of the company offered */
+  equity_offered?: number;
+  highlights: string[];
+  risks: string[];
+  team: DealTeamMember[];
   logo_url?: string;
   cover_image_url?: string;
+  /** Data room contents; opening one needs nda_accepted */
   documents?: DealDocument[];
+  /** Whether the viewer can open the data room; always true for its managers */
+  nda_accepted?: boolean;
   deadline?: string;
   is_featured: boolean;
   is_watching: boolean;
   investors_count: number;
+  /** null for deals listed by the platform itself */
+  sponsor: User | null;
+  /** Whether the viewer can edit, publish and close the deal */
+  can_manage: boolean;
+  published_at: string | null;
+  closed_at: string | null;
   created_at: string;
 }
 
+export const DEAL_STATUSES = ['draft', 'published', 'closed'] as const;
+
+export type DealStatus = (typeof DEAL_STATUSES)[number];
+
+export const DEAL_INTEREST_STATUSES = ['new', 'contacted', 'committed', 'declined'] as const;
+
+export type DealInterestStatus = (typeof DEAL_INTEREST_STATUSES)[number];
+
+export const DEAL_CONTACT_PREFERENCES = ['email', 'phone', 'message'] as const;
+
+export type DealContactPreference = (typeof DEAL_CONTACT_PREFERENCES)[number];
+
+/** An investor's indication of interest in a deal */
+export interface DealInterest {
+  id: string;
+  deal_id: number;
+  amount: number | null;
+  message: string | null;
+  contact_preference: DealContactPreference;
+  status: DealInterestStatus;
+  /** Sponsors only: who is interested and how to reach them */
+  investor?: User;
+  contact?: { email: string; phone: string | null };
+  status_changed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A sponsor's view of the interest in one of their deals */
+export interface DealPipeline {
+  interests: DealInterest[];
+  counts: Record<DealInterestStatus, number>;
+  /** Total indicated by committed investors */
+  committed_amount: number;
+  pagination: PaginationMeta;
+}
+
+export const DEAL_ALERT_DELIVERIES = ['instant', 'daily'] as const;
+
+/** Whether watchlist alerts arrive as they happen or in a daily digest */
+export type DealAlertDelivery = (typeof DEAL_ALERT_DELIVERIES)[number];
+
+export interface DealWatchlist {
+  deals: Deal[];
+  alert_delivery: DealAlertDelivery;
+}
+
+export interface DealTeamMember {
+  name: string;
+  role: string;
+  background?: string;
+}
+
 export type DealStage =
   | 'seed'
   | 'series_a'
@@ -349,7 +656,47 @@ export interface DealDocument {
   id: string;
   name: string;
   type: string;
+  size_bytes: number | null;
+  created_at: string;
+}
+
+/** The confidentiality agreement gating a deal's data room */
+export interface DealNda {
+  text: string;
+  /** Accept this version; it changes whenever the agreement does */
+  version: number;
+  /** Whether this is the standard agreement rather than the sponsor's own */
+  is_default: boolean;
+  accepted_at: string | null;
+}
+
+/** A short-lived link to download a data room document */
+export interface DealDocumentLink {
   url: string;
+  expires_at: string;
+}
+
+export interface DealDocumentStats {
+  id: string;
+  name: string;
+  views_count: number;
+  viewers_count: number;
+  last_viewed_at: string | null;
+}
+
+export interface DealDocumentView {
+  id: string;
+  document_id: string;
+  document_name: string;
+  viewer: User & { email: string };
+  viewed_at: string;
+}
+
+/** A sponsor's view of who has opened their deal's data room */
+export interface DealDataRoomActivity {
+  documents: DealDocumentStats[];
+  views: DealDocumentView[];
+  pagination: PaginationMeta;
 }
 
 export const DEAL_SECTORS = [
@@ -365,6 +712,47 @@ export const DEAL_SECTORS = [
 
 export type DealSector = (typeof DEAL_SECTORS)[number];
 
+// =============================================================================
+// SAVED ITEM TYPES
+// =============================================================================
+
+export const SAVED_ITEM_TYPES = ['post', 'article', 'deal', 'investment'] as const;
+
+export type SavedItemType = (typeof SAVED_ITEM_TYPES)[number];
+
+export interface SavedCollection {
+  id: string;
+  name: string;
+  items_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedItem {
+  id: string;
+  item_type: SavedItemType;
+  item_id: string;
+  /** Null for items not filed in a collection */
+  collection_id: string | null;
+  note: string | null;
+  /** The saved post, article, deal or investment, in the shape its own API returns */
+  item: Post | Deal | Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedItemPage {
+  items: SavedItem[];
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+export interface SavedCollectionsResponse {
+  collections: SavedCollection[];
+  total_count: number;
+  unsorted_count: number;
+}
+
 // =============================================================================
 // SEARCH TYPES
 // =============================================================================
@@ -383,6 +771,36 @@ export interface HashtagResult {
   post_count: number;
 }
 
+export interface RelatedHashtag {
+  tag: string;
+  posts_count: number;
+}
+
+export interface HashtagDetails {
+  tag: string;
+  posts_count: number;
+  followers_count: number;
+  is_following: boolean;
+  related: RelatedHashtag[];
+  created_at: string;
+}
+
+export interface HashtagFeed {
+  hashtag: HashtagDetails;
+  posts: Post[];
+  has_more: boolean;
+  next_cursor?: string;
+}
+
+export interface RoomFeed {
+  posts: Post[];
+  /** Pinned announcements, on the first page only */
+  pinned_posts?: Post[];
+  has_more: boolean;
+  next_cursor?: string;
+  feed_style: 'chronological';
+}
+
 export interface SearchFilters {
   type?: SearchType;
   room_id?: number;
@@ -4,6 +4,8 @@
  * Common utility functions used by both web and mobile apps.
  */
 
+import type { TextDiffSegment } from '../types';
+
 // =============================================================================
 // DATE & TIME FORMATTING
 // =============================================================================
@@ -156,10 +158,10 @@ export function formatFileSize(bytes: number): string {
 // =============================================================================
 
 /**
- * Extract @mentions from text
+ * Extract @mentions from text. A mention is either a username or a user id.
  */
 export function extractMentions(content: string): string[] {
-  const regex = /@(\w+)/g;
+  const regex = /@([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\w+)/gi;
   const matches = content.match(regex);
   return matches ? [...new Set(matches.map((m) => m.slice(1)))] : [];
 }
@@ -182,6 +184,93 @@ export function extractUrls(content: string): string[] {
   return matches ? [...new Set(matches)] : [];
 }
 
+/** Largest changed region, in words before × words after, diffed word by word */
+const MAX_DIFF_CELLS = 250_000;
+
+/**
+ * Word-level diff between two versions of a text. Whitespace is kept so the
+ * segments joined together reproduce either version. Unchanged words at
+ * either end are matched directly; a changed region too large to compare
+ * word by word is shown as deleted and reinserted whole.
+ */
+export function diffWords(before: string, after: string): TextDiffSegment[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (op: TextDiffSegment['op'], text: string) => {
+    if (!text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+      last.text += text;
+    } else {
+      segments.push({ op, text });
+    }
+  };
+
+  push('equal', a.slice(0, prefix).join(''));
+
+  const changedA = a.slice(prefix, a.length - suffix);
+  const changedB = b.slice(prefix, b.length - suffix);
+  if (changedA.length * changedB.length > MAX_DIFF_CELLS) {
+    push('delete', changedA.join(''));
+    push('insert', changedB.join(''));
+  } else {
+    diffChangedWords(changedA, changedB, push);
+  }
+
+  push('equal', a.slice(a.length - suffix).join(''));
+  return segments;
+}
+
+/**
+ * Longest-common-subsequence diff of two word lists
+ */
+function diffChangedWords(
+  a: string[],
+  b: string[],
+  push: (op: TextDiffSegment['op'], text: string) => void
+) {
+  // lengths[i][j] = longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+}
+
 /**
  * Truncate text with ellipsis
  */
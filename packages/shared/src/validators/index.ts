@@ -6,7 +6,20 @@
  */
 
 import { z } from 'zod';
-import { REACTION_TYPES, DEAL_STAGES, ROOM_SPECIALTIES } from '../types';
+import {
+  REACTION_TYPES,
+  DEAL_ALERT_DELIVERIES,
+  DEAL_CONTACT_PREFERENCES,
+  DEAL_INTEREST_STATUSES,
+  DEAL_SECTORS,
+  DEAL_STAGES,
+  type DealStage,
+  ROOM_COLORS,
+  ROOM_ICONS,
+  ROOM_SPECIALTIES,
+  ROOM_VISIBILITIES,
+  SAVED_ITEM_TYPES,
+} from '../types';
 
 // =============================================================================
 // AUTH VALIDATORS
@@ -113,6 +126,22 @@ export const updatePostSchema = z.object({
   content: postContentSchema.optional(),
 });
 
+export const schedulePostSchema = createPostSchema.extend({
+  scheduled_at: z.string().datetime({ offset: true, message: 'Invalid schedule time' }),
+});
+
+export const updateScheduledPostSchema = schedulePostSchema.partial();
+
+export const reorderPinnedPostsSchema = z.object({
+  post_ids: z.array(z.string().uuid('Invalid post')).max(3, 'You can pin up to 3 posts'),
+});
+
+/** Repost into the feed or a room. Commentary makes it a quote. */
+export const repostSchema = z.object({
+  content: z.string().trim().max(5000, 'Post must be less than 5000 characters').optional(),
+  room_id: z.number().positive().optional(),
+});
+
 // =============================================================================
 // COMMENT VALIDATORS
 // =============================================================================
@@ -124,7 +153,12 @@ export const commentContentSchema = z
 
 export const createCommentSchema = z.object({
   content: commentContentSchema,
-  parent_id: z.number().positive().optional(),
+  parent_id: z.string().uuid('Invalid parent comment').optional(),
+  is_anonymous: z.boolean().optional(),
+});
+
+export const updateCommentSchema = z.object({
+  content: commentContentSchema,
 });
 
 // =============================================================================
@@ -191,11 +225,19 @@ export const reportReasonSchema = z.enum([
 
 export const createReportSchema = z.object({
   type: z.enum(['user', 'post', 'comment', 'message']),
-  target_id: z.number().positive(),
+  target_id: z.union([z.string(), z.number()]).transform(String).pipe(z.string().uuid('Invalid report target')),
   reason: reportReasonSchema,
   details: z.string().max(1000).optional(),
 });
 
+export const revealAuthorSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(10, 'Give a reason of at least 10 characters')
+    .max(1000, 'Reason must be less than 1000 characters'),
+});
+
 // =============================================================================
 // MUTE VALIDATORS
 // =============================================================================
@@ -217,6 +259,89 @@ export const muteUserSchema = z.object({
   duration: muteDurationSchema,
 });
 
+// =============================================================================
+// ROOM VALIDATORS
+// =============================================================================
+
+export const createRoomSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, 'Room name must be at least 3 characters')
+    .max(60, 'Room name must be less than 60 characters'),
+  // Derived from the name when left out
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and single hyphens')
+    .min(3, 'Room address must be at least 3 characters')
+    .max(60, 'Room address must be less than 60 characters')
+    // Numeric addresses would be read as room ids
+    .refine(slug => !/^\d+$/.test(slug), 'Room address must include a letter')
+    .optional(),
+  description: z
+    .string()
+    .trim()
+    .min(20, 'Describe the room in at least 20 characters')
+    .max(500, 'Description must be less than 500 characters'),
+  specialty: z.enum(ROOM_SPECIALTIES),
+  icon: z.enum(ROOM_ICONS),
+  color: z.enum(ROOM_COLORS),
+  rules: z.array(z.string().trim().min(1).max(200)).max(10, 'Up to 10 rules').optional(),
+});
+
+export const joinRoomSchema = z.object({
+  accept_rules: z.boolean().optional(),
+  // Joins a private or invite-only room straight away
+  invite_code: z.string().trim().max(32).optional(),
+  // Sent to the moderators with a request to join a private room
+  message: z.string().trim().max(500, 'Message must be less than 500 characters').optional(),
+});
+
+export const updateRoomSchema = z.object({
+  visibility: z.enum(ROOM_VISIBILITIES),
+});
+
+export const roomInviteSchema = z.object({
+  // Omit for an invite that lasts until revoked
+  expires_in_hours: z
+    .number()
+    .int()
+    .min(1, 'Invites last at least an hour')
+    .max(720, 'Invites can last up to 30 days')
+    .optional(),
+  // Omit for an invite with no limit on uses
+  max_uses: z.number().int().min(1).max(1000, 'Invites can be used up to 1000 times').optional(),
+});
+
+const moderationReasonSchema = z
+  .string()
+  .trim()
+  .min(1, 'Give a reason')
+  .max(500, 'Reason must be less than 500 characters');
+
+export const roomRemovalSchema = z.object({
+  reason: moderationReasonSchema,
+});
+
+// Sent to whoever proposed the room
+export const declineRoomSchema = z.object({
+  reason: moderationReasonSchema,
+});
+
+export const roomBanSchema = z.object({
+  user_id: z.string().uuid('Invalid user'),
+  reason: moderationReasonSchema,
+  // Omit for a permanent ban
+  duration_days: z
+    .number()
+    .int()
+    .min(1, 'Bans last at least a day')
+    .max(365, 'Bans can last up to 365 days; omit duration_days for a permanent ban')
+    .optional(),
+});
+
 // =============================================================================
 // SETTINGS VALIDATORS
 // =============================================================================
@@ -270,23 +395,158 @@ export const privacySettingsSchema = z.object({
   allow_mentions: z.boolean(),
 });
 
+// =============================================================================
+// SAVED ITEM VALIDATORS
+// =============================================================================
+
+export const savedItemTypeSchema = z.enum(SAVED_ITEM_TYPES);
+
+export const savedNoteSchema = z
+  .string()
+  .trim()
+  .max(500, 'Note must be at most 500 characters');
+
+export const saveItemSchema = z.object({
+  item_type: savedItemTypeSchema,
+  item_id: z.union([z.string(), z.number()]).transform(String).pipe(z.string().min(1).max(64)),
+  collection_id: z.string().uuid('Invalid collection').nullable().optional(),
+  note: savedNoteSchema.nullable().optional(),
+});
+
+export const updateSavedItemSchema = z.object({
+  collection_id: z.string().uuid('Invalid collection').nullable().optional(),
+  note: savedNoteSchema.nullable().optional(),
+});
+
+export const reorderSavedItemsSchema = z.object({
+  saved_item_ids: z.array(z.string().uuid('Invalid saved item')).min(1).max(100),
+});
+
+export const savedCollectionSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Collection name is required')
+    .max(60, 'Collection name must be at most 60 characters'),
+});
+
+export const reorderSavedCollectionsSchema = z.object({
+  collection_ids: z.array(z.string().uuid('Invalid collection')).max(50),
+});
+
 // =============================================================================
 // DEAL VALIDATORS
 // =============================================================================
 
-export const dealStageSchema = z.enum(DEAL_STAGES as unknown as [string, ...string[]]);
+export const dealStageSchema = z.enum(DEAL_STAGES as unknown as [DealStage, ...DealStage[]]);
 
+// Read from the query string, so amounts and paging are coerced from text
 export const dealFilterSchema = z.object({
   stage: dealStageSchema.optional(),
-  sector: z.string().optional(),
-  min_investment: z.number().positive().optional(),
-  max_investment: z.number().positive().optional(),
+  sector: z.enum(DEAL_SECTORS).optional(),
+  min_investment: z.coerce.number().positive().optional(),
+  max_investment: z.coerce.number().positive().optional(),
   sort_by: z.enum(['recent', 'popular', 'deadline', 'amount']).optional(),
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(50).optional(),
+});
+
+const dealAmountSchema = z.number().positive().max(1e12);
+
+const dealListSchema = z.array(z.string().trim().min(1).max(200)).max(10, 'Up to 10 items');
+
+const dealFieldsSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(3, 'Title must be at least 3 characters')
+    .max(150, 'Title must be less than 150 characters'),
+  company_name: z
+    .string()
+    .trim()
+    .min(2, 'Company name must be at least 2 characters')
+    .max(150, 'Company name must be less than 150 characters'),
+  description: z
+    .string()
+    .trim()
+    .min(50, 'Describe the offering in at least 50 characters')
+    .max(5000, 'Description must be less than 5000 characters'),
+  sector: z.enum(DEAL_SECTORS),
+  stage: dealStageSchema,
+  target_raise: dealAmountSchema,
+  minimum_investment: dealAmountSchema,
+  maximum_investment: dealAmountSchema.nullable().optional(),
+  valuation: dealAmountSchema.nullable().optional(),
+  equity_offered: z.number().positive().max(100, 'Equity offered is a percentage').nullable().optional(),
+  highlights: dealListSchema.optional(),
+  risks: dealListSchema.optional(),
+  team: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        role: z.string().trim().min(1).max(100),
+        background: z.string().trim().max(200).optional(),
+      })
+    )
+    .max(20, 'Up to 20 team members')
+    .optional(),
+  logo_url: z.string().url().nullable().optional(),
+  cover_image_url: z.string().url().nullable().optional(),
+  deadline: z.string().datetime({ offset: true, message: 'Invalid deadline' }),
+  // Null restores the standard confidentiality agreement
+  nda_text: z
+    .string()
+    .trim()
+    .min(100, 'The agreement must be at least 100 characters')
+    .max(20000, 'The agreement must be less than 20000 characters')
+    .nullable()
+    .optional(),
+});
+
+// New deals start as drafts
+export const createDealSchema = dealFieldsSchema;
+
+// Only the fields given are changed. Sponsors report funding progress here.
+export const updateDealSchema = dealFieldsSchema
+  .extend({
+    current_raise: z.number().min(0).max(1e12),
+    investors_count: z.number().int().min(0),
+  })
+  .partial();
+
+// Sent alongside the uploaded file; the file name is used if none is given
+export const dealDocumentSchema = z.object({
+  name: z.string().trim().min(1, 'Name the document').max(255).optional(),
+});
+
+export const acceptDealNdaSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+export const dealDocumentViewsFilterSchema = z.object({
+  document_id: z.string().uuid('Invalid document').optional(),
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+});
+
+export const dealAlertSettingsSchema = z.object({
+  delivery: z.enum(DEAL_ALERT_DELIVERIES),
 });
 
 export const expressInterestSchema = z.object({
-  amount: z.number().positive().optional(),
-  message: z.string().max(1000).optional(),
+  amount: z.number().positive().max(1e12).optional(),
+  message: z.string().trim().max(1000, 'Message must be less than 1000 characters').optional(),
+  contact_preference: z.enum(DEAL_CONTACT_PREFERENCES).optional(),
+});
+
+export const dealInterestFilterSchema = z.object({
+  status: z.enum(DEAL_INTEREST_STATUSES).optional(),
+  page: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+});
+
+export const updateDealInterestSchema = z.object({
+  status: z.enum(DEAL_INTEREST_STATUSES),
 });
 
 // =============================================================================
@@ -301,12 +561,38 @@ export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 export type CreatePostInput = z.infer<typeof createPostSchema>;
 export type UpdatePostInput = z.infer<typeof updatePostSchema>;
+export type SchedulePostInput = z.infer<typeof schedulePostSchema>;
+export type UpdateScheduledPostInput = z.infer<typeof updateScheduledPostSchema>;
+export type ReorderPinnedPostsInput = z.infer<typeof reorderPinnedPostsSchema>;
+export type RepostInput = z.infer<typeof repostSchema>;
 export type CreateCommentInput = z.infer<typeof createCommentSchema>;
+export type UpdateCommentInput = z.infer<typeof updateCommentSchema>;
 export type SendMessageInput = z.infer<typeof sendMessageSchema>;
 export type ReactInput = z.infer<typeof reactSchema>;
 export type PollVoteInput = z.infer<typeof pollVoteSchema>;
 export type SearchInput = z.infer<typeof searchSchema>;
 export type CreateReportInput = z.infer<typeof createReportSchema>;
+export type RevealAuthorInput = z.infer<typeof revealAuthorSchema>;
 export type MuteUserInput = z.infer<typeof muteUserSchema>;
+export type CreateRoomInput = z.infer<typeof createRoomSchema>;
+export type DeclineRoomInput = z.infer<typeof declineRoomSchema>;
+export type JoinRoomInput = z.infer<typeof joinRoomSchema>;
+export type UpdateRoomInput = z.infer<typeof updateRoomSchema>;
+export type RoomInviteInput = z.infer<typeof roomInviteSchema>;
+export type RoomRemovalInput = z.infer<typeof roomRemovalSchema>;
+export type RoomBanInput = z.infer<typeof roomBanSchema>;
+export type SaveItemInput = z.infer<typeof saveItemSchema>;
+export type UpdateSavedItemInput = z.infer<typeof updateSavedItemSchema>;
+export type ReorderSavedItemsInput = z.infer<typeof reorderSavedItemsSchema>;
+export type SavedCollectionInput = z.infer<typeof savedCollectionSchema>;
+export type ReorderSavedCollectionsInput = z.infer<typeof reorderSavedCollectionsSchema>;
 export type DealFilterInput = z.infer<typeof dealFilterSchema>;
+export type CreateDealInput = z.infer<typeof createDealSchema>;
+export type UpdateDealInput = z.infer<typeof updateDealSchema>;
+export type DealDocumentInput = z.infer<typeof dealDocumentSchema>;
+export type AcceptDealNdaInput = z.infer<typeof acceptDealNdaSchema>;
+export type DealDocumentViewsFilterInput = z.infer<typeof dealDocumentViewsFilterSchema>;
+export type DealAlertSettingsInput = z.infer<typeof dealAlertSettingsSchema>;
 export type ExpressInterestInput = z.infer<typeof expressInterestSchema>;
+export type DealInterestFilterInput = z.infer<typeof dealInterestFilterSchema>;
+export type UpdateDealInterestInput = z.infer<typeof updateDealInterestSchema>;
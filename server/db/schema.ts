@@ -1,5 +1,6 @@
 import {
   pgTable,
+  serial,
   uuid,
   varchar,
   text,
@@ -10,8 +11,9 @@ import {
   pgEnum,
   index,
   uniqueIndex,
+  AnyPgColumn,
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 
 // ============================================
 // Enums
@@ -19,6 +21,8 @@ import { relations } from 'drizzle-orm';
 
 export const authProviderEnum = pgEnum('auth_provider', ['apple', 'google', 'email', 'demo', 'github', 'facebook']);
 
+export const userRoleEnum = pgEnum('user_role', ['user', 'moderator', 'admin']);
+
 export const investmentCategoryEnum = pgEnum('investment_category', [
   'Biotech',
   'Medical Devices',
@@ -75,8 +79,132 @@ export const notificationTypeEnum = pgEnum('notification_type', [
   'new_opportunity',
   'article',
   'system',
+  'like',
+  'poll_results',
+  'hashtag',
+  'mention',
+  'scheduled_post',
+  'repost',
+  'room_moderation',
+  'room_join_request',
+  'room_join_approved',
+  'room_proposal',
+  'room_status',
+  'deal_update',
+  'deal_interest',
+  'deal_interest_status',
+]);
+
+export const voteDirectionEnum = pgEnum('vote_direction', ['up', 'down']);
+
+export const pollDurationEnum = pgEnum('poll_duration', ['1day', '3days', '7days', 'none']);
+
+// Matches REACTION_TYPES in @medinvest/shared
+export const reactionTypeEnum = pgEnum('reaction_type', [
+  'like',
+  'love',
+  'laugh',
+  'wow',
+  'sad',
+  'fire',
+  'thinking',
+  'clap',
+]);
+
+export const mediaKindEnum = pgEnum('media_kind', ['image', 'video']);
+
+export const scheduledPostStatusEnum = pgEnum('scheduled_post_status', [
+  'scheduled',
+  'published',
+  'cancelled',
+  'failed',
+]);
+
+// Matches SAVED_ITEM_TYPES in @medinvest/shared
+export const savedItemTypeEnum = pgEnum('saved_item_type', ['post', 'article', 'deal', 'investment']);
+
+export const roomRoleEnum = pgEnum('room_role', ['member', 'moderator']);
+
+// Matches ROOM_VISIBILITIES in @medinvest/shared
+export const roomVisibilityEnum = pgEnum('room_visibility', ['public', 'private', 'invite_only']);
+
+// Matches ROOM_STATUSES in @medinvest/shared
+export const roomStatusEnum = pgEnum('room_status', ['pending', 'active', 'archived']);
+
+export const roomJoinRequestStatusEnum = pgEnum('room_join_request_status', [
+  'pending',
+  'approved',
+  'declined',
+]);
+
+export const roomMembershipEventTypeEnum = pgEnum('room_membership_event_type', ['join', 'leave']);
+
+// Matches reportReasonSchema in @medinvest/shared
+export const reportReasonEnum = pgEnum('report_reason', [
+  'spam',
+  'harassment',
+  'hate_speech',
+  'misinformation',
+  'inappropriate',
+  'violence',
+  'self_harm',
+  'other',
+]);
+
+export const reportTargetTypeEnum = pgEnum('report_target_type', [
+  'user',
+  'post',
+  'comment',
+  'message',
+]);
+
+export const roomModerationActionEnum = pgEnum('room_moderation_action', [
+  'remove_post',
+  'remove_comment',
+  'ban',
+  'unban',
+  'pin',
+  'unpin',
+  'add_moderator',
+  'remove_moderator',
+  'approve_join',
+  'decline_join',
+  'create_invite',
+  'revoke_invite',
+  'change_visibility',
 ]);
 
+// Matches DEAL_STAGES in @medinvest/shared
+export const dealStageEnum = pgEnum('deal_stage', [
+  'seed',
+  'series_a',
+  'series_b',
+  'series_c',
+  'growth',
+  'pre_ipo',
+]);
+
+// Matches DEAL_STATUSES in @medinvest/shared
+export const dealStatusEnum = pgEnum('deal_status', ['draft', 'published', 'closed']);
+
+// Matches DEAL_INTEREST_STATUSES in @medinvest/shared
+export const dealInterestStatusEnum = pgEnum('deal_interest_status', [
+  'new',
+  'contacted',
+  'committed',
+  'declined',
+]);
+
+// Matches DEAL_CONTACT_PREFERENCES in @medinvest/shared
+export const dealContactPreferenceEnum = pgEnum('deal_contact_preference', [
+  'email',
+  'phone',
+  'message',
+]);
+
+// Matches DEAL_ALERT_DELIVERIES in @medinvest/shared
+export const dealAlertDeliveryEnum = pgEnum('deal_alert_delivery', ['instant', 'daily']);
+
 // ============================================
 // Users Table
 // ============================================
@@ -88,6 +216,7 @@ export const users = pgTable(
     email: varchar('email', { length: 255 }).notNull().unique(),
     firstName: varchar('first_name', { length: 100 }),
     lastName: varchar('last_name', { length: 100 }),
+    username: varchar('username', { length: 30 }),
     phone: varchar('phone', { length: 20 }),
     avatarUrl: text('avatar_url'),
     provider: authProviderEnum('provider').notNull().default('email'),
@@ -95,6 +224,11 @@ export const users = pgTable(
     passwordHash: text('password_hash'),
     isVerified: boolean('is_verified').notNull().default(false),
     isAccredited: boolean('is_accredited').notNull().default(false),
+    role: userRoleEnum('role').notNull().default('user'),
+    // Sponsors can create and publish deals. Admins designate them.
+    isSponsor: boolean('is_sponsor').notNull().default(false),
+    // Whether alerts on watched deals arrive as they happen or in a daily digest
+    dealAlertDelivery: dealAlertDeliveryEnum('deal_alert_delivery').notNull().default('instant'),
     emailVerifiedAt: timestamp('email_verified_at'),
     lastLoginAt: timestamp('last_login_at'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -102,6 +236,8 @@ export const users = pgTable(
   },
   (table) => ({
     emailIdx: uniqueIndex('users_email_idx').on(table.email),
+    // Usernames are unique regardless of case, as @mentions are matched that way
+    usernameIdx: uniqueIndex('users_username_lower_idx').on(sql`lower(${table.username})`),
     providerIdx: index('users_provider_idx').on(table.provider, table.providerUserId),
   })
 );
@@ -188,6 +324,88 @@ export const notificationPreferences = pgTable('notification_preferences', {
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+// ============================================
+// Content Preferences Table
+// ============================================
+
+export const contentPreferences = pgTable('content_preferences', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id')
+    .notNull()
+    .unique()
+    .references(() => users.id, { onDelete: 'cascade' }),
+  preferences: text('preferences').notNull(), // JSON ContentPreferences
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// ============================================
+// User Follows Table
+// ============================================
+
+export const userFollows = pgTable(
+  'user_follows',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    followerId: uuid('follower_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    followingId: uuid('following_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    followerIdx: index('user_follows_follower_idx').on(table.followerId),
+    followingIdx: index('user_follows_following_idx').on(table.followingId),
+    pairIdx: uniqueIndex('user_follows_pair_idx').on(table.followerId, table.followingId),
+  })
+);
+
+// ============================================
+// User Blocks & Mutes Tables
+// ============================================
+
+export const userBlocks = pgTable(
+  'user_blocks',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    blockerId: uuid('blocker_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    blockedId: uuid('blocked_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    pairIdx: uniqueIndex('user_blocks_pair_idx').on(table.blockerId, table.blockedId),
+    blockedIdx: index('user_blocks_blocked_idx').on(table.blockedId),
+  })
+);
+
+export const userMutes = pgTable(
+  'user_mutes',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    muterId: uuid('muter_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    mutedId: uuid('muted_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    mutePosts: boolean('mute_posts').notNull().default(true),
+    muteComments: boolean('mute_comments').notNull().default(true),
+    muteMessages: boolean('mute_messages').notNull().default(false),
+    muteNotifications: boolean('mute_notifications').notNull().default(true),
+    // Null mutes forever
+    expiresAt: timestamp('expires_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    pairIdx: uniqueIndex('user_mutes_pair_idx').on(table.muterId, table.mutedId),
+  })
+);
+
 // ============================================
 // Investments Table
 // ============================================
@@ -291,6 +509,202 @@ export const investmentMilestones = pgTable(
   })
 );
 
+// ============================================
+// Deals Tables
+// ============================================
+
+// An offering run by a sponsor. Drafts are seen only by their sponsor and
+// admins; publishing lists the deal, and it closes at its deadline.
+export const deals = pgTable(
+  'deals',
+  {
+    id: serial('id').primaryKey(),
+    // Null for deals listed by the platform itself
+    sponsorId: uuid('sponsor_id').references(() => users.id, { onDelete: 'set null' }),
+    title: varchar('title', { length: 150 }).notNull(),
+    companyName: varchar('company_name', { length: 150 }).notNull(),
+    description: text('description').notNull(),
+    sector: varchar('sector', { length: 50 }).notNull(), // One of DEAL_SECTORS
+    stage: dealStageEnum('stage').notNull(),
+    status: dealStatusEnum('status').notNull().default('draft'),
+    targetRaise: decimal('target_raise', { precision: 15, scale: 2 }).notNull(),
+    currentRaise: decimal('current_raise', { precision: 15, scale: 2 }).notNull().default('0'),
+    minimumInvestment: decimal('minimum_investment', { precision: 15, scale: 2 }).notNull(),
+    maximumInvestment: decimal('maximum_investment', { precision: 15, scale: 2 }),
+    valuation: decimal('valuation', { precision: 15, scale: 2 }),
+    equityOffered: decimal('equity_offered', { precision: 5, scale: 2 }), // Percent
+    investorsCount: integer('investors_count').notNull().default(0),
+    highlights: text('highlights'), // JSON array as string
+    risks: text('risks'), // JSON array as string
+    team: text('team'), // JSON array of { name, role, background } as string
+    logoUrl: text('logo_url'),
+    coverImageUrl: text('cover_image_url'),
+    isFeatured: boolean('is_featured').notNull().default(false),
+    // Highest funding milestone (25, 50, 75 or 100 percent) watchers were told about
+    fundingAlertPercent: integer('funding_alert_percent').notNull().default(0),
+    deadline: timestamp('deadline').notNull(),
+    // Set once watchers are told the deadline is near; cleared if it moves
+    deadlineAlertedAt: timestamp('deadline_alerted_at'),
+    // Confidentiality agreement for the data room; null uses the standard one
+    ndaText: text('nda_text'),
+    // Bumped when the agreement changes, so everyone accepts the new one
+    ndaVersion: integer('nda_version').notNull().default(1),
+    publishedAt: timestamp('published_at'),
+    closedAt: timestamp('closed_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    statusPublishedAtIdx: index('deals_status_published_at_idx').on(table.status, table.publishedAt),
+    statusDeadlineIdx: index('deals_status_deadline_idx').on(table.status, table.deadline),
+    sponsorIdx: index('deals_sponsor_id_idx').on(table.sponsorId, table.createdAt),
+  })
+);
+
+export const dealDocuments = pgTable(
+  'deal_documents',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    dealId: integer('deal_id')
+      .notNull()
+      .references(() => deals.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 255 }).notNull(),
+    type: varchar('type', { length: 50 }).notNull(), // pdf, xlsx, etc.
+    // Private document storage key; only reachable through signed URLs
+    storageKey: text('storage_key'),
+    mimeType: varchar('mime_type', { length: 100 }),
+    sizeBytes: integer('size_bytes'),
+    // External link for documents added before the data room
+    url: text('url'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    dealIdIdx: index('deal_documents_deal_id_idx').on(table.dealId, table.createdAt),
+  })
+);
+
+// Data room confidentiality agreements accepted, one per user and agreement
+// version
+export const dealNdaAcceptances = pgTable(
+  'deal_nda_acceptances',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    dealId: integer('deal_id')
+      .notNull()
+      .references(() => deals.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    ndaVersion: integer('nda_version').notNull(),
+    ipAddress: varchar('ip_address', { length: 45 }),
+    acceptedAt: timestamp('accepted_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    dealUserVersionIdx: uniqueIndex('deal_nda_acceptances_deal_user_version_idx').on(
+      table.dealId,
+      table.userId,
+      table.ndaVersion
+    ),
+  })
+);
+
+// Each download of a data room document, for its sponsor
+export const dealDocumentViews = pgTable(
+  'deal_document_views',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    documentId: uuid('document_id')
+      .notNull()
+      .references(() => dealDocuments.id, { onDelete: 'cascade' }),
+    dealId: integer('deal_id')
+      .notNull()
+      .references(() => deals.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    viewedAt: timestamp('viewed_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    dealViewedAtIdx: index('deal_document_views_deal_viewed_at_idx').on(
+      table.dealId,
+      table.viewedAt
+    ),
+    documentIdx: index('deal_document_views_document_id_idx').on(table.documentId),
+  })
+);
+
+export const dealWatchers = pgTable(
+  'deal_watchers',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    dealId: integer('deal_id')
+      .notNull()
+      .references(() => deals.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    dealUserIdx: uniqueIndex('deal_watchers_deal_user_idx').on(table.dealId, table.userId),
+    userIdx: index('deal_watchers_user_id_idx').on(table.userId),
+  })
+);
+
+// Indications of interest, one per investor and deal, worked through by the
+// deal's sponsor
+export const dealInterests = pgTable(
+  'deal_interests',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    dealId: integer('deal_id')
+      .notNull()
+      .references(() => deals.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    amount: decimal('amount', { precision: 15, scale: 2 }),
+    message: text('message'),
+    contactPreference: dealContactPreferenceEnum('contact_preference').notNull().default('email'),
+    status: dealInterestStatusEnum('status').notNull().default('new'),
+    statusChangedAt: timestamp('status_changed_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    dealUserIdx: uniqueIndex('deal_interests_deal_user_idx').on(table.dealId, table.userId),
+    dealStatusIdx: index('deal_interests_deal_status_idx').on(
+      table.dealId,
+      table.status,
+      table.createdAt
+    ),
+    userIdx: index('deal_interests_user_id_idx').on(table.userId),
+  })
+);
+
+// Alerts for watchers on the daily digest, held until their next digest
+export const queuedDealAlerts = pgTable(
+  'queued_deal_alerts',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    dealId: integer('deal_id')
+      .notNull()
+      .references(() => deals.id, { onDelete: 'cascade' }),
+    title: varchar('title', { length: 255 }).notNull(),
+    body: text('body').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    userCreatedAtIdx: index('queued_deal_alerts_user_created_at_idx').on(
+      table.userId,
+      table.createdAt
+    ),
+  })
+);
+
 // ============================================
 // Portfolio (User Investments) Table
 // ============================================
@@ -413,26 +827,61 @@ export const articles = pgTable(
 );
 
 // ============================================
-// Article Bookmarks Table
+// Saved Collections Table
 // ============================================
 
-export const articleBookmarks = pgTable(
-  'article_bookmarks',
+export const savedCollections = pgTable(
+  'saved_collections',
   {
     id: uuid('id').defaultRandom().primaryKey(),
     userId: uuid('user_id')
       .notNull()
       .references(() => users.id, { onDelete: 'cascade' }),
-    articleId: uuid('article_id')
+    name: varchar('name', { length: 60 }).notNull(),
+    position: integer('position').notNull().default(0),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    userPositionIdx: index('saved_collections_user_position_idx').on(table.userId, table.position),
+    userNameIdx: uniqueIndex('saved_collections_user_name_idx').on(table.userId, table.name),
+  })
+);
+
+// ============================================
+// Saved Items Table
+// ============================================
+
+// Posts, articles, deals and investments a user has saved, optionally filed
+// in one of their collections. item_id is text because deals still use
+// numeric ids. Higher positions sort first.
+export const savedItems = pgTable(
+  'saved_items',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
       .notNull()
-      .references(() => articles.id, { onDelete: 'cascade' }),
+      .references(() => users.id, { onDelete: 'cascade' }),
+    itemType: savedItemTypeEnum('item_type').notNull(),
+    itemId: varchar('item_id', { length: 64 }).notNull(),
+    collectionId: uuid('collection_id').references(() => savedCollections.id, {
+      onDelete: 'set null',
+    }),
+    note: text('note'),
+    position: integer('position').notNull().default(0),
     createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
   },
   (table) => ({
-    userIdIdx: index('bookmarks_user_id_idx').on(table.userId),
-    userArticleIdx: uniqueIndex('bookmarks_user_article_idx').on(
+    userItemIdx: uniqueIndex('saved_items_user_item_idx').on(
       table.userId,
-      table.articleId
+      table.itemType,
+      table.itemId
+    ),
+    userPositionIdx: index('saved_items_user_position_idx').on(table.userId, table.position),
+    collectionPositionIdx: index('saved_items_collection_position_idx').on(
+      table.collectionId,
+      table.position
     ),
   })
 );
@@ -515,54 +964,788 @@ export const directMessages = pgTable(
 );
 
 // ============================================
-// Relations
+// Rooms Tables
 // ============================================
 
-export const usersRelations = relations(users, ({ many, one }) => ({
-  sessions: many(userSessions),
-  pushTokens: many(pushTokens),
-  notificationPreferences: one(notificationPreferences),
-  portfolioInvestments: many(portfolioInvestments),
-  transactions: many(transactions),
-  paymentMethods: many(paymentMethods),
-  bookmarks: many(articleBookmarks),
-  notifications: many(notifications),
-  dmConversationsAsUser1: many(dmConversations, { relationName: 'user1' }),
-  dmConversationsAsUser2: many(dmConversations, { relationName: 'user2' }),
-  sentMessages: many(directMessages),
-}));
-
-export const dmConversationsRelations = relations(dmConversations, ({ one, many }) => ({
-  user1: one(users, {
-    fields: [dmConversations.user1Id],
-    references: [users.id],
-    relationName: 'user1',
-  }),
-  user2: one(users, {
-    fields: [dmConversations.user2Id],
-    references: [users.id],
-    relationName: 'user2',
-  }),
-  messages: many(directMessages),
-}));
-
-export const directMessagesRelations = relations(directMessages, ({ one }) => ({
-  conversation: one(dmConversations, {
-    fields: [directMessages.conversationId],
-    references: [dmConversations.id],
-  }),
-  sender: one(users, {
-    fields: [directMessages.senderId],
-    references: [users.id],
-  }),
-}));
+// Integer ids, as room ids appear in post, hashtag and scheduled post rows
+export const rooms = pgTable(
+  'rooms',
+  {
+    id: serial('id').primaryKey(),
+    slug: varchar('slug', { length: 60 }).notNull().unique(),
+    name: varchar('name', { length: 100 }).notNull(),
+    description: text('description').notNull(),
+    icon: varchar('icon', { length: 50 }).notNull(),
+    color: varchar('color', { length: 7 }).notNull(),
+    // One of ROOM_SPECIALTIES in @medinvest/shared; null for rooms outside the taxonomy
+    specialty: varchar('specialty', { length: 50 }),
+    rules: text('rules'), // JSON array as string
+    // Posts in private and invite-only rooms are shown to members only.
+    // Private rooms take join requests; invite-only rooms are joined by invite.
+    visibility: roomVisibilityEnum('visibility').notNull().default('public'),
+    // Proposed rooms are pending until an admin approves them. Archived rooms
+    // stay readable but take no new posts or members.
+    status: roomStatusEnum('status').notNull().default('active'),
+    // Who proposed the room; null for the seeded rooms
+    createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+    reviewedBy: uuid('reviewed_by').references(() => users.id, { onDelete: 'set null' }),
+    // When an admin approved or last restored the room. Inactivity is counted
+    // from here; rooms without it (the seeded ones) are never archived.
+    activatedAt: timestamp('activated_at'),
+    archivedAt: timestamp('archived_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    // Room names are unique regardless of case, like usernames
+    nameIdx: uniqueIndex('rooms_name_lower_idx').on(sql`lower(${table.name})`),
+    statusIdx: index('rooms_status_idx').on(table.status, table.createdAt),
+  })
+);
 
-export const investmentsRelations = relations(investments, ({ many }) => ({
-  documents: many(investmentDocuments),
-  teamMembers: many(investmentTeamMembers),
-  milestones: many(investmentMilestones),
-  portfolioInvestments: many(portfolioInvestments),
-}));
+export const roomMemberships = pgTable(
+  'room_memberships',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    roomId: integer('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    role: roomRoleEnum('role').notNull().default('member'),
+    // When the member accepted the room's rules on joining
+    rulesAcceptedAt: timestamp('rules_accepted_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    roomUserIdx: uniqueIndex('room_memberships_room_user_idx').on(table.roomId, table.userId),
+    userIdx: index('room_memberships_user_idx').on(table.userId, table.createdAt),
+  })
+);
+
+// Every join and leave, including bans, kept for room analytics as
+// memberships are deleted when members leave
+export const roomMembershipEvents = pgTable(
+  'room_membership_events',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    roomId: integer('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    type: roomMembershipEventTypeEnum('type').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    roomCreatedAtIdx: index('room_membership_events_room_created_at_idx').on(
+      table.roomId,
+      table.createdAt
+    ),
+  })
+);
+
+// One row per banned user. A ban without expires_at is permanent; banning
+// someone again replaces their row.
+export const roomBans = pgTable(
+  'room_bans',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    roomId: integer('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    moderatorId: uuid('moderator_id').references(() => users.id, { onDelete: 'set null' }),
+    reason: text('reason').notNull(),
+    expiresAt: timestamp('expires_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    roomUserIdx: uniqueIndex('room_bans_room_user_idx').on(table.roomId, table.userId),
+  })
+);
+
+// One row per user asking to join a private room. Asking again after a
+// decline reopens the row.
+export const roomJoinRequests = pgTable(
+  'room_join_requests',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    roomId: integer('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    status: roomJoinRequestStatusEnum('status').notNull().default('pending'),
+    message: text('message'),
+    reviewedBy: uuid('reviewed_by').references(() => users.id, { onDelete: 'set null' }),
+    reviewedAt: timestamp('reviewed_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    roomUserIdx: uniqueIndex('room_join_requests_room_user_idx').on(table.roomId, table.userId),
+    roomStatusIdx: index('room_join_requests_room_status_idx').on(
+      table.roomId,
+      table.status,
+      table.createdAt
+    ),
+  })
+);
+
+// Invite links into a room, which skip join requests. Without expires_at or
+// max_uses an invite lasts until it is revoked.
+export const roomInvites = pgTable(
+  'room_invites',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    roomId: integer('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    code: varchar('code', { length: 32 }).notNull().unique(),
+    createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+    maxUses: integer('max_uses'),
+    usesCount: integer('uses_count').notNull().default(0),
+    expiresAt: timestamp('expires_at'),
+    revokedAt: timestamp('revoked_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    roomIdx: index('room_invites_room_idx').on(table.roomId, table.createdAt),
+  })
+);
+
+// Announcements pinned to the top of a room by its moderators
+export const roomPinnedPosts = pgTable(
+  'room_pinned_posts',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    roomId: integer('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    postId: uuid('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    pinnedBy: uuid('pinned_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    roomPostIdx: uniqueIndex('room_pinned_posts_room_post_idx').on(table.roomId, table.postId),
+  })
+);
+
+// What a room's moderators did, for the room's moderators to review. Post and
+// comment ids carry no foreign keys as the log outlives removed content.
+export const roomModerationLog = pgTable(
+  'room_moderation_log',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    roomId: integer('room_id')
+      .notNull()
+      .references(() => rooms.id, { onDelete: 'cascade' }),
+    moderatorId: uuid('moderator_id').references(() => users.id, { onDelete: 'set null' }),
+    action: roomModerationActionEnum('action').notNull(),
+    targetUserId: uuid('target_user_id').references(() => users.id, { onDelete: 'set null' }),
+    postId: uuid('post_id'),
+    commentId: uuid('comment_id'),
+    reason: text('reason'),
+    // Start of the removed post or comment, kept for review
+    excerpt: text('excerpt'),
+    // End of a temporary ban
+    expiresAt: timestamp('expires_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    roomCreatedAtIdx: index('room_moderation_log_room_created_at_idx').on(
+      table.roomId,
+      table.createdAt
+    ),
+  })
+);
+
+// ============================================
+// Posts Tables
+// ============================================
+
+export const posts = pgTable(
+  'posts',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    authorId: uuid('author_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    roomId: integer('room_id').references(() => rooms.id, { onDelete: 'set null' }),
+    content: text('content').notNull(),
+    images: text('images'), // JSON array as string
+    videoUrl: text('video_url'),
+    hashtags: text('hashtags'), // JSON array as string
+    mentions: text('mentions'), // JSON array as string
+    isAnonymous: boolean('is_anonymous').notNull().default(false),
+    // Set for reposts; cleared when the original is deleted, while is_repost
+    // stays true so quotes can show the original as unavailable
+    repostOfId: uuid('repost_of_id').references((): AnyPgColumn => posts.id, {
+      onDelete: 'set null',
+    }),
+    isRepost: boolean('is_repost').notNull().default(false),
+    upvotes: integer('upvotes').notNull().default(0),
+    downvotes: integer('downvotes').notNull().default(0),
+    commentsCount: integer('comments_count').notNull().default(0),
+    repostsCount: integer('reposts_count').notNull().default(0),
+    editedAt: timestamp('edited_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    authorIdIdx: index('posts_author_id_idx').on(table.authorId),
+    roomIdIdx: index('posts_room_id_idx').on(table.roomId),
+    createdAtIdx: index('posts_created_at_idx').on(table.createdAt, table.id),
+    repostOfIdx: index('posts_repost_of_id_idx').on(table.repostOfId),
+    // One plain (commentary-free) repost of a post per user
+    plainRepostIdx: uniqueIndex('posts_plain_repost_idx')
+      .on(table.authorId, table.repostOfId)
+      .where(sql`${table.content} = ''`),
+  })
+);
+
+export const postVotes = pgTable(
+  'post_votes',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    postId: uuid('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    direction: voteDirectionEnum('direction').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    postIdIdx: index('post_votes_post_id_idx').on(table.postId),
+    userPostIdx: uniqueIndex('post_votes_user_post_idx').on(table.userId, table.postId),
+  })
+);
+
+// One row per edit, keeping the text from before and after it
+export const postRevisions = pgTable(
+  'post_revisions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    postId: uuid('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    editorId: uuid('editor_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    previousContent: text('previous_content').notNull(),
+    content: text('content').notNull(),
+    // JSON array of diff segments, computed when the edit is saved. Null for
+    // revisions stored before diffs were.
+    diff: text('diff'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    postIdIdx: index('post_revisions_post_id_idx').on(table.postId, table.createdAt),
+  })
+);
+
+// Posts pinned to their author's profile. Deleting a post removes its pin.
+export const pinnedPosts = pgTable(
+  'pinned_posts',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    postId: uuid('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    position: integer('position').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    userPostIdx: uniqueIndex('pinned_posts_user_post_idx').on(table.userId, table.postId),
+    userPositionIdx: index('pinned_posts_user_position_idx').on(table.userId, table.position),
+  })
+);
+
+// Posts waiting to be published at a future time. The scheduler publishes due
+// rows and links the created post; the row is kept as a record afterwards.
+export const scheduledPosts = pgTable(
+  'scheduled_posts',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    authorId: uuid('author_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    roomId: integer('room_id').references(() => rooms.id, { onDelete: 'set null' }),
+    content: text('content').notNull(),
+    images: text('images'), // JSON array as string
+    videoUrl: text('video_url'),
+    poll: text('poll'), // JSON poll input as string
+    isAnonymous: boolean('is_anonymous').notNull().default(false),
+    scheduledAt: timestamp('scheduled_at').notNull(),
+    status: scheduledPostStatusEnum('status').notNull().default('scheduled'),
+    attempts: integer('attempts').notNull().default(0),
+    // When to retry after a failed publish; null until one fails
+    nextAttemptAt: timestamp('next_attempt_at'),
+    failureReason: text('failure_reason'),
+    postId: uuid('post_id').references(() => posts.id, { onDelete: 'set null' }),
+    publishedAt: timestamp('published_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    dueIdx: index('scheduled_posts_due_idx').on(table.status, table.scheduledAt),
+    authorIdx: index('scheduled_posts_author_idx').on(table.authorId, table.scheduledAt),
+  })
+);
+
+export const postReactions = pgTable(
+  'post_reactions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    postId: uuid('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    type: reactionTypeEnum('type').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    postIdIdx: index('post_reactions_post_id_idx').on(table.postId, table.type),
+    userPostIdx: uniqueIndex('post_reactions_user_post_idx').on(table.userId, table.postId),
+  })
+);
+
+// ============================================
+// Polls Tables
+// ============================================
+
+export const polls = pgTable(
+  'polls',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    postId: uuid('post_id')
+      .notNull()
+      .unique()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    question: varchar('question', { length: 150 }).notNull(),
+    duration: pollDurationEnum('duration').notNull().default('none'),
+    allowMultiple: boolean('allow_multiple').notNull().default(false),
+    isAnonymous: boolean('is_anonymous').notNull().default(false),
+    votesCount: integer('votes_count').notNull().default(0), // Voters, not options chosen
+    endsAt: timestamp('ends_at'), // Null for polls that never close
+    resultsNotifiedAt: timestamp('results_notified_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    endsAtIdx: index('polls_ends_at_idx').on(table.endsAt),
+  })
+);
+
+export const pollOptions = pgTable(
+  'poll_options',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    pollId: uuid('poll_id')
+      .notNull()
+      .references(() => polls.id, { onDelete: 'cascade' }),
+    text: varchar('text', { length: 50 }).notNull(),
+    position: integer('position').notNull(),
+    votesCount: integer('votes_count').notNull().default(0),
+  },
+  (table) => ({
+    pollIdIdx: index('poll_options_poll_id_idx').on(table.pollId, table.position),
+  })
+);
+
+// One ballot per user per poll; the unique index is what makes voting tamper-proof
+export const pollVotes = pgTable(
+  'poll_votes',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    pollId: uuid('poll_id')
+      .notNull()
+      .references(() => polls.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    userPollIdx: uniqueIndex('poll_votes_user_poll_idx').on(table.userId, table.pollId),
+    pollIdIdx: index('poll_votes_poll_id_idx').on(table.pollId),
+  })
+);
+
+export const pollVoteOptions = pgTable(
+  'poll_vote_options',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    voteId: uuid('vote_id')
+      .notNull()
+      .references(() => pollVotes.id, { onDelete: 'cascade' }),
+    optionId: uuid('option_id')
+      .notNull()
+      .references(() => pollOptions.id, { onDelete: 'cascade' }),
+  },
+  (table) => ({
+    voteOptionIdx: uniqueIndex('poll_vote_options_vote_option_idx').on(table.voteId, table.optionId),
+  })
+);
+
+// One row per hashtag used in a post or comment, kept in sync on write so
+// trending counts are a single indexed range scan
+export const hashtagUsages = pgTable(
+  'hashtag_usages',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    tag: varchar('tag', { length: 100 }).notNull(),
+    postId: uuid('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    commentId: uuid('comment_id').references(() => comments.id, { onDelete: 'cascade' }),
+    roomId: integer('room_id'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    createdAtIdx: index('hashtag_usages_created_at_idx').on(table.createdAt),
+    roomCreatedAtIdx: index('hashtag_usages_room_created_at_idx').on(table.roomId, table.createdAt),
+    postIdIdx: index('hashtag_usages_post_id_idx').on(table.postId),
+    tagCreatedAtIdx: index('hashtag_usages_tag_created_at_idx').on(table.tag, table.createdAt),
+  })
+);
+
+// A hashtag, created the first time it is used. Usages keep the tag text so
+// trending and tag feeds don't need a join.
+export const hashtags = pgTable('hashtags', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  tag: varchar('tag', { length: 100 }).notNull().unique(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+export const hashtagFollows = pgTable(
+  'hashtag_follows',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    hashtagId: uuid('hashtag_id')
+      .notNull()
+      .references(() => hashtags.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    userHashtagIdx: uniqueIndex('hashtag_follows_user_hashtag_idx').on(table.userId, table.hashtagId),
+    hashtagIdx: index('hashtag_follows_hashtag_id_idx').on(table.hashtagId),
+  })
+);
+
+// A user @mentioned in a post or comment, resolved when the content is saved.
+// The handle is kept as written so links survive the user changing username.
+export const mentions = pgTable(
+  'mentions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    postId: uuid('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    commentId: uuid('comment_id').references(() => comments.id, { onDelete: 'cascade' }),
+    mentionedUserId: uuid('mentioned_user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    handle: varchar('handle', { length: 100 }).notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    postIdIdx: index('mentions_post_id_idx').on(table.postId),
+    commentIdIdx: index('mentions_comment_id_idx').on(table.commentId),
+    mentionedUserIdx: index('mentions_mentioned_user_idx').on(table.mentionedUserId),
+  })
+);
+
+// ============================================
+// Comments Tables
+// ============================================
+
+export const comments = pgTable(
+  'comments',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    postId: uuid('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    authorId: uuid('author_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    parentId: uuid('parent_id').references((): AnyPgColumn => comments.id, { onDelete: 'cascade' }),
+    depth: integer('depth').notNull().default(0),
+    content: text('content').notNull(),
+    isAnonymous: boolean('is_anonymous').notNull().default(false),
+    repliesCount: integer('replies_count').notNull().default(0),
+    editedAt: timestamp('edited_at'),
+    deletedAt: timestamp('deleted_at'), // Soft delete keeps the thread intact
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    postThreadIdx: index('comments_post_thread_idx').on(table.postId, table.parentId, table.createdAt),
+    parentIdx: index('comments_parent_id_idx').on(table.parentId, table.createdAt),
+    authorIdIdx: index('comments_author_id_idx').on(table.authorId),
+  })
+);
+
+export const commentRevisions = pgTable(
+  'comment_revisions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    commentId: uuid('comment_id')
+      .notNull()
+      .references(() => comments.id, { onDelete: 'cascade' }),
+    content: text('content').notNull(), // Content before the edit
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    commentIdIdx: index('comment_revisions_comment_id_idx').on(table.commentId, table.createdAt),
+  })
+);
+
+export const commentReactions = pgTable(
+  'comment_reactions',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    commentId: uuid('comment_id')
+      .notNull()
+      .references(() => comments.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    type: reactionTypeEnum('type').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    commentIdIdx: index('comment_reactions_comment_id_idx').on(table.commentId, table.type),
+    userCommentIdx: uniqueIndex('comment_reactions_user_comment_idx').on(table.userId, table.commentId),
+  })
+);
+
+// ============================================
+// Media Uploads Table
+// ============================================
+
+export const mediaUploads = pgTable(
+  'media_uploads',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    ownerId: uuid('owner_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    kind: mediaKindEnum('kind').notNull(),
+    mimeType: varchar('mime_type', { length: 100 }).notNull(),
+    storageKey: text('storage_key').notNull(),
+    url: text('url').notNull(),
+    thumbnailKey: text('thumbnail_key'),
+    thumbnailUrl: text('thumbnail_url'),
+    blurhash: varchar('blurhash', { length: 100 }),
+    width: integer('width'),
+    height: integer('height'),
+    sizeBytes: integer('size_bytes').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    ownerIdIdx: index('media_uploads_owner_id_idx').on(table.ownerId),
+    urlIdx: index('media_uploads_url_idx').on(table.url),
+  })
+);
+
+// ============================================
+// Link Previews Table
+// ============================================
+
+// Unfurled metadata for links in posts and messages, shared by everyone who
+// links the same URL. Failed fetches are cached too so they aren't retried
+// on every read.
+export const linkPreviews = pgTable(
+  'link_previews',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    url: text('url').notNull(),
+    finalUrl: text('final_url'),
+    title: varchar('title', { length: 300 }),
+    description: text('description'),
+    imageUrl: text('image_url'),
+    siteName: varchar('site_name', { length: 200 }),
+    failed: boolean('failed').notNull().default(false),
+    fetchedAt: timestamp('fetched_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    urlIdx: uniqueIndex('link_previews_url_idx').on(table.url),
+  })
+);
+
+// ============================================
+// Anonymity Tables
+// ============================================
+
+// The pseudonym an anonymous author goes by within one post's thread
+export const anonymousIdentities = pgTable(
+  'anonymous_identities',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    postId: uuid('post_id')
+      .notNull()
+      .references(() => posts.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    pseudonym: varchar('pseudonym', { length: 60 }).notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    postUserIdx: uniqueIndex('anonymous_identities_post_user_idx').on(table.postId, table.userId),
+    postPseudonymIdx: uniqueIndex('anonymous_identities_post_pseudonym_idx').on(
+      table.postId,
+      table.pseudonym
+    ),
+  })
+);
+
+// Audit log of moderators revealing anonymous authors. Rows outlive the
+// content and accounts they refer to.
+export const anonymityReveals = pgTable(
+  'anonymity_reveals',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    moderatorId: uuid('moderator_id').references(() => users.id, { onDelete: 'set null' }),
+    authorId: uuid('author_id').references(() => users.id, { onDelete: 'set null' }),
+    postId: uuid('post_id').references(() => posts.id, { onDelete: 'set null' }),
+    commentId: uuid('comment_id').references(() => comments.id, { onDelete: 'set null' }),
+    reason: text('reason').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    createdAtIdx: index('anonymity_reveals_created_at_idx').on(table.createdAt),
+    authorIdIdx: index('anonymity_reveals_author_id_idx').on(table.authorId),
+  })
+);
+
+// ============================================
+// Reports Tables
+// ============================================
+
+// A user's report of a user, post, comment or message. Reports of posts and
+// comments keep the room they were in, so rooms can count the reports made
+// about them. Reporting the same thing twice keeps the first report.
+export const reports = pgTable(
+  'reports',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+    reporterId: uuid('reporter_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    targetType: reportTargetTypeEnum('target_type').notNull(),
+    targetId: uuid('target_id').notNull(),
+    roomId: integer('room_id').references(() => rooms.id, { onDelete: 'set null' }),
+    reason: reportReasonEnum('reason').notNull(),
+    details: text('details'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => ({
+    reporterTargetIdx: uniqueIndex('reports_reporter_target_idx').on(
+      table.reporterId,
+      table.targetType,
+      table.targetId
+    ),
+    roomCreatedAtIdx: index('reports_room_created_at_idx').on(table.roomId, table.createdAt),
+  })
+);
+
+// ============================================
+// Relations
+// ============================================
+
+export const usersRelations = relations(users, ({ many, one }) => ({
+  sessions: many(userSessions),
+  pushTokens: many(pushTokens),
+  notificationPreferences: one(notificationPreferences),
+  contentPreferences: one(contentPreferences),
+  following: many(userFollows, { relationName: 'follower' }),
+  followers: many(userFollows, { relationName: 'following' }),
+  portfolioInvestments: many(portfolioInvestments),
+  transactions: many(transactions),
+  paymentMethods: many(paymentMethods),
+  savedCollections: many(savedCollections),
+  savedItems: many(savedItems),
+  notifications: many(notifications),
+  dmConversationsAsUser1: many(dmConversations, { relationName: 'user1' }),
+  dmConversationsAsUser2: many(dmConversations, { relationName: 'user2' }),
+  sentMessages: many(directMessages),
+  posts: many(posts),
+  postVotes: many(postVotes),
+  comments: many(comments),
+  postReactions: many(postReactions),
+  commentReactions: many(commentReactions),
+  mediaUploads: many(mediaUploads),
+  pinnedPosts: many(pinnedPosts),
+  hashtagFollows: many(hashtagFollows),
+  mentions: many(mentions),
+  roomMemberships: many(roomMemberships),
+  sponsoredDeals: many(deals),
+  watchedDeals: many(dealWatchers),
+}));
+
+export const userFollowsRelations = relations(userFollows, ({ one }) => ({
+  follower: one(users, {
+    fields: [userFollows.followerId],
+    references: [users.id],
+    relationName: 'follower',
+  }),
+  following: one(users, {
+    fields: [userFollows.followingId],
+    references: [users.id],
+    relationName: 'following',
+  }),
+}));
+
+export const dmConversationsRelations = relations(dmConversations, ({ one, many }) => ({
+  user1: one(users, {
+    fields: [dmConversations.user1Id],
+    references: [users.id],
+    relationName: 'user1',
+  }),
+  user2: one(users, {
+    fields: [dmConversations.user2Id],
+    references: [users.id],
+    relationName: 'user2',
+  }),
+  messages: many(directMessages),
+}));
+
+export const directMessagesRelations = relations(directMessages, ({ one }) => ({
+  conversation: one(dmConversations, {
+    fields: [directMessages.conversationId],
+    references: [dmConversations.id],
+  }),
+  sender: one(users, {
+    fields: [directMessages.senderId],
+    references: [users.id],
+  }),
+}));
+
+export const investmentsRelations = relations(investments, ({ many }) => ({
+  documents: many(investmentDocuments),
+  teamMembers: many(investmentTeamMembers),
+  milestones: many(investmentMilestones),
+  portfolioInvestments: many(portfolioInvestments),
+}));
 
 export const investmentDocumentsRelations = relations(investmentDocuments, ({ one }) => ({
   investment: one(investments, {
@@ -585,6 +1768,33 @@ export const investmentMilestonesRelations = relations(investmentMilestones, ({
   }),
 }));
 
+export const dealsRelations = relations(deals, ({ one, many }) => ({
+  sponsor: one(users, {
+    fields: [deals.sponsorId],
+    references: [users.id],
+  }),
+  documents: many(dealDocuments),
+  watchers: many(dealWatchers),
+}));
+
+export const dealDocumentsRelations = relations(dealDocuments, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealDocuments.dealId],
+    references: [deals.id],
+  }),
+}));
+
+export const dealWatchersRelations = relations(dealWatchers, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealWatchers.dealId],
+    references: [deals.id],
+  }),
+  user: one(users, {
+    fields: [dealWatchers.userId],
+    references: [users.id],
+  }),
+}));
+
 export const portfolioInvestmentsRelations = relations(portfolioInvestments, ({ one, many }) => ({
   user: one(users, {
     fields: [portfolioInvestments.userId],
@@ -612,17 +1822,346 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
   }),
 }));
 
-export const articlesRelations = relations(articles, ({ many }) => ({
-  bookmarks: many(articleBookmarks),
+export const savedCollectionsRelations = relations(savedCollections, ({ one, many }) => ({
+  user: one(users, {
+    fields: [savedCollections.userId],
+    references: [users.id],
+  }),
+  items: many(savedItems),
+}));
+
+export const savedItemsRelations = relations(savedItems, ({ one }) => ({
+  user: one(users, {
+    fields: [savedItems.userId],
+    references: [users.id],
+  }),
+  collection: one(savedCollections, {
+    fields: [savedItems.collectionId],
+    references: [savedCollections.id],
+  }),
+}));
+
+export const roomsRelations = relations(rooms, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [rooms.createdBy],
+    references: [users.id],
+  }),
+  memberships: many(roomMemberships),
+  posts: many(posts),
+  bans: many(roomBans),
+  joinRequests: many(roomJoinRequests),
+  invites: many(roomInvites),
+  pinnedPosts: many(roomPinnedPosts),
+  moderationLog: many(roomModerationLog),
+}));
+
+export const roomMembershipsRelations = relations(roomMemberships, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomMemberships.roomId],
+    references: [rooms.id],
+  }),
+  user: one(users, {
+    fields: [roomMemberships.userId],
+    references: [users.id],
+  }),
+}));
+
+export const roomMembershipEventsRelations = relations(roomMembershipEvents, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomMembershipEvents.roomId],
+    references: [rooms.id],
+  }),
+  user: one(users, {
+    fields: [roomMembershipEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+export const roomBansRelations = relations(roomBans, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomBans.roomId],
+    references: [rooms.id],
+  }),
+  user: one(users, {
+    fields: [roomBans.userId],
+    references: [users.id],
+  }),
+}));
+
+export const roomJoinRequestsRelations = relations(roomJoinRequests, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomJoinRequests.roomId],
+    references: [rooms.id],
+  }),
+  user: one(users, {
+    fields: [roomJoinRequests.userId],
+    references: [users.id],
+  }),
+}));
+
+export const roomInvitesRelations = relations(roomInvites, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomInvites.roomId],
+    references: [rooms.id],
+  }),
+}));
+
+export const roomPinnedPostsRelations = relations(roomPinnedPosts, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomPinnedPosts.roomId],
+    references: [rooms.id],
+  }),
+  post: one(posts, {
+    fields: [roomPinnedPosts.postId],
+    references: [posts.id],
+  }),
+}));
+
+export const roomModerationLogRelations = relations(roomModerationLog, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomModerationLog.roomId],
+    references: [rooms.id],
+  }),
+}));
+
+export const postsRelations = relations(posts, ({ one, many }) => ({
+  author: one(users, {
+    fields: [posts.authorId],
+    references: [users.id],
+  }),
+  room: one(rooms, {
+    fields: [posts.roomId],
+    references: [rooms.id],
+  }),
+  votes: many(postVotes),
+  comments: many(comments),
+  reactions: many(postReactions),
+  poll: one(polls),
+  hashtagUsages: many(hashtagUsages),
+  revisions: many(postRevisions),
+  pins: many(pinnedPosts),
+  mentions: many(mentions),
+  repostOf: one(posts, {
+    fields: [posts.repostOfId],
+    references: [posts.id],
+    relationName: 'reposts',
+  }),
+  reposts: many(posts, { relationName: 'reposts' }),
+}));
+
+export const pinnedPostsRelations = relations(pinnedPosts, ({ one }) => ({
+  user: one(users, {
+    fields: [pinnedPosts.userId],
+    references: [users.id],
+  }),
+  post: one(posts, {
+    fields: [pinnedPosts.postId],
+    references: [posts.id],
+  }),
+}));
+
+export const scheduledPostsRelations = relations(scheduledPosts, ({ one }) => ({
+  author: one(users, {
+    fields: [scheduledPosts.authorId],
+    references: [users.id],
+  }),
+  post: one(posts, {
+    fields: [scheduledPosts.postId],
+    references: [posts.id],
+  }),
+}));
+
+export const postRevisionsRelations = relations(postRevisions, ({ one }) => ({
+  post: one(posts, {
+    fields: [postRevisions.postId],
+    references: [posts.id],
+  }),
+  editor: one(users, {
+    fields: [postRevisions.editorId],
+    references: [users.id],
+  }),
+}));
+
+export const postVotesRelations = relations(postVotes, ({ one }) => ({
+  post: one(posts, {
+    fields: [postVotes.postId],
+    references: [posts.id],
+  }),
+  user: one(users, {
+    fields: [postVotes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const commentsRelations = relations(comments, ({ one, many }) => ({
+  post: one(posts, {
+    fields: [comments.postId],
+    references: [posts.id],
+  }),
+  author: one(users, {
+    fields: [comments.authorId],
+    references: [users.id],
+  }),
+  parent: one(comments, {
+    fields: [comments.parentId],
+    references: [comments.id],
+    relationName: 'replies',
+  }),
+  replies: many(comments, { relationName: 'replies' }),
+  revisions: many(commentRevisions),
+  reactions: many(commentReactions),
+  mentions: many(mentions),
+}));
+
+export const commentRevisionsRelations = relations(commentRevisions, ({ one }) => ({
+  comment: one(comments, {
+    fields: [commentRevisions.commentId],
+    references: [comments.id],
+  }),
+}));
+
+export const postReactionsRelations = relations(postReactions, ({ one }) => ({
+  post: one(posts, {
+    fields: [postReactions.postId],
+    references: [posts.id],
+  }),
+  user: one(users, {
+    fields: [postReactions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const commentReactionsRelations = relations(commentReactions, ({ one }) => ({
+  comment: one(comments, {
+    fields: [commentReactions.commentId],
+    references: [comments.id],
+  }),
+  user: one(users, {
+    fields: [commentReactions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const pollsRelations = relations(polls, ({ one, many }) => ({
+  post: one(posts, {
+    fields: [polls.postId],
+    references: [posts.id],
+  }),
+  options: many(pollOptions),
+  votes: many(pollVotes),
+}));
+
+export const pollOptionsRelations = relations(pollOptions, ({ one }) => ({
+  poll: one(polls, {
+    fields: [pollOptions.pollId],
+    references: [polls.id],
+  }),
+}));
+
+export const pollVotesRelations = relations(pollVotes, ({ one, many }) => ({
+  poll: one(polls, {
+    fields: [pollVotes.pollId],
+    references: [polls.id],
+  }),
+  user: one(users, {
+    fields: [pollVotes.userId],
+    references: [users.id],
+  }),
+  options: many(pollVoteOptions),
+}));
+
+export const pollVoteOptionsRelations = relations(pollVoteOptions, ({ one }) => ({
+  vote: one(pollVotes, {
+    fields: [pollVoteOptions.voteId],
+    references: [pollVotes.id],
+  }),
+  option: one(pollOptions, {
+    fields: [pollVoteOptions.optionId],
+    references: [pollOptions.id],
+  }),
+}));
+
+export const hashtagUsagesRelations = relations(hashtagUsages, ({ one }) => ({
+  post: one(posts, {
+    fields: [hashtagUsages.postId],
+    references: [posts.id],
+  }),
+}));
+
+export const hashtagsRelations = relations(hashtags, ({ many }) => ({
+  follows: many(hashtagFollows),
+}));
+
+export const hashtagFollowsRelations = relations(hashtagFollows, ({ one }) => ({
+  user: one(users, {
+    fields: [hashtagFollows.userId],
+    references: [users.id],
+  }),
+  hashtag: one(hashtags, {
+    fields: [hashtagFollows.hashtagId],
+    references: [hashtags.id],
+  }),
+}));
+
+export const mentionsRelations = relations(mentions, ({ one }) => ({
+  post: one(posts, {
+    fields: [mentions.postId],
+    references: [posts.id],
+  }),
+  comment: one(comments, {
+    fields: [mentions.commentId],
+    references: [comments.id],
+  }),
+  mentionedUser: one(users, {
+    fields: [mentions.mentionedUserId],
+    references: [users.id],
+  }),
+}));
+
+export const mediaUploadsRelations = relations(mediaUploads, ({ one }) => ({
+  owner: one(users, {
+    fields: [mediaUploads.ownerId],
+    references: [users.id],
+  }),
 }));
 
-export const articleBookmarksRelations = relations(articleBookmarks, ({ one }) => ({
+export const anonymousIdentitiesRelations = relations(anonymousIdentities, ({ one }) => ({
+  post: one(posts, {
+    fields: [anonymousIdentities.postId],
+    references: [posts.id],
+  }),
   user: one(users, {
-    fields: [articleBookmarks.userId],
+    fields: [anonymousIdentities.userId],
+    references: [users.id],
+  }),
+}));
+
+export const anonymityRevealsRelations = relations(anonymityReveals, ({ one }) => ({
+  moderator: one(users, {
+    fields: [anonymityReveals.moderatorId],
+    references: [users.id],
+  }),
+  author: one(users, {
+    fields: [anonymityReveals.authorId],
+    references: [users.id],
+  }),
+  post: one(posts, {
+    fields: [anonymityReveals.postId],
+    references: [posts.id],
+  }),
+  comment: one(comments, {
+    fields: [anonymityReveals.commentId],
+    references: [comments.id],
+  }),
+}));
+
+export const reportsRelations = relations(reports, ({ one }) => ({
+  reporter: one(users, {
+    fields: [reports.reporterId],
     references: [users.id],
   }),
-  article: one(articles, {
-    fields: [articleBookmarks.articleId],
-    references: [articles.id],
+  room: one(rooms, {
+    fields: [reports.roomId],
+    references: [rooms.id],
   }),
 }));
@@ -0,0 +1,141 @@
+/**
+ * Document Storage
+ * Where deal data room documents live: a private directory on local disk by
+ * default, or a private S3-compatible bucket when DOCUMENT_STORAGE=s3.
+ * Nothing here is publicly reachable; documents are only served through
+ * signed download URLs.
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+
+export interface DocumentStorage {
+  /** Store an object under a key like `deals/<deal>/<id>.pdf` */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Read an object back, or null if it is missing */
+  get(key: string): Promise<Buffer | null>;
+  /** Remove an object; missing objects are ignored */
+  delete(key: string): Promise<void>;
+}
+
+// Deliberately outside the /uploads directory served by server/index.ts
+const LOCAL_ROOT = path.resolve(process.cwd(), 'private-documents');
+
+class LocalDiskStorage implements DocumentStorage {
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(LOCAL_ROOT, key);
+    if (!filePath.startsWith(LOCAL_ROOT + path.sep)) {
+      throw new Error(`Invalid document key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+class S3Storage implements DocumentStorage {
+  private client: S3Client;
+
+  constructor(
+    private bucket: string,
+    options: {
+      region: string;
+      endpoint?: string;
+      accessKeyId?: string;
+      secretAccessKey?: string;
+    }
+  ) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      // Most S3-compatible services (MinIO, R2, Spaces) expect path-style URLs
+      forcePathStyle: Boolean(options.endpoint),
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: 'private, no-store',
+      })
+    );
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const object = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : null;
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NoSuchKey') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+let storage: DocumentStorage | null = null;
+
+/**
+ * The configured document storage backend
+ */
+export function getDocumentStorage(): DocumentStorage {
+  if (storage) return storage;
+
+  if (process.env.DOCUMENT_STORAGE === 's3') {
+    // Must not be the public media bucket
+    const bucket = process.env.DOCUMENT_S3_BUCKET;
+    if (!bucket) {
+      throw new Error('DOCUMENT_S3_BUCKET is required when DOCUMENT_STORAGE=s3');
+    }
+
+    storage = new S3Storage(bucket, {
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  } else {
+    storage = new LocalDiskStorage();
+  }
+
+  return storage;
+}
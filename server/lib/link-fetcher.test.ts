@@ -0,0 +1,107 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import http from 'http';
+import {
+  getLinkFetcher,
+  isPrivateAddress,
+  setLinkFetcher,
+  StubLinkFetcher,
+  type LinkFetcher,
+} from './link-fetcher';
+
+// Taken before any test swaps in a stub
+const httpFetcher: LinkFetcher = getLinkFetcher();
+
+/**
+ * Stand in for http.get, answering every request with a redirect to location
+ */
+function redirectTo(location: string) {
+  return mock.method(http, 'get', (_url: string, _options: unknown, callback: Function) => {
+    const req = Object.assign(new EventEmitter(), { destroy: () => {} });
+    const res = Object.assign(new EventEmitter(), {
+      statusCode: 302,
+      headers: { location },
+      resume: () => {},
+    });
+    process.nextTick(() => {
+      callback(res);
+      req.emit('close');
+    });
+    return req;
+  });
+}
+
+afterEach(() => mock.restoreAll());
+
+describe('isPrivateAddress', () => {
+  it('blocks loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+
+  it('treats anything that is not an IP address as private', () => {
+    assert.equal(isPrivateAddress('localhost'), true);
+    assert.equal(isPrivateAddress(''), true);
+  });
+});
+
+describe('HTTP link fetcher', () => {
+  it('refuses private IP literals without connecting', async () => {
+    const get = mock.method(http, 'get');
+    for (const url of [
+      'http://127.0.0.1/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://[::1]/',
+      'http://[::ffff:10.0.0.1]/',
+      'http://2130706433/',
+      'http://0x7f.1/',
+    ]) {
+      assert.equal(await httpFetcher.fetch(url), null, url);
+    }
+    assert.equal(get.mock.callCount(), 0);
+  });
+
+  it('refuses redirects to private IP literals', async () => {
+    const get = redirectTo('http://192.168.0.1/admin');
+    assert.equal(await httpFetcher.fetch('http://93.184.216.34/'), null);
+    assert.equal(get.mock.callCount(), 1);
+  });
+
+  it('gives up after too many redirects', async () => {
+    const get = redirectTo('http://93.184.216.34/again');
+    assert.equal(await httpFetcher.fetch('http://93.184.216.34/'), null);
+    assert.equal(get.mock.callCount(), 4);
+  });
+});
+
+describe('setLinkFetcher', () => {
+  it('replaces the configured fetcher', async () => {
+    setLinkFetcher(new StubLinkFetcher({ 'https://example.com/': '<title>Example</title>' }));
+    assert.deepEqual(await getLinkFetcher().fetch('https://example.com/'), {
+      url: 'https://example.com/',
+      html: '<title>Example</title>',
+    });
+    assert.equal(await getLinkFetcher().fetch('http://127.0.0.1/'), null);
+  });
+});
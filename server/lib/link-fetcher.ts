@@ -0,0 +1,200 @@
+/**
+ * Link Fetcher
+ * Fetches the HTML of pages linked from posts and messages so they can be
+ * unfurled. The default fetcher refuses private and internal addresses,
+ * follows a few redirects and gives up on slow or oversized pages. Tests can
+ * swap in a stub with setLinkFetcher.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+export interface FetchedPage {
+  /** Final URL after redirects */
+  url: string;
+  html: string;
+}
+
+export interface LinkFetcher {
+  /** Fetch an HTML page, or return null if it can't or shouldn't be fetched */
+  fetch(url: string): Promise<FetchedPage | null>;
+}
+
+const TIMEOUT_MS = 5000;
+const MAX_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 3;
+const ALLOWED_PORTS = new Set(['', '80', '443']);
+const USER_AGENT = 'MedInvestBot/1.0 (+https://medinvest.app)';
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an address is one the server must never connect to on a user's behalf
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup that refuses hosts resolving to any private address. Used as the
+ * socket's lookup so the address checked is the one connected to, which
+ * defeats DNS rebinding.
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      return callback(new Error(`Refusing to fetch private address for ${hostname}`), '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+class HttpLinkFetcher implements LinkFetcher {
+  async fetch(url: string): Promise<FetchedPage | null> {
+    let current = url;
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      const response = await this.request(current);
+      if (!response) return null;
+      if ('redirect' in response) {
+        current = response.redirect;
+        continue;
+      }
+      return { url: current, html: response.html };
+    }
+    return null;
+  }
+
+  private request(url: string): Promise<{ html: string } | { redirect: string } | null> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return Promise.resolve(null);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return Promise.resolve(null);
+    }
+    if (parsed.username || parsed.password || !ALLOWED_PORTS.has(parsed.port)) {
+      return Promise.resolve(null);
+    }
+    // IP literals never go through safeLookup, so check them here
+    const host = parsed.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) !== 0 && isPrivateAddress(host)) {
+      return Promise.resolve(null);
+    }
+
+    const client = parsed.protocol === 'https:' ? https : http;
+    return new Promise(resolve => {
+      const req = client.get(
+        parsed.toString(),
+        {
+          lookup: safeLookup,
+          timeout: TIMEOUT_MS,
+          headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+        },
+        res => {
+          const status = res.statusCode ?? 0;
+          if (status >= 300 && status < 400 && res.headers.location) {
+            res.resume();
+            resolve({ redirect: new URL(res.headers.location, parsed).toString() });
+            return;
+          }
+
+          const contentType = res.headers['content-type'] ?? '';
+          if (status !== 200 || !/text\/html|application\/xhtml/i.test(contentType)) {
+            res.resume();
+            resolve(null);
+            return;
+          }
+
+          const chunks: Buffer[] = [];
+          let size = 0;
+          res.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            chunks.push(chunk);
+            // Metadata lives in the head, so a truncated page is still useful
+            if (size >= MAX_BYTES) {
+              res.destroy();
+              resolve({ html: Buffer.concat(chunks).subarray(0, MAX_BYTES).toString('utf8') });
+            }
+          });
+          res.on('end', () => resolve({ html: Buffer.concat(chunks).toString('utf8') }));
+          res.on('error', () => resolve(null));
+        }
+      );
+
+      // Caps the whole request, not just idle time between packets
+      const deadline = setTimeout(() => req.destroy(), TIMEOUT_MS);
+      req.on('close', () => clearTimeout(deadline));
+      req.on('timeout', () => req.destroy());
+      req.on('error', () => resolve(null));
+    });
+  }
+}
+
+/**
+ * Serves fixed pages without touching the network, for tests and local
+ * development
+ */
+export class StubLinkFetcher implements LinkFetcher {
+  constructor(private pages: Record<string, string> = {}) {}
+
+  async fetch(url: string): Promise<FetchedPage | null> {
+    const html = this.pages[url];
+    return html === undefined ? null : { url, html };
+  }
+}
+
+let fetcher: LinkFetcher | null = null;
+
+/**
+ * The configured link fetcher. LINK_PREVIEW_FETCHER=stub disables network
+ * fetches entirely.
+ */
+export function getLinkFetcher(): LinkFetcher {
+  if (fetcher) return fetcher;
+  fetcher =
+    process.env.LINK_PREVIEW_FETCHER === 'stub' ? new StubLinkFetcher() : new HttpLinkFetcher();
+  return fetcher;
+}
+
+/**
+ * Replace the link fetcher, e.g. with a StubLinkFetcher in tests
+ */
+export function setLinkFetcher(replacement: LinkFetcher): void {
+  fetcher = replacement;
+}
@@ -0,0 +1,127 @@
+/**
+ * Media Storage
+ * Where uploaded post media lives: local disk by default, or any
+ * S3-compatible bucket when MEDIA_STORAGE=s3
+ */
+
+import path from 'path';
+import fs from 'fs/promises';
+import { DeleteObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+export interface MediaStorage {
+  /** Store an object under a key like `media/<user>/<id>.jpg` */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Remove an object; missing objects are ignored */
+  delete(key: string): Promise<void>;
+  /** Public URL for a key. Relative URLs are served by this server. */
+  url(key: string): string;
+}
+
+// Served by the /uploads static route in server/index.ts
+const LOCAL_ROOT = path.resolve(process.cwd(), 'uploads');
+
+class LocalDiskStorage implements MediaStorage {
+  constructor(private publicUrl: string) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl}/uploads/${key}`;
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(LOCAL_ROOT, key);
+    if (!filePath.startsWith(LOCAL_ROOT + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+class S3Storage implements MediaStorage {
+  private client: S3Client;
+
+  constructor(
+    private bucket: string,
+    private publicUrl: string,
+    options: {
+      region: string;
+      endpoint?: string;
+      accessKeyId?: string;
+      secretAccessKey?: string;
+    }
+  ) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      // Most S3-compatible services (MinIO, R2, Spaces) expect path-style URLs
+      forcePathStyle: Boolean(options.endpoint),
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: 'public, max-age=31536000, immutable',
+      })
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  url(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+}
+
+let storage: MediaStorage | null = null;
+
+/**
+ * The configured media storage backend
+ */
+export function getMediaStorage(): MediaStorage {
+  if (storage) return storage;
+
+  if (process.env.MEDIA_STORAGE === 's3') {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3_BUCKET is required when MEDIA_STORAGE=s3');
+    }
+    const endpoint = process.env.S3_ENDPOINT;
+    const publicUrl =
+      process.env.S3_PUBLIC_URL ||
+      (endpoint ? `${endpoint}/${bucket}` : `https://${bucket}.s3.amazonaws.com`);
+
+    storage = new S3Storage(bucket, publicUrl.replace(/\/$/, ''), {
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  } else {
+    storage = new LocalDiskStorage((process.env.MEDIA_PUBLIC_URL || '').replace(/\/$/, ''));
+  }
+
+  return storage;
+}
@@ -54,32 +54,11 @@ class PushNotificationService {
     }
   ): Promise<boolean> {
     try {
-      // Get user's push tokens
-      const tokens = await db
-        .select()
-        .from(pushTokens)
-        .where(eq(pushTokens.userId, userId.toString()));
-
-      if (tokens.length === 0) {
-        console.log(`No push tokens found for user ${userId}`);
+      const results = await this.pushToUser(userId.toString(), title, body, data, options);
+      if (!results) {
         return false;
       }
 
-      // Create messages for all tokens
-      const messages: ExpoPushMessage[] = tokens.map(token => ({
-        to: token.token,
-        title,
-        body,
-        data,
-        sound: options?.sound !== false ? 'default' : null,
-        badge: options?.badge,
-        channelId: options?.channelId || 'default',
-        priority: 'high',
-      }));
-
-      // Send notifications
-      const results = await this.sendPushNotifications(messages);
-      
       // Store notification in database
       await db.insert(notifications).values({
         userId: userId.toString(),
@@ -97,6 +76,69 @@ class PushNotificationService {
     }
   }
 
+  /**
+   * Deliver a push for a notification that has already been stored
+   */
+  async deliver(
+    userId: string,
+    title: string,
+    body: string,
+    data?: Record<string, unknown>,
+    options?: {
+      sound?: boolean;
+      badge?: number;
+      channelId?: string;
+    }
+  ): Promise<boolean> {
+    try {
+      const results = await this.pushToUser(userId, title, body, data, options);
+      return !!results && results.some(r => r.status === 'ok');
+    } catch (error) {
+      console.error('Failed to send push notification:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Push to every device a user has registered. Returns null if they have none.
+   */
+  private async pushToUser(
+    userId: string,
+    title: string,
+    body: string,
+    data?: Record<string, unknown>,
+    options?: {
+      sound?: boolean;
+      badge?: number;
+      channelId?: string;
+    }
+  ): Promise<ExpoPushTicket[] | null> {
+    // Get user's push tokens
+    const tokens = await db
+      .select()
+      .from(pushTokens)
+      .where(eq(pushTokens.userId, userId));
+
+    if (tokens.length === 0) {
+      console.log(`No push tokens found for user ${userId}`);
+      return null;
+    }
+
+    // Create messages for all tokens
+    const messages: ExpoPushMessage[] = tokens.map(token => ({
+      to: token.token,
+      title,
+      body,
+      data,
+      sound: options?.sound !== false ? 'default' : null,
+      badge: options?.badge,
+      channelId: options?.channelId || 'default',
+      priority: 'high',
+    }));
+
+    return this.sendPushNotifications(messages);
+  }
+
   /**
    * Send push notifications to multiple users
    */
@@ -12,6 +12,8 @@ export interface AuthUser {
   lastName?: string | null;
   isVerified: boolean;
   isAccredited: boolean;
+  isSponsor: boolean;
+  role: 'user' | 'moderator' | 'admin';
 }
 
 // Extend Express Request type
@@ -50,6 +52,42 @@ export function verifyToken(token: string): { userId: string; sessionId: string
   }
 }
 
+/**
+ * Whether a user can moderate content (moderators and admins)
+ */
+export function isModerator(user?: AuthUser): boolean {
+  return user?.role === 'moderator' || user?.role === 'admin';
+}
+
+/**
+ * Moderator middleware - use after authMiddleware on moderator-only routes
+ */
+export function moderatorMiddleware(req: Request, res: Response, next: NextFunction): void {
+  if (!isModerator(req.user)) {
+    res.status(403).json({ message: 'Moderator access required' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Whether a user is an admin
+ */
+export function isAdmin(user?: AuthUser): boolean {
+  return user?.role === 'admin';
+}
+
+/**
+ * Admin middleware - use after authMiddleware on admin-only routes
+ */
+export function adminMiddleware(req: Request, res: Response, next: NextFunction): void {
+  if (!isAdmin(req.user)) {
+    res.status(403).json({ message: 'Admin access required' });
+    return;
+  }
+  next();
+}
+
 /**
  * Auth middleware - requires valid token
  */
@@ -104,6 +142,8 @@ export async function authMiddleware(
         lastName: users.lastName,
         isVerified: users.isVerified,
         isAccredited: users.isAccredited,
+        isSponsor: users.isSponsor,
+        role: users.role,
       })
       .from(users)
       .where(eq(users.id, decoded.userId))
@@ -174,6 +214,8 @@ export async function optionalAuthMiddleware(
         lastName: users.lastName,
         isVerified: users.isVerified,
         isAccredited: users.isAccredited,
+        isSponsor: users.isSponsor,
+        role: users.role,
       })
       .from(users)
       .where(eq(users.id, decoded.userId))
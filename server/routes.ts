@@ -13,6 +13,13 @@ import roomsRoutes from './routes/rooms';
 import dealsRoutes from './routes/deals';
 import notificationsRoutes from './routes/notifications';
 import messagesRoutes from './routes/messages';
+import settingsRoutes from './routes/settings';
+import commentsRoutes from './routes/comments';
+import moderationRoutes from './routes/moderation';
+import hashtagsRoutes from './routes/hashtags';
+import linkPreviewsRoutes from './routes/linkPreviews';
+import savedRoutes from './routes/saved';
+import reportsRoutes from './routes/reports';
 
 export async function registerRoutes(app: Express): Promise<Server> {
   registerChatRoutes(app);
@@ -32,6 +39,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/deals', dealsRoutes);
   app.use('/api/notifications', notificationsRoutes);
   app.use('/api/messages', messagesRoutes);
+  app.use('/api/settings', settingsRoutes);
+  app.use('/api/comments', commentsRoutes);
+  app.use('/api/moderation', moderationRoutes);
+  app.use('/api/hashtags', hashtagsRoutes);
+  app.use('/api/link-previews', linkPreviewsRoutes);
+  app.use('/api/saved', savedRoutes);
+  app.use('/api/reports', reportsRoutes);
   
   // Feed aliases - redirect to postsRoutes feed endpoints
   app.get('/api/feed', (req, res, next) => {
@@ -1,40 +1,12 @@
 import { Router, Request, Response } from 'express';
-import { db, articles, articleBookmarks } from '../db';
+import { db, articles, savedItems } from '../db';
 import { eq, and, desc, asc, sql, ilike, or } from 'drizzle-orm';
 import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import { formatArticle } from '../services/articles';
+import { fetchSavedItemIds, saveItem, unsaveItem } from '../services/savedItems';
 
 const router = Router();
 
-/**
- * Helper to format article response
- */
-function formatArticle(article: any, isBookmarked: boolean = false) {
-  let tags: string[] = [];
-  try {
-    tags = article.tags ? JSON.parse(article.tags) : [];
-  } catch {
-    tags = [];
-  }
-
-  return {
-    id: article.id,
-    title: article.title,
-    summary: article.summary,
-    content: article.content,
-    source: article.source,
-    sourceUrl: article.sourceUrl,
-    author: article.author,
-    imageUrl: article.imageUrl,
-    category: article.category,
-    tags,
-    readTime: article.readTime,
-    isFeatured: article.isFeatured,
-    isBookmarked,
-    viewCount: article.viewCount,
-    publishedAt: article.publishedAt,
-  };
-}
-
 /**
  * GET /api/articles
  * List articles with filters and pagination
@@ -106,16 +78,11 @@ router.get('/', optionalAuthMiddleware, async (req: Request, res: Response) => {
     ]);
 
     // Get bookmarks if user is authenticated
-    let bookmarkedIds = new Set<string>();
-    
-    if (req.user) {
-      const bookmarks = await db
-        .select({ articleId: articleBookmarks.articleId })
-        .from(articleBookmarks)
-        .where(eq(articleBookmarks.userId, req.user.id));
-      
-      bookmarkedIds = new Set(bookmarks.map((b) => b.articleId));
-    }
+    const bookmarkedIds = await fetchSavedItemIds(
+      req.user?.id,
+      'article',
+      articlesList.map((a) => a.id)
+    );
 
     const totalItems = countResult?.count || 0;
     const totalPages = Math.ceil(totalItems / limitNum);
@@ -136,7 +103,7 @@ router.get('/', optionalAuthMiddleware, async (req: Request, res: Response) => {
 
 /**
  * GET /api/articles/bookmarked
- * Get user's bookmarked articles
+ * Get user's saved articles in their saved-items order
  */
 router.get('/bookmarked', authMiddleware, async (req: Request, res: Response) => {
   try {
@@ -164,18 +131,19 @@ router.get('/bookmarked', authMiddleware, async (req: Request, res: Response) =>
           isFeatured: articles.isFeatured,
           viewCount: articles.viewCount,
           publishedAt: articles.publishedAt,
-          bookmarkedAt: articleBookmarks.createdAt,
+          bookmarkedAt: savedItems.createdAt,
         })
-        .from(articleBookmarks)
-        .innerJoin(articles, eq(articleBookmarks.articleId, articles.id))
-        .where(eq(articleBookmarks.userId, userId))
-        .orderBy(desc(articleBookmarks.createdAt))
+        .from(savedItems)
+        .innerJoin(articles, eq(savedItems.itemId, sql`${articles.id}::text`))
+        .where(and(eq(savedItems.userId, userId), eq(savedItems.itemType, 'article')))
+        .orderBy(desc(savedItems.position), desc(savedItems.id))
         .limit(limitNum)
         .offset(offset),
       db
         .select({ count: sql<number>`count(*)::int` })
-        .from(articleBookmarks)
-        .where(eq(articleBookmarks.userId, userId)),
+        .from(savedItems)
+        .innerJoin(articles, eq(savedItems.itemId, sql`${articles.id}::text`))
+        .where(and(eq(savedItems.userId, userId), eq(savedItems.itemType, 'article'))),
     ]);
 
     const totalItems = countResult?.count || 0;
@@ -222,24 +190,9 @@ router.get('/:id', optionalAuthMiddleware, async (req: Request, res: Response) =
       .where(eq(articles.id, id));
 
     // Check if bookmarked
-    let isBookmarked = false;
-    
-    if (req.user) {
-      const [bookmark] = await db
-        .select()
-        .from(articleBookmarks)
-        .where(
-          and(
-            eq(articleBookmarks.userId, req.user.id),
-            eq(articleBookmarks.articleId, id)
-          )
-        )
-        .limit(1);
-      
-      isBookmarked = !!bookmark;
-    }
+    const bookmarkedIds = await fetchSavedItemIds(req.user?.id, 'article', [article.id]);
 
-    res.json(formatArticle(article, isBookmarked));
+    res.json(formatArticle(article, bookmarkedIds.has(article.id)));
   } catch (error) {
     console.error('Get article error:', error);
     res.status(500).json({ message: 'Failed to fetch article' });
@@ -248,7 +201,7 @@ router.get('/:id', optionalAuthMiddleware, async (req: Request, res: Response) =
 
 /**
  * POST /api/articles/:id/bookmark
- * Toggle article bookmark
+ * Toggle whether an article is in the user's saved items
  */
 router.post('/:id/bookmark', authMiddleware, async (req: Request, res: Response) => {
   try {
@@ -268,31 +221,13 @@ router.post('/:id/bookmark', authMiddleware, async (req: Request, res: Response)
     }
 
     // Check if already bookmarked
-    const [existingBookmark] = await db
-      .select()
-      .from(articleBookmarks)
-      .where(
-        and(
-          eq(articleBookmarks.userId, userId),
-          eq(articleBookmarks.articleId, id)
-        )
-      )
-      .limit(1);
-
-    if (existingBookmark) {
-      // Remove bookmark
-      await db
-        .delete(articleBookmarks)
-        .where(eq(articleBookmarks.id, existingBookmark.id));
+    const bookmarkedIds = await fetchSavedItemIds(userId, 'article', [article.id]);
 
+    if (bookmarkedIds.has(article.id)) {
+      await unsaveItem(userId, 'article', article.id);
       res.json({ isBookmarked: false, message: 'Bookmark removed' });
     } else {
-      // Add bookmark
-      await db.insert(articleBookmarks).values({
-        userId,
-        articleId: id,
-      });
-
+      await saveItem(userId, { item_type: 'article', item_id: article.id });
       res.json({ isBookmarked: true, message: 'Article bookmarked' });
     }
   } catch (error) {
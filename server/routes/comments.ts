@@ -0,0 +1,394 @@
+import { Router, Request, Response } from 'express';
+import { desc, eq } from 'drizzle-orm';
+import type { ReactionType } from '@medinvest/shared/types';
+import {
+  reactionTypeSchema,
+  reactSchema,
+  updateCommentSchema,
+} from '@medinvest/shared/validators';
+import { db, commentRevisions, comments, posts } from '../db';
+import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import {
+  CommentRow,
+  DEFAULT_COMMENT_PAGE_SIZE,
+  fetchComment,
+  fetchReplies,
+  formatThreads,
+  MAX_COMMENT_PAGE_SIZE,
+  softDeleteComment,
+} from '../services/comments';
+import { recordMentions } from '../services/mentions';
+import { decodeCursor, isUuid } from '../services/posts';
+import {
+  fetchReactionSummary,
+  fetchReactors,
+  notifyReaction,
+  removeReaction,
+  setReaction,
+} from '../services/reactions';
+import { canViewRoomContent } from '../services/rooms';
+import { syncHashtagUsages } from '../services/trending';
+
+const router = Router();
+
+/**
+ * Load a comment, or null if it does not exist or its post is in a private
+ * room the viewer has not joined
+ */
+async function loadVisibleComment(id: string, viewerId: string | undefined) {
+  const item = await fetchComment(id);
+  if (!item) return null;
+
+  const [post] = await db
+    .select({ roomId: posts.roomId })
+    .from(posts)
+    .where(eq(posts.id, item.comment.postId))
+    .limit(1);
+  if (!post || !(await canViewRoomContent(post.roomId, viewerId))) return null;
+  return item;
+}
+
+/**
+ * Reaction summary for a comment, with like fields for clients that only like
+ */
+async function reactionResponse(commentId: string, viewerId: string) {
+  const summary = await fetchReactionSummary('comment', commentId, viewerId);
+  return {
+    ...summary,
+    likes_count: summary.reactions.find(r => r.type === 'like')?.count ?? 0,
+    is_liked: summary.user_reaction === 'like',
+  };
+}
+
+/**
+ * Set the viewer's reaction on a comment and notify its author of new reactions
+ */
+async function reactToComment(comment: CommentRow, userId: string, type: ReactionType) {
+  const isNew = await setReaction('comment', comment.id, userId, type);
+  if (isNew) {
+    notifyReaction({
+      target: 'comment',
+      authorId: comment.authorId,
+      reactorId: userId,
+      type,
+      postId: comment.postId,
+      commentId: comment.id,
+    }).catch(error => console.error('Reaction notification error:', error));
+  }
+}
+
+/**
+ * GET /api/comments/:id/replies
+ * Load more replies in a thread, continuing from replies_cursor
+ */
+router.get('/:id/replies', optionalAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { cursor, limit } = req.query;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const parent = await loadVisibleComment(id, req.user?.id);
+    if (!parent) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const decodedCursor = cursor ? decodeCursor(String(cursor)) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const page = await fetchReplies(
+      id,
+      decodedCursor,
+      Math.min(MAX_COMMENT_PAGE_SIZE, Math.max(1, Number(limit) || DEFAULT_COMMENT_PAGE_SIZE))
+    );
+
+    res.json({
+      comments: await formatThreads(page.items, req.user?.id),
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor ?? undefined,
+    });
+  } catch (error) {
+    console.error('Get replies error:', error);
+    res.status(500).json({ error: 'Failed to fetch replies' });
+  }
+});
+
+/**
+ * PUT /api/comments/:id
+ * Edit a comment, keeping the previous content in its edit history
+ */
+router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const parsed = updateCommentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const existing = await fetchComment(id);
+    if (!existing || existing.comment.deletedAt) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+    if (existing.comment.authorId !== req.user!.id) {
+      return res.status(403).json({ error: 'You can only edit your own comments' });
+    }
+
+    const content = parsed.data.content.trim();
+    if (content !== existing.comment.content) {
+      const now = new Date();
+      await db.transaction(async (tx) => {
+        await tx
+          .insert(commentRevisions)
+          .values({ commentId: id, content: existing.comment.content, createdAt: now });
+
+        await tx
+          .update(comments)
+          .set({ content, editedAt: now, updatedAt: now })
+          .where(eq(comments.id, id));
+      });
+
+      const [post] = await db
+        .select({ roomId: posts.roomId })
+        .from(posts)
+        .where(eq(posts.id, existing.comment.postId))
+        .limit(1);
+
+      await syncHashtagUsages({
+        postId: existing.comment.postId,
+        commentId: id,
+        roomId: post?.roomId ?? null,
+        content,
+        createdAt: existing.comment.createdAt,
+      });
+      recordMentions({
+        postId: existing.comment.postId,
+        commentId: id,
+        authorId: existing.comment.authorId,
+        content,
+        isAnonymous: existing.comment.isAnonymous,
+      }).catch(error => console.error('Mention notification error:', error));
+    }
+
+    const item = await fetchComment(id);
+    const [comment] = await formatThreads([item!], req.user!.id);
+    res.json(comment);
+  } catch (error) {
+    console.error('Update comment error:', error);
+    res.status(500).json({ error: 'Failed to update comment' });
+  }
+});
+
+/**
+ * GET /api/comments/:id/revisions
+ * Edit history of a comment, newest first
+ */
+router.get('/:id/revisions', optionalAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const existing = await loadVisibleComment(id, req.user?.id);
+    if (!existing || existing.comment.deletedAt) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const revisions = await db
+      .select()
+      .from(commentRevisions)
+      .where(eq(commentRevisions.commentId, id))
+      .orderBy(desc(commentRevisions.createdAt));
+
+    res.json({
+      current: {
+        content: existing.comment.content,
+        edited_at: existing.comment.editedAt?.toISOString() ?? null,
+      },
+      revisions: revisions.map(revision => ({
+        id: revision.id,
+        content: revision.content,
+        replaced_at: revision.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Get comment revisions error:', error);
+    res.status(500).json({ error: 'Failed to fetch comment history' });
+  }
+});
+
+/**
+ * DELETE /api/comments/:id
+ * Soft delete a comment, leaving a placeholder so its replies stay in place
+ */
+router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const existing = await fetchComment(id);
+    if (!existing || existing.comment.deletedAt) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+    if (existing.comment.authorId !== req.user!.id) {
+      return res.status(403).json({ error: 'You can only delete your own comments' });
+    }
+
+    await softDeleteComment(existing.comment);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete comment error:', error);
+    res.status(500).json({ error: 'Failed to delete comment' });
+  }
+});
+
+/**
+ * POST /api/comments/:id/react
+ * React to a comment, replacing any previous reaction
+ */
+router.post('/:id/react', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const parsed = reactSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const existing = await loadVisibleComment(id, req.user!.id);
+    if (!existing || existing.comment.deletedAt) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    await reactToComment(existing.comment, req.user!.id, parsed.data.type);
+    res.json(await reactionResponse(id, req.user!.id));
+  } catch (error) {
+    console.error('React to comment error:', error);
+    res.status(500).json({ error: 'Failed to react' });
+  }
+});
+
+/**
+ * DELETE /api/comments/:id/react
+ * Remove the viewer's reaction from a comment
+ */
+router.delete('/:id/react', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id) || !(await loadVisibleComment(id, req.user!.id))) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    await removeReaction('comment', id, req.user!.id);
+    res.json(await reactionResponse(id, req.user!.id));
+  } catch (error) {
+    console.error('Remove comment reaction error:', error);
+    res.status(500).json({ error: 'Failed to remove reaction' });
+  }
+});
+
+/**
+ * GET /api/comments/:id/reactions
+ * Who reacted to a comment, optionally filtered by reaction type
+ */
+router.get('/:id/reactions', optionalAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { type, cursor, limit } = req.query;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const reactionType = type ? reactionTypeSchema.safeParse(type) : null;
+    if (reactionType && !reactionType.success) {
+      return res.status(400).json({ error: 'Invalid reaction type' });
+    }
+
+    const decodedCursor = cursor ? decodeCursor(String(cursor)) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const existing = await loadVisibleComment(id, req.user?.id);
+    if (!existing || existing.comment.deletedAt) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const [summary, page] = await Promise.all([
+      fetchReactionSummary('comment', id),
+      fetchReactors('comment', id, {
+        type: reactionType?.data,
+        cursor: decodedCursor,
+        limit: Math.min(MAX_COMMENT_PAGE_SIZE, Math.max(1, Number(limit) || DEFAULT_COMMENT_PAGE_SIZE)),
+      }),
+    ]);
+
+    res.json({
+      reactions: page.reactions,
+      counts: summary.reactions,
+      total: summary.reactions_count,
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor ?? undefined,
+    });
+  } catch (error) {
+    console.error('Get comment reactions error:', error);
+    res.status(500).json({ error: 'Failed to fetch reactions' });
+  }
+});
+
+/**
+ * POST /api/comments/:id/like
+ * Like a comment (shorthand for reacting with "like")
+ */
+router.post('/:id/like', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const existing = await loadVisibleComment(id, req.user!.id);
+    if (!existing || existing.comment.deletedAt) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    await reactToComment(existing.comment, req.user!.id, 'like');
+    res.json(await reactionResponse(id, req.user!.id));
+  } catch (error) {
+    console.error('Like comment error:', error);
+    res.status(500).json({ error: 'Failed to like comment' });
+  }
+});
+
+/**
+ * DELETE /api/comments/:id/like
+ * Remove a like from a comment
+ */
+router.delete('/:id/like', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id) || !(await loadVisibleComment(id, req.user!.id))) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    await removeReaction('comment', id, req.user!.id);
+    res.json(await reactionResponse(id, req.user!.id));
+  } catch (error) {
+    console.error('Unlike comment error:', error);
+    res.status(500).json({ error: 'Failed to unlike comment' });
+  }
+});
+
+export default router;
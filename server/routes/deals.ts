@@ -1,203 +1,110 @@
 import { Router, Request, Response } from 'express';
-import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import multer from 'multer';
+import { LIMITS } from '@medinvest/shared/constants';
+import {
+  acceptDealNdaSchema,
+  createDealSchema,
+  dealAlertSettingsSchema,
+  dealDocumentSchema,
+  dealDocumentViewsFilterSchema,
+  dealFilterSchema,
+  dealInterestFilterSchema,
+  expressInterestSchema,
+  updateDealInterestSchema,
+  updateDealSchema,
+} from '@medinvest/shared/validators';
+import { adminMiddleware, authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import { getDealAlertDelivery, setDealAlertDelivery } from '../services/dealAlerts';
+import {
+  acceptDealNda,
+  addDealDocument,
+  DEAL_DOCUMENT_MAX_BYTES,
+  fetchDataRoomActivity,
+  fetchDealNda,
+  findDealDocument,
+  formatDocumentStats,
+  formatDocumentView,
+  hasAcceptedNda,
+  isStoredDocument,
+  openDealDocument,
+  removeDealDocument,
+  signDocumentUrl,
+  verifyDocumentToken,
+} from '../services/dealDataRoom';
+import {
+  exportDealPipeline,
+  expressInterest,
+  fetchDealPipeline,
+  fetchOwnInterest,
+  findDealInterest,
+  formatDealInterest,
+  setInterestStatus,
+} from '../services/dealInterests';
+import {
+  canManageDeal,
+  canViewDeal,
+  closeDeal,
+  createDeal,
+  DealRow,
+  fetchDealDocuments,
+  fetchDealPage,
+  fetchFeaturedDeals,
+  fetchSponsorDeals,
+  fetchWatchedDeals,
+  findDeal,
+  formatDealDocument,
+  formatDealsForViewer,
+  parseDealId,
+  publishDeal,
+  setSponsor,
+  unwatchDeal,
+  updateDeal,
+  watchDeal,
+} from '../services/deals';
+import { isUuid } from '../services/posts';
 
 const router = Router();
 
-const DEALS = [
-  {
-    id: 1,
-    title: 'CardioTech Innovations Series B',
-    company_name: 'CardioTech Innovations',
-    description: 'Revolutionary AI-powered cardiac monitoring platform that enables real-time detection of arrhythmias and heart conditions. FDA-cleared device with proven clinical outcomes.',
-    category: 'Medical Devices',
-    stage: 'Series B',
-    target_raise: 15000000,
-    raised: 8500000,
-    minimum_investment: 5000,
-    maximum_investment: 500000,
-    investors_count: 234,
-    valuation: 75000000,
-    equity_offered: 20,
-    deadline: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-    highlights: [
-      'FDA 510(k) cleared',
-      '50+ hospital partnerships',
-      '$2.1M ARR with 40% MoM growth',
-      'Experienced founding team from Medtronic',
-    ],
-    risks: [
-      'Regulatory uncertainty in new markets',
-      'Competition from established players',
-      'Hardware manufacturing challenges',
-    ],
-    team: [
-      { name: 'Dr. Sarah Chen', role: 'CEO', background: 'Former Medtronic VP' },
-      { name: 'Michael Roberts', role: 'CTO', background: 'MIT PhD, 15 patents' },
-    ],
-    documents: [
-      { name: 'Pitch Deck', url: '/docs/pitch.pdf' },
-      { name: 'Financial Model', url: '/docs/financials.xlsx' },
-    ],
-    status: 'active',
-    featured: true,
-    image_url: null,
-    created_at: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
-  },
-  {
-    id: 2,
-    title: 'GenomeRx Seed Round',
-    company_name: 'GenomeRx',
-    description: 'Pioneering personalized medicine through advanced genomic analysis. Our platform enables physicians to prescribe the right medication at the right dose based on genetic profiles.',
-    category: 'Biotech',
-    stage: 'Seed',
-    target_raise: 5000000,
-    raised: 3200000,
-    minimum_investment: 2500,
-    maximum_investment: 250000,
-    investors_count: 156,
-    valuation: 20000000,
-    equity_offered: 25,
-    deadline: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000).toISOString(),
-    highlights: [
-      'Patented genomic analysis technology',
-      'Partnership with 3 major health systems',
-      'CLIA-certified laboratory',
-      'Published research in Nature Medicine',
-    ],
-    risks: [
-      'Long sales cycle with health systems',
-      'Insurance reimbursement challenges',
-      'Technology obsolescence risk',
-    ],
-    team: [
-      { name: 'Dr. Emily Thompson', role: 'CEO', background: 'Harvard Medical School faculty' },
-      { name: 'James Wilson', role: 'CSO', background: 'Stanford PhD, genomics pioneer' },
-    ],
-    documents: [
-      { name: 'Pitch Deck', url: '/docs/pitch.pdf' },
-      { name: 'Technical Overview', url: '/docs/tech.pdf' },
-    ],
-    status: 'active',
-    featured: true,
-    image_url: null,
-    created_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-  },
-  {
-    id: 3,
-    title: 'MindWell Digital Therapeutics Pre-Series A',
-    company_name: 'MindWell Health',
-    description: 'FDA-authorized digital therapeutic for anxiety and depression. Prescription-based app with proven clinical efficacy and reimbursement pathways.',
-    category: 'Digital Health',
-    stage: 'Pre-Series A',
-    target_raise: 8000000,
-    raised: 2100000,
-    minimum_investment: 3000,
-    maximum_investment: 300000,
-    investors_count: 89,
-    valuation: 35000000,
-    equity_offered: 23,
-    deadline: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000).toISOString(),
-    highlights: [
-      'FDA De Novo authorized',
-      'CPT codes secured for reimbursement',
-      '15,000+ prescriptions written',
-      'Clinical outcomes exceed SSRIs',
-    ],
-    risks: [
-      'Patient engagement challenges',
-      'Physician adoption barriers',
-      'Competition from wellness apps',
-    ],
-    team: [
-      { name: 'Dr. Lisa Park', role: 'CEO', background: 'Psychiatrist, Stanford Health' },
-      { name: 'Alex Kim', role: 'CTO', background: 'Ex-Google Health engineer' },
-    ],
-    documents: [
-      { name: 'Pitch Deck', url: '/docs/pitch.pdf' },
-      { name: 'Clinical Study Results', url: '/docs/clinical.pdf' },
-    ],
-    status: 'active',
-    featured: false,
-    image_url: null,
-    created_at: new Date(Date.now() - 21 * 24 * 60 * 60 * 1000).toISOString(),
-  },
-  {
-    id: 4,
-    title: 'NeuraScan AI Series A',
-    company_name: 'NeuraScan AI',
-    description: 'AI-powered medical imaging analysis for early detection of neurological conditions. Our algorithms detect Alzheimer\'s and Parkinson\'s years before symptoms appear.',
-    category: 'Healthcare AI',
-    stage: 'Series A',
-    target_raise: 12000000,
-    raised: 9800000,
-    minimum_investment: 10000,
-    maximum_investment: 1000000,
-    investors_count: 178,
-    valuation: 60000000,
-    equity_offered: 20,
-    deadline: new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString(),
-    highlights: [
-      '95% accuracy in early detection',
-      'Integration with major PACS systems',
-      'Published in JAMA Neurology',
-      'Contracts with 25 imaging centers',
-    ],
-    risks: [
-      'Regulatory approval timeline',
-      'Competition from radiology giants',
-      'Data privacy concerns',
-    ],
-    team: [
-      { name: 'Dr. Mark Johnson', role: 'CEO', background: 'Neurologist, Mayo Clinic' },
-      { name: 'Rachel Green', role: 'CTO', background: 'DeepMind alumna' },
-    ],
-    documents: [
-      { name: 'Pitch Deck', url: '/docs/pitch.pdf' },
-      { name: 'AI Performance Metrics', url: '/docs/ai-metrics.pdf' },
-    ],
-    status: 'active',
-    featured: true,
-    image_url: null,
-    created_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-  },
-];
-
-const watchlist = new Map<number, Set<number>>();
+/**
+ * Format a single deal with its documents, and whether the viewer can open
+ * them. Only its managers see documents that still need uploading to the
+ * data room.
+ */
+async function formatDealDetail(deal: DealRow, req: Request) {
+  const [documents, ndaAccepted] = await Promise.all([
+    fetchDealDocuments(deal.id),
+    hasAcceptedNda(req.user, deal),
+  ]);
+  const visible = canManageDeal(req.user, deal) ? documents : documents.filter(isStoredDocument);
+  const [formatted] = await formatDealsForViewer([deal], req.user, visible);
+  return { ...formatted, nda_accepted: ndaAccepted };
+}
 
+// ============================================
+// Listing
+// ============================================
+
+/**
+ * GET /api/deals
+ * Published deals, filtered by stage, sector and minimum ticket, a page at a
+ * time. Featured deals come first unless sort_by is given.
+ */
 router.get('/', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const { category, stage, sort = 'featured', limit = 20 } = req.query;
-    const userId = (req as any).userId;
-    const userWatchlist = watchlist.get(userId) || new Set();
-    
-    let deals = [...DEALS];
-    
-    if (category) {
-      deals = deals.filter(d => d.category.toLowerCase() === String(category).toLowerCase());
-    }
-    
-    if (stage) {
-      deals = deals.filter(d => d.stage.toLowerCase() === String(stage).toLowerCase());
-    }
-    
-    if (sort === 'featured') {
-      deals.sort((a, b) => (b.featured ? 1 : 0) - (a.featured ? 1 : 0));
-    } else if (sort === 'newest') {
-      deals.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-    } else if (sort === 'ending_soon') {
-      deals.sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime());
-    }
-    
-    const dealsWithWatchlist = deals.map(deal => ({
-      ...deal,
-      is_watched: userWatchlist.has(deal.id),
-    }));
-    
-    res.json({ 
-      deals: dealsWithWatchlist.slice(0, Number(limit)),
-      total: deals.length,
-      categories: ['Medical Devices', 'Biotech', 'Digital Health', 'Healthcare AI', 'Pharmaceuticals'],
-      stages: ['Seed', 'Pre-Series A', 'Series A', 'Series B', 'Series C+'],
+    const parsed = dealFilterSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const page = await fetchDealPage(parsed.data);
+    res.json({
+      data: await formatDealsForViewer(page.rows, req.user),
+      pagination: {
+        page: page.page,
+        limit: page.limit,
+        total: page.total,
+        has_more: page.hasMore,
+      },
     });
   } catch (error) {
     console.error('Deals error:', error);
@@ -205,76 +112,753 @@ router.get('/', optionalAuthMiddleware, async (req: Request, res: Response) => {
   }
 });
 
-router.get('/featured', async (req: Request, res: Response) => {
+/**
+ * GET /api/deals/featured
+ * Published featured deals
+ */
+router.get('/featured', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const featured = DEALS.filter(d => d.featured);
-    res.json({ deals: featured });
+    const featured = await fetchFeaturedDeals();
+    res.json({ deals: await formatDealsForViewer(featured, req.user) });
   } catch (error) {
+    console.error('Featured deals error:', error);
     res.status(500).json({ error: 'Failed to fetch featured deals' });
   }
 });
 
+/**
+ * GET /api/deals/mine
+ * The current user's offerings in every status, and whether they can create
+ * more
+ */
+router.get('/mine', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const rows = await fetchSponsorDeals(req.user!.id);
+    res.json({
+      deals: await formatDealsForViewer(rows, req.user),
+      is_sponsor: req.user!.isSponsor,
+    });
+  } catch (error) {
+    console.error('Sponsor deals error:', error);
+    res.status(500).json({ error: 'Failed to fetch your deals' });
+  }
+});
+
+/**
+ * GET /api/deals/watchlist
+ * Deals the current user is watching, and how they get alerts about them
+ */
+router.get('/watchlist', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const [rows, delivery] = await Promise.all([
+      fetchWatchedDeals(req.user!.id),
+      getDealAlertDelivery(req.user!.id),
+    ]);
+    res.json({
+      deals: await formatDealsForViewer(rows, req.user),
+      alert_delivery: delivery,
+    });
+  } catch (error) {
+    console.error('Deal watchlist error:', error);
+    res.status(500).json({ error: 'Failed to fetch watchlist' });
+  }
+});
+
+/**
+ * PUT /api/deals/watchlist/alerts
+ * Get watchlist alerts as they happen, or in one daily digest
+ */
+router.put('/watchlist/alerts', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = dealAlertSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    await setDealAlertDelivery(req.user!.id, parsed.data.delivery);
+    res.json({ alert_delivery: parsed.data.delivery });
+  } catch (error) {
+    console.error('Deal alert settings error:', error);
+    res.status(500).json({ error: 'Failed to update alert settings' });
+  }
+});
+
+// ============================================
+// Sponsors
+// ============================================
+
+/**
+ * PUT /api/deals/sponsors/:userId
+ * Let a user create and publish deals (admins)
+ */
+router.put(
+  '/sponsors/:userId',
+  authMiddleware,
+  adminMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      if (!isUuid(userId) || !(await setSponsor(userId, true))) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json({ success: true, is_sponsor: true });
+    } catch (error) {
+      console.error('Add sponsor error:', error);
+      res.status(500).json({ error: 'Failed to add sponsor' });
+    }
+  }
+);
+
+/**
+ * DELETE /api/deals/sponsors/:userId
+ * Stop a user creating and managing deals (admins). Their published deals
+ * stay listed.
+ */
+router.delete(
+  '/sponsors/:userId',
+  authMiddleware,
+  adminMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const { userId } = req.params;
+      if (!isUuid(userId) || !(await setSponsor(userId, false))) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json({ success: true, is_sponsor: false });
+    } catch (error) {
+      console.error('Remove sponsor error:', error);
+      res.status(500).json({ error: 'Failed to remove sponsor' });
+    }
+  }
+);
+
+// ============================================
+// Offerings
+// ============================================
+
+/**
+ * POST /api/deals
+ * Create a draft deal (sponsors)
+ */
+router.post('/', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    if (!req.user!.isSponsor) {
+      return res.status(403).json({ error: 'Sponsor access required' });
+    }
+
+    const parsed = createDealSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await createDeal(req.user!.id, parsed.data);
+    if (result.status === 'invalid') {
+      return res.status(400).json({ error: result.message });
+    }
+    if (result.status !== 'ok') {
+      return res.status(400).json({ error: 'Failed to create deal' });
+    }
+
+    res.status(201).json(await formatDealDetail(result.deal, req));
+  } catch (error) {
+    console.error('Create deal error:', error);
+    res.status(500).json({ error: 'Failed to create deal' });
+  }
+});
+
+/**
+ * GET /api/deals/:id
+ * A deal with its data room documents. Drafts are visible to their sponsor
+ * and admins.
+ */
 router.get('/:id', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
-    const userId = (req as any).userId;
-    const userWatchlist = watchlist.get(userId) || new Set();
-    
-    const deal = DEALS.find(d => d.id === parseInt(id));
-    if (!deal) {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
       return res.status(404).json({ error: 'Deal not found' });
     }
-    
-    res.json({ ...deal, is_watched: userWatchlist.has(deal.id) });
+
+    res.json(await formatDealDetail(deal, req));
   } catch (error) {
+    console.error('Deal error:', error);
     res.status(500).json({ error: 'Failed to fetch deal' });
   }
 });
 
+/**
+ * PATCH /api/deals/:id
+ * Change a draft or published deal's details (its sponsor, or admins)
+ */
+router.patch('/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canManageDeal(req.user, deal)) {
+      return res.status(403).json({ error: 'Only the deal sponsor can edit this deal' });
+    }
+
+    const parsed = updateDealSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await updateDeal(deal, parsed.data);
+    if (result.status === 'closed') {
+      return res.status(409).json({ error: 'Closed deals cannot be edited' });
+    }
+    if (result.status === 'invalid') {
+      return res.status(400).json({ error: result.message });
+    }
+
+    res.json(await formatDealDetail(result.deal, req));
+  } catch (error) {
+    console.error('Update deal error:', error);
+    res.status(500).json({ error: 'Failed to update deal' });
+  }
+});
+
+/**
+ * POST /api/deals/:id/publish
+ * List a draft deal for everyone (its sponsor, or admins)
+ */
+router.post('/:id/publish', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canManageDeal(req.user, deal)) {
+      return res.status(403).json({ error: 'Only the deal sponsor can publish this deal' });
+    }
+
+    const result = await publishDeal(deal);
+    if (result.status === 'not_draft') {
+      return res.status(409).json({ error: 'Only drafts can be published' });
+    }
+    if (result.status === 'deadline_passed') {
+      return res.status(400).json({ error: 'Move the deadline into the future to publish' });
+    }
+
+    res.json(await formatDealDetail(result.deal, req));
+  } catch (error) {
+    console.error('Publish deal error:', error);
+    res.status(500).json({ error: 'Failed to publish deal' });
+  }
+});
+
+/**
+ * POST /api/deals/:id/close
+ * Stop taking interest in a published deal before its deadline (its
+ * sponsor, or admins)
+ */
+router.post('/:id/close', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canManageDeal(req.user, deal)) {
+      return res.status(403).json({ error: 'Only the deal sponsor can close this deal' });
+    }
+    if (!(await closeDeal(deal.id))) {
+      return res.status(409).json({ error: 'Only published deals can be closed' });
+    }
+
+    res.json({ success: true, status: 'closed' });
+  } catch (error) {
+    console.error('Close deal error:', error);
+    res.status(500).json({ error: 'Failed to close deal' });
+  }
+});
+
+// ============================================
+// Data Room
+// ============================================
+
+// Documents are read into memory, checked and written to private storage by
+// services/dealDataRoom
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: DEAL_DOCUMENT_MAX_BYTES, files: 1 },
+}).single('file');
+
+/**
+ * Run the multer upload, resolving with the received file or a client error
+ */
+function receiveDocument(
+  req: Request,
+  res: Response
+): Promise<{ file: Express.Multer.File } | { error: string; status: number }> {
+  return new Promise((resolve, reject) => {
+    documentUpload(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        resolve({
+          error:
+            err.code === 'LIMIT_FILE_SIZE'
+              ? `Documents can be at most ${LIMITS.DEAL_DOCUMENT_MAX_MB}MB`
+              : 'Upload one document as "file"',
+          status: err.code === 'LIMIT_FILE_SIZE' ? 413 : 400,
+        });
+      } else if (err) {
+        reject(err);
+      } else if (!req.file) {
+        resolve({ error: 'Upload one document as "file"', status: 400 });
+      } else {
+        resolve({ file: req.file });
+      }
+    });
+  });
+}
+
+/**
+ * GET /api/deals/:id/nda
+ * The confidentiality agreement gating the deal's data room, and whether the
+ * user has accepted its current version
+ */
+router.get('/:id/nda', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    const nda = await fetchDealNda(deal, req.user!.id);
+    res.json({
+      text: nda.text,
+      version: nda.version,
+      is_default: nda.isDefault,
+      accepted_at: nda.acceptedAt?.toISOString() ?? null,
+    });
+  } catch (error) {
+    console.error('Deal NDA error:', error);
+    res.status(500).json({ error: 'Failed to fetch agreement' });
+  }
+});
+
+/**
+ * POST /api/deals/:id/nda/accept
+ * Accept the version of the agreement the user was shown, opening the data
+ * room to them
+ */
+router.post('/:id/nda/accept', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    const parsed = acceptDealNdaSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await acceptDealNda(req.user!.id, deal, parsed.data.version, req.ip);
+    if (result.status === 'outdated') {
+      return res
+        .status(409)
+        .json({ error: 'The agreement has changed. Review the new version to continue.' });
+    }
+
+    res.json({ success: true, accepted_at: result.acceptedAt.toISOString() });
+  } catch (error) {
+    console.error('Accept deal NDA error:', error);
+    res.status(500).json({ error: 'Failed to accept agreement' });
+  }
+});
+
+/**
+ * POST /api/deals/:id/documents
+ * Upload a document to the deal's data room as multipart "file", with an
+ * optional "name" (its sponsor, or admins)
+ */
+router.post('/:id/documents', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canManageDeal(req.user, deal)) {
+      return res.status(403).json({ error: 'Only the deal sponsor can add documents' });
+    }
+    if (deal.status === 'closed') {
+      return res.status(409).json({ error: 'Closed deals cannot be edited' });
+    }
+
+    const received = await receiveDocument(req, res);
+    if ('error' in received) {
+      return res.status(received.status).json({ error: received.error });
+    }
+
+    const parsed = dealDocumentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await addDealDocument(deal, received.file, parsed.data.name);
+    switch (result.status) {
+      case 'unsupported':
+        return res
+          .status(415)
+          .json({ error: 'Documents must be PDF, Word, Excel, PowerPoint or CSV files' });
+      case 'too_large':
+        return res
+          .status(413)
+          .json({ error: `Documents can be at most ${LIMITS.DEAL_DOCUMENT_MAX_MB}MB` });
+      case 'too_many':
+        return res
+          .status(400)
+          .json({ error: `Deals can have up to ${LIMITS.DEAL_DOCUMENTS_MAX} documents` });
+      case 'invalid':
+        return res.status(400).json({ error: result.message });
+    }
+
+    res.status(201).json(formatDealDocument(result.document));
+  } catch (error) {
+    console.error('Add deal document error:', error);
+    res.status(500).json({ error: 'Failed to add document' });
+  }
+});
+
+/**
+ * GET /api/deals/:id/documents/views
+ * Who opened which documents, newest first, with totals per document (its
+ * sponsor, or admins)
+ */
+router.get('/:id/documents/views', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canManageDeal(req.user, deal)) {
+      return res.status(403).json({ error: 'Only the deal sponsor can view document activity' });
+    }
+
+    const parsed = dealDocumentViewsFilterSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const activity = await fetchDataRoomActivity(deal.id, parsed.data);
+    res.json({
+      documents: activity.documents.map(formatDocumentStats),
+      views: activity.rows.map(formatDocumentView),
+      pagination: {
+        page: activity.page,
+        limit: activity.limit,
+        total: activity.total,
+        has_more: activity.hasMore,
+      },
+    });
+  } catch (error) {
+    console.error('Deal document views error:', error);
+    res.status(500).json({ error: 'Failed to fetch document activity' });
+  }
+});
+
+/**
+ * GET /api/deals/:id/documents/:documentId/url
+ * A download URL for a document that works for a few minutes. Needs the
+ * deal's agreement accepted.
+ */
+router.get(
+  '/:id/documents/:documentId/url',
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const { documentId } = req.params;
+      const deal = await findDeal(req.params.id);
+      if (!deal || !canViewDeal(req.user, deal)) {
+        return res.status(404).json({ error: 'Deal not found' });
+      }
+      if (!(await hasAcceptedNda(req.user, deal))) {
+        return res
+          .status(403)
+          .json({ error: 'Accept the confidentiality agreement to open the data room' });
+      }
+
+      const document = isUuid(documentId) ? await findDealDocument(deal.id, documentId) : null;
+      if (!document || (!isStoredDocument(document) && !canManageDeal(req.user, deal))) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
+      if (!isStoredDocument(document)) {
+        return res
+          .status(409)
+          .json({ error: 'Upload this document again to add it to the data room' });
+      }
+
+      const signed = signDocumentUrl(document, req.user!.id);
+      res.json({ url: signed.url, expires_at: signed.expiresAt.toISOString() });
+    } catch (error) {
+      console.error('Deal document URL error:', error);
+      res.status(500).json({ error: 'Failed to open document' });
+    }
+  }
+);
+
+/**
+ * GET /api/deals/:id/documents/:documentId/download?token=
+ * Download a document through a signed URL. Each download is logged, and
+ * PDFs are watermarked with the viewer's email.
+ */
+router.get('/:id/documents/:documentId/download', async (req: Request, res: Response) => {
+  try {
+    const { documentId } = req.params;
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    const userId = verifyDocumentToken(token, documentId);
+    if (!userId) {
+      return res.status(403).json({ error: 'This link has expired' });
+    }
+
+    const dealId = parseDealId(req.params.id);
+    const document = dealId ? await findDealDocument(dealId, documentId) : null;
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const opened = await openDealDocument(document, userId);
+    if (opened.status === 'missing') {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.set('Cache-Control', 'private, no-store');
+    res.attachment(opened.filename).type(opened.contentType).send(opened.body);
+  } catch (error) {
+    console.error('Deal document download error:', error);
+    res.status(500).json({ error: 'Failed to download document' });
+  }
+});
+
+/**
+ * DELETE /api/deals/:id/documents/:documentId
+ * Remove a document from a deal (its sponsor, or admins)
+ */
+router.delete('/:id/documents/:documentId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { documentId } = req.params;
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canManageDeal(req.user, deal)) {
+      return res.status(403).json({ error: 'Only the deal sponsor can remove documents' });
+    }
+    if (!isUuid(documentId) || !(await removeDealDocument(deal.id, documentId))) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Remove deal document error:', error);
+    res.status(500).json({ error: 'Failed to remove document' });
+  }
+});
+
+// ============================================
+// Watchlist
+// ============================================
+
+/**
+ * POST /api/deals/:id/watch
+ * Add a deal to the current user's watchlist. Watchers are alerted to
+ * funding milestones, a near deadline, changed terms and new documents.
+ */
 router.post('/:id/watch', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
-    const userId = (req as any).userId;
-    
-    if (!watchlist.has(userId)) {
-      watchlist.set(userId, new Set());
-    }
-    watchlist.get(userId)!.add(parseInt(id));
-    
-    res.json({ success: true, is_watched: true });
+    const deal = await findDeal(req.params.id);
+    if (!deal || deal.status === 'draft') {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    await watchDeal(req.user!.id, deal.id);
+    res.json({ success: true, is_watching: true });
   } catch (error) {
+    console.error('Watch deal error:', error);
     res.status(500).json({ error: 'Failed to watch deal' });
   }
 });
 
+/**
+ * DELETE /api/deals/:id/watch
+ * Remove a deal from the current user's watchlist
+ */
 router.delete('/:id/watch', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
-    const userId = (req as any).userId;
-    
-    const userWatchlist = watchlist.get(userId);
-    if (userWatchlist) {
-      userWatchlist.delete(parseInt(id));
-    }
-    
-    res.json({ success: true, is_watched: false });
+    const deal = await findDeal(req.params.id);
+    if (!deal) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    await unwatchDeal(req.user!.id, deal.id);
+    res.json({ success: true, is_watching: false });
   } catch (error) {
+    console.error('Unwatch deal error:', error);
     res.status(500).json({ error: 'Failed to unwatch deal' });
   }
 });
 
+// ============================================
+// Interest
+// ============================================
+
+/**
+ * POST /api/deals/:id/interest
+ * Indicate interest in a published deal, or update an earlier indication.
+ * The sponsor follows up using the contact preference given.
+ */
 router.post('/:id/interest', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
-    const { amount, message } = req.body;
-    
-    res.json({ 
-      success: true, 
-      message: 'Your interest has been recorded. Our team will contact you within 24 hours.',
-    });
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    const parsed = expressInterestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await expressInterest(req.user!.id, deal, parsed.data);
+    if (result.status === 'not_open') {
+      return res.status(409).json({ error: 'This deal is not taking interest' });
+    }
+    if (result.status === 'own_deal') {
+      return res.status(400).json({ error: 'You cannot express interest in your own deal' });
+    }
+    if (result.status === 'locked') {
+      return res
+        .status(409)
+        .json({ error: 'The sponsor has finalized your interest. Contact them to change it.' });
+    }
+    if (result.status === 'invalid') {
+      return res.status(400).json({ error: result.message });
+    }
+
+    res.status(result.created ? 201 : 200).json(formatDealInterest(result.interest));
   } catch (error) {
+    console.error('Express interest error:', error);
     res.status(500).json({ error: 'Failed to express interest' });
   }
 });
 
+/**
+ * GET /api/deals/:id/interest
+ * The current user's interest in a deal and where it stands
+ */
+router.get('/:id/interest', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+
+    const interest = await fetchOwnInterest(req.user!.id, deal.id);
+    if (!interest) {
+      return res.status(404).json({ error: 'No interest expressed' });
+    }
+    res.json(formatDealInterest(interest));
+  } catch (error) {
+    console.error('Own interest error:', error);
+    res.status(500).json({ error: 'Failed to fetch interest' });
+  }
+});
+
+/**
+ * GET /api/deals/:id/interests
+ * The deal's interest pipeline, optionally one status at a time (its
+ * sponsor, or admins)
+ */
+router.get('/:id/interests', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canManageDeal(req.user, deal)) {
+      return res.status(403).json({ error: 'Only the deal sponsor can view its pipeline' });
+    }
+
+    const parsed = dealInterestFilterSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const pipeline = await fetchDealPipeline(deal.id, parsed.data);
+    res.json({
+      interests: pipeline.rows.map(({ interest, investor }) =>
+        formatDealInterest(interest, investor)
+      ),
+      counts: pipeline.counts,
+      committed_amount: pipeline.committedAmount,
+      pagination: {
+        page: pipeline.page,
+        limit: pipeline.limit,
+        total: pipeline.total,
+        has_more: pipeline.hasMore,
+      },
+    });
+  } catch (error) {
+    console.error('Deal pipeline error:', error);
+    res.status(500).json({ error: 'Failed to fetch pipeline' });
+  }
+});
+
+/**
+ * GET /api/deals/:id/interests/export
+ * The whole pipeline as a CSV download (its sponsor, or admins)
+ */
+router.get('/:id/interests/export', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canManageDeal(req.user, deal)) {
+      return res.status(403).json({ error: 'Only the deal sponsor can export its pipeline' });
+    }
+
+    const csv = await exportDealPipeline(deal.id);
+    res.attachment(`deal-${deal.id}-interest.csv`).type('text/csv').send(csv);
+  } catch (error) {
+    console.error('Deal pipeline export error:', error);
+    res.status(500).json({ error: 'Failed to export pipeline' });
+  }
+});
+
+/**
+ * PATCH /api/deals/:id/interests/:interestId
+ * Move an investor through the pipeline. They are told when they are
+ * contacted, committed or declined. (Its sponsor, or admins)
+ */
+router.patch('/:id/interests/:interestId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { interestId } = req.params;
+    const deal = await findDeal(req.params.id);
+    if (!deal || !canViewDeal(req.user, deal)) {
+      return res.status(404).json({ error: 'Deal not found' });
+    }
+    if (!canManageDeal(req.user, deal)) {
+      return res.status(403).json({ error: 'Only the deal sponsor can update its pipeline' });
+    }
+
+    const parsed = updateDealInterestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const interest = isUuid(interestId) ? await findDealInterest(deal.id, interestId) : null;
+    if (!interest) {
+      return res.status(404).json({ error: 'Interest not found' });
+    }
+
+    const updated = await setInterestStatus(deal, interest, parsed.data.status);
+    res.json(formatDealInterest(updated));
+  } catch (error) {
+    console.error('Update interest error:', error);
+    res.status(500).json({ error: 'Failed to update interest' });
+  }
+});
+
 export default router;
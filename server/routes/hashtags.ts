@@ -0,0 +1,120 @@
+import { Router, Request, Response } from 'express';
+import { and } from 'drizzle-orm';
+import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import { loadViewerContext, mutedKeywordConditions } from '../services/feedRanking';
+import {
+  fetchFollowedTags,
+  fetchHashtagDetails,
+  followHashtag,
+  normalizeTag,
+  taggedPostsCondition,
+  unfollowHashtag,
+} from '../services/hashtags';
+import { decodeCursor, fetchPostPage } from '../services/posts';
+import { formatPostsForViewer } from '../services/postViews';
+import { visibleRoomPostsCondition } from '../services/rooms';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * GET /api/hashtags/followed
+ * Hashtags the current user follows
+ */
+router.get('/followed', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    res.json({ hashtags: await fetchFollowedTags(req.user!.id) });
+  } catch (error) {
+    console.error('Get followed hashtags error:', error);
+    res.status(500).json({ error: 'Failed to fetch followed hashtags' });
+  }
+});
+
+/**
+ * GET /api/hashtags/:tag
+ * A hashtag's post and follower counts and related tags, with a page of its
+ * posts, newest first. Pass cursor for later pages.
+ */
+router.get('/:tag', optionalAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tag = normalizeTag(req.params.tag);
+    if (!tag) {
+      return res.status(404).json({ error: 'Hashtag not found' });
+    }
+
+    const { cursor, limit } = req.query;
+    const decodedCursor = cursor ? decodeCursor(String(cursor)) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const hashtag = await fetchHashtagDetails(tag, req.user?.id);
+    if (!hashtag) {
+      return res.status(404).json({ error: 'Hashtag not found' });
+    }
+
+    const context = await loadViewerContext(req.user?.id);
+    const page = await fetchPostPage(
+      and(
+        taggedPostsCondition([tag]),
+        visibleRoomPostsCondition(context.joinedRoomIds),
+        ...mutedKeywordConditions(context)
+      ),
+      decodedCursor,
+      Math.min(MAX_PAGE_SIZE, Math.max(1, Number(limit) || DEFAULT_PAGE_SIZE))
+    );
+
+    res.json({
+      hashtag,
+      posts: await formatPostsForViewer(page.items, req.user?.id),
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor ?? undefined,
+    });
+  } catch (error) {
+    console.error('Get hashtag error:', error);
+    res.status(500).json({ error: 'Failed to fetch hashtag' });
+  }
+});
+
+/**
+ * POST /api/hashtags/:tag/follow
+ * Follow a hashtag. New posts using it are boosted in the home feed, included
+ * in the following feed and trigger a notification.
+ */
+router.post('/:tag/follow', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tag = normalizeTag(req.params.tag);
+    if (!tag) {
+      return res.status(400).json({ error: 'Invalid hashtag' });
+    }
+
+    await followHashtag(req.user!.id, tag);
+    res.json({ tag, is_following: true });
+  } catch (error) {
+    console.error('Follow hashtag error:', error);
+    res.status(500).json({ error: 'Failed to follow hashtag' });
+  }
+});
+
+/**
+ * DELETE /api/hashtags/:tag/follow
+ * Stop following a hashtag
+ */
+router.delete('/:tag/follow', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const tag = normalizeTag(req.params.tag);
+    if (!tag) {
+      return res.status(400).json({ error: 'Invalid hashtag' });
+    }
+
+    await unfollowHashtag(req.user!.id, tag);
+    res.json({ tag, is_following: false });
+  } catch (error) {
+    console.error('Unfollow hashtag error:', error);
+    res.status(500).json({ error: 'Failed to unfollow hashtag' });
+  }
+});
+
+export default router;
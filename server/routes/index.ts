@@ -7,6 +7,13 @@ import portfolioRoutes from './portfolio';
 import articlesRoutes from './articles';
 import usersRoutes from './users';
 import messagesRoutes from './messages';
+import settingsRoutes from './settings';
+import commentsRoutes from './comments';
+import moderationRoutes from './moderation';
+import hashtagsRoutes from './hashtags';
+import linkPreviewsRoutes from './linkPreviews';
+import savedRoutes from './saved';
+import reportsRoutes from './reports';
 import postsRoutes from './posts';
 import roomsRoutes from './rooms';
 import dealsRoutes from './deals';
@@ -26,6 +33,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/articles', articlesRoutes);
   app.use('/api/users', usersRoutes);
   app.use('/api/messages', messagesRoutes);
+  app.use('/api/settings', settingsRoutes);
+  app.use('/api/comments', commentsRoutes);
+  app.use('/api/moderation', moderationRoutes);
+  app.use('/api/hashtags', hashtagsRoutes);
+  app.use('/api/link-previews', linkPreviewsRoutes);
+  app.use('/api/saved', savedRoutes);
+  app.use('/api/reports', reportsRoutes);
   app.use('/api/posts', postsRoutes);
   app.use('/api/feed', postsRoutes);
   app.use('/api/rooms', roomsRoutes);
@@ -8,49 +8,10 @@ import {
 } from '../db';
 import { eq, and, or, gte, lte, like, desc, asc, sql, ilike } from 'drizzle-orm';
 import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import { formatInvestment } from '../services/investments';
 
 const router = Router();
 
-/**
- * Helper to calculate days remaining
- */
-function calculateDaysRemaining(endDate: Date): number {
-  const now = new Date();
-  const diffTime = endDate.getTime() - now.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  return Math.max(0, diffDays);
-}
-
-/**
- * Helper to format investment response
- */
-function formatInvestment(inv: any) {
-  return {
-    id: inv.id,
-    name: inv.name,
-    description: inv.description,
-    longDescription: inv.longDescription,
-    category: inv.category,
-    fundingGoal: parseFloat(inv.fundingGoal),
-    fundingCurrent: parseFloat(inv.fundingCurrent),
-    minimumInvestment: parseFloat(inv.minimumInvestment),
-    expectedROI: inv.expectedRoiMin && inv.expectedRoiMax
-      ? `${inv.expectedRoiMin}-${inv.expectedRoiMax}%`
-      : inv.expectedRoiMin
-      ? `${inv.expectedRoiMin}%+`
-      : 'TBD',
-    riskLevel: inv.riskLevel,
-    status: inv.status,
-    imageUrl: inv.imageUrl,
-    daysRemaining: calculateDaysRemaining(new Date(inv.endDate)),
-    startDate: inv.startDate,
-    endDate: inv.endDate,
-    investors: inv.investorCount,
-    createdAt: inv.createdAt,
-    updatedAt: inv.updatedAt,
-  };
-}
-
 /**
  * GET /api/investments
  * List investments with filters and pagination
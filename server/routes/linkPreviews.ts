@@ -0,0 +1,26 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { normalizeUrl, unfurlLink } from '../services/linkPreviews';
+
+const router = Router();
+
+/**
+ * GET /api/link-previews?url=
+ * Preview card for a link, e.g. while composing a post or message. Null when
+ * the page has no usable metadata or can't be fetched.
+ */
+router.get('/', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const url = typeof req.query.url === 'string' ? normalizeUrl(req.query.url) : null;
+    if (!url) {
+      return res.status(400).json({ error: 'Invalid URL' });
+    }
+
+    res.json({ link_preview: await unfurlLink(url) });
+  } catch (error) {
+    console.error('Get link preview error:', error);
+    res.status(500).json({ error: 'Failed to fetch link preview' });
+  }
+});
+
+export default router;
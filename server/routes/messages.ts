@@ -3,6 +3,7 @@ import { db, users, dmConversations, directMessages } from '../db';
 import { authMiddleware } from '../middleware/auth';
 import { eq, or, and, desc } from 'drizzle-orm';
 import { sql } from 'drizzle-orm';
+import { fetchCachedPreviews, firstLinkIn, unfurlLinkIn } from '../services/linkPreviews';
 
 const router = Router();
 
@@ -152,8 +153,13 @@ router.get('/:userId', async (req: Request, res: Response) => {
         .where(eq(directMessages.conversationId, conversation.id))
         .orderBy(directMessages.createdAt);
 
+      const links = rawMessages.map(msg => firstLinkIn(msg.content));
+      const previews = await fetchCachedPreviews(
+        links.filter((link): link is string => link !== null)
+      );
+
       messages = await Promise.all(
-        rawMessages.map(async (msg) => {
+        rawMessages.map(async (msg, index) => {
           const [sender] = await db
             .select({
               id: users.id,
@@ -167,10 +173,13 @@ router.get('/:userId', async (req: Request, res: Response) => {
             .where(eq(users.id, msg.senderId))
             .limit(1);
 
+          const link = links[index];
+
           return {
             id: msg.id,
             conversation_id: msg.conversationId,
             content: msg.content,
+            link_preview: (link && previews.get(link)) ?? null,
             sender: sender ? formatUserForResponse(sender) : null,
             is_read: msg.isRead,
             read_at: msg.readAt?.toISOString(),
@@ -278,6 +287,11 @@ router.post('/:userId', async (req: Request, res: Response) => {
       })
       .where(eq(dmConversations.id, conversation.id));
 
+    unfurlLinkIn(message.content).catch(error => console.error('Link preview error:', error));
+
+    const link = firstLinkIn(message.content);
+    const previews = await fetchCachedPreviews(link ? [link] : []);
+
     const [sender] = await db
       .select({
         id: users.id,
@@ -295,6 +309,7 @@ router.post('/:userId', async (req: Request, res: Response) => {
       id: message.id,
       conversation_id: message.conversationId,
       content: message.content,
+      link_preview: (link && previews.get(link)) ?? null,
       sender: sender ? formatUserForResponse(sender) : null,
       is_read: message.isRead,
       created_at: message.createdAt.toISOString(),
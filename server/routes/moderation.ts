@@ -0,0 +1,139 @@
+import { Router, Request, Response } from 'express';
+import { eq } from 'drizzle-orm';
+import { revealAuthorSchema } from '@medinvest/shared/validators';
+import { db, comments, posts } from '../db';
+import { authMiddleware, moderatorMiddleware } from '../middleware/auth';
+import { fetchReveals, revealAuthor } from '../services/anonymity';
+import { decodeCursor, isUuid } from '../services/posts';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// Every moderation route is limited to moderators and admins
+router.use(authMiddleware, moderatorMiddleware);
+
+/**
+ * POST /api/moderation/posts/:id/reveal
+ * Reveal the author of an anonymous post. The reason and the moderator are
+ * recorded in the audit log before the author is returned.
+ */
+router.post('/posts/:id/reveal', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const parsed = revealAuthorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const [post] = await db
+      .select({ authorId: posts.authorId, isAnonymous: posts.isAnonymous })
+      .from(posts)
+      .where(eq(posts.id, id))
+      .limit(1);
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!post.isAnonymous) {
+      return res.status(400).json({ error: 'Post is not anonymous' });
+    }
+
+    res.json(
+      await revealAuthor({
+        moderatorId: req.user!.id,
+        authorId: post.authorId,
+        postId: id,
+        reason: parsed.data.reason,
+      })
+    );
+  } catch (error) {
+    console.error('Reveal post author error:', error);
+    res.status(500).json({ error: 'Failed to reveal author' });
+  }
+});
+
+/**
+ * POST /api/moderation/comments/:id/reveal
+ * Reveal the author of an anonymous comment, recording the reason
+ */
+router.post('/comments/:id/reveal', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const parsed = revealAuthorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const [comment] = await db
+      .select({
+        postId: comments.postId,
+        authorId: comments.authorId,
+        isAnonymous: comments.isAnonymous,
+      })
+      .from(comments)
+      .where(eq(comments.id, id))
+      .limit(1);
+    if (!comment) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+    if (!comment.isAnonymous) {
+      return res.status(400).json({ error: 'Comment is not anonymous' });
+    }
+
+    res.json(
+      await revealAuthor({
+        moderatorId: req.user!.id,
+        authorId: comment.authorId,
+        postId: comment.postId,
+        commentId: id,
+        reason: parsed.data.reason,
+      })
+    );
+  } catch (error) {
+    console.error('Reveal comment author error:', error);
+    res.status(500).json({ error: 'Failed to reveal author' });
+  }
+});
+
+/**
+ * GET /api/moderation/reveals
+ * Audit log of author reveals, most recent first (admins only)
+ */
+router.get('/reveals', async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== 'admin') {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    const { cursor, limit } = req.query;
+    const decodedCursor = cursor ? decodeCursor(String(cursor)) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const page = await fetchReveals({
+      cursor: decodedCursor,
+      limit: Math.min(MAX_PAGE_SIZE, Math.max(1, Number(limit) || DEFAULT_PAGE_SIZE)),
+    });
+
+    res.json({
+      reveals: page.reveals,
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor ?? undefined,
+    });
+  } catch (error) {
+    console.error('Get reveals error:', error);
+    res.status(500).json({ error: 'Failed to fetch reveal log' });
+  }
+});
+
+export default router;
@@ -1,68 +1,261 @@
 import { Router, Request, Response } from 'express';
-import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import { and, eq, inArray, or, sql, SQL } from 'drizzle-orm';
+import multer from 'multer';
+import os from 'os';
+import fs from 'fs/promises';
+import {
+  createCommentSchema,
+  createPostSchema,
+  pollVoteSchema,
+  reactionTypeSchema,
+  reactSchema,
+  repostSchema,
+  saveItemSchema,
+  schedulePostSchema,
+  updatePostSchema,
+  updateScheduledPostSchema,
+} from '@medinvest/shared/validators';
+import { LIMITS } from '@medinvest/shared/constants';
+import { db, comments, posts, postVotes } from '../db';
+import { authMiddleware, isModerator, optionalAuthMiddleware } from '../middleware/auth';
+import { ensurePseudonym } from '../services/anonymity';
+import {
+  DEFAULT_COMMENT_PAGE_SIZE,
+  fetchComment,
+  fetchTopLevelComments,
+  formatThreads,
+  MAX_COMMENT_PAGE_SIZE,
+  softDeleteComment,
+} from '../services/comments';
+import {
+  decodeRankedCursor,
+  FEED_STYLES,
+  FeedStyle,
+  isExplainEnabled,
+  loadViewerContext,
+  mutedKeywordConditions,
+  rankFeed,
+} from '../services/feedRanking';
+import { taggedPostsCondition } from '../services/hashtags';
+import { unfurlLinkIn } from '../services/linkPreviews';
+import { saveItem, unsaveItem } from '../services/savedItems';
+import { formatMedia, MEDIA_MAX_BYTES, mediaKindFor, MediaRow, storeUpload } from '../services/media';
+import { recordMentions } from '../services/mentions';
+import { decodeCursor, fetchPost, fetchPostPage, isUuid, PostRow } from '../services/posts';
+import { pinPost, unpinPost } from '../services/pins';
+import { publishPost } from '../services/postPublishing';
+import { editPostContent, fetchRevisions, formatRevision } from '../services/postRevisions';
+import { formatPostsForViewer } from '../services/postViews';
+import {
+  castVote,
+  fetchPoll,
+  fetchViewerVotes,
+  formatPoll,
+  isPollClosed,
+} from '../services/polls';
+import {
+  fetchReactionSummary,
+  fetchReactors,
+  notifyReaction,
+  removeReaction,
+  setReaction,
+} from '../services/reactions';
+import { createRepost, deletePost, undoRepost } from '../services/reposts';
+import { fetchActiveBan } from '../services/roomModeration';
+import { canViewRoomContent, fetchRoomStatus, visibleRoomPostsCondition } from '../services/rooms';
+import {
+  cancelScheduledPost,
+  checkScheduleTime,
+  EDITABLE_STATUSES,
+  fetchScheduledPost,
+  fetchScheduledPosts,
+  formatScheduledPost,
+  SCHEDULED_POST_STATUSES,
+  ScheduledPostStatus,
+  schedulePost,
+  updateScheduledPost,
+} from '../services/scheduledPosts';
+import {
+  DEFAULT_TRENDING_LIMIT,
+  getTrendingHashtags,
+  MAX_TRENDING_LIMIT,
+  syncHashtagUsages,
+  TRENDING_WINDOWS,
+  TrendingWindow,
+} from '../services/trending';
 
 const router = Router();
 
-const ROOMS = [
-  { id: 1, name: 'Cardiology', slug: 'cardiology', description: 'Heart health and cardiovascular innovations', icon: 'heart', color: '#EF4444', posts_count: 1243, members_count: 8521 },
-  { id: 2, name: 'Oncology', slug: 'oncology', description: 'Cancer research and treatment advances', icon: 'activity', color: '#8B5CF6', posts_count: 987, members_count: 6234 },
-  { id: 3, name: 'Neurology', slug: 'neurology', description: 'Brain and nervous system innovations', icon: 'cpu', color: '#3B82F6', posts_count: 756, members_count: 5102 },
-  { id: 4, name: 'Digital Health', slug: 'digital-health', description: 'Health tech and digital therapeutics', icon: 'smartphone', color: '#10B981', posts_count: 1567, members_count: 9876 },
-  { id: 5, name: 'Biotech', slug: 'biotech', description: 'Biotechnology breakthroughs', icon: 'flask-conical', color: '#F59E0B', posts_count: 892, members_count: 7234 },
-  { id: 6, name: 'Medical Devices', slug: 'medical-devices', description: 'Innovative medical equipment', icon: 'stethoscope', color: '#06B6D4', posts_count: 654, members_count: 4521 },
-];
-
-const generateMockPosts = (count: number, roomId?: number) => {
-  const authors = [
-    { id: 1, first_name: 'Sarah', last_name: 'Chen', full_name: 'Dr. Sarah Chen', specialty: 'Cardiologist', avatar_url: null, is_verified: true, is_premium: true },
-    { id: 2, first_name: 'Michael', last_name: 'Roberts', full_name: 'Dr. Michael Roberts', specialty: 'Oncologist', avatar_url: null, is_verified: true, is_premium: false },
-    { id: 3, first_name: 'Emily', last_name: 'Thompson', full_name: 'Emily Thompson, RN', specialty: 'Nurse Practitioner', avatar_url: null, is_verified: false, is_premium: true },
-    { id: 4, first_name: 'James', last_name: 'Wilson', full_name: 'James Wilson, PhD', specialty: 'Researcher', avatar_url: null, is_verified: true, is_premium: false },
-  ];
-
-  const contents = [
-    'Just reviewed the latest clinical trial data for the new CRISPR-based therapy. The results are incredibly promising for treating genetic disorders. This could be a game-changer for patients with rare diseases. #CRISPR #GeneTherapy',
-    'Interesting discussion at the conference today about AI-powered diagnostic tools. The accuracy rates are now exceeding human specialists in certain areas. What are your thoughts on AI in healthcare? #DigitalHealth #AI',
-    'New FDA approval for the minimally invasive cardiac device shows 40% improvement in patient outcomes. This is exactly the kind of innovation we need to invest in. #CardiacCare #MedTech',
-    'The biotech sector is seeing unprecedented growth in personalized medicine. Companies focusing on targeted therapies are showing exceptional promise. #Biotech #PersonalizedMedicine',
-    'Great webinar on medical device regulations and the new EU MDR requirements. Compliance is becoming increasingly complex but necessary for patient safety. #MedicalDevices #Regulatory',
-  ];
-
-  return Array.from({ length: count }, (_, i) => {
-    const author = authors[i % authors.length];
-    const room = roomId ? ROOMS.find(r => r.id === roomId) : ROOMS[i % ROOMS.length];
-    return {
-      id: i + 1,
-      content: contents[i % contents.length],
-      author,
-      room: room ? { ...room, is_member: true } : null,
-      images: [],
-      video_url: null,
-      is_anonymous: false,
-      mentions: [],
-      hashtags: contents[i % contents.length].match(/#\w+/g) || [],
-      upvotes: Math.floor(Math.random() * 100) + 10,
-      downvotes: Math.floor(Math.random() * 10),
-      comments_count: Math.floor(Math.random() * 50),
-      user_vote: null,
-      is_bookmarked: false,
-      feed_score: Math.random() * 100,
-      created_at: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000).toISOString(),
-      updated_at: new Date().toISOString(),
-    };
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// Post media is written to a temp file, then cleaned and stored by services/media
+const upload = multer({
+  storage: multer.diskStorage({ destination: os.tmpdir() }),
+  limits: { fileSize: MEDIA_MAX_BYTES.video, files: LIMITS.POST_IMAGES_MAX },
+  fileFilter: (req, file, cb) => {
+    if (mediaKindFor(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only JPEG, PNG and WebP images or MP4 and MOV videos are allowed.'));
+    }
+  },
+}).fields([
+  { name: 'file', maxCount: 1 },
+  { name: 'files', maxCount: LIMITS.POST_IMAGES_MAX },
+]);
+
+/**
+ * Run the multer upload, resolving with the received files or a client error
+ */
+function receiveUploads(
+  req: Request,
+  res: Response
+): Promise<{ files: Express.Multer.File[] } | { error: string; status: number }> {
+  return new Promise((resolve, reject) => {
+    upload(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        resolve({
+          error:
+            err.code === 'LIMIT_FILE_SIZE'
+              ? `Files can be at most ${LIMITS.POST_VIDEO_MAX_MB}MB`
+              : `Upload up to ${LIMITS.POST_IMAGES_MAX} files as "files"`,
+          status: err.code === 'LIMIT_FILE_SIZE' ? 413 : 400,
+        });
+      } else if (err instanceof Error) {
+        resolve({ error: err.message, status: 415 });
+      } else if (err) {
+        reject(err);
+      } else {
+        const fields = (req.files ?? {}) as Record<string, Express.Multer.File[]>;
+        resolve({ files: [...(fields.file ?? []), ...(fields.files ?? [])] });
+      }
+    });
   });
-};
+}
+
+/**
+ * Check the room a post is going into, resolving with a client error if it
+ * does not exist, the author is banned from it or it is a private room they
+ * have not joined
+ */
+async function checkPostRoom(
+  roomId: number | null | undefined,
+  userId: string
+): Promise<{ error: string; status: number } | null> {
+  if (!roomId) return null;
+  const status = await fetchRoomStatus(roomId);
+  if (!status || status === 'pending') {
+    return { error: 'Room not found', status: 400 };
+  }
+  if (status === 'archived') {
+    return { error: 'This room is archived', status: 403 };
+  }
+  if (await fetchActiveBan(roomId, userId)) {
+    return { error: 'You are banned from this room', status: 403 };
+  }
+  if (!(await canViewRoomContent(roomId, userId))) {
+    return { error: 'Join this room to post in it', status: 403 };
+  }
+  return null;
+}
+
+/**
+ * Load a post, or null if it does not exist or is in a private room the
+ * viewer has not joined. Handlers answer both with the same 404 so private
+ * posts cannot be probed for.
+ */
+async function loadVisiblePost(id: string, viewerId: string | undefined): Promise<PostRow | null> {
+  const [post] = await db.select().from(posts).where(eq(posts.id, id)).limit(1);
+  if (!post || !(await canViewRoomContent(post.roomId, viewerId))) return null;
+  return post;
+}
 
+/**
+ * GET /api/posts/feed
+ * Feed in one of three styles: chronological, algorithmic (ranked) or following.
+ * Staff can pass explain=true to include the ranking breakdown for each algorithmic post.
+ */
 router.get('/feed', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const { cursor, style = 'algorithmic', limit = 20 } = req.query;
-    const posts = generateMockPosts(Number(limit));
-    
+    const { cursor, style, limit, room_id, explain } = req.query;
+    const limitNum = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(limit) || DEFAULT_PAGE_SIZE));
+    const roomId = room_id ? Number(room_id) : undefined;
+    if (roomId !== undefined && !Number.isInteger(roomId)) {
+      return res.status(400).json({ error: 'Invalid room_id' });
+    }
+    const feedStyle: FeedStyle = FEED_STYLES.includes(style as FeedStyle)
+      ? (style as FeedStyle)
+      : 'algorithmic';
+
+    const context = await loadViewerContext(req.user?.id);
+
+    if (feedStyle === 'algorithmic') {
+      const decodedCursor = cursor ? decodeRankedCursor(String(cursor)) : null;
+      if (cursor && !decodedCursor) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+
+      const page = await rankFeed(context, { roomId, cursor: decodedCursor, limit: limitNum });
+      const formatted = await formatPostsForViewer(
+        page.items.map(ranked => ranked.item),
+        req.user?.id
+      );
+      const includeExplanation = explain === 'true' && isExplainEnabled(req.user);
+
+      return res.json({
+        posts: formatted.map((post, i) => ({
+          ...post,
+          feed_score: page.items[i].score,
+          ...(includeExplanation ? { ranking: page.items[i].explanation } : {}),
+        })),
+        has_more: page.hasMore,
+        next_cursor: page.nextCursor ?? undefined,
+        feed_style: feedStyle,
+      });
+    }
+
+    const decodedCursor = cursor ? decodeCursor(String(cursor)) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const conditions = [
+      visibleRoomPostsCondition(context.joinedRoomIds),
+      ...mutedKeywordConditions(context),
+    ];
+    if (roomId !== undefined) {
+      conditions.push(eq(posts.roomId, roomId));
+    }
+    if (feedStyle === 'following') {
+      if (context.followingIds.size === 0 && context.followedTags.size === 0) {
+        return res.json({ posts: [], has_more: false, feed_style: feedStyle });
+      }
+      // Anonymous posts only come in through followed hashtags, so following
+      // someone cannot unmask them
+      const followed: SQL[] = [];
+      if (context.followingIds.size > 0) {
+        followed.push(
+          and(inArray(posts.authorId, [...context.followingIds]), eq(posts.isAnonymous, false))!
+        );
+      }
+      if (context.followedTags.size > 0) {
+        followed.push(taggedPostsCondition([...context.followedTags]));
+      }
+      conditions.push(or(...followed)!);
+    }
+
+    const page = await fetchPostPage(
+      conditions.length > 0 ? and(...conditions) : undefined,
+      decodedCursor,
+      limitNum
+    );
+
     res.json({
-      posts,
-      has_more: true,
-      next_cursor: 'next_page_token',
-      feed_style: style,
+      posts: await formatPostsForViewer(page.items, req.user?.id),
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor ?? undefined,
+      feed_style: feedStyle,
     });
   } catch (error) {
     console.error('Feed error:', error);
@@ -70,71 +263,206 @@ router.get('/feed', optionalAuthMiddleware, async (req: Request, res: Response)
   }
 });
 
-router.get('/feed/trending', async (req: Request, res: Response) => {
+/**
+ * GET /api/posts/feed/trending
+ * Trending hashtags over a 1h, 24h or 7d window, optionally within one room.
+ * Private and invite-only rooms' trends are for their members.
+ */
+router.get('/feed/trending', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const topics = [
-      { hashtag: 'CRISPR', count: 1234, trend: 'up' },
-      { hashtag: 'DigitalHealth', count: 987, trend: 'up' },
-      { hashtag: 'AI', count: 876, trend: 'stable' },
-      { hashtag: 'Biotech', count: 654, trend: 'up' },
-      { hashtag: 'MedTech', count: 543, trend: 'down' },
-    ];
-    res.json({ topics });
+    const { window, room_id, limit } = req.query;
+    const trendingWindow: TrendingWindow =
+      typeof window === 'string' && Object.hasOwn(TRENDING_WINDOWS, window)
+        ? (window as TrendingWindow)
+        : '24h';
+    const roomId = room_id ? Number(room_id) : undefined;
+    if (roomId !== undefined && !Number.isInteger(roomId)) {
+      return res.status(400).json({ error: 'Invalid room_id' });
+    }
+    if (roomId !== undefined && !(await canViewRoomContent(roomId, req.user?.id))) {
+      return res.status(403).json({ error: 'Join this room to see its trending topics' });
+    }
+
+    const topics = await getTrendingHashtags({
+      window: trendingWindow,
+      roomId,
+      limit: Math.min(MAX_TRENDING_LIMIT, Math.max(1, Number(limit) || DEFAULT_TRENDING_LIMIT)),
+    });
+    res.json({ topics, window: trendingWindow });
   } catch (error) {
+    console.error('Trending topics error:', error);
     res.status(500).json({ error: 'Failed to fetch trending topics' });
   }
 });
 
+/**
+ * GET /api/posts/scheduled
+ * The current user's scheduled posts in publish order. Pass status to filter,
+ * e.g. status=scheduled for those still waiting.
+ */
+router.get('/scheduled', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { status } = req.query;
+    if (status && !SCHEDULED_POST_STATUSES.includes(status as ScheduledPostStatus)) {
+      return res.status(400).json({ error: 'Invalid status' });
+    }
+
+    const rows = await fetchScheduledPosts(req.user!.id, status as ScheduledPostStatus | undefined);
+    res.json({ scheduled_posts: rows.map(formatScheduledPost) });
+  } catch (error) {
+    console.error('Get scheduled posts error:', error);
+    res.status(500).json({ error: 'Failed to fetch scheduled posts' });
+  }
+});
+
+/**
+ * POST /api/posts/scheduled
+ * Schedule a post to be published at scheduled_at
+ */
+router.post('/scheduled', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = schedulePostSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const { room_id, scheduled_at } = parsed.data;
+    const roomError = await checkPostRoom(room_id, req.user!.id);
+    if (roomError) {
+      return res.status(roomError.status).json({ error: roomError.error });
+    }
+
+    const timeError = checkScheduleTime(new Date(scheduled_at));
+    if (timeError) {
+      return res.status(400).json({ error: timeError });
+    }
+
+    const result = await schedulePost(req.user!.id, parsed.data);
+    if (result.status === 'limit_reached') {
+      return res
+        .status(400)
+        .json({ error: `You can have up to ${LIMITS.SCHEDULED_POSTS_MAX} scheduled posts` });
+    }
+    res.status(201).json(formatScheduledPost(result.scheduledPost));
+  } catch (error) {
+    console.error('Schedule post error:', error);
+    res.status(500).json({ error: 'Failed to schedule post' });
+  }
+});
+
+/**
+ * PUT /api/posts/scheduled/:id
+ * Edit or reschedule a post that hasn't been published yet. Saving a post
+ * that failed to publish queues it again.
+ */
+router.put('/scheduled/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Scheduled post not found' });
+    }
+
+    const parsed = updateScheduledPostSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const existing = await fetchScheduledPost(id);
+    if (!existing || existing.authorId !== req.user!.id) {
+      return res.status(404).json({ error: 'Scheduled post not found' });
+    }
+    if (!EDITABLE_STATUSES.includes(existing.status)) {
+      return res.status(409).json({ error: `This post has already been ${existing.status}` });
+    }
+
+    const { room_id, scheduled_at } = parsed.data;
+    const roomError = await checkPostRoom(room_id, req.user!.id);
+    if (roomError) {
+      return res.status(roomError.status).json({ error: roomError.error });
+    }
+    if (scheduled_at) {
+      const timeError = checkScheduleTime(new Date(scheduled_at));
+      if (timeError) {
+        return res.status(400).json({ error: timeError });
+      }
+    }
+
+    const updated = await updateScheduledPost(id, parsed.data);
+    if (!updated) {
+      return res.status(409).json({ error: 'This post has already been published' });
+    }
+    res.json(formatScheduledPost(updated));
+  } catch (error) {
+    console.error('Update scheduled post error:', error);
+    res.status(500).json({ error: 'Failed to update scheduled post' });
+  }
+});
+
+/**
+ * DELETE /api/posts/scheduled/:id
+ * Cancel a scheduled post before it is published
+ */
+router.delete('/scheduled/:id', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Scheduled post not found' });
+    }
+
+    const existing = await fetchScheduledPost(id);
+    if (!existing || existing.authorId !== req.user!.id) {
+      return res.status(404).json({ error: 'Scheduled post not found' });
+    }
+
+    if (!(await cancelScheduledPost(id))) {
+      return res.status(409).json({ error: `This post has already been ${existing.status}` });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Cancel scheduled post error:', error);
+    res.status(500).json({ error: 'Failed to cancel scheduled post' });
+  }
+});
+
 router.get('/:id', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const posts = generateMockPosts(1);
-    const post = { ...posts[0], id: parseInt(id) };
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const item = await fetchPost(id);
+    if (!item || !(await canViewRoomContent(item.post.roomId, req.user?.id))) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const [post] = await formatPostsForViewer([item], req.user?.id);
     res.json(post);
   } catch (error) {
+    console.error('Get post error:', error);
     res.status(500).json({ error: 'Failed to fetch post' });
   }
 });
 
 router.post('/', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { content, room_id, is_anonymous = false, images = [] } = req.body;
-    const userId = (req as any).userId;
-
-    if (!content || content.trim().length === 0) {
-      return res.status(400).json({ error: 'Content is required' });
-    }
-
-    const room = ROOMS.find(r => r.id === room_id);
-    const post = {
-      id: Date.now(),
-      content,
-      author: {
-        id: userId,
-        first_name: 'Current',
-        last_name: 'User',
-        full_name: 'Current User',
-        specialty: 'Healthcare Professional',
-        avatar_url: null,
-        is_verified: false,
-        is_premium: false,
-      },
-      room: room ? { ...room, is_member: true } : null,
-      images,
-      video_url: null,
-      is_anonymous,
-      mentions: content.match(/@\w+/g) || [],
-      hashtags: content.match(/#\w+/g) || [],
-      upvotes: 0,
-      downvotes: 0,
-      comments_count: 0,
-      user_vote: null,
-      is_bookmarked: false,
-      feed_score: 0,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
+    const parsed = createPostSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
 
+    const { room_id } = parsed.data;
+    const userId = req.user!.id;
+
+    const roomError = await checkPostRoom(room_id, userId);
+    if (roomError) {
+      return res.status(roomError.status).json({ error: roomError.error });
+    }
+
+    const created = await publishPost(userId, parsed.data);
+
+    const item = await fetchPost(created.id);
+    const [post] = await formatPostsForViewer([item!], userId);
     res.status(201).json(post);
   } catch (error) {
     console.error('Create post error:', error);
@@ -142,131 +470,745 @@ router.post('/', authMiddleware, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/posts/upload
+ * Upload images or a short video for a post. Files are checked, stripped of
+ * EXIF/GPS metadata and stored with a thumbnail and blurhash placeholder; the
+ * returned urls can be sent as images (or video_url) when creating the post.
+ */
+router.post('/upload', authMiddleware, async (req: Request, res: Response) => {
+  const received = await receiveUploads(req, res).catch(error => {
+    console.error('Receive upload error:', error);
+    return null;
+  });
+  if (!received) {
+    return res.status(500).json({ error: 'Failed to upload media' });
+  }
+  if ('error' in received) {
+    return res.status(received.status).json({ error: received.error });
+  }
+
+  const pending = [...received.files];
+  try {
+    if (pending.length === 0) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const origin = process.env.MEDIA_PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+    const stored: MediaRow[] = [];
+    while (pending.length > 0) {
+      const result = await storeUpload(req.user!.id, pending.shift()!, origin);
+      if ('error' in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      stored.push(result.media);
+    }
+
+    res.status(201).json({
+      urls: stored.map(media => media.url),
+      media: stored.map(formatMedia),
+      // Single-file uploads read these directly
+      url: stored[0].url,
+      thumbnail_url: stored[0].thumbnailUrl,
+    });
+  } catch (error) {
+    console.error('Upload media error:', error);
+    res.status(500).json({ error: 'Failed to upload media' });
+  } finally {
+    await Promise.all(pending.map(file => fs.rm(file.path, { force: true })));
+  }
+});
+
 router.put('/:id', authMiddleware, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { content } = req.body;
-    
-    const posts = generateMockPosts(1);
-    const post = { 
-      ...posts[0], 
-      id: parseInt(id),
-      content,
-      updated_at: new Date().toISOString(),
-    };
-    
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const parsed = updatePostSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const existing = await fetchPost(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (existing.post.authorId !== req.user!.id) {
+      return res.status(403).json({ error: 'You can only edit your own posts' });
+    }
+
+    const content = parsed.data.content?.trim();
+    if (content !== undefined && (await editPostContent(existing.post, req.user!.id, content))) {
+      await syncHashtagUsages({
+        postId: id,
+        roomId: existing.post.roomId,
+        content,
+        createdAt: existing.post.createdAt,
+      });
+      recordMentions({
+        postId: id,
+        authorId: existing.post.authorId,
+        content,
+        isAnonymous: existing.post.isAnonymous,
+      }).catch(error => console.error('Mention notification error:', error));
+      unfurlLinkIn(content).catch(error => console.error('Link preview error:', error));
+    }
+
+    const item = await fetchPost(id);
+    const [post] = await formatPostsForViewer([item!], req.user!.id);
     res.json(post);
   } catch (error) {
+    console.error('Update post error:', error);
     res.status(500).json({ error: 'Failed to update post' });
   }
 });
 
+/**
+ * GET /api/posts/:id/revisions
+ * Edit history of a post, oldest first. The author and moderators also get
+ * what changed in each edit and the full text, including the original.
+ */
+router.get('/:id/revisions', optionalAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const existing = await loadVisiblePost(id, req.user?.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const canSeeContent = isModerator(req.user) || existing.authorId === req.user?.id;
+    const revisions = await fetchRevisions(id);
+
+    res.json({
+      current: {
+        content: existing.content,
+        edited_at: existing.editedAt?.toISOString() ?? null,
+      },
+      original: canSeeContent ? revisions[0]?.previousContent ?? existing.content : undefined,
+      revisions: revisions.map(revision =>
+        formatRevision(revision, { includeContent: canSeeContent })
+      ),
+    });
+  } catch (error) {
+    console.error('Get post revisions error:', error);
+    res.status(500).json({ error: 'Failed to fetch post history' });
+  }
+});
+
 router.delete('/:id', authMiddleware, async (req: Request, res: Response) => {
   try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const [existing] = await db
+      .select({ id: posts.id, authorId: posts.authorId, repostOfId: posts.repostOfId })
+      .from(posts)
+      .where(eq(posts.id, id))
+      .limit(1);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (existing.authorId !== req.user!.id) {
+      return res.status(403).json({ error: 'You can only delete your own posts' });
+    }
+
+    await deletePost(existing);
     res.json({ success: true });
   } catch (error) {
+    console.error('Delete post error:', error);
     res.status(500).json({ error: 'Failed to delete post' });
   }
 });
 
+/**
+ * Recount a post's votes after a vote changes
+ */
+async function refreshVoteCounts(postId: string) {
+  const [counts] = await db
+    .select({
+      upvotes: sql<number>`count(*) filter (where ${postVotes.direction} = 'up')::int`,
+      downvotes: sql<number>`count(*) filter (where ${postVotes.direction} = 'down')::int`,
+    })
+    .from(postVotes)
+    .where(eq(postVotes.postId, postId));
+
+  await db
+    .update(posts)
+    .set({ upvotes: counts.upvotes, downvotes: counts.downvotes })
+    .where(eq(posts.id, postId));
+
+  return counts;
+}
+
 router.post('/:id/vote', authMiddleware, async (req: Request, res: Response) => {
   try {
+    const { id } = req.params;
     const { direction } = req.body;
-    res.json({ 
-      upvotes: direction === 'up' ? 51 : 50, 
-      downvotes: direction === 'down' ? 6 : 5 
-    });
+    const userId = req.user!.id;
+
+    if (direction !== 'up' && direction !== 'down') {
+      return res.status(400).json({ error: 'Direction must be up or down' });
+    }
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    if (!(await loadVisiblePost(id, userId))) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    await db
+      .insert(postVotes)
+      .values({ postId: id, userId, direction })
+      .onConflictDoUpdate({
+        target: [postVotes.userId, postVotes.postId],
+        set: { direction, createdAt: new Date() },
+      });
+
+    res.json(await refreshVoteCounts(id));
   } catch (error) {
+    console.error('Vote error:', error);
     res.status(500).json({ error: 'Failed to vote' });
   }
 });
 
 router.delete('/:id/vote', authMiddleware, async (req: Request, res: Response) => {
   try {
-    res.json({ upvotes: 50, downvotes: 5 });
+    const { id } = req.params;
+    if (!isUuid(id) || !(await loadVisiblePost(id, req.user!.id))) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    await db
+      .delete(postVotes)
+      .where(and(eq(postVotes.postId, id), eq(postVotes.userId, req.user!.id)));
+
+    res.json(await refreshVoteCounts(id));
   } catch (error) {
+    console.error('Remove vote error:', error);
     res.status(500).json({ error: 'Failed to remove vote' });
   }
 });
 
+/**
+ * POST /api/posts/:id/react
+ * React to a post, replacing any previous reaction
+ */
+router.post('/:id/react', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const parsed = reactSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const post = await loadVisiblePost(id, userId);
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const isNew = await setReaction('post', id, userId, parsed.data.type);
+    if (isNew) {
+      notifyReaction({
+        target: 'post',
+        authorId: post.authorId,
+        reactorId: userId,
+        type: parsed.data.type,
+        postId: id,
+      }).catch(error => console.error('Reaction notification error:', error));
+    }
+
+    res.json(await fetchReactionSummary('post', id, userId));
+  } catch (error) {
+    console.error('React error:', error);
+    res.status(500).json({ error: 'Failed to react' });
+  }
+});
+
+/**
+ * DELETE /api/posts/:id/react
+ * Remove the viewer's reaction from a post
+ */
+router.delete('/:id/react', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id) || !(await loadVisiblePost(id, req.user!.id))) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    await removeReaction('post', id, req.user!.id);
+    res.json(await fetchReactionSummary('post', id, req.user!.id));
+  } catch (error) {
+    console.error('Remove reaction error:', error);
+    res.status(500).json({ error: 'Failed to remove reaction' });
+  }
+});
+
+/**
+ * GET /api/posts/:id/reactions
+ * Who reacted to a post, optionally filtered by reaction type
+ */
+router.get('/:id/reactions', optionalAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { type, cursor, limit } = req.query;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const reactionType = type ? reactionTypeSchema.safeParse(type) : null;
+    if (reactionType && !reactionType.success) {
+      return res.status(400).json({ error: 'Invalid reaction type' });
+    }
+
+    const decodedCursor = cursor ? decodeCursor(String(cursor)) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    if (!(await loadVisiblePost(id, req.user?.id))) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const [summary, page] = await Promise.all([
+      fetchReactionSummary('post', id),
+      fetchReactors('post', id, {
+        type: reactionType?.data,
+        cursor: decodedCursor,
+        limit: Math.min(MAX_PAGE_SIZE, Math.max(1, Number(limit) || DEFAULT_PAGE_SIZE)),
+      }),
+    ]);
+
+    res.json({
+      reactions: page.reactions,
+      counts: summary.reactions,
+      total: summary.reactions_count,
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor ?? undefined,
+    });
+  } catch (error) {
+    console.error('Get reactions error:', error);
+    res.status(500).json({ error: 'Failed to fetch reactions' });
+  }
+});
+
+/**
+ * GET /api/posts/:postId/polls/:pollId
+ * Current state of a poll; results stay hidden until the viewer votes or it closes
+ */
+router.get('/:postId/polls/:pollId', optionalAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { postId, pollId } = req.params;
+    if (!isUuid(postId) || !isUuid(pollId)) {
+      return res.status(404).json({ error: 'Poll not found' });
+    }
+
+    const item = await fetchPoll(pollId);
+    if (!item || item.poll.postId !== postId || !(await loadVisiblePost(postId, req.user?.id))) {
+      return res.status(404).json({ error: 'Poll not found' });
+    }
+
+    const votes = await fetchViewerVotes([pollId], req.user?.id);
+    res.json(formatPoll(item, votes.get(pollId) ?? null));
+  } catch (error) {
+    console.error('Get poll error:', error);
+    res.status(500).json({ error: 'Failed to fetch poll' });
+  }
+});
+
+/**
+ * POST /api/posts/:postId/polls/:pollId/vote
+ * Vote in a poll. Each user votes once; multi-choice polls accept several options.
+ */
+router.post('/:postId/polls/:pollId/vote', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { postId, pollId } = req.params;
+    const userId = req.user!.id;
+    if (!isUuid(postId) || !isUuid(pollId)) {
+      return res.status(404).json({ error: 'Poll not found' });
+    }
+
+    const parsed = pollVoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const item = await fetchPoll(pollId);
+    if (!item || item.poll.postId !== postId || !(await loadVisiblePost(postId, userId))) {
+      return res.status(404).json({ error: 'Poll not found' });
+    }
+    if (isPollClosed(item.poll)) {
+      return res.status(400).json({ error: 'This poll has closed' });
+    }
+
+    const optionIds = [...new Set(parsed.data.option_ids)];
+    const validIds = new Set(item.options.map(option => option.id));
+    if (!optionIds.every(id => validIds.has(id))) {
+      return res.status(400).json({ error: 'Invalid poll option' });
+    }
+    if (!item.poll.allowMultiple && optionIds.length > 1) {
+      return res.status(400).json({ error: 'This poll allows only one choice' });
+    }
+
+    const result = await castVote(pollId, userId, optionIds);
+    if (result === 'already_voted') {
+      return res.status(409).json({ error: 'You have already voted in this poll' });
+    }
+    if (result === 'closed') {
+      return res.status(400).json({ error: 'This poll has closed' });
+    }
+
+    const updated = await fetchPoll(pollId);
+    res.json(formatPoll(updated!, optionIds));
+  } catch (error) {
+    console.error('Poll vote error:', error);
+    res.status(500).json({ error: 'Failed to vote' });
+  }
+});
+
+/**
+ * POST /api/posts/:id/pin
+ * Pin one of your own posts to your profile, after any existing pins
+ */
+router.post('/:id/pin', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const [post] = await db
+      .select({ authorId: posts.authorId, isAnonymous: posts.isAnonymous })
+      .from(posts)
+      .where(eq(posts.id, id))
+      .limit(1);
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (post.authorId !== req.user!.id) {
+      return res.status(403).json({ error: 'You can only pin your own posts' });
+    }
+    // Showing an anonymous post on its author's profile would unmask them
+    if (post.isAnonymous) {
+      return res.status(400).json({ error: 'Anonymous posts cannot be pinned' });
+    }
+
+    const result = await pinPost(req.user!.id, id);
+    if (result === 'limit_reached') {
+      return res.status(400).json({ error: `You can pin up to ${LIMITS.PINNED_POSTS_MAX} posts` });
+    }
+
+    res.json({ success: true, is_pinned: true });
+  } catch (error) {
+    console.error('Pin post error:', error);
+    res.status(500).json({ error: 'Failed to pin post' });
+  }
+});
+
+/**
+ * DELETE /api/posts/:id/pin
+ * Unpin a post from your profile
+ */
+router.delete('/:id/pin', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    await unpinPost(req.user!.id, id);
+    res.json({ success: true, is_pinned: false });
+  } catch (error) {
+    console.error('Unpin post error:', error);
+    res.status(500).json({ error: 'Failed to unpin post' });
+  }
+});
+
+/**
+ * POST /api/posts/:id/bookmark
+ * Save a post, optionally into one of the user's collections
+ */
 router.post('/:id/bookmark', authMiddleware, async (req: Request, res: Response) => {
   try {
-    res.json({ success: true, is_bookmarked: true });
+    const parsed = saveItemSchema.safeParse({
+      item_type: 'post',
+      item_id: req.params.id,
+      collection_id: req.body?.collection_id,
+    });
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await saveItem(req.user!.id, parsed.data);
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (result.status === 'collection_not_found') {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+    res.json({ success: true, is_bookmarked: true, saved_item_id: result.savedItem.id });
   } catch (error) {
+    console.error('Bookmark post error:', error);
     res.status(500).json({ error: 'Failed to bookmark' });
   }
 });
 
+/**
+ * DELETE /api/posts/:id/bookmark
+ * Unsave a post, whichever collection it is in
+ */
 router.delete('/:id/bookmark', authMiddleware, async (req: Request, res: Response) => {
   try {
+    await unsaveItem(req.user!.id, 'post', req.params.id);
     res.json({ success: true, is_bookmarked: false });
   } catch (error) {
+    console.error('Remove bookmark error:', error);
     res.status(500).json({ error: 'Failed to remove bookmark' });
   }
 });
 
-router.get('/:postId/comments', async (req: Request, res: Response) => {
+/**
+ * POST /api/posts/:id/repost
+ * Repost a post into the feed, or into a room with room_id. Adding content
+ * makes it a quote; a post can only be reposted without commentary once.
+ */
+router.post('/:id/repost', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const comments = [
-      {
-        id: 1,
-        content: 'Great insights! The implications for patient care are significant.',
-        author: { id: 2, first_name: 'John', last_name: 'Doe', full_name: 'Dr. John Doe', specialty: 'Surgeon', avatar_url: null, is_verified: true },
-        post_id: parseInt(req.params.postId),
-        parent_id: null,
-        upvotes: 12,
-        downvotes: 0,
-        user_vote: null,
-        replies_count: 2,
-        created_at: new Date(Date.now() - 3600000).toISOString(),
-      },
-      {
-        id: 2,
-        content: 'I agree, this technology could revolutionize how we approach treatment.',
-        author: { id: 3, first_name: 'Jane', last_name: 'Smith', full_name: 'Jane Smith, PhD', specialty: 'Researcher', avatar_url: null, is_verified: false },
-        post_id: parseInt(req.params.postId),
-        parent_id: null,
-        upvotes: 8,
-        downvotes: 1,
-        user_vote: null,
-        replies_count: 0,
-        created_at: new Date(Date.now() - 1800000).toISOString(),
-      },
-    ];
-    res.json({ comments });
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const parsed = repostSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+    const roomError = await checkPostRoom(parsed.data.room_id, req.user!.id);
+    if (roomError) {
+      return res.status(roomError.status).json({ error: roomError.error });
+    }
+
+    const result = await createRepost(req.user!.id, id, parsed.data);
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (result.status === 'blocked') {
+      return res.status(403).json({ error: 'You cannot repost this post' });
+    }
+    if (result.status === 'private_room') {
+      return res
+        .status(403)
+        .json({ error: 'Posts in private rooms can only be reposted within the room' });
+    }
+    if (result.status === 'already_reposted') {
+      return res.status(409).json({ error: 'You have already reposted this post' });
+    }
+
+    const item = await fetchPost(result.post.id);
+    const [post] = await formatPostsForViewer([item!], req.user!.id);
+    res.status(201).json(post);
   } catch (error) {
+    console.error('Repost error:', error);
+    res.status(500).json({ error: 'Failed to repost' });
+  }
+});
+
+/**
+ * DELETE /api/posts/:id/repost
+ * Undo your repost of a post. Quotes are deleted like any other post.
+ */
+router.delete('/:id/repost', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id) || !(await undoRepost(req.user!.id, id))) {
+      return res.status(404).json({ error: 'Repost not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Undo repost error:', error);
+    res.status(500).json({ error: 'Failed to undo repost' });
+  }
+});
+
+/**
+ * GET /api/posts/:postId/comments
+ * Top-level comments, oldest first, each with a preview of its reply thread
+ */
+router.get('/:postId/comments', optionalAuthMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { postId } = req.params;
+    const { cursor, limit } = req.query;
+    if (!isUuid(postId)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    if (!(await loadVisiblePost(postId, req.user?.id))) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const decodedCursor = cursor ? decodeCursor(String(cursor)) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const page = await fetchTopLevelComments(
+      postId,
+      decodedCursor,
+      Math.min(MAX_COMMENT_PAGE_SIZE, Math.max(1, Number(limit) || DEFAULT_COMMENT_PAGE_SIZE))
+    );
+
+    res.json({
+      comments: await formatThreads(page.items, req.user?.id),
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor ?? undefined,
+    });
+  } catch (error) {
+    console.error('Get comments error:', error);
     res.status(500).json({ error: 'Failed to fetch comments' });
   }
 });
 
+/**
+ * POST /api/posts/:postId/comments
+ * Comment on a post, or reply to a comment when parent_id is given
+ */
 router.post('/:postId/comments', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { content, parent_id } = req.body;
-    const userId = (req as any).userId;
-
-    const comment = {
-      id: Date.now(),
-      content,
-      author: { id: userId, first_name: 'Current', last_name: 'User', full_name: 'Current User', specialty: 'Healthcare Professional', avatar_url: null, is_verified: false },
-      post_id: parseInt(req.params.postId),
-      parent_id: parent_id || null,
-      upvotes: 0,
-      downvotes: 0,
-      user_vote: null,
-      replies_count: 0,
-      created_at: new Date().toISOString(),
-    };
+    const { postId } = req.params;
+    if (!isUuid(postId)) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const parsed = createCommentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
 
+    const post = await loadVisiblePost(postId, req.user!.id);
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (post.roomId && (await fetchActiveBan(post.roomId, req.user!.id))) {
+      return res.status(403).json({ error: 'You are banned from this room' });
+    }
+
+    const { content, parent_id, is_anonymous = false } = parsed.data;
+    let depth = 0;
+    if (parent_id) {
+      const [parent] = await db
+        .select({ postId: comments.postId, depth: comments.depth, deletedAt: comments.deletedAt })
+        .from(comments)
+        .where(eq(comments.id, parent_id))
+        .limit(1);
+
+      if (!parent || parent.postId !== postId) {
+        return res.status(400).json({ error: 'Parent comment not found' });
+      }
+      if (parent.deletedAt) {
+        return res.status(400).json({ error: 'Cannot reply to a deleted comment' });
+      }
+      if (parent.depth >= LIMITS.COMMENT_DEPTH_MAX) {
+        return res.status(400).json({ error: 'Maximum reply depth reached' });
+      }
+      depth = parent.depth + 1;
+    }
+
+    const now = new Date();
+    const created = await db.transaction(async (tx) => {
+      const [comment] = await tx
+        .insert(comments)
+        .values({
+          postId,
+          authorId: req.user!.id,
+          parentId: parent_id ?? null,
+          depth,
+          content: content.trim(),
+          isAnonymous: is_anonymous,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+
+      if (is_anonymous) {
+        await ensurePseudonym(postId, req.user!.id, tx);
+      }
+
+      await tx
+        .update(posts)
+        .set({ commentsCount: sql`${posts.commentsCount} + 1` })
+        .where(eq(posts.id, postId));
+
+      if (parent_id) {
+        await tx
+          .update(comments)
+          .set({ repliesCount: sql`${comments.repliesCount} + 1` })
+          .where(eq(comments.id, parent_id));
+      }
+
+      return comment;
+    });
+
+    await syncHashtagUsages({
+      postId,
+      commentId: created.id,
+      roomId: post.roomId,
+      content: created.content,
+      createdAt: created.createdAt,
+    });
+    recordMentions({
+      postId,
+      commentId: created.id,
+      authorId: created.authorId,
+      content: created.content,
+      isAnonymous: created.isAnonymous,
+    }).catch(error => console.error('Mention notification error:', error));
+
+    const item = await fetchComment(created.id);
+    const [comment] = await formatThreads([item!], req.user!.id);
     res.status(201).json(comment);
   } catch (error) {
+    console.error('Create comment error:', error);
     res.status(500).json({ error: 'Failed to add comment' });
   }
 });
 
+/**
+ * DELETE /api/posts/:postId/comments/:commentId
+ * Soft delete a comment, leaving a placeholder so its replies stay in place
+ */
 router.delete('/:postId/comments/:commentId', authMiddleware, async (req: Request, res: Response) => {
   try {
+    const { postId, commentId } = req.params;
+    if (!isUuid(postId) || !isUuid(commentId)) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+
+    const item = await fetchComment(commentId);
+    if (!item || item.comment.postId !== postId || item.comment.deletedAt) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+    if (item.comment.authorId !== req.user!.id) {
+      return res.status(403).json({ error: 'You can only delete your own comments' });
+    }
+
+    await softDeleteComment(item.comment);
     res.json({ success: true });
   } catch (error) {
+    console.error('Delete comment error:', error);
     res.status(500).json({ error: 'Failed to delete comment' });
   }
 });
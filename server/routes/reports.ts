@@ -0,0 +1,36 @@
+import { Router, Request, Response } from 'express';
+import { createReportSchema } from '@medinvest/shared/validators';
+import { authMiddleware } from '../middleware/auth';
+import { createReport } from '../services/reports';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+/**
+ * POST /api/reports
+ * Report a user, post, comment or message
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = createReportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await createReport(req.user!.id, parsed.data);
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Nothing to report was found' });
+    }
+    if (result.status === 'own_content') {
+      return res.status(400).json({ error: 'You cannot report yourself' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Create report error:', error);
+    res.status(500).json({ error: 'Failed to submit report' });
+  }
+});
+
+export default router;
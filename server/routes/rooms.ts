@@ -1,229 +1,1023 @@
 import { Router, Request, Response } from 'express';
-import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import { and, eq } from 'drizzle-orm';
+import {
+  createRoomSchema,
+  declineRoomSchema,
+  joinRoomSchema,
+  roomBanSchema,
+  roomInviteSchema,
+  roomRemovalSchema,
+  updateRoomSchema,
+} from '@medinvest/shared/validators';
+import { LIMITS } from '@medinvest/shared/constants';
+import { ROOM_ANALYTICS_PERIODS, type RoomAnalyticsPeriod } from '@medinvest/shared/types';
+import { db, posts } from '../db';
+import {
+  adminMiddleware,
+  authMiddleware,
+  isAdmin,
+  isModerator,
+  optionalAuthMiddleware,
+} from '../middleware/auth';
+import { fetchComment } from '../services/comments';
+import { loadViewerContext, mutedKeywordConditions } from '../services/feedRanking';
+import { decodeCursor, fetchPostPage, isUuid, parseJsonArray } from '../services/posts';
+import { formatPostsForViewer } from '../services/postViews';
+import {
+  cancelJoinRequest,
+  createRoomInvite,
+  fetchJoinRequest,
+  fetchPendingJoinRequests,
+  fetchRoomInvites,
+  formatRoomInvite,
+  joinWithInvite,
+  requestToJoin,
+  revokeRoomInvite,
+  reviewJoinRequest,
+  setRoomVisibility,
+} from '../services/roomAccess';
+import { fetchRoomAnalytics } from '../services/roomAnalytics';
+import {
+  approveRoom,
+  archiveRoom,
+  declineRoom,
+  fetchRoomProposals,
+  findRoomProposal,
+  formatRoomProposal,
+  proposeRoom,
+  restoreRoom,
+} from '../services/roomProposals';
+import {
+  addRoomModerator,
+  banUser,
+  fetchActiveBan,
+  fetchBans,
+  fetchModerationLog,
+  fetchRoomPinnedPosts,
+  isRoomModerator,
+  pinRoomPost,
+  removeRoomComment,
+  removeRoomModerator,
+  removeRoomPost,
+  unbanUser,
+  unpinRoomPost,
+} from '../services/roomModeration';
+import {
+  canViewRoomPosts,
+  countMembers,
+  fetchJoinedRooms,
+  fetchMembership,
+  fetchModerators,
+  fetchRooms,
+  findRoom,
+  formatRoom,
+  formatRoomDetail,
+  getJoinedRoomIds,
+  joinRoom,
+  leaveRoom,
+} from '../services/rooms';
 
 const router = Router();
 
-const ROOMS = [
-  { 
-    id: 1, 
-    name: 'Cardiology', 
-    slug: 'cardiology', 
-    description: 'Heart health and cardiovascular innovations. Discuss the latest in cardiac care, devices, and treatment methodologies.',
-    icon: 'heart', 
-    color: '#EF4444', 
-    posts_count: 1243, 
-    members_count: 8521,
-    rules: ['Be respectful', 'No promotional content', 'Cite sources'],
-    moderators: [{ id: 1, name: 'Dr. Sarah Chen' }],
-  },
-  { 
-    id: 2, 
-    name: 'Oncology', 
-    slug: 'oncology', 
-    description: 'Cancer research and treatment advances. Share insights on immunotherapy, targeted treatments, and clinical trials.',
-    icon: 'activity', 
-    color: '#8B5CF6', 
-    posts_count: 987, 
-    members_count: 6234,
-    rules: ['Evidence-based discussion only', 'Patient privacy first', 'No misinformation'],
-    moderators: [{ id: 2, name: 'Dr. Michael Roberts' }],
-  },
-  { 
-    id: 3, 
-    name: 'Neurology', 
-    slug: 'neurology', 
-    description: 'Brain and nervous system innovations. Explore neurodegenerative diseases, brain-computer interfaces, and neurological research.',
-    icon: 'cpu', 
-    color: '#3B82F6', 
-    posts_count: 756, 
-    members_count: 5102,
-    rules: ['Scientific rigor required', 'Respectful debate', 'No personal attacks'],
-    moderators: [{ id: 3, name: 'Dr. Emily Thompson' }],
-  },
-  { 
-    id: 4, 
-    name: 'Digital Health', 
-    slug: 'digital-health', 
-    description: 'Health tech and digital therapeutics. Discuss telemedicine, wearables, health apps, and the future of connected healthcare.',
-    icon: 'smartphone', 
-    color: '#10B981', 
-    posts_count: 1567, 
-    members_count: 9876,
-    rules: ['Share insights openly', 'Disclose conflicts of interest', 'Focus on patient outcomes'],
-    moderators: [{ id: 4, name: 'James Wilson, PhD' }],
-  },
-  { 
-    id: 5, 
-    name: 'Biotech', 
-    slug: 'biotech', 
-    description: 'Biotechnology breakthroughs. Gene therapy, CRISPR, cell therapies, and the cutting edge of biological science.',
-    icon: 'flask-conical', 
-    color: '#F59E0B', 
-    posts_count: 892, 
-    members_count: 7234,
-    rules: ['Technical accuracy matters', 'Respect IP boundaries', 'Encourage collaboration'],
-    moderators: [{ id: 5, name: 'Dr. Lisa Park' }],
-  },
-  { 
-    id: 6, 
-    name: 'Medical Devices', 
-    slug: 'medical-devices', 
-    description: 'Innovative medical equipment. Discuss regulatory pathways, device development, and breakthrough technologies.',
-    icon: 'stethoscope', 
-    color: '#06B6D4', 
-    posts_count: 654, 
-    members_count: 4521,
-    rules: ['Focus on innovation', 'Respect regulatory processes', 'Share case studies'],
-    moderators: [{ id: 6, name: 'Mark Johnson, MBA' }],
-  },
-  { 
-    id: 7, 
-    name: 'Pharmaceuticals', 
-    slug: 'pharma', 
-    description: 'Drug development and pharmaceutical innovations. Clinical trials, drug approvals, and market dynamics.',
-    icon: 'pill', 
-    color: '#EC4899', 
-    posts_count: 1123, 
-    members_count: 8765,
-    rules: ['Disclosure required', 'Evidence-based claims', 'Patient safety first'],
-    moderators: [{ id: 7, name: 'Dr. Rachel Green' }],
-  },
-  { 
-    id: 8, 
-    name: 'Healthcare AI', 
-    slug: 'healthcare-ai', 
-    description: 'Artificial intelligence in medicine. Machine learning diagnostics, predictive analytics, and AI-assisted care.',
-    icon: 'brain', 
-    color: '#6366F1', 
-    posts_count: 876, 
-    members_count: 5432,
-    rules: ['Explain algorithms clearly', 'Address bias concerns', 'Focus on clinical utility'],
-    moderators: [{ id: 8, name: 'Alex Kim, PhD' }],
-  },
-];
-
-const userMemberships = new Map<number, Set<number>>();
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
 
+/**
+ * Whether the current user can moderate a room: its own moderators, and site
+ * moderators and admins everywhere
+ */
+async function canModerate(req: Request, roomId: number): Promise<boolean> {
+  return isModerator(req.user) || isRoomModerator(roomId, req.user!.id);
+}
+
+/**
+ * GET /api/rooms
+ * Active rooms with their post and member counts. Pass specialty to list the
+ * rooms in one specialty. Invite-only rooms are listed for their members only.
+ */
 router.get('/', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const userId = (req as any).userId;
-    const userRooms = userMemberships.get(userId) || new Set();
-    
-    const rooms = ROOMS.map(room => ({
-      ...room,
-      is_member: userRooms.has(room.id),
-    }));
-    
-    res.json({ rooms });
+    const specialty = req.query.specialty ? String(req.query.specialty) : undefined;
+    const [rows, joinedRoomIds] = await Promise.all([
+      fetchRooms(specialty),
+      getJoinedRoomIds(req.user?.id),
+    ]);
+
+    res.json({
+      rooms: rows
+        .filter(row => row.room.visibility !== 'invite_only' || joinedRoomIds.has(row.room.id))
+        .map(row => formatRoom(row, joinedRoomIds.has(row.room.id))),
+    });
   } catch (error) {
     console.error('Rooms error:', error);
     res.status(500).json({ error: 'Failed to fetch rooms' });
   }
 });
 
+/**
+ * GET /api/rooms/joined
+ * Rooms the current user has joined, most recently joined first
+ */
+router.get('/joined', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const rows = await fetchJoinedRooms(req.user!.id);
+    res.json({ rooms: rows.map(row => formatRoom(row, true)) });
+  } catch (error) {
+    console.error('Joined rooms error:', error);
+    res.status(500).json({ error: 'Failed to fetch joined rooms' });
+  }
+});
+
+/**
+ * POST /api/rooms
+ * Propose a new room (verified users). It is hidden until an admin approves
+ * it, at which point the proposer becomes its first moderator.
+ */
+router.post('/', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    if (!req.user!.isVerified) {
+      return res.status(403).json({ error: 'Only verified users can propose rooms' });
+    }
+
+    const parsed = createRoomSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await proposeRoom(req.user!.id, parsed.data);
+    if (result.status === 'invalid_slug') {
+      return res.status(400).json({ error: 'Choose an address for this room' });
+    }
+    if (result.status === 'name_taken') {
+      return res.status(409).json({ error: 'A room with this name already exists' });
+    }
+    if (result.status === 'slug_taken') {
+      return res.status(409).json({ error: 'A room with this address already exists' });
+    }
+    if (result.status === 'limit_reached') {
+      return res.status(400).json({
+        error: `You can have up to ${LIMITS.ROOM_PROPOSALS_PENDING_MAX} rooms waiting for approval`,
+      });
+    }
+
+    res.status(201).json(formatRoom({ room: result.room, postsCount: 0, membersCount: 0 }, false));
+  } catch (error) {
+    console.error('Propose room error:', error);
+    res.status(500).json({ error: 'Failed to propose room' });
+  }
+});
+
+/**
+ * GET /api/rooms/proposals
+ * Rooms waiting for approval, oldest first: every proposal for admins, and
+ * the current user's own for everyone else. can_review says which.
+ */
+router.get('/proposals', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const canReview = isAdmin(req.user);
+    const rows = await fetchRoomProposals(canReview ? undefined : req.user!.id);
+    res.json({ rooms: rows.map(formatRoomProposal), can_review: canReview });
+  } catch (error) {
+    console.error('Room proposals error:', error);
+    res.status(500).json({ error: 'Failed to fetch room proposals' });
+  }
+});
+
+/**
+ * POST /api/rooms/:slug/approve
+ * Approve a proposed room (admins)
+ */
+router.post(
+  '/:slug/approve',
+  authMiddleware,
+  adminMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const proposal = await findRoomProposal(req.params.slug);
+      if (!proposal) {
+        return res.status(404).json({ error: 'Room proposal not found' });
+      }
+
+      const room = await approveRoom(proposal, req.user!.id);
+      if (!room) {
+        return res.status(404).json({ error: 'Room proposal not found' });
+      }
+
+      res.json(
+        formatRoom({ room, postsCount: 0, membersCount: await countMembers(room.id) }, false)
+      );
+    } catch (error) {
+      console.error('Approve room error:', error);
+      res.status(500).json({ error: 'Failed to approve room' });
+    }
+  }
+);
+
+/**
+ * POST /api/rooms/:slug/decline
+ * Decline a proposed room (admins). The proposer is told the reason.
+ */
+router.post(
+  '/:slug/decline',
+  authMiddleware,
+  adminMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const parsed = declineRoomSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const proposal = await findRoomProposal(req.params.slug);
+      if (!proposal || !(await declineRoom(proposal, parsed.data.reason))) {
+        return res.status(404).json({ error: 'Room proposal not found' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Decline room error:', error);
+      res.status(500).json({ error: 'Failed to decline room' });
+    }
+  }
+);
+
+/**
+ * POST /api/rooms/:slug/archive
+ * Archive a room (admins). It stays readable but takes no new posts or members.
+ */
+router.post(
+  '/:slug/archive',
+  authMiddleware,
+  adminMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const row = await findRoom(req.params.slug);
+      if (!row) {
+        return res.status(404).json({ error: 'Room not found' });
+      }
+      if (!(await archiveRoom(row.room.id))) {
+        return res.status(400).json({ error: 'This room is already archived' });
+      }
+
+      res.json({ success: true, status: 'archived' });
+    } catch (error) {
+      console.error('Archive room error:', error);
+      res.status(500).json({ error: 'Failed to archive room' });
+    }
+  }
+);
+
+/**
+ * POST /api/rooms/:slug/restore
+ * Bring an archived room back (admins)
+ */
+router.post(
+  '/:slug/restore',
+  authMiddleware,
+  adminMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const row = await findRoom(req.params.slug);
+      if (!row) {
+        return res.status(404).json({ error: 'Room not found' });
+      }
+      if (!(await restoreRoom(row.room.id, req.user!.id))) {
+        return res.status(400).json({ error: 'This room is not archived' });
+      }
+
+      res.json({ success: true, status: 'active' });
+    } catch (error) {
+      console.error('Restore room error:', error);
+      res.status(500).json({ error: 'Failed to restore room' });
+    }
+  }
+);
+
+/**
+ * GET /api/rooms/:slug
+ * A room with its rules and moderators, whether the viewer moderates it, any
+ * ban they are under and their request to join. Accepts the room's id in
+ * place of its slug.
+ */
 router.get('/:slug', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const { slug } = req.params;
-    const userId = (req as any).userId;
-    const userRooms = userMemberships.get(userId) || new Set();
-    
-    const room = ROOMS.find(r => r.slug === slug);
-    if (!room) {
+    const row = await findRoom(req.params.slug);
+    if (!row) {
       return res.status(404).json({ error: 'Room not found' });
     }
-    
-    res.json({ ...room, is_member: userRooms.has(room.id) });
+
+    const viewerId = req.user?.id;
+    const [membership, ban, moderators, joinRequest] = await Promise.all([
+      fetchMembership(row.room.id, viewerId),
+      viewerId ? fetchActiveBan(row.room.id, viewerId) : null,
+      fetchModerators(row.room.id),
+      fetchJoinRequest(row.room.id, viewerId),
+    ]);
+
+    res.json(
+      formatRoomDetail(
+        row,
+        {
+          isMember: !!membership,
+          isModerator: isModerator(req.user) || membership?.role === 'moderator',
+          ban,
+          // An approved request only matters until the member leaves
+          joinRequestStatus:
+            !membership && joinRequest?.status !== 'approved'
+              ? (joinRequest?.status ?? null)
+              : null,
+        },
+        moderators
+      )
+    );
   } catch (error) {
+    console.error('Room error:', error);
     res.status(500).json({ error: 'Failed to fetch room' });
   }
 });
 
+/**
+ * POST /api/rooms/:slug/join
+ * Join a room. Rooms with rules require accept_rules: true. Private rooms
+ * take a request for the moderators to review, unless an invite_code is
+ * given; invite-only rooms need one.
+ */
 router.post('/:slug/join', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { slug } = req.params;
-    const userId = (req as any).userId;
-    
-    const room = ROOMS.find(r => r.slug === slug);
-    if (!room) {
+    const parsed = joinRoomSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const row = await findRoom(req.params.slug);
+    if (!row) {
       return res.status(404).json({ error: 'Room not found' });
     }
-    
-    if (!userMemberships.has(userId)) {
-      userMemberships.set(userId, new Set());
+    if (row.room.status === 'archived') {
+      return res.status(403).json({ error: 'This room is archived' });
+    }
+    if (await fetchActiveBan(row.room.id, req.user!.id)) {
+      return res.status(403).json({ error: 'You are banned from this room' });
+    }
+    if (parseJsonArray(row.room.rules).length > 0 && !parsed.data.accept_rules) {
+      return res.status(400).json({ error: 'Accept the room rules to join' });
+    }
+
+    const { invite_code, message } = parsed.data;
+    if (row.room.visibility === 'public' || (await fetchMembership(row.room.id, req.user!.id))) {
+      await joinRoom(req.user!.id, row.room.id);
+    } else if (invite_code) {
+      if (!(await joinWithInvite(row.room.id, invite_code, req.user!.id))) {
+        return res.status(400).json({ error: 'This invite link is invalid or has expired' });
+      }
+    } else if (row.room.visibility === 'invite_only') {
+      return res.status(403).json({ error: 'This room is invite-only' });
+    } else {
+      await requestToJoin(row.room, req.user!.id, message);
+      return res.status(202).json({
+        success: true,
+        is_member: false,
+        members_count: row.membersCount,
+        join_request_status: 'pending',
+      });
     }
-    userMemberships.get(userId)!.add(room.id);
-    
-    res.json({ success: true, is_member: true, members_count: room.members_count + 1 });
+
+    res.json({ success: true, is_member: true, members_count: await countMembers(row.room.id) });
   } catch (error) {
+    console.error('Join room error:', error);
     res.status(500).json({ error: 'Failed to join room' });
   }
 });
 
+/**
+ * DELETE /api/rooms/:slug/join
+ * Leave a room, or withdraw a pending request to join it
+ */
 router.delete('/:slug/join', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { slug } = req.params;
-    const userId = (req as any).userId;
-    
-    const room = ROOMS.find(r => r.slug === slug);
-    if (!room) {
+    const row = await findRoom(req.params.slug);
+    if (!row) {
       return res.status(404).json({ error: 'Room not found' });
     }
-    
-    const userRooms = userMemberships.get(userId);
-    if (userRooms) {
-      userRooms.delete(room.id);
-    }
-    
-    res.json({ success: true, is_member: false, members_count: room.members_count });
+
+    await Promise.all([
+      leaveRoom(req.user!.id, row.room.id),
+      cancelJoinRequest(row.room.id, req.user!.id),
+    ]);
+
+    res.json({ success: true, is_member: false, members_count: await countMembers(row.room.id) });
   } catch (error) {
+    console.error('Leave room error:', error);
     res.status(500).json({ error: 'Failed to leave room' });
   }
 });
 
+/**
+ * GET /api/rooms/:slug/posts
+ * A room's posts, newest first. Pass cursor for later pages. The first page
+ * also carries the room's pinned announcements. Private and invite-only
+ * rooms show their posts to members and moderators only.
+ */
 router.get('/:slug/posts', optionalAuthMiddleware, async (req: Request, res: Response) => {
   try {
-    const { slug } = req.params;
-    const { cursor, limit = 20 } = req.query;
-    
-    const room = ROOMS.find(r => r.slug === slug);
-    if (!room) {
-      return res.status(404).json({ error: 'Room not found' });
-    }
-    
-    const authors = [
-      { id: 1, first_name: 'Sarah', last_name: 'Chen', full_name: 'Dr. Sarah Chen', specialty: 'Cardiologist', avatar_url: null, is_verified: true },
-      { id: 2, first_name: 'Michael', last_name: 'Roberts', full_name: 'Dr. Michael Roberts', specialty: 'Oncologist', avatar_url: null, is_verified: true },
-    ];
-    
-    const posts = Array.from({ length: Number(limit) }, (_, i) => ({
-      id: i + 1,
-      content: `Discussion about ${room.name} - Topic ${i + 1}. Great insights on the latest developments in this field. #${room.slug}`,
-      author: authors[i % authors.length],
-      room: { ...room, is_member: true },
-      images: [],
-      video_url: null,
-      is_anonymous: false,
-      mentions: [],
-      hashtags: [`#${room.slug}`],
-      upvotes: Math.floor(Math.random() * 50) + 5,
-      downvotes: Math.floor(Math.random() * 5),
-      comments_count: Math.floor(Math.random() * 20),
-      user_vote: null,
-      is_bookmarked: false,
-      feed_score: Math.random() * 100,
-      created_at: new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000).toISOString(),
-      updated_at: new Date().toISOString(),
-    }));
-    
+    const { cursor, limit } = req.query;
+    const decodedCursor = cursor ? decodeCursor(String(cursor)) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+
+    const context = await loadViewerContext(req.user?.id);
+    if (
+      !canViewRoomPosts(row.room, context.joinedRoomIds.has(row.room.id)) &&
+      !(req.user && (await canModerate(req, row.room.id)))
+    ) {
+      return res.status(403).json({ error: 'Join this room to see its posts' });
+    }
+
+    const page = await fetchPostPage(
+      and(eq(posts.roomId, row.room.id), ...mutedKeywordConditions(context)),
+      decodedCursor,
+      Math.min(MAX_PAGE_SIZE, Math.max(1, Number(limit) || DEFAULT_PAGE_SIZE))
+    );
+
+    const pinned = decodedCursor ? undefined : await fetchRoomPinnedPosts(row.room.id);
+
     res.json({
-      posts,
-      has_more: true,
-      next_cursor: 'next_page_token',
+      posts: await formatPostsForViewer(page.items, req.user?.id),
+      pinned_posts: pinned ? await formatPostsForViewer(pinned, req.user?.id) : undefined,
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor ?? undefined,
       feed_style: 'chronological',
     });
   } catch (error) {
+    console.error('Room posts error:', error);
     res.status(500).json({ error: 'Failed to fetch room posts' });
   }
 });
 
+/**
+ * POST /api/rooms/:slug/posts/:postId/remove
+ * Remove a post from the room (room moderators). The author is told the reason.
+ */
+router.post('/:slug/posts/:postId/remove', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = roomRemovalSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    const { postId } = req.params;
+    const [post] = isUuid(postId)
+      ? await db
+          .select()
+          .from(posts)
+          .where(and(eq(posts.id, postId), eq(posts.roomId, row.room.id)))
+          .limit(1)
+      : [];
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    await removeRoomPost(row.room, post, req.user!.id, parsed.data.reason);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Remove room post error:', error);
+    res.status(500).json({ error: 'Failed to remove post' });
+  }
+});
+
+/**
+ * POST /api/rooms/:slug/comments/:commentId/remove
+ * Remove a comment on one of the room's posts (room moderators). The author
+ * is told the reason.
+ */
+router.post(
+  '/:slug/comments/:commentId/remove',
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const parsed = roomRemovalSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0].message });
+      }
+
+      const row = await findRoom(req.params.slug);
+      if (!row) {
+        return res.status(404).json({ error: 'Room not found' });
+      }
+      if (!(await canModerate(req, row.room.id))) {
+        return res.status(403).json({ error: 'Room moderator access required' });
+      }
+
+      const { commentId } = req.params;
+      const item = isUuid(commentId) ? await fetchComment(commentId) : null;
+      const [post] = item
+        ? await db
+            .select({ roomId: posts.roomId })
+            .from(posts)
+            .where(eq(posts.id, item.comment.postId))
+            .limit(1)
+        : [];
+      if (!item || item.comment.deletedAt || post?.roomId !== row.room.id) {
+        return res.status(404).json({ error: 'Comment not found' });
+      }
+
+      await removeRoomComment(row.room, item.comment, req.user!.id, parsed.data.reason);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Remove room comment error:', error);
+      res.status(500).json({ error: 'Failed to remove comment' });
+    }
+  }
+);
+
+/**
+ * POST /api/rooms/:slug/posts/:postId/pin
+ * Pin one of the room's posts as an announcement (room moderators)
+ */
+router.post('/:slug/posts/:postId/pin', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    const { postId } = req.params;
+    const [post] = isUuid(postId)
+      ? await db
+          .select({ id: posts.id })
+          .from(posts)
+          .where(and(eq(posts.id, postId), eq(posts.roomId, row.room.id)))
+          .limit(1)
+      : [];
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    const result = await pinRoomPost(row.room.id, post.id, req.user!.id);
+    if (result.status === 'limit_reached') {
+      return res.status(400).json({
+        error: `A room can have up to ${LIMITS.ROOM_PINNED_POSTS_MAX} pinned announcements`,
+      });
+    }
+    if (result.status === 'already_pinned') {
+      return res.status(409).json({ error: 'Post is already pinned' });
+    }
+
+    res.json({ success: true, is_pinned: true });
+  } catch (error) {
+    console.error('Pin room post error:', error);
+    res.status(500).json({ error: 'Failed to pin post' });
+  }
+});
+
+/**
+ * DELETE /api/rooms/:slug/posts/:postId/pin
+ * Unpin a room announcement (room moderators)
+ */
+router.delete('/:slug/posts/:postId/pin', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    const { postId } = req.params;
+    if (!isUuid(postId) || !(await unpinRoomPost(row.room.id, postId, req.user!.id))) {
+      return res.status(404).json({ error: 'Post is not pinned' });
+    }
+
+    res.json({ success: true, is_pinned: false });
+  } catch (error) {
+    console.error('Unpin room post error:', error);
+    res.status(500).json({ error: 'Failed to unpin post' });
+  }
+});
+
+/**
+ * GET /api/rooms/:slug/bans
+ * Bans in force in the room, most recent first (room moderators)
+ */
+router.get('/:slug/bans', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    res.json({ bans: await fetchBans(row.room.id) });
+  } catch (error) {
+    console.error('Get room bans error:', error);
+    res.status(500).json({ error: 'Failed to fetch bans' });
+  }
+});
+
+/**
+ * POST /api/rooms/:slug/bans
+ * Ban a user from the room for duration_days, or permanently if omitted
+ * (room moderators). The user is removed from the room and told the reason.
+ */
+router.post('/:slug/bans', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = roomBanSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+    if (parsed.data.user_id === req.user!.id) {
+      return res.status(400).json({ error: 'You cannot ban yourself' });
+    }
+
+    const result = await banUser(row.room, req.user!.id, parsed.data);
+    if (result.status === 'user_not_found') {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (result.status === 'is_moderator') {
+      return res.status(400).json({ error: 'Moderators cannot be banned' });
+    }
+
+    res.status(201).json({
+      user_id: result.ban.userId,
+      reason: result.ban.reason,
+      expires_at: result.ban.expiresAt?.toISOString() ?? null,
+      created_at: result.ban.createdAt.toISOString(),
+    });
+  } catch (error) {
+    console.error('Ban room user error:', error);
+    res.status(500).json({ error: 'Failed to ban user' });
+  }
+});
+
+/**
+ * DELETE /api/rooms/:slug/bans/:userId
+ * Lift a user's ban from the room (room moderators)
+ */
+router.delete('/:slug/bans/:userId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    const { userId } = req.params;
+    if (!isUuid(userId) || !(await unbanUser(row.room, userId, req.user!.id))) {
+      return res.status(404).json({ error: 'User is not banned' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Unban room user error:', error);
+    res.status(500).json({ error: 'Failed to lift ban' });
+  }
+});
+
+/**
+ * PATCH /api/rooms/:slug
+ * Change who can see and join the room (room moderators)
+ */
+router.patch('/:slug', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = updateRoomSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    await setRoomVisibility(row.room, parsed.data.visibility, req.user!.id);
+
+    res.json({ success: true, visibility: parsed.data.visibility });
+  } catch (error) {
+    console.error('Update room error:', error);
+    res.status(500).json({ error: 'Failed to update room' });
+  }
+});
+
+/**
+ * GET /api/rooms/:slug/join-requests
+ * Pending requests to join the room, oldest first (room moderators)
+ */
+router.get('/:slug/join-requests', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    res.json({ requests: await fetchPendingJoinRequests(row.room.id) });
+  } catch (error) {
+    console.error('Get join requests error:', error);
+    res.status(500).json({ error: 'Failed to fetch join requests' });
+  }
+});
+
+/**
+ * POST /api/rooms/:slug/join-requests/:userId/approve
+ * Let a user into the room; they are told they are in (room moderators)
+ */
+router.post(
+  '/:slug/join-requests/:userId/approve',
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const row = await findRoom(req.params.slug);
+      if (!row) {
+        return res.status(404).json({ error: 'Room not found' });
+      }
+      if (!(await canModerate(req, row.room.id))) {
+        return res.status(403).json({ error: 'Room moderator access required' });
+      }
+
+      const { userId } = req.params;
+      const result = isUuid(userId)
+        ? await reviewJoinRequest(row.room, userId, req.user!.id, true)
+        : { status: 'not_found' as const };
+      if (result.status === 'not_found') {
+        return res.status(404).json({ error: 'Join request not found' });
+      }
+      if (result.status === 'banned') {
+        return res.status(400).json({ error: 'This user is banned from the room' });
+      }
+
+      res.json({ success: true, members_count: await countMembers(row.room.id) });
+    } catch (error) {
+      console.error('Approve join request error:', error);
+      res.status(500).json({ error: 'Failed to approve join request' });
+    }
+  }
+);
+
+/**
+ * POST /api/rooms/:slug/join-requests/:userId/decline
+ * Turn down a request to join the room (room moderators)
+ */
+router.post(
+  '/:slug/join-requests/:userId/decline',
+  authMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const row = await findRoom(req.params.slug);
+      if (!row) {
+        return res.status(404).json({ error: 'Room not found' });
+      }
+      if (!(await canModerate(req, row.room.id))) {
+        return res.status(403).json({ error: 'Room moderator access required' });
+      }
+
+      const { userId } = req.params;
+      const result = isUuid(userId)
+        ? await reviewJoinRequest(row.room, userId, req.user!.id, false)
+        : { status: 'not_found' as const };
+      if (result.status === 'not_found') {
+        return res.status(404).json({ error: 'Join request not found' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Decline join request error:', error);
+      res.status(500).json({ error: 'Failed to decline join request' });
+    }
+  }
+);
+
+/**
+ * GET /api/rooms/:slug/invites
+ * The room's invites that can still be used, newest first (room moderators)
+ */
+router.get('/:slug/invites', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    const invites = await fetchRoomInvites(row.room.id);
+    res.json({ invites: invites.map(formatRoomInvite) });
+  } catch (error) {
+    console.error('Get room invites error:', error);
+    res.status(500).json({ error: 'Failed to fetch invites' });
+  }
+});
+
+/**
+ * POST /api/rooms/:slug/invites
+ * Create an invite link into the room, optionally expiring after
+ * expires_in_hours or limited to max_uses joins (room moderators)
+ */
+router.post('/:slug/invites', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const parsed = roomInviteSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    const invite = await createRoomInvite(row.room.id, req.user!.id, parsed.data);
+    res.status(201).json(formatRoomInvite(invite));
+  } catch (error) {
+    console.error('Create room invite error:', error);
+    res.status(500).json({ error: 'Failed to create invite' });
+  }
+});
+
+/**
+ * DELETE /api/rooms/:slug/invites/:inviteId
+ * Revoke an invite (room moderators)
+ */
+router.delete('/:slug/invites/:inviteId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    const { inviteId } = req.params;
+    if (!isUuid(inviteId) || !(await revokeRoomInvite(row.room.id, inviteId, req.user!.id))) {
+      return res.status(404).json({ error: 'Invite not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Revoke room invite error:', error);
+    res.status(500).json({ error: 'Failed to revoke invite' });
+  }
+});
+
+/**
+ * PUT /api/rooms/:slug/moderators/:userId
+ * Make a user one of the room's moderators (site moderators and admins)
+ */
+router.put('/:slug/moderators/:userId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    if (!isModerator(req.user)) {
+      return res.status(403).json({ error: 'Moderator access required' });
+    }
+
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+
+    const { userId } = req.params;
+    const result = isUuid(userId)
+      ? await addRoomModerator(row.room.id, userId, req.user!.id)
+      : { status: 'user_not_found' as const };
+    if (result.status === 'user_not_found') {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (result.status === 'banned') {
+      return res.status(409).json({ error: 'User is banned from this room' });
+    }
+
+    res.json({ success: true, is_moderator: true });
+  } catch (error) {
+    console.error('Add room moderator error:', error);
+    res.status(500).json({ error: 'Failed to add moderator' });
+  }
+});
+
+/**
+ * DELETE /api/rooms/:slug/moderators/:userId
+ * Return a room moderator to an ordinary member (site moderators and admins)
+ */
+router.delete('/:slug/moderators/:userId', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    if (!isModerator(req.user)) {
+      return res.status(403).json({ error: 'Moderator access required' });
+    }
+
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+
+    const { userId } = req.params;
+    if (!isUuid(userId) || !(await removeRoomModerator(row.room.id, userId, req.user!.id))) {
+      return res.status(404).json({ error: 'User is not a moderator of this room' });
+    }
+
+    res.json({ success: true, is_moderator: false });
+  } catch (error) {
+    console.error('Remove room moderator error:', error);
+    res.status(500).json({ error: 'Failed to remove moderator' });
+  }
+});
+
+/**
+ * GET /api/rooms/:slug/moderation-log
+ * What the room's moderators have done, most recent first (room moderators)
+ */
+router.get('/:slug/moderation-log', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { cursor, limit } = req.query;
+    const decodedCursor = cursor ? decodeCursor(String(cursor)) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    const page = await fetchModerationLog(row.room.id, {
+      cursor: decodedCursor,
+      limit: Math.min(MAX_PAGE_SIZE, Math.max(1, Number(limit) || DEFAULT_PAGE_SIZE)),
+    });
+
+    res.json({
+      entries: page.entries,
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor ?? undefined,
+    });
+  } catch (error) {
+    console.error('Get room moderation log error:', error);
+    res.status(500).json({ error: 'Failed to fetch moderation log' });
+  }
+});
+
+/**
+ * GET /api/rooms/:slug/analytics
+ * Daily activity, churn and reports over the last 7, 30 or 90 days, with top
+ * contributors and hashtags (room moderators)
+ */
+router.get('/:slug/analytics', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { period = '30d' } = req.query;
+    if (!ROOM_ANALYTICS_PERIODS.includes(period as RoomAnalyticsPeriod)) {
+      return res.status(400).json({ error: 'Invalid period' });
+    }
+
+    const row = await findRoom(req.params.slug);
+    if (!row) {
+      return res.status(404).json({ error: 'Room not found' });
+    }
+    if (!(await canModerate(req, row.room.id))) {
+      return res.status(403).json({ error: 'Room moderator access required' });
+    }
+
+    res.json(await fetchRoomAnalytics(row.room.id, period as RoomAnalyticsPeriod));
+  } catch (error) {
+    console.error('Get room analytics error:', error);
+    res.status(500).json({ error: 'Failed to fetch room analytics' });
+  }
+});
+
 export default router;
@@ -0,0 +1,298 @@
+import { Router, Request, Response } from 'express';
+import { LIMITS } from '@medinvest/shared/constants';
+import { SAVED_ITEM_TYPES, type SavedItemType } from '@medinvest/shared/types';
+import {
+  reorderSavedCollectionsSchema,
+  reorderSavedItemsSchema,
+  savedCollectionSchema,
+  saveItemSchema,
+  updateSavedItemSchema,
+} from '@medinvest/shared/validators';
+import { authMiddleware } from '../middleware/auth';
+import { isUuid } from '../services/posts';
+import { formatSavedItemsForViewer } from '../services/savedItemViews';
+import {
+  createCollection,
+  decodeSavedCursor,
+  deleteCollection,
+  fetchCollections,
+  fetchSavedItemPage,
+  formatCollection,
+  removeSavedItem,
+  renameCollection,
+  reorderCollections,
+  reorderSavedItems,
+  saveItem,
+  updateSavedItem,
+} from '../services/savedItems';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// ============================================
+// Collections
+// ============================================
+
+/**
+ * GET /api/saved/collections
+ * The current user's collections in their chosen order, with item counts
+ */
+router.get('/collections', async (req: Request, res: Response) => {
+  try {
+    res.json(await fetchCollections(req.user!.id));
+  } catch (error) {
+    console.error('Get saved collections error:', error);
+    res.status(500).json({ error: 'Failed to fetch collections' });
+  }
+});
+
+/**
+ * POST /api/saved/collections
+ * Create a collection at the end of the list
+ */
+router.post('/collections', async (req: Request, res: Response) => {
+  try {
+    const parsed = savedCollectionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await createCollection(req.user!.id, parsed.data.name);
+    if (result.status === 'limit_reached') {
+      return res
+        .status(400)
+        .json({ error: `You can have up to ${LIMITS.SAVED_COLLECTIONS_MAX} collections` });
+    }
+    if (result.status !== 'ok') {
+      return res.status(409).json({ error: 'You already have a collection with that name' });
+    }
+    res.status(201).json(formatCollection(result.collection));
+  } catch (error) {
+    console.error('Create saved collection error:', error);
+    res.status(500).json({ error: 'Failed to create collection' });
+  }
+});
+
+/**
+ * PUT /api/saved/collections/order
+ * Reorder collections. collection_ids must list every collection.
+ */
+router.put('/collections/order', async (req: Request, res: Response) => {
+  try {
+    const parsed = reorderSavedCollectionsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const reordered = await reorderCollections(req.user!.id, parsed.data.collection_ids);
+    if (!reordered) {
+      return res
+        .status(400)
+        .json({ error: 'collection_ids must list each of your collections once' });
+    }
+    res.json(await fetchCollections(req.user!.id));
+  } catch (error) {
+    console.error('Reorder saved collections error:', error);
+    res.status(500).json({ error: 'Failed to reorder collections' });
+  }
+});
+
+/**
+ * PATCH /api/saved/collections/:id
+ * Rename a collection
+ */
+router.patch('/collections/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    const parsed = savedCollectionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await renameCollection(req.user!.id, id, parsed.data.name);
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+    if (result.status !== 'ok') {
+      return res.status(409).json({ error: 'You already have a collection with that name' });
+    }
+    res.json(formatCollection(result.collection));
+  } catch (error) {
+    console.error('Rename saved collection error:', error);
+    res.status(500).json({ error: 'Failed to rename collection' });
+  }
+});
+
+/**
+ * DELETE /api/saved/collections/:id
+ * Delete a collection. Its items stay saved, outside any collection.
+ */
+router.delete('/collections/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id) || !(await deleteCollection(req.user!.id, id))) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete saved collection error:', error);
+    res.status(500).json({ error: 'Failed to delete collection' });
+  }
+});
+
+// ============================================
+// Items
+// ============================================
+
+/**
+ * GET /api/saved
+ * A page of saved posts, articles, deals and investments in the user's
+ * order. Filter with collection_id (or collection_id=unsorted) and type;
+ * pass cursor for later pages.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { collection_id, type, cursor, limit } = req.query;
+
+    if (collection_id && collection_id !== 'unsorted' && !isUuid(String(collection_id))) {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+    if (type && !SAVED_ITEM_TYPES.includes(type as SavedItemType)) {
+      return res.status(400).json({ error: 'Invalid type' });
+    }
+
+    const decodedCursor = cursor ? decodeSavedCursor(String(cursor)) : null;
+    if (cursor && !decodedCursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    const page = await fetchSavedItemPage(
+      req.user!.id,
+      {
+        collection: collection_id ? String(collection_id) : undefined,
+        itemType: type as SavedItemType | undefined,
+      },
+      decodedCursor,
+      Math.min(MAX_PAGE_SIZE, Math.max(1, Number(limit) || DEFAULT_PAGE_SIZE))
+    );
+
+    res.json({
+      items: await formatSavedItemsForViewer(page.items, req.user!),
+      has_more: page.hasMore,
+      next_cursor: page.nextCursor,
+    });
+  } catch (error) {
+    console.error('Get saved items error:', error);
+    res.status(500).json({ error: 'Failed to fetch saved items' });
+  }
+});
+
+/**
+ * POST /api/saved
+ * Save a post, article, deal or investment, optionally into a collection
+ * with a note. Saving something already saved updates it in place.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = saveItemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await saveItem(req.user!.id, parsed.data);
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+    if (result.status === 'collection_not_found') {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    const [savedItem] = await formatSavedItemsForViewer([result.savedItem], req.user!);
+    res.status(201).json(savedItem);
+  } catch (error) {
+    console.error('Save item error:', error);
+    res.status(500).json({ error: 'Failed to save item' });
+  }
+});
+
+/**
+ * PUT /api/saved/order
+ * Reorder saved items, listed top first. The listed items swap places among
+ * themselves, so a collection can be reordered on its own.
+ */
+router.put('/order', async (req: Request, res: Response) => {
+  try {
+    const parsed = reorderSavedItemsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const reordered = await reorderSavedItems(req.user!.id, parsed.data.saved_item_ids);
+    if (!reordered) {
+      return res.status(400).json({ error: 'saved_item_ids must list your saved items once each' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Reorder saved items error:', error);
+    res.status(500).json({ error: 'Failed to reorder saved items' });
+  }
+});
+
+/**
+ * PATCH /api/saved/:id
+ * Move a saved item to another collection (null for none) or edit its note
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id)) {
+      return res.status(404).json({ error: 'Saved item not found' });
+    }
+
+    const parsed = updateSavedItemSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0].message });
+    }
+
+    const result = await updateSavedItem(req.user!.id, id, parsed.data);
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Saved item not found' });
+    }
+    if (result.status === 'collection_not_found') {
+      return res.status(404).json({ error: 'Collection not found' });
+    }
+
+    const [savedItem] = await formatSavedItemsForViewer([result.savedItem], req.user!);
+    res.json(savedItem);
+  } catch (error) {
+    console.error('Update saved item error:', error);
+    res.status(500).json({ error: 'Failed to update saved item' });
+  }
+});
+
+/**
+ * DELETE /api/saved/:id
+ * Unsave an item
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!isUuid(id) || !(await removeSavedItem(req.user!.id, id))) {
+      return res.status(404).json({ error: 'Saved item not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Remove saved item error:', error);
+    res.status(500).json({ error: 'Failed to remove saved item' });
+  }
+});
+
+export default router;
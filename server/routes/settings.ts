@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { contentPreferencesSchema } from '@medinvest/shared/validators';
+import { db, contentPreferences } from '../db';
+import { authMiddleware } from '../middleware/auth';
+import { getContentPreferences } from '../services/feedRanking';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+/**
+ * GET /api/settings/content
+ * Get the content preferences used to personalize the feed
+ */
+router.get('/content', async (req: Request, res: Response) => {
+  try {
+    const preferences = await getContentPreferences(req.user!.id);
+    res.json(preferences || {});
+  } catch (error) {
+    console.error('Get content preferences error:', error);
+    res.status(500).json({ message: 'Failed to fetch content preferences' });
+  }
+});
+
+/**
+ * PUT /api/settings/content
+ * Update content preferences (partial updates are merged)
+ */
+router.put('/content', async (req: Request, res: Response) => {
+  try {
+    const parsed = contentPreferencesSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: parsed.error.errors[0].message });
+      return;
+    }
+
+    const existing = await getContentPreferences(req.user!.id);
+    const preferences = { ...existing, ...parsed.data };
+
+    await db
+      .insert(contentPreferences)
+      .values({
+        userId: req.user!.id,
+        preferences: JSON.stringify(preferences),
+      })
+      .onConflictDoUpdate({
+        target: contentPreferences.userId,
+        set: { preferences: JSON.stringify(preferences), updatedAt: new Date() },
+      });
+
+    res.json(preferences);
+  } catch (error) {
+    console.error('Update content preferences error:', error);
+    res.status(500).json({ message: 'Failed to update content preferences' });
+  }
+});
+
+export default router;
@@ -1,7 +1,23 @@
 import { Router, Request, Response } from 'express';
-import { db, users, pushTokens, notificationPreferences, paymentMethods } from '../db';
+import { db, users, pushTokens, notificationPreferences, paymentMethods, userFollows } from '../db';
 import { eq, and, ne, or, ilike, sql } from 'drizzle-orm';
+import {
+  muteUserSchema,
+  reorderPinnedPostsSchema,
+  usernameSchema,
+} from '@medinvest/shared/validators';
 import { authMiddleware } from '../middleware/auth';
+import {
+  blockUser,
+  fetchBlockedUsers,
+  fetchMutedUsers,
+  muteUser,
+  unblockUser,
+  unmuteUser,
+} from '../services/blocks';
+import { fetchPinnedPosts, reorderPins } from '../services/pins';
+import { isUuid } from '../services/posts';
+import { formatPostsForViewer } from '../services/postViews';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
@@ -43,6 +59,7 @@ router.get('/me', async (req: Request, res: Response) => {
       .select({
         id: users.id,
         email: users.email,
+        username: users.username,
         firstName: users.firstName,
         lastName: users.lastName,
         phone: users.phone,
@@ -50,6 +67,7 @@ router.get('/me', async (req: Request, res: Response) => {
         provider: users.provider,
         isVerified: users.isVerified,
         isAccredited: users.isAccredited,
+        role: users.role,
         createdAt: users.createdAt,
         updatedAt: users.updatedAt,
       })
@@ -74,11 +92,35 @@ router.get('/me', async (req: Request, res: Response) => {
 
 /**
  * PATCH /api/users/me
- * Update current user profile
+ * Update current user profile. Usernames are unique regardless of case.
  */
 router.patch('/me', async (req: Request, res: Response) => {
   try {
-    const { firstName, lastName, phone } = req.body;
+    const { firstName, lastName, phone, username } = req.body;
+
+    if (username !== undefined) {
+      const parsed = usernameSchema.safeParse(username);
+      if (!parsed.success) {
+        res.status(400).json({ message: parsed.error.errors[0].message });
+        return;
+      }
+
+      const [taken] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(
+          and(
+            sql`lower(${users.username}) = ${parsed.data.toLowerCase()}`,
+            ne(users.id, req.user!.id)
+          )
+        )
+        .limit(1);
+
+      if (taken) {
+        res.status(409).json({ message: 'Username is already taken' });
+        return;
+      }
+    }
 
     const [updatedUser] = await db
       .update(users)
@@ -86,12 +128,14 @@ router.patch('/me', async (req: Request, res: Response) => {
         firstName,
         lastName,
         phone,
+        username,
         updatedAt: new Date(),
       })
       .where(eq(users.id, req.user!.id))
       .returning({
         id: users.id,
         email: users.email,
+        username: users.username,
         firstName: users.firstName,
         lastName: users.lastName,
         phone: users.phone,
@@ -367,9 +411,61 @@ router.get('/me/payment-methods', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/users/me/pinned-posts
+ * Reorder your pinned posts. post_ids must list every pinned post.
+ */
+router.put('/me/pinned-posts', async (req: Request, res: Response) => {
+  try {
+    const parsed = reorderPinnedPostsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: parsed.error.errors[0].message });
+      return;
+    }
+
+    const reordered = await reorderPins(req.user!.id, parsed.data.post_ids);
+    if (!reordered) {
+      res.status(400).json({ message: 'post_ids must list each of your pinned posts once' });
+      return;
+    }
+
+    const pinned = await fetchPinnedPosts(req.user!.id, req.user!.id);
+    res.json(await formatPostsForViewer(pinned, req.user!.id));
+  } catch (error) {
+    console.error('Reorder pinned posts error:', error);
+    res.status(500).json({ message: 'Failed to reorder pinned posts' });
+  }
+});
+
+/**
+ * GET /api/users/blocked
+ * Users the current user has blocked
+ */
+router.get('/blocked', async (req: Request, res: Response) => {
+  try {
+    res.json({ blocked_users: await fetchBlockedUsers(req.user!.id) });
+  } catch (error) {
+    console.error('Get blocked users error:', error);
+    res.status(500).json({ message: 'Failed to fetch blocked users' });
+  }
+});
+
+/**
+ * GET /api/users/muted
+ * Users the current user has muted, excluding expired mutes
+ */
+router.get('/muted', async (req: Request, res: Response) => {
+  try {
+    res.json({ muted_users: await fetchMutedUsers(req.user!.id) });
+  } catch (error) {
+    console.error('Get muted users error:', error);
+    res.status(500).json({ message: 'Failed to fetch muted users' });
+  }
+});
+
 /**
  * GET /api/users/search
- * Search users by name or email
+ * Search users by name, username or email
  */
 router.get('/search', async (req: Request, res: Response) => {
   try {
@@ -387,6 +483,7 @@ router.get('/search', async (req: Request, res: Response) => {
       .select({
         id: users.id,
         email: users.email,
+        username: users.username,
         firstName: users.firstName,
         lastName: users.lastName,
         avatarUrl: users.avatarUrl,
@@ -400,6 +497,7 @@ router.get('/search', async (req: Request, res: Response) => {
             ilike(users.firstName, searchPattern),
             ilike(users.lastName, searchPattern),
             ilike(users.email, searchPattern),
+            ilike(users.username, searchPattern),
             sql`CONCAT(${users.firstName}, ' ', ${users.lastName}) ILIKE ${searchPattern}`
           )
         )
@@ -409,6 +507,7 @@ router.get('/search', async (req: Request, res: Response) => {
     const formattedUsers = results.map((user) => ({
       id: user.id,
       email: user.email,
+      username: user.username,
       firstName: user.firstName || '',
       lastName: user.lastName || '',
       fullName: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
@@ -496,4 +595,186 @@ router.get('/:id/following', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/users/:id/pinned-posts
+ * Posts a user has pinned to their profile, in their chosen order
+ */
+router.get('/:id/pinned-posts', async (req: Request, res: Response) => {
+  try {
+    if (!isUuid(req.params.id)) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const pinned = await fetchPinnedPosts(req.params.id, req.user!.id);
+    res.json(await formatPostsForViewer(pinned, req.user!.id));
+  } catch (error) {
+    console.error('Get pinned posts error:', error);
+    res.status(500).json({ message: 'Failed to fetch pinned posts' });
+  }
+});
+
+/**
+ * POST /api/users/:id/follow
+ * Follow a user
+ */
+router.post('/:id/follow', async (req: Request, res: Response) => {
+  try {
+    const followingId = req.params.id;
+
+    if (!isUuid(followingId)) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if (followingId === req.user!.id) {
+      res.status(400).json({ message: 'You cannot follow yourself' });
+      return;
+    }
+
+    const [target] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, followingId))
+      .limit(1);
+
+    if (!target) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    await db
+      .insert(userFollows)
+      .values({ followerId: req.user!.id, followingId })
+      .onConflictDoNothing();
+
+    res.json({ is_following: true });
+  } catch (error) {
+    console.error('Follow user error:', error);
+    res.status(500).json({ message: 'Failed to follow user' });
+  }
+});
+
+/**
+ * DELETE /api/users/:id/follow
+ * Unfollow a user
+ */
+router.delete('/:id/follow', async (req: Request, res: Response) => {
+  try {
+    await db
+      .delete(userFollows)
+      .where(
+        and(
+          eq(userFollows.followerId, req.user!.id),
+          eq(userFollows.followingId, req.params.id)
+        )
+      );
+
+    res.json({ is_following: false });
+  } catch (error) {
+    console.error('Unfollow user error:', error);
+    res.status(500).json({ message: 'Failed to unfollow user' });
+  }
+});
+
+/**
+ * POST /api/users/:id/block
+ * Block a user. Blocked users can't mention or notify you, and follows
+ * between you are removed.
+ */
+router.post('/:id/block', async (req: Request, res: Response) => {
+  try {
+    const blockedId = req.params.id;
+
+    if (blockedId === req.user!.id) {
+      res.status(400).json({ message: 'You cannot block yourself' });
+      return;
+    }
+
+    const [target] = isUuid(blockedId)
+      ? await db.select({ id: users.id }).from(users).where(eq(users.id, blockedId)).limit(1)
+      : [];
+
+    if (!target) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    await blockUser(req.user!.id, blockedId);
+    res.json({ is_blocked: true });
+  } catch (error) {
+    console.error('Block user error:', error);
+    res.status(500).json({ message: 'Failed to block user' });
+  }
+});
+
+/**
+ * DELETE /api/users/:id/block
+ * Unblock a user
+ */
+router.delete('/:id/block', async (req: Request, res: Response) => {
+  try {
+    if (isUuid(req.params.id)) {
+      await unblockUser(req.user!.id, req.params.id);
+    }
+    res.json({ is_blocked: false });
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    res.status(500).json({ message: 'Failed to unblock user' });
+  }
+});
+
+/**
+ * POST /api/users/:id/mute
+ * Mute a user's posts, comments, messages or notifications, for a while or
+ * for good. Muting again replaces the previous settings.
+ */
+router.post('/:id/mute', async (req: Request, res: Response) => {
+  try {
+    const mutedId = req.params.id;
+
+    if (mutedId === req.user!.id) {
+      res.status(400).json({ message: 'You cannot mute yourself' });
+      return;
+    }
+
+    const parsed = muteUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ message: parsed.error.errors[0].message });
+      return;
+    }
+
+    const [target] = isUuid(mutedId)
+      ? await db.select({ id: users.id }).from(users).where(eq(users.id, mutedId)).limit(1)
+      : [];
+
+    if (!target) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const mute = await muteUser(req.user!.id, mutedId, parsed.data);
+    res.json({ is_muted: true, expires_at: mute.expiresAt?.toISOString() ?? null });
+  } catch (error) {
+    console.error('Mute user error:', error);
+    res.status(500).json({ message: 'Failed to mute user' });
+  }
+});
+
+/**
+ * DELETE /api/users/:id/mute
+ * Unmute a user
+ */
+router.delete('/:id/mute', async (req: Request, res: Response) => {
+  try {
+    if (isUuid(req.params.id)) {
+      await unmuteUser(req.user!.id, req.params.id);
+    }
+    res.json({ is_muted: false });
+  } catch (error) {
+    console.error('Unmute user error:', error);
+    res.status(500).json({ message: 'Failed to unmute user' });
+  }
+});
+
 export default router;
@@ -0,0 +1,117 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../db';
+import { ensurePseudonym, pseudonymKey } from './anonymity';
+import { formatPost, type PostWithAuthor } from './posts';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+const postId = '3f6e1d2c-4b5a-4c7d-8e9f-0a1b2c3d4e5f';
+const userId = '9b2c5c3e-8f1a-4b6d-9e2f-1a2b3c4d5e6f';
+
+const anonymousPost: PostWithAuthor = {
+  post: {
+    id: postId,
+    authorId: userId,
+    roomId: null,
+    content: 'Is anyone else seeing delayed K-1s from this sponsor?',
+    images: null,
+    videoUrl: null,
+    hashtags: null,
+    mentions: null,
+    isAnonymous: true,
+    repostOfId: null,
+    isRepost: false,
+    upvotes: 0,
+    downvotes: 0,
+    commentsCount: 0,
+    repostsCount: 0,
+    editedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  },
+  author: {
+    id: userId,
+    firstName: 'Dana',
+    lastName: 'Reyes',
+    avatarUrl: 'https://cdn.example.com/dana.jpg',
+    isVerified: true,
+  },
+};
+
+/**
+ * Stand in for the pseudonym queries: lookups find existing, and each insert
+ * succeeds only once the given number of conflicts have happened
+ */
+function stubIdentities(existing: string | null, conflicts = 0) {
+  const inserted: string[] = [];
+  mock.method(db, 'select', () => ({
+    from: () => ({
+      where: () => ({ limit: async () => (existing ? [{ pseudonym: existing }] : []) }),
+    }),
+  }));
+  mock.method(db, 'insert', () => ({
+    values: (values: { pseudonym: string }) => ({
+      onConflictDoNothing: () => ({
+        returning: async () => {
+          inserted.push(values.pseudonym);
+          return inserted.length > conflicts ? [{ pseudonym: values.pseudonym }] : [];
+        },
+      }),
+    }),
+  }));
+  return inserted;
+}
+
+afterEach(() => mock.restoreAll());
+
+describe('formatPost', () => {
+  it('shows anonymous posts under their pseudonym and nothing identifying', () => {
+    const formatted = formatPost(anonymousPost, { room: null, pseudonym: 'Calm Heron' });
+    assert.deepEqual(formatted.author, {
+      id: null,
+      first_name: 'Anonymous',
+      last_name: '',
+      full_name: 'Calm Heron',
+      avatar_url: null,
+      is_verified: false,
+    });
+    assert.equal(formatted.anonymous_name, 'Calm Heron');
+
+    const body = JSON.stringify(formatted);
+    for (const identifying of [userId, 'Dana', 'Reyes', 'dana.jpg']) {
+      assert.equal(body.includes(identifying), false, identifying);
+    }
+  });
+});
+
+describe('ensurePseudonym', () => {
+  it('reuses the pseudonym a user already has in the thread', async () => {
+    const inserted = stubIdentities('Calm Heron');
+    assert.equal(await ensurePseudonym(postId, userId), 'Calm Heron');
+    assert.deepEqual(inserted, []);
+  });
+
+  it('picks a two-word name the first time a user posts in a thread', async () => {
+    stubIdentities(null);
+    assert.match(await ensurePseudonym(postId, userId), /^[A-Z][a-z]+ [A-Z][a-z]+$/);
+  });
+
+  it('retries taken names and falls back to a numbered one', async () => {
+    const inserted = stubIdentities(null, 5);
+    const pseudonym = await ensurePseudonym(postId, userId);
+    assert.equal(inserted.length, 6);
+    assert.match(pseudonym, /^[A-Z][a-z]+ [A-Z][a-z]+ \d{2}$/);
+  });
+
+  it('gives up once every attempt is taken', async () => {
+    stubIdentities(null, Infinity);
+    await assert.rejects(ensurePseudonym(postId, userId), /Could not assign a pseudonym/);
+  });
+});
+
+describe('pseudonymKey', () => {
+  it('keys pseudonyms by thread and user', () => {
+    assert.equal(pseudonymKey(postId, userId), `${postId}:${userId}`);
+    assert.notEqual(pseudonymKey(postId, userId), pseudonymKey(userId, postId));
+  });
+});
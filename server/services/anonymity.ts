@@ -0,0 +1,186 @@
+import { randomInt } from 'crypto';
+import { and, desc, eq, inArray, lt, or } from 'drizzle-orm';
+import { db, anonymityReveals, anonymousIdentities, users } from '../db';
+import { encodeCursor, formatAuthor, PostCursor } from './posts';
+
+// ============================================
+// Types
+// ============================================
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface AnonymousAuthorRef {
+  postId: string;
+  userId: string;
+}
+
+// ============================================
+// Pseudonyms
+// ============================================
+
+const ADJECTIVES = [
+  'Amber', 'Brisk', 'Calm', 'Candid', 'Cobalt', 'Curious', 'Gentle', 'Keen',
+  'Lucid', 'Nimble', 'Patient', 'Quiet', 'Silver', 'Steady', 'Swift', 'Wry',
+];
+
+const NOUNS = [
+  'Badger', 'Cedar', 'Comet', 'Falcon', 'Finch', 'Harbor', 'Heron', 'Lynx',
+  'Maple', 'Marten', 'Osprey', 'Otter', 'Raven', 'Sparrow', 'Willow', 'Wren',
+];
+
+/** Name attempts before falling back to a numbered one */
+const PSEUDONYM_ATTEMPTS = 5;
+
+function randomPseudonym(numbered: boolean): string {
+  const name = `${ADJECTIVES[randomInt(ADJECTIVES.length)]} ${NOUNS[randomInt(NOUNS.length)]}`;
+  return numbered ? `${name} ${randomInt(10, 100)}` : name;
+}
+
+/**
+ * Key for looking up a pseudonym in the map returned by fetchPseudonyms
+ */
+export function pseudonymKey(postId: string, userId: string): string {
+  return `${postId}:${userId}`;
+}
+
+/**
+ * The pseudonym a user posts under anonymously in a post's thread, created
+ * the first time they post there. Names are random rather than derived from
+ * the user so they cannot be linked across threads.
+ */
+export async function ensurePseudonym(
+  postId: string,
+  userId: string,
+  tx: Transaction | typeof db = db
+): Promise<string> {
+  for (let attempt = 0; attempt <= PSEUDONYM_ATTEMPTS; attempt++) {
+    const [existing] = await tx
+      .select({ pseudonym: anonymousIdentities.pseudonym })
+      .from(anonymousIdentities)
+      .where(and(eq(anonymousIdentities.postId, postId), eq(anonymousIdentities.userId, userId)))
+      .limit(1);
+    if (existing) return existing.pseudonym;
+
+    // Either unique index can reject the insert: another request created this
+    // user's name first, or the name is taken in the thread. Both retry.
+    const [created] = await tx
+      .insert(anonymousIdentities)
+      .values({ postId, userId, pseudonym: randomPseudonym(attempt === PSEUDONYM_ATTEMPTS) })
+      .onConflictDoNothing()
+      .returning({ pseudonym: anonymousIdentities.pseudonym });
+    if (created) return created.pseudonym;
+  }
+
+  throw new Error(`Could not assign a pseudonym in post ${postId}`);
+}
+
+/**
+ * Look up the pseudonyms of anonymous authors, keyed by pseudonymKey
+ */
+export async function fetchPseudonyms(refs: AnonymousAuthorRef[]): Promise<Map<string, string>> {
+  const pseudonyms = new Map<string, string>();
+  if (refs.length === 0) return pseudonyms;
+
+  const rows = await db
+    .select()
+    .from(anonymousIdentities)
+    .where(
+      and(
+        inArray(anonymousIdentities.postId, [...new Set(refs.map(ref => ref.postId))]),
+        inArray(anonymousIdentities.userId, [...new Set(refs.map(ref => ref.userId))])
+      )
+    );
+
+  for (const row of rows) {
+    pseudonyms.set(pseudonymKey(row.postId, row.userId), row.pseudonym);
+  }
+  return pseudonyms;
+}
+
+// ============================================
+// Moderator Reveal
+// ============================================
+
+/**
+ * Record that a moderator revealed an anonymous author, then return who it
+ * is. The audit row is written first so a reveal is never shown unlogged.
+ */
+export async function revealAuthor(options: {
+  moderatorId: string;
+  authorId: string;
+  postId: string;
+  commentId?: string;
+  reason: string;
+}) {
+  const [reveal] = await db
+    .insert(anonymityReveals)
+    .values({
+      moderatorId: options.moderatorId,
+      authorId: options.authorId,
+      postId: options.postId,
+      commentId: options.commentId ?? null,
+      reason: options.reason,
+      // Millisecond precision, so the row round-trips through the log cursor
+      createdAt: new Date(),
+    })
+    .returning();
+
+  const [author] = await db
+    .select({
+      id: users.id,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      avatarUrl: users.avatarUrl,
+      isVerified: users.isVerified,
+      email: users.email,
+    })
+    .from(users)
+    .where(eq(users.id, options.authorId))
+    .limit(1);
+
+  return {
+    reveal_id: reveal.id,
+    revealed_at: reveal.createdAt.toISOString(),
+    author: author ? { ...formatAuthor(author), email: author.email } : null,
+  };
+}
+
+/**
+ * Page through the reveal audit log, most recent first
+ */
+export async function fetchReveals(options: { cursor: PostCursor | null; limit: number }) {
+  const rows = await db
+    .select()
+    .from(anonymityReveals)
+    .where(
+      options.cursor
+        ? or(
+            lt(anonymityReveals.createdAt, options.cursor.createdAt),
+            and(
+              eq(anonymityReveals.createdAt, options.cursor.createdAt),
+              lt(anonymityReveals.id, options.cursor.id)
+            )
+          )
+        : undefined
+    )
+    .orderBy(desc(anonymityReveals.createdAt), desc(anonymityReveals.id))
+    .limit(options.limit + 1);
+
+  const hasMore = rows.length > options.limit;
+  const items = hasMore ? rows.slice(0, options.limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    reveals: items.map(reveal => ({
+      id: reveal.id,
+      moderator_id: reveal.moderatorId,
+      author_id: reveal.authorId,
+      post_id: reveal.postId,
+      comment_id: reveal.commentId,
+      reason: reveal.reason,
+      created_at: reveal.createdAt.toISOString(),
+    })),
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor(last) : null,
+  };
+}
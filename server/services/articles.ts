@@ -0,0 +1,33 @@
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format an article for API responses
+ */
+export function formatArticle(article: any, isBookmarked: boolean = false) {
+  let tags: string[] = [];
+  try {
+    tags = article.tags ? JSON.parse(article.tags) : [];
+  } catch {
+    tags = [];
+  }
+
+  return {
+    id: article.id,
+    title: article.title,
+    summary: article.summary,
+    content: article.content,
+    source: article.source,
+    sourceUrl: article.sourceUrl,
+    author: article.author,
+    imageUrl: article.imageUrl,
+    category: article.category,
+    tags,
+    readTime: article.readTime,
+    isFeatured: article.isFeatured,
+    isBookmarked,
+    viewCount: article.viewCount,
+    publishedAt: article.publishedAt,
+  };
+}
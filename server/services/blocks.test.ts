@@ -0,0 +1,108 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db, userBlocks, userFollows } from '../db';
+import { blockUser, fetchBlockedBetween, fetchMutingNotificationsFrom, muteUser } from './blocks';
+
+const userId = '9b2c5c3e-8f1a-4b6d-9e2f-1a2b3c4d5e6f';
+const blockedId = '0d9c8b7a-6f5e-4d3c-8b2a-1f0e9d8c7b6a';
+const blockerId = '3f6e1d2c-4b5a-4c7d-8e9f-0a1b2c3d4e5f';
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Stand in for a select query, resolving to rows
+ */
+function stubSelect(rows: object[]) {
+  return mock.method(db, 'select', () => ({ from: () => ({ where: async () => rows }) }));
+}
+
+/**
+ * Stand in for the mute upsert, returning what would have been stored
+ */
+function stubUpsert() {
+  return mock.method(db, 'insert', () => ({
+    values: (values: object) => ({
+      onConflictDoUpdate: () => ({ returning: async () => [values] }),
+    }),
+  }));
+}
+
+afterEach(() => mock.restoreAll());
+
+describe('blockUser', () => {
+  it('records the block and removes follows in one transaction', async () => {
+    const writes: { op: string; table: unknown }[] = [];
+    const tx = {
+      insert: (table: unknown) => ({
+        values: () => ({ onConflictDoNothing: async () => writes.push({ op: 'insert', table }) }),
+      }),
+      delete: (table: unknown) => ({
+        where: async () => writes.push({ op: 'delete', table }),
+      }),
+    };
+    mock.method(db, 'transaction', (run: (transaction: typeof tx) => Promise<void>) => run(tx));
+
+    await blockUser(userId, blockedId);
+    assert.deepEqual(writes, [
+      { op: 'insert', table: userBlocks },
+      { op: 'delete', table: userFollows },
+    ]);
+  });
+});
+
+describe('fetchBlockedBetween', () => {
+  it('finds blocks in either direction', async () => {
+    stubSelect([
+      { blockerId: userId, blockedId },
+      { blockerId, blockedId: userId },
+    ]);
+    assert.deepEqual(
+      await fetchBlockedBetween(userId, [blockedId, blockerId]),
+      new Set([blockedId, blockerId])
+    );
+  });
+
+  it('skips the query when there is nobody to check', async () => {
+    const select = stubSelect([]);
+    assert.deepEqual(await fetchBlockedBetween(userId, []), new Set());
+    assert.equal(select.mock.callCount(), 0);
+  });
+});
+
+describe('fetchMutingNotificationsFrom', () => {
+  it('returns the users muting notifications', async () => {
+    stubSelect([{ muterId: blockerId }]);
+    assert.deepEqual(
+      await fetchMutingNotificationsFrom(userId, [blockerId, blockedId]),
+      new Set([blockerId])
+    );
+  });
+
+  it('skips the query when there is nobody to check', async () => {
+    const select = stubSelect([]);
+    assert.deepEqual(await fetchMutingNotificationsFrom(userId, []), new Set());
+    assert.equal(select.mock.callCount(), 0);
+  });
+});
+
+describe('muteUser', () => {
+  it('mutes posts, comments and notifications but not messages by default', async () => {
+    stubUpsert();
+    const mute = await muteUser(userId, blockedId, { duration: 'forever' });
+    assert.equal(mute.mutePosts, true);
+    assert.equal(mute.muteComments, true);
+    assert.equal(mute.muteNotifications, true);
+    assert.equal(mute.muteMessages, false);
+    assert.equal(mute.expiresAt, null);
+  });
+
+  it('expires after the chosen duration', async () => {
+    stubUpsert();
+    const before = Date.now();
+    const mute = await muteUser(userId, blockedId, { duration: '8hours', mute_posts: false });
+    const after = Date.now();
+
+    assert.equal(mute.mutePosts, false);
+    assert.ok(mute.expiresAt!.getTime() >= before + 8 * HOUR_MS);
+    assert.ok(mute.expiresAt!.getTime() <= after + 8 * HOUR_MS);
+  });
+});
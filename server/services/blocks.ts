@@ -0,0 +1,179 @@
+import { and, desc, eq, gt, inArray, isNull, or } from 'drizzle-orm';
+import type { MuteUserInput } from '@medinvest/shared/validators';
+import { db, userBlocks, userFollows, userMutes, users } from '../db';
+import { formatAuthor } from './posts';
+
+// ============================================
+// Types
+// ============================================
+
+export type MuteDuration = MuteUserInput['duration'];
+
+const MUTE_DURATIONS_MS: Record<MuteDuration, number | null> = {
+  '1hour': 60 * 60 * 1000,
+  '8hours': 8 * 60 * 60 * 1000,
+  '24hours': 24 * 60 * 60 * 1000,
+  '7days': 7 * 24 * 60 * 60 * 1000,
+  '30days': 30 * 24 * 60 * 60 * 1000,
+  forever: null,
+};
+
+const userColumns = {
+  id: users.id,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  avatarUrl: users.avatarUrl,
+  isVerified: users.isVerified,
+};
+
+// ============================================
+// Blocks
+// ============================================
+
+/**
+ * Block a user. Follows in both directions are removed so neither keeps
+ * seeing the other through the following feed.
+ */
+export async function blockUser(blockerId: string, blockedId: string): Promise<void> {
+  await db.transaction(async tx => {
+    await tx.insert(userBlocks).values({ blockerId, blockedId }).onConflictDoNothing();
+    await tx
+      .delete(userFollows)
+      .where(
+        or(
+          and(eq(userFollows.followerId, blockerId), eq(userFollows.followingId, blockedId)),
+          and(eq(userFollows.followerId, blockedId), eq(userFollows.followingId, blockerId))
+        )
+      );
+  });
+}
+
+export async function unblockUser(blockerId: string, blockedId: string): Promise<void> {
+  await db
+    .delete(userBlocks)
+    .where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId)));
+}
+
+/**
+ * Users someone has blocked, most recent first
+ */
+export async function fetchBlockedUsers(blockerId: string) {
+  const rows = await db
+    .select({ user: userColumns, blockedAt: userBlocks.createdAt })
+    .from(userBlocks)
+    .innerJoin(users, eq(userBlocks.blockedId, users.id))
+    .where(eq(userBlocks.blockerId, blockerId))
+    .orderBy(desc(userBlocks.createdAt));
+
+  return rows.map(row => ({
+    id: row.user.id,
+    user: formatAuthor(row.user),
+    blocked_at: row.blockedAt.toISOString(),
+  }));
+}
+
+/**
+ * Of the given users, those who have blocked or been blocked by userId
+ */
+export async function fetchBlockedBetween(
+  userId: string,
+  otherIds: string[]
+): Promise<Set<string>> {
+  if (otherIds.length === 0) return new Set();
+
+  const rows = await db
+    .select({ blockerId: userBlocks.blockerId, blockedId: userBlocks.blockedId })
+    .from(userBlocks)
+    .where(
+      or(
+        and(eq(userBlocks.blockerId, userId), inArray(userBlocks.blockedId, otherIds)),
+        and(eq(userBlocks.blockedId, userId), inArray(userBlocks.blockerId, otherIds))
+      )
+    );
+
+  return new Set(rows.map(row => (row.blockerId === userId ? row.blockedId : row.blockerId)));
+}
+
+// ============================================
+// Mutes
+// ============================================
+
+/**
+ * Mute a user for a duration, replacing any existing mute. Each kind of
+ * content defaults to muted unless switched off.
+ */
+export async function muteUser(muterId: string, mutedId: string, input: MuteUserInput) {
+  const durationMs = MUTE_DURATIONS_MS[input.duration];
+  const values = {
+    mutePosts: input.mute_posts ?? true,
+    muteComments: input.mute_comments ?? true,
+    muteMessages: input.mute_messages ?? false,
+    muteNotifications: input.mute_notifications ?? true,
+    expiresAt: durationMs === null ? null : new Date(Date.now() + durationMs),
+    createdAt: new Date(),
+  };
+
+  const [mute] = await db
+    .insert(userMutes)
+    .values({ muterId, mutedId, ...values })
+    .onConflictDoUpdate({ target: [userMutes.muterId, userMutes.mutedId], set: values })
+    .returning();
+  return mute;
+}
+
+export async function unmuteUser(muterId: string, mutedId: string): Promise<void> {
+  await db
+    .delete(userMutes)
+    .where(and(eq(userMutes.muterId, muterId), eq(userMutes.mutedId, mutedId)));
+}
+
+function activeMute() {
+  return or(isNull(userMutes.expiresAt), gt(userMutes.expiresAt, new Date()));
+}
+
+/**
+ * Users someone currently has muted, most recent first
+ */
+export async function fetchMutedUsers(muterId: string) {
+  const rows = await db
+    .select({ user: userColumns, mute: userMutes })
+    .from(userMutes)
+    .innerJoin(users, eq(userMutes.mutedId, users.id))
+    .where(and(eq(userMutes.muterId, muterId), activeMute()))
+    .orderBy(desc(userMutes.createdAt));
+
+  return rows.map(row => ({
+    id: row.user.id,
+    user: formatAuthor(row.user),
+    mute_posts: row.mute.mutePosts,
+    mute_comments: row.mute.muteComments,
+    mute_messages: row.mute.muteMessages,
+    mute_notifications: row.mute.muteNotifications,
+    expires_at: row.mute.expiresAt?.toISOString() ?? null,
+    muted_at: row.mute.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Of the given users, those who currently mute notifications from userId
+ */
+export async function fetchMutingNotificationsFrom(
+  userId: string,
+  muterIds: string[]
+): Promise<Set<string>> {
+  if (muterIds.length === 0) return new Set();
+
+  const rows = await db
+    .select({ muterId: userMutes.muterId })
+    .from(userMutes)
+    .where(
+      and(
+        eq(userMutes.mutedId, userId),
+        inArray(userMutes.muterId, muterIds),
+        eq(userMutes.muteNotifications, true),
+        activeMute()
+      )
+    );
+
+  return new Set(rows.map(row => row.muterId));
+}
@@ -0,0 +1,323 @@
+import { and, asc, eq, gt, inArray, isNull, lte, or, sql, SQL } from 'drizzle-orm';
+import { LIMITS } from '@medinvest/shared/constants';
+import { db, comments, hashtagUsages, mentions, posts, users } from '../db';
+import { fetchPseudonyms, pseudonymKey } from './anonymity';
+import { fetchCommentMentions, FormattedMention } from './mentions';
+import { encodeCursor, formatAnonymousAuthor, formatAuthor, PostAuthorRow, PostCursor } from './posts';
+import { fetchReactionSummaries, ReactionSummary } from './reactions';
+
+// ============================================
+// Types
+// ============================================
+
+export type CommentRow = typeof comments.$inferSelect;
+
+export interface CommentWithAuthor {
+  comment: CommentRow;
+  author: PostAuthorRow;
+}
+
+export interface FormattedComment {
+  id: string;
+  post_id: string;
+  parent_id: string | null;
+  depth: number;
+  content: string;
+  mentions: FormattedMention[];
+  author:
+    | ReturnType<typeof formatAuthor>
+    | ReturnType<typeof formatAnonymousAuthor>
+    | typeof DELETED_AUTHOR;
+  is_anonymous: boolean;
+  likes_count: number;
+  is_liked: boolean;
+  reactions: ReactionSummary['reactions'];
+  reactions_count: number;
+  user_reaction: ReactionSummary['user_reaction'];
+  replies: FormattedComment[];
+  replies_count: number;
+  has_more_replies: boolean;
+  replies_cursor: string | null;
+  can_reply: boolean;
+  is_deleted: boolean;
+  is_edited: boolean;
+  edited_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommentPage {
+  items: CommentWithAuthor[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+// ============================================
+// Tuning
+// ============================================
+
+export const DEFAULT_COMMENT_PAGE_SIZE = 20;
+export const MAX_COMMENT_PAGE_SIZE = 50;
+
+/** Replies shown under each comment before the client has to "load more replies" */
+const REPLIES_PREVIEW = 3;
+
+// ============================================
+// Queries
+// ============================================
+
+const commentSelection = {
+  comment: comments,
+  author: {
+    id: users.id,
+    firstName: users.firstName,
+    lastName: users.lastName,
+    avatarUrl: users.avatarUrl,
+    isVerified: users.isVerified,
+  },
+};
+
+/**
+ * Condition selecting comments strictly after the cursor in (created_at, id) asc order
+ */
+function afterCommentCursor(cursor: PostCursor): SQL | undefined {
+  return or(
+    gt(comments.createdAt, cursor.createdAt),
+    and(eq(comments.createdAt, cursor.createdAt), gt(comments.id, cursor.id))
+  );
+}
+
+/**
+ * Fetch a page of comments, oldest first so threads read top to bottom
+ */
+async function fetchCommentPage(
+  where: SQL | undefined,
+  cursor: PostCursor | null,
+  limit: number
+): Promise<CommentPage> {
+  const rows = await db
+    .select(commentSelection)
+    .from(comments)
+    .innerJoin(users, eq(comments.authorId, users.id))
+    .where(cursor ? and(where, afterCommentCursor(cursor)) : where)
+    .orderBy(asc(comments.createdAt), asc(comments.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor(last.comment) : null,
+  };
+}
+
+/**
+ * Fetch a page of a post's top-level comments
+ */
+export function fetchTopLevelComments(
+  postId: string,
+  cursor: PostCursor | null,
+  limit: number
+): Promise<CommentPage> {
+  return fetchCommentPage(
+    and(eq(comments.postId, postId), isNull(comments.parentId)),
+    cursor,
+    limit
+  );
+}
+
+/**
+ * Fetch a page of direct replies to a comment
+ */
+export function fetchReplies(
+  parentId: string,
+  cursor: PostCursor | null,
+  limit: number
+): Promise<CommentPage> {
+  return fetchCommentPage(eq(comments.parentId, parentId), cursor, limit);
+}
+
+/**
+ * Fetch a single comment with its author
+ */
+export async function fetchComment(id: string): Promise<CommentWithAuthor | null> {
+  const [row] = await db
+    .select(commentSelection)
+    .from(comments)
+    .innerJoin(users, eq(comments.authorId, users.id))
+    .where(eq(comments.id, id))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Fetch the first few replies of each parent in one query
+ */
+async function fetchReplyPreviews(parentIds: string[]): Promise<CommentWithAuthor[]> {
+  if (parentIds.length === 0) return [];
+
+  const ranked = db
+    .select({
+      id: comments.id,
+      position: sql<number>`row_number() over (partition by ${comments.parentId} order by ${comments.createdAt}, ${comments.id})`.as(
+        'position'
+      ),
+    })
+    .from(comments)
+    .where(inArray(comments.parentId, parentIds))
+    .as('ranked');
+
+  const previewIds = await db
+    .select({ id: ranked.id })
+    .from(ranked)
+    .where(lte(ranked.position, REPLIES_PREVIEW));
+
+  if (previewIds.length === 0) return [];
+
+  return db
+    .select(commentSelection)
+    .from(comments)
+    .innerJoin(users, eq(comments.authorId, users.id))
+    .where(inArray(comments.id, previewIds.map(row => row.id)))
+    .orderBy(asc(comments.createdAt), asc(comments.id));
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+/**
+ * Soft delete a comment. The row stays so replies keep their place in the
+ * thread; its content is never returned again.
+ */
+export async function softDeleteComment(comment: CommentRow): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx
+      .update(comments)
+      .set({ deletedAt: new Date() })
+      .where(eq(comments.id, comment.id));
+
+    await tx
+      .update(posts)
+      .set({ commentsCount: sql`greatest(${posts.commentsCount} - 1, 0)` })
+      .where(eq(posts.id, comment.postId));
+
+    await tx.delete(hashtagUsages).where(eq(hashtagUsages.commentId, comment.id));
+    await tx.delete(mentions).where(eq(mentions.commentId, comment.id));
+  });
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+const DELETED_AUTHOR = {
+  id: null,
+  first_name: '',
+  last_name: '',
+  full_name: '[deleted]',
+  avatar_url: null,
+  is_verified: false,
+};
+
+/**
+ * Format a comment for API responses. Deleted comments become placeholders
+ * that keep their position and replies but expose nothing else, and
+ * anonymous comments show only the author's pseudonym in the thread.
+ */
+export function formatComment(
+  { comment, author }: CommentWithAuthor,
+  options: {
+    reactions?: ReactionSummary;
+    replies?: FormattedComment[];
+    pseudonym?: string;
+    mentions?: FormattedMention[];
+  }
+): FormattedComment {
+  const replies = options.replies ?? [];
+  const isDeleted = comment.deletedAt !== null;
+  const lastReply = replies[replies.length - 1];
+  const reactions = options.reactions;
+
+  return {
+    id: comment.id,
+    post_id: comment.postId,
+    parent_id: comment.parentId,
+    depth: comment.depth,
+    content: isDeleted ? '' : comment.content,
+    mentions: isDeleted ? [] : options.mentions ?? [],
+    author: isDeleted
+      ? DELETED_AUTHOR
+      : comment.isAnonymous
+        ? formatAnonymousAuthor(options.pseudonym)
+        : formatAuthor(author),
+    is_anonymous: comment.isAnonymous,
+    likes_count: isDeleted ? 0 : reactions?.reactions.find(r => r.type === 'like')?.count ?? 0,
+    is_liked: !isDeleted && reactions?.user_reaction === 'like',
+    reactions: isDeleted ? [] : reactions?.reactions ?? [],
+    reactions_count: isDeleted ? 0 : reactions?.reactions_count ?? 0,
+    user_reaction: isDeleted ? null : reactions?.user_reaction ?? null,
+    replies,
+    replies_count: comment.repliesCount,
+    has_more_replies: comment.repliesCount > replies.length,
+    replies_cursor: lastReply
+      ? encodeCursor({ createdAt: new Date(lastReply.created_at), id: lastReply.id })
+      : null,
+    can_reply: !isDeleted && comment.depth < LIMITS.COMMENT_DEPTH_MAX,
+    is_deleted: isDeleted,
+    is_edited: !isDeleted && comment.editedAt !== null,
+    edited_at: isDeleted ? null : comment.editedAt?.toISOString() ?? null,
+    created_at: comment.createdAt.toISOString(),
+    updated_at: comment.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Format comments as threads, attaching a preview of replies at each level
+ * down to the maximum depth, reaction counts, mentions and anonymous pseudonyms
+ */
+export async function formatThreads(items: CommentWithAuthor[], viewerId?: string) {
+  const all = [...items];
+  const childrenByParent = new Map<string, CommentWithAuthor[]>();
+
+  let frontier = items;
+  while (frontier.length > 0) {
+    const parentIds = frontier
+      .filter(item => item.comment.repliesCount > 0 && item.comment.depth < LIMITS.COMMENT_DEPTH_MAX)
+      .map(item => item.comment.id);
+    const children = await fetchReplyPreviews(parentIds);
+
+    for (const child of children) {
+      const siblings = childrenByParent.get(child.comment.parentId!) ?? [];
+      siblings.push(child);
+      childrenByParent.set(child.comment.parentId!, siblings);
+    }
+    all.push(...children);
+    frontier = children;
+  }
+
+  const commentIds = all.map(item => item.comment.id);
+  const [reactions, pseudonyms, mentionsByComment] = await Promise.all([
+    fetchReactionSummaries('comment', commentIds, viewerId),
+    fetchPseudonyms(
+      all
+        .filter(item => item.comment.isAnonymous)
+        .map(item => ({ postId: item.comment.postId, userId: item.comment.authorId }))
+    ),
+    fetchCommentMentions(commentIds),
+  ]);
+
+  const format = (item: CommentWithAuthor): FormattedComment =>
+    formatComment(item, {
+      reactions: reactions.get(item.comment.id),
+      replies: (childrenByParent.get(item.comment.id) ?? []).map(format),
+      pseudonym: pseudonyms.get(pseudonymKey(item.comment.postId, item.comment.authorId)),
+      mentions: mentionsByComment.get(item.comment.id),
+    });
+
+  return items.map(format);
+}
@@ -0,0 +1,297 @@
+import { and, eq, gt, isNull, lt, lte, sql } from 'drizzle-orm';
+import type { DealAlertDelivery } from '@medinvest/shared/types';
+import { formatCurrency } from '@medinvest/shared/utils';
+import { db, deals, dealWatchers, queuedDealAlerts, users } from '../db';
+import type { DealDocumentRow, DealRow } from './deals';
+import { notify } from './notifications';
+
+// ============================================
+// Types
+// ============================================
+
+interface DealAlert {
+  title: string;
+  body: string;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Funding milestones, in percent of the target raise, watchers are told about */
+export const FUNDING_MILESTONES = [25, 50, 75, 100];
+
+/** How close a deadline must be before watchers are told it is near */
+export const DEADLINE_ALERT_HOURS = 72;
+
+/** How long daily digest alerts are held before they are sent together */
+const DIGEST_WINDOW_MS = 24 * HOUR_MS;
+
+/** How often deadlines and digests are checked */
+export const DEAL_ALERT_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+const DIGEST_PREVIEW_MAX = 3;
+
+// ============================================
+// Delivery
+// ============================================
+
+/**
+ * Send an alert to everyone watching a deal but its sponsor. Watchers on the
+ * daily digest have it queued instead.
+ */
+async function alertWatchers(deal: DealRow, alert: DealAlert, now: Date): Promise<void> {
+  const watchers = await db
+    .select({ id: users.id, delivery: users.dealAlertDelivery })
+    .from(dealWatchers)
+    .innerJoin(users, eq(dealWatchers.userId, users.id))
+    .where(eq(dealWatchers.dealId, deal.id));
+  const recipients = watchers.filter(watcher => watcher.id !== deal.sponsorId);
+
+  const queued = recipients.filter(watcher => watcher.delivery === 'daily');
+  if (queued.length > 0) {
+    await db.insert(queuedDealAlerts).values(
+      queued.map(watcher => ({
+        userId: watcher.id,
+        dealId: deal.id,
+        title: alert.title,
+        body: alert.body,
+        createdAt: now,
+      }))
+    );
+  }
+
+  await Promise.all(
+    recipients
+      .filter(watcher => watcher.delivery === 'instant')
+      .map(watcher =>
+        notify({
+          userId: watcher.id,
+          type: 'deal_update',
+          title: alert.title,
+          body: alert.body,
+          data: { deal_id: deal.id },
+          channelId: 'deals',
+        })
+      )
+  );
+}
+
+/**
+ * Send each daily digest user their queued alerts as one notification, once
+ * the oldest has waited DIGEST_WINDOW_MS. A user gets at most one digest a
+ * day however many watched deals change.
+ */
+export async function sendDealDigests(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - DIGEST_WINDOW_MS);
+  const due = await db
+    .select({ userId: queuedDealAlerts.userId })
+    .from(queuedDealAlerts)
+    .groupBy(queuedDealAlerts.userId)
+    .having(lte(sql`min(${queuedDealAlerts.createdAt})`, cutoff));
+
+  for (const { userId } of due) {
+    await sendDigest(userId, now).catch(error => console.error('Deal digest error:', error));
+  }
+  return due.length;
+}
+
+async function sendDigest(userId: string, now: Date): Promise<void> {
+  // Alerts queued while this digest is sent wait for the next one
+  const alerts = await db
+    .delete(queuedDealAlerts)
+    .where(and(eq(queuedDealAlerts.userId, userId), lte(queuedDealAlerts.createdAt, now)))
+    .returning();
+  if (alerts.length === 0) return;
+
+  alerts.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const dealIds = [...new Set(alerts.map(alert => alert.dealId))];
+  const preview = alerts.slice(0, DIGEST_PREVIEW_MAX).map(alert => alert.title);
+  const more = alerts.length - preview.length;
+
+  await notify({
+    userId,
+    type: 'deal_update',
+    title:
+      alerts.length === 1 ? alerts[0].title : `${alerts.length} updates on deals you're watching`,
+    body:
+      alerts.length === 1
+        ? alerts[0].body
+        : more > 0
+          ? `${preview.join(' · ')} and ${more} more`
+          : preview.join(' · '),
+    data: { deal_ids: dealIds, digest: true },
+    channelId: 'deals',
+  });
+}
+
+/**
+ * How a user gets alerts on the deals they watch
+ */
+export async function getDealAlertDelivery(userId: string): Promise<DealAlertDelivery> {
+  const [user] = await db
+    .select({ delivery: users.dealAlertDelivery })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  return user?.delivery ?? 'instant';
+}
+
+/**
+ * Change how a user gets alerts on the deals they watch. Switching to
+ * instant sends anything already queued straight away.
+ */
+export async function setDealAlertDelivery(
+  userId: string,
+  delivery: DealAlertDelivery,
+  now = new Date()
+): Promise<void> {
+  await db
+    .update(users)
+    .set({ dealAlertDelivery: delivery, updatedAt: now })
+    .where(eq(users.id, userId));
+
+  if (delivery === 'instant') {
+    sendDigest(userId, now).catch(error => console.error('Deal digest error:', error));
+  }
+}
+
+// ============================================
+// Changes
+// ============================================
+
+/**
+ * The highest funding milestone a deal has reached, or 0 below the first
+ */
+export function reachedFundingMilestone(
+  deal: Pick<DealRow, 'currentRaise' | 'targetRaise'>
+): number {
+  const target = parseFloat(deal.targetRaise);
+  if (target <= 0) return 0;
+
+  const percent = (parseFloat(deal.currentRaise) / target) * 100;
+  return FUNDING_MILESTONES.filter(milestone => percent >= milestone).pop() ?? 0;
+}
+
+function describeTermChanges(before: DealRow, after: DealRow): string[] {
+  const changes: string[] = [];
+  if (before.minimumInvestment !== after.minimumInvestment) {
+    changes.push(
+      `Minimum investment ${formatCurrency(parseFloat(before.minimumInvestment))} → ${formatCurrency(parseFloat(after.minimumInvestment))}`
+    );
+  }
+  if (before.valuation !== after.valuation) {
+    changes.push(
+      after.valuation === null
+        ? 'Valuation withdrawn'
+        : before.valuation === null
+          ? `Valuation set at ${formatCurrency(parseFloat(after.valuation), 'USD', true)}`
+          : `Valuation ${formatCurrency(parseFloat(before.valuation), 'USD', true)} → ${formatCurrency(parseFloat(after.valuation), 'USD', true)}`
+    );
+  }
+  return changes;
+}
+
+/**
+ * Tell watchers about an edit to a published deal: a new funding milestone,
+ * or a change to its minimum investment or valuation. Each milestone is
+ * announced once, even if funding dips and recovers.
+ */
+export async function alertDealChanges(
+  before: DealRow,
+  after: DealRow,
+  now = new Date()
+): Promise<void> {
+  if (after.status !== 'published') return;
+
+  const milestone = reachedFundingMilestone(after);
+  if (milestone > after.fundingAlertPercent) {
+    // Concurrent edits announce a milestone only once
+    const [claimed] = await db
+      .update(deals)
+      .set({ fundingAlertPercent: milestone })
+      .where(and(eq(deals.id, after.id), lt(deals.fundingAlertPercent, milestone)))
+      .returning({ id: deals.id });
+    if (claimed) {
+      await alertWatchers(
+        after,
+        {
+          title:
+            milestone === 100
+              ? `${after.title} is fully funded`
+              : `${after.title} is ${milestone}% funded`,
+          body: `${formatCurrency(parseFloat(after.currentRaise), 'USD', true)} of ${formatCurrency(parseFloat(after.targetRaise), 'USD', true)} raised from ${after.investorsCount} investors`,
+        },
+        now
+      );
+    }
+  }
+
+  const changes = describeTermChanges(before, after);
+  if (changes.length > 0) {
+    await alertWatchers(
+      after,
+      { title: `${after.title} changed its terms`, body: changes.join('. ') },
+      now
+    );
+  }
+}
+
+/**
+ * Tell watchers about a document added to a published deal
+ */
+export async function alertNewDocument(
+  deal: DealRow,
+  document: DealDocumentRow,
+  now = new Date()
+): Promise<void> {
+  if (deal.status !== 'published') return;
+
+  await alertWatchers(
+    deal,
+    {
+      title: `New document for ${deal.title}`,
+      body: `${deal.companyName} posted ${document.name}`,
+    },
+    now
+  );
+}
+
+/**
+ * Tell watchers when a published deal's deadline is within
+ * DEADLINE_ALERT_HOURS. Each deadline is announced once; moving it clears
+ * the mark so the new one is announced in turn.
+ */
+export async function alertClosingDeals(now = new Date()): Promise<number> {
+  const horizon = new Date(now.getTime() + DEADLINE_ALERT_HOURS * HOUR_MS);
+  const closing = await db
+    .update(deals)
+    .set({ deadlineAlertedAt: now })
+    .where(
+      and(
+        eq(deals.status, 'published'),
+        isNull(deals.deadlineAlertedAt),
+        gt(deals.deadline, now),
+        lte(deals.deadline, horizon)
+      )
+    )
+    .returning();
+
+  for (const deal of closing) {
+    const hoursLeft = Math.max(1, Math.round((deal.deadline.getTime() - now.getTime()) / HOUR_MS));
+    await alertWatchers(
+      deal,
+      {
+        title: `${deal.title} closes soon`,
+        body:
+          hoursLeft > 24
+            ? `Less than ${Math.ceil(hoursLeft / 24)} days left to express interest`
+            : `Less than ${hoursLeft} hours left to express interest`,
+      },
+      now
+    ).catch(error => console.error('Deal deadline alert error:', error));
+  }
+  return closing.length;
+}
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DOCUMENT_URL_TTL_MS,
+  isStoredDocument,
+  signDocumentUrl,
+  verifyDocumentToken,
+} from './dealDataRoom';
+import type { DealDocumentRow } from './deals';
+
+process.env.DOCUMENT_URL_SECRET = 'test-document-secret';
+process.env.API_PUBLIC_URL = 'https://api.example.com';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+const userId = '9b2c5c3e-8f1a-4b6d-9e2f-1a2b3c4d5e6f';
+const document: DealDocumentRow = {
+  id: '3f6e1d2c-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+  dealId: 42,
+  name: 'Offering memorandum',
+  type: 'pdf',
+  url: null,
+  storageKey: 'deals/42/3f6e1d2c-4b5a-4c7d-8e9f-0a1b2c3d4e5f.pdf',
+  mimeType: 'application/pdf',
+  sizeBytes: 182_044,
+  createdAt: new Date('2026-02-20T09:30:00.000Z'),
+};
+
+function tokenFor(doc: DealDocumentRow = document, issuedAt = now): string {
+  return new URL(signDocumentUrl(doc, userId, issuedAt).url).searchParams.get('token')!;
+}
+
+describe('signDocumentUrl', () => {
+  it('points at the download route on the configured origin', () => {
+    const { url, expiresAt } = signDocumentUrl(document, userId, now);
+    assert.ok(
+      url.startsWith(
+        `https://api.example.com/api/deals/${document.dealId}/documents/${document.id}/download?token=`
+      )
+    );
+    assert.equal(expiresAt.getTime(), now.getTime() + DOCUMENT_URL_TTL_MS);
+  });
+
+  it('refuses to sign without a secret', () => {
+    const secret = process.env.DOCUMENT_URL_SECRET;
+    delete process.env.DOCUMENT_URL_SECRET;
+    try {
+      assert.throws(() => signDocumentUrl(document, userId, now), /DOCUMENT_URL_SECRET/);
+    } finally {
+      process.env.DOCUMENT_URL_SECRET = secret;
+    }
+  });
+});
+
+describe('verifyDocumentToken', () => {
+  it('returns the user a token was issued to', () => {
+    assert.equal(verifyDocumentToken(tokenFor(), document.id, now), userId);
+  });
+
+  it('rejects expired tokens', () => {
+    const token = tokenFor();
+    const expiry = now.getTime() + DOCUMENT_URL_TTL_MS;
+    assert.equal(verifyDocumentToken(token, document.id, new Date(expiry - 1)), userId);
+    assert.equal(verifyDocumentToken(token, document.id, new Date(expiry)), null);
+  });
+
+  it('rejects tokens for another document', () => {
+    const other = { ...document, id: '0d9c8b7a-6f5e-4d3c-8b2a-1f0e9d8c7b6a' };
+    assert.equal(verifyDocumentToken(tokenFor(other), document.id, now), null);
+  });
+
+  it('rejects tampered tokens', () => {
+    const [data, signature] = tokenFor().split('.');
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString());
+    const forged = Buffer.from(
+      JSON.stringify({ ...payload, u: '00000000-0000-4000-8000-000000000000' })
+    ).toString('base64url');
+    const flipped = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+
+    assert.equal(verifyDocumentToken(`${forged}.${signature}`, document.id, now), null);
+    assert.equal(verifyDocumentToken(`${data}.${flipped}`, document.id, now), null);
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    const token = tokenFor();
+    process.env.DOCUMENT_URL_SECRET = 'rotated-document-secret';
+    try {
+      assert.equal(verifyDocumentToken(token, document.id, now), null);
+    } finally {
+      process.env.DOCUMENT_URL_SECRET = 'test-document-secret';
+    }
+  });
+
+  it('rejects malformed tokens', () => {
+    for (const token of ['', 'no-signature', '.', 'abc.def.ghi']) {
+      assert.equal(verifyDocumentToken(token, document.id, now), null, token);
+    }
+  });
+});
+
+describe('isStoredDocument', () => {
+  it('only counts documents in private storage', () => {
+    assert.equal(isStoredDocument(document), true);
+    assert.equal(
+      isStoredDocument({ ...document, storageKey: null, url: '/docs/pitch.pdf' }),
+      false
+    );
+  });
+});
@@ -0,0 +1,498 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import { degrees, PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import { LIMITS } from '@medinvest/shared/constants';
+import type { DealDocumentViewsFilterInput } from '@medinvest/shared/validators';
+import { db, dealDocuments, dealDocumentViews, dealNdaAcceptances, users } from '../db';
+import { getDocumentStorage } from '../lib/document-storage';
+import type { AuthUser } from '../middleware/auth';
+import { alertNewDocument } from './dealAlerts';
+import { canManageDeal, type DealDocumentRow, type DealRow } from './deals';
+import { formatAuthor } from './posts';
+
+// ============================================
+// Types
+// ============================================
+
+export type AddDocumentResult =
+  | { status: 'ok'; document: DealDocumentRow }
+  | { status: 'too_many' }
+  | { status: 'unsupported' }
+  | { status: 'too_large' }
+  | { status: 'invalid'; message: string };
+
+export type AcceptNdaResult = { status: 'ok'; acceptedAt: Date } | { status: 'outdated' };
+
+export type OpenDocumentResult =
+  | { status: 'file'; body: Buffer; contentType: string; filename: string }
+  | { status: 'missing' };
+
+/** A file multer has read into memory */
+export interface DocumentUpload {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const MB = 1024 * 1024;
+
+/** Accepted data room uploads and the extension each is stored with */
+const DOCUMENT_TYPES: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/csv': 'csv',
+};
+
+export const DEAL_DOCUMENT_MAX_BYTES = LIMITS.DEAL_DOCUMENT_MAX_MB * MB;
+
+/** How long a signed download URL works for */
+export const DOCUMENT_URL_TTL_MS = 5 * 60 * 1000;
+
+export const DEFAULT_VIEWS_PAGE_SIZE = 50;
+
+// ============================================
+// Confidentiality Agreement
+// ============================================
+
+/**
+ * The agreement used when a sponsor has not written their own
+ */
+function standardNdaText(deal: DealRow): string {
+  return [
+    `By opening the data room for ${deal.title}, you agree to keep its contents confidential.`,
+    `You will use the information provided by ${deal.companyName} only to evaluate a possible investment in this offering, and will not share it with anyone other than your professional advisers, who must keep it confidential too.`,
+    'You will not copy, forward or publish any document, and every download is marked with your email address and logged for the sponsor.',
+    `On request from ${deal.companyName}, you will delete any documents and notes taken from them. These obligations continue after the offering closes.`,
+  ].join('\n\n');
+}
+
+/**
+ * The agreement gating a deal's data room, and when the user accepted its
+ * current version
+ */
+export async function fetchDealNda(deal: DealRow, userId: string) {
+  const [acceptance] = await db
+    .select({ acceptedAt: dealNdaAcceptances.acceptedAt })
+    .from(dealNdaAcceptances)
+    .where(
+      and(
+        eq(dealNdaAcceptances.dealId, deal.id),
+        eq(dealNdaAcceptances.userId, userId),
+        eq(dealNdaAcceptances.ndaVersion, deal.ndaVersion)
+      )
+    )
+    .limit(1);
+
+  return {
+    text: deal.ndaText ?? standardNdaText(deal),
+    version: deal.ndaVersion,
+    isDefault: deal.ndaText === null,
+    acceptedAt: acceptance?.acceptedAt ?? null,
+  };
+}
+
+/**
+ * Whether a user can open a deal's data room: they manage the deal, or have
+ * accepted the current version of its agreement
+ */
+export async function hasAcceptedNda(user: AuthUser | undefined, deal: DealRow): Promise<boolean> {
+  if (!user) return false;
+  if (canManageDeal(user, deal)) return true;
+
+  const nda = await fetchDealNda(deal, user.id);
+  return nda.acceptedAt !== null;
+}
+
+/**
+ * Record a user's acceptance of a deal's agreement. The version they saw
+ * must still be current, so nobody accepts terms they were not shown.
+ */
+export async function acceptDealNda(
+  userId: string,
+  deal: DealRow,
+  version: number,
+  ipAddress: string | undefined,
+  now = new Date()
+): Promise<AcceptNdaResult> {
+  if (version !== deal.ndaVersion) return { status: 'outdated' };
+
+  await db
+    .insert(dealNdaAcceptances)
+    .values({
+      dealId: deal.id,
+      userId,
+      ndaVersion: version,
+      ipAddress: ipAddress ?? null,
+      acceptedAt: now,
+    })
+    .onConflictDoNothing();
+
+  const nda = await fetchDealNda(deal, userId);
+  return { status: 'ok', acceptedAt: nda.acceptedAt ?? now };
+}
+
+// ============================================
+// Documents
+// ============================================
+
+async function checkDocument(upload: DocumentUpload, ext: string): Promise<string | null> {
+  if (ext !== 'pdf') return null;
+  try {
+    // Watermarking needs PDFs it can open
+    await PDFDocument.load(upload.buffer);
+    return null;
+  } catch {
+    return 'PDFs must not be password protected or damaged';
+  }
+}
+
+/**
+ * Store an uploaded document privately and add it to a deal's data room,
+ * letting watchers of a published deal know
+ */
+export async function addDealDocument(
+  deal: DealRow,
+  upload: DocumentUpload,
+  name: string | undefined,
+  now = new Date()
+): Promise<AddDocumentResult> {
+  const ext = DOCUMENT_TYPES[upload.mimetype];
+  if (!ext) return { status: 'unsupported' };
+  if (upload.size > DEAL_DOCUMENT_MAX_BYTES) return { status: 'too_large' };
+
+  const [{ count }] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(dealDocuments)
+    .where(eq(dealDocuments.dealId, deal.id));
+  if (count >= LIMITS.DEAL_DOCUMENTS_MAX) return { status: 'too_many' };
+
+  const error = await checkDocument(upload, ext);
+  if (error) return { status: 'invalid', message: error };
+
+  const id = randomUUID();
+  const storageKey = `deals/${deal.id}/${id}.${ext}`;
+  await getDocumentStorage().put(storageKey, upload.buffer, upload.mimetype);
+
+  const [document] = await db
+    .insert(dealDocuments)
+    .values({
+      id,
+      dealId: deal.id,
+      name: (name || upload.originalname.replace(/\.[^.]+$/, '') || 'Document').slice(0, 255),
+      type: ext,
+      storageKey,
+      mimeType: upload.mimetype,
+      sizeBytes: upload.size,
+      createdAt: now,
+    })
+    .returning();
+
+  alertNewDocument(deal, document, now).catch(error =>
+    console.error('Deal document alert error:', error)
+  );
+  return { status: 'ok', document };
+}
+
+/**
+ * Remove a document from a deal's data room and storage. Returns false if
+ * it was not found.
+ */
+export async function removeDealDocument(dealId: number, documentId: string): Promise<boolean> {
+  const [removed] = await db
+    .delete(dealDocuments)
+    .where(and(eq(dealDocuments.id, documentId), eq(dealDocuments.dealId, dealId)))
+    .returning();
+  if (!removed) return false;
+
+  if (removed.storageKey) {
+    getDocumentStorage()
+      .delete(removed.storageKey)
+      .catch(error => console.error('Deal document storage delete error:', error));
+  }
+  return true;
+}
+
+/**
+ * Find one of a deal's documents
+ */
+export async function findDealDocument(
+  dealId: number,
+  documentId: string
+): Promise<DealDocumentRow | null> {
+  const [document] = await db
+    .select()
+    .from(dealDocuments)
+    .where(and(eq(dealDocuments.id, documentId), eq(dealDocuments.dealId, dealId)))
+    .limit(1);
+  return document ?? null;
+}
+
+// ============================================
+// Signed URLs
+// ============================================
+
+/**
+ * The key download tokens are signed with. It has its own setting so it is
+ * never shared with sessions or changes on restart.
+ */
+function urlSecret(): string {
+  const secret = process.env.DOCUMENT_URL_SECRET;
+  if (!secret) {
+    throw new Error('DOCUMENT_URL_SECRET is required to sign document URLs');
+  }
+  return secret;
+}
+
+/**
+ * This server's public origin, which download links point at. Configured
+ * rather than read from the request, whose Host header the client controls.
+ */
+function downloadOrigin(): string {
+  const origin = process.env.API_PUBLIC_URL;
+  if (!origin) {
+    throw new Error('API_PUBLIC_URL is required to sign document URLs');
+  }
+  return origin;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', urlSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Whether a document lives in private storage. Documents added before the
+ * data room only have a public URL, so are never served to investors.
+ */
+export function isStoredDocument(document: DealDocumentRow): boolean {
+  return document.storageKey !== null;
+}
+
+/**
+ * A short-lived download URL for a document, bound to the user it was issued
+ * to. Check they can open the data room first.
+ */
+export function signDocumentUrl(
+  document: DealDocumentRow,
+  userId: string,
+  now = new Date()
+): { url: string; expiresAt: Date } {
+  const expiresAt = new Date(now.getTime() + DOCUMENT_URL_TTL_MS);
+  const data = Buffer.from(
+    JSON.stringify({ d: document.id, u: userId, e: expiresAt.getTime() })
+  ).toString('base64url');
+  const token = `${data}.${sign(data)}`;
+
+  const url = new URL(
+    `/api/deals/${document.dealId}/documents/${document.id}/download`,
+    downloadOrigin()
+  );
+  url.searchParams.set('token', token);
+  return { url: url.toString(), expiresAt };
+}
+
+/**
+ * The user a download token was issued to, or null if it is forged, expired
+ * or for another document
+ */
+export function verifyDocumentToken(
+  token: string,
+  documentId: string,
+  now = new Date()
+): string | null {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString());
+    if (payload.d !== documentId || typeof payload.u !== 'string') return null;
+    if (typeof payload.e !== 'number' || payload.e <= now.getTime()) return null;
+    return payload.u;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// Downloads
+// ============================================
+
+/**
+ * Stamp every page of a PDF with the viewer's email, large and faint across
+ * the middle and small along the bottom
+ */
+async function watermarkPdf(body: Buffer, email: string, now: Date): Promise<Buffer> {
+  const pdf = await PDFDocument.load(body);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  // Standard fonts only cover Latin-1
+  const label = email.replace(/[^\x20-\x7e]/g, '?');
+  const footer = `Confidential - downloaded by ${label} on ${now.toISOString().slice(0, 10)}`;
+  const angle = Math.PI / 4;
+
+  for (const page of pdf.getPages()) {
+    const { width, height } = page.getSize();
+    const diagonal = Math.hypot(width, height);
+    const size = Math.min(
+      Math.min(width, height) / 12,
+      (diagonal * 0.7) / font.widthOfTextAtSize(label, 1)
+    );
+    const textWidth = font.widthOfTextAtSize(label, size);
+
+    page.drawText(label, {
+      x: width / 2 - (textWidth / 2) * Math.cos(angle),
+      y: height / 2 - (textWidth / 2) * Math.sin(angle),
+      size,
+      font,
+      color: rgb(0.5, 0.5, 0.5),
+      opacity: 0.15,
+      rotate: degrees(45),
+    });
+    page.drawText(footer, {
+      x: 24,
+      y: 12,
+      size: 8,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+      opacity: 0.8,
+    });
+  }
+
+  return Buffer.from(await pdf.save());
+}
+
+/**
+ * Log a view of a document and fetch it for the viewer, watermarking PDFs
+ * with their email. Documents that are not in private storage are missing.
+ */
+export async function openDealDocument(
+  document: DealDocumentRow,
+  userId: string,
+  now = new Date()
+): Promise<OpenDocumentResult> {
+  const [viewer] = await db
+    .select({ email: users.email })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!viewer) return { status: 'missing' };
+
+  if (!document.storageKey) return { status: 'missing' };
+  const stored = await getDocumentStorage().get(document.storageKey);
+  if (!stored) return { status: 'missing' };
+
+  await db.insert(dealDocumentViews).values({
+    documentId: document.id,
+    dealId: document.dealId,
+    userId,
+    viewedAt: now,
+  });
+  return {
+    status: 'file',
+    body: document.type === 'pdf' ? await watermarkPdf(stored, viewer.email, now) : stored,
+    contentType: document.mimeType ?? 'application/octet-stream',
+    filename: `${document.name}.${document.type}`,
+  };
+}
+
+// ============================================
+// Activity
+// ============================================
+
+/**
+ * Views of a deal's documents: totals for each document, and a page of
+ * individual views, newest first, optionally for one document
+ */
+export async function fetchDataRoomActivity(dealId: number, filters: DealDocumentViewsFilterInput) {
+  const page = filters.page ?? 1;
+  const limit = filters.limit ?? DEFAULT_VIEWS_PAGE_SIZE;
+  const where = filters.document_id
+    ? and(
+        eq(dealDocumentViews.dealId, dealId),
+        eq(dealDocumentViews.documentId, filters.document_id)
+      )
+    : eq(dealDocumentViews.dealId, dealId);
+
+  const [documents, rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        id: dealDocuments.id,
+        name: dealDocuments.name,
+        viewsCount: sql<number>`count(${dealDocumentViews.id})::int`,
+        viewersCount: sql<number>`count(distinct ${dealDocumentViews.userId})::int`,
+        lastViewedAt: sql<Date | null>`max(${dealDocumentViews.viewedAt})`.mapWith(
+          dealDocumentViews.viewedAt
+        ),
+      })
+      .from(dealDocuments)
+      .leftJoin(dealDocumentViews, eq(dealDocumentViews.documentId, dealDocuments.id))
+      .where(eq(dealDocuments.dealId, dealId))
+      .groupBy(dealDocuments.id)
+      .orderBy(asc(dealDocuments.createdAt)),
+    db
+      .select({
+        view: dealDocumentViews,
+        documentName: dealDocuments.name,
+        viewer: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          avatarUrl: users.avatarUrl,
+          isVerified: users.isVerified,
+          email: users.email,
+        },
+      })
+      .from(dealDocumentViews)
+      .innerJoin(dealDocuments, eq(dealDocumentViews.documentId, dealDocuments.id))
+      .innerJoin(users, eq(dealDocumentViews.userId, users.id))
+      .where(where)
+      .orderBy(desc(dealDocumentViews.viewedAt), desc(dealDocumentViews.id))
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(dealDocumentViews)
+      .where(where),
+  ]);
+
+  return { documents, rows, page, limit, total, hasMore: page * limit < total };
+}
+
+/**
+ * Format a document's view totals for API responses
+ */
+export function formatDocumentStats(
+  stats: Awaited<ReturnType<typeof fetchDataRoomActivity>>['documents'][number]
+) {
+  return {
+    id: stats.id,
+    name: stats.name,
+    views_count: stats.viewsCount,
+    viewers_count: stats.viewersCount,
+    last_viewed_at: stats.lastViewedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Format a document view for API responses, with who opened it
+ */
+export function formatDocumentView(
+  row: Awaited<ReturnType<typeof fetchDataRoomActivity>>['rows'][number]
+) {
+  return {
+    id: row.view.id,
+    document_id: row.view.documentId,
+    document_name: row.documentName,
+    viewer: { ...formatAuthor(row.viewer), email: row.viewer.email },
+    viewed_at: row.view.viewedAt.toISOString(),
+  };
+}
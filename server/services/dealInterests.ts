@@ -0,0 +1,378 @@
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import type { DealInterestStatus } from '@medinvest/shared/types';
+import { formatCurrency } from '@medinvest/shared/utils';
+import type { DealInterestFilterInput, ExpressInterestInput } from '@medinvest/shared/validators';
+import { db, dealInterests, users } from '../db';
+import type { DealRow } from './deals';
+import { notify } from './notifications';
+import { formatAuthor } from './posts';
+
+// ============================================
+// Types
+// ============================================
+
+export type DealInterestRow = typeof dealInterests.$inferSelect;
+
+export type DealInvestor = Awaited<
+  ReturnType<typeof fetchDealPipeline>
+>['rows'][number]['investor'];
+
+export type ExpressInterestResult =
+  | { status: 'ok'; interest: DealInterestRow; created: boolean }
+  | { status: 'not_open' }
+  | { status: 'own_deal' }
+  | { status: 'locked' }
+  | { status: 'invalid'; message: string };
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_INTEREST_PAGE_SIZE = 50;
+
+/** Once a sponsor commits or declines an interest, the investor can no longer change it */
+const EDITABLE_INTEREST_STATUSES: DealInterestStatus[] = ['new', 'contacted'];
+
+const STATUS_LABELS: Record<DealInterestStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  committed: 'Committed',
+  declined: 'Declined',
+};
+
+const investorColumns = {
+  id: users.id,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  avatarUrl: users.avatarUrl,
+  isVerified: users.isVerified,
+  email: users.email,
+  phone: users.phone,
+};
+
+// ============================================
+// Investors
+// ============================================
+
+/**
+ * Record or update a user's interest in a published deal. The amount must
+ * fall within the deal's investment range. Its sponsor hears about new
+ * interest; changes to an existing indication keep its pipeline status, and
+ * are refused once the sponsor has committed or declined it.
+ */
+export async function expressInterest(
+  userId: string,
+  deal: DealRow,
+  input: ExpressInterestInput,
+  now = new Date()
+): Promise<ExpressInterestResult> {
+  if (deal.status !== 'published') return { status: 'not_open' };
+  if (deal.sponsorId === userId) return { status: 'own_deal' };
+
+  const error = await checkInterest(userId, deal, input);
+  if (error) return { status: 'invalid', message: error };
+
+  const values = {
+    amount: input.amount === undefined ? null : String(input.amount),
+    message: input.message || null,
+    contactPreference: input.contact_preference ?? 'email',
+    updatedAt: now,
+  };
+
+  const [created] = await db
+    .insert(dealInterests)
+    .values({ ...values, dealId: deal.id, userId, createdAt: now })
+    .onConflictDoNothing()
+    .returning();
+  if (created) {
+    notifySponsor(deal, created).catch(error =>
+      console.error('Deal interest notification error:', error)
+    );
+    return { status: 'ok', interest: created, created: true };
+  }
+
+  const [updated] = await db
+    .update(dealInterests)
+    .set(values)
+    .where(
+      and(
+        eq(dealInterests.dealId, deal.id),
+        eq(dealInterests.userId, userId),
+        inArray(dealInterests.status, EDITABLE_INTEREST_STATUSES)
+      )
+    )
+    .returning();
+  if (!updated) return { status: 'locked' };
+  return { status: 'ok', interest: updated, created: false };
+}
+
+async function checkInterest(
+  userId: string,
+  deal: DealRow,
+  input: ExpressInterestInput
+): Promise<string | null> {
+  if (input.amount !== undefined) {
+    const minimum = parseFloat(deal.minimumInvestment);
+    if (input.amount < minimum) {
+      return `The minimum investment is ${formatCurrency(minimum)}`;
+    }
+    if (deal.maximumInvestment !== null && input.amount > parseFloat(deal.maximumInvestment)) {
+      return `The maximum investment is ${formatCurrency(parseFloat(deal.maximumInvestment))}`;
+    }
+  }
+
+  if (input.contact_preference === 'phone') {
+    const [user] = await db
+      .select({ phone: users.phone })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    if (!user?.phone) return 'Add a phone number to your profile to be contacted by phone';
+  }
+  return null;
+}
+
+async function notifySponsor(deal: DealRow, interest: DealInterestRow): Promise<void> {
+  if (!deal.sponsorId) return;
+
+  const [investor] = await db
+    .select({ firstName: users.firstName, lastName: users.lastName })
+    .from(users)
+    .where(eq(users.id, interest.userId))
+    .limit(1);
+  if (!investor) return;
+
+  const name = [investor.firstName, investor.lastName].filter(Boolean).join(' ') || 'An investor';
+  await notify({
+    userId: deal.sponsorId,
+    type: 'deal_interest',
+    title: `New interest in ${deal.title}`,
+    body: interest.amount
+      ? `${name} indicated ${formatCurrency(parseFloat(interest.amount))}`
+      : `${name} would like to hear more`,
+    data: { deal_id: deal.id, interest_id: interest.id },
+    channelId: 'deals',
+  });
+}
+
+/**
+ * A user's interest in a deal, if they have expressed any
+ */
+export async function fetchOwnInterest(
+  userId: string,
+  dealId: number
+): Promise<DealInterestRow | null> {
+  const [interest] = await db
+    .select()
+    .from(dealInterests)
+    .where(and(eq(dealInterests.dealId, dealId), eq(dealInterests.userId, userId)))
+    .limit(1);
+  return interest ?? null;
+}
+
+// ============================================
+// Pipeline
+// ============================================
+
+/**
+ * A page of a deal's interest, newest first, with counts per status and the
+ * total committed
+ */
+export async function fetchDealPipeline(dealId: number, filters: DealInterestFilterInput) {
+  const page = filters.page ?? 1;
+  const limit = filters.limit ?? DEFAULT_INTEREST_PAGE_SIZE;
+  const where = filters.status
+    ? and(eq(dealInterests.dealId, dealId), eq(dealInterests.status, filters.status))
+    : eq(dealInterests.dealId, dealId);
+
+  const [rows, statusCounts] = await Promise.all([
+    db
+      .select({ interest: dealInterests, investor: investorColumns })
+      .from(dealInterests)
+      .innerJoin(users, eq(dealInterests.userId, users.id))
+      .where(where)
+      .orderBy(desc(dealInterests.createdAt), desc(dealInterests.id))
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db
+      .select({
+        status: dealInterests.status,
+        count: sql<number>`count(*)::int`,
+        amount: sql<string>`coalesce(sum(${dealInterests.amount}), 0)`,
+      })
+      .from(dealInterests)
+      .where(eq(dealInterests.dealId, dealId))
+      .groupBy(dealInterests.status),
+  ]);
+
+  const counts: Record<DealInterestStatus, number> = {
+    new: 0,
+    contacted: 0,
+    committed: 0,
+    declined: 0,
+  };
+  for (const row of statusCounts) counts[row.status] = row.count;
+  const committed = statusCounts.find(row => row.status === 'committed');
+  const total = filters.status
+    ? counts[filters.status]
+    : Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  return {
+    rows,
+    counts,
+    committedAmount: committed ? parseFloat(committed.amount) : 0,
+    page,
+    limit,
+    total,
+    hasMore: page * limit < total,
+  };
+}
+
+/**
+ * Find one of a deal's indications of interest
+ */
+export async function findDealInterest(
+  dealId: number,
+  interestId: string
+): Promise<DealInterestRow | null> {
+  const [interest] = await db
+    .select()
+    .from(dealInterests)
+    .where(and(eq(dealInterests.id, interestId), eq(dealInterests.dealId, dealId)))
+    .limit(1);
+  return interest ?? null;
+}
+
+/**
+ * Move an indication of interest through the pipeline. The investor is told
+ * when they are contacted, committed or declined.
+ */
+export async function setInterestStatus(
+  deal: DealRow,
+  interest: DealInterestRow,
+  status: DealInterestStatus,
+  now = new Date()
+): Promise<DealInterestRow> {
+  if (interest.status === status) return interest;
+
+  const [updated] = await db
+    .update(dealInterests)
+    .set({ status, statusChangedAt: now, updatedAt: now })
+    .where(eq(dealInterests.id, interest.id))
+    .returning();
+
+  notifyInvestor(deal, updated).catch(error =>
+    console.error('Deal interest status notification error:', error)
+  );
+  return updated;
+}
+
+async function notifyInvestor(deal: DealRow, interest: DealInterestRow): Promise<void> {
+  const message = {
+    new: null,
+    contacted: {
+      title: `${deal.companyName} is reaching out`,
+      body: `About your interest in ${deal.title}. Watch your ${interest.contactPreference === 'message' ? 'messages' : interest.contactPreference}.`,
+    },
+    committed: {
+      title: `Your commitment to ${deal.title} is confirmed`,
+      body: interest.amount
+        ? `${deal.companyName} recorded your ${formatCurrency(parseFloat(interest.amount))} commitment`
+        : `${deal.companyName} recorded your commitment`,
+    },
+    declined: {
+      title: `Update on ${deal.title}`,
+      body: `${deal.companyName} is not taking your interest further at this time`,
+    },
+  }[interest.status];
+  if (!message) return;
+
+  await notify({
+    userId: interest.userId,
+    type: 'deal_interest_status',
+    title: message.title,
+    body: message.body,
+    data: { deal_id: deal.id, status: interest.status },
+    channelId: 'deals',
+  });
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Quote a CSV field, and stop spreadsheets reading it as a formula
+ */
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Every indication of interest in a deal as CSV, oldest first
+ */
+export async function exportDealPipeline(dealId: number): Promise<string> {
+  const rows = await db
+    .select({ interest: dealInterests, investor: investorColumns })
+    .from(dealInterests)
+    .innerJoin(users, eq(dealInterests.userId, users.id))
+    .where(eq(dealInterests.dealId, dealId))
+    .orderBy(dealInterests.createdAt, dealInterests.id);
+
+  const header = [
+    'Name',
+    'Email',
+    'Phone',
+    'Contact preference',
+    'Amount',
+    'Status',
+    'Message',
+    'Expressed at',
+    'Status changed at',
+  ];
+  const lines = rows.map(({ interest, investor }) =>
+    [
+      `${investor.firstName ?? ''} ${investor.lastName ?? ''}`.trim(),
+      investor.email,
+      investor.phone,
+      interest.contactPreference,
+      interest.amount,
+      STATUS_LABELS[interest.status],
+      interest.message,
+      interest.createdAt.toISOString(),
+      interest.statusChangedAt?.toISOString() ?? null,
+    ]
+      .map(csvField)
+      .join(',')
+  );
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format an indication of interest for API responses. Pass the investor for
+ * the sponsor's pipeline, which also shows how to reach them.
+ */
+export function formatDealInterest(interest: DealInterestRow, investor?: DealInvestor) {
+  return {
+    id: interest.id,
+    deal_id: interest.dealId,
+    amount: interest.amount === null ? null : parseFloat(interest.amount),
+    message: interest.message,
+    contact_preference: interest.contactPreference,
+    status: interest.status,
+    ...(investor && {
+      investor: formatAuthor(investor),
+      contact: { email: investor.email, phone: investor.phone },
+    }),
+    status_changed_at: interest.statusChangedAt?.toISOString() ?? null,
+    created_at: interest.createdAt.toISOString(),
+    updated_at: interest.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,513 @@
+import { and, asc, desc, eq, gte, inArray, lte, lt, ne, SQL, sql } from 'drizzle-orm';
+import { LIMITS } from '@medinvest/shared/constants';
+import type { DealTeamMember } from '@medinvest/shared/types';
+import type {
+  CreateDealInput,
+  DealFilterInput,
+  UpdateDealInput,
+} from '@medinvest/shared/validators';
+import { db, dealDocuments, deals, dealWatchers, users } from '../db';
+import { isAdmin, type AuthUser } from '../middleware/auth';
+import { alertDealChanges, reachedFundingMilestone } from './dealAlerts';
+import { formatAuthor, parseJsonArray } from './posts';
+
+// ============================================
+// Types
+// ============================================
+
+export type DealRow = typeof deals.$inferSelect;
+
+export type DealDocumentRow = typeof dealDocuments.$inferSelect;
+
+export type SaveDealResult =
+  | { status: 'ok'; deal: DealRow }
+  | { status: 'invalid'; message: string }
+  | { status: 'closed' };
+
+export type PublishDealResult =
+  | { status: 'ok'; deal: DealRow }
+  | { status: 'not_draft' }
+  | { status: 'deadline_passed' };
+
+// ============================================
+// Constants
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How often published deals are checked for passed deadlines */
+export const DEAL_CLOSE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export const DEFAULT_DEAL_PAGE_SIZE = 20;
+
+// ============================================
+// Lookup
+// ============================================
+
+/**
+ * Parse a deal id from a route parameter, returning null for malformed ids
+ */
+export function parseDealId(id: number | string): number | null {
+  const value = Number(id);
+  return Number.isSafeInteger(value) && value > 0 ? value : null;
+}
+
+/**
+ * Look up a deal by id in any status, returning null for unknown or
+ * malformed ids
+ */
+export async function findDeal(id: number | string): Promise<DealRow | null> {
+  const dealId = parseDealId(id);
+  if (dealId === null) return null;
+
+  const [deal] = await db.select().from(deals).where(eq(deals.id, dealId)).limit(1);
+  return deal ?? null;
+}
+
+/**
+ * Whether a user can edit, publish and close a deal: its sponsor while they
+ * remain a sponsor, and admins
+ */
+export function canManageDeal(user: AuthUser | undefined, deal: DealRow): boolean {
+  if (!user) return false;
+  return isAdmin(user) || (user.isSponsor && deal.sponsorId === user.id);
+}
+
+/**
+ * Whether a user can see a deal. Drafts are hidden from everyone who cannot
+ * manage them.
+ */
+export function canViewDeal(user: AuthUser | undefined, deal: DealRow): boolean {
+  return deal.status !== 'draft' || canManageDeal(user, deal);
+}
+
+/**
+ * Published deals matching the listing filters, a page at a time. Minimum
+ * and maximum investment bound each deal's minimum ticket. Featured deals
+ * come first unless another order is asked for.
+ */
+export async function fetchDealPage(filters: DealFilterInput) {
+  const page = filters.page ?? 1;
+  const limit = filters.limit ?? DEFAULT_DEAL_PAGE_SIZE;
+
+  const conditions: SQL[] = [eq(deals.status, 'published')];
+  if (filters.stage) conditions.push(eq(deals.stage, filters.stage));
+  if (filters.sector) conditions.push(eq(deals.sector, filters.sector));
+  if (filters.min_investment !== undefined) {
+    conditions.push(gte(deals.minimumInvestment, String(filters.min_investment)));
+  }
+  if (filters.max_investment !== undefined) {
+    conditions.push(lte(deals.minimumInvestment, String(filters.max_investment)));
+  }
+  const where = and(...conditions);
+
+  const order = {
+    recent: [desc(deals.publishedAt)],
+    popular: [desc(deals.investorsCount), desc(deals.publishedAt)],
+    deadline: [asc(deals.deadline)],
+    amount: [desc(deals.targetRaise), desc(deals.publishedAt)],
+  }[filters.sort_by ?? 'recent'];
+  if (!filters.sort_by) order.unshift(desc(deals.isFeatured));
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select()
+      .from(deals)
+      .where(where)
+      .orderBy(...order, desc(deals.id))
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(deals)
+      .where(where),
+  ]);
+
+  return { rows, page, limit, total, hasMore: page * limit < total };
+}
+
+/**
+ * Published featured deals, newest first
+ */
+export function fetchFeaturedDeals() {
+  return db
+    .select()
+    .from(deals)
+    .where(and(eq(deals.status, 'published'), eq(deals.isFeatured, true)))
+    .orderBy(desc(deals.publishedAt));
+}
+
+/**
+ * Every deal a sponsor has created, in any status, newest first
+ */
+export function fetchSponsorDeals(sponsorId: string) {
+  return db
+    .select()
+    .from(deals)
+    .where(eq(deals.sponsorId, sponsorId))
+    .orderBy(desc(deals.createdAt));
+}
+
+/**
+ * Deals that are not drafts, for saved items
+ */
+export function fetchListedDeals(ids: number[]) {
+  if (ids.length === 0) return Promise.resolve([]);
+  return db
+    .select()
+    .from(deals)
+    .where(and(inArray(deals.id, ids), ne(deals.status, 'draft')));
+}
+
+/**
+ * A deal's documents, oldest first
+ */
+export function fetchDealDocuments(dealId: number) {
+  return db
+    .select()
+    .from(dealDocuments)
+    .where(eq(dealDocuments.dealId, dealId))
+    .orderBy(asc(dealDocuments.createdAt));
+}
+
+// ============================================
+// Sponsor Management
+// ============================================
+
+/**
+ * Check a deal's terms once an edit is applied. Returns an error message, or
+ * null if the amounts are consistent and the deadline is in range.
+ */
+function checkDealTerms(
+  deal: {
+    targetRaise: string;
+    minimumInvestment: string;
+    maximumInvestment: string | null;
+    deadline: Date;
+  },
+  now: Date
+): string | null {
+  const target = parseFloat(deal.targetRaise);
+  const minimum = parseFloat(deal.minimumInvestment);
+  if (minimum > target) {
+    return 'Minimum investment cannot be more than the target raise';
+  }
+  if (deal.maximumInvestment !== null) {
+    const maximum = parseFloat(deal.maximumInvestment);
+    if (maximum < minimum) return 'Maximum investment cannot be less than the minimum';
+    if (maximum > target) return 'Maximum investment cannot be more than the target raise';
+  }
+  if (deal.deadline.getTime() <= now.getTime()) {
+    return 'Deadline must be in the future';
+  }
+  if (deal.deadline.getTime() > now.getTime() + LIMITS.DEAL_DEADLINE_MAX_DAYS * DAY_MS) {
+    return `Deadlines can be up to ${LIMITS.DEAL_DEADLINE_MAX_DAYS} days ahead`;
+  }
+  return null;
+}
+
+function optionalAmount(value: number | null | undefined): string | null | undefined {
+  return value === undefined ? undefined : value === null ? null : String(value);
+}
+
+function dealValues(input: UpdateDealInput) {
+  return {
+    title: input.title,
+    companyName: input.company_name,
+    description: input.description,
+    sector: input.sector,
+    stage: input.stage,
+    targetRaise: optionalAmount(input.target_raise) ?? undefined,
+    minimumInvestment: optionalAmount(input.minimum_investment) ?? undefined,
+    maximumInvestment: optionalAmount(input.maximum_investment),
+    valuation: optionalAmount(input.valuation),
+    equityOffered: optionalAmount(input.equity_offered),
+    highlights: input.highlights && JSON.stringify(input.highlights),
+    risks: input.risks && JSON.stringify(input.risks),
+    team: input.team && JSON.stringify(input.team),
+    logoUrl: input.logo_url,
+    coverImageUrl: input.cover_image_url,
+    deadline: input.deadline === undefined ? undefined : new Date(input.deadline),
+    currentRaise: optionalAmount(input.current_raise) ?? undefined,
+    investorsCount: input.investors_count,
+    ndaText: input.nda_text,
+  };
+}
+
+/**
+ * Create a draft deal for a sponsor
+ */
+export async function createDeal(
+  sponsorId: string,
+  input: CreateDealInput,
+  now = new Date()
+): Promise<SaveDealResult> {
+  const values = {
+    ...dealValues(input),
+    targetRaise: String(input.target_raise),
+    minimumInvestment: String(input.minimum_investment),
+    maximumInvestment: optionalAmount(input.maximum_investment) ?? null,
+    deadline: new Date(input.deadline),
+  };
+  const error = checkDealTerms(values, now);
+  if (error) return { status: 'invalid', message: error };
+
+  const [deal] = await db
+    .insert(deals)
+    .values({
+      ...values,
+      title: input.title,
+      companyName: input.company_name,
+      description: input.description,
+      sector: input.sector,
+      stage: input.stage,
+      sponsorId,
+      status: 'draft',
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+  return { status: 'ok', deal };
+}
+
+/**
+ * Change the fields given on a draft or published deal. Closed deals can no
+ * longer be changed. Watchers of a published deal hear about new funding
+ * milestones and changed terms, and a changed confidentiality agreement must
+ * be accepted again.
+ */
+export async function updateDeal(
+  deal: DealRow,
+  input: UpdateDealInput,
+  now = new Date()
+): Promise<SaveDealResult> {
+  if (deal.status === 'closed') return { status: 'closed' };
+
+  const values = dealValues(input);
+  const error = checkDealTerms(
+    {
+      targetRaise: values.targetRaise ?? deal.targetRaise,
+      minimumInvestment: values.minimumInvestment ?? deal.minimumInvestment,
+      maximumInvestment:
+        values.maximumInvestment === undefined ? deal.maximumInvestment : values.maximumInvestment,
+      deadline: values.deadline ?? deal.deadline,
+    },
+    now
+  );
+  if (error) return { status: 'invalid', message: error };
+
+  const deadlineMoved = values.deadline && values.deadline.getTime() !== deal.deadline.getTime();
+  const ndaChanged = values.ndaText !== undefined && values.ndaText !== deal.ndaText;
+  const [updated] = await db
+    .update(deals)
+    .set({
+      ...values,
+      ...(deadlineMoved && { deadlineAlertedAt: null }),
+      ...(ndaChanged && { ndaVersion: sql`${deals.ndaVersion} + 1` }),
+      updatedAt: now,
+    })
+    .where(and(eq(deals.id, deal.id), ne(deals.status, 'closed')))
+    .returning();
+  if (!updated) return { status: 'closed' };
+
+  alertDealChanges(deal, updated, now).catch(error =>
+    console.error('Deal change alert error:', error)
+  );
+  return { status: 'ok', deal: updated };
+}
+
+/**
+ * Publish a draft deal, listing it for everyone
+ */
+export async function publishDeal(deal: DealRow, now = new Date()): Promise<PublishDealResult> {
+  if (deal.status !== 'draft') return { status: 'not_draft' };
+  if (deal.deadline.getTime() <= now.getTime()) return { status: 'deadline_passed' };
+
+  const [published] = await db
+    .update(deals)
+    // Milestones reached before publishing are not announced
+    .set({
+      status: 'published',
+      fundingAlertPercent: reachedFundingMilestone(deal),
+      publishedAt: now,
+      updatedAt: now,
+    })
+    .where(and(eq(deals.id, deal.id), eq(deals.status, 'draft')))
+    .returning();
+  return published ? { status: 'ok', deal: published } : { status: 'not_draft' };
+}
+
+/**
+ * Close a published deal ahead of its deadline. Returns false if it is not
+ * published.
+ */
+export async function closeDeal(dealId: number, now = new Date()): Promise<boolean> {
+  const closed = await db
+    .update(deals)
+    .set({ status: 'closed', closedAt: now, updatedAt: now })
+    .where(and(eq(deals.id, dealId), eq(deals.status, 'published')))
+    .returning({ id: deals.id });
+  return closed.length > 0;
+}
+
+/**
+ * Close published deals whose deadline has passed
+ */
+export async function closeExpiredDeals(now = new Date()): Promise<number> {
+  const closed = await db
+    .update(deals)
+    .set({ status: 'closed', closedAt: now, updatedAt: now })
+    .where(and(eq(deals.status, 'published'), lt(deals.deadline, now)))
+    .returning({ id: deals.id });
+  return closed.length;
+}
+
+/**
+ * Let a user create deals, or stop them. Their existing deals stay listed.
+ * Returns false if the user does not exist.
+ */
+export async function setSponsor(userId: string, isSponsor: boolean): Promise<boolean> {
+  const updated = await db
+    .update(users)
+    .set({ isSponsor, updatedAt: new Date() })
+    .where(eq(users.id, userId))
+    .returning({ id: users.id });
+  return updated.length > 0;
+}
+
+// ============================================
+// Watchlist
+// ============================================
+
+/**
+ * Add a deal to a user's watchlist. Watching twice is a no-op.
+ */
+export async function watchDeal(userId: string, dealId: number): Promise<void> {
+  await db.insert(dealWatchers).values({ dealId, userId }).onConflictDoNothing();
+}
+
+/**
+ * Remove a deal from a user's watchlist
+ */
+export async function unwatchDeal(userId: string, dealId: number): Promise<void> {
+  await db
+    .delete(dealWatchers)
+    .where(and(eq(dealWatchers.dealId, dealId), eq(dealWatchers.userId, userId)));
+}
+
+/**
+ * Deals a user is watching that are still listed, most recently watched
+ * first
+ */
+export async function fetchWatchedDeals(userId: string): Promise<DealRow[]> {
+  const watched = await db
+    .select({ deal: deals })
+    .from(dealWatchers)
+    .innerJoin(deals, eq(dealWatchers.dealId, deals.id))
+    .where(and(eq(dealWatchers.userId, userId), ne(deals.status, 'draft')))
+    .orderBy(desc(dealWatchers.createdAt));
+  return watched.map(row => row.deal);
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+function parseTeam(value: string | null): DealTeamMember[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function optionalNumber(value: string | null): number | undefined {
+  return value === null ? undefined : parseFloat(value);
+}
+
+/**
+ * Format a document for API responses
+ */
+export function formatDealDocument(document: DealDocumentRow) {
+  return {
+    id: document.id,
+    name: document.name,
+    type: document.type,
+    size_bytes: document.sizeBytes,
+    created_at: document.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Format deals for a viewer with their sponsors and whether the viewer is
+ * watching each. Pass documents to include them, as the deal detail does.
+ */
+export async function formatDealsForViewer(
+  rows: DealRow[],
+  viewer: AuthUser | undefined,
+  documents?: DealDocumentRow[]
+) {
+  if (rows.length === 0) return [];
+
+  const dealIds = rows.map(row => row.id);
+  const sponsorIds = [...new Set(rows.flatMap(row => (row.sponsorId ? [row.sponsorId] : [])))];
+
+  const [sponsors, watched] = await Promise.all([
+    sponsorIds.length > 0
+      ? db
+          .select({
+            id: users.id,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            avatarUrl: users.avatarUrl,
+            isVerified: users.isVerified,
+          })
+          .from(users)
+          .where(inArray(users.id, sponsorIds))
+      : [],
+    viewer
+      ? db
+          .select({ dealId: dealWatchers.dealId })
+          .from(dealWatchers)
+          .where(and(eq(dealWatchers.userId, viewer.id), inArray(dealWatchers.dealId, dealIds)))
+      : [],
+  ]);
+  const sponsorsById = new Map(sponsors.map(sponsor => [sponsor.id, sponsor]));
+  const watchedIds = new Set(watched.map(row => row.dealId));
+
+  return rows.map(deal => {
+    const sponsor = deal.sponsorId ? sponsorsById.get(deal.sponsorId) : undefined;
+    return {
+      id: deal.id,
+      title: deal.title,
+      company_name: deal.companyName,
+      description: deal.description,
+      sector: deal.sector,
+      stage: deal.stage,
+      status: deal.status,
+      minimum_investment: parseFloat(deal.minimumInvestment),
+      maximum_investment: optionalNumber(deal.maximumInvestment),
+      target_raise: parseFloat(deal.targetRaise),
+      current_raise: parseFloat(deal.currentRaise),
+      valuation: optionalNumber(deal.valuation),
+      equity_offered: optionalNumber(deal.equityOffered),
+      highlights: parseJsonArray(deal.highlights),
+      risks: parseJsonArray(deal.risks),
+      team: parseTeam(deal.team),
+      logo_url: deal.logoUrl ?? undefined,
+      cover_image_url: deal.coverImageUrl ?? undefined,
+      documents: documents?.map(formatDealDocument),
+      deadline: deal.deadline.toISOString(),
+      is_featured: deal.isFeatured,
+      is_watching: watchedIds.has(deal.id),
+      investors_count: deal.investorsCount,
+      sponsor: sponsor ? formatAuthor(sponsor) : null,
+      can_manage: canManageDeal(viewer, deal),
+      published_at: deal.publishedAt?.toISOString() ?? null,
+      closed_at: deal.closedAt?.toISOString() ?? null,
+      created_at: deal.createdAt.toISOString(),
+    };
+  });
+}
@@ -0,0 +1,182 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AuthUser } from '../middleware/auth';
+import {
+  decodeRankedCursor,
+  encodeRankedCursor,
+  isExplainEnabled,
+  isFilteredOut,
+  scorePost,
+  type ViewerContext,
+} from './feedRanking';
+import type { PostRow, PostWithAuthor } from './posts';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+const HOUR_MS = 60 * 60 * 1000;
+const viewerId = '9b2c5c3e-8f1a-4b6d-9e2f-1a2b3c4d5e6f';
+const authorId = '0d9c8b7a-6f5e-4d3c-8b2a-1f0e9d8c7b6a';
+
+function postItem(overrides: Partial<PostRow> = {}): PostWithAuthor {
+  const post: PostRow = {
+    id: '3f6e1d2c-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+    authorId,
+    roomId: null,
+    content: 'New data on GLP-1 outcomes',
+    images: null,
+    videoUrl: null,
+    hashtags: null,
+    mentions: null,
+    isAnonymous: false,
+    repostOfId: null,
+    isRepost: false,
+    upvotes: 0,
+    downvotes: 0,
+    commentsCount: 0,
+    repostsCount: 0,
+    editedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+  return {
+    post,
+    author: {
+      id: post.authorId,
+      firstName: 'Dana',
+      lastName: 'Reyes',
+      avatarUrl: null,
+      isVerified: false,
+    },
+  };
+}
+
+function viewer(overrides: Partial<ViewerContext> = {}): ViewerContext {
+  return {
+    userId: viewerId,
+    followingIds: new Set(),
+    followedTags: new Set(),
+    joinedRoomIds: new Set(),
+    dmMessageCounts: new Map(),
+    preferences: null,
+    ...overrides,
+  };
+}
+
+function score(item: PostWithAuthor, context = viewer()): number {
+  return scorePost(item, context, new Map(), now).score;
+}
+
+describe('scorePost', () => {
+  it('halves the recency of a post every twelve hours', () => {
+    const fresh = scorePost(postItem(), viewer(), new Map(), now);
+    const older = scorePost(
+      postItem({ createdAt: new Date(now.getTime() - 12 * HOUR_MS) }),
+      viewer(),
+      new Map(),
+      now
+    );
+    assert.equal(fresh.explanation.signals.recency, 1);
+    assert.equal(older.explanation.signals.recency, 0.5);
+  });
+
+  it('ranks upvoted and discussed posts above quiet ones', () => {
+    const quiet = score(postItem());
+    assert.ok(score(postItem({ upvotes: 10 })) > quiet);
+    assert.ok(score(postItem({ commentsCount: 5 })) > quiet);
+    assert.ok(score(postItem({ downvotes: 10 })) < quiet);
+  });
+
+  it('boosts posts from followed authors, joined rooms and followed hashtags', () => {
+    const quiet = score(postItem());
+    assert.ok(score(postItem(), viewer({ followingIds: new Set([authorId]) })) > quiet);
+    assert.ok(score(postItem({ roomId: 7 }), viewer({ joinedRoomIds: new Set([7]) })) > quiet);
+    assert.ok(
+      score(
+        postItem({ hashtags: '["cardiology"]' }),
+        viewer({ followedTags: new Set(['cardiology']) })
+      ) > quiet
+    );
+  });
+
+  it('gives anonymous posts no author affinity', () => {
+    const context = viewer({
+      followingIds: new Set([authorId]),
+      dmMessageCounts: new Map([[authorId, 20]]),
+    });
+    const ranked = scorePost(postItem({ isAnonymous: true }), context, new Map(), now);
+    assert.equal(ranked.explanation.signals.affinity, 0);
+    assert.equal(ranked.score, score(postItem({ isAnonymous: true })));
+  });
+
+  it('ranks posts by the viewer lower', () => {
+    assert.ok(score(postItem({ authorId: viewerId })) < score(postItem()));
+  });
+
+  it('damps engagement on out-of-network posts when trending posts are turned off', () => {
+    const optedOut = viewer({ preferences: { show_trending_posts: false } });
+    const popular = postItem({ upvotes: 50 });
+    assert.ok(score(popular, optedOut) < score(popular));
+    assert.equal(
+      score(popular, { ...optedOut, followingIds: new Set([authorId]) }),
+      score(popular, viewer({ followingIds: new Set([authorId]) }))
+    );
+  });
+});
+
+describe('isFilteredOut', () => {
+  it('hides posts containing a muted keyword', () => {
+    const context = viewer({ preferences: { muted_keywords: ['glp-1'] } });
+    assert.equal(isFilteredOut(postItem(), context), true);
+    assert.equal(isFilteredOut(postItem({ content: 'Device approvals' }), context), false);
+    assert.equal(isFilteredOut(postItem(), viewer()), false);
+  });
+});
+
+describe('ranked cursors', () => {
+  it('round trip the ranking time, score and post', () => {
+    const ranked = scorePost(postItem(), viewer(), new Map(), now);
+    assert.deepEqual(decodeRankedCursor(encodeRankedCursor(now, ranked)), {
+      rankedAt: now,
+      score: ranked.score,
+      id: ranked.item.post.id,
+    });
+  });
+
+  it('reject malformed cursors', () => {
+    for (const cursor of [
+      '',
+      'not-a-cursor',
+      Buffer.from('{"t":"soon","s":1,"id":"x"}').toString('base64url'),
+    ]) {
+      assert.equal(decodeRankedCursor(cursor), null, cursor);
+    }
+  });
+});
+
+describe('isExplainEnabled', () => {
+  const moderator: AuthUser = {
+    id: viewerId,
+    email: 'mod@example.com',
+    isVerified: true,
+    isAccredited: false,
+    isSponsor: false,
+    role: 'moderator',
+  };
+  const member: AuthUser = { ...moderator, role: 'user' };
+
+  it('is only enabled for staff while the flag is on', () => {
+    const flag = process.env.FEED_EXPLAIN;
+    try {
+      process.env.FEED_EXPLAIN = 'enabled';
+      assert.equal(isExplainEnabled(moderator), true);
+      assert.equal(isExplainEnabled(member), false);
+      assert.equal(isExplainEnabled(undefined), false);
+
+      delete process.env.FEED_EXPLAIN;
+      assert.equal(isExplainEnabled(moderator), false);
+    } finally {
+      if (flag === undefined) delete process.env.FEED_EXPLAIN;
+      else process.env.FEED_EXPLAIN = flag;
+    }
+  });
+});
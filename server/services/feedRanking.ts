@@ -0,0 +1,404 @@
+import { and, desc, eq, gte, inArray, notIlike, or, sql, SQL } from 'drizzle-orm';
+import type { ContentPreferences } from '@medinvest/shared/types';
+import { containsMutedKeywords } from '@medinvest/shared/utils';
+import {
+  db,
+  posts,
+  users,
+  userFollows,
+  dmConversations,
+  directMessages,
+  contentPreferences,
+} from '../db';
+import { isModerator, type AuthUser } from '../middleware/auth';
+import { fetchFollowedTags } from './hashtags';
+import { getJoinedRoomIds, visibleRoomPostsCondition } from './rooms';
+import { parseJsonArray, PostWithAuthor } from './posts';
+
+// ============================================
+// Types
+// ============================================
+
+export type FeedStyle = 'chronological' | 'algorithmic' | 'following';
+
+export const FEED_STYLES: FeedStyle[] = ['chronological', 'algorithmic', 'following'];
+
+/**
+ * Everything about the viewer that ranking depends on, loaded once per request
+ */
+export interface ViewerContext {
+  userId?: string;
+  followingIds: Set<string>;
+  followedTags: Set<string>;
+  joinedRoomIds: Set<number>;
+  /** Direct message count exchanged with each conversation partner */
+  dmMessageCounts: Map<string, number>;
+  preferences: Partial<ContentPreferences> | null;
+}
+
+export interface RankingSignals {
+  recency: number;
+  votes: number;
+  comment_velocity: number;
+  affinity: number;
+  preference: number;
+}
+
+export interface RankingExplanation {
+  score: number;
+  signals: RankingSignals;
+  weights: typeof RANKING_WEIGHTS;
+  reasons: string[];
+}
+
+export interface RankedPost {
+  item: PostWithAuthor;
+  score: number;
+  explanation: RankingExplanation;
+}
+
+interface RankedCursor {
+  rankedAt: Date;
+  score: number;
+  id: string;
+}
+
+// ============================================
+// Tuning
+// ============================================
+
+/** Hours after which a post's recency multiplier halves */
+const RECENCY_HALF_LIFE_HOURS = 12;
+
+/** Only posts from this window are considered for ranking */
+const RANKING_WINDOW_DAYS = 7;
+
+/** Maximum number of recent posts scored per request */
+const CANDIDATE_LIMIT = 500;
+
+export const RANKING_WEIGHTS = {
+  votes: 1.0,
+  comment_velocity: 1.5,
+  affinity: 2.0,
+  preference: 1.0,
+};
+
+const AFFINITY = {
+  follow: 1.0,
+  /** Scaled by message volume, reaching the full value at DM_SATURATION messages */
+  direct_messages: 0.6,
+  shared_room: 0.3,
+  joined_room: 0.4,
+  /** Per followed hashtag in the post, up to MAX_FOLLOWED_TAG_MATCHES */
+  followed_hashtag: 0.5,
+};
+
+const MAX_FOLLOWED_TAG_MATCHES = 2;
+
+const DM_SATURATION = 20;
+
+/** Engagement signals are damped for out-of-network posts when trending posts are turned off */
+const TRENDING_OPT_OUT_DAMPING = 0.5;
+
+// ============================================
+// Viewer Context
+// ============================================
+
+/**
+ * Load the viewer's stored content preferences, if any
+ */
+export async function getContentPreferences(
+  userId: string
+): Promise<Partial<ContentPreferences> | null> {
+  const [row] = await db
+    .select({ preferences: contentPreferences.preferences })
+    .from(contentPreferences)
+    .where(eq(contentPreferences.userId, userId))
+    .limit(1);
+
+  if (!row) return null;
+  try {
+    return JSON.parse(row.preferences);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load follows, followed hashtags, rooms, DM partners and preferences for the viewer
+ */
+export async function loadViewerContext(userId: string | undefined): Promise<ViewerContext> {
+  if (!userId) {
+    return {
+      followingIds: new Set(),
+      followedTags: new Set(),
+      joinedRoomIds: new Set(),
+      dmMessageCounts: new Map(),
+      preferences: null,
+    };
+  }
+
+  const [follows, followedTags, joinedRoomIds, conversations, preferences] = await Promise.all([
+    db
+      .select({ followingId: userFollows.followingId })
+      .from(userFollows)
+      .where(eq(userFollows.followerId, userId)),
+    fetchFollowedTags(userId),
+    getJoinedRoomIds(userId),
+    db
+      .select({
+        user1Id: dmConversations.user1Id,
+        user2Id: dmConversations.user2Id,
+        messageCount: sql<number>`count(${directMessages.id})::int`,
+      })
+      .from(dmConversations)
+      .leftJoin(directMessages, eq(directMessages.conversationId, dmConversations.id))
+      .where(or(eq(dmConversations.user1Id, userId), eq(dmConversations.user2Id, userId)))
+      .groupBy(dmConversations.id),
+    getContentPreferences(userId),
+  ]);
+
+  const dmMessageCounts = new Map<string, number>();
+  for (const conv of conversations) {
+    const partnerId = conv.user1Id === userId ? conv.user2Id : conv.user1Id;
+    dmMessageCounts.set(partnerId, conv.messageCount);
+  }
+
+  return {
+    userId,
+    followingIds: new Set(follows.map((f) => f.followingId)),
+    followedTags: new Set(followedTags),
+    joinedRoomIds,
+    dmMessageCounts,
+    preferences,
+  };
+}
+
+/**
+ * Whether a post should be hidden from the viewer entirely
+ */
+export function isFilteredOut(item: PostWithAuthor, context: ViewerContext): boolean {
+  const mutedKeywords = context.preferences?.muted_keywords ?? [];
+  return containsMutedKeywords(item.post.content, mutedKeywords);
+}
+
+/**
+ * SQL conditions excluding posts that contain any of the viewer's muted keywords
+ */
+export function mutedKeywordConditions(context: ViewerContext): SQL[] {
+  const mutedKeywords = context.preferences?.muted_keywords ?? [];
+  return mutedKeywords
+    .filter((keyword) => keyword.trim().length > 0)
+    .map((keyword) => notIlike(posts.content, `%${keyword.trim().replace(/[\\%_]/g, '\\$&')}%`));
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+/**
+ * Score a post for the viewer. Anonymous posts never receive author affinity,
+ * so their ranking cannot reveal who wrote them.
+ */
+export function scorePost(
+  item: PostWithAuthor,
+  context: ViewerContext,
+  authorRoomIds: Map<string, Set<number>>,
+  now: Date
+): RankedPost {
+  const { post } = item;
+  const reasons: string[] = [];
+
+  const ageHours = Math.max(0, (now.getTime() - post.createdAt.getTime()) / 3_600_000);
+  const recency = Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+  reasons.push(`posted ${ageHours.toFixed(1)}h ago (recency x${recency.toFixed(3)})`);
+
+  const netVotes = post.upvotes - post.downvotes;
+  const votes = Math.sign(netVotes) * Math.log10(1 + Math.abs(netVotes));
+  if (netVotes !== 0) reasons.push(`${netVotes > 0 ? '+' : ''}${netVotes} net votes`);
+
+  const commentsPerHour = post.commentsCount / Math.max(1, ageHours);
+  const commentVelocity = Math.log2(1 + commentsPerHour);
+  if (post.commentsCount > 0) {
+    reasons.push(`${commentsPerHour.toFixed(2)} comments/hour`);
+  }
+
+  let affinity = 0;
+  if (post.roomId !== null && context.joinedRoomIds.has(post.roomId)) {
+    affinity += AFFINITY.joined_room;
+    reasons.push('posted in a room you joined');
+  }
+  const followedTags = parseJsonArray(post.hashtags).filter((tag) => context.followedTags.has(tag));
+  if (followedTags.length > 0) {
+    affinity += AFFINITY.followed_hashtag * Math.min(MAX_FOLLOWED_TAG_MATCHES, followedTags.length);
+    reasons.push(`tagged ${followedTags.map((tag) => `#${tag}`).join(', ')}, which you follow`);
+  }
+  if (!post.isAnonymous && post.authorId !== context.userId) {
+    if (context.followingIds.has(post.authorId)) {
+      affinity += AFFINITY.follow;
+      reasons.push('you follow the author');
+    }
+    const dmCount = context.dmMessageCounts.get(post.authorId);
+    if (dmCount !== undefined) {
+      affinity += AFFINITY.direct_messages * Math.min(1, dmCount / DM_SATURATION);
+      reasons.push(`${dmCount} direct messages with the author`);
+    }
+    const sharedRooms = [...(authorRoomIds.get(post.authorId) || [])].filter((id) =>
+      context.joinedRoomIds.has(id)
+    ).length;
+    if (sharedRooms > 0) {
+      affinity += AFFINITY.shared_room * Math.min(3, sharedRooms);
+      reasons.push(`author is active in ${sharedRooms} of your rooms`);
+    }
+  }
+
+  let preference = 0;
+  const inNetwork = affinity > 0;
+  let engagementFactor = 1;
+  if (context.preferences?.show_trending_posts === false && !inNetwork) {
+    engagementFactor = TRENDING_OPT_OUT_DAMPING;
+    reasons.push('trending posts turned off: engagement damped');
+  }
+  if (post.authorId === context.userId) {
+    preference -= 0.5;
+    reasons.push('your own post');
+  }
+
+  const signals: RankingSignals = {
+    recency,
+    votes: votes * engagementFactor,
+    comment_velocity: commentVelocity * engagementFactor,
+    affinity,
+    preference,
+  };
+
+  const boost =
+    1 +
+    RANKING_WEIGHTS.votes * signals.votes +
+    RANKING_WEIGHTS.comment_velocity * signals.comment_velocity +
+    RANKING_WEIGHTS.affinity * signals.affinity +
+    RANKING_WEIGHTS.preference * signals.preference;
+
+  // Round so the score survives a round trip through the page cursor unchanged
+  const score = Math.round(recency * Math.max(0.01, boost) * 1e6) / 1e6;
+
+  return {
+    item,
+    score,
+    explanation: { score, signals, weights: RANKING_WEIGHTS, reasons },
+  };
+}
+
+// ============================================
+// Ranked Pagination
+// ============================================
+
+/**
+ * Encode the last ranked post on a page. The ranking time is carried along so
+ * later pages are scored against the same clock as the first.
+ */
+export function encodeRankedCursor(rankedAt: Date, ranked: RankedPost): string {
+  return Buffer.from(
+    JSON.stringify({ t: rankedAt.getTime(), s: ranked.score, id: ranked.item.post.id })
+  ).toString('base64url');
+}
+
+/**
+ * Decode a ranked cursor, returning null if it is malformed
+ */
+export function decodeRankedCursor(cursor: string): RankedCursor | null {
+  try {
+    const { t, s, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof t !== 'number' || typeof s !== 'number' || typeof id !== 'string') {
+      return null;
+    }
+    return { rankedAt: new Date(t), score: s, id };
+  } catch {
+    return null;
+  }
+}
+
+function comesAfter(ranked: RankedPost, cursor: RankedCursor): boolean {
+  if (ranked.score !== cursor.score) return ranked.score < cursor.score;
+  return ranked.item.post.id < cursor.id;
+}
+
+/**
+ * Rank recent posts for the viewer and return one page of them
+ */
+export async function rankFeed(
+  context: ViewerContext,
+  options: { roomId?: number; cursor: RankedCursor | null; limit: number }
+): Promise<{ items: RankedPost[]; hasMore: boolean; nextCursor: string | null }> {
+  const rankedAt = options.cursor?.rankedAt ?? new Date();
+  const windowStart = new Date(rankedAt.getTime() - RANKING_WINDOW_DAYS * 86_400_000);
+
+  const conditions = [
+    gte(posts.createdAt, windowStart),
+    visibleRoomPostsCondition(context.joinedRoomIds),
+  ];
+  if (options.roomId !== undefined) {
+    conditions.push(eq(posts.roomId, options.roomId));
+  }
+
+  const candidates = await db
+    .select({
+      post: posts,
+      author: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        avatarUrl: users.avatarUrl,
+        isVerified: users.isVerified,
+      },
+    })
+    .from(posts)
+    .innerJoin(users, eq(posts.authorId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(posts.createdAt))
+    .limit(CANDIDATE_LIMIT);
+
+  const authorIds = [
+    ...new Set(candidates.filter((c) => !c.post.isAnonymous).map((c) => c.post.authorId)),
+  ];
+  const authorRoomIds = new Map<string, Set<number>>();
+  if (authorIds.length > 0 && context.joinedRoomIds.size > 0) {
+    const rows = await db
+      .selectDistinct({ authorId: posts.authorId, roomId: posts.roomId })
+      .from(posts)
+      .where(and(inArray(posts.authorId, authorIds), eq(posts.isAnonymous, false)));
+    for (const row of rows) {
+      if (row.roomId === null) continue;
+      if (!authorRoomIds.has(row.authorId)) authorRoomIds.set(row.authorId, new Set());
+      authorRoomIds.get(row.authorId)!.add(row.roomId);
+    }
+  }
+
+  const ranked = candidates
+    .filter((item) => !isFilteredOut(item, context))
+    .map((item) => scorePost(item, context, authorRoomIds, rankedAt))
+    .sort((a, b) => {
+      if (b.score !== a.score) return b.score - a.score;
+      return a.item.post.id < b.item.post.id ? 1 : -1;
+    });
+
+  const cursor = options.cursor;
+  const remaining = cursor ? ranked.filter((r) => comesAfter(r, cursor)) : ranked;
+  const items = remaining.slice(0, options.limit);
+  const hasMore = remaining.length > options.limit;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore && last ? encodeRankedCursor(rankedAt, last) : null,
+  };
+}
+
+/**
+ * Whether a viewer may see ranking explanations in the feed. Only staff
+ * (moderators and admins) can, and only when FEED_EXPLAIN=enabled.
+ */
+export function isExplainEnabled(user?: AuthUser): boolean {
+  return process.env.FEED_EXPLAIN === 'enabled' && isModerator(user);
+}
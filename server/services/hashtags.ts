@@ -0,0 +1,230 @@
+import { and, desc, eq, inArray, isNull, ne, sql } from 'drizzle-orm';
+import { db, hashtagFollows, hashtags, hashtagUsages, posts } from '../db';
+import { fetchBlockedBetween, fetchMutingNotificationsFrom } from './blocks';
+import { notify } from './notifications';
+import { filterRoomViewers } from './rooms';
+
+// ============================================
+// Types
+// ============================================
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// ============================================
+// Tuning
+// ============================================
+
+export const MAX_TAG_LENGTH = 100;
+
+/** Number of co-occurring tags returned with a hashtag */
+const RELATED_TAGS_LIMIT = 10;
+
+/** Posts considered when working out related tags */
+const RELATED_SAMPLE_SIZE = 500;
+
+// ============================================
+// Normalization
+// ============================================
+
+/**
+ * Normalize a tag from a URL or request body the same way extractHashtags
+ * normalizes tags in post content. Returns null if it is not a valid tag.
+ */
+export function normalizeTag(raw: string): string | null {
+  const tag = raw.replace(/^#/, '').toLowerCase();
+  return /^\w+$/.test(tag) && tag.length <= MAX_TAG_LENGTH ? tag : null;
+}
+
+/**
+ * Create hashtag entities for any tags not seen before
+ */
+export async function ensureHashtags(tags: string[], tx: Transaction | typeof db = db) {
+  if (tags.length === 0) return;
+  await tx
+    .insert(hashtags)
+    .values(tags.map(tag => ({ tag })))
+    .onConflictDoNothing();
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * SQL condition matching posts whose content uses any of the given tags.
+ * Tags used only in comments don't count.
+ */
+export function taggedPostsCondition(tags: string[]) {
+  return inArray(
+    posts.id,
+    db
+      .select({ postId: hashtagUsages.postId })
+      .from(hashtagUsages)
+      .where(and(inArray(hashtagUsages.tag, tags), isNull(hashtagUsages.commentId)))
+  );
+}
+
+/**
+ * A hashtag with its post and follower counts, the tags most often used
+ * alongside it and whether the viewer follows it. Returns null for tags that
+ * have never been used or followed.
+ */
+export async function fetchHashtagDetails(tag: string, viewerId?: string) {
+  const [hashtag] = await db.select().from(hashtags).where(eq(hashtags.tag, tag)).limit(1);
+  if (!hashtag) return null;
+
+  const [[postCount], [followerCount], viewerFollow, related] = await Promise.all([
+    db
+      .select({ count: sql<number>`count(distinct ${hashtagUsages.postId})::int` })
+      .from(hashtagUsages)
+      .where(and(eq(hashtagUsages.tag, tag), isNull(hashtagUsages.commentId))),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(hashtagFollows)
+      .where(eq(hashtagFollows.hashtagId, hashtag.id)),
+    viewerId
+      ? db
+          .select({ id: hashtagFollows.id })
+          .from(hashtagFollows)
+          .where(and(eq(hashtagFollows.hashtagId, hashtag.id), eq(hashtagFollows.userId, viewerId)))
+          .limit(1)
+      : Promise.resolve([]),
+    fetchRelatedTags(tag),
+  ]);
+
+  return {
+    tag: hashtag.tag,
+    posts_count: postCount?.count ?? 0,
+    followers_count: followerCount?.count ?? 0,
+    is_following: viewerFollow.length > 0,
+    related,
+    created_at: hashtag.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Tags most often used in the same posts as this one, over its recent posts
+ */
+async function fetchRelatedTags(tag: string) {
+  const recentPosts = db
+    .select({ postId: hashtagUsages.postId })
+    .from(hashtagUsages)
+    .where(and(eq(hashtagUsages.tag, tag), isNull(hashtagUsages.commentId)))
+    .orderBy(desc(hashtagUsages.createdAt))
+    .limit(RELATED_SAMPLE_SIZE);
+
+  const count = sql<number>`count(*)::int`;
+  const rows = await db
+    .select({ tag: hashtagUsages.tag, count })
+    .from(hashtagUsages)
+    .where(
+      and(
+        inArray(hashtagUsages.postId, recentPosts),
+        isNull(hashtagUsages.commentId),
+        ne(hashtagUsages.tag, tag)
+      )
+    )
+    .groupBy(hashtagUsages.tag)
+    .orderBy(desc(count), hashtagUsages.tag)
+    .limit(RELATED_TAGS_LIMIT);
+
+  return rows.map(row => ({ tag: row.tag, posts_count: row.count }));
+}
+
+/**
+ * Tags a user follows, alphabetically
+ */
+export async function fetchFollowedTags(userId: string): Promise<string[]> {
+  const rows = await db
+    .select({ tag: hashtags.tag })
+    .from(hashtagFollows)
+    .innerJoin(hashtags, eq(hashtagFollows.hashtagId, hashtags.id))
+    .where(eq(hashtagFollows.userId, userId))
+    .orderBy(hashtags.tag);
+  return rows.map(row => row.tag);
+}
+
+// ============================================
+// Following
+// ============================================
+
+/**
+ * Follow a hashtag, creating it if nobody has used it yet
+ */
+export async function followHashtag(userId: string, tag: string): Promise<void> {
+  await db.transaction(async tx => {
+    await ensureHashtags([tag], tx);
+    const [hashtag] = await tx
+      .select({ id: hashtags.id })
+      .from(hashtags)
+      .where(eq(hashtags.tag, tag))
+      .limit(1);
+    await tx.insert(hashtagFollows).values({ userId, hashtagId: hashtag.id }).onConflictDoNothing();
+  });
+}
+
+/**
+ * Stop following a hashtag
+ */
+export async function unfollowHashtag(userId: string, tag: string): Promise<void> {
+  await db
+    .delete(hashtagFollows)
+    .where(
+      and(
+        eq(hashtagFollows.userId, userId),
+        inArray(
+          hashtagFollows.hashtagId,
+          db.select({ id: hashtags.id }).from(hashtags).where(eq(hashtags.tag, tag))
+        )
+      )
+    );
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+/**
+ * Tell followers of a new post's tags about it, once per follower, skipping
+ * anyone who can't see the post's room, anyone blocked either way and anyone
+ * muting the author's notifications. The author is never named so
+ * notifications can't unmask an anonymous post.
+ */
+export async function notifyHashtagFollowers(post: {
+  id: string;
+  authorId: string;
+  roomId: number | null;
+  tags: string[];
+}): Promise<void> {
+  if (post.tags.length === 0) return;
+
+  const followers = await db
+    .select({ userId: hashtagFollows.userId, tag: hashtags.tag })
+    .from(hashtagFollows)
+    .innerJoin(hashtags, eq(hashtagFollows.hashtagId, hashtags.id))
+    .where(and(inArray(hashtags.tag, post.tags), ne(hashtagFollows.userId, post.authorId)));
+
+  const tagByFollower = new Map<string, string>();
+  for (const follower of followers) {
+    if (!tagByFollower.has(follower.userId)) tagByFollower.set(follower.userId, follower.tag);
+  }
+
+  const candidates = await filterRoomViewers(post.roomId, [...tagByFollower.keys()]);
+  const [blocked, muting] = await Promise.all([
+    fetchBlockedBetween(post.authorId, candidates),
+    fetchMutingNotificationsFrom(post.authorId, candidates),
+  ]);
+  const recipients = candidates.filter(id => !blocked.has(id) && !muting.has(id));
+
+  for (const userId of recipients) {
+    const tag = tagByFollower.get(userId)!;
+    await notify({
+      userId,
+      type: 'hashtag',
+      title: `New post in #${tag}`,
+      body: `There's a new post tagged #${tag}`,
+      data: { post_id: post.id, hashtag: tag },
+      channelId: 'social',
+    });
+  }
+}
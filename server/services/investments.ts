@@ -0,0 +1,44 @@
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Whole days left until an investment closes, never negative
+ */
+function calculateDaysRemaining(endDate: Date): number {
+  const now = new Date();
+  const diffTime = endDate.getTime() - now.getTime();
+  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  return Math.max(0, diffDays);
+}
+
+/**
+ * Format an investment for API responses
+ */
+export function formatInvestment(inv: any) {
+  return {
+    id: inv.id,
+    name: inv.name,
+    description: inv.description,
+    longDescription: inv.longDescription,
+    category: inv.category,
+    fundingGoal: parseFloat(inv.fundingGoal),
+    fundingCurrent: parseFloat(inv.fundingCurrent),
+    minimumInvestment: parseFloat(inv.minimumInvestment),
+    expectedROI:
+      inv.expectedRoiMin && inv.expectedRoiMax
+        ? `${inv.expectedRoiMin}-${inv.expectedRoiMax}%`
+        : inv.expectedRoiMin
+          ? `${inv.expectedRoiMin}%+`
+          : 'TBD',
+    riskLevel: inv.riskLevel,
+    status: inv.status,
+    imageUrl: inv.imageUrl,
+    daysRemaining: calculateDaysRemaining(new Date(inv.endDate)),
+    startDate: inv.startDate,
+    endDate: inv.endDate,
+    investors: inv.investorCount,
+    createdAt: inv.createdAt,
+    updatedAt: inv.updatedAt,
+  };
+}
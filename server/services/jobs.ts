@@ -0,0 +1,70 @@
+import { alertClosingDeals, DEAL_ALERT_CHECK_INTERVAL_MS, sendDealDigests } from './dealAlerts';
+import { closeExpiredDeals, DEAL_CLOSE_CHECK_INTERVAL_MS } from './deals';
+import { notifyFinishedPolls, RESULTS_CHECK_INTERVAL_MS } from './polls';
+import { ARCHIVE_CHECK_INTERVAL_MS, archiveInactiveRooms } from './roomProposals';
+import { PUBLISH_CHECK_INTERVAL_MS, publishDuePosts } from './scheduledPosts';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A recurring background task. Jobs keep their state in the database, so a
+ * run that is missed while the server is down is picked up by the next one.
+ */
+interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const JOBS: Job[] = [
+  { name: 'Poll results', intervalMs: RESULTS_CHECK_INTERVAL_MS, run: () => notifyFinishedPolls() },
+  { name: 'Scheduled posts', intervalMs: PUBLISH_CHECK_INTERVAL_MS, run: () => publishDuePosts() },
+  {
+    name: 'Room archival',
+    intervalMs: ARCHIVE_CHECK_INTERVAL_MS,
+    run: () => archiveInactiveRooms(),
+  },
+  {
+    name: 'Deal closing',
+    intervalMs: DEAL_CLOSE_CHECK_INTERVAL_MS,
+    run: () => closeExpiredDeals(),
+  },
+  {
+    name: 'Deal deadlines',
+    intervalMs: DEAL_ALERT_CHECK_INTERVAL_MS,
+    run: () => alertClosingDeals(),
+  },
+  { name: 'Deal digests', intervalMs: DEAL_ALERT_CHECK_INTERVAL_MS, run: () => sendDealDigests() },
+];
+
+// ============================================
+// Scheduling
+// ============================================
+
+/**
+ * Start every background job. Each runs once straight away to catch up on
+ * anything that fell due during a restart, then on its interval. A run is
+ * skipped if the previous one is still going.
+ */
+export function startJobs(): NodeJS.Timeout[] {
+  return JOBS.map(job => {
+    let running = false;
+    const tick = () => {
+      if (running) return;
+      running = true;
+      job
+        .run()
+        .catch(error => console.error(`${job.name} job error:`, error))
+        .finally(() => {
+          running = false;
+        });
+    };
+
+    tick();
+    const timer = setInterval(tick, job.intervalMs);
+    timer.unref();
+    return timer;
+  });
+}
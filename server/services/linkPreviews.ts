@@ -0,0 +1,253 @@
+import { eq, inArray } from 'drizzle-orm';
+import { extractUrls } from '@medinvest/shared/utils';
+import { db, linkPreviews } from '../db';
+import { getLinkFetcher } from '../lib/link-fetcher';
+
+// ============================================
+// Types
+// ============================================
+
+export type LinkPreviewRow = typeof linkPreviews.$inferSelect;
+
+export interface LinkMetadata {
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+export interface FormattedLinkPreview {
+  url: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+// ============================================
+// Tuning
+// ============================================
+
+/** How long a fetched preview is reused before the page is fetched again */
+const PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** How long to wait before retrying a page that couldn't be unfurled */
+const FAILED_TTL_MS = 60 * 60 * 1000;
+
+const URL_MAX_LENGTH = 2048;
+const TITLE_MAX_LENGTH = 300;
+const DESCRIPTION_MAX_LENGTH = 500;
+const SITE_NAME_MAX_LENGTH = 200;
+
+// ============================================
+// URLs
+// ============================================
+
+/**
+ * Canonical form of a link found in text, used as the cache key. Trailing
+ * punctuation picked up from the surrounding sentence and fragments are
+ * dropped. Returns null for anything that isn't a plain http(s) URL.
+ */
+export function normalizeUrl(raw: string): string | null {
+  const trimmed = raw.replace(/[.,;:!?'")\]}>]+$/, '');
+  if (trimmed.length > URL_MAX_LENGTH) return null;
+
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The link a post or message is previewed with: its first valid URL
+ */
+export function firstLinkIn(content: string): string | null {
+  for (const raw of extractUrls(content)) {
+    const url = normalizeUrl(raw);
+    if (url) return url;
+  }
+  return null;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point =
+        code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return Number.isFinite(point) && point > 0 && point <= 0x10ffff
+        ? String.fromCodePoint(point)
+        : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function clean(value: string | undefined, maxLength: number): string | null {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  return text ? text.slice(0, maxLength) : null;
+}
+
+/**
+ * Read OpenGraph and Twitter card metadata from a page, falling back to the
+ * title and description tags. Relative image URLs are resolved against the
+ * page and anything that isn't http(s) is dropped.
+ */
+export function parseLinkMetadata(html: string, pageUrl: string): LinkMetadata {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta = new Map<string, string>();
+  for (const [tag] of head.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = new Map<string, string>();
+    for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+      attributes.set(match[1].toLowerCase(), match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    const key = (attributes.get('property') ?? attributes.get('name'))?.toLowerCase();
+    const content = attributes.get('content');
+    if (key && content && !meta.has(key)) meta.set(key, content);
+  }
+
+  const first = (...keys: string[]) => keys.map(key => meta.get(key)).find(Boolean);
+  const titleTag = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  let imageUrl: string | null = null;
+  const image = first(
+    'og:image:secure_url',
+    'og:image',
+    'og:image:url',
+    'twitter:image',
+    'twitter:image:src'
+  );
+  if (image) {
+    try {
+      const resolved = new URL(decodeEntities(image.trim()), pageUrl);
+      if (resolved.protocol === 'https:' || resolved.protocol === 'http:') {
+        imageUrl = resolved.toString().slice(0, URL_MAX_LENGTH);
+      }
+    } catch {
+      imageUrl = null;
+    }
+  }
+
+  return {
+    title: clean(first('og:title', 'twitter:title') ?? titleTag, TITLE_MAX_LENGTH),
+    description: clean(
+      first('og:description', 'twitter:description', 'description'),
+      DESCRIPTION_MAX_LENGTH
+    ),
+    imageUrl,
+    siteName:
+      clean(first('og:site_name', 'application-name'), SITE_NAME_MAX_LENGTH) ??
+      new URL(pageUrl).hostname.replace(/^www\./, ''),
+  };
+}
+
+// ============================================
+// Unfurling
+// ============================================
+
+// Fetches already under way, so a burst of posts linking one page fetches it once
+const inFlight = new Map<string, Promise<FormattedLinkPreview | null>>();
+
+function isFresh(row: LinkPreviewRow, now: number): boolean {
+  return now - row.fetchedAt.getTime() < (row.failed ? FAILED_TTL_MS : PREVIEW_TTL_MS);
+}
+
+async function fetchAndStore(url: string): Promise<FormattedLinkPreview | null> {
+  const page = await getLinkFetcher().fetch(url);
+  const metadata = page ? parseLinkMetadata(page.html, page.url) : null;
+  const values = {
+    finalUrl: page?.url ?? null,
+    title: metadata?.title ?? null,
+    description: metadata?.description ?? null,
+    imageUrl: metadata?.imageUrl ?? null,
+    siteName: metadata?.siteName ?? null,
+    // A page without a title has nothing worth showing
+    failed: !metadata?.title,
+    fetchedAt: new Date(),
+  };
+
+  const [row] = await db
+    .insert(linkPreviews)
+    .values({ url, ...values })
+    .onConflictDoUpdate({ target: linkPreviews.url, set: values })
+    .returning();
+  return formatLinkPreview(row);
+}
+
+/**
+ * Preview for a normalized URL, from the cache when fresh and otherwise
+ * fetched now. Returns null if the page can't be unfurled.
+ */
+export async function unfurlLink(url: string): Promise<FormattedLinkPreview | null> {
+  const [cached] = await db.select().from(linkPreviews).where(eq(linkPreviews.url, url)).limit(1);
+  if (cached && isFresh(cached, Date.now())) return formatLinkPreview(cached);
+
+  const pending = inFlight.get(url);
+  if (pending) return pending;
+
+  const request = fetchAndStore(url).finally(() => inFlight.delete(url));
+  inFlight.set(url, request);
+  return request;
+}
+
+/**
+ * Unfurl the link a post or message will be previewed with, so the preview
+ * is cached by the time it is read
+ */
+export async function unfurlLinkIn(content: string): Promise<void> {
+  const url = firstLinkIn(content);
+  if (url) await unfurlLink(url);
+}
+
+/**
+ * Cached previews for the given URLs, keyed by URL. Reads never fetch, so
+ * links that haven't been unfurled yet are simply missing.
+ */
+export async function fetchCachedPreviews(
+  urls: string[]
+): Promise<Map<string, FormattedLinkPreview>> {
+  const previews = new Map<string, FormattedLinkPreview>();
+  const unique = [...new Set(urls)];
+  if (unique.length === 0) return previews;
+
+  const rows = await db.select().from(linkPreviews).where(inArray(linkPreviews.url, unique));
+  for (const row of rows) {
+    const preview = formatLinkPreview(row);
+    if (preview) previews.set(row.url, preview);
+  }
+  return previews;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+export function formatLinkPreview(row: LinkPreviewRow): FormattedLinkPreview | null {
+  if (row.failed || !row.title) return null;
+  return {
+    url: row.url,
+    title: row.title,
+    description: row.description,
+    image_url: row.imageUrl,
+    site_name: row.siteName,
+  };
+}
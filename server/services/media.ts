@@ -0,0 +1,343 @@
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import sharp, { FormatEnum, Metadata } from 'sharp';
+import { encode as encodeBlurhash } from 'blurhash';
+import { LIMITS } from '@medinvest/shared/constants';
+import { db, mediaUploads } from '../db';
+import { getMediaStorage } from '../lib/media-storage';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================
+// Types
+// ============================================
+
+export type MediaRow = typeof mediaUploads.$inferSelect;
+export type MediaKind = MediaRow['kind'];
+
+/** A file multer has written to a temporary path */
+export interface UploadedFile {
+  path: string;
+  mimetype: string;
+  size: number;
+}
+
+export type StoreUploadResult = { media: MediaRow } | { error: string; status: number };
+
+/** Raised while processing to reject an upload with a message for the uploader */
+class MediaRejectedError extends Error {
+  constructor(
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+  }
+}
+
+// ============================================
+// Tuning
+// ============================================
+
+const MB = 1024 * 1024;
+
+/** Accepted upload types; image contents must decode as the listed format */
+const IMAGE_TYPES: Record<string, { format: keyof FormatEnum; ext: string }> = {
+  'image/jpeg': { format: 'jpeg', ext: 'jpg' },
+  'image/png': { format: 'png', ext: 'png' },
+  'image/webp': { format: 'webp', ext: 'webp' },
+};
+const VIDEO_TYPES: Record<string, { ext: string }> = {
+  'video/mp4': { ext: 'mp4' },
+  'video/quicktime': { ext: 'mov' },
+};
+
+export const MEDIA_MAX_BYTES = {
+  image: LIMITS.POST_IMAGE_MAX_MB * MB,
+  video: LIMITS.POST_VIDEO_MAX_MB * MB,
+};
+
+/** Images are downscaled so neither side exceeds this */
+const IMAGE_MAX_DIMENSION = 2048;
+/** Refuse decompression bombs before decoding them */
+const IMAGE_MAX_PIXELS = 50_000_000;
+const THUMBNAIL_WIDTH = 480;
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+
+const FFMPEG = process.env.FFMPEG_PATH || 'ffmpeg';
+const FFPROBE = process.env.FFPROBE_PATH || 'ffprobe';
+const FFMPEG_TIMEOUT_MS = 60 * 1000;
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Which kind of media a content type is, or null if it is not accepted
+ */
+export function mediaKindFor(mimetype: string): MediaKind | null {
+  if (mimetype in IMAGE_TYPES) return 'image';
+  if (mimetype in VIDEO_TYPES) return 'video';
+  return null;
+}
+
+// ============================================
+// Processing
+// ============================================
+
+interface ProcessedMedia {
+  body: Buffer;
+  ext: string;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  /** A still frame to build the thumbnail and blurhash from */
+  preview: Buffer;
+}
+
+/**
+ * Re-encode an image. Orientation is applied to the pixels and everything
+ * else in the EXIF block (camera, GPS location, timestamps) is dropped.
+ */
+async function processImage(file: UploadedFile): Promise<ProcessedMedia> {
+  const type = IMAGE_TYPES[file.mimetype];
+  const input = await fs.readFile(file.path);
+
+  let metadata: Metadata;
+  try {
+    metadata = await sharp(input, {
+      limitInputPixels: IMAGE_MAX_PIXELS,
+    }).metadata();
+  } catch {
+    throw new MediaRejectedError('File is not a valid image');
+  }
+  if (metadata.format !== type.format) {
+    throw new MediaRejectedError('File contents do not match its type');
+  }
+
+  // sharp writes no metadata unless asked to, so the output carries no EXIF
+  const { data, info } = await sharp(input, {
+    limitInputPixels: IMAGE_MAX_PIXELS,
+  })
+    .rotate()
+    .resize({
+      width: IMAGE_MAX_DIMENSION,
+      height: IMAGE_MAX_DIMENSION,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .toFormat(type.format, { quality: 85 })
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    body: data,
+    ext: type.ext,
+    mimeType: file.mimetype,
+    width: info.width,
+    height: info.height,
+    preview: data,
+  };
+}
+
+/**
+ * Copy a video without its metadata tracks (which can include GPS) and grab
+ * its first frame. Needs ffmpeg and ffprobe on the PATH.
+ */
+async function processVideo(file: UploadedFile): Promise<ProcessedMedia> {
+  const type = VIDEO_TYPES[file.mimetype];
+
+  let probe: {
+    streams?: { codec_type?: string; width?: number; height?: number }[];
+    format?: { duration?: string };
+  };
+  try {
+    const { stdout } = await execFileAsync(
+      FFPROBE,
+      [
+        '-v',
+        'error',
+        '-show_entries',
+        'format=duration:stream=codec_type,width,height',
+        '-of',
+        'json',
+        file.path,
+      ],
+      { timeout: FFMPEG_TIMEOUT_MS }
+    );
+    probe = JSON.parse(stdout);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new MediaRejectedError('Video uploads are not available right now', 503);
+    }
+    throw new MediaRejectedError('File is not a valid video');
+  }
+
+  const video = probe.streams?.find(stream => stream.codec_type === 'video');
+  if (!video) {
+    throw new MediaRejectedError('File is not a valid video');
+  }
+  if (Number(probe.format?.duration ?? 0) > LIMITS.POST_VIDEO_MAX_SECONDS) {
+    throw new MediaRejectedError(
+      `Videos can be at most ${LIMITS.POST_VIDEO_MAX_SECONDS} seconds long`
+    );
+  }
+
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-'));
+  try {
+    const strippedPath = path.join(workDir, `video.${type.ext}`);
+    const framePath = path.join(workDir, 'frame.png');
+
+    await execFileAsync(
+      FFMPEG,
+      [
+        '-v',
+        'error',
+        '-i',
+        file.path,
+        '-map',
+        '0:v',
+        '-map',
+        '0:a?',
+        '-map_metadata',
+        '-1',
+        '-map_chapters',
+        '-1',
+        '-c',
+        'copy',
+        '-movflags',
+        '+faststart',
+        strippedPath,
+      ],
+      { timeout: FFMPEG_TIMEOUT_MS }
+    );
+    await execFileAsync(FFMPEG, ['-v', 'error', '-i', strippedPath, '-frames:v', '1', framePath], {
+      timeout: FFMPEG_TIMEOUT_MS,
+    });
+
+    return {
+      body: await fs.readFile(strippedPath),
+      ext: type.ext,
+      mimeType: file.mimetype,
+      width: video.width ?? null,
+      height: video.height ?? null,
+      preview: await fs.readFile(framePath),
+    };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Small blurred placeholder clients can show while the full media loads
+ */
+async function computeBlurhash(preview: Buffer): Promise<string> {
+  const { data, info } = await sharp(preview)
+    .resize(32, 32, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return encodeBlurhash(
+    new Uint8ClampedArray(data),
+    info.width,
+    info.height,
+    BLURHASH_COMPONENTS.x,
+    BLURHASH_COMPONENTS.y
+  );
+}
+
+/**
+ * Validate, clean and store an uploaded file with its thumbnail.
+ * `origin` turns relative storage URLs into absolute ones so they can be
+ * used in Post.images. The temporary upload is always removed.
+ */
+export async function storeUpload(
+  ownerId: string,
+  file: UploadedFile,
+  origin: string
+): Promise<StoreUploadResult> {
+  try {
+    const kind = mediaKindFor(file.mimetype);
+    if (!kind) {
+      throw new MediaRejectedError('Unsupported file type', 415);
+    }
+    if (file.size > MEDIA_MAX_BYTES[kind]) {
+      throw new MediaRejectedError(
+        kind === 'image'
+          ? `Images can be at most ${LIMITS.POST_IMAGE_MAX_MB}MB`
+          : `Videos can be at most ${LIMITS.POST_VIDEO_MAX_MB}MB`,
+        413
+      );
+    }
+
+    const processed = kind === 'image' ? await processImage(file) : await processVideo(file);
+    const [thumbnail, blurhash] = await Promise.all([
+      sharp(processed.preview)
+        .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+        .webp({ quality: 70 })
+        .toBuffer(),
+      computeBlurhash(processed.preview),
+    ]);
+
+    const id = randomUUID();
+    const storageKey = `media/${ownerId}/${id}.${processed.ext}`;
+    const thumbnailKey = `media/${ownerId}/${id}_thumb.webp`;
+
+    const storage = getMediaStorage();
+    await Promise.all([
+      storage.put(storageKey, processed.body, processed.mimeType),
+      storage.put(thumbnailKey, thumbnail, 'image/webp'),
+    ]);
+
+    const [media] = await db
+      .insert(mediaUploads)
+      .values({
+        id,
+        ownerId,
+        kind,
+        mimeType: processed.mimeType,
+        storageKey,
+        url: new URL(storage.url(storageKey), origin).toString(),
+        thumbnailKey,
+        thumbnailUrl: new URL(storage.url(thumbnailKey), origin).toString(),
+        blurhash,
+        width: processed.width,
+        height: processed.height,
+        sizeBytes: processed.body.length,
+      })
+      .returning();
+
+    return { media };
+  } catch (error) {
+    if (error instanceof MediaRejectedError) {
+      return { error: error.message, status: error.status };
+    }
+    throw error;
+  } finally {
+    await fs.rm(file.path, { force: true });
+  }
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format an upload for API responses
+ */
+export function formatMedia(media: MediaRow) {
+  return {
+    id: media.id,
+    type: media.kind,
+    url: media.url,
+    thumbnail_url: media.thumbnailUrl,
+    blurhash: media.blurhash,
+    width: media.width,
+    height: media.height,
+    mime_type: media.mimeType,
+    size_bytes: media.sizeBytes,
+  };
+}
@@ -0,0 +1,214 @@
+import { and, eq, inArray, isNull, or, sql, SQL } from 'drizzle-orm';
+import { LIMITS } from '@medinvest/shared/constants';
+import { extractMentions } from '@medinvest/shared/utils';
+import { db, mentions, users } from '../db';
+import { ensurePseudonym } from './anonymity';
+import { fetchBlockedBetween, fetchMutingNotificationsFrom } from './blocks';
+import { notify } from './notifications';
+import { isUuid } from './posts';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A post or comment whose content may mention users
+ */
+export interface MentionSource {
+  postId: string;
+  commentId?: string | null;
+  authorId: string;
+  content: string;
+  isAnonymous: boolean;
+}
+
+export interface ResolvedMention {
+  userId: string;
+  handle: string;
+}
+
+export interface FormattedMention {
+  user_id: string;
+  username: string;
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * Resolve the @mentions in some content to users, by user id or by
+ * case-insensitive username. Unknown handles are dropped.
+ */
+export async function resolveMentions(content: string): Promise<ResolvedMention[]> {
+  const handles = extractMentions(content).slice(0, LIMITS.MENTIONS_MAX);
+  if (handles.length === 0) return [];
+
+  const ids = handles.filter(isUuid).map(id => id.toLowerCase());
+  const names = handles.filter(handle => !isUuid(handle)).map(handle => handle.toLowerCase());
+
+  const conditions: SQL[] = [];
+  if (ids.length > 0) conditions.push(inArray(users.id, ids));
+  if (names.length > 0) conditions.push(inArray(sql`lower(${users.username})`, names));
+
+  const rows = await db
+    .select({ id: users.id, username: users.username })
+    .from(users)
+    .where(or(...conditions));
+
+  const resolved: ResolvedMention[] = [];
+  for (const handle of handles) {
+    const key = handle.toLowerCase();
+    const user = isUuid(handle)
+      ? rows.find(row => row.id === key)
+      : rows.find(row => row.username?.toLowerCase() === key);
+    if (user && !resolved.some(mention => mention.userId === user.id)) {
+      resolved.push({ userId: user.id, handle });
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Replace the mentions stored for a post or comment with those in its
+ * current content. Returns the users who were not mentioned before, so
+ * edits only notify newly mentioned people.
+ */
+export async function syncMentions(source: MentionSource): Promise<string[]> {
+  const resolved = await resolveMentions(source.content);
+  const target = and(
+    eq(mentions.postId, source.postId),
+    source.commentId ? eq(mentions.commentId, source.commentId) : isNull(mentions.commentId)
+  );
+
+  return db.transaction(async tx => {
+    const previous = await tx
+      .select({ userId: mentions.mentionedUserId })
+      .from(mentions)
+      .where(target);
+    await tx.delete(mentions).where(target);
+
+    if (resolved.length > 0) {
+      await tx.insert(mentions).values(
+        resolved.map(mention => ({
+          postId: source.postId,
+          commentId: source.commentId ?? null,
+          mentionedUserId: mention.userId,
+          handle: mention.handle,
+        }))
+      );
+    }
+
+    const previousIds = new Set(previous.map(row => row.userId));
+    return resolved.map(mention => mention.userId).filter(id => !previousIds.has(id));
+  });
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+/**
+ * Notify users they were mentioned, skipping the author, anyone blocked
+ * either way and anyone muting the author's notifications. Anonymous
+ * authors are named only by their pseudonym.
+ */
+export async function notifyMentions(source: MentionSource, userIds: string[]): Promise<void> {
+  const candidates = userIds.filter(id => id !== source.authorId);
+  if (candidates.length === 0) return;
+
+  const [blocked, muting] = await Promise.all([
+    fetchBlockedBetween(source.authorId, candidates),
+    fetchMutingNotificationsFrom(source.authorId, candidates),
+  ]);
+  const recipients = candidates.filter(id => !blocked.has(id) && !muting.has(id));
+  if (recipients.length === 0) return;
+
+  let name: string;
+  if (source.isAnonymous) {
+    name = await ensurePseudonym(source.postId, source.authorId);
+  } else {
+    const [author] = await db
+      .select({ firstName: users.firstName, lastName: users.lastName })
+      .from(users)
+      .where(eq(users.id, source.authorId))
+      .limit(1);
+    name = [author?.firstName, author?.lastName].filter(Boolean).join(' ') || 'Someone';
+  }
+  const where = source.commentId ? 'a comment' : 'a post';
+
+  for (const userId of recipients) {
+    await notify({
+      userId,
+      type: 'mention',
+      title: 'You were mentioned',
+      body: `${name} mentioned you in ${where}`,
+      data: {
+        post_id: source.postId,
+        comment_id: source.commentId ?? undefined,
+        user_id: source.isAnonymous ? undefined : source.authorId,
+      },
+      channelId: 'social',
+    });
+  }
+}
+
+/**
+ * Store a post or comment's mentions and notify anyone newly mentioned
+ */
+export async function recordMentions(source: MentionSource): Promise<void> {
+  const mentioned = await syncMentions(source);
+  await notifyMentions(source, mentioned);
+}
+
+// ============================================
+// Queries
+// ============================================
+
+function formatMention(row: { userId: string; handle: string }): FormattedMention {
+  return { user_id: row.userId, username: row.handle };
+}
+
+/**
+ * Mentions in the body of each post, keyed by post id
+ */
+export async function fetchPostMentions(
+  postIds: string[]
+): Promise<Map<string, FormattedMention[]>> {
+  const byPost = new Map<string, FormattedMention[]>();
+  if (postIds.length === 0) return byPost;
+
+  const rows = await db
+    .select({ postId: mentions.postId, userId: mentions.mentionedUserId, handle: mentions.handle })
+    .from(mentions)
+    .where(and(inArray(mentions.postId, postIds), isNull(mentions.commentId)));
+
+  for (const row of rows) {
+    byPost.set(row.postId, [...(byPost.get(row.postId) ?? []), formatMention(row)]);
+  }
+  return byPost;
+}
+
+/**
+ * Mentions in each comment, keyed by comment id
+ */
+export async function fetchCommentMentions(
+  commentIds: string[]
+): Promise<Map<string, FormattedMention[]>> {
+  const byComment = new Map<string, FormattedMention[]>();
+  if (commentIds.length === 0) return byComment;
+
+  const rows = await db
+    .select({
+      commentId: mentions.commentId,
+      userId: mentions.mentionedUserId,
+      handle: mentions.handle,
+    })
+    .from(mentions)
+    .where(inArray(mentions.commentId, commentIds));
+
+  for (const row of rows) {
+    byComment.set(row.commentId!, [...(byComment.get(row.commentId!) ?? []), formatMention(row)]);
+  }
+  return byComment;
+}
@@ -0,0 +1,70 @@
+import { db, notifications } from '../db';
+import { pushNotificationService } from '../lib/push-notifications';
+
+// ============================================
+// Types
+// ============================================
+
+export type NotificationType = (typeof notifications.$inferInsert)['type'];
+
+export type NotificationRow = typeof notifications.$inferSelect;
+
+export interface NewNotification {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  /** Push channel on the device; defaults to 'default' */
+  channelId?: string;
+}
+
+// ============================================
+// Sending
+// ============================================
+
+/**
+ * Store an in-app notification and push it to the user's devices.
+ * Push delivery is best effort and never fails the caller.
+ */
+export async function notify(notification: NewNotification): Promise<void> {
+  await db.insert(notifications).values({
+    userId: notification.userId,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    data: JSON.stringify(notification.data || {}),
+  });
+
+  pushNotificationService
+    .deliver(notification.userId, notification.title, notification.body, notification.data, {
+      channelId: notification.channelId,
+    })
+    .catch(error => console.error('Push delivery error:', error));
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format a notification for API responses
+ */
+export function formatNotification(notification: NotificationRow) {
+  let data: Record<string, unknown> = {};
+  try {
+    data = notification.data ? JSON.parse(notification.data) : {};
+  } catch {
+    data = {};
+  }
+
+  return {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    data,
+    is_read: notification.read,
+    created_at: notification.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,133 @@
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { LIMITS } from '@medinvest/shared/constants';
+import { db, pinnedPosts, posts, users } from '../db';
+import type { PostWithAuthor } from './posts';
+import { getJoinedRoomIds, visibleRoomPostsCondition } from './rooms';
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Fetch the posts a user has pinned, in the order they chose, leaving out
+ * posts in private rooms the viewer has not joined
+ */
+export async function fetchPinnedPosts(
+  userId: string,
+  viewerId: string | undefined
+): Promise<PostWithAuthor[]> {
+  const joinedRoomIds = await getJoinedRoomIds(viewerId);
+  return (
+    db
+      .select({
+        post: posts,
+        author: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          avatarUrl: users.avatarUrl,
+          isVerified: users.isVerified,
+        },
+      })
+      .from(pinnedPosts)
+      .innerJoin(posts, eq(pinnedPosts.postId, posts.id))
+      .innerJoin(users, eq(posts.authorId, users.id))
+      // Pins of anonymous posts are refused, but never let one unmask its author
+      .where(
+        and(
+          eq(pinnedPosts.userId, userId),
+          eq(posts.isAnonymous, false),
+          visibleRoomPostsCondition(joinedRoomIds)
+        )
+      )
+      .orderBy(asc(pinnedPosts.position), asc(pinnedPosts.createdAt))
+  );
+}
+
+/**
+ * Which of the given posts are pinned to their author's profile
+ */
+export async function fetchPinnedPostIds(postIds: string[]): Promise<Set<string>> {
+  if (postIds.length === 0) return new Set();
+
+  const rows = await db
+    .select({ postId: pinnedPosts.postId })
+    .from(pinnedPosts)
+    .where(inArray(pinnedPosts.postId, postIds));
+
+  return new Set(rows.map(row => row.postId));
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+export type PinResult = 'pinned' | 'limit_reached';
+
+/**
+ * Pin a post to the end of a user's pinned list. Pinning an already pinned
+ * post is a no-op. The user row is locked so concurrent pins cannot exceed
+ * the limit.
+ */
+export async function pinPost(userId: string, postId: string): Promise<PinResult> {
+  return db.transaction(async tx => {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+
+    const pins = await tx
+      .select({ postId: pinnedPosts.postId, position: pinnedPosts.position })
+      .from(pinnedPosts)
+      .where(eq(pinnedPosts.userId, userId));
+
+    if (pins.some(pin => pin.postId === postId)) return 'pinned';
+    if (pins.length >= LIMITS.PINNED_POSTS_MAX) return 'limit_reached';
+
+    await tx.insert(pinnedPosts).values({
+      userId,
+      postId,
+      position: Math.max(-1, ...pins.map(pin => pin.position)) + 1,
+    });
+    return 'pinned';
+  });
+}
+
+/**
+ * Remove a post from a user's pinned list
+ */
+export async function unpinPost(userId: string, postId: string): Promise<void> {
+  await db
+    .delete(pinnedPosts)
+    .where(and(eq(pinnedPosts.userId, userId), eq(pinnedPosts.postId, postId)));
+}
+
+/**
+ * Set the order of a user's pins. postIds must list exactly the posts that
+ * are currently pinned; returns false otherwise.
+ */
+export async function reorderPins(userId: string, postIds: string[]): Promise<boolean> {
+  return db.transaction(async tx => {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+
+    const pins = await tx
+      .select({ postId: pinnedPosts.postId })
+      .from(pinnedPosts)
+      .where(eq(pinnedPosts.userId, userId));
+
+    const pinned = new Set(pins.map(pin => pin.postId));
+    if (
+      postIds.length !== pinned.size ||
+      new Set(postIds).size !== postIds.length ||
+      !postIds.every(id => pinned.has(id))
+    ) {
+      return false;
+    }
+
+    // At most PINNED_POSTS_MAX rows, so one update per pin is fine
+    for (const [position, postId] of postIds.entries()) {
+      await tx
+        .update(pinnedPosts)
+        .set({ position })
+        .where(and(eq(pinnedPosts.userId, userId), eq(pinnedPosts.postId, postId)));
+    }
+    return true;
+  });
+}
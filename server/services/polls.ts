@@ -0,0 +1,288 @@
+import { and, asc, eq, gt, inArray, isNull, lte, or, sql, TransactionRollbackError } from 'drizzle-orm';
+import type { CreatePostInput } from '@medinvest/shared/validators';
+import type { PollDuration } from '@medinvest/shared/types';
+import { db, pollOptions, polls, pollVoteOptions, pollVotes } from '../db';
+import { notify } from './notifications';
+
+// ============================================
+// Types
+// ============================================
+
+export type PollRow = typeof polls.$inferSelect;
+export type PollOptionRow = typeof pollOptions.$inferSelect;
+export type PollInput = NonNullable<CreatePostInput['poll']>;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface PollWithOptions {
+  poll: PollRow;
+  options: PollOptionRow[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const POLL_DURATIONS_MS: Record<PollDuration, number | null> = {
+  '1day': 24 * HOUR_MS,
+  '3days': 3 * 24 * HOUR_MS,
+  '7days': 7 * 24 * HOUR_MS,
+  none: null,
+};
+
+/** How often finished polls are checked for results to send out */
+export const RESULTS_CHECK_INTERVAL_MS = 60 * 1000;
+
+/** Finished polls handled per check */
+const RESULTS_BATCH_SIZE = 20;
+
+// ============================================
+// Creating and Voting
+// ============================================
+
+/**
+ * Create a poll for a post inside the post's transaction.
+ * The close time is fixed here from the duration so clients cannot extend it.
+ */
+export async function createPoll(
+  tx: Transaction,
+  postId: string,
+  input: PollInput,
+  now: Date
+): Promise<void> {
+  const duration = input.duration ?? 'none';
+  const durationMs = POLL_DURATIONS_MS[duration];
+
+  const [poll] = await tx
+    .insert(polls)
+    .values({
+      postId,
+      question: input.question.trim(),
+      duration,
+      allowMultiple: input.allow_multiple ?? false,
+      isAnonymous: input.is_anonymous ?? false,
+      endsAt: durationMs === null ? null : new Date(now.getTime() + durationMs),
+      createdAt: now,
+    })
+    .returning({ id: polls.id });
+
+  await tx.insert(pollOptions).values(
+    input.options.map((text, position) => ({ pollId: poll.id, text: text.trim(), position }))
+  );
+}
+
+export type CastVoteResult = 'voted' | 'already_voted' | 'closed';
+
+/**
+ * Record a user's ballot. The unique ballot index rejects second votes and the
+ * close time is re-checked inside the transaction so late votes cannot slip in.
+ * Callers must check the options belong to the poll.
+ */
+export async function castVote(
+  pollId: string,
+  userId: string,
+  optionIds: string[]
+): Promise<CastVoteResult> {
+  try {
+    return await db.transaction(async (tx) => {
+      const [vote] = await tx
+        .insert(pollVotes)
+        .values({ pollId, userId })
+        .onConflictDoNothing()
+        .returning({ id: pollVotes.id });
+
+      if (!vote) return 'already_voted';
+
+      const [open] = await tx
+        .update(polls)
+        .set({ votesCount: sql`${polls.votesCount} + 1` })
+        .where(and(eq(polls.id, pollId), or(isNull(polls.endsAt), gt(polls.endsAt, new Date()))))
+        .returning({ id: polls.id });
+
+      if (!open) tx.rollback();
+
+      await tx
+        .insert(pollVoteOptions)
+        .values(optionIds.map(optionId => ({ voteId: vote.id, optionId })));
+      await tx
+        .update(pollOptions)
+        .set({ votesCount: sql`${pollOptions.votesCount} + 1` })
+        .where(inArray(pollOptions.id, optionIds));
+
+      return 'voted';
+    });
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) return 'closed';
+    throw error;
+  }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Whether a poll has passed its close time
+ */
+export function isPollClosed(poll: PollRow, now = new Date()): boolean {
+  return poll.endsAt !== null && poll.endsAt <= now;
+}
+
+/**
+ * Fetch a poll by id with its options in display order
+ */
+export async function fetchPoll(pollId: string): Promise<PollWithOptions | null> {
+  const [poll] = await db.select().from(polls).where(eq(polls.id, pollId)).limit(1);
+  if (!poll) return null;
+
+  const options = await db
+    .select()
+    .from(pollOptions)
+    .where(eq(pollOptions.pollId, pollId))
+    .orderBy(asc(pollOptions.position));
+
+  return { poll, options };
+}
+
+/**
+ * Fetch the polls attached to posts, formatted for the viewer, keyed by post id
+ */
+export async function fetchPollsForPosts(
+  postIds: string[],
+  viewerId?: string
+): Promise<Map<string, ReturnType<typeof formatPoll>>> {
+  const result = new Map<string, ReturnType<typeof formatPoll>>();
+  if (postIds.length === 0) return result;
+
+  const pollRows = await db.select().from(polls).where(inArray(polls.postId, postIds));
+  if (pollRows.length === 0) return result;
+
+  const pollIds = pollRows.map(poll => poll.id);
+  const [optionRows, viewerVotes] = await Promise.all([
+    db
+      .select()
+      .from(pollOptions)
+      .where(inArray(pollOptions.pollId, pollIds))
+      .orderBy(asc(pollOptions.position)),
+    fetchViewerVotes(pollIds, viewerId),
+  ]);
+
+  for (const poll of pollRows) {
+    const options = optionRows.filter(option => option.pollId === poll.id);
+    result.set(poll.postId, formatPoll({ poll, options }, viewerVotes.get(poll.id) ?? null));
+  }
+  return result;
+}
+
+/**
+ * Look up the options the viewer chose in each poll they voted in
+ */
+export async function fetchViewerVotes(
+  pollIds: string[],
+  viewerId?: string
+): Promise<Map<string, string[]>> {
+  const votes = new Map<string, string[]>();
+  if (!viewerId || pollIds.length === 0) return votes;
+
+  const rows = await db
+    .select({ pollId: pollVotes.pollId, optionId: pollVoteOptions.optionId })
+    .from(pollVotes)
+    .innerJoin(pollVoteOptions, eq(pollVoteOptions.voteId, pollVotes.id))
+    .where(and(eq(pollVotes.userId, viewerId), inArray(pollVotes.pollId, pollIds)));
+
+  for (const row of rows) {
+    votes.set(row.pollId, [...(votes.get(row.pollId) ?? []), row.optionId]);
+  }
+  return votes;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format a poll for API responses. Per-option results are only included once
+ * the viewer has voted or the poll has closed.
+ */
+export function formatPoll({ poll, options }: PollWithOptions, viewerVote: string[] | null) {
+  const isClosed = isPollClosed(poll);
+  const hasVoted = viewerVote !== null;
+  const resultsVisible = hasVoted || isClosed;
+
+  return {
+    id: poll.id,
+    question: poll.question,
+    options: options.map(option => ({
+      id: option.id,
+      text: option.text,
+      ...(resultsVisible
+        ? {
+            votes: option.votesCount,
+            // Share of voters, so multi-choice percentages can add up to more than 100
+            percentage:
+              poll.votesCount > 0 ? Math.round((option.votesCount / poll.votesCount) * 100) : 0,
+          }
+        : {}),
+    })),
+    total_votes: poll.votesCount,
+    duration: poll.duration,
+    ends_at: poll.endsAt?.toISOString(),
+    is_closed: isClosed,
+    has_voted: hasVoted,
+    user_vote: viewerVote?.[0],
+    user_votes: viewerVote ?? [],
+    results_visible: resultsVisible,
+    allow_multiple: poll.allowMultiple,
+    is_anonymous: poll.isAnonymous,
+  };
+}
+
+// ============================================
+// Final Results
+// ============================================
+
+/**
+ * Send final results to everyone who voted in polls that have closed.
+ * Each poll is claimed before sending so results go out once even if several
+ * servers run this at the same time or it runs again after a restart.
+ */
+export async function notifyFinishedPolls(now = new Date()): Promise<number> {
+  const finished = await db
+    .select({ id: polls.id })
+    .from(polls)
+    .where(and(lte(polls.endsAt, now), isNull(polls.resultsNotifiedAt)))
+    .limit(RESULTS_BATCH_SIZE);
+
+  let notified = 0;
+  for (const { id } of finished) {
+    const [claimed] = await db
+      .update(polls)
+      .set({ resultsNotifiedAt: now })
+      .where(and(eq(polls.id, id), isNull(polls.resultsNotifiedAt)))
+      .returning();
+    if (!claimed) continue;
+
+    const item = await fetchPoll(id);
+    if (!item) continue;
+
+    const voters = await db
+      .select({ userId: pollVotes.userId })
+      .from(pollVotes)
+      .where(eq(pollVotes.pollId, id));
+    if (voters.length === 0) continue;
+
+    const winner = [...item.options].sort((a, b) => b.votesCount - a.votesCount)[0];
+    for (const voter of voters) {
+      await notify({
+        userId: voter.userId,
+        type: 'poll_results',
+        title: 'Poll results are in',
+        body: winner
+          ? `"${item.poll.question}" has closed. Top answer: ${winner.text}`
+          : `"${item.poll.question}" has closed.`,
+        data: { post_id: item.poll.postId, poll_id: id },
+        channelId: 'social',
+      });
+    }
+    notified++;
+  }
+  return notified;
+}
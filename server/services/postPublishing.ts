@@ -0,0 +1,100 @@
+import type { CreatePostInput } from '@medinvest/shared/validators';
+import { extractHashtags, extractMentions } from '@medinvest/shared/utils';
+import { db, posts } from '../db';
+import { ensurePseudonym } from './anonymity';
+import { notifyHashtagFollowers } from './hashtags';
+import { unfurlLinkIn } from './linkPreviews';
+import { recordMentions } from './mentions';
+import { createPoll } from './polls';
+import type { PostRow } from './posts';
+import { syncHashtagUsages } from './trending';
+
+// ============================================
+// Types
+// ============================================
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// ============================================
+// Publishing
+// ============================================
+
+/**
+ * Insert a post with its poll and, for anonymous posts, the author's
+ * pseudonym. Runs inside the caller's transaction so scheduled posts can be
+ * published and marked done together. Reposts pass the original's id.
+ */
+export async function insertPost(
+  tx: Transaction,
+  authorId: string,
+  input: CreatePostInput,
+  now: Date,
+  repostOfId: string | null = null
+): Promise<PostRow> {
+  const { content, room_id, is_anonymous = false, images = [], video_url, poll } = input;
+
+  const [post] = await tx
+    .insert(posts)
+    .values({
+      authorId,
+      roomId: room_id ?? null,
+      content: content.trim(),
+      images: JSON.stringify(images),
+      videoUrl: video_url ?? null,
+      hashtags: JSON.stringify(extractHashtags(content)),
+      mentions: JSON.stringify(extractMentions(content)),
+      isAnonymous: is_anonymous,
+      repostOfId,
+      isRepost: repostOfId !== null,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  if (poll) {
+    await createPoll(tx, post.id, poll, now);
+  }
+  if (is_anonymous) {
+    await ensurePseudonym(post.id, authorId, tx);
+  }
+  return post;
+}
+
+/**
+ * Index a new post's hashtags, then unfurl its link and tell hashtag
+ * followers and mentioned users about it in the background
+ */
+export async function announcePost(post: PostRow): Promise<void> {
+  await syncHashtagUsages({
+    postId: post.id,
+    roomId: post.roomId,
+    content: post.content,
+    createdAt: post.createdAt,
+  });
+  notifyHashtagFollowers({
+    id: post.id,
+    authorId: post.authorId,
+    roomId: post.roomId,
+    tags: extractHashtags(post.content),
+  }).catch(error => console.error('Hashtag notification error:', error));
+  recordMentions({
+    postId: post.id,
+    authorId: post.authorId,
+    content: post.content,
+    isAnonymous: post.isAnonymous,
+  }).catch(error => console.error('Mention notification error:', error));
+  unfurlLinkIn(post.content).catch(error => console.error('Link preview error:', error));
+}
+
+/**
+ * Create and announce a post straight away
+ */
+export async function publishPost(
+  authorId: string,
+  input: CreatePostInput,
+  now = new Date()
+): Promise<PostRow> {
+  const post = await db.transaction(tx => insertPost(tx, authorId, input, now));
+  await announcePost(post);
+  return post;
+}
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffWords } from '@medinvest/shared/utils';
+import { formatRevision, type PostRevisionRow } from './postRevisions';
+
+const editedAt = new Date('2026-03-01T12:00:00.000Z');
+
+function revision(overrides: Partial<PostRevisionRow> = {}): PostRevisionRow {
+  const previousContent = 'Series A closes Friday';
+  const content = 'Series A closes Monday';
+  return {
+    id: '3f6e1d2c-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+    postId: '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d',
+    editorId: '9b2c5c3e-8f1a-4b6d-9e2f-1a2b3c4d5e6f',
+    previousContent,
+    content,
+    diff: JSON.stringify(diffWords(previousContent, content)),
+    createdAt: editedAt,
+    ...overrides,
+  };
+}
+
+/** The text on one side of an edit, rebuilt from its diff */
+function side(diff: { op: string; text: string }[], skip: 'insert' | 'delete') {
+  return diff
+    .filter(segment => segment.op !== skip)
+    .map(segment => segment.text)
+    .join('');
+}
+
+describe('formatRevision', () => {
+  it('gives the author and moderators the stored diff and both versions', () => {
+    assert.deepEqual(formatRevision(revision(), { includeContent: true }), {
+      id: revision().id,
+      edited_at: editedAt.toISOString(),
+      diff: [
+        { op: 'equal', text: 'Series A closes ' },
+        { op: 'delete', text: 'Friday' },
+        { op: 'insert', text: 'Monday' },
+      ],
+      previous_content: 'Series A closes Friday',
+      content: 'Series A closes Monday',
+    });
+  });
+
+  it('only tells other viewers when the post was edited', () => {
+    assert.deepEqual(formatRevision(revision(), { includeContent: false }), {
+      id: revision().id,
+      edited_at: editedAt.toISOString(),
+    });
+  });
+
+  it('shows the whole text as replaced for revisions stored without a diff', () => {
+    const { diff } = formatRevision(revision({ diff: null }), { includeContent: true });
+    assert.deepEqual(diff, [
+      { op: 'delete', text: 'Series A closes Friday' },
+      { op: 'insert', text: 'Series A closes Monday' },
+    ]);
+  });
+});
+
+describe('diffWords', () => {
+  it('reproduces both versions of the text', () => {
+    const before = 'Raising $2M at a $10M cap.\n\nDeck in comments.';
+    const after = 'Raising $3M at a $12M cap, closing soon.\n\nDeck in comments.';
+    const diff = diffWords(before, after);
+    assert.equal(side(diff, 'insert'), before);
+    assert.equal(side(diff, 'delete'), after);
+  });
+
+  it('replaces a large changed region whole instead of comparing every word', () => {
+    const words = (prefix: string) =>
+      Array.from({ length: 2000 }, (_, i) => `${prefix}${i}`).join(' ');
+    const before = `Update: ${words('old')} Thanks`;
+    const after = `Update: ${words('new')} Thanks`;
+    assert.deepEqual(diffWords(before, after), [
+      { op: 'equal', text: 'Update: ' },
+      { op: 'delete', text: words('old') },
+      { op: 'insert', text: words('new') },
+      { op: 'equal', text: ' Thanks' },
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { asc, eq } from 'drizzle-orm';
+import type { TextDiffSegment } from '@medinvest/shared/types';
+import { diffWords, extractHashtags, extractMentions } from '@medinvest/shared/utils';
+import { db, postRevisions, posts } from '../db';
+
+// ============================================
+// Types
+// ============================================
+
+export type PostRevisionRow = typeof postRevisions.$inferSelect;
+
+// ============================================
+// Mutations
+// ============================================
+
+/**
+ * Replace a post's content, recording the edit as a revision along with its
+ * diff, so reading the history never has to recompute it.
+ * Returns false when the content did not change and nothing was stored.
+ */
+export async function editPostContent(
+  post: typeof posts.$inferSelect,
+  editorId: string,
+  content: string
+): Promise<boolean> {
+  if (content === post.content) return false;
+
+  const now = new Date();
+  await db.transaction(async (tx) => {
+    await tx.insert(postRevisions).values({
+      postId: post.id,
+      editorId,
+      previousContent: post.content,
+      content,
+      diff: JSON.stringify(diffWords(post.content, content)),
+      createdAt: now,
+    });
+
+    await tx
+      .update(posts)
+      .set({
+        content,
+        hashtags: JSON.stringify(extractHashtags(content)),
+        mentions: JSON.stringify(extractMentions(content)),
+        editedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(posts.id, post.id));
+  });
+  return true;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Fetch every revision of a post, oldest first
+ */
+export function fetchRevisions(postId: string): Promise<PostRevisionRow[]> {
+  return db
+    .select()
+    .from(postRevisions)
+    .where(eq(postRevisions.postId, postId))
+    .orderBy(asc(postRevisions.createdAt), asc(postRevisions.id));
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * The stored diff of a revision. Revisions saved before diffs were stored
+ * show the whole text as replaced.
+ */
+function revisionDiff(revision: PostRevisionRow): TextDiffSegment[] {
+  if (revision.diff) {
+    try {
+      return JSON.parse(revision.diff);
+    } catch {
+      // Fall through to the whole-text diff
+    }
+  }
+  const replaced: TextDiffSegment[] = [
+    { op: 'delete', text: revision.previousContent },
+    { op: 'insert', text: revision.content },
+  ];
+  return replaced.filter(segment => segment.text.length > 0);
+}
+
+/**
+ * Format a revision for API responses. Everyone sees when the post was
+ * edited; what changed, including the text on either side of the edit, is
+ * only included when requested.
+ */
+export function formatRevision(revision: PostRevisionRow, options: { includeContent: boolean }) {
+  return {
+    id: revision.id,
+    edited_at: revision.createdAt.toISOString(),
+    ...(options.includeContent
+      ? {
+          diff: revisionDiff(revision),
+          previous_content: revision.previousContent,
+          content: revision.content,
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,97 @@
+import { and, inArray } from 'drizzle-orm';
+import { posts } from '../db';
+import { fetchPseudonyms, pseudonymKey } from './anonymity';
+import { fetchCachedPreviews, firstLinkIn } from './linkPreviews';
+import { fetchPostMentions } from './mentions';
+import { fetchPinnedPostIds } from './pins';
+import { fetchPollsForPosts } from './polls';
+import { fetchPostPage, fetchUserVotes, formatPost, PostWithAuthor } from './posts';
+import { fetchReactionSummaries } from './reactions';
+import { fetchRepostedIds } from './reposts';
+import { fetchRoomsByIds, formatRoom, getJoinedRoomIds, visibleRoomPostsCondition } from './rooms';
+import { fetchSavedItemIds } from './savedItems';
+
+/**
+ * Originals of the reposts among the given posts, formatted for the viewer
+ * and keyed by id. Originals are not expanded any further, and those in
+ * private rooms the viewer has not joined are left out.
+ */
+async function fetchOriginals(
+  items: PostWithAuthor[],
+  viewerId?: string
+): Promise<Map<string, object>> {
+  const ids = [
+    ...new Set(items.map(item => item.post.repostOfId).filter((id): id is string => id !== null)),
+  ];
+  if (ids.length === 0) return new Map();
+
+  const joinedRoomIds = await getJoinedRoomIds(viewerId);
+  const page = await fetchPostPage(
+    and(inArray(posts.id, ids), visibleRoomPostsCondition(joinedRoomIds)),
+    null,
+    ids.length
+  );
+  const originals = await formatPostsForViewer(page.items, viewerId, { expandReposts: false });
+  return new Map(originals.map(original => [original.id, original]));
+}
+
+/**
+ * Format posts for a viewer, attaching rooms, reactions, polls, anonymous
+ * pseudonyms, pin state, mentions, link previews, reposted originals and the
+ * viewer's votes, bookmarks and reposts
+ */
+export async function formatPostsForViewer(
+  items: PostWithAuthor[],
+  viewerId?: string,
+  { expandReposts = true }: { expandReposts?: boolean } = {}
+) {
+  const postIds = items.map(item => item.post.id);
+  const links = items.map(item => firstLinkIn(item.post.content));
+  const [
+    votes,
+    reactions,
+    pollsByPost,
+    pseudonyms,
+    pinnedIds,
+    mentions,
+    previews,
+    savedIds,
+    repostedIds,
+    originals,
+    roomsById,
+    joinedRoomIds,
+  ] = await Promise.all([
+    fetchUserVotes(viewerId, postIds),
+    fetchReactionSummaries('post', postIds, viewerId),
+    fetchPollsForPosts(postIds, viewerId),
+    fetchPseudonyms(
+      items
+        .filter(item => item.post.isAnonymous)
+        .map(item => ({ postId: item.post.id, userId: item.post.authorId }))
+    ),
+    fetchPinnedPostIds(postIds),
+    fetchPostMentions(postIds),
+    fetchCachedPreviews(links.filter((link): link is string => link !== null)),
+    fetchSavedItemIds(viewerId, 'post', postIds),
+    fetchRepostedIds(viewerId, postIds),
+    expandReposts ? fetchOriginals(items, viewerId) : new Map<string, object>(),
+    fetchRoomsByIds(items.map(item => item.post.roomId).filter((id): id is number => id !== null)),
+    getJoinedRoomIds(viewerId),
+  ]);
+  return items.map((item, index) => {
+    const room = item.post.roomId ? roomsById.get(item.post.roomId) : undefined;
+    return formatPost(item, {
+      room: room ? formatRoom(room, joinedRoomIds.has(room.room.id)) : null,
+      userVote: votes.get(item.post.id) ?? null,
+      reactions: reactions.get(item.post.id),
+      poll: pollsByPost.get(item.post.id),
+      pseudonym: pseudonyms.get(pseudonymKey(item.post.id, item.post.authorId)),
+      isPinned: pinnedIds.has(item.post.id),
+      isBookmarked: savedIds.has(item.post.id),
+      isReposted: repostedIds.has(item.post.id),
+      mentions: mentions.get(item.post.id),
+      linkPreview: links[index] ? previews.get(links[index]) : undefined,
+      repostOf: item.post.repostOfId ? originals.get(item.post.repostOfId) : null,
+    });
+  });
+}
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCursor, encodeCursor, isUuid, parseJsonArray } from './posts';
+
+const post = {
+  createdAt: new Date('2026-03-01T12:00:00.123Z'),
+  id: '3f6e1d2c-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+};
+
+describe('post cursors', () => {
+  it('round trip the position of the last post', () => {
+    assert.deepEqual(decodeCursor(encodeCursor(post)), post);
+  });
+
+  it('keep millisecond precision so posts created together are not skipped', () => {
+    const later = { ...post, createdAt: new Date(post.createdAt.getTime() + 1) };
+    assert.notEqual(encodeCursor(later), encodeCursor(post));
+    assert.equal(decodeCursor(encodeCursor(later))!.createdAt.getTime(), later.createdAt.getTime());
+  });
+
+  it('reject malformed cursors', () => {
+    const encode = (raw: string) => Buffer.from(raw).toString('base64url');
+    for (const cursor of [
+      '',
+      'not-a-cursor',
+      encode(`not-a-date|${post.id}`),
+      encode(`${post.createdAt.toISOString()}|not-a-uuid`),
+      encode(post.createdAt.toISOString()),
+    ]) {
+      assert.equal(decodeCursor(cursor), null, cursor);
+    }
+  });
+});
+
+describe('isUuid', () => {
+  it('accepts uuids in either case and rejects anything else', () => {
+    assert.equal(isUuid(post.id), true);
+    assert.equal(isUuid(post.id.toUpperCase()), true);
+    assert.equal(isUuid('42'), false);
+    assert.equal(isUuid(`${post.id}x`), false);
+  });
+});
+
+describe('parseJsonArray', () => {
+  it('tolerates null, malformed and non-array values', () => {
+    assert.deepEqual(parseJsonArray('["a","b"]'), ['a', 'b']);
+    assert.deepEqual(parseJsonArray(null), []);
+    assert.deepEqual(parseJsonArray('{'), []);
+    assert.deepEqual(parseJsonArray('{"a":1}'), []);
+  });
+});
@@ -0,0 +1,274 @@
+import { and, desc, eq, inArray, lt, or, SQL } from 'drizzle-orm';
+import { db, posts, postVotes, users } from '../db';
+import type { FormattedLinkPreview } from './linkPreviews';
+import type { FormattedMention } from './mentions';
+import type { formatPoll } from './polls';
+import type { ReactionSummary } from './reactions';
+
+// ============================================
+// Types
+// ============================================
+
+export type PostRow = typeof posts.$inferSelect;
+
+export interface PostAuthorRow {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  avatarUrl: string | null;
+  isVerified: boolean;
+}
+
+export interface PostWithAuthor {
+  post: PostRow;
+  author: PostAuthorRow;
+}
+
+export interface PostCursor {
+  createdAt: Date;
+  id: string;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Check whether a route param is a valid uuid before querying with it
+ */
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Parse a JSON array stored as text, tolerating null and malformed values
+ */
+export function parseJsonArray(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// ============================================
+// Cursor Pagination
+// ============================================
+
+/**
+ * Encode the position of the last post on a page as an opaque cursor
+ */
+export function encodeCursor(post: Pick<PostRow, 'createdAt' | 'id'>): string {
+  return Buffer.from(`${post.createdAt.toISOString()}|${post.id}`).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor, returning null if it is malformed
+ */
+export function decodeCursor(cursor: string): PostCursor | null {
+  try {
+    const [timestamp, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const createdAt = new Date(timestamp);
+    if (Number.isNaN(createdAt.getTime()) || !id || !isUuid(id)) {
+      return null;
+    }
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Condition selecting posts strictly after the cursor in (created_at, id) desc order
+ */
+export function afterCursor(cursor: PostCursor): SQL | undefined {
+  return or(
+    lt(posts.createdAt, cursor.createdAt),
+    and(eq(posts.createdAt, cursor.createdAt), lt(posts.id, cursor.id))
+  );
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Fetch a page of posts with their authors, newest first.
+ * Fetches one extra row so callers can tell whether another page exists.
+ */
+export async function fetchPostPage(
+  where: SQL | undefined,
+  cursor: PostCursor | null,
+  limit: number
+): Promise<{ items: PostWithAuthor[]; hasMore: boolean; nextCursor: string | null }> {
+  const conditions = [where, cursor ? afterCursor(cursor) : undefined].filter(
+    (c): c is SQL => c !== undefined
+  );
+
+  const rows = await db
+    .select({
+      post: posts,
+      author: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        avatarUrl: users.avatarUrl,
+        isVerified: users.isVerified,
+      },
+    })
+    .from(posts)
+    .innerJoin(users, eq(posts.authorId, users.id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(posts.createdAt), desc(posts.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor(last.post) : null,
+  };
+}
+
+/**
+ * Fetch a single post with its author
+ */
+export async function fetchPost(id: string): Promise<PostWithAuthor | null> {
+  const [row] = await db
+    .select({
+      post: posts,
+      author: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        avatarUrl: users.avatarUrl,
+        isVerified: users.isVerified,
+      },
+    })
+    .from(posts)
+    .innerJoin(users, eq(posts.authorId, users.id))
+    .where(eq(posts.id, id))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Look up the viewer's vote on each of the given posts
+ */
+export async function fetchUserVotes(
+  userId: string | undefined,
+  postIds: string[]
+): Promise<Map<string, 'up' | 'down'>> {
+  const votes = new Map<string, 'up' | 'down'>();
+  if (!userId || postIds.length === 0) return votes;
+
+  const rows = await db
+    .select({ postId: postVotes.postId, direction: postVotes.direction })
+    .from(postVotes)
+    .where(and(eq(postVotes.userId, userId), inArray(postVotes.postId, postIds)));
+
+  for (const row of rows) {
+    votes.set(row.postId, row.direction);
+  }
+  return votes;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format an author for API responses
+ */
+export function formatAuthor(author: PostAuthorRow) {
+  return {
+    id: author.id,
+    first_name: author.firstName || '',
+    last_name: author.lastName || '',
+    full_name: [author.firstName, author.lastName].filter(Boolean).join(' ') || 'Member',
+    avatar_url: author.avatarUrl,
+    is_verified: author.isVerified,
+  };
+}
+
+/**
+ * Author shown in place of an anonymous poster: their pseudonym in the
+ * thread and nothing that identifies them
+ */
+export function formatAnonymousAuthor(pseudonym?: string) {
+  return {
+    id: null,
+    first_name: 'Anonymous',
+    last_name: '',
+    full_name: pseudonym ?? 'Anonymous',
+    avatar_url: null,
+    is_verified: false,
+  };
+}
+
+/**
+ * Format a post for API responses. Anonymous posts never expose their author.
+ */
+export function formatPost<TRoom>(
+  { post, author }: PostWithAuthor,
+  options: {
+    room: TRoom | null;
+    userVote?: 'up' | 'down' | null;
+    reactions?: ReactionSummary;
+    poll?: ReturnType<typeof formatPoll>;
+    feedScore?: number;
+    /** Pseudonym of an anonymous author in this post's thread */
+    pseudonym?: string;
+    isPinned?: boolean;
+    isBookmarked?: boolean;
+    mentions?: FormattedMention[];
+    linkPreview?: FormattedLinkPreview;
+    /** The formatted original of a repost, when it is expanded */
+    repostOf?: object | null;
+    isReposted?: boolean;
+  }
+) {
+  const anonymousAuthor = post.isAnonymous ? formatAnonymousAuthor(options.pseudonym) : null;
+
+  return {
+    id: post.id,
+    content: post.content,
+    author: anonymousAuthor ?? formatAuthor(author),
+    anonymous_name: anonymousAuthor?.full_name,
+    room: options.room,
+    images: parseJsonArray(post.images),
+    video_url: post.videoUrl,
+    is_anonymous: post.isAnonymous,
+    mentions: options.mentions ?? [],
+    link_preview: options.linkPreview ?? null,
+    hashtags: parseJsonArray(post.hashtags),
+    upvotes: post.upvotes,
+    downvotes: post.downvotes,
+    comments_count: post.commentsCount,
+    user_vote: options.userVote ?? null,
+    reactions: options.reactions?.reactions ?? [],
+    reactions_count: options.reactions?.reactions_count ?? 0,
+    user_reaction: options.reactions?.user_reaction ?? null,
+    poll: options.poll ?? null,
+    is_repost: post.isRepost,
+    repost_of_id: post.repostOfId,
+    repost_of: options.repostOf ?? null,
+    reposts_count: post.repostsCount,
+    is_reposted: options.isReposted ?? false,
+    is_bookmarked: options.isBookmarked ?? false,
+    is_pinned: options.isPinned ?? false,
+    feed_score: options.feedScore ?? 0,
+    is_edited: post.editedAt !== null,
+    edited_at: post.editedAt?.toISOString() ?? null,
+    created_at: post.createdAt.toISOString(),
+    updated_at: post.updatedAt.toISOString(),
+  };
+}
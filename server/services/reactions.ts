@@ -0,0 +1,249 @@
+import { and, count, desc, eq, inArray, lt, or, SQL } from 'drizzle-orm';
+import { REACTION_EMOJIS, REACTION_TYPES } from '@medinvest/shared/types';
+import type { ReactionCount, ReactionType } from '@medinvest/shared/types';
+import { db, commentReactions, postReactions, users } from '../db';
+import { notify } from './notifications';
+import { encodeCursor, formatAuthor, PostCursor } from './posts';
+
+// ============================================
+// Types
+// ============================================
+
+export type ReactionTarget = 'post' | 'comment';
+
+export interface ReactionSummary {
+  reactions: ReactionCount[];
+  reactions_count: number;
+  user_reaction: ReactionType | null;
+}
+
+const EMPTY_SUMMARY: ReactionSummary = {
+  reactions: [],
+  reactions_count: 0,
+  user_reaction: null,
+};
+
+// Both reaction tables share a shape; only the target column differs
+const targets = {
+  post: { table: postReactions, targetId: postReactions.postId },
+  comment: { table: commentReactions, targetId: commentReactions.commentId },
+};
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Aggregate reaction counts for each target, plus the viewer's own reaction
+ */
+export async function fetchReactionSummaries(
+  target: ReactionTarget,
+  targetIds: string[],
+  viewerId?: string
+): Promise<Map<string, ReactionSummary>> {
+  const summaries = new Map<string, ReactionSummary>();
+  if (targetIds.length === 0) return summaries;
+
+  const { table, targetId } = targets[target];
+
+  const counts = await db
+    .select({ targetId, type: table.type, count: count() })
+    .from(table)
+    .where(inArray(targetId, targetIds))
+    .groupBy(targetId, table.type);
+
+  for (const row of counts) {
+    const summary = summaries.get(row.targetId) ?? { ...EMPTY_SUMMARY, reactions: [] };
+    summary.reactions.push({ type: row.type, count: row.count });
+    summary.reactions_count += row.count;
+    summaries.set(row.targetId, summary);
+  }
+
+  for (const summary of summaries.values()) {
+    summary.reactions.sort(
+      (a, b) => b.count - a.count || REACTION_TYPES.indexOf(a.type) - REACTION_TYPES.indexOf(b.type)
+    );
+  }
+
+  if (viewerId) {
+    const own = await db
+      .select({ targetId, type: table.type })
+      .from(table)
+      .where(and(eq(table.userId, viewerId), inArray(targetId, targetIds)));
+
+    for (const row of own) {
+      const summary = summaries.get(row.targetId);
+      if (summary) summary.user_reaction = row.type;
+    }
+  }
+
+  return summaries;
+}
+
+/**
+ * Look up a single target's reaction summary
+ */
+export async function fetchReactionSummary(
+  target: ReactionTarget,
+  id: string,
+  viewerId?: string
+): Promise<ReactionSummary> {
+  const summaries = await fetchReactionSummaries(target, [id], viewerId);
+  return summaries.get(id) ?? { ...EMPTY_SUMMARY, reactions: [] };
+}
+
+/**
+ * Page through who reacted to a target, most recent first
+ */
+export async function fetchReactors(
+  target: ReactionTarget,
+  id: string,
+  options: { type?: ReactionType; cursor: PostCursor | null; limit: number }
+) {
+  const { table, targetId } = targets[target];
+
+  const conditions: (SQL | undefined)[] = [eq(targetId, id)];
+  if (options.type) {
+    conditions.push(eq(table.type, options.type));
+  }
+  if (options.cursor) {
+    conditions.push(
+      or(
+        lt(table.createdAt, options.cursor.createdAt),
+        and(eq(table.createdAt, options.cursor.createdAt), lt(table.id, options.cursor.id))
+      )
+    );
+  }
+
+  const rows = await db
+    .select({
+      reaction: { id: table.id, type: table.type, createdAt: table.createdAt },
+      user: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        avatarUrl: users.avatarUrl,
+        isVerified: users.isVerified,
+      },
+    })
+    .from(table)
+    .innerJoin(users, eq(table.userId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(table.createdAt), desc(table.id))
+    .limit(options.limit + 1);
+
+  const hasMore = rows.length > options.limit;
+  const items = hasMore ? rows.slice(0, options.limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    reactions: items.map(row => ({
+      type: row.reaction.type,
+      user: formatAuthor(row.user),
+      created_at: row.reaction.createdAt.toISOString(),
+    })),
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor(last.reaction) : null,
+  };
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+/**
+ * Set a user's reaction on a target, replacing any reaction they already had.
+ * Returns whether this was a new reaction rather than a change of type.
+ */
+export async function setReaction(
+  target: ReactionTarget,
+  id: string,
+  userId: string,
+  type: ReactionType
+): Promise<boolean> {
+  const now = new Date();
+
+  if (target === 'post') {
+    const [existing] = await db
+      .select({ id: postReactions.id })
+      .from(postReactions)
+      .where(and(eq(postReactions.postId, id), eq(postReactions.userId, userId)))
+      .limit(1);
+
+    await db
+      .insert(postReactions)
+      .values({ postId: id, userId, type, createdAt: now })
+      .onConflictDoUpdate({
+        target: [postReactions.userId, postReactions.postId],
+        set: { type, createdAt: now },
+      });
+    return !existing;
+  }
+
+  const [existing] = await db
+    .select({ id: commentReactions.id })
+    .from(commentReactions)
+    .where(and(eq(commentReactions.commentId, id), eq(commentReactions.userId, userId)))
+    .limit(1);
+
+  await db
+    .insert(commentReactions)
+    .values({ commentId: id, userId, type, createdAt: now })
+    .onConflictDoUpdate({
+      target: [commentReactions.userId, commentReactions.commentId],
+      set: { type, createdAt: now },
+    });
+  return !existing;
+}
+
+/**
+ * Remove a user's reaction from a target
+ */
+export async function removeReaction(
+  target: ReactionTarget,
+  id: string,
+  userId: string
+): Promise<void> {
+  const { table, targetId } = targets[target];
+  await db.delete(table).where(and(eq(targetId, id), eq(table.userId, userId)));
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+/**
+ * Let an author know someone reacted to their post or comment.
+ * Reacting to your own content is silent.
+ */
+export async function notifyReaction(options: {
+  target: ReactionTarget;
+  authorId: string;
+  reactorId: string;
+  type: ReactionType;
+  postId: string;
+  commentId?: string;
+}): Promise<void> {
+  if (options.authorId === options.reactorId) return;
+
+  const [reactor] = await db
+    .select({ firstName: users.firstName, lastName: users.lastName })
+    .from(users)
+    .where(eq(users.id, options.reactorId))
+    .limit(1);
+  const name = [reactor?.firstName, reactor?.lastName].filter(Boolean).join(' ') || 'Someone';
+
+  await notify({
+    userId: options.authorId,
+    type: 'like',
+    title: 'New Reaction',
+    body: `${name} reacted ${REACTION_EMOJIS[options.type]} to your ${options.target}`,
+    data: {
+      post_id: options.postId,
+      comment_id: options.commentId,
+      user_id: options.reactorId,
+      reaction: options.type,
+    },
+    channelId: 'social',
+  });
+}
@@ -0,0 +1,109 @@
+import { and, eq, isNull, or } from 'drizzle-orm';
+import type { CreateReportInput } from '@medinvest/shared/validators';
+import { comments, db, directMessages, dmConversations, posts, reports, users } from '../db';
+import { canViewRoomContent } from './rooms';
+
+// ============================================
+// Types
+// ============================================
+
+export type CreateReportResult =
+  | { status: 'ok' }
+  | { status: 'not_found' }
+  | { status: 'own_content' };
+
+interface ReportTarget {
+  ownerId: string;
+  roomId: number | null;
+}
+
+// ============================================
+// Reports
+// ============================================
+
+/**
+ * The owner of a report's target and the room it was posted in. Null if it
+ * does not exist or the reporter cannot see it.
+ */
+async function findReportTarget(
+  reporterId: string,
+  type: CreateReportInput['type'],
+  targetId: string
+): Promise<ReportTarget | null> {
+  let target: ReportTarget | undefined;
+
+  switch (type) {
+    case 'user': {
+      const [user] = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(eq(users.id, targetId))
+        .limit(1);
+      if (user) target = { ownerId: user.id, roomId: null };
+      break;
+    }
+    case 'post':
+      [target] = await db
+        .select({ ownerId: posts.authorId, roomId: posts.roomId })
+        .from(posts)
+        .where(eq(posts.id, targetId))
+        .limit(1);
+      break;
+    case 'comment':
+      [target] = await db
+        .select({ ownerId: comments.authorId, roomId: posts.roomId })
+        .from(comments)
+        .innerJoin(posts, eq(comments.postId, posts.id))
+        .where(and(eq(comments.id, targetId), isNull(comments.deletedAt)))
+        .limit(1);
+      break;
+    case 'message': {
+      // Only the people in a conversation can report its messages
+      const [message] = await db
+        .select({ senderId: directMessages.senderId })
+        .from(directMessages)
+        .innerJoin(dmConversations, eq(directMessages.conversationId, dmConversations.id))
+        .where(
+          and(
+            eq(directMessages.id, targetId),
+            or(eq(dmConversations.user1Id, reporterId), eq(dmConversations.user2Id, reporterId))
+          )
+        )
+        .limit(1);
+      if (message) target = { ownerId: message.senderId, roomId: null };
+      break;
+    }
+  }
+
+  if (!target || !(await canViewRoomContent(target.roomId, reporterId))) return null;
+  return target;
+}
+
+/**
+ * Report a user, post, comment or message. Reports of posts and comments
+ * keep the room they were made in. Reporting the same thing again is a
+ * no-op.
+ */
+export async function createReport(
+  reporterId: string,
+  input: CreateReportInput,
+  now = new Date()
+): Promise<CreateReportResult> {
+  const target = await findReportTarget(reporterId, input.type, input.target_id);
+  if (!target) return { status: 'not_found' };
+  if (target.ownerId === reporterId) return { status: 'own_content' };
+
+  await db
+    .insert(reports)
+    .values({
+      reporterId,
+      targetType: input.type,
+      targetId: input.target_id,
+      roomId: target.roomId,
+      reason: input.reason,
+      details: input.details || null,
+      createdAt: now,
+    })
+    .onConflictDoNothing();
+  return { status: 'ok' };
+}
@@ -0,0 +1,224 @@
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import type { RepostInput } from '@medinvest/shared/validators';
+import { db, posts, users } from '../db';
+import { fetchBlockedBetween, fetchMutingNotificationsFrom } from './blocks';
+import { notify } from './notifications';
+import { announcePost, insertPost } from './postPublishing';
+import type { PostRow } from './posts';
+import { canViewRoomContent } from './rooms';
+import { deleteSavedItemsFor } from './savedItems';
+
+// ============================================
+// Types
+// ============================================
+
+export type RepostResult =
+  | { status: 'ok'; post: PostRow }
+  | { status: 'not_found' }
+  | { status: 'blocked' }
+  | { status: 'private_room' }
+  | { status: 'already_reposted' };
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * A repost without commentary. It only points at the original.
+ */
+function isPlainRepost(post: Pick<PostRow, 'isRepost' | 'content'>): boolean {
+  return post.isRepost && post.content === '';
+}
+
+function plainRepostBy(userId: string, originalId: string) {
+  return and(eq(posts.authorId, userId), eq(posts.repostOfId, originalId), eq(posts.content, ''));
+}
+
+/**
+ * The post a repost of postId should point at. Reposting a plain repost
+ * reposts its original, so plain reposts never chain.
+ */
+async function resolveOriginal(postId: string): Promise<PostRow | null> {
+  const [post] = await db.select().from(posts).where(eq(posts.id, postId)).limit(1);
+  if (!post || !isPlainRepost(post)) return post ?? null;
+  if (!post.repostOfId) return null;
+
+  const [original] = await db.select().from(posts).where(eq(posts.id, post.repostOfId)).limit(1);
+  return original ?? null;
+}
+
+// ============================================
+// Reposting
+// ============================================
+
+/**
+ * Repost a post into the feed or a room. With content it is a quote, which
+ * can be made any number of times; without, a user can repost a post once.
+ * The original's repost count goes up and its author is notified.
+ */
+export async function createRepost(
+  userId: string,
+  postId: string,
+  input: RepostInput,
+  now = new Date()
+): Promise<RepostResult> {
+  const original = await resolveOriginal(postId);
+  if (!original || !(await canViewRoomContent(original.roomId, userId))) {
+    return { status: 'not_found' };
+  }
+  // Posts in private and invite-only rooms can only be reposted within them.
+  // Without a viewer, only public rooms pass.
+  if (
+    original.roomId !== null &&
+    original.roomId !== (input.room_id ?? null) &&
+    !(await canViewRoomContent(original.roomId, undefined))
+  ) {
+    return { status: 'private_room' };
+  }
+
+  // Anonymous authors' blocks are not revealed by refusing the repost
+  if (!original.isAnonymous && original.authorId !== userId) {
+    const blocked = await fetchBlockedBetween(userId, [original.authorId]);
+    if (blocked.size > 0) return { status: 'blocked' };
+  }
+
+  const content = input.content ?? '';
+  const post = await db.transaction(async tx => {
+    if (!content) {
+      const [existing] = await tx
+        .select({ id: posts.id })
+        .from(posts)
+        .where(plainRepostBy(userId, original.id))
+        .limit(1);
+      if (existing) return null;
+    }
+
+    const created = await insertPost(
+      tx,
+      userId,
+      { content, room_id: input.room_id },
+      now,
+      original.id
+    );
+    await tx
+      .update(posts)
+      .set({ repostsCount: sql`${posts.repostsCount} + 1` })
+      .where(eq(posts.id, original.id));
+    return created;
+  });
+  if (!post) return { status: 'already_reposted' };
+
+  await announcePost(post);
+  notifyRepost(post, original).catch(error => console.error('Repost notification error:', error));
+  return { status: 'ok', post };
+}
+
+/**
+ * Remove a user's plain repost of a post. Returns false if there was none.
+ */
+export async function undoRepost(userId: string, postId: string): Promise<boolean> {
+  const removed = await db.transaction(async tx => {
+    const [deleted] = await tx
+      .delete(posts)
+      .where(plainRepostBy(userId, postId))
+      .returning({ id: posts.id });
+    if (!deleted) return null;
+
+    await tx
+      .update(posts)
+      .set({ repostsCount: sql`greatest(${posts.repostsCount} - 1, 0)` })
+      .where(eq(posts.id, postId));
+    return deleted;
+  });
+  if (!removed) return false;
+
+  await deleteSavedItemsFor('post', removed.id);
+  return true;
+}
+
+/**
+ * Delete a post. Plain reposts of it go too, as there is nothing left to
+ * show; quotes keep their commentary and show the original as unavailable.
+ * If the post was itself a repost, its original's count goes down.
+ */
+export async function deletePost(post: Pick<PostRow, 'id' | 'repostOfId'>): Promise<void> {
+  const removedIds = await db.transaction(async tx => {
+    const plainReposts = await tx
+      .delete(posts)
+      .where(and(eq(posts.repostOfId, post.id), eq(posts.content, '')))
+      .returning({ id: posts.id });
+    await tx.delete(posts).where(eq(posts.id, post.id));
+
+    if (post.repostOfId) {
+      await tx
+        .update(posts)
+        .set({ repostsCount: sql`greatest(${posts.repostsCount} - 1, 0)` })
+        .where(eq(posts.id, post.repostOfId));
+    }
+    return [post.id, ...plainReposts.map(row => row.id)];
+  });
+
+  for (const id of removedIds) {
+    await deleteSavedItemsFor('post', id);
+  }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Which of the given posts the viewer has reposted without commentary
+ */
+export async function fetchRepostedIds(
+  viewerId: string | undefined,
+  postIds: string[]
+): Promise<Set<string>> {
+  if (!viewerId || postIds.length === 0) return new Set();
+
+  const rows = await db
+    .select({ repostOfId: posts.repostOfId })
+    .from(posts)
+    .where(
+      and(eq(posts.authorId, viewerId), inArray(posts.repostOfId, postIds), eq(posts.content, ''))
+    );
+
+  return new Set(rows.map(row => row.repostOfId!));
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+/**
+ * Tell the original's author about a repost, unless they reposted
+ * themselves, block or are blocked by the reposter, or mute them
+ */
+async function notifyRepost(repost: PostRow, original: PostRow): Promise<void> {
+  const recipientId = original.authorId;
+  if (recipientId === repost.authorId) return;
+
+  const [blocked, muting] = await Promise.all([
+    fetchBlockedBetween(repost.authorId, [recipientId]),
+    fetchMutingNotificationsFrom(repost.authorId, [recipientId]),
+  ]);
+  if (blocked.size > 0 || muting.size > 0) return;
+
+  const [author] = await db
+    .select({ firstName: users.firstName, lastName: users.lastName })
+    .from(users)
+    .where(eq(users.id, repost.authorId))
+    .limit(1);
+  const name = [author?.firstName, author?.lastName].filter(Boolean).join(' ') || 'Someone';
+
+  await notify({
+    userId: recipientId,
+    type: 'repost',
+    title: isPlainRepost(repost) ? 'New repost' : 'New quote',
+    body: isPlainRepost(repost)
+      ? `${name} reposted your post`
+      : `${name} quoted your post: ${repost.content.slice(0, 100)}`,
+    data: { post_id: repost.id, original_post_id: original.id, user_id: repost.authorId },
+    channelId: 'social',
+  });
+}
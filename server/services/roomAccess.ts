@@ -0,0 +1,377 @@
+import { randomBytes } from 'crypto';
+import { and, asc, desc, eq, gt, isNull, lt, or, sql } from 'drizzle-orm';
+import type { RoomInviteInput } from '@medinvest/shared/validators';
+import { db, roomInvites, roomJoinRequests, roomMemberships, rooms, users } from '../db';
+import { notify } from './notifications';
+import { formatAuthor } from './posts';
+import { fetchActiveBan, logModerationAction } from './roomModeration';
+import { fetchModerators, recordMembershipEvent, RoomRow } from './rooms';
+
+// ============================================
+// Types
+// ============================================
+
+export type RoomJoinRequestRow = typeof roomJoinRequests.$inferSelect;
+
+export type RoomInviteRow = typeof roomInvites.$inferSelect;
+
+export type ReviewJoinRequestResult =
+  | { status: 'ok' }
+  | { status: 'not_found' }
+  | { status: 'banned' };
+
+// ============================================
+// Helpers
+// ============================================
+
+// 12 URL-safe characters
+const INVITE_CODE_BYTES = 9;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function usableInviteCondition(now: Date) {
+  return and(
+    isNull(roomInvites.revokedAt),
+    or(isNull(roomInvites.expiresAt), gt(roomInvites.expiresAt, now)),
+    or(isNull(roomInvites.maxUses), lt(roomInvites.usesCount, roomInvites.maxUses))
+  );
+}
+
+// ============================================
+// Visibility
+// ============================================
+
+/**
+ * Change who can see and join a room. Opening a room up drops its pending
+ * join requests, as anyone can now join it directly.
+ */
+export async function setRoomVisibility(
+  room: RoomRow,
+  visibility: RoomRow['visibility'],
+  moderatorId: string
+): Promise<void> {
+  if (room.visibility === visibility) return;
+
+  await db.transaction(async tx => {
+    await tx.update(rooms).set({ visibility, updatedAt: new Date() }).where(eq(rooms.id, room.id));
+    if (visibility === 'public') {
+      await tx
+        .delete(roomJoinRequests)
+        .where(and(eq(roomJoinRequests.roomId, room.id), eq(roomJoinRequests.status, 'pending')));
+    }
+    await logModerationAction({ roomId: room.id, moderatorId, action: 'change_visibility' }, tx);
+  });
+}
+
+// ============================================
+// Join Requests
+// ============================================
+
+/**
+ * A user's request to join a room, if they have made one
+ */
+export async function fetchJoinRequest(
+  roomId: number,
+  userId: string | undefined
+): Promise<RoomJoinRequestRow | null> {
+  if (!userId) return null;
+
+  const [request] = await db
+    .select()
+    .from(roomJoinRequests)
+    .where(and(eq(roomJoinRequests.roomId, roomId), eq(roomJoinRequests.userId, userId)))
+    .limit(1);
+  return request ?? null;
+}
+
+/**
+ * Ask to join a private room and let its moderators know. Asking again while
+ * a request is pending is a no-op; asking after a decline reopens it.
+ */
+export async function requestToJoin(
+  room: RoomRow,
+  userId: string,
+  message: string | undefined,
+  now = new Date()
+): Promise<RoomJoinRequestRow> {
+  const existing = await fetchJoinRequest(room.id, userId);
+  if (existing?.status === 'pending') return existing;
+
+  const values = {
+    status: 'pending' as const,
+    message: message || null,
+    reviewedBy: null,
+    reviewedAt: null,
+    createdAt: now,
+  };
+  const [request] = await db
+    .insert(roomJoinRequests)
+    .values({ roomId: room.id, userId, ...values })
+    .onConflictDoUpdate({
+      target: [roomJoinRequests.roomId, roomJoinRequests.userId],
+      set: values,
+    })
+    .returning();
+
+  notifyModerators(room, userId).catch(error =>
+    console.error('Room join request notification error:', error)
+  );
+  return request;
+}
+
+async function notifyModerators(room: RoomRow, userId: string): Promise<void> {
+  const [[requester], moderators] = await Promise.all([
+    db
+      .select({ firstName: users.firstName, lastName: users.lastName })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1),
+    fetchModerators(room.id),
+  ]);
+  if (!requester) return;
+
+  const name = `${requester.firstName} ${requester.lastName}`;
+  await Promise.all(
+    moderators.map(moderator =>
+      notify({
+        userId: moderator.id,
+        type: 'room_join_request',
+        title: `Request to join ${room.name}`,
+        body: `${name} asked to join ${room.name}`,
+        data: { room_id: room.id, room_slug: room.slug, user_id: userId },
+        channelId: 'social',
+      })
+    )
+  );
+}
+
+/**
+ * Withdraw a pending request to join a room
+ */
+export async function cancelJoinRequest(roomId: number, userId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(roomJoinRequests)
+    .where(
+      and(
+        eq(roomJoinRequests.roomId, roomId),
+        eq(roomJoinRequests.userId, userId),
+        eq(roomJoinRequests.status, 'pending')
+      )
+    )
+    .returning({ id: roomJoinRequests.id });
+  return deleted.length > 0;
+}
+
+/**
+ * A room's pending join requests, oldest first
+ */
+export async function fetchPendingJoinRequests(roomId: number) {
+  const rows = await db
+    .select({
+      request: roomJoinRequests,
+      user: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        avatarUrl: users.avatarUrl,
+        isVerified: users.isVerified,
+      },
+    })
+    .from(roomJoinRequests)
+    .innerJoin(users, eq(roomJoinRequests.userId, users.id))
+    .where(and(eq(roomJoinRequests.roomId, roomId), eq(roomJoinRequests.status, 'pending')))
+    .orderBy(asc(roomJoinRequests.createdAt));
+
+  return rows.map(({ request, user }) => ({
+    user: formatAuthor(user),
+    message: request.message,
+    created_at: request.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Approve or decline a pending request to join a room. Approved users join
+ * with the rules they accepted when asking, and are told they are in;
+ * declined users are not notified.
+ */
+export async function reviewJoinRequest(
+  room: RoomRow,
+  userId: string,
+  moderatorId: string,
+  approve: boolean,
+  now = new Date()
+): Promise<ReviewJoinRequestResult> {
+  if (approve && (await fetchActiveBan(room.id, userId, now))) {
+    return { status: 'banned' };
+  }
+
+  const reviewed = await db.transaction(async tx => {
+    const [request] = await tx
+      .update(roomJoinRequests)
+      .set({ status: approve ? 'approved' : 'declined', reviewedBy: moderatorId, reviewedAt: now })
+      .where(
+        and(
+          eq(roomJoinRequests.roomId, room.id),
+          eq(roomJoinRequests.userId, userId),
+          eq(roomJoinRequests.status, 'pending')
+        )
+      )
+      .returning();
+    if (!request) return false;
+
+    if (approve) {
+      const [joined] = await tx
+        .insert(roomMemberships)
+        .values({ roomId: room.id, userId, rulesAcceptedAt: request.createdAt, createdAt: now })
+        .onConflictDoNothing()
+        .returning({ id: roomMemberships.id });
+      if (joined) await recordMembershipEvent(room.id, userId, 'join', tx, now);
+    }
+    await logModerationAction(
+      {
+        roomId: room.id,
+        moderatorId,
+        action: approve ? 'approve_join' : 'decline_join',
+        targetUserId: userId,
+      },
+      tx
+    );
+    return true;
+  });
+  if (!reviewed) return { status: 'not_found' };
+
+  if (approve) {
+    notify({
+      userId,
+      type: 'room_join_approved',
+      title: `Welcome to ${room.name}`,
+      body: `Your request to join ${room.name} was approved`,
+      data: { room_id: room.id, room_slug: room.slug },
+      channelId: 'social',
+    }).catch(error => console.error('Room join approval notification error:', error));
+  }
+  return { status: 'ok' };
+}
+
+// ============================================
+// Invites
+// ============================================
+
+/**
+ * Create an invite link into a room, optionally expiring or limited in uses
+ */
+export async function createRoomInvite(
+  roomId: number,
+  moderatorId: string,
+  input: RoomInviteInput,
+  now = new Date()
+): Promise<RoomInviteRow> {
+  return db.transaction(async tx => {
+    const [invite] = await tx
+      .insert(roomInvites)
+      .values({
+        roomId,
+        code: randomBytes(INVITE_CODE_BYTES).toString('base64url'),
+        createdBy: moderatorId,
+        maxUses: input.max_uses ?? null,
+        expiresAt: input.expires_in_hours
+          ? new Date(now.getTime() + input.expires_in_hours * HOUR_MS)
+          : null,
+        createdAt: now,
+      })
+      .returning();
+    await logModerationAction({ roomId, moderatorId, action: 'create_invite' }, tx);
+    return invite;
+  });
+}
+
+/**
+ * A room's invites that can still be used, newest first
+ */
+export async function fetchRoomInvites(roomId: number, now = new Date()): Promise<RoomInviteRow[]> {
+  return db
+    .select()
+    .from(roomInvites)
+    .where(and(eq(roomInvites.roomId, roomId), usableInviteCondition(now)))
+    .orderBy(desc(roomInvites.createdAt));
+}
+
+/**
+ * Revoke an invite so it can no longer be used
+ */
+export async function revokeRoomInvite(
+  roomId: number,
+  inviteId: string,
+  moderatorId: string
+): Promise<boolean> {
+  return db.transaction(async tx => {
+    const revoked = await tx
+      .update(roomInvites)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(roomInvites.id, inviteId),
+          eq(roomInvites.roomId, roomId),
+          isNull(roomInvites.revokedAt)
+        )
+      )
+      .returning({ id: roomInvites.id });
+    if (revoked.length === 0) return false;
+
+    await logModerationAction({ roomId, moderatorId, action: 'revoke_invite' }, tx);
+    return true;
+  });
+}
+
+/**
+ * Join a room with an invite code, using up one of its uses. The use is
+ * counted in the same statement that checks the invite, so concurrent joins
+ * cannot go over max_uses. Returns false for an unknown, revoked, expired or
+ * used-up invite.
+ */
+export async function joinWithInvite(
+  roomId: number,
+  code: string,
+  userId: string,
+  now = new Date()
+): Promise<boolean> {
+  return db.transaction(async tx => {
+    const [invite] = await tx
+      .update(roomInvites)
+      .set({ usesCount: sql`${roomInvites.usesCount} + 1` })
+      .where(
+        and(eq(roomInvites.roomId, roomId), eq(roomInvites.code, code), usableInviteCondition(now))
+      )
+      .returning({ id: roomInvites.id });
+    if (!invite) return false;
+
+    const [joined] = await tx
+      .insert(roomMemberships)
+      .values({ roomId, userId, rulesAcceptedAt: now, createdAt: now })
+      .onConflictDoNothing()
+      .returning({ id: roomMemberships.id });
+    if (joined) await recordMembershipEvent(roomId, userId, 'join', tx, now);
+    await tx
+      .delete(roomJoinRequests)
+      .where(and(eq(roomJoinRequests.roomId, roomId), eq(roomJoinRequests.userId, userId)));
+    return true;
+  });
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format an invite for API responses
+ */
+export function formatRoomInvite(invite: RoomInviteRow) {
+  return {
+    id: invite.id,
+    code: invite.code,
+    max_uses: invite.maxUses,
+    uses_count: invite.usesCount,
+    expires_at: invite.expiresAt?.toISOString() ?? null,
+    created_at: invite.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,314 @@
+import { and, count, desc, eq, gte, inArray, isNull, sql, SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+import type { RoomAnalyticsPeriod } from '@medinvest/shared/types';
+import {
+  commentReactions,
+  comments,
+  db,
+  hashtagUsages,
+  pollVotes,
+  polls,
+  postReactions,
+  postVotes,
+  posts,
+  reports,
+  roomMembershipEvents,
+  roomMemberships,
+  users,
+} from '../db';
+import { formatAuthor } from './posts';
+
+// ============================================
+// Types
+// ============================================
+
+export const ROOM_ANALYTICS_PERIOD_DAYS: Record<RoomAnalyticsPeriod, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+};
+
+interface DayCount {
+  day: string;
+  count: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TOP_CONTRIBUTORS_LIMIT = 10;
+const TOP_HASHTAGS_LIMIT = 10;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * The UTC day a timestamp falls on, as YYYY-MM-DD
+ */
+function utcDay(column: PgColumn): SQL<string> {
+  return sql<string>`to_char(${column}, 'YYYY-MM-DD')`;
+}
+
+/**
+ * Every UTC day in the period ending today, oldest first
+ */
+function periodDays(period: RoomAnalyticsPeriod, now: Date): string[] {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const length = ROOM_ANALYTICS_PERIOD_DAYS[period];
+  return Array.from({ length }, (_, i) =>
+    new Date(today - (length - 1 - i) * DAY_MS).toISOString().slice(0, 10)
+  );
+}
+
+function toDayMap(rows: DayCount[]): Map<string, number> {
+  return new Map(rows.map(row => [row.day, row.count]));
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const value of values) total += value;
+  return total;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Each user who posted, commented, reacted or voted in the room on each day
+ */
+async function fetchActiveMembers(roomId: number, since: Date) {
+  const inRoom = eq(posts.roomId, roomId);
+
+  const results = await Promise.all([
+    db
+      .selectDistinct({ day: utcDay(posts.createdAt), userId: posts.authorId })
+      .from(posts)
+      .where(and(inRoom, gte(posts.createdAt, since))),
+    db
+      .selectDistinct({ day: utcDay(comments.createdAt), userId: comments.authorId })
+      .from(comments)
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(and(inRoom, gte(comments.createdAt, since))),
+    db
+      .selectDistinct({ day: utcDay(postReactions.createdAt), userId: postReactions.userId })
+      .from(postReactions)
+      .innerJoin(posts, eq(postReactions.postId, posts.id))
+      .where(and(inRoom, gte(postReactions.createdAt, since))),
+    db
+      .selectDistinct({ day: utcDay(postVotes.createdAt), userId: postVotes.userId })
+      .from(postVotes)
+      .innerJoin(posts, eq(postVotes.postId, posts.id))
+      .where(and(inRoom, gte(postVotes.createdAt, since))),
+    db
+      .selectDistinct({ day: utcDay(commentReactions.createdAt), userId: commentReactions.userId })
+      .from(commentReactions)
+      .innerJoin(comments, eq(commentReactions.commentId, comments.id))
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(and(inRoom, gte(commentReactions.createdAt, since))),
+    db
+      .selectDistinct({ day: utcDay(pollVotes.createdAt), userId: pollVotes.userId })
+      .from(pollVotes)
+      .innerJoin(polls, eq(pollVotes.pollId, polls.id))
+      .innerJoin(posts, eq(polls.postId, posts.id))
+      .where(and(inRoom, gte(pollVotes.createdAt, since))),
+  ]);
+
+  const byDay = new Map<string, Set<string>>();
+  const everyone = new Set<string>();
+  for (const { day, userId } of results.flat()) {
+    if (!byDay.has(day)) byDay.set(day, new Set());
+    byDay.get(day)!.add(userId);
+    everyone.add(userId);
+  }
+  return { byDay, total: everyone.size };
+}
+
+/**
+ * Posts and comments per author, leaving out anonymous ones
+ */
+async function fetchTopContributors(roomId: number, since: Date) {
+  const [postCounts, commentCounts] = await Promise.all([
+    db
+      .select({ userId: posts.authorId, count: count() })
+      .from(posts)
+      .where(
+        and(eq(posts.roomId, roomId), gte(posts.createdAt, since), eq(posts.isAnonymous, false))
+      )
+      .groupBy(posts.authorId),
+    db
+      .select({ userId: comments.authorId, count: count() })
+      .from(comments)
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(
+        and(
+          eq(posts.roomId, roomId),
+          gte(comments.createdAt, since),
+          eq(comments.isAnonymous, false),
+          isNull(comments.deletedAt)
+        )
+      )
+      .groupBy(comments.authorId),
+  ]);
+
+  const contributions = new Map<string, { posts: number; comments: number }>();
+  for (const row of postCounts) {
+    contributions.set(row.userId, { posts: row.count, comments: 0 });
+  }
+  for (const row of commentCounts) {
+    const existing = contributions.get(row.userId);
+    if (existing) existing.comments = row.count;
+    else contributions.set(row.userId, { posts: 0, comments: row.count });
+  }
+
+  const top = [...contributions.entries()]
+    .sort(([, a], [, b]) => b.posts + b.comments - (a.posts + a.comments) || b.posts - a.posts)
+    .slice(0, TOP_CONTRIBUTORS_LIMIT);
+  if (top.length === 0) return [];
+
+  const authors = await db
+    .select({
+      id: users.id,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      avatarUrl: users.avatarUrl,
+      isVerified: users.isVerified,
+    })
+    .from(users)
+    .where(
+      inArray(
+        users.id,
+        top.map(([userId]) => userId)
+      )
+    );
+  const authorsById = new Map(authors.map(author => [author.id, author]));
+
+  return top.flatMap(([userId, counts]) => {
+    const author = authorsById.get(userId);
+    return author ? [{ user: formatAuthor(author), ...counts }] : [];
+  });
+}
+
+/**
+ * Hashtags on the room's posts, ranked by the reactions, comments and
+ * reposts those posts drew
+ */
+async function fetchTopHashtags(roomId: number, since: Date) {
+  const engagement = sql<number>`coalesce(sum(${posts.commentsCount} + ${posts.repostsCount} + (select count(*) from ${postReactions} where ${postReactions.postId} = ${posts.id})), 0)::int`;
+
+  return db
+    .select({
+      tag: hashtagUsages.tag,
+      posts: sql<number>`count(distinct ${posts.id})::int`,
+      engagement,
+    })
+    .from(hashtagUsages)
+    .innerJoin(posts, eq(hashtagUsages.postId, posts.id))
+    .where(
+      and(
+        eq(hashtagUsages.roomId, roomId),
+        isNull(hashtagUsages.commentId),
+        gte(hashtagUsages.createdAt, since)
+      )
+    )
+    .groupBy(hashtagUsages.tag)
+    .orderBy(desc(engagement), desc(sql`count(distinct ${posts.id})`), hashtagUsages.tag)
+    .limit(TOP_HASHTAGS_LIMIT);
+}
+
+// ============================================
+// Analytics
+// ============================================
+
+/**
+ * A room's activity over the period ending today: a zero-filled series per
+ * UTC day for charting, totals, and its top contributors and hashtags
+ */
+export async function fetchRoomAnalytics(
+  roomId: number,
+  period: RoomAnalyticsPeriod,
+  now = new Date()
+) {
+  const days = periodDays(period, now);
+  const since = new Date(`${days[0]}T00:00:00.000Z`);
+
+  const postsDay = utcDay(posts.createdAt);
+  const commentsDay = utcDay(comments.createdAt);
+  const eventsDay = utcDay(roomMembershipEvents.createdAt);
+  const reportsDay = utcDay(reports.createdAt);
+
+  const [
+    active,
+    postCounts,
+    commentCounts,
+    eventCounts,
+    reportCounts,
+    [members],
+    topContributors,
+    topHashtags,
+  ] = await Promise.all([
+    fetchActiveMembers(roomId, since),
+    db
+      .select({ day: postsDay, count: count() })
+      .from(posts)
+      .where(and(eq(posts.roomId, roomId), gte(posts.createdAt, since)))
+      .groupBy(postsDay),
+    db
+      .select({ day: commentsDay, count: count() })
+      .from(comments)
+      .innerJoin(posts, eq(comments.postId, posts.id))
+      .where(and(eq(posts.roomId, roomId), gte(comments.createdAt, since)))
+      .groupBy(commentsDay),
+    db
+      .select({ day: eventsDay, type: roomMembershipEvents.type, count: count() })
+      .from(roomMembershipEvents)
+      .where(
+        and(eq(roomMembershipEvents.roomId, roomId), gte(roomMembershipEvents.createdAt, since))
+      )
+      .groupBy(eventsDay, roomMembershipEvents.type),
+    db
+      .select({ day: reportsDay, count: count() })
+      .from(reports)
+      .where(and(eq(reports.roomId, roomId), gte(reports.createdAt, since)))
+      .groupBy(reportsDay),
+    db.select({ count: count() }).from(roomMemberships).where(eq(roomMemberships.roomId, roomId)),
+    fetchTopContributors(roomId, since),
+    fetchTopHashtags(roomId, since),
+  ]);
+
+  const postsByDay = toDayMap(postCounts);
+  const commentsByDay = toDayMap(commentCounts);
+  const joinsByDay = toDayMap(eventCounts.filter(row => row.type === 'join'));
+  const leavesByDay = toDayMap(eventCounts.filter(row => row.type === 'leave'));
+  const reportsByDay = toDayMap(reportCounts);
+
+  const series = days.map(date => ({
+    date,
+    active_members: active.byDay.get(date)?.size ?? 0,
+    posts: postsByDay.get(date) ?? 0,
+    comments: commentsByDay.get(date) ?? 0,
+    joins: joinsByDay.get(date) ?? 0,
+    leaves: leavesByDay.get(date) ?? 0,
+    reports: reportsByDay.get(date) ?? 0,
+  }));
+
+  return {
+    period,
+    days: series,
+    totals: {
+      active_members: active.total,
+      posts: sum(postsByDay.values()),
+      comments: sum(commentsByDay.values()),
+      joins: sum(joinsByDay.values()),
+      leaves: sum(leavesByDay.values()),
+      reports: sum(reportsByDay.values()),
+      members_count: members?.count ?? 0,
+    },
+    top_contributors: topContributors,
+    top_hashtags: topHashtags,
+  };
+}
@@ -0,0 +1,548 @@
+import { and, desc, eq, gt, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { LIMITS } from '@medinvest/shared/constants';
+import type { RoomBanInput } from '@medinvest/shared/validators';
+import {
+  db,
+  posts,
+  roomBans,
+  roomMemberships,
+  roomModerationActionEnum,
+  roomModerationLog,
+  roomPinnedPosts,
+  users,
+} from '../db';
+import { CommentRow, softDeleteComment } from './comments';
+import { notify } from './notifications';
+import {
+  encodeCursor,
+  fetchPostPage,
+  formatAuthor,
+  PostCursor,
+  PostRow,
+  PostWithAuthor,
+} from './posts';
+import { deletePost } from './reposts';
+import { recordMembershipEvent, type RoomRow } from './rooms';
+
+// ============================================
+// Types
+// ============================================
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type ModerationAction = (typeof roomModerationActionEnum.enumValues)[number];
+
+export type RoomBanRow = typeof roomBans.$inferSelect;
+
+interface ModerationLogEntry {
+  roomId: number;
+  moderatorId: string;
+  action: ModerationAction;
+  targetUserId?: string | null;
+  postId?: string;
+  commentId?: string;
+  reason?: string;
+  excerpt?: string;
+  expiresAt?: Date | null;
+}
+
+export type BanResult =
+  | { status: 'ok'; ban: RoomBanRow }
+  | { status: 'user_not_found' }
+  | { status: 'is_moderator' };
+
+export type AddModeratorResult =
+  | { status: 'ok' }
+  | { status: 'user_not_found' }
+  | { status: 'banned' };
+
+export type RoomPinResult =
+  | { status: 'ok' }
+  | { status: 'already_pinned' }
+  | { status: 'limit_reached' };
+
+// ============================================
+// Helpers
+// ============================================
+
+const EXCERPT_LENGTH = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function activeBanCondition(now: Date) {
+  return or(isNull(roomBans.expiresAt), gt(roomBans.expiresAt, now));
+}
+
+/**
+ * Record a moderator's action in the room's moderation log
+ */
+export async function logModerationAction(
+  entry: ModerationLogEntry,
+  tx: Transaction | typeof db = db
+) {
+  // Millisecond precision, so entries round-trip through the log cursor
+  await tx.insert(roomModerationLog).values({ ...entry, createdAt: new Date() });
+}
+
+/**
+ * The user a log entry is about. Anonymous authors are left out so the log
+ * does not reveal them to room moderators.
+ */
+function visibleAuthorId(content: { authorId: string; isAnonymous: boolean }): string | null {
+  return content.isAnonymous ? null : content.authorId;
+}
+
+async function notifyMember(
+  userId: string,
+  title: string,
+  body: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  await notify({ userId, type: 'room_moderation', title, body, data, channelId: 'social' });
+}
+
+// ============================================
+// Permissions
+// ============================================
+
+/**
+ * Whether a user is one of a room's moderators. Site moderators and admins
+ * can moderate every room; callers check that separately.
+ */
+export async function isRoomModerator(roomId: number, userId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: roomMemberships.id })
+    .from(roomMemberships)
+    .where(
+      and(
+        eq(roomMemberships.roomId, roomId),
+        eq(roomMemberships.userId, userId),
+        eq(roomMemberships.role, 'moderator')
+      )
+    )
+    .limit(1);
+  return !!row;
+}
+
+/**
+ * Make a user one of a room's moderators, adding them as a member if needed
+ */
+export async function addRoomModerator(
+  roomId: number,
+  userId: string,
+  moderatorId: string
+): Promise<AddModeratorResult> {
+  const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) return { status: 'user_not_found' };
+  if (await fetchActiveBan(roomId, userId)) return { status: 'banned' };
+
+  await db.transaction(async tx => {
+    const [joined] = await tx
+      .insert(roomMemberships)
+      .values({ roomId, userId, role: 'moderator' })
+      .onConflictDoNothing()
+      .returning({ id: roomMemberships.id });
+    if (joined) {
+      await recordMembershipEvent(roomId, userId, 'join', tx);
+    } else {
+      await tx
+        .update(roomMemberships)
+        .set({ role: 'moderator' })
+        .where(and(eq(roomMemberships.roomId, roomId), eq(roomMemberships.userId, userId)));
+    }
+    await logModerationAction(
+      { roomId, moderatorId, action: 'add_moderator', targetUserId: userId },
+      tx
+    );
+  });
+  return { status: 'ok' };
+}
+
+/**
+ * Return a room moderator to an ordinary member. Returns false if they were
+ * not a moderator.
+ */
+export async function removeRoomModerator(
+  roomId: number,
+  userId: string,
+  moderatorId: string
+): Promise<boolean> {
+  return db.transaction(async tx => {
+    const [updated] = await tx
+      .update(roomMemberships)
+      .set({ role: 'member' })
+      .where(
+        and(
+          eq(roomMemberships.roomId, roomId),
+          eq(roomMemberships.userId, userId),
+          eq(roomMemberships.role, 'moderator')
+        )
+      )
+      .returning({ id: roomMemberships.id });
+    if (!updated) return false;
+
+    await logModerationAction(
+      { roomId, moderatorId, action: 'remove_moderator', targetUserId: userId },
+      tx
+    );
+    return true;
+  });
+}
+
+// ============================================
+// Removals
+// ============================================
+
+/**
+ * Remove a post from a room. The author is told why; the log keeps an
+ * excerpt so the room's moderators can review the removal.
+ */
+export async function removeRoomPost(
+  room: RoomRow,
+  post: PostRow,
+  moderatorId: string,
+  reason: string
+): Promise<void> {
+  await deletePost(post);
+  await logModerationAction({
+    roomId: room.id,
+    moderatorId,
+    action: 'remove_post',
+    targetUserId: visibleAuthorId(post),
+    postId: post.id,
+    reason,
+    excerpt: post.content.slice(0, EXCERPT_LENGTH),
+  });
+
+  if (post.authorId !== moderatorId) {
+    notifyMember(
+      post.authorId,
+      'Post removed',
+      `Your post in ${room.name} was removed by a moderator: ${reason}`,
+      { room_id: room.id, room_slug: room.slug, reason }
+    ).catch(error => console.error('Room moderation notification error:', error));
+  }
+}
+
+/**
+ * Remove a comment on a room post, leaving the usual deleted placeholder in
+ * the thread, and tell its author why
+ */
+export async function removeRoomComment(
+  room: RoomRow,
+  comment: CommentRow,
+  moderatorId: string,
+  reason: string
+): Promise<void> {
+  await softDeleteComment(comment);
+  await logModerationAction({
+    roomId: room.id,
+    moderatorId,
+    action: 'remove_comment',
+    targetUserId: visibleAuthorId(comment),
+    postId: comment.postId,
+    commentId: comment.id,
+    reason,
+    excerpt: comment.content.slice(0, EXCERPT_LENGTH),
+  });
+
+  if (comment.authorId !== moderatorId) {
+    notifyMember(
+      comment.authorId,
+      'Comment removed',
+      `Your comment in ${room.name} was removed by a moderator: ${reason}`,
+      { room_id: room.id, room_slug: room.slug, post_id: comment.postId, reason }
+    ).catch(error => console.error('Room moderation notification error:', error));
+  }
+}
+
+// ============================================
+// Bans
+// ============================================
+
+/**
+ * A user's ban from a room, if one is in force
+ */
+export async function fetchActiveBan(
+  roomId: number,
+  userId: string,
+  now = new Date()
+): Promise<RoomBanRow | null> {
+  const [ban] = await db
+    .select()
+    .from(roomBans)
+    .where(and(eq(roomBans.roomId, roomId), eq(roomBans.userId, userId), activeBanCondition(now)))
+    .limit(1);
+  return ban ?? null;
+}
+
+/**
+ * Ban a user from a room, for duration_days or permanently. They leave the
+ * room and cannot rejoin, post or comment there until the ban ends. Room
+ * moderators and site staff cannot be banned.
+ */
+export async function banUser(
+  room: RoomRow,
+  moderatorId: string,
+  input: RoomBanInput,
+  now = new Date()
+): Promise<BanResult> {
+  const [user] = await db
+    .select({ id: users.id, role: users.role })
+    .from(users)
+    .where(eq(users.id, input.user_id))
+    .limit(1);
+  if (!user) return { status: 'user_not_found' };
+  if (user.role !== 'user' || (await isRoomModerator(room.id, user.id))) {
+    return { status: 'is_moderator' };
+  }
+
+  const expiresAt = input.duration_days
+    ? new Date(now.getTime() + input.duration_days * DAY_MS)
+    : null;
+
+  const ban = await db.transaction(async tx => {
+    const [row] = await tx
+      .insert(roomBans)
+      .values({
+        roomId: room.id,
+        userId: user.id,
+        moderatorId,
+        reason: input.reason,
+        expiresAt,
+        createdAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [roomBans.roomId, roomBans.userId],
+        set: { moderatorId, reason: input.reason, expiresAt, createdAt: now },
+      })
+      .returning();
+
+    const left = await tx
+      .delete(roomMemberships)
+      .where(and(eq(roomMemberships.roomId, room.id), eq(roomMemberships.userId, user.id)))
+      .returning({ id: roomMemberships.id });
+    if (left.length > 0) await recordMembershipEvent(room.id, user.id, 'leave', tx, now);
+    await logModerationAction(
+      {
+        roomId: room.id,
+        moderatorId,
+        action: 'ban',
+        targetUserId: user.id,
+        reason: input.reason,
+        expiresAt,
+      },
+      tx
+    );
+    return row;
+  });
+
+  const until = expiresAt ? ` until ${expiresAt.toDateString()}` : '';
+  notifyMember(
+    user.id,
+    `Banned from ${room.name}`,
+    `You can't join, post or comment in ${room.name}${until}: ${input.reason}`,
+    {
+      room_id: room.id,
+      room_slug: room.slug,
+      reason: input.reason,
+      expires_at: expiresAt?.toISOString() ?? null,
+    }
+  ).catch(error => console.error('Room moderation notification error:', error));
+
+  return { status: 'ok', ban };
+}
+
+/**
+ * Lift a user's ban from a room. Returns false if they were not banned.
+ */
+export async function unbanUser(
+  room: RoomRow,
+  userId: string,
+  moderatorId: string
+): Promise<boolean> {
+  return db.transaction(async tx => {
+    const [deleted] = await tx
+      .delete(roomBans)
+      .where(and(eq(roomBans.roomId, room.id), eq(roomBans.userId, userId)))
+      .returning({ id: roomBans.id });
+    if (!deleted) return false;
+
+    await logModerationAction(
+      { roomId: room.id, moderatorId, action: 'unban', targetUserId: userId },
+      tx
+    );
+    return true;
+  });
+}
+
+/**
+ * A room's bans in force, most recent first
+ */
+export async function fetchBans(roomId: number, now = new Date()) {
+  const rows = await db
+    .select({
+      ban: roomBans,
+      user: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        avatarUrl: users.avatarUrl,
+        isVerified: users.isVerified,
+      },
+    })
+    .from(roomBans)
+    .innerJoin(users, eq(roomBans.userId, users.id))
+    .where(and(eq(roomBans.roomId, roomId), activeBanCondition(now)))
+    .orderBy(desc(roomBans.createdAt));
+
+  return rows.map(({ ban, user }) => ({
+    user: formatAuthor(user),
+    reason: ban.reason,
+    expires_at: ban.expiresAt?.toISOString() ?? null,
+    created_at: ban.createdAt.toISOString(),
+  }));
+}
+
+// ============================================
+// Announcements
+// ============================================
+
+/**
+ * Pin one of a room's posts to the top of the room as an announcement
+ */
+export async function pinRoomPost(
+  roomId: number,
+  postId: string,
+  moderatorId: string
+): Promise<RoomPinResult> {
+  return db.transaction(async tx => {
+    const [pinned] = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(roomPinnedPosts)
+      .where(eq(roomPinnedPosts.roomId, roomId));
+    if (pinned.count >= LIMITS.ROOM_PINNED_POSTS_MAX) return { status: 'limit_reached' };
+
+    const [created] = await tx
+      .insert(roomPinnedPosts)
+      .values({ roomId, postId, pinnedBy: moderatorId })
+      .onConflictDoNothing()
+      .returning({ id: roomPinnedPosts.id });
+    if (!created) return { status: 'already_pinned' };
+
+    await logModerationAction({ roomId, moderatorId, action: 'pin', postId }, tx);
+    return { status: 'ok' };
+  });
+}
+
+/**
+ * Unpin a room announcement. Returns false if the post was not pinned.
+ */
+export async function unpinRoomPost(
+  roomId: number,
+  postId: string,
+  moderatorId: string
+): Promise<boolean> {
+  return db.transaction(async tx => {
+    const [deleted] = await tx
+      .delete(roomPinnedPosts)
+      .where(and(eq(roomPinnedPosts.roomId, roomId), eq(roomPinnedPosts.postId, postId)))
+      .returning({ id: roomPinnedPosts.id });
+    if (!deleted) return false;
+
+    await logModerationAction({ roomId, moderatorId, action: 'unpin', postId }, tx);
+    return true;
+  });
+}
+
+/**
+ * A room's pinned announcements, most recently pinned first
+ */
+export async function fetchRoomPinnedPosts(roomId: number): Promise<PostWithAuthor[]> {
+  const pins = await db
+    .select({ postId: roomPinnedPosts.postId })
+    .from(roomPinnedPosts)
+    .where(eq(roomPinnedPosts.roomId, roomId))
+    .orderBy(desc(roomPinnedPosts.createdAt));
+  if (pins.length === 0) return [];
+
+  const ids = pins.map(pin => pin.postId);
+  const page = await fetchPostPage(inArray(posts.id, ids), null, ids.length);
+  const byId = new Map(page.items.map(item => [item.post.id, item]));
+  return ids.map(id => byId.get(id)).filter((item): item is PostWithAuthor => !!item);
+}
+
+// ============================================
+// Moderation Log
+// ============================================
+
+/**
+ * A page of a room's moderation log, most recent first
+ */
+export async function fetchModerationLog(
+  roomId: number,
+  options: { cursor: PostCursor | null; limit: number }
+) {
+  const rows = await db
+    .select()
+    .from(roomModerationLog)
+    .where(
+      and(
+        eq(roomModerationLog.roomId, roomId),
+        options.cursor
+          ? or(
+              lt(roomModerationLog.createdAt, options.cursor.createdAt),
+              and(
+                eq(roomModerationLog.createdAt, options.cursor.createdAt),
+                lt(roomModerationLog.id, options.cursor.id)
+              )
+            )
+          : undefined
+      )
+    )
+    .orderBy(desc(roomModerationLog.createdAt), desc(roomModerationLog.id))
+    .limit(options.limit + 1);
+
+  const hasMore = rows.length > options.limit;
+  const items = hasMore ? rows.slice(0, options.limit) : rows;
+  const last = items[items.length - 1];
+
+  const userIds = [
+    ...new Set(
+      items
+        .flatMap(entry => [entry.moderatorId, entry.targetUserId])
+        .filter((id): id is string => id !== null)
+    ),
+  ];
+  const people =
+    userIds.length > 0
+      ? await db
+          .select({
+            id: users.id,
+            firstName: users.firstName,
+            lastName: users.lastName,
+            avatarUrl: users.avatarUrl,
+            isVerified: users.isVerified,
+          })
+          .from(users)
+          .where(inArray(users.id, userIds))
+      : [];
+  const byId = new Map(people.map(person => [person.id, formatAuthor(person)]));
+
+  return {
+    entries: items.map(entry => ({
+      id: entry.id,
+      action: entry.action,
+      moderator: entry.moderatorId ? (byId.get(entry.moderatorId) ?? null) : null,
+      target_user: entry.targetUserId ? (byId.get(entry.targetUserId) ?? null) : null,
+      post_id: entry.postId,
+      comment_id: entry.commentId,
+      reason: entry.reason,
+      excerpt: entry.excerpt,
+      expires_at: entry.expiresAt?.toISOString() ?? null,
+      created_at: entry.createdAt.toISOString(),
+    })),
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor(last) : null,
+  };
+}
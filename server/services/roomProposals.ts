@@ -0,0 +1,330 @@
+import { and, asc, eq, lt, or, sql } from 'drizzle-orm';
+import { LIMITS } from '@medinvest/shared/constants';
+import { slugify } from '@medinvest/shared/utils';
+import type { CreateRoomInput } from '@medinvest/shared/validators';
+import { db, posts, roomMemberships, rooms, users } from '../db';
+import { notify } from './notifications';
+import { formatAuthor } from './posts';
+import { fetchModerators, formatRoom, recordMembershipEvent, RoomRow } from './rooms';
+
+// ============================================
+// Types
+// ============================================
+
+export type ProposeRoomResult =
+  | { status: 'ok'; room: RoomRow }
+  | { status: 'name_taken' }
+  | { status: 'slug_taken' }
+  | { status: 'invalid_slug' }
+  | { status: 'limit_reached' };
+
+// ============================================
+// Constants
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days without a new post before a user-created room is archived */
+export const ROOM_INACTIVE_DAYS = 90;
+
+/** How often rooms are checked for inactivity */
+export const ARCHIVE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const SLUG_MIN = 3;
+const SLUG_MAX = 60;
+
+// ============================================
+// Proposals
+// ============================================
+
+/**
+ * Propose a new room. It stays pending, hidden from everyone but its
+ * proposer and admins, until an admin approves it. The slug is taken from
+ * the name unless one is given. Names are unique regardless of case.
+ */
+export async function proposeRoom(
+  userId: string,
+  input: CreateRoomInput,
+  now = new Date()
+): Promise<ProposeRoomResult> {
+  const slug = input.slug ?? slugify(input.name).slice(0, SLUG_MAX).replace(/-+$/, '');
+  // Numeric slugs would be read as room ids by findRoom
+  if (slug.length < SLUG_MIN || /^\d+$/.test(slug)) return { status: 'invalid_slug' };
+
+  const [[pending], [existing]] = await Promise.all([
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(rooms)
+      .where(and(eq(rooms.createdBy, userId), eq(rooms.status, 'pending'))),
+    db
+      .select({ name: rooms.name, slug: rooms.slug })
+      .from(rooms)
+      .where(or(sql`lower(${rooms.name}) = ${input.name.toLowerCase()}`, eq(rooms.slug, slug)))
+      .limit(1),
+  ]);
+  if (pending.count >= LIMITS.ROOM_PROPOSALS_PENDING_MAX) return { status: 'limit_reached' };
+  if (existing) {
+    return existing.slug === slug ? { status: 'slug_taken' } : { status: 'name_taken' };
+  }
+
+  // A proposal racing this one for the same name or slug loses here
+  const [room] = await db
+    .insert(rooms)
+    .values({
+      slug,
+      name: input.name,
+      description: input.description,
+      icon: input.icon,
+      color: input.color,
+      specialty: input.specialty,
+      rules: input.rules?.length ? JSON.stringify(input.rules) : null,
+      status: 'pending',
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (!room) return { status: 'name_taken' };
+
+  notifyAdmins(room, userId).catch(error =>
+    console.error('Room proposal notification error:', error)
+  );
+  return { status: 'ok', room };
+}
+
+async function notifyAdmins(room: RoomRow, userId: string): Promise<void> {
+  const [[proposer], admins] = await Promise.all([
+    db
+      .select({ firstName: users.firstName, lastName: users.lastName })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1),
+    db.select({ id: users.id }).from(users).where(eq(users.role, 'admin')),
+  ]);
+  if (!proposer) return;
+
+  await Promise.all(
+    admins.map(admin =>
+      notify({
+        userId: admin.id,
+        type: 'room_proposal',
+        title: 'New room proposal',
+        body: `${proposer.firstName} ${proposer.lastName} proposed ${room.name}`,
+        data: { room_id: room.id, room_slug: room.slug },
+      })
+    )
+  );
+}
+
+/**
+ * Pending room proposals with their proposers, oldest first. Pass a user id
+ * for just that user's proposals.
+ */
+export async function fetchRoomProposals(proposerId?: string) {
+  const conditions = [eq(rooms.status, 'pending')];
+  if (proposerId) conditions.push(eq(rooms.createdBy, proposerId));
+
+  return db
+    .select({
+      room: rooms,
+      creator: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        avatarUrl: users.avatarUrl,
+        isVerified: users.isVerified,
+      },
+    })
+    .from(rooms)
+    .leftJoin(users, eq(rooms.createdBy, users.id))
+    .where(and(...conditions))
+    .orderBy(asc(rooms.createdAt));
+}
+
+/**
+ * Find a pending room proposal by slug or id
+ */
+export async function findRoomProposal(slugOrId: string): Promise<RoomRow | null> {
+  const condition = /^\d+$/.test(slugOrId)
+    ? eq(rooms.id, Number(slugOrId))
+    : eq(rooms.slug, slugOrId.toLowerCase());
+
+  const [room] = await db
+    .select()
+    .from(rooms)
+    .where(and(condition, eq(rooms.status, 'pending')))
+    .limit(1);
+  return room ?? null;
+}
+
+// ============================================
+// Review
+// ============================================
+
+/**
+ * Approve a pending room. Its proposer joins as its first moderator and is
+ * told it is live. Returns null if the room is no longer pending.
+ */
+export async function approveRoom(
+  room: RoomRow,
+  adminId: string,
+  now = new Date()
+): Promise<RoomRow | null> {
+  const approved = await db.transaction(async tx => {
+    const [updated] = await tx
+      .update(rooms)
+      .set({ status: 'active', reviewedBy: adminId, activatedAt: now, updatedAt: now })
+      .where(and(eq(rooms.id, room.id), eq(rooms.status, 'pending')))
+      .returning();
+    if (!updated) return null;
+
+    if (updated.createdBy) {
+      await tx.insert(roomMemberships).values({
+        roomId: updated.id,
+        userId: updated.createdBy,
+        role: 'moderator',
+        rulesAcceptedAt: now,
+        createdAt: now,
+      });
+      await recordMembershipEvent(updated.id, updated.createdBy, 'join', tx, now);
+    }
+    return updated;
+  });
+  if (!approved) return null;
+
+  if (approved.createdBy) {
+    notify({
+      userId: approved.createdBy,
+      type: 'room_status',
+      title: `${approved.name} is live`,
+      body: 'Your room was approved. You are its first moderator.',
+      data: { room_id: approved.id, room_slug: approved.slug },
+      channelId: 'social',
+    }).catch(error => console.error('Room approval notification error:', error));
+  }
+  return approved;
+}
+
+/**
+ * Decline a pending room. The proposal is deleted, freeing its name and
+ * slug, and its proposer is told the reason. Returns false if the room is
+ * no longer pending.
+ */
+export async function declineRoom(room: RoomRow, reason: string): Promise<boolean> {
+  const deleted = await db
+    .delete(rooms)
+    .where(and(eq(rooms.id, room.id), eq(rooms.status, 'pending')))
+    .returning({ id: rooms.id });
+  if (deleted.length === 0) return false;
+
+  if (room.createdBy) {
+    notify({
+      userId: room.createdBy,
+      type: 'room_status',
+      title: `${room.name} was not approved`,
+      body: reason,
+      data: { room_name: room.name, reason },
+      channelId: 'social',
+    }).catch(error => console.error('Room decline notification error:', error));
+  }
+  return true;
+}
+
+// ============================================
+// Archival
+// ============================================
+
+/**
+ * Archive a room by hand. Returns false if it is not active.
+ */
+export async function archiveRoom(roomId: number, now = new Date()): Promise<boolean> {
+  const archived = await db
+    .update(rooms)
+    .set({ status: 'archived', archivedAt: now, updatedAt: now })
+    .where(and(eq(rooms.id, roomId), eq(rooms.status, 'active')))
+    .returning({ id: rooms.id });
+  return archived.length > 0;
+}
+
+/**
+ * Bring an archived room back. Inactivity is counted afresh from now, so it
+ * is not archived again straight away. Returns false if it is not archived.
+ */
+export async function restoreRoom(
+  roomId: number,
+  adminId: string,
+  now = new Date()
+): Promise<boolean> {
+  const restored = await db
+    .update(rooms)
+    .set({
+      status: 'active',
+      reviewedBy: adminId,
+      activatedAt: now,
+      archivedAt: null,
+      updatedAt: now,
+    })
+    .where(and(eq(rooms.id, roomId), eq(rooms.status, 'archived')))
+    .returning({ id: rooms.id });
+  return restored.length > 0;
+}
+
+/**
+ * Archive user-created rooms that have had no new posts for
+ * ROOM_INACTIVE_DAYS since they were approved or restored, and let their
+ * moderators know. The seeded rooms are never archived.
+ */
+export async function archiveInactiveRooms(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - ROOM_INACTIVE_DAYS * DAY_MS);
+
+  const archived = await db
+    .update(rooms)
+    .set({ status: 'archived', archivedAt: now, updatedAt: now })
+    .where(
+      and(
+        eq(rooms.status, 'active'),
+        lt(rooms.activatedAt, cutoff),
+        sql`not exists (select 1 from ${posts} where ${posts.roomId} = ${rooms.id} and ${posts.createdAt} > ${cutoff})`
+      )
+    )
+    .returning();
+
+  for (const room of archived) {
+    notifyArchived(room).catch(error => console.error('Room archive notification error:', error));
+  }
+  return archived.length;
+}
+
+async function notifyArchived(room: RoomRow): Promise<void> {
+  const moderators = await fetchModerators(room.id);
+  await Promise.all(
+    moderators.map(moderator =>
+      notify({
+        userId: moderator.id,
+        type: 'room_status',
+        title: `${room.name} was archived`,
+        body: `There were no new posts for ${ROOM_INACTIVE_DAYS} days. Contact an admin to restore it.`,
+        data: { room_id: room.id, room_slug: room.slug },
+        channelId: 'social',
+      })
+    )
+  );
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format a room proposal with its proposer for API responses
+ */
+export function formatRoomProposal({
+  room,
+  creator,
+}: Awaited<ReturnType<typeof fetchRoomProposals>>[number]) {
+  return {
+    ...formatRoom({ room, postsCount: 0, membersCount: 0 }, false),
+    created_by: creator ? formatAuthor(creator) : null,
+  };
+}
@@ -0,0 +1,343 @@
+import { and, asc, desc, eq, inArray, isNull, ne, or, SQL, sql } from 'drizzle-orm';
+import {
+  db,
+  posts,
+  roomJoinRequestStatusEnum,
+  roomMembershipEvents,
+  roomMembershipEventTypeEnum,
+  roomMemberships,
+  rooms,
+  roomStatusEnum,
+  users,
+} from '../db';
+import { formatAuthor, parseJsonArray } from './posts';
+
+// ============================================
+// Types
+// ============================================
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type RoomRow = typeof rooms.$inferSelect;
+
+export type RoomMembershipRow = typeof roomMemberships.$inferSelect;
+
+export type RoomJoinRequestStatus = (typeof roomJoinRequestStatusEnum.enumValues)[number];
+
+export type RoomStatus = (typeof roomStatusEnum.enumValues)[number];
+
+export type RoomMembershipEventType = (typeof roomMembershipEventTypeEnum.enumValues)[number];
+
+export interface RoomWithCounts {
+  room: RoomRow;
+  postsCount: number;
+  membersCount: number;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+// Counted on read so they can never drift from the posts and memberships
+const roomWithCounts = {
+  room: rooms,
+  postsCount: sql<number>`(select count(*) from ${posts} where ${posts.roomId} = ${rooms.id})::int`,
+  membersCount: sql<number>`(select count(*) from ${roomMemberships} where ${roomMemberships.roomId} = ${rooms.id})::int`,
+};
+
+/**
+ * Active rooms with their post and member counts, optionally in one specialty
+ */
+export async function fetchRooms(specialty?: string): Promise<RoomWithCounts[]> {
+  const conditions = [eq(rooms.status, 'active')];
+  if (specialty) conditions.push(eq(rooms.specialty, specialty));
+
+  return db
+    .select(roomWithCounts)
+    .from(rooms)
+    .where(and(...conditions))
+    .orderBy(asc(rooms.id));
+}
+
+/**
+ * Find a room by slug, or by id for clients that address rooms by id.
+ * Proposals still waiting for approval are left out.
+ */
+export async function findRoom(slugOrId: string): Promise<RoomWithCounts | null> {
+  const condition = /^\d+$/.test(slugOrId)
+    ? eq(rooms.id, Number(slugOrId))
+    : eq(rooms.slug, slugOrId.toLowerCase());
+
+  const [row] = await db
+    .select(roomWithCounts)
+    .from(rooms)
+    .where(and(condition, ne(rooms.status, 'pending')))
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * Rooms with the given ids, keyed by id
+ */
+export async function fetchRoomsByIds(roomIds: number[]): Promise<Map<number, RoomWithCounts>> {
+  const byId = new Map<number, RoomWithCounts>();
+  if (roomIds.length === 0) return byId;
+
+  const rows = await db
+    .select(roomWithCounts)
+    .from(rooms)
+    .where(inArray(rooms.id, [...new Set(roomIds)]));
+
+  for (const row of rows) {
+    byId.set(row.room.id, row);
+  }
+  return byId;
+}
+
+/**
+ * The status of a room id given in a request, or null if there is no such room
+ */
+export async function fetchRoomStatus(roomId: number): Promise<RoomStatus | null> {
+  const [row] = await db
+    .select({ status: rooms.status })
+    .from(rooms)
+    .where(eq(rooms.id, roomId))
+    .limit(1);
+  return row?.status ?? null;
+}
+
+/**
+ * The rooms a user has joined, most recently joined first
+ */
+export async function fetchJoinedRooms(userId: string): Promise<RoomWithCounts[]> {
+  return db
+    .select(roomWithCounts)
+    .from(roomMemberships)
+    .innerJoin(rooms, eq(roomMemberships.roomId, rooms.id))
+    .where(eq(roomMemberships.userId, userId))
+    .orderBy(desc(roomMemberships.createdAt));
+}
+
+/**
+ * A room's moderators, earliest first
+ */
+export async function fetchModerators(roomId: number) {
+  return db
+    .select({
+      id: users.id,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      avatarUrl: users.avatarUrl,
+      isVerified: users.isVerified,
+    })
+    .from(roomMemberships)
+    .innerJoin(users, eq(roomMemberships.userId, users.id))
+    .where(and(eq(roomMemberships.roomId, roomId), eq(roomMemberships.role, 'moderator')))
+    .orderBy(asc(roomMemberships.createdAt));
+}
+
+/**
+ * Count a room's members
+ */
+export async function countMembers(roomId: number): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(roomMemberships)
+    .where(eq(roomMemberships.roomId, roomId));
+  return row.count;
+}
+
+// ============================================
+// Room Memberships
+// ============================================
+
+/**
+ * A user's membership of a room, if they have joined it
+ */
+export async function fetchMembership(
+  roomId: number,
+  userId: string | undefined
+): Promise<RoomMembershipRow | null> {
+  if (!userId) return null;
+
+  const [membership] = await db
+    .select()
+    .from(roomMemberships)
+    .where(and(eq(roomMemberships.roomId, roomId), eq(roomMemberships.userId, userId)))
+    .limit(1);
+  return membership ?? null;
+}
+
+/**
+ * Get the ids of rooms a user has joined
+ */
+export async function getJoinedRoomIds(userId: string | undefined): Promise<Set<number>> {
+  if (!userId) return new Set();
+
+  const rows = await db
+    .select({ roomId: roomMemberships.roomId })
+    .from(roomMemberships)
+    .where(eq(roomMemberships.userId, userId));
+
+  return new Set(rows.map(row => row.roomId));
+}
+
+/**
+ * Record a member joining or leaving a room, for room analytics
+ */
+export async function recordMembershipEvent(
+  roomId: number,
+  userId: string,
+  type: RoomMembershipEventType,
+  tx: Transaction | typeof db = db,
+  now = new Date()
+): Promise<void> {
+  await tx.insert(roomMembershipEvents).values({ roomId, userId, type, createdAt: now });
+}
+
+/**
+ * Add a user to a room, recording when they accepted its rules. Joining a
+ * room twice is a no-op.
+ */
+export async function joinRoom(userId: string, roomId: number, now = new Date()): Promise<void> {
+  await db.transaction(async tx => {
+    const [joined] = await tx
+      .insert(roomMemberships)
+      .values({ roomId, userId, rulesAcceptedAt: now, createdAt: now })
+      .onConflictDoNothing()
+      .returning({ id: roomMemberships.id });
+    if (joined) await recordMembershipEvent(roomId, userId, 'join', tx, now);
+  });
+}
+
+/**
+ * Remove a user from a room
+ */
+export async function leaveRoom(userId: string, roomId: number): Promise<void> {
+  await db.transaction(async tx => {
+    const left = await tx
+      .delete(roomMemberships)
+      .where(and(eq(roomMemberships.roomId, roomId), eq(roomMemberships.userId, userId)))
+      .returning({ id: roomMemberships.id });
+    if (left.length > 0) await recordMembershipEvent(roomId, userId, 'leave', tx);
+  });
+}
+
+// ============================================
+// Visibility
+// ============================================
+
+/**
+ * Whether a viewer can read a room's posts. Private and invite-only rooms
+ * show them to members only.
+ */
+export function canViewRoomPosts(room: RoomRow, isMember: boolean): boolean {
+  return room.visibility === 'public' || isMember;
+}
+
+/**
+ * SQL condition keeping posts in private and invite-only rooms out of
+ * listings for anyone who has not joined them
+ */
+export function visibleRoomPostsCondition(joinedRoomIds: Set<number>): SQL {
+  const conditions = [
+    isNull(posts.roomId),
+    inArray(
+      posts.roomId,
+      db.select({ id: rooms.id }).from(rooms).where(eq(rooms.visibility, 'public'))
+    ),
+  ];
+  if (joinedRoomIds.size > 0) {
+    conditions.push(inArray(posts.roomId, [...joinedRoomIds]));
+  }
+  return or(...conditions)!;
+}
+
+/**
+ * Whether a viewer can see posts and activity in the given room, if any. Posts
+ * outside rooms pass a null room.
+ */
+export async function canViewRoomContent(
+  roomId: number | null,
+  viewerId: string | undefined
+): Promise<boolean> {
+  if (roomId === null) return true;
+
+  const [room] = await db
+    .select({ visibility: rooms.visibility })
+    .from(rooms)
+    .where(eq(rooms.id, roomId))
+    .limit(1);
+  if (!room || room.visibility === 'public') return true;
+  return (await fetchMembership(roomId, viewerId)) !== null;
+}
+
+/**
+ * Of the given users, those who can see posts in the given room, if any
+ */
+export async function filterRoomViewers(
+  roomId: number | null,
+  userIds: string[]
+): Promise<string[]> {
+  if (userIds.length === 0 || (await canViewRoomContent(roomId, undefined))) return userIds;
+
+  const rows = await db
+    .select({ userId: roomMemberships.userId })
+    .from(roomMemberships)
+    .where(and(eq(roomMemberships.roomId, roomId!), inArray(roomMemberships.userId, userIds)));
+
+  const members = new Set(rows.map(row => row.userId));
+  return userIds.filter(id => members.has(id));
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/**
+ * Format a room for API responses
+ */
+export function formatRoom({ room, postsCount, membersCount }: RoomWithCounts, isMember: boolean) {
+  return {
+    id: room.id,
+    name: room.name,
+    slug: room.slug,
+    description: room.description,
+    icon: room.icon,
+    color: room.color,
+    posts_count: postsCount,
+    members_count: membersCount,
+    is_member: isMember,
+    visibility: room.visibility,
+    specialty: room.specialty,
+    status: room.status,
+    created_at: room.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Format a room with its rules and moderators for the room page, along with
+ * whether the viewer moderates it, any ban they are under and the state of
+ * their request to join
+ */
+export function formatRoomDetail(
+  row: RoomWithCounts,
+  viewer: {
+    isMember: boolean;
+    isModerator: boolean;
+    ban: { reason: string; expiresAt: Date | null } | null;
+    joinRequestStatus: RoomJoinRequestStatus | null;
+  },
+  moderators: Awaited<ReturnType<typeof fetchModerators>>
+) {
+  return {
+    ...formatRoom(row, viewer.isMember),
+    rules: parseJsonArray(row.room.rules),
+    moderators: moderators.map(formatAuthor),
+    is_moderator: viewer.isModerator,
+    ban: viewer.ban
+      ? { reason: viewer.ban.reason, expires_at: viewer.ban.expiresAt?.toISOString() ?? null }
+      : null,
+    join_request_status: viewer.joinRequestStatus,
+  };
+}
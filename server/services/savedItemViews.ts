@@ -0,0 +1,82 @@
+import { and, inArray } from 'drizzle-orm';
+import { articles, db, investments, posts } from '../db';
+import type { AuthUser } from '../middleware/auth';
+import { formatArticle } from './articles';
+import { fetchListedDeals, formatDealsForViewer } from './deals';
+import { formatInvestment } from './investments';
+import { fetchPostPage } from './posts';
+import { formatPostsForViewer } from './postViews';
+import { getJoinedRoomIds, visibleRoomPostsCondition } from './rooms';
+import type { SavedItemRow } from './savedItems';
+
+function idsOfType(rows: SavedItemRow[], itemType: SavedItemRow['itemType']): string[] {
+  return rows.filter(row => row.itemType === itemType).map(row => row.itemId);
+}
+
+/**
+ * Load the posts, articles, deals and investments behind saved items, keyed
+ * by `${type}:${id}`. Each is formatted the way its own API returns it.
+ */
+async function fetchSavedTargets(rows: SavedItemRow[], viewer: AuthUser) {
+  const postIds = idsOfType(rows, 'post');
+  const articleIds = idsOfType(rows, 'article');
+  const investmentIds = idsOfType(rows, 'investment');
+  const dealIds = idsOfType(rows, 'deal').map(Number);
+  const joinedRoomIds = await getJoinedRoomIds(viewer.id);
+
+  const [postPage, articleRows, investmentRows, dealRows] = await Promise.all([
+    postIds.length > 0
+      ? fetchPostPage(
+          and(inArray(posts.id, postIds), visibleRoomPostsCondition(joinedRoomIds)),
+          null,
+          postIds.length
+        )
+      : { items: [] },
+    articleIds.length > 0 ? db.select().from(articles).where(inArray(articles.id, articleIds)) : [],
+    investmentIds.length > 0
+      ? db.select().from(investments).where(inArray(investments.id, investmentIds))
+      : [],
+    fetchListedDeals(dealIds),
+  ]);
+
+  const targets = new Map<string, unknown>();
+  for (const post of await formatPostsForViewer(postPage.items, viewer.id)) {
+    targets.set(`post:${post.id}`, post);
+  }
+  for (const article of articleRows) {
+    targets.set(`article:${article.id}`, formatArticle(article, true));
+  }
+  for (const investment of investmentRows) {
+    targets.set(`investment:${investment.id}`, formatInvestment(investment));
+  }
+  for (const deal of await formatDealsForViewer(dealRows, viewer)) {
+    targets.set(`deal:${deal.id}`, deal);
+  }
+  return targets;
+}
+
+/**
+ * Format saved items with the things they point at. Items whose target has
+ * since been removed, or is a post in a private room the viewer has left,
+ * are left out.
+ */
+export async function formatSavedItemsForViewer(rows: SavedItemRow[], viewer: AuthUser) {
+  const targets = await fetchSavedTargets(rows, viewer);
+
+  return rows.flatMap(row => {
+    const item = targets.get(`${row.itemType}:${row.itemId}`);
+    if (!item) return [];
+    return [
+      {
+        id: row.id,
+        item_type: row.itemType,
+        item_id: row.itemId,
+        collection_id: row.collectionId,
+        note: row.note,
+        item,
+        created_at: row.createdAt.toISOString(),
+        updated_at: row.updatedAt.toISOString(),
+      },
+    ];
+  });
+}
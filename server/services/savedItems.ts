@@ -0,0 +1,514 @@
+import { and, asc, count, desc, eq, inArray, isNull, lt, or, sql, SQL } from 'drizzle-orm';
+import { LIMITS } from '@medinvest/shared/constants';
+import type { SavedItemType } from '@medinvest/shared/types';
+import type { SaveItemInput, UpdateSavedItemInput } from '@medinvest/shared/validators';
+import { articles, db, investments, posts, savedCollections, savedItems, users } from '../db';
+import { findDeal } from './deals';
+import { isUuid } from './posts';
+import { canViewRoomContent } from './rooms';
+
+// ============================================
+// Types
+// ============================================
+
+export type SavedItemRow = typeof savedItems.$inferSelect;
+export type SavedCollectionRow = typeof savedCollections.$inferSelect;
+
+export interface SavedItemCursor {
+  position: number;
+  id: string;
+}
+
+export interface SavedItemFilter {
+  /** A collection id, 'unsorted' for items outside any collection, or undefined for all */
+  collection?: string;
+  itemType?: SavedItemType;
+}
+
+export type SaveItemResult =
+  | { status: 'saved'; savedItem: SavedItemRow }
+  | { status: 'not_found' }
+  | { status: 'collection_not_found' };
+
+export type UpdateSavedItemResult =
+  | { status: 'updated'; savedItem: SavedItemRow }
+  | { status: 'not_found' }
+  | { status: 'collection_not_found' };
+
+export type CollectionResult =
+  | { status: 'ok'; collection: SavedCollectionRow }
+  | { status: 'not_found' }
+  | { status: 'name_taken' }
+  | { status: 'limit_reached' };
+
+// ============================================
+// Items
+// ============================================
+
+/**
+ * Canonical id for a saved item, or null if the id can't belong to an item of
+ * that type. Deals still use numeric ids; everything else is a uuid.
+ */
+function normalizeItemId(itemType: SavedItemType, itemId: string): string | null {
+  if (itemType === 'deal') {
+    return /^\d+$/.test(itemId) ? String(Number(itemId)) : null;
+  }
+  return isUuid(itemId) ? itemId.toLowerCase() : null;
+}
+
+/**
+ * Whether the item a user wants to save exists and they can see it
+ */
+async function itemExists(
+  userId: string,
+  itemType: SavedItemType,
+  itemId: string
+): Promise<boolean> {
+  switch (itemType) {
+    case 'deal': {
+      const deal = await findDeal(itemId);
+      return deal !== null && deal.status !== 'draft';
+    }
+    case 'post': {
+      const [row] = await db
+        .select({ roomId: posts.roomId })
+        .from(posts)
+        .where(eq(posts.id, itemId))
+        .limit(1);
+      return !!row && (await canViewRoomContent(row.roomId, userId));
+    }
+    case 'article': {
+      const [row] = await db
+        .select({ id: articles.id })
+        .from(articles)
+        .where(eq(articles.id, itemId))
+        .limit(1);
+      return !!row;
+    }
+    case 'investment': {
+      const [row] = await db
+        .select({ id: investments.id })
+        .from(investments)
+        .where(eq(investments.id, itemId))
+        .limit(1);
+      return !!row;
+    }
+  }
+}
+
+async function ownsCollection(userId: string, collectionId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: savedCollections.id })
+    .from(savedCollections)
+    .where(and(eq(savedCollections.id, collectionId), eq(savedCollections.userId, userId)))
+    .limit(1);
+  return !!row;
+}
+
+// ============================================
+// Cursor Pagination
+// ============================================
+
+function encodeSavedCursor(row: Pick<SavedItemRow, 'position' | 'id'>): string {
+  return Buffer.from(`${row.position}|${row.id}`).toString('base64url');
+}
+
+/**
+ * Decode a saved items cursor, returning null if it is malformed
+ */
+export function decodeSavedCursor(cursor: string): SavedItemCursor | null {
+  try {
+    const [position, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    if (!/^-?\d+$/.test(position) || !id || !isUuid(id)) return null;
+    return { position: Number(position), id };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Fetch a page of a user's saved items in their chosen order, most recently
+ * saved first unless reordered. Fetches one extra row so callers can tell
+ * whether another page exists.
+ */
+export async function fetchSavedItemPage(
+  userId: string,
+  filter: SavedItemFilter,
+  cursor: SavedItemCursor | null,
+  limit: number
+): Promise<{ items: SavedItemRow[]; hasMore: boolean; nextCursor: string | null }> {
+  const conditions: SQL[] = [eq(savedItems.userId, userId)];
+  if (filter.collection === 'unsorted') {
+    conditions.push(isNull(savedItems.collectionId));
+  } else if (filter.collection) {
+    conditions.push(eq(savedItems.collectionId, filter.collection));
+  }
+  if (filter.itemType) {
+    conditions.push(eq(savedItems.itemType, filter.itemType));
+  }
+  const afterCursor = cursor
+    ? or(
+        lt(savedItems.position, cursor.position),
+        and(eq(savedItems.position, cursor.position), lt(savedItems.id, cursor.id))
+      )
+    : undefined;
+
+  const rows = await db
+    .select()
+    .from(savedItems)
+    .where(and(...conditions, afterCursor))
+    .orderBy(desc(savedItems.position), desc(savedItems.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore && last ? encodeSavedCursor(last) : null,
+  };
+}
+
+/**
+ * Which of the given items the viewer has saved
+ */
+export async function fetchSavedItemIds(
+  viewerId: string | undefined,
+  itemType: SavedItemType,
+  itemIds: string[]
+): Promise<Set<string>> {
+  if (!viewerId || itemIds.length === 0) return new Set();
+
+  const rows = await db
+    .select({ itemId: savedItems.itemId })
+    .from(savedItems)
+    .where(
+      and(
+        eq(savedItems.userId, viewerId),
+        eq(savedItems.itemType, itemType),
+        inArray(savedItems.itemId, itemIds)
+      )
+    );
+
+  return new Set(rows.map(row => row.itemId));
+}
+
+/**
+ * A user's collections in their chosen order, with item counts, plus the
+ * number of saved items overall and outside any collection
+ */
+export async function fetchCollections(userId: string) {
+  const [collections, [totals]] = await Promise.all([
+    db
+      .select({ collection: savedCollections, itemsCount: count(savedItems.id) })
+      .from(savedCollections)
+      .leftJoin(savedItems, eq(savedItems.collectionId, savedCollections.id))
+      .where(eq(savedCollections.userId, userId))
+      .groupBy(savedCollections.id)
+      .orderBy(asc(savedCollections.position), asc(savedCollections.createdAt)),
+    db
+      .select({
+        total: sql<number>`count(*)::int`,
+        unsorted: sql<number>`count(*) filter (where ${savedItems.collectionId} is null)::int`,
+      })
+      .from(savedItems)
+      .where(eq(savedItems.userId, userId)),
+  ]);
+
+  return {
+    collections: collections.map(row => formatCollection(row.collection, row.itemsCount)),
+    total_count: totals?.total ?? 0,
+    unsorted_count: totals?.unsorted ?? 0,
+  };
+}
+
+// ============================================
+// Item Mutations
+// ============================================
+
+/**
+ * Save an item to the top of a user's saved list. Saving an item that is
+ * already saved keeps its place and only updates the collection or note
+ * given.
+ */
+export async function saveItem(userId: string, input: SaveItemInput): Promise<SaveItemResult> {
+  const itemId = normalizeItemId(input.item_type, input.item_id);
+  if (!itemId || !(await itemExists(userId, input.item_type, itemId))) {
+    return { status: 'not_found' };
+  }
+  if (input.collection_id && !(await ownsCollection(userId, input.collection_id))) {
+    return { status: 'collection_not_found' };
+  }
+
+  return db.transaction(async tx => {
+    // Serializes saves so positions stay unique
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+
+    const [existing] = await tx
+      .select()
+      .from(savedItems)
+      .where(
+        and(
+          eq(savedItems.userId, userId),
+          eq(savedItems.itemType, input.item_type),
+          eq(savedItems.itemId, itemId)
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      if (input.collection_id === undefined && input.note === undefined) {
+        return { status: 'saved', savedItem: existing };
+      }
+      const [savedItem] = await tx
+        .update(savedItems)
+        .set({
+          ...(input.collection_id !== undefined && { collectionId: input.collection_id }),
+          ...(input.note !== undefined && { note: input.note || null }),
+          updatedAt: new Date(),
+        })
+        .where(eq(savedItems.id, existing.id))
+        .returning();
+      return { status: 'saved', savedItem };
+    }
+
+    const [{ top }] = await tx
+      .select({ top: sql<number>`coalesce(max(${savedItems.position}), 0)::int` })
+      .from(savedItems)
+      .where(eq(savedItems.userId, userId));
+
+    const [savedItem] = await tx
+      .insert(savedItems)
+      .values({
+        userId,
+        itemType: input.item_type,
+        itemId,
+        collectionId: input.collection_id ?? null,
+        note: input.note || null,
+        position: top + 1,
+      })
+      .returning();
+    return { status: 'saved', savedItem };
+  });
+}
+
+/**
+ * Unsave an item by what it points at, e.g. from a post's bookmark button
+ */
+export async function unsaveItem(
+  userId: string,
+  itemType: SavedItemType,
+  itemId: string
+): Promise<void> {
+  const normalized = normalizeItemId(itemType, itemId);
+  if (!normalized) return;
+
+  await db
+    .delete(savedItems)
+    .where(
+      and(
+        eq(savedItems.userId, userId),
+        eq(savedItems.itemType, itemType),
+        eq(savedItems.itemId, normalized)
+      )
+    );
+}
+
+/**
+ * Remove a saved item by its own id. Returns false if the user has no such item.
+ */
+export async function removeSavedItem(userId: string, savedItemId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(savedItems)
+    .where(and(eq(savedItems.id, savedItemId), eq(savedItems.userId, userId)))
+    .returning({ id: savedItems.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Drop every user's saved copy of an item that has been deleted
+ */
+export async function deleteSavedItemsFor(itemType: SavedItemType, itemId: string): Promise<void> {
+  await db
+    .delete(savedItems)
+    .where(and(eq(savedItems.itemType, itemType), eq(savedItems.itemId, itemId)));
+}
+
+/**
+ * Move a saved item to another collection (null for none) or change its note
+ */
+export async function updateSavedItem(
+  userId: string,
+  savedItemId: string,
+  input: UpdateSavedItemInput
+): Promise<UpdateSavedItemResult> {
+  if (input.collection_id && !(await ownsCollection(userId, input.collection_id))) {
+    return { status: 'collection_not_found' };
+  }
+
+  const [savedItem] = await db
+    .update(savedItems)
+    .set({
+      ...(input.collection_id !== undefined && { collectionId: input.collection_id }),
+      ...(input.note !== undefined && { note: input.note || null }),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(savedItems.id, savedItemId), eq(savedItems.userId, userId)))
+    .returning();
+
+  return savedItem ? { status: 'updated', savedItem } : { status: 'not_found' };
+}
+
+/**
+ * Reorder some of a user's saved items, listed top first. The items swap
+ * positions among themselves, so reordering within a collection leaves
+ * everything else where it was. Returns false if any id isn't the user's.
+ */
+export async function reorderSavedItems(userId: string, savedItemIds: string[]): Promise<boolean> {
+  if (new Set(savedItemIds).size !== savedItemIds.length) return false;
+
+  return db.transaction(async tx => {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+
+    const rows = await tx
+      .select({ id: savedItems.id, position: savedItems.position })
+      .from(savedItems)
+      .where(and(eq(savedItems.userId, userId), inArray(savedItems.id, savedItemIds)));
+    if (rows.length !== savedItemIds.length) return false;
+
+    const positions = rows.map(row => row.position).sort((a, b) => b - a);
+    // Bounded by the reorder schema, so one update per item is fine
+    for (const [index, id] of savedItemIds.entries()) {
+      await tx.update(savedItems).set({ position: positions[index] }).where(eq(savedItems.id, id));
+    }
+    return true;
+  });
+}
+
+// ============================================
+// Collection Mutations
+// ============================================
+
+async function isNameTaken(userId: string, name: string, exceptId?: string): Promise<boolean> {
+  const rows = await db
+    .select({ id: savedCollections.id })
+    .from(savedCollections)
+    .where(
+      and(
+        eq(savedCollections.userId, userId),
+        sql`lower(${savedCollections.name}) = ${name.toLowerCase()}`
+      )
+    );
+  return rows.some(row => row.id !== exceptId);
+}
+
+/**
+ * Create a collection at the end of a user's list
+ */
+export async function createCollection(userId: string, name: string): Promise<CollectionResult> {
+  return db.transaction(async tx => {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+
+    const existing = await tx
+      .select({ name: savedCollections.name, position: savedCollections.position })
+      .from(savedCollections)
+      .where(eq(savedCollections.userId, userId));
+
+    if (existing.length >= LIMITS.SAVED_COLLECTIONS_MAX) return { status: 'limit_reached' };
+    if (existing.some(row => row.name.toLowerCase() === name.toLowerCase())) {
+      return { status: 'name_taken' };
+    }
+
+    const [collection] = await tx
+      .insert(savedCollections)
+      .values({
+        userId,
+        name,
+        position: Math.max(-1, ...existing.map(row => row.position)) + 1,
+      })
+      .returning();
+    return { status: 'ok', collection };
+  });
+}
+
+/**
+ * Rename one of a user's collections
+ */
+export async function renameCollection(
+  userId: string,
+  collectionId: string,
+  name: string
+): Promise<CollectionResult> {
+  if (await isNameTaken(userId, name, collectionId)) return { status: 'name_taken' };
+
+  const [collection] = await db
+    .update(savedCollections)
+    .set({ name, updatedAt: new Date() })
+    .where(and(eq(savedCollections.id, collectionId), eq(savedCollections.userId, userId)))
+    .returning();
+
+  return collection ? { status: 'ok', collection } : { status: 'not_found' };
+}
+
+/**
+ * Delete a collection. Its items stay saved and become unsorted.
+ */
+export async function deleteCollection(userId: string, collectionId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(savedCollections)
+    .where(and(eq(savedCollections.id, collectionId), eq(savedCollections.userId, userId)))
+    .returning({ id: savedCollections.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Set the order of a user's collections. collectionIds must list exactly the
+ * user's collections; returns false otherwise.
+ */
+export async function reorderCollections(
+  userId: string,
+  collectionIds: string[]
+): Promise<boolean> {
+  return db.transaction(async tx => {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+
+    const rows = await tx
+      .select({ id: savedCollections.id })
+      .from(savedCollections)
+      .where(eq(savedCollections.userId, userId));
+
+    const owned = new Set(rows.map(row => row.id));
+    if (
+      collectionIds.length !== owned.size ||
+      new Set(collectionIds).size !== collectionIds.length ||
+      !collectionIds.every(id => owned.has(id))
+    ) {
+      return false;
+    }
+
+    for (const [position, id] of collectionIds.entries()) {
+      await tx.update(savedCollections).set({ position }).where(eq(savedCollections.id, id));
+    }
+    return true;
+  });
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+export function formatCollection(collection: SavedCollectionRow, itemsCount = 0) {
+  return {
+    id: collection.id,
+    name: collection.name,
+    items_count: itemsCount,
+    created_at: collection.createdAt.toISOString(),
+    updated_at: collection.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,95 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { LIMITS } from '@medinvest/shared/constants';
+import { db } from '../db';
+import {
+  checkScheduleTime,
+  nextPublishAttemptAt,
+  publishDuePosts,
+  type ScheduledPostRow,
+} from './scheduledPosts';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('checkScheduleTime', () => {
+  it('accepts a time within the scheduling window', () => {
+    assert.equal(checkScheduleTime(new Date(now.getTime() + 60 * 60 * 1000), now), null);
+  });
+
+  it('accepts a time exactly a minute ahead', () => {
+    assert.equal(checkScheduleTime(new Date(now.getTime() + 60 * 1000), now), null);
+  });
+
+  it('rejects times in the past or less than a minute ahead', () => {
+    assert.match(checkScheduleTime(new Date(now.getTime() - 1000), now)!, /at least a minute/);
+    assert.match(checkScheduleTime(new Date(now.getTime() + 59 * 1000), now)!, /at least a minute/);
+  });
+
+  it('rejects times past the scheduling window', () => {
+    const limit = now.getTime() + LIMITS.SCHEDULE_AHEAD_MAX_DAYS * DAY_MS;
+    assert.equal(checkScheduleTime(new Date(limit), now), null);
+    assert.match(checkScheduleTime(new Date(limit + 1), now)!, /days ahead/);
+  });
+});
+
+describe('nextPublishAttemptAt', () => {
+  it('backs off exponentially from five minutes', () => {
+    const delays = [1, 2, 3].map(
+      attempts => nextPublishAttemptAt(attempts, now).getTime() - now.getTime()
+    );
+    assert.deepEqual(
+      delays,
+      [5, 10, 20].map(minutes => minutes * 60 * 1000)
+    );
+  });
+});
+
+describe('publishDuePosts', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('retries a failed publish later without moving the chosen publish time', async () => {
+    const row: ScheduledPostRow = {
+      id: '3f6e1d2c-4b5a-4c7d-8e9f-0a1b2c3d4e5f',
+      authorId: '9b2c5c3e-8f1a-4b6d-9e2f-1a2b3c4d5e6f',
+      roomId: null,
+      content: 'Market open thoughts',
+      images: null,
+      videoUrl: null,
+      poll: null,
+      isAnonymous: false,
+      scheduledAt: new Date(now.getTime() - 60 * 1000),
+      status: 'scheduled',
+      attempts: 0,
+      nextAttemptAt: null,
+      failureReason: null,
+      postId: null,
+      publishedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const updates: Partial<ScheduledPostRow>[] = [];
+    mock.method(db, 'select', () => ({
+      from: () => ({ where: () => ({ orderBy: () => ({ limit: async () => [row] }) }) }),
+    }));
+    mock.method(db, 'transaction', async () => {
+      throw new Error('Database unavailable');
+    });
+    mock.method(db, 'update', () => ({
+      set: (values: Partial<ScheduledPostRow>) => ({
+        where: async () => {
+          updates.push(values);
+        },
+      }),
+    }));
+    mock.method(console, 'error', () => {});
+
+    assert.equal(await publishDuePosts(now), 0);
+    assert.equal(updates.length, 1);
+    assert.equal(updates[0].status, 'scheduled');
+    assert.equal(updates[0].attempts, 1);
+    assert.equal(updates[0].failureReason, 'Database unavailable');
+    assert.deepEqual(updates[0].nextAttemptAt, nextPublishAttemptAt(1, now));
+    assert.equal('scheduledAt' in updates[0], false);
+  });
+});
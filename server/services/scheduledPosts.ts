@@ -0,0 +1,337 @@
+import { and, asc, count, eq, inArray, lte, sql } from 'drizzle-orm';
+import { LIMITS } from '@medinvest/shared/constants';
+import type {
+  CreatePostInput,
+  SchedulePostInput,
+  UpdateScheduledPostInput,
+} from '@medinvest/shared/validators';
+import { db, scheduledPosts, users } from '../db';
+import { notify } from './notifications';
+import { announcePost, insertPost } from './postPublishing';
+import { parseJsonArray, PostRow } from './posts';
+import { fetchActiveBan } from './roomModeration';
+import { canViewRoomContent, fetchRoomStatus } from './rooms';
+
+// ============================================
+// Types
+// ============================================
+
+export type ScheduledPostRow = typeof scheduledPosts.$inferSelect;
+export type ScheduledPostStatus = ScheduledPostRow['status'];
+
+export const SCHEDULED_POST_STATUSES: ScheduledPostStatus[] = [
+  'scheduled',
+  'published',
+  'cancelled',
+  'failed',
+];
+
+/** Statuses in which the author can still change a scheduled post */
+export const EDITABLE_STATUSES: ScheduledPostStatus[] = ['scheduled', 'failed'];
+
+// ============================================
+// Tuning
+// ============================================
+
+/** How often due scheduled posts are looked for */
+export const PUBLISH_CHECK_INTERVAL_MS = 30 * 1000;
+
+/** Due posts published per check */
+const PUBLISH_BATCH_SIZE = 20;
+
+/** Failed publishes are retried on later checks up to this many times */
+const MAX_PUBLISH_ATTEMPTS = 3;
+
+/** Wait before the first retry of a failed publish, doubling after each failure */
+const PUBLISH_RETRY_BACKOFF_MS = 5 * 60 * 1000;
+
+/** Posts must be scheduled at least this far ahead */
+const MIN_SCHEDULE_LEAD_MS = 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When a post is next due: its scheduled time, or its retry time after a failure */
+const dueAt = sql<Date>`coalesce(${scheduledPosts.nextAttemptAt}, ${scheduledPosts.scheduledAt})`;
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Check a requested publish time. Returns an error message, or null if the
+ * time is far enough ahead and within the scheduling window.
+ */
+export function checkScheduleTime(scheduledAt: Date, now = new Date()): string | null {
+  if (scheduledAt.getTime() < now.getTime() + MIN_SCHEDULE_LEAD_MS) {
+    return 'Scheduled time must be at least a minute from now';
+  }
+  if (scheduledAt.getTime() > now.getTime() + LIMITS.SCHEDULE_AHEAD_MAX_DAYS * DAY_MS) {
+    return `Posts can be scheduled up to ${LIMITS.SCHEDULE_AHEAD_MAX_DAYS} days ahead`;
+  }
+  return null;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * A user's scheduled posts in publish order, optionally only those in one status
+ */
+export async function fetchScheduledPosts(
+  authorId: string,
+  status?: ScheduledPostStatus
+): Promise<ScheduledPostRow[]> {
+  return db
+    .select()
+    .from(scheduledPosts)
+    .where(
+      and(
+        eq(scheduledPosts.authorId, authorId),
+        status ? eq(scheduledPosts.status, status) : undefined
+      )
+    )
+    .orderBy(asc(scheduledPosts.scheduledAt));
+}
+
+export async function fetchScheduledPost(id: string): Promise<ScheduledPostRow | null> {
+  const [row] = await db.select().from(scheduledPosts).where(eq(scheduledPosts.id, id)).limit(1);
+  return row ?? null;
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+export type ScheduleResult =
+  | { status: 'scheduled'; scheduledPost: ScheduledPostRow }
+  | { status: 'limit_reached' };
+
+/**
+ * Schedule a post. The user row is locked so concurrent requests cannot
+ * exceed the limit on pending scheduled posts.
+ */
+export async function schedulePost(
+  authorId: string,
+  input: SchedulePostInput
+): Promise<ScheduleResult> {
+  return db.transaction(async tx => {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, authorId)).for('update');
+
+    const [pending] = await tx
+      .select({ count: count() })
+      .from(scheduledPosts)
+      .where(and(eq(scheduledPosts.authorId, authorId), eq(scheduledPosts.status, 'scheduled')));
+    if (pending.count >= LIMITS.SCHEDULED_POSTS_MAX) return { status: 'limit_reached' };
+
+    const [scheduledPost] = await tx
+      .insert(scheduledPosts)
+      .values({
+        authorId,
+        roomId: input.room_id ?? null,
+        content: input.content.trim(),
+        images: JSON.stringify(input.images ?? []),
+        videoUrl: input.video_url ?? null,
+        poll: input.poll ? JSON.stringify(input.poll) : null,
+        isAnonymous: input.is_anonymous ?? false,
+        scheduledAt: new Date(input.scheduled_at),
+      })
+      .returning();
+    return { status: 'scheduled', scheduledPost };
+  });
+}
+
+/**
+ * Change a post that is still waiting to be published, or retry one that
+ * failed. Returns null if it was published or cancelled in the meantime.
+ */
+export async function updateScheduledPost(
+  id: string,
+  input: UpdateScheduledPostInput
+): Promise<ScheduledPostRow | null> {
+  const [row] = await db
+    .update(scheduledPosts)
+    .set({
+      roomId: input.room_id,
+      content: input.content?.trim(),
+      images: input.images ? JSON.stringify(input.images) : undefined,
+      videoUrl: input.video_url,
+      poll: input.poll ? JSON.stringify(input.poll) : undefined,
+      isAnonymous: input.is_anonymous,
+      scheduledAt: input.scheduled_at ? new Date(input.scheduled_at) : undefined,
+      status: 'scheduled',
+      attempts: 0,
+      nextAttemptAt: null,
+      failureReason: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(scheduledPosts.id, id), inArray(scheduledPosts.status, EDITABLE_STATUSES)))
+    .returning();
+  return row ?? null;
+}
+
+/**
+ * Cancel a post that hasn't been published. The row is kept so it still
+ * shows in the author's list. Returns false if it already went out.
+ */
+export async function cancelScheduledPost(id: string): Promise<boolean> {
+  const [row] = await db
+    .update(scheduledPosts)
+    .set({ status: 'cancelled', updatedAt: new Date() })
+    .where(and(eq(scheduledPosts.id, id), inArray(scheduledPosts.status, EDITABLE_STATUSES)))
+    .returning({ id: scheduledPosts.id });
+  return !!row;
+}
+
+// ============================================
+// Publishing
+// ============================================
+
+function toCreatePostInput(row: ScheduledPostRow): CreatePostInput {
+  return {
+    content: row.content,
+    room_id: row.roomId ?? undefined,
+    is_anonymous: row.isAnonymous,
+    images: parseJsonArray(row.images),
+    video_url: row.videoUrl ?? undefined,
+    poll: row.poll ? JSON.parse(row.poll) : undefined,
+  };
+}
+
+/**
+ * Publish one due post. The scheduled row is locked and marked published in
+ * the same transaction that creates the post, so each post goes out exactly
+ * once even with several servers running, and a crash part way through
+ * leaves it due for the next check.
+ */
+async function publishScheduledPost(id: string, now: Date): Promise<PostRow | null> {
+  return db.transaction(async tx => {
+    const [row] = await tx
+      .select()
+      .from(scheduledPosts)
+      .where(and(eq(scheduledPosts.id, id), eq(scheduledPosts.status, 'scheduled')))
+      .for('update', { skipLocked: true });
+    if (!row) return null;
+    if (row.roomId && (await fetchActiveBan(row.roomId, row.authorId, now))) {
+      throw new Error('You are banned from this room');
+    }
+    if (!(await canViewRoomContent(row.roomId, row.authorId))) {
+      throw new Error('Join this room to post in it');
+    }
+    if (row.roomId && (await fetchRoomStatus(row.roomId)) === 'archived') {
+      throw new Error('This room is archived');
+    }
+
+    const post = await insertPost(tx, row.authorId, toCreatePostInput(row), now);
+    await tx
+      .update(scheduledPosts)
+      .set({ status: 'published', postId: post.id, publishedAt: now, updatedAt: now })
+      .where(eq(scheduledPosts.id, id));
+    return post;
+  });
+}
+
+/**
+ * When to retry a publish that has failed the given number of times
+ */
+export function nextPublishAttemptAt(attempts: number, now = new Date()): Date {
+  return new Date(now.getTime() + PUBLISH_RETRY_BACKOFF_MS * 2 ** (attempts - 1));
+}
+
+/**
+ * Record a failed publish. The post is retried with exponential backoff,
+ * keeping the time the author chose, until it runs out of attempts, when it
+ * is marked failed and the author is told.
+ */
+async function recordPublishFailure(
+  row: ScheduledPostRow,
+  error: unknown,
+  now = new Date()
+): Promise<void> {
+  const attempts = row.attempts + 1;
+  const failed = attempts >= MAX_PUBLISH_ATTEMPTS;
+
+  await db
+    .update(scheduledPosts)
+    .set({
+      attempts,
+      status: failed ? 'failed' : 'scheduled',
+      nextAttemptAt: failed ? null : nextPublishAttemptAt(attempts, now),
+      failureReason: error instanceof Error ? error.message : String(error),
+      updatedAt: now,
+    })
+    .where(and(eq(scheduledPosts.id, row.id), eq(scheduledPosts.status, 'scheduled')));
+
+  if (failed) {
+    await notify({
+      userId: row.authorId,
+      type: 'scheduled_post',
+      title: 'Scheduled post not published',
+      body: 'We could not publish your scheduled post. Edit it to try again.',
+      data: { scheduled_post_id: row.id },
+      channelId: 'social',
+    });
+  }
+}
+
+/**
+ * Publish every scheduled post whose time has come, oldest first. Safe to
+ * run from several servers and after a restart: state lives in the database,
+ * so posts that fell due while the server was down go out on the next run.
+ */
+export async function publishDuePosts(now = new Date()): Promise<number> {
+  const due = await db
+    .select()
+    .from(scheduledPosts)
+    .where(and(eq(scheduledPosts.status, 'scheduled'), lte(dueAt, now)))
+    .orderBy(asc(dueAt))
+    .limit(PUBLISH_BATCH_SIZE);
+
+  let published = 0;
+  for (const row of due) {
+    let post: PostRow | null;
+    try {
+      post = await publishScheduledPost(row.id, now);
+    } catch (error) {
+      console.error('Publish scheduled post error:', error);
+      await recordPublishFailure(row, error, now);
+      continue;
+    }
+    if (!post) continue;
+
+    published++;
+    await announcePost(post);
+    await notify({
+      userId: row.authorId,
+      type: 'scheduled_post',
+      title: 'Your scheduled post is live',
+      body: post.content.slice(0, 100),
+      data: { post_id: post.id, scheduled_post_id: row.id },
+      channelId: 'social',
+    });
+  }
+  return published;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+export function formatScheduledPost(row: ScheduledPostRow) {
+  return {
+    id: row.id,
+    content: row.content,
+    room_id: row.roomId,
+    images: parseJsonArray(row.images),
+    video_url: row.videoUrl,
+    poll: row.poll ? JSON.parse(row.poll) : null,
+    is_anonymous: row.isAnonymous,
+    scheduled_at: row.scheduledAt.toISOString(),
+    status: row.status,
+    post_id: row.postId,
+    failure_reason: row.status === 'failed' ? row.failureReason : null,
+    published_at: row.publishedAt?.toISOString() ?? null,
+    created_at: row.createdAt.toISOString(),
+    updated_at: row.updatedAt.toISOString(),
+  };
+}
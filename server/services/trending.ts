@@ -0,0 +1,202 @@
+import { and, desc, eq, gte, inArray, isNull, or, sql, SQL } from 'drizzle-orm';
+import { extractHashtags } from '@medinvest/shared/utils';
+import { db, hashtagUsages, rooms } from '../db';
+import { ensureHashtags, MAX_TAG_LENGTH } from './hashtags';
+
+// ============================================
+// Types
+// ============================================
+
+export type TrendingWindow = '1h' | '24h' | '7d';
+
+export const TRENDING_WINDOWS: Record<TrendingWindow, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+export type TrendDirection = 'up' | 'stable' | 'down';
+
+export interface TrendingTopic {
+  hashtag: string;
+  count: number;
+  previous_count: number;
+  trend: TrendDirection;
+  change_percent: number;
+}
+
+/**
+ * Where a set of hashtags was used. Comments carry their post id so usages
+ * disappear with the post.
+ */
+export interface HashtagSource {
+  postId: string;
+  commentId?: string | null;
+  roomId: number | null;
+  content: string;
+  createdAt: Date;
+}
+
+// ============================================
+// Tuning
+// ============================================
+
+/** Relative change from the previous window needed to count as up or down */
+const TREND_THRESHOLD = 0.1;
+
+/** How long a computed trending list is served before it is recomputed */
+const CACHE_TTL_MS = 60 * 1000;
+
+export const DEFAULT_TRENDING_LIMIT = 10;
+export const MAX_TRENDING_LIMIT = 50;
+
+// ============================================
+// Recording Usage
+// ============================================
+
+/**
+ * Replace the hashtag usages recorded for a post or comment with the hashtags
+ * in its current content. Call after every create or edit.
+ */
+export async function syncHashtagUsages(source: HashtagSource): Promise<void> {
+  const tags = extractHashtags(source.content).filter(tag => tag.length <= MAX_TAG_LENGTH);
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(hashtagUsages)
+      .where(
+        and(
+          eq(hashtagUsages.postId, source.postId),
+          source.commentId
+            ? eq(hashtagUsages.commentId, source.commentId)
+            : isNull(hashtagUsages.commentId)
+        )
+      );
+
+    if (tags.length > 0) {
+      await ensureHashtags(tags, tx);
+      await tx.insert(hashtagUsages).values(
+        tags.map(tag => ({
+          tag,
+          postId: source.postId,
+          commentId: source.commentId ?? null,
+          roomId: source.roomId,
+          createdAt: source.createdAt,
+        }))
+      );
+    }
+  });
+}
+
+// ============================================
+// Trending Computation
+// ============================================
+
+/**
+ * Classify the change between the current and previous window
+ */
+export function computeTrend(
+  current: number,
+  previous: number
+): { trend: TrendDirection; changePercent: number } {
+  if (previous === 0) {
+    return { trend: current > 0 ? 'up' : 'stable', changePercent: current > 0 ? 100 : 0 };
+  }
+
+  const change = (current - previous) / previous;
+  const trend: TrendDirection =
+    change > TREND_THRESHOLD ? 'up' : change < -TREND_THRESHOLD ? 'down' : 'stable';
+  return { trend, changePercent: Math.round(change * 100) };
+}
+
+/**
+ * Count hashtag usages in the current window and the window before it with a
+ * single range scan over the created_at index
+ */
+async function computeTrending(
+  window: TrendingWindow,
+  roomId: number | undefined
+): Promise<TrendingTopic[]> {
+  const now = Date.now();
+  const windowStart = new Date(now - TRENDING_WINDOWS[window]);
+  const previousStart = new Date(now - 2 * TRENDING_WINDOWS[window]);
+
+  const conditions: SQL[] = [gte(hashtagUsages.createdAt, previousStart)];
+  if (roomId !== undefined) {
+    conditions.push(eq(hashtagUsages.roomId, roomId));
+  } else {
+    // Tags used in private and invite-only rooms stay out of the overall list
+    conditions.push(
+      or(
+        isNull(hashtagUsages.roomId),
+        inArray(
+          hashtagUsages.roomId,
+          db.select({ id: rooms.id }).from(rooms).where(eq(rooms.visibility, 'public'))
+        )
+      )!
+    );
+  }
+
+  const current = sql<number>`count(*) filter (where ${hashtagUsages.createdAt} >= ${windowStart})::int`;
+  const previous = sql<number>`count(*) filter (where ${hashtagUsages.createdAt} < ${windowStart})::int`;
+
+  const rows = await db
+    .select({ tag: hashtagUsages.tag, current, previous })
+    .from(hashtagUsages)
+    .where(and(...conditions))
+    .groupBy(hashtagUsages.tag)
+    .having(sql`count(*) filter (where ${hashtagUsages.createdAt} >= ${windowStart}) > 0`)
+    .orderBy(desc(current), hashtagUsages.tag)
+    .limit(MAX_TRENDING_LIMIT);
+
+  return rows.map(row => {
+    const { trend, changePercent } = computeTrend(row.current, row.previous);
+    return {
+      hashtag: row.tag,
+      count: row.current,
+      previous_count: row.previous,
+      trend,
+      change_percent: changePercent,
+    };
+  });
+}
+
+// ============================================
+// Cache
+// ============================================
+
+interface CacheEntry {
+  expiresAt: number;
+  topics: Promise<TrendingTopic[]>;
+}
+
+const trendingCache = new Map<string, CacheEntry>();
+
+/**
+ * Get trending hashtags for a window, optionally scoped to a room.
+ * Results are cached briefly and concurrent requests share one computation,
+ * so this is safe to call on every home-screen load.
+ */
+export async function getTrendingHashtags(options: {
+  window: TrendingWindow;
+  roomId?: number;
+  limit: number;
+}): Promise<TrendingTopic[]> {
+  const key = `${options.window}:${options.roomId ?? 'all'}`;
+  const cached = trendingCache.get(key);
+
+  if (cached && cached.expiresAt > Date.now()) {
+    return (await cached.topics).slice(0, options.limit);
+  }
+
+  const topics = computeTrending(options.window, options.roomId);
+  trendingCache.set(key, { expiresAt: Date.now() + CACHE_TTL_MS, topics });
+
+  try {
+    return (await topics).slice(0, options.limit);
+  } catch (error) {
+    // Don't keep serving a failed computation
+    trendingCache.delete(key);
+    throw error;
+  }
+}